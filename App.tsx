@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import Sidebar from "./components/Sidebar";
 import Header from "./components/Header";
 import Dashboard from "./components/Dashboard";
@@ -17,6 +17,14 @@ import BrandIvoomi from "./components/BrandIvoomi";
 import BrandElista from "./components/BrandElista";
 import LaptopReports from "./components/LaptopReports";
 import TaskManager from "./components/TaskManager";
+import Invoices from "./components/Invoices";
+import Inventory from "./components/Inventory";
+import Purchasing from "./components/Purchasing";
+import DevicesOut from "./components/DevicesOut";
+import Devices from "./components/Devices";
+import WarrantyClaims from "./components/WarrantyClaims";
+import BrandPayouts from "./components/BrandPayouts";
+import TrackTicket from "./components/TrackTicket";
 import { TicketFormModal } from "./components/TicketFormModal";
 import {
   View,
@@ -29,29 +37,60 @@ import {
   initialSettings,
 } from "./types";
 import { AlertTriangle, ExternalLink, WifiOff } from "lucide-react";
-import { db, isFirebaseConfigured } from "./firebaseConfig";
 import {
-  collection,
-  deleteDoc,
-  doc,
-  getDocs,
-  onSnapshot,
-  orderBy,
-  query,
-  setDoc,
-} from "firebase/firestore";
-import { importCustomersToFirestore } from "./migration/importCustomers";
-import { deleteUser } from "firebase/auth";
+  repository,
+  activeBackendName,
+  EntityMap,
+  EntityName,
+  EntityRepository,
+} from "./services/dataRepository";
+import { DEFAULT_WORKFLOW } from "./services/workflowEngine";
+import { DEFAULT_SLA } from "./services/slaEngine";
+import { DEFAULT_QUOTATION_CONFIG } from "./services/quotationEngine";
+import { DEFAULT_WARRANTY_CONFIG } from "./services/warrantyEngine";
 import {
-  importTicketsToFirestore,
-  supabaseTickets,
-} from "./migration/importTickets";
+  DEFAULT_NOTIFICATION_CONFIG,
+  getNotificationConfig,
+  setNotificationConfig,
+} from "./services/notificationEngine";
+import {
+  DEFAULT_PERMISSION_CONFIG,
+  getPermissionConfig,
+  setPermissionConfig,
+} from "./services/permissionEngine";
+import { setAuditActor } from "./services/ticketAudit";
+import {
+  ALL_STORES,
+  getAssignedStores,
+  getStoreScope,
+  getReadFilter,
+  getUserStores,
+  isInScope,
+  mergeScoped,
+  ReadFilter,
+  scopeByStore,
+  scopeCustomers,
+  scopeTasks,
+} from "./services/storeScope";
+import {
+  getTrackedTicketId,
+  isTrackingRoute,
+} from "./services/ticketTracking";
+import { getDueEscalations } from "./services/escalationEngine";
+import {
+  ensureFirebaseSession,
+  signOutOfFirebase,
+} from "./services/firebaseSession";
+import {
+  endCustomerSession,
+  isCustomerSessionValid,
+} from "./services/customerAuth";
 // --- TYPES ---
 type SyncStatus = "connected" | "local" | "error";
 
 // --- GLOBAL STATE ---
-// Circuit breaker: If true, stops all Firestore attempts for the session to prevent console spam
-let isFirestoreGlobalFailure = false;
+// Circuit breaker: If true, stops all backend attempts for the session to prevent console spam
+let isBackendGlobalFailure = false;
 
 // --- UTILS ---
 // Safe JSON stringify to handle circular references or complex objects that might crash JSON.stringify
@@ -109,16 +148,20 @@ function useSessionStorage<T>(
   return [storedValue, setValue];
 }
 
-// 2. Smart Data Sync Hook (Hybrid: LocalStorage + Firestore)
-function useSmartSync<T>(
-  docName: string,
-  initialValue: T,
-  onStatusChange?: (status: SyncStatus, error?: string) => void
-): [T, (val: T) => void] {
+// 2. Repository Sync Hook (Hybrid: LocalStorage cache + active data backend)
+// `filter` limits the subscription to the rows the user may read (see
+// getReadFilter); with "none" nothing is loaded.
+function useRepositorySync<K extends EntityName>(
+  cacheKey: string,
+  repo: EntityRepository<K>,
+  initialValue: EntityMap[K][],
+  onStatusChange?: (status: SyncStatus, error?: string) => void,
+  filter: ReadFilter = "all"
+): [EntityMap[K][], (val: EntityMap[K][]) => void, boolean] {
   // Always load from local storage first for immediate UI
-  const [data, setData] = useState<T>(() => {
+  const [data, setData] = useState<EntityMap[K][]>(() => {
     try {
-      const item = window.localStorage.getItem(docName);
+      const item = window.localStorage.getItem(cacheKey);
       return safeParse(item, initialValue);
     } catch {
       return initialValue;
@@ -126,48 +169,52 @@ function useSmartSync<T>(
   });
 
   const [isSyncEnabled, setIsSyncEnabled] = useState(true);
+  // True once the backend has delivered data (or we fell back to local only)
+  const [isLoaded, setIsLoaded] = useState(false);
+  const filterKey = JSON.stringify(filter);
 
-  // Effect: Connect to Firestore ONLY if configured and enabled
+  // Effect: Subscribe to the backend ONLY if enabled
   useEffect(() => {
-    // CIRCUIT BREAKER: If we already know the API is disabled, don't try to connect
-    if (isFirestoreGlobalFailure) {
+    // CIRCUIT BREAKER: If we already know the backend is unusable, don't try to connect
+    if (isBackendGlobalFailure) {
       if (isSyncEnabled) setIsSyncEnabled(false);
+      setIsLoaded(true);
       onStatusChange?.("local");
       return;
     }
 
-    // If we've already detected a fatal error locally, don't try to reconnect
-    if (!isFirebaseConfigured || !db || !isSyncEnabled) {
-      if (!isFirebaseConfigured) onStatusChange?.("local");
+    if (!isSyncEnabled || filter === "none") {
+      setIsLoaded(true);
       return;
     }
 
-    const docRef = doc(db, "app_data", docName);
-
-    // Safety try/catch block around snapshot listener
+    // Safety try/catch block around subscription
     let unsub = () => {};
     try {
-      unsub = onSnapshot(
-        docRef,
-        (docSnap) => {
-          if (docSnap.exists()) {
-            const remoteData = docSnap.data().data;
-            if (remoteData) {
-              setData(remoteData);
-              // Also update local storage to keep them in sync
-              try {
-                window.localStorage.setItem(docName, safeStringify(remoteData));
-              } catch (e) {
-                // Ignore local storage errors
-              }
-              onStatusChange?.("connected");
-            }
-          } else {
-            // Doc doesn't exist yet, we are connected but empty.
-            onStatusChange?.("connected");
+      const subscribe: EntityRepository<K>["subscribe"] =
+        filter === "all"
+          ? repo.subscribe
+          : (onData, onError) =>
+              repo.subscribeBy(
+                filter.field as keyof EntityMap[K] & string,
+                filter.value,
+                onData,
+                onError
+              );
+      setIsLoaded(false);
+      unsub = subscribe(
+        (rows) => {
+          setData(rows);
+          setIsLoaded(true);
+          // Also update local storage to keep them in sync
+          try {
+            window.localStorage.setItem(cacheKey, safeStringify(rows));
+          } catch (e) {
+            // Ignore local storage errors
           }
+          onStatusChange?.("connected");
         },
-        (error) => {
+        (error: any) => {
           // --- QUIET ERROR HANDLING ---
           // We intentionally do NOT console.warn here to keep the console clean for the user.
           // We just handle the state logic.
@@ -178,11 +225,11 @@ function useSmartSync<T>(
           // Handle specific errors
           if (
             error.code === "permission-denied" ||
-            error.message.includes("API has not been used") ||
+            error.message?.includes("API has not been used") ||
             error.code === "failed-precondition"
           ) {
-            errorMsg = "Firestore API Not Enabled";
-            isFirestoreGlobalFailure = true; // Trip the circuit breaker for other hooks
+            errorMsg = "Data API Not Enabled";
+            isBackendGlobalFailure = true; // Trip the circuit breaker for other hooks
             setIsSyncEnabled(false); // Stop trying in this hook
             // Fallback to local
             status = "local";
@@ -197,64 +244,54 @@ function useSmartSync<T>(
       );
     } catch (err) {
       // Fallback for immediate crashes
-      isFirestoreGlobalFailure = true;
+      isBackendGlobalFailure = true;
       setIsSyncEnabled(false);
       onStatusChange?.("local");
     }
 
     return () => unsub();
-  }, [docName, isSyncEnabled]); // Keep dependency array clean
+  }, [cacheKey, isSyncEnabled, filterKey]); // Keep dependency array clean
+
+  const updateData = (newValue: EntityMap[K][]) => {
+    const previous = data;
 
-  const updateData = (newValue: T) => {
     // 1. Update State (Optimistic)
     setData(newValue);
 
     // 2. Update Local Storage (Always works)
     try {
-      window.localStorage.setItem(docName, safeStringify(newValue));
+      window.localStorage.setItem(cacheKey, safeStringify(newValue));
     } catch (e) {
       // console.error("Local Storage Write Error", e);
     }
 
-    // 3. Update Firestore (If Configured AND Enabled AND No Global Failure)
-    if (
-      isFirebaseConfigured &&
-      db &&
-      isSyncEnabled &&
-      !isFirestoreGlobalFailure
-    ) {
-      // Use JSON parse/stringify to strip out 'undefined' values which cause Firestore setDoc to throw
-      const sanitizedData = JSON.parse(JSON.stringify(newValue));
-
-      setDoc(
-        doc(db, "app_data", docName),
-        { data: sanitizedData },
-        { merge: true }
-      ).catch((err) => {
+    // 3. Persist only what changed (If Enabled AND No Global Failure)
+    if (isSyncEnabled && !isBackendGlobalFailure) {
+      repo.sync(previous, newValue).catch((err) => {
         // Quietly handle write errors
         if (
           err.code === "permission-denied" ||
-          err.message.includes("API has not been used")
+          err.message?.includes("API has not been used")
         ) {
-          isFirestoreGlobalFailure = true;
+          isBackendGlobalFailure = true;
           setIsSyncEnabled(false);
-          onStatusChange?.("local", "Firestore API Not Enabled");
+          onStatusChange?.("local", "Data API Not Enabled");
         }
       });
     }
   };
 
-  return [data, updateData];
+  return [data, updateData, isLoaded];
 }
 
 // --- DEFAULT DATA ---
 const DEFAULT_SETTINGS: AppSettings = {
   stores: [
-    { id: "s1", name: "DGP Showroom" },
-    { id: "s2", name: "DGP Shop" },
-    { id: "s3", name: "Asansol" },
-    { id: "s4", name: "Ukhra" },
-    { id: "s5", name: "Service Center" },
+    { id: "s1", name: "DGP Showroom", ticketCode: "DS" },
+    { id: "s2", name: "DGP Shop", ticketCode: "DP" },
+    { id: "s3", name: "Asansol", ticketCode: "AS" },
+    { id: "s4", name: "Ukhra", ticketCode: "UK" },
+    { id: "s5", name: "Service Center", ticketCode: "IF" },
   ],
   deviceTypes: [
     { id: "d1", name: "Smartphone" },
@@ -299,7 +336,12 @@ const DEFAULT_SETTINGS: AppSettings = {
     { id: "ld1", name: "Direct Customer" },
     { id: "ld2", name: "Local Dealer" },
   ],
-  sla: { high: 2, medium: 5, low: 10 },
+  workflow: DEFAULT_WORKFLOW,
+  sla: DEFAULT_SLA,
+  quotation: DEFAULT_QUOTATION_CONFIG,
+  warranty: DEFAULT_WARRANTY_CONFIG,
+  notifications: DEFAULT_NOTIFICATION_CONFIG,
+  permissions: DEFAULT_PERMISSION_CONFIG,
   teamMembers: [],
   supportGuidelines: [
     {
@@ -428,22 +470,45 @@ function App() {
   }, []);*/
   }
 
-  useEffect(() => {
-    if (!isFirebaseConfigured || !db) return;
-
-    // Fetch users collection
-    const usersCollection = collection(db, "users");
-
-    const unsubscribe = onSnapshot(
-      usersCollection,
-      (snapshot) => {
-        const users: User[] = snapshot.docs.map((doc) => ({
-          id: doc.id,
-          ...(doc.data() as Omit<User, "id">),
-        }));
+  const [currentUser, setCurrentUser] = useSessionStorage<User | null>(
+    "nexus_current_user_v1",
+    null
+  );
 
-        console.log("Fetched users from Firestore:", users); // <-- Debug
+  // Reads start once the data backend knows who is signed in (a Firebase
+  // session on the Firestore backend, see services/firebaseSession), and ask
+  // only for the rows that user may read.
+  const [sessionUserId, setSessionUserId] = useState<string | null>(null);
+  useEffect(() => {
+    if (!currentUser) {
+      setSessionUserId(null);
+      return;
+    }
+    let cancelled = false;
+    ensureFirebaseSession(currentUser.id).then(
+      () => {
+        if (!cancelled) setSessionUserId(currentUser.id);
+      },
+      (error) => console.error("Error signing in to Firebase:", error)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser?.id]);
+  const sessionUser =
+    currentUser && sessionUserId === currentUser.id ? currentUser : null;
+  // Store assignments can change after sign-in; use the live team record
+  const readUser = sessionUser
+    ? appSettings.teamMembers.find((m) => m.id === sessionUser.id) ??
+      sessionUser
+    : null;
+  const isStaffSession = !!sessionUser && sessionUser.role !== "CUSTOMER";
 
+  useEffect(() => {
+    if (!isStaffSession) return;
+    // Team members come from the shared `users` collection
+    const unsubscribe = repository.users.subscribe(
+      (users) => {
         setAppSettings((prev) => ({ ...prev, teamMembers: users }));
       },
       (error) => {
@@ -452,82 +517,260 @@ function App() {
     );
 
     return () => unsubscribe();
-  }, []);
+  }, [isStaffSession]);
 
-  const [customers, setCustomers] = useSmartSync<Customer[]>(
+  const [customers, setCustomers] = useRepositorySync(
     "customers",
+    repository.customers,
     DEFAULT_CUSTOMERS,
-    handleSyncStatus
+    handleSyncStatus,
+    getReadFilter("customers", readUser)
   );
-  const fetchCustomers = async () => {
-    const snapshot = await getDocs(collection(db, "customers"));
-
-    console.log("🔥 TOTAL DOCS:", snapshot.size); // IMPORTANT
-
-    const data: Customer[] = snapshot.docs.map((doc) => {
-      const d = doc.data();
-      return {
-        id: doc.id,
-        name: d.name ?? "",
-        email: d.email ?? "",
-        mobile: d.mobile ?? "",
-        address: d.address ?? "",
-        photo_url: d.photo_url ?? null,
-      };
-    });
-
-    console.log(" MAPPED CUSTOMERS:", data.length);
-
-    setCustomers(data);
-  };
-  useEffect(() => {
-    fetchCustomers();
-  }, []);
 
-  const [tickets, setTickets] = useSmartSync<Ticket[]>(
+  const [tickets, setTickets] = useRepositorySync(
     "tickets",
+    repository.tickets,
     [],
-    handleSyncStatus
+    handleSyncStatus,
+    getReadFilter("tickets", readUser)
   );
-  //const [tickets, setTickets] = useState<Ticket[]>([]);
 
-  const [tasks, setTasks] = useSmartSync<Task[]>("tasks", [], handleSyncStatus);
-  const [laptopReports, setLaptopReports] = useSmartSync<Report[]>(
+  const [tasks, setTasks] = useRepositorySync(
+    "tasks",
+    repository.tasks,
+    [],
+    handleSyncStatus,
+    getReadFilter("tasks", readUser)
+  );
+  const [laptopReports, setLaptopReports] = useRepositorySync(
     "laptop_reports",
+    repository.laptopReports,
     [],
-    handleSyncStatus
+    handleSyncStatus,
+    getReadFilter("laptop_reports", readUser)
   ); // Lifted state
-
-  const [currentUser, setCurrentUser] = useSessionStorage<User | null>(
-    "nexus_current_user_v1",
-    null
+  const [quotations] = useRepositorySync(
+    "quotations",
+    repository.quotations,
+    [],
+    handleSyncStatus,
+    getReadFilter("quotations", readUser)
   );
+  const [invoices] = useRepositorySync(
+    "invoices",
+    repository.invoices,
+    [],
+    handleSyncStatus,
+    getReadFilter("invoices", readUser)
+  );
+  const [payments] = useRepositorySync(
+    "payments",
+    repository.payments,
+    [],
+    handleSyncStatus,
+    getReadFilter("payments", readUser)
+  );
+  const [parts] = useRepositorySync(
+    "parts",
+    repository.parts,
+    [],
+    handleSyncStatus,
+    getReadFilter("parts", readUser)
+  );
+  const [stockMovements] = useRepositorySync(
+    "stock_movements",
+    repository.stockMovements,
+    [],
+    handleSyncStatus,
+    getReadFilter("stock_movements", readUser)
+  );
+  const [suppliers] = useRepositorySync(
+    "suppliers",
+    repository.suppliers,
+    [],
+    handleSyncStatus,
+    getReadFilter("suppliers", readUser)
+  );
+  const [purchaseOrders] = useRepositorySync(
+    "purchase_orders",
+    repository.purchaseOrders,
+    [],
+    handleSyncStatus,
+    getReadFilter("purchase_orders", readUser)
+  );
+  const [transfers] = useRepositorySync(
+    "device_transfers",
+    repository.deviceTransfers,
+    [],
+    handleSyncStatus,
+    getReadFilter("device_transfers", readUser)
+  );
+  const [devices] = useRepositorySync(
+    "devices",
+    repository.devices,
+    [],
+    handleSyncStatus,
+    getReadFilter("devices", readUser)
+  );
+  const [warranties] = useRepositorySync(
+    "warranties",
+    repository.warranties,
+    [],
+    handleSyncStatus,
+    getReadFilter("warranties", readUser)
+  );
+  const [warrantyClaims] = useRepositorySync(
+    "warranty_claims",
+    repository.warrantyClaims,
+    [],
+    handleSyncStatus,
+    getReadFilter("warranty_claims", readUser)
+  );
+  const [brandPayouts] = useRepositorySync(
+    "brand_payouts",
+    repository.brandPayouts,
+    [],
+    handleSyncStatus,
+    getReadFilter("brand_payouts", readUser)
+  );
+  // Only the signed-in user's notifications are loaded
+  const [notifications, setNotifications, notificationsLoaded] =
+    useRepositorySync(
+      "notifications",
+      repository.notifications,
+      [],
+      handleSyncStatus,
+      getReadFilter("notifications", readUser)
+    );
   const [teamMembers, setTeamMembers] = useState<User[]>([]);
 
+  // Ticket history entries are attributed to whoever is logged in
   useEffect(() => {
-    if (!isFirebaseConfigured || !db) return;
+    setAuditActor(currentUser);
+  }, [currentUser]);
 
-    const q = query(collection(db, "tickets"), orderBy("createdAt", "desc"));
+  // Status messages to customers follow the templates in settings
+  useEffect(() => {
+    setNotificationConfig(getNotificationConfig(appSettings));
+  }, [appSettings.notifications]);
+
+  // Menus and buttons below read the role matrix while rendering, so it is
+  // updated here rather than in an effect (which would lag one render).
+  setPermissionConfig(getPermissionConfig(appSettings));
+
+  // --- STORE SCOPE ---
+  // Staff views only get the rows of the user's stores (or the one picked in
+  // the header). The scoped setters keep the rows a view could not see.
+  const [activeStore, setActiveStore] = useSessionStorage<string>(
+    "nexus_active_store_v1",
+    ALL_STORES
+  );
+  // Store assignments can change after sign-in; use the live team record
+  const staffProfile = currentUser
+    ? appSettings.teamMembers.find((m) => m.id === currentUser.id) ??
+      currentUser
+    : null;
+  const storeScope = staffProfile
+    ? getStoreScope(staffProfile, activeStore)
+    : null;
+
+  const scopedTickets = scopeByStore(tickets, storeScope);
+  const setScopedTickets = (next: Ticket[]) =>
+    setTickets(mergeScoped(tickets, scopedTickets, next));
+  const scopedCustomers = scopeCustomers(customers, tickets, storeScope);
+  const setScopedCustomers = (next: Customer[]) =>
+    setCustomers(mergeScoped(customers, scopedCustomers, next));
+  const scopedTasks = scopeTasks(tasks, appSettings.teamMembers, storeScope);
+  const setScopedTasks = (next: Task[]) =>
+    setTasks(mergeScoped(tasks, scopedTasks, next));
+  const scopedInvoices = scopeByStore(invoices, storeScope);
+  const scopedPayments = scopeByStore(payments, storeScope);
+
+  // --- NOTIFICATIONS & SLA ESCALATIONS ---
+  const myNotifications = currentUser
+    ? notifications
+        .filter((n) => n.userId === currentUser.id)
+        .sort((a, b) => b.createdAt - a.createdAt)
+    : [];
+
+  // Re-checked every minute, and whenever tickets or settings change. Waits
+  // for the stored notifications so already-sent (and read) ones are known;
+  // they are read through a ref so marking one read does not re-run the
+  // check.
+  const notificationsRef = useRef(notifications);
+  notificationsRef.current = notifications;
+  const [escalationTick, setEscalationTick] = useState(Date.now());
+  useEffect(() => {
+    const timer = window.setInterval(
+      () => setEscalationTick(Date.now()),
+      60 * 1000
+    );
+    return () => window.clearInterval(timer);
+  }, []);
 
-    const unsubscribe = onSnapshot(
-      q,
-      (snapshot) => {
-        const list: Ticket[] = snapshot.docs.map((doc) => ({
-          id: doc.id,
-          ...(doc.data() as Omit<Ticket, "id">),
-        }));
+  useEffect(() => {
+    if (!currentUser || !notificationsLoaded) return;
+    const stored = notificationsRef.current;
+    const known = new Set(stored.map((n) => n.id));
+    const fresh = getDueEscalations(tickets, appSettings, currentUser).filter(
+      (n) => !known.has(n.id)
+    );
+    if (fresh.length > 0) setNotifications([...stored, ...fresh]);
+  }, [escalationTick, tickets, appSettings, currentUser, notificationsLoaded]);
 
-        setTickets(list);
-        setSyncStatus("connected");
-      },
-      (error) => {
-        console.error("Tickets listener error:", error);
-        setSyncStatus("local");
-      }
+  const handleMarkRead = (ids: string[]) => {
+    setNotifications(
+      notifications.map((n) => (ids.includes(n.id) ? { ...n, read: true } : n))
     );
+  };
 
-    return () => unsubscribe();
+  // Deep links: #/ticket/<id> opens that ticket in the ticket modal
+  const readLinkedTicketId = () =>
+    window.location.hash.match(/^#\/ticket\/(.+)$/)?.[1] ?? null;
+  const [linkedTicketId, setLinkedTicketId] = useState<string | null>(
+    readLinkedTicketId
+  );
+  // Public tracking page: #/track[/<ticketId>], shown while signed out
+  const [isTracking, setIsTracking] = useState(() => isTrackingRoute());
+  useEffect(() => {
+    const onHashChange = () => {
+      setLinkedTicketId(readLinkedTicketId());
+      setIsTracking(isTrackingRoute());
+    };
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
   }, []);
+  const linkedTicket =
+    linkedTicketId && currentUser?.role !== "CUSTOMER"
+      ? tickets.find(
+          (t) =>
+            t.id === linkedTicketId &&
+            isInScope(t.store, getAssignedStores(staffProfile!))
+        ) ?? null
+      : null;
+
+  const openTicket = (ticketId: string) => {
+    window.location.hash = `/ticket/${ticketId}`;
+  };
+
+  // Laptop QC report picked from a scan, opened once Data Management mounts
+  const [scannedReportId, setScannedReportId] = useState<string | null>(null);
+  const openScannedReport = (report: Report) => {
+    setScannedReportId(report.id);
+    setCurrentView("laptop_data");
+  };
+
+  const closeTicketModal = () => {
+    setIsGlobalTicketModalOpen(false);
+    if (linkedTicketId) {
+      window.history.replaceState(
+        null,
+        "",
+        window.location.pathname + window.location.search
+      );
+      setLinkedTicketId(null);
+    }
+  };
 
   // --- HANDLERS ---
   const handleLogin = (user: User) => {
@@ -540,10 +783,24 @@ function App() {
   };
 
   const handleLogout = () => {
+    if (currentUser?.role === "CUSTOMER") endCustomerSession();
+    else
+      signOutOfFirebase().catch((err) =>
+        console.error("Firebase sign-out failed:", err)
+      );
     setCurrentUser(null);
     setCurrentView("dashboard");
   };
 
+  // Customer sessions expire; checked on the escalation minute tick.
+  // Signing out also ends the auth session, not just the view.
+  useEffect(() => {
+    if (currentUser?.role !== "CUSTOMER") return;
+    isCustomerSessionValid(currentUser.id).then((valid) => {
+      if (!valid) handleLogout();
+    });
+  }, [currentUser, escalationTick]);
+
   const handleAction = (action: string) => {
     if (action === "new_ticket") {
       // Open the global modal, do NOT navigate yet. Navigation happens on success.
@@ -563,6 +820,7 @@ function App() {
               currentUser={currentUser}
               tickets={tickets}
               setTickets={setTickets}
+              quotations={quotations}
               settings={appSettings}
             />
           );
@@ -574,6 +832,9 @@ function App() {
               setCustomers={setCustomers}
               updateCurrentUser={setCurrentUser}
               tickets={tickets}
+              invoices={invoices}
+              payments={payments}
+              settings={appSettings}
             />
           );
         case "customer_supports":
@@ -584,6 +845,7 @@ function App() {
               currentUser={currentUser}
               tickets={tickets}
               setTickets={setTickets}
+              quotations={quotations}
               settings={appSettings}
             />
           );
@@ -602,8 +864,12 @@ function App() {
       case "dashboard":
         return (
           <Dashboard
-            tickets={tickets}
-            customers={customers}
+            tickets={scopedTickets}
+            customers={scopedCustomers}
+            parts={parts}
+            stockMovements={stockMovements}
+            suppliers={suppliers}
+            purchaseOrders={purchaseOrders}
             settings={appSettings}
             currentUser={currentUser}
             onNavigate={setCurrentView}
@@ -613,10 +879,21 @@ function App() {
       case "tickets":
         return (
           <TicketList
-            tickets={tickets}
-            setTickets={setTickets}
-            customers={customers}
+            tickets={scopedTickets}
+            setTickets={setScopedTickets}
+            customers={customers} // shared: repeat customers from any store
             setCustomers={setCustomers}
+            quotations={quotations}
+            invoices={scopedInvoices}
+            payments={scopedPayments}
+            parts={parts}
+            stockMovements={stockMovements}
+            transfers={transfers}
+            suppliers={suppliers}
+            warranties={warranties}
+            warrantyClaims={warrantyClaims}
+            reports={laptopReports}
+            onOpenReport={openScannedReport}
             settings={appSettings}
             currentUser={currentUser}
           />
@@ -624,8 +901,9 @@ function App() {
       case "review_reports":
         return (
           <ReviewReports
-            tickets={tickets}
-            setTickets={setTickets}
+            tickets={scopedTickets}
+            setTickets={setScopedTickets}
+            settings={appSettings}
             currentUser={currentUser}
           />
         );
@@ -656,9 +934,9 @@ function App() {
       case "task_schedule":
         return (
           <Schedule
-            tasks={tasks}
-            setTasks={setTasks}
-            tickets={tickets}
+            tasks={scopedTasks}
+            setTasks={setScopedTasks}
+            tickets={scopedTickets}
             settings={appSettings}
             currentUser={currentUser}
           />
@@ -705,34 +983,113 @@ function App() {
             currentUser={currentUser}
             reports={laptopReports}
             setReports={setLaptopReports}
+            openReportId={scannedReportId}
+            onReportOpened={() => setScannedReportId(null)}
           />
         );
 
       case "customers":
         return (
-          <CustomerList customers={customers} setCustomers={setCustomers} />
+          <CustomerList
+            customers={scopedCustomers}
+            setCustomers={setScopedCustomers}
+          />
         );
       case "brand_ivoomi":
         return <BrandIvoomi />;
       case "brand_elista":
         return <BrandElista />;
+      case "brand_payouts":
+        return (
+          <BrandPayouts
+            tickets={scopedTickets}
+            payouts={brandPayouts}
+            settings={appSettings}
+            currentUser={currentUser}
+            onOpenTicket={openTicket}
+          />
+        );
       case "schedule":
         return (
           <Schedule
-            tasks={tasks}
-            setTasks={setTasks}
-            tickets={tickets}
+            tasks={scopedTasks}
+            setTasks={setScopedTasks}
+            tickets={scopedTickets}
             settings={appSettings}
             currentUser={currentUser}
           />
         );
       case "reports":
-        return <Reports tickets={tickets} settings={appSettings} />;
+        return (
+          <Reports
+            tickets={scopedTickets}
+            invoices={scopedInvoices}
+            payments={scopedPayments}
+            settings={appSettings}
+          />
+        );
+      case "inventory":
+        return (
+          <Inventory
+            parts={parts}
+            stockMovements={stockMovements}
+            settings={appSettings}
+            currentUser={currentUser}
+          />
+        );
+      case "transfers":
+        return (
+          <DevicesOut
+            transfers={transfers}
+            tickets={scopedTickets}
+            settings={appSettings}
+            onOpenTicket={openTicket}
+          />
+        );
+      case "devices":
+        return (
+          <Devices
+            devices={devices}
+            tickets={scopedTickets}
+            reports={laptopReports}
+            customers={scopedCustomers}
+            settings={appSettings}
+            currentUser={currentUser}
+            onOpenTicket={openTicket}
+          />
+        );
+      case "warranty_claims":
+        return (
+          <WarrantyClaims
+            claims={warrantyClaims}
+            currentUser={currentUser}
+            onOpenTicket={openTicket}
+          />
+        );
+      case "purchasing":
+        return (
+          <Purchasing
+            purchaseOrders={purchaseOrders}
+            suppliers={suppliers}
+            parts={parts}
+            settings={appSettings}
+            currentUser={currentUser}
+          />
+        );
+      case "invoices":
+        return (
+          <Invoices
+            invoices={scopedInvoices}
+            settings={appSettings}
+            currentUser={currentUser}
+            onOpenTicket={openTicket}
+          />
+        );
       case "supports":
         return (
           <Supports
-            tickets={tickets}
-            customers={customers}
+            tickets={scopedTickets}
+            customers={scopedCustomers}
             tasks={tasks}
             settings={appSettings}
             onUpdateSettings={setAppSettings}
@@ -744,6 +1101,7 @@ function App() {
             currentUser={currentUser}
             tickets={tickets}
             onUpdateTickets={setTickets}
+            parts={parts}
             settings={appSettings}
             onUpdateSettings={handleUpdateSettings}
           />
@@ -751,8 +1109,12 @@ function App() {
       default:
         return (
           <Dashboard
-            tickets={tickets}
-            customers={customers}
+            tickets={scopedTickets}
+            customers={scopedCustomers}
+            parts={parts}
+            stockMovements={stockMovements}
+            suppliers={suppliers}
+            purchaseOrders={purchaseOrders}
             settings={appSettings}
             currentUser={currentUser}
             onNavigate={setCurrentView}
@@ -762,10 +1124,21 @@ function App() {
     }
   };
 
+  if (!currentUser && isTracking) {
+    return (
+      <TrackTicket
+        initialTicketId={getTrackedTicketId()}
+        onBack={() => (window.location.hash = "")}
+        workflow={appSettings.workflow}
+      />
+    );
+  }
+
   if (!currentUser) {
     return (
       <Login
         onLogin={handleLogin}
+        onTrackRepair={() => (window.location.hash = "/track")}
         teamMembers={appSettings.teamMembers}
         customers={customers}
         setCustomers={setCustomers}
@@ -796,6 +1169,18 @@ function App() {
               : currentView.replace(/_/g, " ")
           }
           currentUser={currentUser}
+          notifications={myNotifications}
+          onMarkRead={handleMarkRead}
+          onOpenTicket={openTicket}
+          stores={
+            currentUser.role === "CUSTOMER"
+              ? []
+              : getUserStores(staffProfile!, appSettings.stores).map(
+                  (s) => s.name
+                )
+          }
+          activeStore={activeStore}
+          onStoreChange={setActiveStore}
         />
 
         {/* OFFLINE / LOCAL MODE BANNER */}
@@ -814,7 +1199,7 @@ function App() {
               </div>
             </div>
             <div className="flex items-center gap-4">
-              {syncError?.includes("API") && (
+              {syncError?.includes("API") && activeBackendName === "firestore" && (
                 <a
                   href="https://console.firebase.google.com/project/infofix-services/firestore"
                   target="_blank"
@@ -861,20 +1246,29 @@ function App() {
           </div>
         </main>
 
-        {/* Global Ticket Form Modal */}
+        {/* Global Ticket Form Modal (new tickets and deep-linked tickets) */}
         <TicketFormModal
-          isOpen={isGlobalTicketModalOpen}
-          onClose={() => setIsGlobalTicketModalOpen(false)}
+          isOpen={isGlobalTicketModalOpen || !!linkedTicket}
+          onClose={closeTicketModal}
           customers={customers}
           setCustomers={setCustomers}
           tickets={tickets}
           setTickets={setTickets}
+          quotations={quotations}
+          invoices={invoices}
+          payments={payments}
+          parts={parts}
+          stockMovements={stockMovements}
+          transfers={transfers}
+          suppliers={suppliers}
+          warranties={warranties}
+          warrantyClaims={warrantyClaims}
           settings={appSettings}
           currentUser={currentUser}
-          editingTicket={null} // Always null for new tickets
+          editingTicket={linkedTicket} // null for new tickets
           onSuccess={() => {
-            setIsGlobalTicketModalOpen(false);
-            setCurrentView("tickets"); // Navigate to tickets list on success
+            if (!linkedTicket) setCurrentView("tickets"); // Navigate to tickets list on success
+            closeTicketModal();
           }}
         />
       </div>
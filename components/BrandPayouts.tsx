@@ -0,0 +1,387 @@
+import React, { useMemo, useState } from "react";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  ExternalLink,
+  Loader2,
+  Plus,
+  Trash2,
+  Wallet,
+} from "lucide-react";
+import {
+  AppSettings,
+  BrandPayout,
+  Ticket,
+  User as AppUser,
+} from "../types";
+import {
+  BrandPayoutDraft,
+  reconcileBrandMonth,
+  recordBrandPayout,
+  removeBrandPayout,
+} from "@/services/brandServiceEngine";
+import { formatQuoteAmount } from "@/services/quotationEngine";
+
+interface BrandPayoutsProps {
+  tickets: Ticket[];
+  payouts: BrandPayout[];
+  settings: AppSettings;
+  currentUser: AppUser;
+  onOpenTicket: (ticketId: string) => void;
+}
+
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+const emptyDraft = (month: string): BrandPayoutDraft => ({
+  month,
+  amount: 0,
+  receivedOn: new Date().toISOString().slice(0, 10),
+  reference: "",
+  jobNumbers: "",
+  notes: "",
+});
+
+export default function BrandPayouts({
+  tickets,
+  payouts,
+  settings,
+  currentUser,
+  onOpenTicket,
+}: BrandPayoutsProps) {
+  const brands = settings.serviceBrands;
+  const [brandId, setBrandId] = useState(brands[0]?.id || "");
+  const [month, setMonth] = useState(currentMonth());
+  const [draft, setDraft] = useState<BrandPayoutDraft>(emptyDraft(month));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const brand = brands.find((b) => b.id === brandId);
+  const result = useMemo(
+    () =>
+      brand
+        ? reconcileBrandMonth(brand, month, tickets, payouts, settings.workflow)
+        : null,
+    [brand, month, tickets, payouts, settings.workflow]
+  );
+
+  const handleMonth = (value: string) => {
+    setMonth(value);
+    setDraft({ ...draft, month: value });
+  };
+
+  const handleRecord = async () => {
+    if (!brand) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await recordBrandPayout(brand, draft, currentUser);
+      setDraft(emptyDraft(month));
+    } catch (err: any) {
+      setError(err.message || "Failed to record the payout");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (payout: BrandPayout) => {
+    if (
+      !window.confirm(
+        `Remove the ${formatQuoteAmount(payout.amount)} payout received on ${
+          payout.receivedOn
+        }?`
+      )
+    )
+      return;
+    try {
+      await removeBrandPayout(payout, currentUser);
+    } catch (err: any) {
+      alert(err.message || "Failed to remove the payout");
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+  const labelClass = "text-xs font-bold text-slate-500 uppercase mb-1 block";
+
+  return (
+    <div className="space-y-6 pb-20 animate-in fade-in duration-500">
+      {/* 1. BRAND & MONTH */}
+      <div className="bg-white p-4 rounded-2xl border border-slate-200 shadow-sm flex flex-col md:flex-row gap-3 md:items-center">
+        <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2 flex-1">
+          <Wallet size={20} className="text-indigo-600" /> Brand Payout
+          Reconciliation
+        </h2>
+        <select
+          value={brandId}
+          onChange={(e) => setBrandId(e.target.value)}
+          className="px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg outline-none"
+        >
+          {brands.map((b) => (
+            <option key={b.id} value={b.id}>
+              {b.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="month"
+          value={month}
+          onChange={(e) => handleMonth(e.target.value)}
+          className="px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg outline-none"
+        />
+      </div>
+
+      {!brand || !result ? (
+        <div className="bg-white rounded-2xl border border-slate-200 text-center py-16 text-slate-400 text-sm">
+          Add partner brands in Settings → Service Brands.
+        </div>
+      ) : (
+        <>
+          {/* 2. SUMMARY */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+              <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                Jobs Done
+              </p>
+              <p className="text-2xl font-bold text-slate-800 mt-1">
+                {result.jobs.length}
+              </p>
+            </div>
+            <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+              <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                Expected
+              </p>
+              <p className="text-2xl font-bold text-slate-800 mt-1">
+                {formatQuoteAmount(result.expected)}
+              </p>
+            </div>
+            <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+              <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                Received
+              </p>
+              <p className="text-2xl font-bold text-slate-800 mt-1">
+                {formatQuoteAmount(result.received)}
+              </p>
+            </div>
+            <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+              <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                Difference
+              </p>
+              <p
+                className={`text-2xl font-bold mt-1 ${
+                  result.difference < 0
+                    ? "text-red-600"
+                    : result.difference > 0
+                    ? "text-emerald-600"
+                    : "text-slate-800"
+                }`}
+              >
+                {formatQuoteAmount(result.difference)}
+              </p>
+            </div>
+          </div>
+
+          {(result.unrated > 0 || result.unknownJobNumbers.length > 0) && (
+            <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800 space-y-1">
+              {result.unrated > 0 && (
+                <p className="flex items-center gap-2">
+                  <AlertTriangle size={14} /> {result.unrated} job(s) have no
+                  repair category or rate, so the expected total is short.
+                </p>
+              )}
+              {result.unknownJobNumbers.length > 0 && (
+                <p className="flex items-center gap-2">
+                  <AlertTriangle size={14} /> On the statement but not found
+                  here: {result.unknownJobNumbers.join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* 3. JOBS */}
+          <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+              <h3 className="font-bold text-slate-800">
+                {brand.name} jobs resolved in {month}
+              </h3>
+              <span className="text-xs font-bold text-slate-500">
+                {result.unpaid.length} not on a statement
+              </span>
+            </div>
+            <div className="divide-y divide-slate-100">
+              {result.jobs.map((job) => (
+                <div
+                  key={job.ticket.id}
+                  className="px-6 py-3 flex flex-col md:flex-row md:items-center gap-2 md:gap-6"
+                >
+                  <button
+                    onClick={() => onOpenTicket(job.ticket.id)}
+                    className="font-mono text-sm font-bold text-indigo-600 hover:text-indigo-700 flex items-center gap-1 w-40"
+                  >
+                    {job.ticket.ticketId} <ExternalLink size={12} />
+                  </button>
+                  <span className="font-mono text-sm text-slate-700 w-32">
+                    {job.jobNumber || (
+                      <span className="text-red-600 font-sans text-xs font-bold">
+                        No job number
+                      </span>
+                    )}
+                  </span>
+                  <span className="flex-1 min-w-0 text-sm text-slate-600 truncate">
+                    {job.category || "Uncategorised"}
+                    {job.lateDays > 0 && (
+                      <span className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-red-50 text-red-700 border border-red-100 font-bold">
+                        {job.lateDays}d late
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-sm font-mono text-slate-800 w-28 text-right">
+                    {formatQuoteAmount(job.expected)}
+                  </span>
+                  <span className="w-36 text-right text-xs">
+                    {job.paidBy ? (
+                      <span className="text-emerald-700 font-bold flex items-center justify-end gap-1">
+                        <CheckCircle2 size={12} />
+                        {job.paidBy.reference || job.paidBy.receivedOn}
+                      </span>
+                    ) : (
+                      <span className="text-amber-700 font-bold">Unpaid</span>
+                    )}
+                  </span>
+                </div>
+              ))}
+              {result.jobs.length === 0 && (
+                <div className="text-center py-10 text-slate-400 text-sm">
+                  No {brand.name} jobs were resolved in this month.
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* 4. PAYOUTS */}
+          <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+              <h3 className="font-bold text-slate-800">
+                Payouts for {month}
+              </h3>
+            </div>
+            <div className="divide-y divide-slate-100">
+              {result.payouts.map((payout) => (
+                <div
+                  key={payout.id}
+                  className="px-6 py-3 flex items-center gap-6 text-sm"
+                >
+                  <span className="text-slate-500 w-28">
+                    {payout.receivedOn}
+                  </span>
+                  <span className="flex-1 min-w-0 text-slate-700 truncate">
+                    {payout.reference || "No reference"} ·{" "}
+                    {payout.jobNumbers.length} job(s) on statement
+                    {payout.notes && ` · ${payout.notes}`}
+                  </span>
+                  <span className="font-mono font-bold text-slate-800">
+                    {formatQuoteAmount(payout.amount)}
+                  </span>
+                  <button
+                    onClick={() => handleRemove(payout)}
+                    className="text-slate-400 hover:text-red-600"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+              {result.payouts.length === 0 && (
+                <div className="text-center py-6 text-slate-400 text-sm">
+                  No payouts recorded for this month.
+                </div>
+              )}
+            </div>
+
+            <div className="p-6 border-t border-slate-100 space-y-4">
+              {error && (
+                <div className="p-3 bg-red-50 text-red-600 text-xs font-bold rounded-lg flex items-center gap-2">
+                  <AlertTriangle size={14} />
+                  {error}
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className={labelClass}>Amount</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={draft.amount || ""}
+                    onChange={(e) =>
+                      setDraft({ ...draft, amount: Number(e.target.value) })
+                    }
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Received On</label>
+                  <input
+                    type="date"
+                    value={draft.receivedOn}
+                    onChange={(e) =>
+                      setDraft({ ...draft, receivedOn: e.target.value })
+                    }
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Reference</label>
+                  <input
+                    value={draft.reference}
+                    onChange={(e) =>
+                      setDraft({ ...draft, reference: e.target.value })
+                    }
+                    placeholder="UTR / statement no."
+                    className={inputClass}
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className={labelClass}>
+                    Job Numbers On The Statement
+                  </label>
+                  <textarea
+                    rows={2}
+                    value={draft.jobNumbers}
+                    onChange={(e) =>
+                      setDraft({ ...draft, jobNumbers: e.target.value })
+                    }
+                    placeholder="Paste job numbers, separated by commas or new lines"
+                    className={`${inputClass} resize-none font-mono`}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Notes</label>
+                  <textarea
+                    rows={2}
+                    value={draft.notes}
+                    onChange={(e) =>
+                      setDraft({ ...draft, notes: e.target.value })
+                    }
+                    className={`${inputClass} resize-none`}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <button
+                  onClick={handleRecord}
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 flex items-center gap-2 disabled:opacity-50"
+                >
+                  {isSaving ? (
+                    <Loader2 size={16} className="animate-spin" />
+                  ) : (
+                    <Plus size={16} />
+                  )}
+                  Record Payout
+                </button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -15,16 +15,7 @@ import {
   AlertTriangle,
 } from "lucide-react";
 import { Customer } from "../types";
-import {
-  collection,
-  addDoc,
-  updateDoc,
-  deleteDoc,
-  doc,
-  onSnapshot,
-  serverTimestamp,
-} from "firebase/firestore";
-import { db } from "@/firebaseConfig";
+import { repository } from "@/services/dataRepository";
 {
   /*interface CustomerListProps {
   customers: Customer[];
@@ -93,23 +84,23 @@ const CustomerFormModal: React.FC<{
     }
 
     if (editingCustomer) {
-      await updateDoc(doc(db, "customers", editingCustomer.id), {
+      await repository.customers.update(editingCustomer.id, {
         name: formData.name,
         email: formData.email || "",
         mobile: formData.mobile,
         address: formData.address || "",
         notes: formData.notes || "",
-        updatedAt: serverTimestamp(),
+        notificationsOptOut: !!formData.notificationsOptOut,
       });
     } else {
-      await addDoc(collection(db, "customers"), {
+      await repository.customers.create({
         name: formData.name,
         email: formData.email || "",
         mobile: formData.mobile,
         address: formData.address || "",
         notes: formData.notes || "",
-        role: "customer",
-        createdAt: serverTimestamp(),
+        notificationsOptOut: !!formData.notificationsOptOut,
+        photo_url: null,
       });
     }
 
@@ -250,6 +241,20 @@ const CustomerFormModal: React.FC<{
             </div>
           </div>
 
+          <label className="flex items-center gap-2 text-sm text-slate-700 ml-1">
+            <input
+              type="checkbox"
+              checked={!!formData.notificationsOptOut}
+              onChange={(e) =>
+                setFormData({
+                  ...formData,
+                  notificationsOptOut: e.target.checked,
+                })
+              }
+            />
+            Do not send SMS, WhatsApp or email status updates
+          </label>
+
           <div className="pt-2 flex gap-3">
             <button
               type="button"
@@ -302,18 +307,11 @@ const CustomerList: React.FC = () => {
   const handleDelete = async (id: string) => {
     if (window.confirm("Are you sure you want to delete this customer?")) {
       //setCustomers(customers.filter((c) => c.id !== id));
-      await deleteDoc(doc(db, "customers", id));
+      await repository.customers.remove(id);
     }
   };
   React.useEffect(() => {
-    const unsub = onSnapshot(collection(db, "customers"), (snap) => {
-      const list = snap.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      })) as Customer[];
-
-      setCustomers(list);
-    });
+    const unsub = repository.customers.subscribe(setCustomers);
 
     return () => unsub();
   }, []);
@@ -1,5 +1,12 @@
 import React, { useState, useMemo, useEffect } from "react";
-import { Ticket, User, AppSettings, TicketHistory } from "../types";
+import {
+  Ticket,
+  User,
+  AppSettings,
+  TicketHistory,
+  Quotation,
+  WorkflowConfig,
+} from "../types";
 import {
   Plus,
   Search,
@@ -25,29 +32,60 @@ import {
   GitCommit,
   X,
   User as UserIcon,
+  Receipt,
+  Loader2,
 } from "lucide-react";
+import { createTicket } from "@/services/ticketNumbering";
+import {
+  formatQuoteAmount,
+  getCustomerRevision,
+  getRevisionStatus,
+  QuoteDecision,
+  quoteNumber,
+  respondToQuotation,
+} from "@/services/quotationEngine";
+import { calculateQuoteTotals } from "@/services/billing";
+import { getCustomerTimeline } from "@/services/ticketAudit";
 import {
-  addDoc,
-  collection,
-  onSnapshot,
-  query,
-  serverTimestamp,
-  where,
-} from "firebase/firestore";
-import { db } from "@/firebaseConfig";
+  getHoldStatus,
+  getInitialStatus,
+  getResolvedStatus,
+  isTerminalStatus,
+} from "@/services/workflowEngine";
 
 interface CustomerPortalProps {
   currentUser: User;
   tickets: Ticket[];
   setTickets: (tickets: Ticket[]) => void;
+  quotations: Quotation[];
   settings: AppSettings;
 }
 
+// Resolved, closed (the other final statuses, e.g. rejected), on hold, or
+// anything else, by the ticket's workflow.
+type StatusTone = "resolved" | "closed" | "hold" | "open";
+
+const getStatusTone = (
+  status: string | undefined,
+  workflow?: WorkflowConfig | null
+): StatusTone => {
+  if (!status) return "open";
+  if (status === getResolvedStatus(workflow)) return "resolved";
+  if (isTerminalStatus(status, workflow)) return "closed";
+  if (status === getHoldStatus(workflow)) return "hold";
+  return "open";
+};
+
 // --- TIMELINE COMPONENT ---
-const TicketTimeline: React.FC<{ ticket: Ticket }> = ({ ticket }) => {
+// Also used by the public tracking page (TrackTicket), which only has the
+// tracked projection of the ticket.
+export const TicketTimeline: React.FC<{
+  ticket: Pick<Ticket, "date" | "history">;
+  workflow?: WorkflowConfig | null;
+}> = ({ ticket, workflow }) => {
   // Merge explicit history with fallback if history is empty
   const timelineEvents = useMemo(() => {
-    let events = ticket.history || [];
+    let events = getCustomerTimeline(ticket.history);
 
     // If no history exists (legacy tickets), create a synthetic 'Created' event
     if (events.length === 0) {
@@ -68,22 +106,33 @@ const TicketTimeline: React.FC<{ ticket: Ticket }> = ({ ticket }) => {
     return [...events].sort((a, b) => b.timestamp - a.timestamp);
   }, [ticket]);
 
-  const getEventIcon = (action: string) => {
-    if (action.includes("Resolved"))
+  // The status an entry moved the ticket to; legacy entries without
+  // recorded changes are named after it.
+  const getEventTone = (event: TicketHistory) =>
+    getStatusTone(
+      (event.changes?.find((c) => c.field === "status")?.to as string) ??
+        event.action,
+      workflow
+    );
+
+  const getEventIcon = (event: TicketHistory) => {
+    const tone = getEventTone(event);
+    if (tone === "resolved")
       return <CheckCircle size={14} className="text-emerald-600" />;
-    if (action.includes("Hold"))
+    if (tone === "hold")
       return <PauseCircle size={14} className="text-orange-600" />;
-    if (action.includes("Created"))
+    if (event.action.includes("Created"))
       return <Plus size={14} className="text-blue-600" />;
-    if (action.includes("Rejected"))
+    if (tone === "closed")
       return <XCircle size={14} className="text-red-600" />;
     return <GitCommit size={14} className="text-indigo-600" />;
   };
 
-  const getEventColor = (action: string) => {
-    if (action.includes("Resolved")) return "bg-emerald-100 border-emerald-200";
-    if (action.includes("Hold")) return "bg-orange-100 border-orange-200";
-    if (action.includes("Rejected")) return "bg-red-100 border-red-200";
+  const getEventColor = (event: TicketHistory) => {
+    const tone = getEventTone(event);
+    if (tone === "resolved") return "bg-emerald-100 border-emerald-200";
+    if (tone === "hold") return "bg-orange-100 border-orange-200";
+    if (tone === "closed") return "bg-red-100 border-red-200";
     return "bg-indigo-50 border-indigo-200";
   };
 
@@ -101,9 +150,9 @@ const TicketTimeline: React.FC<{ ticket: Ticket }> = ({ ticket }) => {
           >
             <div
               className={`w-2 h-2 rounded-full ${
-                event.action.includes("Resolved")
+                getEventTone(event) === "resolved"
                   ? "bg-emerald-500"
-                  : event.action.includes("Hold")
+                  : getEventTone(event) === "hold"
                   ? "bg-orange-500"
                   : "bg-indigo-500"
               }`}
@@ -113,12 +162,12 @@ const TicketTimeline: React.FC<{ ticket: Ticket }> = ({ ticket }) => {
           {/* Card Content */}
           <div
             className={`p-4 rounded-xl border ${getEventColor(
-              event.action
+              event
             )} relative group hover:shadow-md transition-shadow`}
           >
             <div className="flex justify-between items-start mb-2">
               <span className="text-xs font-bold uppercase tracking-wider text-slate-500 flex items-center gap-1.5">
-                {getEventIcon(event.action)}
+                {getEventIcon(event)}
                 {event.action}
               </span>
               <span className="text-[10px] font-mono text-slate-400 bg-white/50 px-2 py-0.5 rounded-full">
@@ -143,10 +192,190 @@ const TicketTimeline: React.FC<{ ticket: Ticket }> = ({ ticket }) => {
   );
 };
 
+// --- QUOTATION COMPONENT ---
+const QuoteReview: React.FC<{
+  ticket: Ticket;
+  quotation: Quotation;
+  currentUser: User;
+  settings: AppSettings;
+}> = ({ ticket, quotation, currentUser, settings }) => {
+  const [isDeclining, setIsDeclining] = useState(false);
+  const [declineReason, setDeclineReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const revision = getCustomerRevision(quotation);
+  if (!revision) return null;
+
+  const status = getRevisionStatus(revision);
+  const totals = calculateQuoteTotals(revision.items);
+
+  const handleDecision = async (decision: QuoteDecision) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await respondToQuotation(
+        quotation,
+        ticket,
+        decision,
+        currentUser,
+        settings,
+        declineReason
+      );
+      setIsDeclining(false);
+    } catch (err: any) {
+      setError(err.message || "Could not record your response");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-indigo-200 shadow-sm mb-6">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="font-bold text-slate-800 flex items-center gap-2">
+          <Receipt size={18} className="text-indigo-600" /> Repair Quotation
+        </h4>
+        <span className="text-[10px] font-mono text-slate-400">
+          {quoteNumber(ticket)} R{revision.revision}
+        </span>
+      </div>
+
+      <table className="w-full text-sm mb-3">
+        <tbody className="divide-y divide-slate-100">
+          {revision.items.map((item) => (
+            <tr key={item.id}>
+              <td className="py-1.5 text-slate-700">
+                {item.description}
+                {item.quantity !== 1 && (
+                  <span className="text-slate-400"> × {item.quantity}</span>
+                )}
+              </td>
+              <td className="py-1.5 text-right text-slate-700">
+                {formatQuoteAmount(item.quantity * item.unitPrice)}
+              </td>
+            </tr>
+          ))}
+          <tr>
+            <td className="py-1.5 text-slate-500">Tax</td>
+            <td className="py-1.5 text-right text-slate-500">
+              {formatQuoteAmount(totals.tax)}
+            </td>
+          </tr>
+          <tr className="font-bold text-slate-800">
+            <td className="py-1.5">Total</td>
+            <td className="py-1.5 text-right">
+              {formatQuoteAmount(totals.total)}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {revision.notes && (
+        <p className="text-xs text-slate-600 bg-slate-50 p-2 rounded-lg mb-3">
+          {revision.notes}
+        </p>
+      )}
+
+      {status === "Sent" ? (
+        <>
+          <p className="text-xs text-slate-500 mb-3 flex items-center gap-1">
+            <Calendar size={12} /> Valid until {revision.validUntil}
+          </p>
+          {isDeclining ? (
+            <div className="space-y-2">
+              <textarea
+                value={declineReason}
+                onChange={(e) => setDeclineReason(e.target.value)}
+                rows={2}
+                className="w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-red-500/20 focus:border-red-400 resize-none"
+                placeholder="Let us know why (optional)"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setIsDeclining(false)}
+                  disabled={isSaving}
+                  className="flex-1 py-2 text-sm font-bold text-slate-600 bg-slate-100 rounded-xl hover:bg-slate-200"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={() => handleDecision("Declined")}
+                  disabled={isSaving}
+                  className="flex-1 py-2 text-sm font-bold text-white bg-red-600 rounded-xl hover:bg-red-700 flex items-center justify-center gap-2 disabled:opacity-70"
+                >
+                  {isSaving && <Loader2 size={14} className="animate-spin" />}
+                  Confirm Decline
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <button
+                onClick={() => setIsDeclining(true)}
+                disabled={isSaving}
+                className="flex-1 py-2.5 text-sm font-bold text-red-600 bg-red-50 border border-red-100 rounded-xl hover:bg-red-100 flex items-center justify-center gap-1"
+              >
+                <XCircle size={16} /> Decline
+              </button>
+              <button
+                onClick={() => handleDecision("Approved")}
+                disabled={isSaving}
+                className="flex-1 py-2.5 text-sm font-bold text-white bg-emerald-600 rounded-xl hover:bg-emerald-700 shadow-lg shadow-emerald-100 flex items-center justify-center gap-1 disabled:opacity-70"
+              >
+                {isSaving ? (
+                  <Loader2 size={16} className="animate-spin" />
+                ) : (
+                  <CheckCircle size={16} />
+                )}
+                Approve Repair
+              </button>
+            </div>
+          )}
+        </>
+      ) : (
+        <p
+          className={`text-xs font-bold flex items-center gap-1 ${
+            status === "Approved"
+              ? "text-emerald-600"
+              : status === "Declined"
+              ? "text-red-600"
+              : "text-amber-600"
+          }`}
+        >
+          {status === "Approved" ? (
+            <CheckCircle size={14} />
+          ) : status === "Declined" ? (
+            <XCircle size={14} />
+          ) : (
+            <Clock size={14} />
+          )}
+          {status === "Expired"
+            ? `Expired on ${revision.validUntil}. Please contact the store for an updated quote.`
+            : status === "Superseded"
+            ? "Replaced by a newer quotation."
+            : `You ${status.toLowerCase()} this quotation${
+                revision.decidedAt
+                  ? ` on ${new Date(revision.decidedAt).toLocaleDateString()}`
+                  : ""
+              }.`}
+        </p>
+      )}
+
+      {error && (
+        <div className="mt-3 p-2 bg-red-50 border border-red-100 rounded-lg text-xs text-red-700 flex items-center gap-2">
+          <AlertCircle size={14} /> {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
 export default function CustomerPortal({
   currentUser,
   tickets,
   setTickets,
+  quotations,
   settings,
 }: CustomerPortalProps) {
   // --- STATE ---
@@ -161,6 +390,22 @@ export default function CustomerPortal({
   const [issue, setIssue] = useState("");
   const [store, setStore] = useState(settings.stores[0]?.name || "");
 
+  // Keep the open ticket in step with live updates (e.g. a quote decision)
+  useEffect(() => {
+    if (selectedTicket) {
+      setSelectedTicket(tickets.find((t) => t.id === selectedTicket.id) ?? null);
+    }
+  }, [tickets]);
+
+  const quoteFor = (ticket: Ticket) =>
+    quotations.find((q) => q.ticketId === ticket.id) ?? null;
+
+  // The latest quote sent for `ticket`, if it still needs an answer
+  const pendingQuote = (ticket: Ticket) => {
+    const revision = getCustomerRevision(quoteFor(ticket));
+    return revision && getRevisionStatus(revision) === "Sent" ? revision : null;
+  };
+
   // --- FILTERING LOGIC ---
   {
     /*} const myTickets = useMemo(() => {
@@ -191,69 +436,57 @@ export default function CustomerPortal({
   }, [myTickets, searchTerm, statusFilter]);
 
   // --- STATS ---
+  const holdStatus = getHoldStatus(settings.workflow);
   const stats = {
     total: myTickets.length,
     active: myTickets.filter(
-      (t) => t.status !== "Resolved" && t.status !== "Rejected"
+      (t) => !isTerminalStatus(t.status, settings.workflow)
+    ).length,
+    resolved: myTickets.filter(
+      (t) => t.status === getResolvedStatus(settings.workflow)
     ).length,
-    resolved: myTickets.filter((t) => t.status === "Resolved").length,
   };
 
   // --- HANDLERS ---
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-  const ticketId = `REQ-${Date.now()}`;
-
-  await addDoc(collection(db, "tickets"), {
-    ticketId,
-    customerId: currentUser.id,
-    name: currentUser.name,
-    email: currentUser.email,
-    number: currentUser.mobile || "",
-    address: currentUser.address || "",
-    deviceType,
-    issueDescription: issue,
-    store,
-    status: "Pending Approval",
-    priority: "Medium",
-    warranty: false,
-
-    createdAt: serverTimestamp(),
-
-    history: [
+    await createTicket(
       {
-        id: Date.now().toString(),
-        timestamp: Date.now(),
-        date: new Date().toLocaleString(),
-        actorName: currentUser.name,
-        actorRole: "CUSTOMER",
-        action: "Ticket Created",
-        details: "Service request submitted via Customer Portal.",
+        customerId: currentUser.id,
+        name: currentUser.name,
+        email: currentUser.email,
+        number: currentUser.mobile || "",
+        address: currentUser.address || "",
+        date: new Date().toISOString().slice(0, 10),
+        deviceType,
+        issueDescription: issue,
+        store,
+        status: "Pending Approval",
+        priority: "Medium",
+        warranty: false,
       },
-    ],
-  });
+      settings.stores,
+      { details: "Service request submitted via Customer Portal." }
+    );
 
-  // UI reset only
-  setIsModalOpen(false);
-  setIssue("");
+    // UI reset only
+    setIsModalOpen(false);
+    setIssue("");
   };
 
   const getStatusColor = (status: string) => {
-    switch (status) {
-      case "Resolved":
-        return "bg-emerald-100 text-emerald-700 border-emerald-200";
-      case "Rejected":
-        return "bg-red-100 text-red-700 border-red-200";
-      case "Pending Approval":
-        return "bg-purple-100 text-purple-700 border-purple-200";
-      case "New":
-        return "bg-blue-100 text-blue-700 border-blue-200";
-      case "On Hold":
-        return "bg-orange-100 text-orange-700 border-orange-200";
-      default:
-        return "bg-amber-100 text-amber-700 border-amber-200";
-    }
+    const tone = getStatusTone(status, settings.workflow);
+    if (tone === "resolved")
+      return "bg-emerald-100 text-emerald-700 border-emerald-200";
+    if (tone === "closed") return "bg-red-100 text-red-700 border-red-200";
+    if (tone === "hold")
+      return "bg-orange-100 text-orange-700 border-orange-200";
+    if (status === "Pending Approval")
+      return "bg-purple-100 text-purple-700 border-purple-200";
+    if (status === getInitialStatus(settings.workflow))
+      return "bg-blue-100 text-blue-700 border-blue-200";
+    return "bg-amber-100 text-amber-700 border-amber-200";
   };
 
   return (
@@ -362,11 +595,13 @@ export default function CustomerPortal({
             >
               <option value="All">All Statuses</option>
               <option value="Pending Approval">Pending Approval</option>
-              <option value="New">New</option>
-              <option value="In Progress">In Progress</option>
-              <option value="On Hold">On Hold</option>
-              <option value="Resolved">Resolved</option>
-              <option value="Rejected">Rejected</option>
+              {settings.ticketStatuses
+                .filter((s) => s.name !== "Pending Approval")
+                .map((s) => (
+                  <option key={s.id} value={s.name}>
+                    {s.name}
+                  </option>
+                ))}
             </select>
             <ChevronRight
               size={16}
@@ -418,11 +653,13 @@ export default function CustomerPortal({
                     <div className="flex justify-between items-start mb-4">
                       <div
                         className={`w-12 h-12 rounded-2xl flex items-center justify-center transition-colors ${
-                          ticket.status === "Resolved"
+                          getStatusTone(ticket.status, settings.workflow) ===
+                          "resolved"
                             ? "bg-emerald-100 text-emerald-600"
-                            : ticket.status === "Rejected"
+                            : getStatusTone(ticket.status, settings.workflow) ===
+                              "closed"
                             ? "bg-red-100 text-red-600"
-                            : ticket.status === "On Hold"
+                            : ticket.status === holdStatus
                             ? "bg-orange-100 text-orange-600"
                             : "bg-indigo-50 text-indigo-600 group-hover:bg-indigo-600 group-hover:text-white"
                         }`}
@@ -455,7 +692,7 @@ export default function CustomerPortal({
                         {ticket.issueDescription}
                       </p>
                       {/* DISPLAY HOLD REASON FOR CUSTOMER */}
-                      {ticket.status === "On Hold" && ticket.holdReason && (
+                      {ticket.status === holdStatus && ticket.holdReason && (
                         <div className="mt-3 bg-orange-50 border border-orange-100 p-3 rounded-xl flex items-start gap-2 text-xs text-orange-800 animate-pulse">
                           <PauseCircle size={16} className="shrink-0 mt-0.5" />
                           <div>
@@ -466,6 +703,20 @@ export default function CustomerPortal({
                           </div>
                         </div>
                       )}
+                      {pendingQuote(ticket) && (
+                        <div className="mt-3 bg-indigo-50 border border-indigo-100 p-3 rounded-xl flex items-start gap-2 text-xs text-indigo-800">
+                          <Receipt size={16} className="shrink-0 mt-0.5" />
+                          <div>
+                            <span className="font-bold block">
+                              Quotation awaiting your approval
+                            </span>
+                            {formatQuoteAmount(
+                              calculateQuoteTotals(pendingQuote(ticket)!.items)
+                                .total
+                            )}
+                          </div>
+                        </div>
+                      )}
                     </div>
 
                     <div className="pt-4 border-t border-slate-100 flex justify-between items-center text-xs text-slate-400 font-medium">
@@ -536,12 +787,18 @@ export default function CustomerPortal({
                             title={ticket.issueDescription}
                           >
                             {ticket.issueDescription}
-                            {ticket.status === "On Hold" &&
+                            {ticket.status === holdStatus &&
                               ticket.holdReason && (
                                 <div className="text-[10px] text-orange-600 font-medium mt-1 flex items-center gap-1">
                                   <PauseCircle size={10} /> {ticket.holdReason}
                                 </div>
                               )}
+                            {pendingQuote(ticket) && (
+                              <div className="text-[10px] text-indigo-600 font-medium mt-1 flex items-center gap-1">
+                                <Receipt size={10} /> Quotation awaiting your
+                                approval
+                              </div>
+                            )}
                           </td>
                           <td className="px-6 py-4 text-slate-500">
                             {ticket.date}
@@ -635,15 +892,19 @@ export default function CustomerPortal({
                     </p>
                     <div
                       className={`text-sm font-bold flex items-center gap-2 ${
-                        selectedTicket.status === "Resolved"
+                        getStatusTone(
+                          selectedTicket.status,
+                          settings.workflow
+                        ) === "resolved"
                           ? "text-emerald-600"
-                          : selectedTicket.status === "On Hold"
+                          : selectedTicket.status === holdStatus
                           ? "text-orange-600"
                           : "text-indigo-600"
                       }`}
                     >
                       {selectedTicket.status}
-                      {selectedTicket.status === "Resolved" && (
+                      {selectedTicket.status ===
+                        getResolvedStatus(settings.workflow) && (
                         <CheckCircle size={14} />
                       )}
                     </div>
@@ -671,7 +932,7 @@ export default function CustomerPortal({
                       </p>
                       <p className="text-sm text-slate-700">
                         {selectedTicket.estimatedAmount
-                          ? `$${selectedTicket.estimatedAmount}`
+                          ? formatQuoteAmount(selectedTicket.estimatedAmount)
                           : "TBD"}
                       </p>
                     </div>
@@ -679,12 +940,25 @@ export default function CustomerPortal({
                 </div>
               </div>
 
+              {/* Quotation */}
+              {quoteFor(selectedTicket) && (
+                <QuoteReview
+                  ticket={selectedTicket}
+                  quotation={quoteFor(selectedTicket)!}
+                  currentUser={currentUser}
+                  settings={settings}
+                />
+              )}
+
               {/* Timeline */}
               <h4 className="font-bold text-slate-800 flex items-center gap-2 mb-2">
                 <History size={18} className="text-indigo-600" /> Activity
                 Timeline
               </h4>
-              <TicketTimeline ticket={selectedTicket} />
+              <TicketTimeline
+                ticket={selectedTicket}
+                workflow={settings.workflow}
+              />
             </div>
           </div>
         </div>
@@ -1,5 +1,12 @@
 import React, { useState, useRef } from "react";
-import { User, Customer, Ticket } from "../types";
+import {
+  User,
+  Customer,
+  Ticket,
+  Invoice,
+  Payment,
+  AppSettings,
+} from "../types";
 import {
   User as UserIcon,
   Mail,
@@ -14,9 +21,12 @@ import {
   Camera,
   AlertTriangle,
   Loader2,
+  Wallet,
 } from "lucide-react";
-import { doc, updateDoc } from "firebase/firestore";
-import { db } from "@/firebaseConfig";
+import { repository } from "@/services/dataRepository";
+import { getDuesSummary } from "@/services/billing";
+import { formatQuoteAmount } from "@/services/quotationEngine";
+import { isTerminalStatus } from "@/services/workflowEngine";
 
 interface CustomerProfileProps {
   currentUser: User;
@@ -24,6 +34,9 @@ interface CustomerProfileProps {
   setCustomers: (customers: Customer[]) => void;
   updateCurrentUser: (user: User) => void;
   tickets: Ticket[];
+  invoices: Invoice[];
+  payments: Payment[];
+  settings: AppSettings;
 }
 
 export default function CustomerProfile({
@@ -32,6 +45,9 @@ export default function CustomerProfile({
   setCustomers,
   updateCurrentUser,
   tickets,
+  invoices,
+  payments,
+  settings,
 }: CustomerProfileProps) {
   const customerRecord = customers.find(
     (c) => c.email.toLowerCase() === currentUser.email.toLowerCase()
@@ -43,8 +59,9 @@ export default function CustomerProfile({
   );
   const totalTickets = myTickets.length;
   const activeTickets = myTickets.filter(
-    (t) => t.status !== "Resolved" && t.status !== "Rejected"
+    (t) => !isTerminalStatus(t.status, settings.workflow)
   ).length;
+  const dues = getDuesSummary(myTickets, invoices, payments);
   const joinDate =
     myTickets.length > 0
       ? myTickets[myTickets.length - 1].date
@@ -121,15 +138,12 @@ export default function CustomerProfile({
     setError(null);
 
     try {
-      // 🔥 1. Update Firestore
-      const userRef = doc(db, "customers", currentUser.id);
-
-      await updateDoc(userRef, {
+      // 🔥 1. Update the customer record
+      await repository.customers.update(currentUser.id, {
         name: formData.name,
         mobile: formData.mobile,
         address: formData.address,
-        photo: formData.photo,
-        updatedAt: new Date(),
+        photo_url: formData.photo || null,
       });
 
       // 🔁 2. Update local Customers array
@@ -289,6 +303,62 @@ export default function CustomerProfile({
             </div>
           </div>
 
+          {/* Dues Card */}
+          <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6">
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wide mb-4 flex items-center gap-2">
+              <Wallet size={16} /> Payments & Dues
+            </h3>
+            <dl className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <dt className="text-slate-500">Invoiced</dt>
+                <dd className="font-bold text-slate-800">
+                  {formatQuoteAmount(dues.invoiced)}
+                </dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-slate-500">Paid</dt>
+                <dd className="font-bold text-emerald-600">
+                  {formatQuoteAmount(dues.received)}
+                </dd>
+              </div>
+              {dues.advances > 0 && (
+                <div className="flex justify-between">
+                  <dt className="text-slate-500">Advance on open repairs</dt>
+                  <dd className="font-bold text-blue-600">
+                    {formatQuoteAmount(dues.advances)}
+                  </dd>
+                </div>
+              )}
+              <div className="flex justify-between pt-2 border-t border-slate-100">
+                <dt className="font-bold text-slate-700">Outstanding</dt>
+                <dd
+                  className={`font-black ${
+                    dues.outstanding > 0 ? "text-red-600" : "text-slate-400"
+                  }`}
+                >
+                  {formatQuoteAmount(dues.outstanding)}
+                </dd>
+              </div>
+            </dl>
+            {dues.tickets.length > 0 && (
+              <div className="mt-4 space-y-2">
+                {dues.tickets.map(({ ticket, balance }) => (
+                  <div
+                    key={ticket.id}
+                    className="flex justify-between items-center p-2.5 bg-red-50 rounded-lg text-xs"
+                  >
+                    <span className="font-mono font-bold text-slate-700">
+                      {ticket.ticketId}
+                    </span>
+                    <span className="font-bold text-red-700">
+                      {formatQuoteAmount(balance.outstanding)} due
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Login Info Card */}
           <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6">
             <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wide mb-4">
@@ -1,11 +1,22 @@
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { 
   Ticket, 
   Customer, 
   AppSettings, 
-  User 
+  User,
+  Part,
+  StockMovement,
+  Supplier,
+  PurchaseOrder
 } from '../types';
+import { parseStoredDate } from '../services/ticketMapper';
+import { getHoldStatus, getInitialStatus, getResolvedStatus, isTerminalStatus } from '../services/workflowEngine';
+import { describeSLAClock, getTicketSLA } from '../services/slaEngine';
+import { getLowStockItems, getStockLevels } from '../services/inventoryEngine';
+import { draftLowStockOrders, isOpenOrder } from '../services/purchasingEngine';
+import { can } from '../services/permissionEngine';
+import { getUserStores } from '../services/storeScope';
 import { 
   TrendingUp, 
   Users, 
@@ -23,7 +34,10 @@ import {
   FileQuestion,
   Sparkles,
   CheckCircle,
-  Wrench
+  Wrench,
+  Package,
+  Truck,
+  Loader2
 } from 'lucide-react';
 import { 
   AreaChart, 
@@ -37,57 +51,52 @@ import {
   Bar,
   Cell
 } from 'recharts';
-import { collection, getDocs } from "firebase/firestore";
-import { db } from '@/firebaseConfig';
 
 
 
 interface DashboardProps {
   tickets: Ticket[];
   customers: Customer[];
+  parts: Part[];
+  stockMovements: StockMovement[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
   settings: AppSettings;
   currentUser: User;
   onNavigate: (view: any) => void;
   onAction: (action: string) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ tickets, customers, settings, currentUser, onNavigate, onAction }) => {
+const Dashboard: React.FC<DashboardProps> = ({ tickets, customers, parts, stockMovements, suppliers, purchaseOrders, settings, currentUser, onNavigate, onAction }) => {
+  const [isDrafting, setIsDrafting] = useState(false);
   
   // --- STATS CALCULATION ---
   const stats = useMemo(() => {
-    const activeTickets = tickets.filter(t => t.status !== 'Resolved' && t.status !== 'Rejected');
+    const activeTickets = tickets.filter(t => !isTerminalStatus(t.status, settings.workflow));
+    const resolvedStatus = getResolvedStatus(settings.workflow);
     
     // Resolved Today
    const today = new Date();
 today.setHours(0, 0, 0, 0);
 
 const resolvedToday = tickets.filter(t => {
-  if (t.status !== "Resolved") return false;
-  if (!t.resolvedAt) return false;
+  if (t.status !== resolvedStatus) return false;
+  const resolvedDate = parseStoredDate(t.resolvedAt);
+  if (!resolvedDate) return false;
 
-  const resolvedDate = t.resolvedAt.toDate();
   resolvedDate.setHours(0, 0, 0, 0);
 
   return resolvedDate.getTime() === today.getTime();
 }).length;
-    // Overdue Calculation (Based on SLA settings)
-    const overdueCount = activeTickets.filter(t => {
-       const created = new Date(t.date);
-       const now = new Date();
-       const diffTime = Math.abs(now.getTime() - created.getTime());
-       const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-       
-       const priority = t.priority.toLowerCase() as 'high' | 'medium' | 'low';
-       const allowedDays = settings.sla[priority] || 7; // Default 7 if config missing
-       
-       return diffDays > allowedDays;
-    }).length;
+    // Overdue Calculation (business-hours SLA, paused while on hold)
+    const now = Date.now();
+    const overdueCount = activeTickets.filter(t => getTicketSLA(t, settings, now)?.breached).length;
 
     // Specific Counts for Small Cards
     const laptopCount = tickets.filter(t => t.deviceType === 'Laptop').length;
     const brandServiceCount = tickets.filter(t => t.deviceType === 'Brand Service').length;
-    const newCount = tickets.filter(t => t.status === 'New').length;
-    const totalResolved = tickets.filter(t => t.status === 'Resolved').length;
+    const newCount = tickets.filter(t => t.status === getInitialStatus(settings.workflow)).length;
+    const totalResolved = tickets.filter(t => t.status === resolvedStatus).length;
     const pendingApprovalCount = tickets.filter(t => t.status === 'Pending Approval').length;
 
     return {
@@ -101,11 +110,11 @@ const resolvedToday = tickets.filter(t => {
       totalResolved,
       pendingApprovalCount
     };
-  }, [tickets, customers, settings.sla]);
+  }, [tickets, customers, settings.sla, settings.stores, settings.workflow]);
 
   // --- STORE WORKLOAD ---
   const storeLoad = useMemo(() => {
-     const activeTickets = tickets.filter(t => t.status !== 'Resolved' && t.status !== 'Rejected');
+     const activeTickets = tickets.filter(t => !isTerminalStatus(t.status, settings.workflow));
      const totalActive = activeTickets.length || 1; // Prevent div by zero
      
      const load: Record<string, number> = {};
@@ -113,16 +122,16 @@ const resolvedToday = tickets.filter(t => {
          load[t.store] = (load[t.store] || 0) + 1;
      });
 
-     return settings.stores.map(store => {
+     return getUserStores(currentUser, settings.stores).map(store => {
          const count = load[store.name] || 0;
          const percent = Math.round((count / totalActive) * 100);
          return { name: store.name, count, percent };
      }).sort((a,b) => b.count - a.count);
-  }, [tickets, settings.stores]);
+  }, [tickets, settings.stores, settings.workflow, currentUser]);
 
   // --- TECHNICIAN WORKLOAD ---
   const techLoad = useMemo(() => {
-     const activeTickets = tickets.filter(t => t.status !== 'Resolved' && t.status !== 'Rejected');
+     const activeTickets = tickets.filter(t => !isTerminalStatus(t.status, settings.workflow));
      const totalActive = activeTickets.length || 1;
      
      const load: Record<string, number> = {};
@@ -140,7 +149,7 @@ const resolvedToday = tickets.filter(t => {
              return { id: tech.id, name: tech.name, count, percent, photo: tech.photo };
         })
         .sort((a,b) => b.count - a.count);
-  }, [tickets, settings.teamMembers]);
+  }, [tickets, settings.teamMembers, settings.workflow]);
 
   // --- CHART DATA ---
   const weeklyData = useMemo(() => {
@@ -167,9 +176,44 @@ const resolvedToday = tickets.filter(t => {
   }, [tickets]);
 
   // --- URGENT ITEMS ---
-  const urgentTickets = tickets
-    .filter(t => (t.priority === 'High' || t.status === 'On Hold') && t.status !== 'Resolved' && t.status !== 'Rejected')
-    .slice(0, 5);
+  // Breached first, then whatever is closest to breaching
+  const urgentTickets = useMemo(() => {
+    const now = Date.now();
+    return tickets
+      .filter(t => !isTerminalStatus(t.status, settings.workflow))
+      .map(t => ({ ...t, sla: getTicketSLA(t, settings, now) }))
+      .filter(t => t.priority === 'High' || t.status === getHoldStatus(settings.workflow) || t.sla?.breached)
+      .sort((a, b) => (a.sla?.resolution.remainingMs ?? Infinity) - (b.sla?.resolution.remainingMs ?? Infinity))
+      .slice(0, 5);
+  }, [tickets, settings]);
+
+  // --- LOW STOCK ---
+  // Flag parts that already sit on an open purchase order for that store
+  const lowStock = useMemo(() => {
+    const items = getLowStockItems(parts, settings.stores, getStockLevels(stockMovements));
+    return items.map(item => ({
+      ...item,
+      onOrder: purchaseOrders.some(o =>
+        isOpenOrder(o) && o.storeId === item.store.id && o.lines.some(l => l.partId === item.part.id)
+      )
+    }));
+  }, [parts, stockMovements, purchaseOrders, settings.stores]);
+
+  const canPurchase = can(currentUser, 'purchasing.manage');
+  const toOrder = lowStock.filter(item => !item.onOrder);
+
+  const handleDraftOrders = async () => {
+    setIsDrafting(true);
+    try {
+      const created = await draftLowStockOrders(toOrder, purchaseOrders, suppliers, currentUser);
+      alert(`Drafted ${created.length} purchase order${created.length === 1 ? '' : 's'}. Review and place them from Purchasing.`);
+      onNavigate('purchasing');
+    } catch (err: any) {
+      alert(err.message || 'Failed to draft purchase orders');
+    } finally {
+      setIsDrafting(false);
+    }
+  };
 
   const COLORS = ['#6366f1', '#8b5cf6', '#ec4899', '#10b981', '#f59e0b'];
 
@@ -216,7 +260,7 @@ const resolvedToday = tickets.filter(t => {
             </div>
          </div>
 
-         {/* Card 2: Estimated Overdue */}
+         {/* Card 2: SLA Breaches */}
          <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm flex flex-col justify-between group hover:border-red-300 transition-colors">
             <div className="flex justify-between items-start mb-2">
                <div className="p-2.5 bg-red-50 text-red-600 rounded-xl group-hover:bg-red-600 group-hover:text-white transition-colors">
@@ -226,7 +270,7 @@ const resolvedToday = tickets.filter(t => {
             </div>
             <div>
                <h3 className="text-3xl font-black text-slate-800">{stats.overdueCount}</h3>
-               <p className="text-xs font-bold text-slate-500 uppercase tracking-wide mt-1">Est. Overdue</p>
+               <p className="text-xs font-bold text-slate-500 uppercase tracking-wide mt-1">SLA Breached</p>
             </div>
          </div>
 
@@ -366,17 +410,17 @@ const resolvedToday = tickets.filter(t => {
                            <div className="flex justify-between items-start mb-1">
                               <span className="text-xs font-bold text-indigo-600 font-mono bg-indigo-50 px-1.5 py-0.5 rounded">{ticket.ticketId}</span>
                               <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded ${
-                                 ticket.priority === 'High' ? 'bg-red-50 text-red-600' : 'bg-orange-50 text-orange-600'
+                                 ticket.sla?.breached || ticket.priority === 'High' ? 'bg-red-50 text-red-600' : 'bg-orange-50 text-orange-600'
                               }`}>
-                                 {ticket.priority === 'High' ? 'Critical' : 'On Hold'}
+                                 {ticket.sla?.breached ? 'SLA Breached' : ticket.priority === 'High' ? 'Critical' : 'On Hold'}
                               </span>
                            </div>
                            <h4 className="font-bold text-slate-800 text-sm line-clamp-1 group-hover:text-indigo-600 transition-colors">
                               {ticket.deviceType} - {ticket.issueDescription}
                            </h4>
                            <div className="flex justify-between items-center mt-2">
-                              <span className="text-xs text-slate-500 flex items-center gap-1">
-                                 <Clock size={12}/> {ticket.date}
+                              <span className={`text-xs flex items-center gap-1 ${ticket.sla?.breached ? 'text-red-600 font-bold' : 'text-slate-500'}`}>
+                                 <Clock size={12}/> {ticket.sla ? describeSLAClock(ticket.sla.resolution) : ticket.date}
                               </span>
                               <ArrowRight size={14} className="text-slate-300 group-hover:text-indigo-500 transition-colors" />
                            </div>
@@ -490,6 +534,50 @@ const resolvedToday = tickets.filter(t => {
           </div>
       </div>
 
+      {/* 5. LOW STOCK */}
+      {lowStock.length > 0 && (
+        <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="font-bold text-slate-800 flex items-center gap-2">
+              <Package size={20} className="text-amber-500" /> Low Stock
+              <span className="text-xs font-bold text-amber-700 bg-amber-50 px-2 py-0.5 rounded-full">{lowStock.length}</span>
+            </h3>
+            {canPurchase && toOrder.length > 0 && (
+              <button
+                onClick={handleDraftOrders}
+                disabled={isDrafting}
+                className="px-4 py-2 bg-indigo-600 text-white text-sm font-bold rounded-xl hover:bg-indigo-700 transition-all flex items-center gap-2 disabled:opacity-70"
+              >
+                {isDrafting ? <Loader2 size={16} className="animate-spin" /> : <Truck size={16} />}
+                Draft POs ({toOrder.length})
+              </button>
+            )}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {lowStock.slice(0, 9).map(item => (
+              <div key={`${item.part.id}-${item.store.id}`} className="p-3 bg-slate-50 rounded-xl border border-slate-100 flex justify-between items-center">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-700 truncate">{item.part.name}</p>
+                  <p className="text-[10px] text-slate-400 font-mono">{item.part.sku} · {item.store.name}</p>
+                </div>
+                <div className="text-right shrink-0 ml-3">
+                  <p className={`text-sm font-bold ${item.quantity <= 0 ? 'text-red-600' : 'text-amber-600'}`}>{item.quantity} left</p>
+                  {item.onOrder && <p className="text-[10px] font-bold text-blue-600 uppercase">On order</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+          {lowStock.length > 9 && (
+            <button
+              onClick={() => onNavigate('inventory')}
+              className="mt-4 text-xs font-bold text-indigo-600 hover:text-indigo-700 flex items-center gap-1"
+            >
+              View all in Parts Inventory <ArrowRight size={14} />
+            </button>
+          )}
+        </div>
+      )}
+
     </div>
   );
 };
@@ -0,0 +1,586 @@
+import React, { useMemo, useState } from "react";
+import {
+  HardDrive,
+  Search,
+  X,
+  ExternalLink,
+  Repeat,
+  ShieldCheck,
+  ShieldAlert,
+  Link2,
+  Loader2,
+  Save,
+  ClipboardCheck,
+  AlertTriangle,
+} from "lucide-react";
+import {
+  AppSettings,
+  Customer,
+  Device,
+  Report,
+  Ticket,
+  User as AppUser,
+  WarrantyStatus,
+} from "../types";
+import {
+  backfillDevices,
+  DeviceDraft,
+  getDeviceHistory,
+  getWarrantyStatus,
+  normalizeSerial,
+  REPEAT_REPAIR_DAYS,
+  updateDevice,
+  WARRANTY_STATUSES,
+} from "@/services/deviceRegistry";
+import { can } from "@/services/permissionEngine";
+
+interface DevicesProps {
+  devices: Device[];
+  tickets: Ticket[];
+  reports: Report[];
+  customers: Customer[];
+  settings: AppSettings;
+  currentUser: AppUser;
+  onOpenTicket: (ticketId: string) => void;
+}
+
+const WARRANTY_STYLES: Record<WarrantyStatus, string> = {
+  "In Warranty": "bg-emerald-50 text-emerald-700 border-emerald-200",
+  "Out of Warranty": "bg-slate-100 text-slate-600 border-slate-200",
+  Unknown: "bg-amber-50 text-amber-700 border-amber-200",
+};
+
+const describeDevice = (device: Device) =>
+  [device.brand, device.model].filter(Boolean).join(" ") || device.deviceType;
+
+// --- 1. DEVICE MODAL ---
+const DeviceModal: React.FC<{
+  device: Device;
+  tickets: Ticket[];
+  reports: Report[];
+  customers: Customer[];
+  settings: AppSettings;
+  currentUser: AppUser;
+  onOpenTicket: (ticketId: string) => void;
+  onClose: () => void;
+}> = ({
+  device,
+  tickets,
+  reports,
+  customers,
+  settings,
+  currentUser,
+  onOpenTicket,
+  onClose,
+}) => {
+  const history = getDeviceHistory(device, tickets, reports, customers);
+  const canEdit = can(currentUser, "devices.manage");
+  const [draft, setDraft] = useState<DeviceDraft>({
+    deviceType: device.deviceType,
+    brand: device.brand || "",
+    model: device.model || "",
+    warrantyStatus: device.warrantyStatus,
+    warrantyExpiry: device.warrantyExpiry || "",
+    billNumber: device.billNumber || "",
+    notes: device.notes || "",
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await updateDevice(device, draft, currentUser);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || "Failed to save the device");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 disabled:opacity-60";
+  const labelClass = "text-xs font-bold text-slate-500 uppercase mb-1 block";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl w-full max-w-3xl shadow-2xl animate-in fade-in zoom-in duration-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 font-mono">
+              {device.serial}
+            </h3>
+            <p className="text-xs text-slate-500">
+              {describeDevice(device)} · registered{" "}
+              {new Date(device.registeredAt).toLocaleDateString()}
+            </p>
+          </div>
+          <button onClick={onClose}>
+            <X size={20} className="text-slate-400 hover:text-slate-600" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-50 text-red-600 text-xs font-bold rounded-lg flex items-center gap-2">
+              <AlertTriangle size={14} />
+              {error}
+            </div>
+          )}
+
+          {/* Owner */}
+          <div className="p-4 bg-slate-50 rounded-xl border border-slate-100">
+            <p className={labelClass}>Owner</p>
+            {history.owner ? (
+              <p className="text-sm text-slate-800">
+                <span className="font-bold">{history.owner.name}</span> ·{" "}
+                {history.owner.mobile}
+              </p>
+            ) : (
+              <p className="text-sm text-slate-500">
+                {device.customerName || "No customer linked"}
+              </p>
+            )}
+          </div>
+
+          {/* Details & warranty */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Device Type</label>
+              <select
+                value={draft.deviceType}
+                disabled={!canEdit}
+                onChange={(e) =>
+                  setDraft({ ...draft, deviceType: e.target.value })
+                }
+                className={inputClass}
+              >
+                {!settings.deviceTypes.some(
+                  (d) => d.name === draft.deviceType
+                ) && (
+                  <option value={draft.deviceType}>{draft.deviceType}</option>
+                )}
+                {settings.deviceTypes.map((d) => (
+                  <option key={d.id} value={d.name}>
+                    {d.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Brand</label>
+              <input
+                value={draft.brand}
+                disabled={!canEdit}
+                onChange={(e) => setDraft({ ...draft, brand: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Model</label>
+              <input
+                value={draft.model}
+                disabled={!canEdit}
+                onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Warranty</label>
+              <select
+                value={getWarrantyStatus({ ...device, ...draft })}
+                disabled={!canEdit || !!draft.warrantyExpiry}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    warrantyStatus: e.target.value as WarrantyStatus,
+                  })
+                }
+                className={inputClass}
+              >
+                {WARRANTY_STATUSES.map((status) => (
+                  <option key={status} value={status}>
+                    {status}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Warranty Until</label>
+              <input
+                type="date"
+                value={draft.warrantyExpiry}
+                disabled={!canEdit}
+                onChange={(e) =>
+                  setDraft({ ...draft, warrantyExpiry: e.target.value })
+                }
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Bill Number</label>
+              <input
+                value={draft.billNumber}
+                disabled={!canEdit}
+                onChange={(e) =>
+                  setDraft({ ...draft, billNumber: e.target.value })
+                }
+                className={inputClass}
+              />
+            </div>
+            <div className="md:col-span-3">
+              <label className={labelClass}>Notes</label>
+              <textarea
+                rows={2}
+                value={draft.notes}
+                disabled={!canEdit}
+                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                className={`${inputClass} resize-none`}
+              />
+            </div>
+          </div>
+
+          {/* Repair history */}
+          <div>
+            <h4 className="text-sm font-bold text-slate-800 uppercase tracking-wide mb-2">
+              Tickets ({history.tickets.length})
+            </h4>
+            {history.tickets.length === 0 ? (
+              <p className="text-sm text-slate-400">No tickets yet.</p>
+            ) : (
+              <div className="divide-y divide-slate-100 border border-slate-200 rounded-xl">
+                {history.tickets.map((ticket) => (
+                  <button
+                    key={ticket.id}
+                    onClick={() => onOpenTicket(ticket.id)}
+                    className="w-full px-4 py-2.5 text-left hover:bg-slate-50 flex items-center gap-4"
+                  >
+                    <span className="font-mono text-sm font-bold text-indigo-600 w-32 flex items-center gap-1">
+                      {ticket.ticketId} <ExternalLink size={12} />
+                    </span>
+                    <span className="flex-1 min-w-0 text-sm text-slate-700 truncate">
+                      {ticket.issueDescription}
+                    </span>
+                    {ticket.repeatRepair && (
+                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-red-50 text-red-700 border border-red-100 font-bold">
+                        Repeat
+                      </span>
+                    )}
+                    <span className="text-xs text-slate-500 w-24">
+                      {ticket.status}
+                    </span>
+                    <span className="text-xs text-slate-400 w-20 text-right">
+                      {ticket.date}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {history.reports.length > 0 && (
+            <div>
+              <h4 className="text-sm font-bold text-slate-800 uppercase tracking-wide mb-2">
+                Laptop QC Reports ({history.reports.length})
+              </h4>
+              <div className="divide-y divide-slate-100 border border-slate-200 rounded-xl">
+                {history.reports.map((report) => (
+                  <div
+                    key={report.id}
+                    className="px-4 py-2.5 flex items-center gap-4 text-sm"
+                  >
+                    <ClipboardCheck size={16} className="text-emerald-500" />
+                    <span className="flex-1 text-slate-700">
+                      {report.deviceInfo.customerName || "—"} · by{" "}
+                      {report.deviceInfo.technicianName || "—"}
+                    </span>
+                    <span className="text-xs text-slate-500">
+                      {report.status} · {report.progress}%
+                    </span>
+                    <span className="text-xs text-slate-400">
+                      {report.date}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {canEdit && (
+          <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3 bg-slate-50/50">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-semibold text-slate-600 hover:bg-slate-100 rounded-lg"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 flex items-center gap-2 disabled:opacity-50"
+            >
+              {isSaving ? (
+                <Loader2 size={16} className="animate-spin" />
+              ) : (
+                <Save size={16} />
+              )}
+              Save Device
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// --- MAIN COMPONENT ---
+export default function Devices({
+  devices,
+  tickets,
+  reports,
+  customers,
+  settings,
+  currentUser,
+  onOpenTicket,
+}: DevicesProps) {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLinking, setIsLinking] = useState(false);
+  const canEdit = can(currentUser, "devices.manage");
+
+  const rows = useMemo(
+    () =>
+      devices
+        .map((device) => ({
+          device,
+          history: getDeviceHistory(device, tickets, reports, customers),
+        }))
+        .sort(
+          (a, b) =>
+            (b.device.updatedAt ?? b.device.registeredAt) -
+            (a.device.updatedAt ?? a.device.registeredAt)
+        ),
+    [devices, tickets, reports, customers]
+  );
+
+  const term = searchTerm.trim().toLowerCase();
+  const filtered = term
+    ? rows.filter(
+        ({ device, history }) =>
+          device.serialKey.includes(normalizeSerial(term)) ||
+          describeDevice(device).toLowerCase().includes(term) ||
+          (history.owner?.name ?? device.customerName ?? "")
+            .toLowerCase()
+            .includes(term) ||
+          (history.owner?.mobile ?? "").includes(term)
+      )
+    : rows;
+
+  const repeats = rows.filter(({ history }) =>
+    history.tickets.some((t) => t.repeatRepair)
+  ).length;
+  const inWarranty = rows.filter(
+    ({ device }) => getWarrantyStatus(device) === "In Warranty"
+  ).length;
+  const unlinked = tickets.filter(
+    (t) => !t.deviceId && t.serial?.trim()
+  ).length;
+
+  const handleBackfill = async () => {
+    if (
+      !window.confirm(
+        `Register devices for ${unlinked} ticket(s) with a serial number and for existing laptop QC reports?`
+      )
+    )
+      return;
+    setIsLinking(true);
+    try {
+      const result = await backfillDevices(tickets, reports, currentUser);
+      alert(
+        `Linked ${result.tickets} ticket(s); ${result.devices} new device(s) registered.` +
+          (result.unlinked
+            ? ` Unlinked ${result.unlinked} ticket(s) without a usable serial.`
+            : "")
+      );
+    } catch (err: any) {
+      alert(err.message || "Failed to link devices");
+    } finally {
+      setIsLinking(false);
+    }
+  };
+
+  const selected = devices.find((d) => d.id === selectedId);
+
+  return (
+    <div className="space-y-6 pb-20 animate-in fade-in duration-500">
+      {/* 1. SUMMARY */}
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+            Registered Devices
+          </p>
+          <p className="text-2xl font-bold text-slate-800 mt-1">
+            {devices.length}
+          </p>
+        </div>
+        <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+            In Warranty
+          </p>
+          <p className="text-2xl font-bold text-emerald-600 mt-1">
+            {inWarranty}
+          </p>
+        </div>
+        <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+            Repeat Repairs
+          </p>
+          <p
+            className={`text-2xl font-bold mt-1 ${
+              repeats > 0 ? "text-red-600" : "text-slate-800"
+            }`}
+          >
+            {repeats}
+          </p>
+          <p className="text-[10px] text-slate-400">
+            back within {REPEAT_REPAIR_DAYS} days
+          </p>
+        </div>
+      </div>
+
+      {/* 2. SEARCH & ACTIONS */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search
+            className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400"
+            size={20}
+          />
+          <input
+            type="text"
+            placeholder="Search by serial, model, owner or mobile..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 bg-white border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none shadow-sm text-slate-700"
+          />
+        </div>
+        {canEdit && unlinked > 0 && (
+          <button
+            onClick={handleBackfill}
+            disabled={isLinking}
+            className="px-4 py-3 bg-white border border-slate-200 rounded-xl shadow-sm text-slate-600 hover:text-indigo-600 hover:border-indigo-300 flex items-center gap-2 font-semibold text-sm disabled:opacity-50"
+          >
+            {isLinking ? (
+              <Loader2 size={18} className="animate-spin" />
+            ) : (
+              <Link2 size={18} />
+            )}
+            Link Existing Tickets ({unlinked})
+          </button>
+        )}
+      </div>
+
+      {/* 3. REGISTRY */}
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+        {filtered.length === 0 ? (
+          <div className="p-12 text-center text-slate-400">
+            <HardDrive size={32} className="mx-auto mb-2" />
+            <p className="text-sm">
+              {devices.length === 0
+                ? "Devices are registered when a ticket with a serial number is created."
+                : "No devices match your search."}
+            </p>
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs font-bold text-slate-500 uppercase">
+              <tr>
+                <th className="px-6 py-3 text-left">Serial</th>
+                <th className="px-6 py-3 text-left">Device</th>
+                <th className="px-6 py-3 text-left">Owner</th>
+                <th className="px-6 py-3 text-left">Warranty</th>
+                <th className="px-6 py-3 text-right">Visits</th>
+                <th className="px-6 py-3 text-right">Last Visit</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {filtered.map(({ device, history }) => {
+                const warranty = getWarrantyStatus(device);
+                const last = history.tickets[0];
+                return (
+                  <tr
+                    key={device.id}
+                    onClick={() => setSelectedId(device.id)}
+                    className="hover:bg-slate-50 cursor-pointer"
+                  >
+                    <td className="px-6 py-3 font-mono font-bold text-slate-800">
+                      {device.serial}
+                    </td>
+                    <td className="px-6 py-3 text-slate-700">
+                      {describeDevice(device)}
+                      <span className="block text-xs text-slate-400">
+                        {device.deviceType}
+                      </span>
+                    </td>
+                    <td className="px-6 py-3 text-slate-700">
+                      {history.owner?.name ?? device.customerName ?? "—"}
+                    </td>
+                    <td className="px-6 py-3">
+                      <span
+                        className={`text-[10px] px-2 py-0.5 rounded-full font-bold uppercase border inline-flex items-center gap-1 ${WARRANTY_STYLES[warranty]}`}
+                      >
+                        {warranty === "In Warranty" ? (
+                          <ShieldCheck size={10} />
+                        ) : (
+                          <ShieldAlert size={10} />
+                        )}
+                        {warranty}
+                      </span>
+                    </td>
+                    <td className="px-6 py-3 text-right">
+                      <span className="font-bold text-slate-800">
+                        {history.tickets.length}
+                      </span>
+                      {history.reports.length > 0 && (
+                        <span className="text-xs text-slate-400">
+                          {" "}
+                          + {history.reports.length} QC
+                        </span>
+                      )}
+                      {history.repeatCount > 0 && (
+                        <span className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-red-50 text-red-700 border border-red-100 font-bold inline-flex items-center gap-1">
+                          <Repeat size={10} /> {history.repeatCount}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-right text-slate-500">
+                      {last?.date ?? "—"}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {selected && (
+        <DeviceModal
+          device={selected}
+          tickets={tickets}
+          reports={reports}
+          customers={customers}
+          settings={settings}
+          currentUser={currentUser}
+          onOpenTicket={(ticketId) => {
+            setSelectedId(null);
+            onOpenTicket(ticketId);
+          }}
+          onClose={() => setSelectedId(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import React, { useMemo } from "react";
+import {
+  Truck,
+  AlertTriangle,
+  ExternalLink,
+  Building2,
+  Store as StoreIcon,
+} from "lucide-react";
+import { AppSettings, DeviceTransfer, Ticket } from "../types";
+import {
+  describeDestination,
+  getDevicesOut,
+  isOverdueTransfer,
+} from "@/services/transferEngine";
+
+interface DevicesOutProps {
+  transfers: DeviceTransfer[];
+  tickets: Ticket[];
+  settings: AppSettings;
+  onOpenTicket: (ticketId: string) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function DevicesOut({
+  transfers,
+  tickets,
+  settings,
+  onOpenTicket,
+}: DevicesOutProps) {
+  const groups = useMemo(
+    () => getDevicesOut(transfers, settings.stores),
+    [transfers, settings.stores]
+  );
+  const total = groups.reduce((sum, g) => sum + g.transfers.length, 0);
+  const overdue = groups.reduce(
+    (sum, g) => sum + g.transfers.filter((t) => isOverdueTransfer(t)).length,
+    0
+  );
+  const ticketFor = (id: string) => tickets.find((t) => t.id === id);
+
+  return (
+    <div className="space-y-6 pb-20 animate-in fade-in duration-500">
+      {/* 1. SUMMARY */}
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+            Devices Out
+          </p>
+          <p className="text-2xl font-bold text-slate-800 mt-1">{total}</p>
+        </div>
+        <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+            Overdue
+          </p>
+          <p
+            className={`text-2xl font-bold mt-1 ${
+              overdue > 0 ? "text-red-600" : "text-slate-800"
+            }`}
+          >
+            {overdue}
+          </p>
+        </div>
+      </div>
+
+      {/* 2. PER-STORE BOARD */}
+      {groups.map(({ store, transfers: out }) => (
+        <div
+          key={store.id}
+          className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden"
+        >
+          <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+            <h3 className="font-bold text-slate-800 flex items-center gap-2">
+              <StoreIcon size={18} className="text-indigo-600" /> {store.name}
+            </h3>
+            <span className="text-xs font-bold text-slate-500">
+              {out.length} away
+            </span>
+          </div>
+          <div className="divide-y divide-slate-100">
+            {out.map((transfer) => {
+              const ticket = ticketFor(transfer.ticketId);
+              const days = Math.floor((Date.now() - transfer.sentAt) / DAY_MS);
+              return (
+                <div
+                  key={transfer.id}
+                  className="px-6 py-3 flex flex-col md:flex-row md:items-center gap-2 md:gap-6"
+                >
+                  <button
+                    onClick={() => onOpenTicket(transfer.ticketId)}
+                    className="font-mono text-sm font-bold text-indigo-600 hover:text-indigo-700 flex items-center gap-1 w-40"
+                  >
+                    {transfer.ticketNumber} <ExternalLink size={12} />
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-800 truncate">
+                      {ticket
+                        ? `${ticket.name} · ${[ticket.brand, ticket.model]
+                            .filter(Boolean)
+                            .join(" ") || ticket.deviceType}`
+                        : "Ticket not loaded"}
+                    </p>
+                    <p className="text-xs text-slate-500 flex items-center gap-1">
+                      {transfer.destination === "Vendor" ? (
+                        <Building2 size={12} />
+                      ) : (
+                        <Truck size={12} />
+                      )}
+                      {describeDestination(transfer, settings.stores)} ·
+                      carried by {transfer.carriedBy}
+                      {transfer.reason && ` · ${transfer.reason}`}
+                    </p>
+                  </div>
+                  <span
+                    className={`text-[10px] px-2 py-0.5 rounded-full font-bold uppercase border w-fit ${
+                      transfer.status === "In Transit"
+                        ? "bg-amber-50 text-amber-700 border-amber-200"
+                        : "bg-blue-50 text-blue-700 border-blue-200"
+                    }`}
+                  >
+                    {transfer.status}
+                  </span>
+                  <div className="text-right w-32">
+                    <p className="text-xs font-bold text-slate-700">
+                      {days === 0 ? "Today" : `${days} day${days === 1 ? "" : "s"} out`}
+                    </p>
+                    {transfer.expectedBackDate && (
+                      <p
+                        className={`text-[10px] flex items-center justify-end gap-1 ${
+                          isOverdueTransfer(transfer)
+                            ? "text-red-600 font-bold"
+                            : "text-slate-400"
+                        }`}
+                      >
+                        {isOverdueTransfer(transfer) && (
+                          <AlertTriangle size={10} />
+                        )}
+                        due {transfer.expectedBackDate}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      {groups.length === 0 && (
+        <div className="bg-white rounded-2xl border border-slate-200 text-center py-16 text-slate-400 text-sm">
+          Every device is at its own store.
+        </div>
+      )}
+    </div>
+  );
+}
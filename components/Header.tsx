@@ -1,14 +1,39 @@
-import React from 'react';
-import { Menu, Bell, Search } from 'lucide-react';
-import { User } from '../types';
+import React, { useState } from 'react';
+import { Menu, Bell, Search, CheckCheck, AlertTriangle, Clock, MapPin } from 'lucide-react';
+import { AppNotification, User } from '../types';
+import { ALL_STORES } from '../services/storeScope';
 
 interface HeaderProps {
   onMenuClick: () => void;
   title: string;
   currentUser: User;
+  notifications: AppNotification[];
+  onMarkRead: (ids: string[]) => void;
+  onOpenTicket: (ticketId: string) => void;
+  stores: string[]; // stores the user can switch between
+  activeStore: string; // ALL_STORES for all of them
+  onStoreChange: (store: string) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onMenuClick, title, currentUser }) => {
+const timeAgo = (timestamp: number) => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const Header: React.FC<HeaderProps> = ({ onMenuClick, title, currentUser, notifications, onMarkRead, onOpenTicket, stores, activeStore, onStoreChange }) => {
+  const [isInboxOpen, setIsInboxOpen] = useState(false);
+  const unread = notifications.filter(n => !n.read);
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read) onMarkRead([notification.id]);
+    setIsInboxOpen(false);
+    onOpenTicket(notification.ticketId);
+  };
+
   return (
     <header className="sticky top-0 z-20 flex items-center justify-between px-4 lg:px-8 py-4 bg-white/80 backdrop-blur-md border-b border-slate-200 shadow-sm transition-all">
       <div className="flex items-center gap-3 lg:gap-4">
@@ -32,14 +57,91 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick, title, currentUser }) => {
            />
         </div>
 
+        {/* Store Switcher - only when there is more than one store to pick */}
+        {stores.length > 1 && (
+          <div className="flex items-center relative">
+            <MapPin size={16} className="absolute left-3 text-slate-400 pointer-events-none" />
+            <select
+              value={stores.includes(activeStore) ? activeStore : ALL_STORES}
+              onChange={(e) => onStoreChange(e.target.value)}
+              className="pl-9 pr-3 py-2 bg-slate-100 border border-transparent focus:bg-white focus:border-indigo-200 rounded-full text-sm font-semibold text-slate-700 outline-none max-w-[10rem] md:max-w-none"
+              title="Store"
+            >
+              <option value={ALL_STORES}>All stores</option>
+              {stores.map(store => (
+                <option key={store} value={store}>{store}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         <div className="h-8 w-px bg-slate-200 hidden md:block"></div>
 
         <div className="flex items-center gap-3">
-          <button className="relative p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors">
-            <Bell size={20} />
-            <span className="absolute top-1.5 right-1.5 w-2 h-2 bg-red-500 rounded-full border-2 border-white"></span>
-          </button>
-          
+          {/* Notification Center */}
+          <div className="relative">
+            <button
+              onClick={() => setIsInboxOpen(!isInboxOpen)}
+              className="relative p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+              title="Notifications"
+            >
+              <Bell size={20} />
+              {unread.length > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 bg-red-500 text-white text-[10px] font-bold rounded-full border-2 border-white flex items-center justify-center">
+                  {unread.length > 99 ? '99+' : unread.length}
+                </span>
+              )}
+            </button>
+
+            {isInboxOpen && (
+              <>
+                <div className="fixed inset-0 z-30" onClick={() => setIsInboxOpen(false)}></div>
+                <div className="absolute right-0 mt-2 w-80 sm:w-96 bg-white rounded-2xl border border-slate-200 shadow-2xl z-40 overflow-hidden animate-in fade-in zoom-in-95">
+                  <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100">
+                    <h3 className="text-sm font-bold text-slate-800">Notifications</h3>
+                    {unread.length > 0 && (
+                      <button
+                        onClick={() => onMarkRead(unread.map(n => n.id))}
+                        className="text-xs font-bold text-indigo-600 hover:text-indigo-700 flex items-center gap-1"
+                      >
+                        <CheckCheck size={14} /> Mark all read
+                      </button>
+                    )}
+                  </div>
+                  <div className="max-h-96 overflow-y-auto divide-y divide-slate-50">
+                    {notifications.length > 0 ? notifications.map(n => (
+                      <div
+                        key={n.id}
+                        onClick={() => handleOpen(n)}
+                        className={`flex gap-3 px-4 py-3 cursor-pointer hover:bg-slate-50 transition-colors ${n.read ? '' : 'bg-indigo-50/40'}`}
+                      >
+                        <div className={`mt-0.5 w-8 h-8 shrink-0 rounded-full flex items-center justify-center ${
+                          n.level === 'critical' ? 'bg-red-100 text-red-600' : n.level === 'warning' ? 'bg-amber-100 text-amber-600' : 'bg-indigo-100 text-indigo-600'
+                        }`}>
+                          {n.level === 'info' ? <Bell size={14} /> : n.level === 'critical' ? <AlertTriangle size={14} /> : <Clock size={14} />}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className={`text-sm leading-snug ${n.read ? 'text-slate-600' : 'font-bold text-slate-800'}`}>{n.title}</p>
+                          <p className="text-xs text-slate-500 truncate">{n.message}</p>
+                          <p className="text-[10px] text-slate-400 mt-0.5">{timeAgo(n.createdAt)}</p>
+                        </div>
+                        {!n.read && (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); onMarkRead([n.id]); }}
+                            className="self-center w-2.5 h-2.5 rounded-full bg-indigo-500 hover:ring-4 hover:ring-indigo-100"
+                            title="Mark as read"
+                          ></button>
+                        )}
+                      </div>
+                    )) : (
+                      <div className="text-center py-10 text-slate-400 text-sm">You're all caught up.</div>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+
           <div className="flex items-center gap-3 pl-2">
             <div className="hidden md:block text-right">
                 <p className="text-sm font-bold text-slate-700 leading-none">{currentUser.name}</p>
@@ -0,0 +1,388 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  ClipboardCheck,
+  Camera,
+  Loader2,
+  AlertTriangle,
+  Printer,
+  Save,
+  Trash2,
+} from "lucide-react";
+import { AppSettings, IntakePhoto, Ticket, User } from "../types";
+import { repository } from "@/services/dataRepository";
+import {
+  addIntakePhoto,
+  buildIntakeRows,
+  completeIntake,
+  compressPhoto,
+  getChargerReceived,
+  getIntakeChecklist,
+  INTAKE_ANSWERS,
+  INTAKE_SECTIONS,
+  IntakeFormRow,
+  isIntakeProblem,
+  isSameIntake,
+  removeIntakePhoto,
+} from "@/services/intakeEngine";
+import { downloadIntakeReceipt } from "@/services/intakeReceiptPdf";
+import { can } from "@/services/permissionEngine";
+
+const ANSWER_STYLES = {
+  ok: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  problem: "bg-red-50 text-red-700 border-red-200",
+  neutral: "bg-slate-100 text-slate-600 border-slate-200",
+};
+
+// --- 1. CHECKLIST FIELDS ---
+// Shared by the new-ticket form and the Intake tab.
+interface IntakeChecklistFieldsProps {
+  rows: IntakeFormRow[];
+  onChange: (rows: IntakeFormRow[]) => void;
+  remarks: string;
+  onRemarksChange: (remarks: string) => void;
+}
+
+export const IntakeChecklistFields: React.FC<IntakeChecklistFieldsProps> = ({
+  rows,
+  onChange,
+  remarks,
+  onRemarksChange,
+}) => {
+  const setRow = (itemId: string, patch: Partial<IntakeFormRow>) =>
+    onChange(rows.map((r) => (r.itemId === itemId ? { ...r, ...patch } : r)));
+
+  return (
+    <div className="space-y-4">
+      {INTAKE_SECTIONS.map((section) => {
+        const sectionRows = rows.filter((r) => r.section === section);
+        if (sectionRows.length === 0) return null;
+        return (
+          <div key={section}>
+            <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">
+              {section}
+            </h4>
+            <div className="space-y-2">
+              {sectionRows.map((row) => (
+                <div key={row.itemId} className="flex flex-wrap items-center gap-2">
+                  <span className="w-36 text-sm text-slate-700">
+                    {row.label}
+                  </span>
+                  <div className="flex gap-1">
+                    {INTAKE_ANSWERS[section].map((answer) => {
+                      const selected = row.answer === answer;
+                      const tone = isIntakeProblem(answer)
+                        ? "problem"
+                        : answer === "Not Tested"
+                        ? "neutral"
+                        : "ok";
+                      return (
+                        <button
+                          key={answer}
+                          type="button"
+                          onClick={() => setRow(row.itemId, { answer })}
+                          className={`px-2.5 py-1 text-xs font-bold rounded-lg border transition-all ${
+                            selected
+                              ? ANSWER_STYLES[tone]
+                              : "bg-white text-slate-400 border-slate-200 hover:text-slate-600"
+                          }`}
+                        >
+                          {answer}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  {(row.note || (row.answer && isIntakeProblem(row.answer))) && (
+                    <input
+                      type="text"
+                      value={row.note || ""}
+                      onChange={(e) =>
+                        setRow(row.itemId, { note: e.target.value })
+                      }
+                      placeholder={
+                        row.answer === "Damaged"
+                          ? "Where / what kind of damage"
+                          : "Note"
+                      }
+                      className="flex-1 min-w-[140px] px-2 py-1 text-xs bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+      <textarea
+        rows={2}
+        value={remarks}
+        onChange={(e) => onRemarksChange(e.target.value)}
+        placeholder="Other remarks (e.g. passcode given, data backup declined)"
+        className="w-full px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-xl outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 resize-none"
+      />
+    </div>
+  );
+};
+
+// --- 2. PHOTO STRIP ---
+export interface PendingPhoto {
+  id?: string; // set once stored
+  dataUrl: string;
+  caption?: string;
+}
+
+interface PhotoStripProps {
+  photos: PendingPhoto[];
+  onAdd: (dataUrl: string, caption: string) => Promise<void> | void;
+  onRemove?: (index: number) => void;
+}
+
+export const PhotoStrip: React.FC<PhotoStripProps> = ({
+  photos,
+  onAdd,
+  onRemove,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caption, setCaption] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setIsAdding(true);
+    setError(null);
+    try {
+      await onAdd(await compressPhoto(file), caption);
+      setCaption("");
+    } catch (err: any) {
+      setError(err.message || "Failed to add the photo");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+        {photos.map((photo, index) => (
+          <div
+            key={photo.id ?? index}
+            className="relative group rounded-xl overflow-hidden border border-slate-200 bg-slate-50"
+          >
+            <img
+              src={photo.dataUrl}
+              alt={photo.caption || "Condition photo"}
+              className="w-full aspect-[4/3] object-cover"
+            />
+            {photo.caption && (
+              <p className="px-2 py-1 text-[10px] text-slate-600 truncate">
+                {photo.caption}
+              </p>
+            )}
+            {onRemove && (
+              <button
+                type="button"
+                onClick={() => onRemove(index)}
+                className="absolute top-1 right-1 p-1 bg-white/90 rounded-lg text-slate-500 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+              >
+                <Trash2 size={12} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={caption}
+          onChange={(e) => setCaption(e.target.value)}
+          placeholder="Caption (optional), e.g. scratch on back panel"
+          className="flex-1 px-3 py-1.5 text-sm bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+        />
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={isAdding}
+          className="px-3 py-1.5 text-sm font-semibold text-indigo-600 bg-indigo-50 rounded-lg hover:bg-indigo-100 flex items-center gap-1 disabled:opacity-50"
+        >
+          {isAdding ? (
+            <Loader2 size={14} className="animate-spin" />
+          ) : (
+            <Camera size={14} />
+          )}
+          Add Photo
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          onChange={handleFile}
+          className="hidden"
+        />
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+// --- MAIN COMPONENT (Intake tab) ---
+interface IntakePanelProps {
+  ticket: Ticket;
+  settings: AppSettings;
+  currentUser: User;
+}
+
+export default function IntakePanel({
+  ticket,
+  settings,
+  currentUser,
+}: IntakePanelProps) {
+  const checklist = getIntakeChecklist(ticket.deviceType, settings.deviceTypes);
+  const [rows, setRows] = useState(() =>
+    buildIntakeRows(
+      ticket.intake
+        ? // Keep items answered at check-in even if the checklist changed since
+          [
+            ...ticket.intake.results.map(({ itemId, label, section }) => ({
+              id: itemId,
+              label,
+              section,
+            })),
+            ...checklist.filter(
+              (item) =>
+                !ticket.intake?.results.some((r) => r.itemId === item.id)
+            ),
+          ]
+        : checklist,
+      ticket.intake?.results
+    )
+  );
+  const [remarks, setRemarks] = useState(ticket.intake?.remarks || "");
+  const [photos, setPhotos] = useState<IntakePhoto[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadPhotos = () =>
+    repository.intakePhotos
+      .findBy("ticketId", ticket.id)
+      .then((rows) => setPhotos(rows.sort((a, b) => a.takenAt - b.takenAt)))
+      .catch((err) => setError(err.message || "Failed to load photos"));
+
+  useEffect(() => {
+    loadPhotos();
+  }, [ticket.id]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const intake = completeIntake(rows, remarks, currentUser);
+      if (!isSameIntake(ticket.intake, intake)) {
+        const charger = getChargerReceived(intake);
+        await repository.tickets.update(
+          ticket.id,
+          {
+            intake,
+            ...(charger === undefined ? {} : { chargerIncluded: charger }),
+          },
+          { action: ticket.intake ? "Intake Updated" : "Intake Recorded" }
+        );
+      }
+    } catch (err: any) {
+      setError(err.message || "Failed to save the checklist");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddPhoto = async (dataUrl: string, caption: string) => {
+    await addIntakePhoto(ticket, dataUrl, caption, currentUser);
+    await loadPhotos();
+  };
+
+  const handleRemovePhoto = async (index: number) => {
+    const reason = window.prompt("Why is this photo being removed?");
+    if (reason === null) return;
+    try {
+      await removeIntakePhoto(photos[index], reason, currentUser);
+      await loadPhotos();
+    } catch (err: any) {
+      setError(err.message || "Failed to remove the photo");
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <ClipboardCheck size={20} className="text-indigo-600" /> Device
+          Intake
+        </h3>
+        <button
+          type="button"
+          onClick={() => downloadIntakeReceipt(ticket, photos)}
+          className="px-4 py-1.5 text-sm font-semibold text-slate-700 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 flex items-center gap-2"
+        >
+          <Printer size={14} /> Intake Receipt
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-100 rounded-xl text-sm text-red-700 flex items-center gap-2">
+          <AlertTriangle size={16} /> {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl border border-slate-200 p-4 space-y-4">
+        {ticket.intake ? (
+          <p className="text-xs text-slate-400">
+            Recorded by {ticket.intake.recordedBy} on{" "}
+            {new Date(ticket.intake.recordedAt).toLocaleString()}
+          </p>
+        ) : (
+          <p className="text-xs text-amber-700">
+            No checklist was recorded when this device was checked in.
+          </p>
+        )}
+        <IntakeChecklistFields
+          rows={rows}
+          onChange={setRows}
+          remarks={remarks}
+          onRemarksChange={setRemarks}
+        />
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-1.5 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 flex items-center gap-1 disabled:opacity-50"
+          >
+            {isSaving ? (
+              <Loader2 size={14} className="animate-spin" />
+            ) : (
+              <Save size={14} />
+            )}
+            Save Checklist
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 p-4 space-y-3">
+        <h4 className="text-sm font-bold text-slate-800 uppercase tracking-wide flex items-center gap-2">
+          <Camera size={14} className="text-slate-400" /> Condition Photos
+        </h4>
+        <PhotoStrip
+          photos={photos}
+          onAdd={handleAddPhoto}
+          onRemove={
+            can(currentUser, "intake.photo.delete")
+              ? handleRemovePhoto
+              : undefined
+          }
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,684 @@
+import React, { useState, useMemo, useEffect } from "react";
+import {
+  Search,
+  Plus,
+  Package,
+  AlertTriangle,
+  Pencil,
+  ArrowDownToLine,
+  SlidersHorizontal,
+  X,
+  Loader2,
+  Save,
+} from "lucide-react";
+import { AppSettings, Part, StockMovement, User } from "../types";
+import {
+  adjustStock,
+  getLowStockItems,
+  getStock,
+  getStockLevels,
+  getTotalStock,
+  isLowStock,
+  PartDraft,
+  savePart,
+  STOCK_MOVEMENT_LABELS,
+} from "@/services/inventoryEngine";
+import { formatQuoteAmount } from "@/services/quotationEngine";
+import { can } from "@/services/permissionEngine";
+
+interface InventoryProps {
+  parts: Part[];
+  stockMovements: StockMovement[];
+  settings: AppSettings;
+  currentUser: User;
+}
+
+const EMPTY_PART: PartDraft = {
+  sku: "",
+  name: "",
+  brandId: "",
+  deviceTypeIds: [],
+  unitCost: 0,
+  unitPrice: 0,
+  taxRate: 18,
+  reorderLevel: 2,
+  active: true,
+};
+
+const inputClass =
+  "w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+const labelClass =
+  "block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5";
+
+// --- 1. PART MODAL ---
+interface PartModalProps {
+  part: Part | null; // null adds a new part
+  parts: Part[];
+  settings: AppSettings;
+  currentUser: User;
+  onClose: () => void;
+}
+
+const PartModal: React.FC<PartModalProps> = ({
+  part,
+  parts,
+  settings,
+  currentUser,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<PartDraft>(part || EMPTY_PART);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const set = (patch: Partial<PartDraft>) => setDraft({ ...draft, ...patch });
+
+  const toggleDeviceType = (id: string) =>
+    set({
+      deviceTypeIds: draft.deviceTypeIds.includes(id)
+        ? draft.deviceTypeIds.filter((d) => d !== id)
+        : [...draft.deviceTypeIds, id],
+    });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await savePart(draft, parts, currentUser);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || "Failed to save part");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl animate-in fade-in zoom-in duration-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h3 className="text-lg font-bold text-slate-800">
+            {part ? `Edit ${part.sku}` : "Add Part"}
+          </h3>
+          <button onClick={onClose}>
+            <X size={20} className="text-slate-400 hover:text-slate-600" />
+          </button>
+        </div>
+        <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-50 text-red-600 text-xs font-bold rounded-lg flex items-center gap-2">
+              <AlertTriangle size={14} />
+              {error}
+            </div>
+          )}
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block">
+              <span className={labelClass}>SKU</span>
+              <input
+                type="text"
+                value={draft.sku}
+                onChange={(e) => set({ sku: e.target.value })}
+                className={`${inputClass} font-mono uppercase`}
+                placeholder="DSP-IV-Z1"
+              />
+            </label>
+            <label className="block col-span-2">
+              <span className={labelClass}>Name</span>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => set({ name: e.target.value })}
+                className={inputClass}
+                placeholder="e.g. Display assembly"
+              />
+            </label>
+          </div>
+          <label className="block">
+            <span className={labelClass}>Brand</span>
+            <select
+              value={draft.brandId || ""}
+              onChange={(e) => set({ brandId: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Generic (fits any brand)</option>
+              {settings.serviceBrands.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {b.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div>
+            <span className={labelClass}>
+              Device Types{" "}
+              <span className="normal-case font-normal">(none = all)</span>
+            </span>
+            <div className="flex flex-wrap gap-2">
+              {settings.deviceTypes.map((d) => (
+                <button
+                  key={d.id}
+                  type="button"
+                  onClick={() => toggleDeviceType(d.id)}
+                  className={`px-2.5 py-1 text-xs font-bold rounded-lg border ${
+                    draft.deviceTypeIds.includes(d.id)
+                      ? "bg-indigo-50 text-indigo-700 border-indigo-200"
+                      : "bg-white text-slate-500 border-slate-200"
+                  }`}
+                >
+                  {d.name}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className={labelClass}>Cost Price</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={draft.unitCost}
+                onChange={(e) => set({ unitCost: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>Selling Price</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={draft.unitPrice}
+                onChange={(e) => set({ unitPrice: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>GST %</span>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={draft.taxRate}
+                onChange={(e) => set({ taxRate: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>Reorder At (per store)</span>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={draft.reorderLevel}
+                onChange={(e) => set({ reorderLevel: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={draft.active}
+              onChange={(e) => set({ active: e.target.checked })}
+            />
+            Active (offered on tickets)
+          </label>
+        </div>
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3 bg-slate-50/50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-semibold text-slate-600 hover:bg-slate-100 rounded-lg"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-semibold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 disabled:opacity-70"
+          >
+            {isSaving ? (
+              <Loader2 size={16} className="animate-spin" />
+            ) : (
+              <Save size={16} />
+            )}
+            Save Part
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- 2. STOCK MODAL ---
+interface StockModalProps {
+  part: Part;
+  stockMovements: StockMovement[];
+  settings: AppSettings;
+  currentUser: User;
+  defaultStoreId: string;
+  onClose: () => void;
+}
+
+const StockModal: React.FC<StockModalProps> = ({
+  part,
+  stockMovements,
+  settings,
+  currentUser,
+  defaultStoreId,
+  onClose,
+}) => {
+  const [storeId, setStoreId] = useState(defaultStoreId);
+  const [kind, setKind] = useState<"Receipt" | "Adjustment">("Receipt");
+  const [quantity, setQuantity] = useState(1);
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const levels = getStockLevels(stockMovements);
+  const history = stockMovements
+    .filter((m) => m.partId === part.id && m.storeId === storeId)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, 10);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await adjustStock(part, storeId, kind, quantity, note, currentUser);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || "Failed to update stock");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl animate-in fade-in zoom-in duration-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h3 className="text-lg font-bold text-slate-800">
+            Stock · <span className="font-mono">{part.sku}</span>
+          </h3>
+          <button onClick={onClose}>
+            <X size={20} className="text-slate-400 hover:text-slate-600" />
+          </button>
+        </div>
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 text-red-600 text-xs font-bold rounded-lg flex items-center gap-2">
+              <AlertTriangle size={14} />
+              {error}
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className={labelClass}>Store</span>
+              <select
+                value={storeId}
+                onChange={(e) => setStoreId(e.target.value)}
+                className={inputClass}
+              >
+                {settings.stores.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name} ({getStock(levels, part.id, s.id)})
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className={labelClass}>Type</span>
+              <select
+                value={kind}
+                onChange={(e) => setKind(e.target.value as any)}
+                className={inputClass}
+              >
+                <option value="Receipt">Goods received</option>
+                <option value="Adjustment">Stock-take adjustment</option>
+              </select>
+            </label>
+            <label className="block">
+              <span className={labelClass}>
+                Quantity{kind === "Adjustment" && " (+/-)"}
+              </span>
+              <input
+                type="number"
+                step="1"
+                value={quantity}
+                onChange={(e) => setQuantity(Number(e.target.value))}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>
+                {kind === "Adjustment" ? "Reason" : "Note"}
+              </span>
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          {history.length > 0 && (
+            <div className="bg-slate-50 rounded-lg border border-slate-100 divide-y divide-slate-100 text-xs">
+              {history.map((m) => (
+                <div key={m.id} className="px-3 py-2 flex gap-3">
+                  <span
+                    className={`w-10 text-right font-bold ${
+                      m.quantity < 0 ? "text-red-600" : "text-emerald-600"
+                    }`}
+                  >
+                    {m.quantity > 0 ? `+${m.quantity}` : m.quantity}
+                  </span>
+                  <span className="flex-1 text-slate-600">
+                    {STOCK_MOVEMENT_LABELS[m.kind]}
+                    {m.ticketNumber && ` ${m.ticketNumber}`}
+                    {m.note && ` · ${m.note}`}
+                  </span>
+                  <span className="text-slate-400">
+                    {new Date(m.createdAt).toLocaleDateString()} ·{" "}
+                    {m.createdBy}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3 bg-slate-50/50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-semibold text-slate-600 hover:bg-slate-100 rounded-lg"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !storeId}
+            className="px-4 py-2 text-sm font-semibold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 disabled:opacity-70"
+          >
+            {isSaving ? (
+              <Loader2 size={16} className="animate-spin" />
+            ) : (
+              <Save size={16} />
+            )}
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- MAIN COMPONENT ---
+export default function Inventory({
+  parts,
+  stockMovements,
+  settings,
+  currentUser,
+}: InventoryProps) {
+  // --- STATE ---
+  const [searchTerm, setSearchTerm] = useState("");
+  const [storeId, setStoreId] = useState("All");
+  const [lowOnly, setLowOnly] = useState(false);
+  const [editingPart, setEditingPart] = useState<Part | null | undefined>(
+    undefined
+  ); // undefined = closed, null = new part
+  const [stockPart, setStockPart] = useState<Part | null>(null);
+
+  const canManage = can(currentUser, "inventory.manage");
+
+  // A removed store can no longer be filtered on
+  useEffect(() => {
+    if (storeId !== "All" && !settings.stores.some((s) => s.id === storeId)) {
+      setStoreId("All");
+    }
+  }, [settings.stores, storeId]);
+
+  const levels = useMemo(() => getStockLevels(stockMovements), [stockMovements]);
+  const scopeStores = useMemo(
+    () =>
+      storeId === "All"
+        ? settings.stores
+        : settings.stores.filter((s) => s.id === storeId),
+    [settings.stores, storeId]
+  );
+
+  const lowStock = useMemo(
+    () => getLowStockItems(parts, scopeStores, levels),
+    [parts, scopeStores, levels]
+  );
+  const lowPartIds = new Set(lowStock.map((i) => i.part.id));
+
+  const brandName = (id?: string) =>
+    settings.serviceBrands.find((b) => b.id === id)?.name || "Generic";
+  const deviceNames = (ids: string[]) =>
+    ids.length === 0
+      ? "All devices"
+      : ids
+          .map((id) => settings.deviceTypes.find((d) => d.id === id)?.name)
+          .filter(Boolean)
+          .join(", ");
+
+  // --- FILTERING ---
+  const filtered = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return parts
+      .filter((p) => !lowOnly || lowPartIds.has(p.id))
+      .filter(
+        (p) =>
+          !term ||
+          p.sku.toLowerCase().includes(term) ||
+          p.name.toLowerCase().includes(term) ||
+          brandName(p.brandId).toLowerCase().includes(term)
+      )
+      .sort((a, b) => a.sku.localeCompare(b.sku));
+  }, [parts, searchTerm, lowOnly, lowStock]);
+
+  const stockValue = parts.reduce(
+    (sum, p) => sum + getTotalStock(levels, p.id, scopeStores) * p.unitCost,
+    0
+  );
+
+  return (
+    <div className="space-y-6 pb-20 animate-in fade-in duration-500">
+      {/* 1. STATS */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+          <p className="text-slate-500 text-xs font-bold uppercase tracking-wider">
+            Parts in Catalogue
+          </p>
+          <h3 className="text-2xl font-black text-slate-800">
+            {parts.filter((p) => p.active).length}
+          </h3>
+        </div>
+        <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+          <p className="text-slate-500 text-xs font-bold uppercase tracking-wider">
+            Stock Value (at cost)
+          </p>
+          <h3 className="text-2xl font-black text-slate-800">
+            {formatQuoteAmount(stockValue)}
+          </h3>
+        </div>
+        <button
+          onClick={() => setLowOnly(!lowOnly)}
+          className={`text-left p-5 rounded-2xl border shadow-sm ${
+            lowOnly
+              ? "bg-red-50 border-red-200"
+              : "bg-white border-slate-200 hover:border-red-200"
+          }`}
+        >
+          <p className="text-slate-500 text-xs font-bold uppercase tracking-wider flex items-center gap-1">
+            <AlertTriangle size={12} className="text-red-500" /> Low Stock
+          </p>
+          <h3 className="text-2xl font-black text-red-600">
+            {lowStock.length}
+          </h3>
+          <p className="text-[10px] text-slate-400">
+            {lowOnly ? "Showing low stock only" : "Click to filter"}
+          </p>
+        </button>
+      </div>
+
+      {/* 2. FILTERS */}
+      <div className="bg-white p-4 rounded-2xl border border-slate-200 shadow-sm flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search
+            className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400"
+            size={18}
+          />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="SKU, part name or brand..."
+            className="w-full pl-10 pr-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+          />
+        </div>
+        <select
+          value={storeId}
+          onChange={(e) => setStoreId(e.target.value)}
+          className="px-3 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+        >
+          <option value="All">All Stores</option>
+          {settings.stores.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+        {canManage && (
+          <button
+            onClick={() => setEditingPart(null)}
+            className="px-4 py-2.5 bg-indigo-600 text-white text-sm font-semibold rounded-xl hover:bg-indigo-700 flex items-center gap-2"
+          >
+            <Plus size={16} /> Add Part
+          </button>
+        )}
+      </div>
+
+      {/* 3. LIST */}
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50/80 border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-4 font-bold text-slate-600">Part</th>
+                <th className="px-6 py-4 font-bold text-slate-600">Fits</th>
+                <th className="px-6 py-4 font-bold text-slate-600 text-right">
+                  Price
+                </th>
+                <th className="px-6 py-4 font-bold text-slate-600">Stock</th>
+                <th className="px-6 py-4 font-bold text-slate-600 text-right">
+                  Action
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {filtered.map((part) => (
+                <tr key={part.id} className={part.active ? "" : "opacity-50"}>
+                  <td className="px-6 py-4">
+                    <div className="font-medium text-slate-800">
+                      {part.name}
+                    </div>
+                    <div className="text-xs font-mono text-slate-400">
+                      {part.sku}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-xs text-slate-500">
+                    <div className="font-bold text-slate-600">
+                      {brandName(part.brandId)}
+                    </div>
+                    {deviceNames(part.deviceTypeIds)}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <div className="font-bold text-slate-800">
+                      {formatQuoteAmount(part.unitPrice)}
+                    </div>
+                    <div className="text-[10px] text-slate-400">
+                      cost {formatQuoteAmount(part.unitCost)}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex flex-wrap gap-1.5">
+                      {scopeStores.map((store) => {
+                        const qty = getStock(levels, part.id, store.id);
+                        const low = part.active && isLowStock(part, qty);
+                        return (
+                          <span
+                            key={store.id}
+                            title={`Reorder at ${part.reorderLevel}`}
+                            className={`px-2 py-0.5 rounded-md text-[10px] font-bold border ${
+                              low
+                                ? "bg-red-50 text-red-700 border-red-100"
+                                : "bg-slate-50 text-slate-600 border-slate-200"
+                            }`}
+                          >
+                            {store.name}: {qty}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">
+                    {canManage && (
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setStockPart(part)}
+                          className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg"
+                          title="Receive / adjust stock"
+                        >
+                          <ArrowDownToLine size={16} />
+                        </button>
+                        <button
+                          onClick={() => setEditingPart(part)}
+                          className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg"
+                          title="Edit part"
+                        >
+                          <Pencil size={16} />
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {filtered.length === 0 && (
+          <div className="text-center py-16 text-slate-400 text-sm flex flex-col items-center gap-2">
+            {parts.length === 0 ? (
+              <Package size={32} className="text-slate-300" />
+            ) : (
+              <SlidersHorizontal size={32} className="text-slate-300" />
+            )}
+            {parts.length === 0
+              ? "No parts in the catalogue yet."
+              : "No parts match these filters."}
+          </div>
+        )}
+      </div>
+
+      {editingPart !== undefined && (
+        <PartModal
+          part={editingPart}
+          parts={parts}
+          settings={settings}
+          currentUser={currentUser}
+          onClose={() => setEditingPart(undefined)}
+        />
+      )}
+      {stockPart && (
+        <StockModal
+          part={stockPart}
+          stockMovements={stockMovements}
+          settings={settings}
+          currentUser={currentUser}
+          defaultStoreId={
+            storeId !== "All" ? storeId : settings.stores[0]?.id || ""
+          }
+          onClose={() => setStockPart(null)}
+        />
+      )}
+    </div>
+  );
+}
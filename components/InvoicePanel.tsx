@@ -0,0 +1,297 @@
+import React, { useState, useEffect } from "react";
+import {
+  FileText,
+  Download,
+  Ban,
+  Loader2,
+  AlertTriangle,
+  ShieldCheck,
+} from "lucide-react";
+import {
+  AppSettings,
+  Invoice,
+  InvoiceLine,
+  Part,
+  Quotation,
+  StockMovement,
+  Ticket,
+  User,
+} from "../types";
+import {
+  getInvoiceBlocker,
+  getInvoiceDraftLines,
+  issueInvoice,
+  voidInvoice,
+} from "@/services/invoiceEngine";
+import { calculateInvoiceTotals } from "@/services/billing";
+import { downloadInvoicePdf } from "@/services/invoicePdf";
+import { getConsumedPartLines } from "@/services/inventoryEngine";
+import {
+  formatQuoteAmount,
+  getQuotationConfig,
+} from "@/services/quotationEngine";
+import { can } from "@/services/permissionEngine";
+import { getResolvedStatus } from "@/services/workflowEngine";
+import LineItemsEditor from "./LineItemsEditor";
+
+interface InvoicePanelProps {
+  ticket: Ticket;
+  quotation: Quotation | null;
+  invoices: Invoice[]; // this ticket's invoices
+  parts: Part[];
+  stockMovements: StockMovement[]; // this ticket's movements
+  settings: AppSettings;
+  currentUser: User;
+  onIssued?: () => void; // the ticket has moved; the caller's form is stale
+}
+
+// Voiding asks for a reason; shared by the ticket tab and the billing list.
+export const promptVoidInvoice = async (invoice: Invoice, user: User) => {
+  const reason = window.prompt(
+    `Reason for voiding ${invoice.invoiceNumber}? The number will not be reused.`
+  );
+  if (reason === null) return;
+  try {
+    await voidInvoice(invoice, reason, user);
+  } catch (err: any) {
+    alert(err.message || "Failed to void invoice");
+  }
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function InvoicePanel({
+  ticket,
+  quotation,
+  invoices,
+  parts,
+  stockMovements,
+  settings,
+  currentUser,
+  onIssued,
+}: InvoicePanelProps) {
+  const config = getQuotationConfig(settings);
+  const blocker = getInvoiceBlocker(ticket, currentUser, settings, invoices);
+  const canVoid = can(currentUser, "invoice.void");
+
+  const [lines, setLines] = useState<InvoiceLine[]>([]);
+  const [discount, setDiscount] = useState(0);
+  const [date, setDate] = useState(today());
+  const [error, setError] = useState<string | null>(null);
+  const [isIssuing, setIsIssuing] = useState(false);
+
+  useEffect(() => {
+    setLines(
+      getInvoiceDraftLines(
+        ticket,
+        quotation,
+        config.defaultTaxRate,
+        getConsumedPartLines(parts, stockMovements, ticket.id)
+      )
+    );
+    setDiscount(0);
+    setDate(today());
+    setError(null);
+  }, [ticket.id, quotation?.updatedAt, stockMovements.length]);
+
+  const totals = calculateInvoiceTotals(lines, discount, ticket.warranty);
+
+  const handleIssue = async () => {
+    setIsIssuing(true);
+    setError(null);
+    try {
+      const invoice = await issueInvoice(
+        ticket,
+        { lines, discount, date },
+        settings,
+        currentUser
+      );
+      downloadInvoicePdf(
+        invoice,
+        settings.stores.find((s) => s.name === invoice.store)
+      );
+      onIssued?.();
+    } catch (err: any) {
+      setError(err.message || "Failed to issue invoice");
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-2 py-1.5 text-sm bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 disabled:bg-slate-50 disabled:text-slate-400";
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+        <FileText size={20} className="text-indigo-600" /> Invoice
+      </h3>
+
+      {/* Issued invoices */}
+      {invoices.length > 0 && (
+        <div className="bg-slate-50 rounded-xl border border-slate-200 divide-y divide-slate-200">
+          {[...invoices]
+            .sort((a, b) => b.issuedAt - a.issuedAt)
+            .map((invoice) => (
+              <div
+                key={invoice.id}
+                className="px-4 py-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs"
+              >
+                <span
+                  className={`font-mono font-bold ${
+                    invoice.status === "Void"
+                      ? "text-slate-400 line-through"
+                      : "text-slate-800"
+                  }`}
+                >
+                  {invoice.invoiceNumber}
+                </span>
+                <span className="font-bold text-slate-800">
+                  {formatQuoteAmount(invoice.total)}
+                </span>
+                <span className="text-slate-500">
+                  {invoice.date} · by {invoice.issuedBy}
+                </span>
+                {invoice.status === "Void" && (
+                  <span className="text-red-600">
+                    Void: {invoice.voidReason}
+                  </span>
+                )}
+                <div className="ml-auto flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      downloadInvoicePdf(
+                        invoice,
+                        settings.stores.find((s) => s.name === invoice.store)
+                      )
+                    }
+                    className="px-2.5 py-1 bg-white border border-slate-200 rounded-lg font-bold text-slate-600 hover:text-indigo-600 flex items-center gap-1"
+                  >
+                    <Download size={12} /> PDF
+                  </button>
+                  {canVoid && invoice.status === "Issued" && (
+                    <button
+                      type="button"
+                      onClick={() => promptVoidInvoice(invoice, currentUser)}
+                      className="px-2.5 py-1 bg-white border border-red-100 rounded-lg font-bold text-red-600 hover:bg-red-50 flex items-center gap-1"
+                    >
+                      <Ban size={12} /> Void
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+        </div>
+      )}
+
+      {blocker ? (
+        <div className="p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-600 flex items-center gap-2">
+          <AlertTriangle size={16} className="text-amber-500 shrink-0" />
+          {blocker}
+        </div>
+      ) : (
+        <>
+          {ticket.warranty && (
+            <div className="p-3 bg-amber-50 border border-amber-100 rounded-xl text-sm text-amber-800 flex items-center gap-2">
+              <ShieldCheck size={16} /> Warranty job: the invoice lists the
+              work done at zero cost.
+            </div>
+          )}
+
+          <LineItemsEditor
+            title="Invoice Lines"
+            items={lines}
+            onChange={setLines}
+            defaultTaxRate={config.defaultTaxRate}
+            parts={parts}
+            footer={
+              <dl className="text-sm w-72 space-y-1">
+                <div className="flex justify-between text-slate-500">
+                  <dt>Subtotal</dt>
+                  <dd>{formatQuoteAmount(totals.subtotal)}</dd>
+                </div>
+                {totals.discount > 0 && (
+                  <div className="flex justify-between text-slate-500">
+                    <dt>{ticket.warranty ? "Warranty" : "Discount"}</dt>
+                    <dd>- {formatQuoteAmount(totals.discount)}</dd>
+                  </div>
+                )}
+                {totals.taxes.map((t) => (
+                  <div
+                    key={t.rate}
+                    className="flex justify-between text-slate-500"
+                  >
+                    <dt>
+                      GST {t.rate}% on {formatQuoteAmount(t.taxable)}
+                    </dt>
+                    <dd>{formatQuoteAmount(t.tax)}</dd>
+                  </div>
+                ))}
+                <div className="flex justify-between font-bold text-slate-800 pt-1 border-t border-slate-200">
+                  <dt>Total</dt>
+                  <dd>{formatQuoteAmount(totals.total)}</dd>
+                </div>
+              </dl>
+            }
+          />
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <label className="block">
+              <span className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">
+                Invoice Date
+              </span>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">
+                Discount (before tax)
+              </span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={ticket.warranty ? totals.subtotal : discount}
+                disabled={ticket.warranty}
+                onChange={(e) => setDiscount(Number(e.target.value))}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-100 rounded-xl text-sm text-red-700 flex items-center gap-2">
+              <AlertTriangle size={16} /> {error}
+            </div>
+          )}
+
+          <div className="flex justify-end items-center gap-4">
+            {ticket.status !== getResolvedStatus(settings.workflow) && (
+              <span className="text-xs text-slate-500">
+                Issuing the invoice resolves this ticket.
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={handleIssue}
+              disabled={isIssuing}
+              className="px-5 py-2.5 bg-indigo-600 text-white font-semibold rounded-xl hover:bg-indigo-700 shadow-lg shadow-indigo-200 text-sm flex items-center gap-2 disabled:opacity-70"
+            >
+              {isIssuing ? (
+                <Loader2 size={16} className="animate-spin" />
+              ) : (
+                <FileText size={16} />
+              )}
+              Issue Invoice
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
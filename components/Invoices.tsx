@@ -0,0 +1,279 @@
+import React, { useState, useMemo } from "react";
+import {
+  Search,
+  Download,
+  Ban,
+  FileText,
+  IndianRupee,
+  Percent,
+  ShieldCheck,
+  ExternalLink,
+} from "lucide-react";
+import { AppSettings, Invoice, User } from "../types";
+import { downloadInvoicePdf } from "@/services/invoicePdf";
+import { getRevenueInvoices } from "@/services/invoiceEngine";
+import { formatQuoteAmount } from "@/services/quotationEngine";
+import { can } from "@/services/permissionEngine";
+import { promptVoidInvoice } from "./InvoicePanel";
+
+interface InvoicesProps {
+  invoices: Invoice[];
+  settings: AppSettings;
+  currentUser: User;
+  onOpenTicket: (ticketId: string) => void;
+}
+
+export default function Invoices({
+  invoices,
+  settings,
+  currentUser,
+  onOpenTicket,
+}: InvoicesProps) {
+  // --- STATE ---
+  const [searchTerm, setSearchTerm] = useState("");
+  const [storeFilter, setStoreFilter] = useState("All");
+  const [statusFilter, setStatusFilter] = useState<"All" | Invoice["status"]>(
+    "All"
+  );
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
+
+  const canVoid = can(currentUser, "invoice.void");
+
+  // --- FILTERING ---
+  const filtered = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return invoices
+      .filter((i) => !month || i.date.startsWith(month))
+      .filter((i) => storeFilter === "All" || i.store === storeFilter)
+      .filter((i) => statusFilter === "All" || i.status === statusFilter)
+      .filter(
+        (i) =>
+          !term ||
+          i.invoiceNumber.toLowerCase().includes(term) ||
+          i.ticketNumber.toLowerCase().includes(term) ||
+          i.customerName.toLowerCase().includes(term) ||
+          i.customerMobile.includes(term)
+      )
+      .sort((a, b) => b.issuedAt - a.issuedAt);
+  }, [invoices, searchTerm, storeFilter, statusFilter, month]);
+
+  // --- STATS ---
+  const stats = useMemo(() => {
+    const issued = getRevenueInvoices(filtered);
+    return {
+      revenue: issued.reduce((sum, i) => sum + i.total, 0),
+      tax: issued.reduce((sum, i) => sum + i.tax, 0),
+      count: issued.length,
+      warranty: issued.filter((i) => i.warranty).length,
+    };
+  }, [filtered]);
+
+  const storeFor = (invoice: Invoice) =>
+    settings.stores.find((s) => s.name === invoice.store);
+
+  return (
+    <div className="space-y-6 pb-20 animate-in fade-in duration-500">
+      {/* 1. STATS */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {[
+          {
+            label: "Invoiced",
+            value: formatQuoteAmount(stats.revenue),
+            icon: IndianRupee,
+            tone: "bg-emerald-50 text-emerald-600",
+          },
+          {
+            label: "GST Collected",
+            value: formatQuoteAmount(stats.tax),
+            icon: Percent,
+            tone: "bg-indigo-50 text-indigo-600",
+          },
+          {
+            label: "Invoices",
+            value: stats.count,
+            icon: FileText,
+            tone: "bg-blue-50 text-blue-600",
+          },
+          {
+            label: "Warranty Jobs",
+            value: stats.warranty,
+            icon: ShieldCheck,
+            tone: "bg-amber-50 text-amber-600",
+          },
+        ].map((card) => (
+          <div
+            key={card.label}
+            className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm flex items-center justify-between"
+          >
+            <div>
+              <p className="text-slate-500 text-xs font-bold uppercase tracking-wider">
+                {card.label}
+              </p>
+              <h3 className="text-2xl font-black text-slate-800">
+                {card.value}
+              </h3>
+            </div>
+            <div
+              className={`w-11 h-11 rounded-full flex items-center justify-center ${card.tone}`}
+            >
+              <card.icon size={22} />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* 2. FILTERS */}
+      <div className="bg-white p-4 rounded-2xl border border-slate-200 shadow-sm flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search
+            className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400"
+            size={18}
+          />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Invoice, ticket, customer or mobile..."
+            className="w-full pl-10 pr-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+          />
+        </div>
+        <input
+          type="month"
+          value={month}
+          onChange={(e) => setMonth(e.target.value)}
+          className="px-3 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+        />
+        <select
+          value={storeFilter}
+          onChange={(e) => setStoreFilter(e.target.value)}
+          className="px-3 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+        >
+          <option value="All">All Stores</option>
+          {settings.stores.map((s) => (
+            <option key={s.id} value={s.name}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as any)}
+          className="px-3 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none"
+        >
+          <option value="All">All Statuses</option>
+          <option value="Issued">Issued</option>
+          <option value="Void">Void</option>
+        </select>
+      </div>
+
+      {/* 3. LIST */}
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50/80 border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-4 font-bold text-slate-600">Invoice</th>
+                <th className="px-6 py-4 font-bold text-slate-600">Date</th>
+                <th className="px-6 py-4 font-bold text-slate-600">Customer</th>
+                <th className="px-6 py-4 font-bold text-slate-600">Store</th>
+                <th className="px-6 py-4 font-bold text-slate-600 text-right">
+                  GST
+                </th>
+                <th className="px-6 py-4 font-bold text-slate-600 text-right">
+                  Total
+                </th>
+                <th className="px-6 py-4 font-bold text-slate-600 text-right">
+                  Action
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {filtered.map((invoice) => (
+                <tr
+                  key={invoice.id}
+                  className={invoice.status === "Void" ? "opacity-60" : ""}
+                >
+                  <td className="px-6 py-4">
+                    <div
+                      className={`font-mono font-bold ${
+                        invoice.status === "Void"
+                          ? "text-slate-400 line-through"
+                          : "text-indigo-600"
+                      }`}
+                    >
+                      {invoice.invoiceNumber}
+                    </div>
+                    <button
+                      onClick={() => onOpenTicket(invoice.ticketId)}
+                      className="text-[10px] text-slate-400 hover:text-indigo-600 flex items-center gap-1"
+                    >
+                      {invoice.ticketNumber} <ExternalLink size={10} />
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 text-slate-500">{invoice.date}</td>
+                  <td className="px-6 py-4">
+                    <div className="font-medium text-slate-800">
+                      {invoice.customerName}
+                    </div>
+                    <div className="text-xs text-slate-400">
+                      {invoice.customerMobile}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-slate-600">{invoice.store}</td>
+                  <td className="px-6 py-4 text-right text-slate-500">
+                    {formatQuoteAmount(invoice.tax)}
+                  </td>
+                  <td className="px-6 py-4 text-right font-bold text-slate-800">
+                    {formatQuoteAmount(invoice.total)}
+                    {invoice.warranty && (
+                      <div className="text-[10px] font-bold text-amber-600 uppercase">
+                        Warranty
+                      </div>
+                    )}
+                    {invoice.status === "Void" && (
+                      <div
+                        className="text-[10px] font-bold text-red-600 uppercase"
+                        title={invoice.voidReason}
+                      >
+                        Void
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() =>
+                          downloadInvoicePdf(invoice, storeFor(invoice))
+                        }
+                        className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg"
+                        title="Download PDF"
+                      >
+                        <Download size={16} />
+                      </button>
+                      {canVoid && invoice.status === "Issued" && (
+                        <button
+                          onClick={() =>
+                            promptVoidInvoice(invoice, currentUser)
+                          }
+                          className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                          title="Void invoice"
+                        >
+                          <Ban size={16} />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {filtered.length === 0 && (
+          <div className="text-center py-16 text-slate-400 text-sm">
+            No invoices match these filters.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
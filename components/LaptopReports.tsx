@@ -73,16 +73,8 @@ import {
   ChecklistItem,
   ChecklistState,
 } from "../types";
-import {
-  collection,
-  doc,
-  setDoc,
-  getDocs,
-  query,
-  orderBy,
-  serverTimestamp,
-} from "firebase/firestore";
-import { db } from "@/firebaseConfig";
+import { repository } from "@/services/dataRepository";
+import { ensureReportDevice } from "@/services/deviceRegistry";
 // --- DATA ---
 
 const CHECKLIST_DATA: ChecklistCategory[] = [
@@ -336,6 +328,8 @@ interface LaptopReportsProps {
   currentUser?: AppUser;
   reports?: Report[];
   setReports?: (reports: Report[]) => void;
+  openReportId?: string | null; // open this report in the editor (scan lookup)
+  onReportOpened?: () => void;
 }
 
 // --- COMPONENTS ---
@@ -505,6 +499,8 @@ export default function LaptopReports({
   currentUser,
   reports = [],
   setReports,
+  openReportId,
+  onReportOpened,
 }: LaptopReportsProps) {
   // internalView controls List vs Editor inside the Data tab
   const [internalView, setInternalView] = useState<"list" | "editor">("list");
@@ -515,25 +511,6 @@ export default function LaptopReports({
   // UI State
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
   const [searchTerm, setSearchTerm] = useState("");
-  const reportsRef = collection(db, "laptop_reports");
-  useEffect(() => {
-    if (!setReports) return;
-
-    const fetchReports = async () => {
-      const q = query(reportsRef, orderBy("createdAt", "desc"));
-      const snapshot = await getDocs(q);
-
-      const data: Report[] = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...(doc.data() as Report),
-      }));
-
-      setReports(data);
-    };
-
-    fetchReports();
-  }, [setReports]);
-
   // Reset internal view when switching main tabs
   useEffect(() => {
     if (activeTab === "data") {
@@ -663,12 +640,14 @@ export default function LaptopReports({
       id: reportId,
       history: [...(currentReport.history || []), historyEntry],
       status: currentReport.progress === 100 ? "Completed" : "Draft",
-      createdAt: isNew ? serverTimestamp() : currentReport.createdAt,
-      updatedAt: serverTimestamp(),
     };
 
-    // 🔥 SAVE TO FIRESTORE (TOP-LEVEL COLLECTION)
-    await setDoc(doc(db, "laptop_reports", reportId), reportToSave);
+    if (isNew) {
+      await repository.laptopReports.create(reportToSave);
+    } else {
+      await repository.laptopReports.upsert(reportToSave);
+    }
+    await ensureReportDevice(reportToSave);
 
     // 🔄 Reset UI
     setInternalView("list");
@@ -696,6 +675,14 @@ export default function LaptopReports({
     setInternalView("editor");
   };
 
+  useEffect(() => {
+    if (!openReportId) return;
+    const report = reports.find((r) => r.id === openReportId);
+    if (!report) return;
+    loadReport(report);
+    onReportOpened?.();
+  }, [openReportId, reports]);
+
   const deleteReport = (id: string) => {
     if (confirm("Delete this report?") && setReports) {
       setReports(reports.filter((r) => r.id !== id));
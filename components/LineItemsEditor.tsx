@@ -0,0 +1,200 @@
+import React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Part, QuoteLineItem, QuoteLineKind } from "../types";
+import {
+  formatQuoteAmount,
+  QUOTE_LINE_KIND_LABELS,
+} from "@/services/quotationEngine";
+import { lineAmount } from "@/services/billing";
+import { partLine } from "@/services/inventoryEngine";
+
+// Parts / labour line table shared by quotations and invoices.
+interface LineItemsEditorProps {
+  title: string;
+  items: QuoteLineItem[];
+  onChange: (items: QuoteLineItem[]) => void;
+  defaultTaxRate: number;
+  footer?: React.ReactNode; // totals, shown under the table
+  parts?: Part[]; // offers "add from inventory" when given
+}
+
+export const newLineItem = (
+  kind: QuoteLineKind,
+  taxRate: number
+): QuoteLineItem => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  kind,
+  description: "",
+  quantity: 1,
+  unitPrice: 0,
+  taxRate,
+});
+
+export default function LineItemsEditor({
+  title,
+  items,
+  onChange,
+  defaultTaxRate,
+  footer,
+  parts = [],
+}: LineItemsEditorProps) {
+  const updateItem = (id: string, patch: Partial<QuoteLineItem>) =>
+    onChange(items.map((i) => (i.id === id ? { ...i, ...patch } : i)));
+
+  const inputClass =
+    "w-full px-2 py-1.5 text-sm bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-4 py-3 border-b border-slate-100 flex justify-between items-center">
+        <h4 className="text-sm font-bold text-slate-800 uppercase tracking-wide">
+          {title}
+        </h4>
+        <div className="flex gap-2">
+          {parts.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => {
+                const part = parts.find((p) => p.id === e.target.value);
+                if (part) onChange([...items, partLine(part, 1)]);
+              }}
+              className="px-2 py-1.5 text-xs font-bold text-indigo-600 bg-indigo-50 rounded-lg outline-none"
+            >
+              <option value="">+ From inventory</option>
+              {parts
+                .filter((p) => p.active)
+                .map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.sku} · {p.name}
+                  </option>
+                ))}
+            </select>
+          )}
+          {(["part", "labour"] as QuoteLineKind[]).map((kind) => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() =>
+                onChange([...items, newLineItem(kind, defaultTaxRate)])
+              }
+              className="px-3 py-1.5 text-xs font-bold text-indigo-600 bg-indigo-50 rounded-lg hover:bg-indigo-100 flex items-center gap-1"
+            >
+              <Plus size={12} /> {QUOTE_LINE_KIND_LABELS[kind]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-[10px] uppercase tracking-wider text-slate-500">
+            <tr>
+              <th className="px-3 py-2 text-left w-28">Type</th>
+              <th className="px-3 py-2 text-left">Description</th>
+              <th className="px-3 py-2 text-right w-20">Qty</th>
+              <th className="px-3 py-2 text-right w-28">Unit Price</th>
+              <th className="px-3 py-2 text-right w-20">Tax %</th>
+              <th className="px-3 py-2 text-right w-28">Amount</th>
+              <th className="w-10"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {items.map((item) => (
+              <tr key={item.id}>
+                <td className="px-3 py-2">
+                  <select
+                    value={item.kind}
+                    onChange={(e) =>
+                      updateItem(item.id, {
+                        kind: e.target.value as QuoteLineKind,
+                      })
+                    }
+                    className={inputClass}
+                  >
+                    <option value="part">Part</option>
+                    <option value="labour">Labour</option>
+                  </select>
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="text"
+                    value={item.description}
+                    onChange={(e) =>
+                      updateItem(item.id, { description: e.target.value })
+                    }
+                    placeholder={
+                      item.kind === "part"
+                        ? "e.g. Display assembly"
+                        : "e.g. Screen replacement"
+                    }
+                    className={inputClass}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={item.quantity}
+                    onChange={(e) =>
+                      updateItem(item.id, {
+                        quantity: Number(e.target.value),
+                      })
+                    }
+                    className={`${inputClass} text-right`}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={item.unitPrice}
+                    onChange={(e) =>
+                      updateItem(item.id, {
+                        unitPrice: Number(e.target.value),
+                      })
+                    }
+                    className={`${inputClass} text-right`}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={item.taxRate}
+                    onChange={(e) =>
+                      updateItem(item.id, { taxRate: Number(e.target.value) })
+                    }
+                    className={`${inputClass} text-right`}
+                  />
+                </td>
+                <td className="px-3 py-2 text-right font-medium text-slate-700">
+                  {formatQuoteAmount(lineAmount(item))}
+                </td>
+                <td className="px-2 py-2">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onChange(items.filter((i) => i.id !== item.id))
+                    }
+                    className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                    title="Remove line"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {footer && (
+        <div className="px-4 py-3 border-t border-slate-100 bg-slate-50/50 flex justify-end">
+          {footer}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -16,17 +16,23 @@ import {
   Wrench,
   Settings,
   Zap,
+  Search,
 } from "lucide-react";
-import {
-  createUserWithEmailAndPassword,
-  signInWithEmailAndPassword,
-} from "firebase/auth";
-import { doc, setDoc, getDoc, serverTimestamp } from "firebase/firestore";
-import { auth, db } from "@/firebaseConfig";
 import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/services/dataRepository";
+import { signInToFirebase } from "@/services/firebaseSession";
+import { isStaffRole } from "@/services/permissionEngine";
+import {
+  CODE_LENGTH,
+  completeMagicLinkSignIn,
+  getCustomerAuthProvider,
+  requestSignInCode,
+  verifySignInCode,
+} from "@/services/customerAuth";
 
 interface LoginProps {
   onLogin: (user: User) => void;
+  onTrackRepair: () => void; // public tracking page, no account needed
   teamMembers: User[];
   customers: Customer[];
   setCustomers: (customers: Customer[]) => void;
@@ -34,6 +40,7 @@ interface LoginProps {
 
 export default function Login({
   onLogin,
+  onTrackRepair,
   teamMembers,
   customers,
   setCustomers,
@@ -51,6 +58,8 @@ export default function Login({
   const [custName, setCustName] = useState("");
   const [custAddress, setCustAddress] = useState("");
   const [isSignUp, setIsSignUp] = useState(false);
+  const [custCode, setCustCode] = useState("");
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
 
   // Common State
   const [rememberMe, setRememberMe] = useState(false);
@@ -81,24 +90,28 @@ export default function Login({
       const savedCust = localStorage.getItem("nexus_cust_login");
       if (savedCust) {
         try {
-          const { email, phone } = JSON.parse(savedCust);
+          const { email } = JSON.parse(savedCust);
           setCustEmail(email || "");
-          setCustPhone(phone || "");
           setCustRemember(true);
         } catch (e) {
           console.error("Failed to parse saved customer credentials");
           setCustEmail("");
-          setCustPhone("");
           setCustRemember(false);
         }
       } else {
         setCustEmail("");
-        setCustPhone("");
         setCustRemember(false);
       }
     }
   }, [activeTab]);
 
+  // A magic link from the sign-in email lands back here
+  useEffect(() => {
+    completeMagicLinkSignIn()
+      .then((user) => user && onLogin(user))
+      .catch((err) => setError(err.message || "Sign-in link failed."));
+  }, []);
+
   // --- Load Saved Credentials on Mount or Tab Change ---
   {
     /*useEffect(() => {
@@ -199,17 +212,15 @@ export default function Login({
         throw new Error("Invalid email or password");
       }
 
-      const { data: staff, error: staffError } = await supabase
-        .from("users")
-        .select("*")
-        .eq("id", authData.user.id)
-        .single();
+      // Firestore reads need the matching Firebase sign-in first
+      await signInToFirebase();
+      const staff = await repository.users.get(authData.user.id);
 
-      if (staffError || !staff) {
+      if (!staff) {
         throw new Error("Staff profile not found");
       }
 
-      if (!["ADMIN", "MANAGER", "TECHNICIAN"].includes(staff.role)) {
+      if (!isStaffRole(staff.role)) {
         throw new Error("Not authorized as staff");
       }
 
@@ -234,120 +245,39 @@ export default function Login({
       setIsLoading(false);
     }
   };
-  const makePasswordFromPhone = (phone: string) => {
-    return phone.replace(/\D/g, "") + "@inf0fix";
-  };
-
+  // Step 1 emails a one-time code (and sign-in link); step 2 checks the code.
   const handleCustomerLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
     setIsLoading(true);
 
     try {
-      const email = custEmail.trim().toLowerCase();
-      const phone = custPhone.replace(/\D/g, "");
-      const password = makePasswordFromPhone(phone); // phone@inf0fix
-
-      if (!email || !phone)
-        throw new Error("Email and phone number are required.");
-
-      // -------------------------
-      // SIGN-UP FLOW
-      // -------------------------
-      if (isSignUp) {
-        if (!custName || !custAddress) {
-          throw new Error("Name and address are required for registration.");
-        }
-
-        // Check if email already exists
-        const { data: existingUser } = await supabase
-          .from("customers")
-          .select("id")
-          .eq("email", email)
-          .maybeSingle();
-
-        if (existingUser) {
-          throw new Error("Email already registered. Please login instead.");
-        }
-
-        // Create Supabase Auth user
-        const { data: signUpData, error: signUpError } =
-          await supabase.auth.signUp({
-            email,
-            password,
-          });
-
-        if (signUpError || !signUpData.user) {
-          throw new Error(signUpError?.message || "Signup failed.");
-        }
-
-        const userId = signUpData.user.id;
-
-        // Insert profile
-        const { error: insertError } = await supabase.from("customers").insert({
-          id: userId,
-          name: custName,
-          email,
-          mobile: phone,
-          address: custAddress,
-          role: "CUSTOMER",
-        });
-
-        if (insertError)
-          throw new Error(
-            insertError.message || "Failed to save customer profile."
-          );
-
-        // Auto login after signup
-        onLogin({
-          id: userId,
-          name: custName,
+      if (!codeSentTo) {
+        const email = custEmail.trim().toLowerCase();
+        await requestSignInCode(
           email,
-          role: "CUSTOMER",
-        });
+          isSignUp
+            ? { name: custName, mobile: custPhone, address: custAddress }
+            : undefined
+        );
+        setCodeSentTo(email);
+        setCustCode("");
+        return;
       }
 
-      // -------------------------
-      // LOGIN FLOW
-      // -------------------------
-      else {
-        const { data: authData, error: authError } =
-          await supabase.auth.signInWithPassword({
-            email,
-            password,
-          });
-
-        if (authError || !authData.user)
-          throw new Error("Invalid email or phone.");
-
-        // Fetch customer profile
-        const { data: customer, error: custError } = await supabase
-          .from("customers")
-          .select("*")
-          .eq("id", authData.user.id)
-          .single();
-
-        if (custError || !customer)
-          throw new Error("Customer profile not found.");
-
-        // Successful login
-        onLogin({
-          id: customer.id,
-          name: customer.name,
-          email: customer.email,
-          role: "CUSTOMER",
-        });
-      }
+      const user = await verifySignInCode(codeSentTo, custCode);
 
       // Remember login
       if (custRemember) {
         localStorage.setItem(
           "nexus_cust_login",
-          JSON.stringify({ email, phone })
+          JSON.stringify({ email: codeSentTo })
         );
       } else {
         localStorage.removeItem("nexus_cust_login");
       }
+
+      onLogin(user);
     } catch (err: any) {
       setError(err.message || "Something went wrong.");
     } finally {
@@ -355,6 +285,12 @@ export default function Login({
     }
   };
 
+  const resetCustomerCode = () => {
+    setCodeSentTo(null);
+    setCustCode("");
+    setError(null);
+  };
+
   return (
     <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4 lg:p-8 font-sans overflow-hidden relative">
       {/* CSS for custom animations */}
@@ -562,7 +498,7 @@ export default function Login({
                   onSubmit={handleCustomerLogin}
                   className="space-y-5 animate-in fade-in slide-in-from-right-8 duration-300 fill-mode-both"
                 >
-                  {isSignUp && (
+                  {isSignUp && !codeSentTo && (
                     <div className="space-y-5 animate-in fade-in slide-in-from-top-4 duration-300">
                       <div className="group">
                         <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2 ml-1">
@@ -611,37 +547,81 @@ export default function Login({
                         required
                         autoComplete="email"
                         value={custEmail}
+                        disabled={!!codeSentTo}
                         onChange={(e) => setCustEmail(e.target.value)}
-                        className="w-full pl-11 pr-4 py-3.5 bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all font-medium text-slate-700 placeholder:text-slate-400"
+                        className="w-full pl-11 pr-4 py-3.5 bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all font-medium text-slate-700 placeholder:text-slate-400 disabled:opacity-60"
                         placeholder="you@example.com"
                       />
                     </div>
                   </div>
 
-                  <div className="group">
-                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2 ml-1">
-                      {isSignUp
-                        ? "Mobile Number (Sets Password)"
-                        : "Password (Mobile Number)"}
-                    </label>
-                    <div className="relative transition-all duration-200 focus-within:transform focus-within:scale-[1.01]">
-                      <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
-                        <Smartphone
-                          size={18}
-                          className="text-slate-400 group-focus-within:text-indigo-500 transition-colors"
+                  {isSignUp && !codeSentTo && (
+                    <div className="group">
+                      <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2 ml-1">
+                        Mobile Number
+                      </label>
+                      <div className="relative transition-all duration-200 focus-within:transform focus-within:scale-[1.01]">
+                        <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                          <Smartphone
+                            size={18}
+                            className="text-slate-400 group-focus-within:text-indigo-500 transition-colors"
+                          />
+                        </div>
+                        <input
+                          type="tel"
+                          required
+                          autoComplete="tel"
+                          value={custPhone}
+                          onChange={(e) => setCustPhone(e.target.value)}
+                          className="w-full pl-11 pr-4 py-3.5 bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all font-medium text-slate-700 placeholder:text-slate-400"
+                          placeholder="555-0123"
                         />
                       </div>
-                      <input
-                        type="tel"
-                        required
-                        autoComplete="tel"
-                        value={custPhone}
-                        onChange={(e) => setCustPhone(e.target.value)}
-                        className="w-full pl-11 pr-4 py-3.5 bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all font-medium text-slate-700 placeholder:text-slate-400"
-                        placeholder="555-0123"
-                      />
                     </div>
-                  </div>
+                  )}
+
+                  {codeSentTo && (
+                    <div className="group animate-in fade-in slide-in-from-top-4 duration-300">
+                      <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-2 ml-1">
+                        Sign-in Code
+                      </label>
+                      <div className="relative transition-all duration-200 focus-within:transform focus-within:scale-[1.01]">
+                        <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                          <Lock
+                            size={18}
+                            className="text-slate-400 group-focus-within:text-indigo-500 transition-colors"
+                          />
+                        </div>
+                        <input
+                          type="text"
+                          required
+                          autoFocus
+                          inputMode="numeric"
+                          autoComplete="one-time-code"
+                          maxLength={CODE_LENGTH}
+                          value={custCode}
+                          onChange={(e) =>
+                            setCustCode(e.target.value.replace(/\D/g, ""))
+                          }
+                          className="w-full pl-11 pr-4 py-3.5 bg-slate-50 border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all font-mono tracking-[0.5em] text-slate-700 placeholder:text-slate-400 placeholder:tracking-normal"
+                          placeholder={`${CODE_LENGTH}-digit code`}
+                        />
+                      </div>
+                      <p className="text-xs text-slate-500 mt-2 ml-1">
+                        We emailed a code
+                        {getCustomerAuthProvider().sendsMagicLink &&
+                          " and a sign-in link"}{" "}
+                        to <span className="font-semibold">{codeSentTo}</span>.{" "}
+                        <button
+                          type="button"
+                          onClick={resetCustomerCode}
+                          className="font-semibold text-indigo-600 hover:underline"
+                        >
+                          Use a different email
+                        </button>
+                      </p>
+                    </div>
+                  )}
 
                   {!isSignUp && (
                     <div
@@ -677,13 +657,17 @@ export default function Login({
                     <div className="absolute inset-0 bg-shimmer opacity-20 pointer-events-none"></div>
                     {isLoading ? (
                       "Processing..."
+                    ) : codeSentTo ? (
+                      <>
+                        <LogIn size={20} /> Verify & Sign In
+                      </>
                     ) : isSignUp ? (
                       <>
                         <UserPlus size={20} /> Create Account
                       </>
                     ) : (
                       <>
-                        <LogIn size={20} /> Login
+                        <Mail size={20} /> Email Me a Code
                       </>
                     )}
                   </button>
@@ -694,7 +678,7 @@ export default function Login({
                       type="button"
                       onClick={() => {
                         setIsSignUp(!isSignUp);
-                        setError(null);
+                        resetCustomerCode();
                       }}
                       className="w-full relative group overflow-hidden bg-white border-2 border-slate-100 hover:border-indigo-500/30 hover:shadow-lg hover:shadow-indigo-500/10 p-4 rounded-2xl transition-all duration-300 text-left flex items-center justify-between"
                     >
@@ -721,6 +705,15 @@ export default function Login({
                       <div className="absolute inset-0 bg-indigo-50 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
                     </button>
                   </div>
+
+                  <button
+                    type="button"
+                    onClick={onTrackRepair}
+                    className="w-full flex items-center justify-center gap-2 text-sm font-semibold text-slate-500 hover:text-indigo-600 transition-colors"
+                  >
+                    <Search size={16} /> Just checking on a repair? Track it
+                    with your ticket ID
+                  </button>
                 </form>
               )}
 
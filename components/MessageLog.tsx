@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from "react";
+import {
+  MessageSquare,
+  Mail,
+  Smartphone,
+  Send,
+  Loader2,
+} from "lucide-react";
+import {
+  AppSettings,
+  CustomerMessage,
+  DeliveryStatus,
+  NotificationChannel,
+  Ticket,
+} from "../types";
+import { repository } from "@/services/dataRepository";
+import {
+  CHANNEL_LABELS,
+  getNotificationConfig,
+  getStatusTemplate,
+  sendTicketMessage,
+} from "@/services/notificationEngine";
+
+interface MessageLogProps {
+  ticket: Ticket;
+  settings: AppSettings;
+}
+
+const DELIVERY_STYLES: Record<DeliveryStatus, string> = {
+  Sent: "bg-green-50 text-green-700 border-green-200",
+  Failed: "bg-red-50 text-red-700 border-red-200",
+  Skipped: "bg-slate-50 text-slate-500 border-slate-200",
+};
+
+const CHANNEL_ICONS: Record<NotificationChannel, React.ElementType> = {
+  sms: Smartphone,
+  whatsapp: MessageSquare,
+  email: Mail,
+};
+
+// Delivery log of the customer's status messages, on the ticket's history tab.
+export default function MessageLog({ ticket, settings }: MessageLogProps) {
+  const [messages, setMessages] = useState<CustomerMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+
+  const template = getStatusTemplate(
+    getNotificationConfig(settings),
+    ticket.status
+  );
+
+  const load = async () => {
+    try {
+      const rows = await repository.customerMessages.findBy(
+        "ticketId",
+        ticket.id
+      );
+      setMessages(rows.sort((a, b) => b.sentAt - a.sentAt));
+    } catch (err) {
+      console.error("Failed to load the message log", err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setIsLoading(true);
+    load();
+  }, [ticket.id]);
+
+  const handleResend = async () => {
+    if (!template) return;
+    if (
+      !window.confirm(
+        `Send the "${ticket.status}" message to ${ticket.name} again?`
+      )
+    )
+      return;
+    setIsSending(true);
+    try {
+      await sendTicketMessage(ticket, template);
+      await load();
+    } catch (err: any) {
+      alert(err.message || "Failed to send the message");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="mt-10">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <MessageSquare size={20} className="text-indigo-600" /> Customer
+          Messages
+        </h3>
+        {template && (
+          <button
+            type="button"
+            onClick={handleResend}
+            disabled={isSending}
+            className="flex items-center gap-2 px-3 py-1.5 text-xs font-bold text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isSending ? (
+              <Loader2 size={14} className="animate-spin" />
+            ) : (
+              <Send size={14} />
+            )}
+            Send "{ticket.status}" Update
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 size={20} className="animate-spin text-slate-400" />
+        </div>
+      ) : messages.length === 0 ? (
+        <div className="text-center py-6 text-sm text-slate-400">
+          No messages sent for this ticket.
+        </div>
+      ) : (
+        <div className="divide-y divide-slate-100 border border-slate-200 rounded-xl">
+          {messages.map((message) => {
+            const Icon = CHANNEL_ICONS[message.channel];
+            return (
+              <div key={message.id} className="px-4 py-3 flex gap-4">
+                <Icon size={16} className="text-slate-400 mt-0.5 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <span className="text-sm font-bold text-slate-800">
+                      {CHANNEL_LABELS[message.channel]}
+                    </span>
+                    <span className="text-xs text-slate-500 font-mono">
+                      {message.to || "—"}
+                    </span>
+                    <span
+                      className={`text-[10px] px-1.5 py-0.5 rounded font-bold uppercase border ${
+                        DELIVERY_STYLES[message.delivery]
+                      }`}
+                    >
+                      {message.delivery}
+                    </span>
+                    <span className="text-[10px] text-slate-400">
+                      {message.status} ·{" "}
+                      {new Date(message.sentAt).toLocaleString()} · by{" "}
+                      {message.sentBy} via {message.provider}
+                    </span>
+                  </div>
+                  {message.subject && (
+                    <p className="text-xs font-semibold text-slate-700">
+                      {message.subject}
+                    </p>
+                  )}
+                  <p className="text-sm text-slate-600">{message.body}</p>
+                  {message.error && (
+                    <p className="text-xs text-red-600 mt-1">{message.error}</p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import React, { useState } from "react";
+import { Package, Loader2, AlertTriangle, Plus, Undo2 } from "lucide-react";
+import { AppSettings, Part, StockMovement, Ticket, User } from "../types";
+import {
+  consumePart,
+  getPartsForTicket,
+  getStock,
+  getStockLevels,
+  getStoreId,
+  getTicketConsumption,
+  returnPart,
+} from "@/services/inventoryEngine";
+import { formatQuoteAmount } from "@/services/quotationEngine";
+
+interface PartsPanelProps {
+  ticket: Ticket;
+  parts: Part[];
+  stockMovements: StockMovement[]; // all movements, for stock levels
+  settings: AppSettings;
+  currentUser: User;
+}
+
+export default function PartsPanel({
+  ticket,
+  parts,
+  stockMovements,
+  settings,
+  currentUser,
+}: PartsPanelProps) {
+  const storeId = getStoreId(ticket.store, settings.stores);
+  const levels = getStockLevels(stockMovements);
+  const stockAt = (partId: string) =>
+    storeId ? getStock(levels, partId, storeId) : 0;
+
+  const fitting = getPartsForTicket(parts, ticket, settings);
+  const used = getTicketConsumption(stockMovements, ticket.id);
+  const ticketMovements = stockMovements
+    .filter((m) => m.ticketId === ticket.id)
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  const [partId, setPartId] = useState("");
+  const [quantity, setQuantity] = useState(1);
+  const [showAll, setShowAll] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const choices = showAll ? parts.filter((p) => p.active) : fitting;
+  const partFor = (id: string) => parts.find((p) => p.id === id);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || "Failed to update parts");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleConsume = () => {
+    const part = partFor(partId);
+    if (!part) return setError("Choose a part.");
+    run(async () => {
+      await consumePart(ticket, part, quantity, settings, currentUser);
+      setPartId("");
+      setQuantity(1);
+    });
+  };
+
+  const handleReturn = (part: Part, max: number) => {
+    const answer = window.prompt(
+      `How many ${part.sku} go back to stock? (1-${max})`,
+      String(max)
+    );
+    if (answer === null) return;
+    run(() =>
+      returnPart(ticket, part, Number(answer), settings, currentUser)
+    );
+  };
+
+  const inputClass =
+    "w-full px-2 py-1.5 text-sm bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+        <Package size={20} className="text-indigo-600" /> Parts Used
+      </h3>
+
+      {/* Used on this ticket */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-[10px] uppercase tracking-wider text-slate-500">
+            <tr>
+              <th className="px-3 py-2 text-left">Part</th>
+              <th className="px-3 py-2 text-right w-20">Qty</th>
+              <th className="px-3 py-2 text-right w-28">Unit Price</th>
+              <th className="px-3 py-2 text-right w-28">Amount</th>
+              <th className="w-24"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {used.map(({ partId: id, quantity: qty }) => {
+              const part = partFor(id);
+              if (!part) return null;
+              return (
+                <tr key={id}>
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-slate-800">
+                      {part.name}
+                    </div>
+                    <div className="text-[10px] font-mono text-slate-400">
+                      {part.sku}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-right">{qty}</td>
+                  <td className="px-3 py-2 text-right text-slate-500">
+                    {formatQuoteAmount(part.unitPrice)}
+                  </td>
+                  <td className="px-3 py-2 text-right font-medium text-slate-700">
+                    {formatQuoteAmount(part.unitPrice * qty)}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => handleReturn(part, qty)}
+                      disabled={isSaving}
+                      className="px-2 py-1 text-xs font-bold text-slate-500 hover:text-indigo-600 flex items-center gap-1 ml-auto"
+                    >
+                      <Undo2 size={12} /> Return
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+            {used.length === 0 && (
+              <tr>
+                <td
+                  colSpan={5}
+                  className="px-3 py-6 text-center text-slate-400 text-sm"
+                >
+                  No parts used on this ticket yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Take from stock */}
+      <div className="bg-white rounded-xl border border-slate-200 p-4 space-y-3">
+        <div className="flex justify-between items-center">
+          <h4 className="text-sm font-bold text-slate-800 uppercase tracking-wide">
+            Take from {ticket.store} Stock
+          </h4>
+          <label className="text-xs text-slate-500 flex items-center gap-1.5">
+            <input
+              type="checkbox"
+              checked={showAll}
+              onChange={(e) => setShowAll(e.target.checked)}
+            />
+            Show parts for other devices
+          </label>
+        </div>
+        <div className="flex gap-3">
+          <select
+            value={partId}
+            onChange={(e) => setPartId(e.target.value)}
+            className={`${inputClass} flex-1`}
+          >
+            <option value="">Choose a part...</option>
+            {choices.map((p) => (
+              <option key={p.id} value={p.id} disabled={stockAt(p.id) <= 0}>
+                {p.sku} · {p.name} ({stockAt(p.id)} in stock)
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={quantity}
+            onChange={(e) => setQuantity(Number(e.target.value))}
+            className={`${inputClass} w-20 text-right`}
+          />
+          <button
+            type="button"
+            onClick={handleConsume}
+            disabled={isSaving || !partId}
+            className="px-4 py-1.5 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 flex items-center gap-1 disabled:opacity-50"
+          >
+            {isSaving ? (
+              <Loader2 size={14} className="animate-spin" />
+            ) : (
+              <Plus size={14} />
+            )}
+            Use
+          </button>
+        </div>
+        {!storeId && (
+          <p className="text-xs text-amber-700">
+            This ticket's store is not in Settings, so no stock can be taken.
+          </p>
+        )}
+        <p className="text-xs text-slate-400">
+          Parts used here are added to the quotation and invoice drafts.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-100 rounded-xl text-sm text-red-700 flex items-center gap-2">
+          <AlertTriangle size={16} /> {error}
+        </div>
+      )}
+
+      {/* Movements */}
+      {ticketMovements.length > 0 && (
+        <div className="text-xs text-slate-500 space-y-1">
+          {ticketMovements.map((m) => (
+            <div key={m.id}>
+              {new Date(m.createdAt).toLocaleString()} · {m.createdBy}{" "}
+              {m.kind === "Return" ? "returned" : "used"}{" "}
+              {Math.abs(m.quantity)} × {partFor(m.partId)?.sku ?? "unknown part"}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+import React, { useState, useEffect } from "react";
+import { Wallet, Loader2, AlertTriangle, Plus } from "lucide-react";
+import {
+  Invoice,
+  Payment,
+  PaymentKind,
+  PaymentMode,
+  Ticket,
+  User,
+} from "../types";
+import { PAYMENT_MODES, recordPayment } from "@/services/paymentEngine";
+import { getAllowedPaymentKinds, getTicketBalance } from "@/services/billing";
+import { formatQuoteAmount } from "@/services/quotationEngine";
+
+interface PaymentsPanelProps {
+  ticket: Ticket;
+  invoices: Invoice[]; // this ticket's invoices
+  payments: Payment[]; // this ticket's payments
+  currentUser: User;
+}
+
+export const PAYMENT_KIND_STYLES: Record<PaymentKind, string> = {
+  Advance: "bg-blue-50 text-blue-700 border-blue-200",
+  "Part Payment": "bg-indigo-50 text-indigo-700 border-indigo-200",
+  Final: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  Refund: "bg-red-50 text-red-700 border-red-200",
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function PaymentsPanel({
+  ticket,
+  invoices,
+  payments,
+  currentUser,
+}: PaymentsPanelProps) {
+  const balance = getTicketBalance(ticket, invoices, payments);
+  const allowedKinds = getAllowedPaymentKinds(balance);
+
+  const [kind, setKind] = useState<PaymentKind>(allowedKinds[0] ?? "Advance");
+  const [mode, setMode] = useState<PaymentMode>("Cash");
+  const [amount, setAmount] = useState(0);
+  const [reference, setReference] = useState("");
+  const [note, setNote] = useState("");
+  const [date, setDate] = useState(today());
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Keep the selected kind valid as the balance changes
+  useEffect(() => {
+    if (!allowedKinds.includes(kind)) setKind(allowedKinds[0] ?? "Advance");
+  }, [allowedKinds.join()]);
+
+  // A final payment is always the whole balance
+  useEffect(() => {
+    if (kind === "Final") setAmount(balance.outstanding);
+  }, [kind, balance.outstanding]);
+
+  const handleRecord = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await recordPayment(
+        ticket,
+        { kind, mode, amount, reference, note, date },
+        currentUser
+      );
+      setAmount(0);
+      setReference("");
+      setNote("");
+    } catch (err: any) {
+      setError(err.message || "Failed to record payment");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-2 py-1.5 text-sm bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 disabled:bg-slate-50 disabled:text-slate-400";
+  const labelClass =
+    "block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1";
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+        <Wallet size={20} className="text-indigo-600" /> Payments
+      </h3>
+
+      {/* Balance */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {[
+          {
+            label:
+              balance.basis === "invoice"
+                ? "Invoiced"
+                : balance.basis === "estimate"
+                ? "Estimated"
+                : "Not Billed",
+            value: balance.billed,
+            tone: "text-slate-800",
+          },
+          {
+            label: "Received",
+            value: balance.received,
+            tone: "text-emerald-600",
+          },
+          {
+            label: balance.basis === "invoice" ? "Balance Due" : "Expected",
+            value: balance.outstanding,
+            tone: balance.outstanding > 0 ? "text-red-600" : "text-slate-400",
+          },
+          {
+            label: "Credit",
+            value: balance.credit,
+            tone: balance.credit > 0 ? "text-amber-600" : "text-slate-400",
+          },
+        ].map((card) => (
+          <div
+            key={card.label}
+            className="p-3 bg-slate-50 rounded-xl border border-slate-200"
+          >
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              {card.label}
+            </p>
+            <p className={`text-lg font-black ${card.tone}`}>
+              {formatQuoteAmount(card.value)}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* Ledger */}
+      {payments.length > 0 && (
+        <div className="bg-slate-50 rounded-xl border border-slate-200 divide-y divide-slate-200">
+          {[...payments]
+            .sort((a, b) => b.recordedAt - a.recordedAt)
+            .map((payment) => (
+              <div
+                key={payment.id}
+                className="px-4 py-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs"
+              >
+                <span
+                  className={`px-2 py-0.5 rounded-full font-bold uppercase border text-[10px] ${
+                    PAYMENT_KIND_STYLES[payment.kind]
+                  }`}
+                >
+                  {payment.kind}
+                </span>
+                <span
+                  className={`font-bold ${
+                    payment.kind === "Refund"
+                      ? "text-red-600"
+                      : "text-slate-800"
+                  }`}
+                >
+                  {payment.kind === "Refund" ? "- " : ""}
+                  {formatQuoteAmount(payment.amount)}
+                </span>
+                <span className="text-slate-500">
+                  {payment.mode}
+                  {payment.reference && ` · ref ${payment.reference}`}
+                </span>
+                <span className="text-slate-500">
+                  {payment.date} · by {payment.recordedBy}
+                </span>
+                {payment.note && (
+                  <span className="w-full text-slate-500 italic">
+                    {payment.note}
+                  </span>
+                )}
+              </div>
+            ))}
+        </div>
+      )}
+
+      {/* New entry */}
+      {allowedKinds.length === 0 ? (
+        <div className="p-3 bg-emerald-50 border border-emerald-100 rounded-xl text-sm text-emerald-800">
+          Fully paid. Nothing is due on this ticket.
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl border border-slate-200 p-4 space-y-4">
+          <div className="grid gap-4 md:grid-cols-4">
+            <label className="block">
+              <span className={labelClass}>Type</span>
+              <select
+                value={kind}
+                onChange={(e) => setKind(e.target.value as PaymentKind)}
+                className={inputClass}
+              >
+                {allowedKinds.map((k) => (
+                  <option key={k} value={k}>
+                    {k}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className={labelClass}>Mode</span>
+              <select
+                value={mode}
+                onChange={(e) => setMode(e.target.value as PaymentMode)}
+                className={inputClass}
+              >
+                {PAYMENT_MODES.map((m) => (
+                  <option key={m} value={m}>
+                    {m}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className={labelClass}>Amount</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                disabled={kind === "Final"}
+                onChange={(e) => setAmount(Number(e.target.value))}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>Date</span>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <label className="block">
+              <span className={labelClass}>Reference</span>
+              <input
+                type="text"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                disabled={mode === "Cash"}
+                placeholder="UPI / card transaction ID"
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>
+                {kind === "Refund" ? "Reason" : "Note"}
+              </span>
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-100 rounded-xl text-sm text-red-700 flex items-center gap-2">
+              <AlertTriangle size={16} /> {error}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handleRecord}
+              disabled={isSaving}
+              className="px-5 py-2.5 bg-indigo-600 text-white font-semibold rounded-xl hover:bg-indigo-700 shadow-lg shadow-indigo-200 text-sm flex items-center gap-2 disabled:opacity-70"
+            >
+              {isSaving ? (
+                <Loader2 size={16} className="animate-spin" />
+              ) : (
+                <Plus size={16} />
+              )}
+              Record {kind}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,928 @@
+import React, { useState, useMemo } from "react";
+import {
+  Plus,
+  Truck,
+  Building2,
+  X,
+  Save,
+  Loader2,
+  AlertTriangle,
+  Trash2,
+  Pencil,
+  Send,
+  PackageCheck,
+  Ban,
+  Download,
+  History,
+} from "lucide-react";
+import {
+  AppSettings,
+  Part,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  Supplier,
+  User,
+} from "../types";
+import {
+  cancelOrder,
+  getLastPrice,
+  getPriceHistory,
+  importDealerSuppliers,
+  isOpenOrder,
+  placeOrder,
+  PurchaseOrderDraft,
+  receiveGoods,
+  saveSupplier,
+  savePurchaseOrder,
+  SupplierDraft,
+} from "@/services/purchasingEngine";
+import { formatQuoteAmount } from "@/services/quotationEngine";
+
+interface PurchasingProps {
+  purchaseOrders: PurchaseOrder[];
+  suppliers: Supplier[];
+  parts: Part[];
+  settings: AppSettings;
+  currentUser: User;
+}
+
+export const PO_STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  Draft: "bg-slate-100 text-slate-600 border-slate-200",
+  Ordered: "bg-blue-50 text-blue-700 border-blue-200",
+  "Partially Received": "bg-amber-50 text-amber-700 border-amber-200",
+  Received: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  Cancelled: "bg-red-50 text-red-600 border-red-200",
+};
+
+const inputClass =
+  "w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+const labelClass =
+  "block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5";
+
+const orderTotal = (order: Pick<PurchaseOrder, "lines">) =>
+  order.lines.reduce((sum, l) => sum + l.quantity * l.unitCost, 0);
+
+// Shared modal frame
+const Modal: React.FC<{
+  title: React.ReactNode;
+  onClose: () => void;
+  footer: React.ReactNode;
+  wide?: boolean;
+  children: React.ReactNode;
+}> = ({ title, onClose, footer, wide, children }) => (
+  <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+    <div
+      className={`bg-white rounded-2xl w-full ${
+        wide ? "max-w-3xl" : "max-w-lg"
+      } shadow-2xl animate-in fade-in zoom-in duration-200 overflow-hidden`}
+    >
+      <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+        <h3 className="text-lg font-bold text-slate-800">{title}</h3>
+        <button onClick={onClose}>
+          <X size={20} className="text-slate-400 hover:text-slate-600" />
+        </button>
+      </div>
+      <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+        {children}
+      </div>
+      <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3 bg-slate-50/50">
+        {footer}
+      </div>
+    </div>
+  </div>
+);
+
+const ErrorNote = ({ error }: { error: string | null }) =>
+  error ? (
+    <div className="p-3 bg-red-50 text-red-600 text-xs font-bold rounded-lg flex items-center gap-2">
+      <AlertTriangle size={14} />
+      {error}
+    </div>
+  ) : null;
+
+const SaveButton = ({
+  onClick,
+  busy,
+  label,
+}: {
+  onClick: () => void;
+  busy: boolean;
+  label: string;
+}) => (
+  <button
+    onClick={onClick}
+    disabled={busy}
+    className="px-4 py-2 text-sm font-semibold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 disabled:opacity-70"
+  >
+    {busy ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+    {label}
+  </button>
+);
+
+// --- 1. ORDER MODAL ---
+interface OrderModalProps {
+  order: PurchaseOrder | null; // null creates a new draft
+  orders: PurchaseOrder[];
+  suppliers: Supplier[];
+  parts: Part[];
+  settings: AppSettings;
+  currentUser: User;
+  onClose: () => void;
+}
+
+const OrderModal: React.FC<OrderModalProps> = ({
+  order,
+  orders,
+  suppliers,
+  parts,
+  settings,
+  currentUser,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<PurchaseOrderDraft>(
+    order
+      ? {
+          id: order.id,
+          supplierId: order.supplierId,
+          storeId: order.storeId,
+          lines: order.lines.map(({ partId, quantity, unitCost }) => ({
+            partId,
+            quantity,
+            unitCost,
+          })),
+          expectedDate: order.expectedDate,
+          notes: order.notes,
+        }
+      : {
+          supplierId: "",
+          storeId: settings.stores[0]?.id || "",
+          lines: [],
+        }
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const set = (patch: Partial<PurchaseOrderDraft>) =>
+    setDraft({ ...draft, ...patch });
+  const setLine = (
+    index: number,
+    patch: Partial<PurchaseOrderDraft["lines"][number]>
+  ) =>
+    set({
+      lines: draft.lines.map((l, i) => (i === index ? { ...l, ...patch } : l)),
+    });
+
+  // Price a newly chosen part from this supplier's last order
+  const pricePart = (partId: string) =>
+    getLastPrice(orders, partId, draft.supplierId || undefined) ??
+    parts.find((p) => p.id === partId)?.unitCost ??
+    0;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await savePurchaseOrder(draft, orders, parts, suppliers, currentUser);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || "Failed to save order");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      wide
+      title={order ? `Edit ${order.poNumber}` : "New Purchase Order"}
+      onClose={onClose}
+      footer={
+        <>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-semibold text-slate-600 hover:bg-slate-100 rounded-lg"
+          >
+            Cancel
+          </button>
+          <SaveButton onClick={handleSave} busy={isSaving} label="Save Draft" />
+        </>
+      }
+    >
+      <ErrorNote error={error} />
+      <div className="grid grid-cols-3 gap-3">
+        <label className="block">
+          <span className={labelClass}>Supplier</span>
+          <select
+            value={draft.supplierId}
+            onChange={(e) => set({ supplierId: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">Choose later...</option>
+            {suppliers
+              .filter((s) => s.active || s.id === draft.supplierId)
+              .map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className={labelClass}>Deliver To</span>
+          <select
+            value={draft.storeId}
+            onChange={(e) => set({ storeId: e.target.value })}
+            className={inputClass}
+          >
+            {settings.stores.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className={labelClass}>Expected</span>
+          <input
+            type="date"
+            value={draft.expectedDate || ""}
+            onChange={(e) => set({ expectedDate: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-[10px] uppercase tracking-wider text-slate-500">
+            <tr>
+              <th className="px-3 py-2 text-left">Part</th>
+              <th className="px-3 py-2 text-right w-20">Qty</th>
+              <th className="px-3 py-2 text-right w-28">Unit Cost</th>
+              <th className="px-3 py-2 text-right w-28">Amount</th>
+              <th className="w-10"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {draft.lines.map((line, index) => (
+              <tr key={index}>
+                <td className="px-3 py-2">
+                  <select
+                    value={line.partId}
+                    onChange={(e) =>
+                      setLine(index, {
+                        partId: e.target.value,
+                        unitCost: pricePart(e.target.value),
+                      })
+                    }
+                    className={inputClass}
+                  >
+                    <option value="">Choose a part...</option>
+                    {parts.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.sku} · {p.name}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={line.quantity}
+                    onChange={(e) =>
+                      setLine(index, { quantity: Number(e.target.value) })
+                    }
+                    className={`${inputClass} text-right`}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={line.unitCost}
+                    onChange={(e) =>
+                      setLine(index, { unitCost: Number(e.target.value) })
+                    }
+                    className={`${inputClass} text-right`}
+                  />
+                </td>
+                <td className="px-3 py-2 text-right font-medium text-slate-700">
+                  {formatQuoteAmount(line.quantity * line.unitCost)}
+                </td>
+                <td className="px-2 py-2">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      set({ lines: draft.lines.filter((_, i) => i !== index) })
+                    }
+                    className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="px-3 py-2 border-t border-slate-100 flex justify-between items-center">
+          <button
+            type="button"
+            onClick={() =>
+              set({
+                lines: [...draft.lines, { partId: "", quantity: 1, unitCost: 0 }],
+              })
+            }
+            className="px-3 py-1.5 text-xs font-bold text-indigo-600 bg-indigo-50 rounded-lg hover:bg-indigo-100 flex items-center gap-1"
+          >
+            <Plus size={12} /> Part
+          </button>
+          <span className="text-sm font-bold text-slate-800">
+            {formatQuoteAmount(orderTotal(draft))}
+          </span>
+        </div>
+      </div>
+
+      <label className="block">
+        <span className={labelClass}>Notes</span>
+        <textarea
+          value={draft.notes || ""}
+          onChange={(e) => set({ notes: e.target.value })}
+          rows={2}
+          className={`${inputClass} resize-none`}
+        />
+      </label>
+    </Modal>
+  );
+};
+
+// --- 2. RECEIVE MODAL ---
+interface ReceiveModalProps {
+  order: PurchaseOrder;
+  parts: Part[];
+  currentUser: User;
+  onClose: () => void;
+}
+
+const ReceiveModal: React.FC<ReceiveModalProps> = ({
+  order,
+  parts,
+  currentUser,
+  onClose,
+}) => {
+  const [quantities, setQuantities] = useState<Record<string, number>>(() =>
+    Object.fromEntries(
+      order.lines.map((l) => [l.partId, l.quantity - l.received])
+    )
+  );
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await receiveGoods(order, quantities, note, parts, currentUser);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || "Failed to record receipt");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      title={`Receive Goods · ${order.poNumber}`}
+      onClose={onClose}
+      footer={
+        <>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-semibold text-slate-600 hover:bg-slate-100 rounded-lg"
+          >
+            Cancel
+          </button>
+          <SaveButton
+            onClick={handleSave}
+            busy={isSaving}
+            label="Add to Stock"
+          />
+        </>
+      }
+    >
+      <ErrorNote error={error} />
+      <div className="space-y-2">
+        {order.lines.map((line) => (
+          <div
+            key={line.partId}
+            className="flex items-center gap-3 p-2.5 bg-slate-50 rounded-lg"
+          >
+            <div className="flex-1">
+              <div className="text-sm font-medium text-slate-700">
+                {line.name}
+              </div>
+              <div className="text-[10px] font-mono text-slate-400">
+                {line.sku} · {line.received}/{line.quantity} received
+              </div>
+            </div>
+            <input
+              type="number"
+              min="0"
+              max={line.quantity - line.received}
+              step="1"
+              value={quantities[line.partId] ?? 0}
+              disabled={line.received >= line.quantity}
+              onChange={(e) =>
+                setQuantities({
+                  ...quantities,
+                  [line.partId]: Number(e.target.value),
+                })
+              }
+              className="w-20 px-2 py-1 text-sm text-right border border-slate-200 rounded disabled:bg-slate-100"
+            />
+          </div>
+        ))}
+      </div>
+      <label className="block">
+        <span className={labelClass}>Note (e.g. supplier invoice no.)</span>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className={inputClass}
+        />
+      </label>
+      {order.receipts.length > 0 && (
+        <div className="text-xs text-slate-500 space-y-1">
+          {order.receipts.map((r) => (
+            <div key={r.id}>
+              {new Date(r.receivedAt).toLocaleDateString()} · {r.receivedBy}:{" "}
+              {r.lines.reduce((sum, l) => sum + l.quantity, 0)} units
+              {r.note && ` · ${r.note}`}
+            </div>
+          ))}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+// --- 3. SUPPLIER MODAL ---
+interface SupplierModalProps {
+  supplier: Supplier | null;
+  orders: PurchaseOrder[];
+  currentUser: User;
+  onClose: () => void;
+}
+
+const SupplierModal: React.FC<SupplierModalProps> = ({
+  supplier,
+  orders,
+  currentUser,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<SupplierDraft>(
+    supplier || { name: "", active: true }
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const history = supplier
+    ? getPriceHistory(orders, { supplierId: supplier.id })
+    : [];
+  const set = (patch: Partial<SupplierDraft>) =>
+    setDraft({ ...draft, ...patch });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveSupplier(draft, currentUser);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || "Failed to save supplier");
+      setIsSaving(false);
+    }
+  };
+
+  const field = (key: keyof SupplierDraft, label: string, span = false) => (
+    <label className={`block ${span ? "col-span-2" : ""}`}>
+      <span className={labelClass}>{label}</span>
+      <input
+        type="text"
+        value={(draft[key] as string) || ""}
+        onChange={(e) => set({ [key]: e.target.value })}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  return (
+    <Modal
+      title={supplier ? supplier.name : "Add Supplier"}
+      onClose={onClose}
+      footer={
+        <>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-semibold text-slate-600 hover:bg-slate-100 rounded-lg"
+          >
+            Cancel
+          </button>
+          <SaveButton onClick={handleSave} busy={isSaving} label="Save" />
+        </>
+      }
+    >
+      <ErrorNote error={error} />
+      <div className="grid grid-cols-2 gap-3">
+        {field("name", "Name", true)}
+        {field("contactName", "Contact Person")}
+        {field("phone", "Phone")}
+        {field("email", "Email")}
+        {field("gstin", "GSTIN")}
+        {field("address", "Address", true)}
+      </div>
+      <label className="flex items-center gap-2 text-sm text-slate-600">
+        <input
+          type="checkbox"
+          checked={draft.active}
+          onChange={(e) => set({ active: e.target.checked })}
+        />
+        Active
+      </label>
+
+      {history.length > 0 && (
+        <div>
+          <h4 className={`${labelClass} flex items-center gap-1`}>
+            <History size={12} /> Price History
+          </h4>
+          <div className="bg-slate-50 rounded-lg border border-slate-100 divide-y divide-slate-100 text-xs">
+            {history.map((h) => (
+              <div
+                key={`${h.poNumber}-${h.partId}`}
+                className="px-3 py-2 flex gap-3"
+              >
+                <span className="font-mono text-slate-400 w-16">
+                  {h.poNumber}
+                </span>
+                <span className="flex-1 text-slate-700">
+                  {h.sku} · {h.name}
+                </span>
+                <span className="text-slate-500">× {h.quantity}</span>
+                <span className="font-bold text-slate-800 w-20 text-right">
+                  {formatQuoteAmount(h.unitCost)}
+                </span>
+                <span className="text-slate-400 w-20 text-right">
+                  {new Date(h.orderedAt).toLocaleDateString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+// --- MAIN COMPONENT ---
+export default function Purchasing({
+  purchaseOrders,
+  suppliers,
+  parts,
+  settings,
+  currentUser,
+}: PurchasingProps) {
+  // --- STATE ---
+  const [tab, setTab] = useState<"orders" | "suppliers">("orders");
+  const [statusFilter, setStatusFilter] = useState<"Open" | "All">("Open");
+  const [editingOrder, setEditingOrder] = useState<
+    PurchaseOrder | null | undefined
+  >(undefined); // undefined = closed, null = new order
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(
+    null
+  );
+  const [editingSupplier, setEditingSupplier] = useState<
+    Supplier | null | undefined
+  >(undefined);
+
+  const storeName = (id: string) =>
+    settings.stores.find((s) => s.id === id)?.name || "Unknown store";
+
+  const orders = useMemo(
+    () =>
+      purchaseOrders
+        .filter((o) => statusFilter === "All" || isOpenOrder(o))
+        .sort((a, b) => b.createdAt - a.createdAt),
+    [purchaseOrders, statusFilter]
+  );
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err: any) {
+      alert(err.message || "Action failed");
+    }
+  };
+
+  const handleImportDealers = () =>
+    run(async () => {
+      const added = await importDealerSuppliers(
+        settings.laptopDealers,
+        suppliers,
+        currentUser
+      );
+      alert(
+        added > 0
+          ? `Added ${added} supplier${added === 1 ? "" : "s"} from the laptop dealers list.`
+          : "Every laptop dealer is already in the supplier directory."
+      );
+    });
+
+  const tabClass = (active: boolean) =>
+    `px-4 py-2 text-sm font-bold rounded-lg flex items-center gap-2 transition-all ${
+      active
+        ? "bg-white shadow-sm text-indigo-600"
+        : "text-slate-500 hover:text-slate-700"
+    }`;
+
+  return (
+    <div className="space-y-6 pb-20 animate-in fade-in duration-500">
+      {/* 1. TABS & ACTIONS */}
+      <div className="flex flex-col md:flex-row justify-between gap-3">
+        <div className="flex bg-slate-100 p-1 rounded-xl w-fit">
+          <button
+            onClick={() => setTab("orders")}
+            className={tabClass(tab === "orders")}
+          >
+            <Truck size={16} /> Purchase Orders
+          </button>
+          <button
+            onClick={() => setTab("suppliers")}
+            className={tabClass(tab === "suppliers")}
+          >
+            <Building2 size={16} /> Suppliers
+          </button>
+        </div>
+        <div className="flex gap-2">
+          {tab === "orders" ? (
+            <>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as any)}
+                className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm outline-none"
+              >
+                <option value="Open">Open Orders</option>
+                <option value="All">All Orders</option>
+              </select>
+              <button
+                onClick={() => setEditingOrder(null)}
+                className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-xl hover:bg-indigo-700 flex items-center gap-2"
+              >
+                <Plus size={16} /> New Order
+              </button>
+            </>
+          ) : (
+            <>
+              {settings.laptopDealers.length > 0 && (
+                <button
+                  onClick={handleImportDealers}
+                  className="px-4 py-2 bg-white text-slate-700 text-sm font-semibold rounded-xl border border-slate-200 hover:bg-slate-50 flex items-center gap-2"
+                >
+                  <Download size={16} /> Import Laptop Dealers
+                </button>
+              )}
+              <button
+                onClick={() => setEditingSupplier(null)}
+                className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-xl hover:bg-indigo-700 flex items-center gap-2"
+              >
+                <Plus size={16} /> Add Supplier
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* 2. ORDERS */}
+      {tab === "orders" && (
+        <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-50/80 border-b border-slate-200">
+                <tr>
+                  <th className="px-6 py-4 font-bold text-slate-600">Order</th>
+                  <th className="px-6 py-4 font-bold text-slate-600">
+                    Supplier
+                  </th>
+                  <th className="px-6 py-4 font-bold text-slate-600">Lines</th>
+                  <th className="px-6 py-4 font-bold text-slate-600">
+                    Expected
+                  </th>
+                  <th className="px-6 py-4 font-bold text-slate-600 text-right">
+                    Total
+                  </th>
+                  <th className="px-6 py-4 font-bold text-slate-600 text-right">
+                    Action
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {orders.map((order) => (
+                  <tr key={order.id}>
+                    <td className="px-6 py-4">
+                      <div className="font-mono font-bold text-indigo-600">
+                        {order.poNumber}
+                      </div>
+                      <span
+                        className={`text-[10px] px-2 py-0.5 rounded-full font-bold uppercase border ${
+                          PO_STATUS_STYLES[order.status]
+                        }`}
+                      >
+                        {order.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="font-medium text-slate-800">
+                        {order.supplierName || (
+                          <span className="text-amber-600 italic">
+                            No supplier yet
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-slate-400">
+                        to {storeName(order.storeId)}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-xs text-slate-600">
+                      {order.lines.map((l) => (
+                        <div key={l.partId}>
+                          {l.sku} × {l.quantity}
+                          {l.received > 0 && (
+                            <span className="text-emerald-600">
+                              {" "}
+                              ({l.received} in)
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4 text-slate-500">
+                      {order.expectedDate || "—"}
+                    </td>
+                    <td className="px-6 py-4 text-right font-bold text-slate-800">
+                      {formatQuoteAmount(orderTotal(order))}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex justify-end gap-2">
+                        {order.status === "Draft" && (
+                          <>
+                            <button
+                              onClick={() => setEditingOrder(order)}
+                              className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg"
+                              title="Edit draft"
+                            >
+                              <Pencil size={16} />
+                            </button>
+                            <button
+                              onClick={() =>
+                                run(() => placeOrder(order, currentUser))
+                              }
+                              className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg"
+                              title="Mark as ordered"
+                            >
+                              <Send size={16} />
+                            </button>
+                          </>
+                        )}
+                        {(order.status === "Ordered" ||
+                          order.status === "Partially Received") && (
+                          <button
+                            onClick={() => setReceivingOrder(order)}
+                            className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg"
+                            title="Receive goods"
+                          >
+                            <PackageCheck size={16} />
+                          </button>
+                        )}
+                        {(order.status === "Draft" ||
+                          order.status === "Ordered") && (
+                          <button
+                            onClick={() => {
+                              if (
+                                window.confirm(`Cancel ${order.poNumber}?`)
+                              ) {
+                                run(() => cancelOrder(order, currentUser));
+                              }
+                            }}
+                            className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                            title="Cancel order"
+                          >
+                            <Ban size={16} />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {orders.length === 0 && (
+            <div className="text-center py-16 text-slate-400 text-sm">
+              No purchase orders to show.
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* 3. SUPPLIERS */}
+      {tab === "suppliers" && (
+        <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50/80 border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-4 font-bold text-slate-600">Supplier</th>
+                <th className="px-6 py-4 font-bold text-slate-600">Contact</th>
+                <th className="px-6 py-4 font-bold text-slate-600">GSTIN</th>
+                <th className="px-6 py-4 font-bold text-slate-600 text-right">
+                  Open Orders
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {[...suppliers]
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map((supplier) => (
+                  <tr
+                    key={supplier.id}
+                    onClick={() => setEditingSupplier(supplier)}
+                    className={`cursor-pointer hover:bg-slate-50 ${
+                      supplier.active ? "" : "opacity-50"
+                    }`}
+                  >
+                    <td className="px-6 py-4 font-medium text-slate-800">
+                      {supplier.name}
+                      {supplier.dealerId && (
+                        <span className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-slate-100 text-slate-500 font-bold uppercase">
+                          Laptop dealer
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-slate-500">
+                      {[supplier.contactName, supplier.phone]
+                        .filter(Boolean)
+                        .join(" · ") || "—"}
+                    </td>
+                    <td className="px-6 py-4 font-mono text-xs text-slate-500">
+                      {supplier.gstin || "—"}
+                    </td>
+                    <td className="px-6 py-4 text-right font-bold text-slate-700">
+                      {
+                        purchaseOrders.filter(
+                          (o) => o.supplierId === supplier.id && isOpenOrder(o)
+                        ).length
+                      }
+                    </td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+          {suppliers.length === 0 && (
+            <div className="text-center py-16 text-slate-400 text-sm">
+              No suppliers yet.
+            </div>
+          )}
+        </div>
+      )}
+
+      {editingOrder !== undefined && (
+        <OrderModal
+          order={editingOrder}
+          orders={purchaseOrders}
+          suppliers={suppliers}
+          parts={parts}
+          settings={settings}
+          currentUser={currentUser}
+          onClose={() => setEditingOrder(undefined)}
+        />
+      )}
+      {receivingOrder && (
+        <ReceiveModal
+          order={receivingOrder}
+          parts={parts}
+          currentUser={currentUser}
+          onClose={() => setReceivingOrder(null)}
+        />
+      )}
+      {editingSupplier !== undefined && (
+        <SupplierModal
+          supplier={editingSupplier}
+          orders={purchaseOrders}
+          currentUser={currentUser}
+          onClose={() => setEditingSupplier(undefined)}
+        />
+      )}
+    </div>
+  );
+}
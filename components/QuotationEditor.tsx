@@ -0,0 +1,331 @@
+import React, { useState, useEffect } from "react";
+import {
+  Send,
+  Save,
+  Loader2,
+  Receipt,
+  AlertTriangle,
+  CheckCircle,
+  XCircle,
+  Clock,
+  Package,
+} from "lucide-react";
+import {
+  AppSettings,
+  Part,
+  Quotation,
+  QuoteLineItem,
+  QuoteStatus,
+  StockMovement,
+  Ticket,
+  User,
+} from "../types";
+import {
+  defaultValidUntil,
+  formatQuoteAmount,
+  getCurrentRevision,
+  getQuotationConfig,
+  getRevisionStatus,
+  quoteNumber,
+  saveQuoteDraft,
+  sendQuotation,
+} from "@/services/quotationEngine";
+import { calculateQuoteTotals } from "@/services/billing";
+import { getConsumedPartLines } from "@/services/inventoryEngine";
+import LineItemsEditor, { newLineItem } from "./LineItemsEditor";
+
+interface QuotationEditorProps {
+  ticket: Ticket;
+  quotation: Quotation | null;
+  parts: Part[];
+  stockMovements: StockMovement[]; // this ticket's movements
+  settings: AppSettings;
+  currentUser: User;
+  onSent?: () => void; // the ticket has moved; the caller's form is stale
+}
+
+export const QUOTE_STATUS_STYLES: Record<QuoteStatus, string> = {
+  Draft: "bg-slate-100 text-slate-600 border-slate-200",
+  Sent: "bg-blue-50 text-blue-700 border-blue-200",
+  Approved: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  Declined: "bg-red-50 text-red-700 border-red-200",
+  Superseded: "bg-slate-50 text-slate-400 border-slate-200",
+  Expired: "bg-amber-50 text-amber-700 border-amber-200",
+};
+
+export default function QuotationEditor({
+  ticket,
+  quotation,
+  parts,
+  stockMovements,
+  settings,
+  currentUser,
+  onSent,
+}: QuotationEditorProps) {
+  const config = getQuotationConfig(settings);
+  const current = getCurrentRevision(quotation);
+  const usedParts = getConsumedPartLines(parts, stockMovements, ticket.id);
+
+  const [items, setItems] = useState<QuoteLineItem[]>([]);
+  const [notes, setNotes] = useState("");
+  const [validUntil, setValidUntil] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the current revision (a draft, or a copy of what was sent)
+  useEffect(() => {
+    if (current) {
+      setItems(current.items.map((i) => ({ ...i })));
+      setNotes(current.notes || "");
+      setValidUntil(
+        current.status === "Draft"
+          ? current.validUntil
+          : defaultValidUntil(config)
+      );
+    } else {
+      setItems(
+        usedParts.length > 0
+          ? usedParts
+          : [newLineItem("part", config.defaultTaxRate)]
+      );
+      setNotes("");
+      setValidUntil(defaultValidUntil(config));
+    }
+    setError(null);
+  }, [quotation?.id, current?.revision, current?.status]);
+
+  const totals = calculateQuoteTotals(items);
+
+  // Parts used on the ticket whose quantity the draft does not match yet
+  const unquotedParts = usedParts.filter(
+    (used) =>
+      !items.some(
+        (i) => i.partId === used.partId && i.quantity === used.quantity
+      )
+  );
+  const addUsedParts = () =>
+    setItems([
+      ...items.filter(
+        (i) => !unquotedParts.some((used) => used.partId === i.partId)
+      ),
+      ...unquotedParts,
+    ]);
+  const isNewRevision = !!current && current.status !== "Draft";
+
+  const handleSave = async (send: boolean) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await saveQuoteDraft(
+        ticket,
+        quotation,
+        { items, notes, validUntil },
+        currentUser
+      );
+      if (send) {
+        await sendQuotation(saved, ticket, settings, currentUser);
+        onSent?.();
+      }
+    } catch (err: any) {
+      setError(err.message || "Failed to save quotation");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-2 py-1.5 text-sm bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Receipt size={20} className="text-indigo-600" /> Quotation{" "}
+          <span className="font-mono text-sm text-slate-500">
+            {quoteNumber(ticket)}
+          </span>
+        </h3>
+        {current && (
+          <span
+            className={`text-[10px] px-2 py-0.5 rounded-full font-bold uppercase border ${
+              QUOTE_STATUS_STYLES[getRevisionStatus(current)]
+            }`}
+          >
+            R{current.revision} · {getRevisionStatus(current)}
+          </span>
+        )}
+      </div>
+
+      {/* Revision history */}
+      {quotation && quotation.revisions.some((r) => r.status !== "Draft") && (
+        <div className="bg-slate-50 rounded-xl border border-slate-200 divide-y divide-slate-200">
+          {[...quotation.revisions].reverse().map((r) => {
+            const status = getRevisionStatus(r);
+            return (
+              <div
+                key={r.revision}
+                className="px-4 py-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs"
+              >
+                <span className="font-mono font-bold text-slate-700">
+                  R{r.revision}
+                </span>
+                <span
+                  className={`px-2 py-0.5 rounded-full font-bold uppercase border text-[10px] ${QUOTE_STATUS_STYLES[status]}`}
+                >
+                  {status}
+                </span>
+                <span className="font-bold text-slate-800">
+                  {formatQuoteAmount(calculateQuoteTotals(r.items).total)}
+                </span>
+                <span className="text-slate-500">
+                  {r.sentAt
+                    ? `Sent ${new Date(r.sentAt).toLocaleString()}`
+                    : `Drafted by ${r.createdBy}`}
+                  {" · "}valid until {r.validUntil}
+                </span>
+                {r.decidedAt && (
+                  <span className="text-slate-500">
+                    {r.status} by {r.decidedBy} on{" "}
+                    {new Date(r.decidedAt).toLocaleString()}
+                  </span>
+                )}
+                {r.declineReason && (
+                  <span className="w-full text-red-700 italic">
+                    "{r.declineReason}"
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {current?.status === "Sent" && (
+        <div className="p-3 bg-blue-50 border border-blue-100 rounded-xl text-sm text-blue-800 flex items-center gap-2">
+          <Clock size={16} /> Waiting for the customer to respond to R
+          {current.revision}. Saving changes below starts revision R
+          {current.revision + 1}.
+        </div>
+      )}
+      {current?.status === "Approved" && (
+        <div className="p-3 bg-emerald-50 border border-emerald-100 rounded-xl text-sm text-emerald-800 flex items-center gap-2">
+          <CheckCircle size={16} /> Approved by the customer. A revised quote
+          needs a new approval.
+        </div>
+      )}
+      {current?.status === "Declined" && (
+        <div className="p-3 bg-red-50 border border-red-100 rounded-xl text-sm text-red-800 flex items-center gap-2">
+          <XCircle size={16} /> Declined by the customer. You can send a
+          revised quote.
+        </div>
+      )}
+
+      {unquotedParts.length > 0 && (
+        <div className="p-3 bg-indigo-50 border border-indigo-100 rounded-xl text-sm text-indigo-800 flex items-center gap-2">
+          <Package size={16} className="shrink-0" />
+          <span className="flex-1">
+            {unquotedParts.length} part
+            {unquotedParts.length === 1 ? " used on this ticket is" : "s used on this ticket are"}{" "}
+            not on this quote yet.
+          </span>
+          <button
+            type="button"
+            onClick={addUsedParts}
+            className="px-3 py-1 text-xs font-bold bg-white border border-indigo-200 rounded-lg hover:bg-indigo-100"
+          >
+            Add to Quote
+          </button>
+        </div>
+      )}
+
+      {/* Line items */}
+      <LineItemsEditor
+        title={
+          isNewRevision
+            ? `Revision R${(current?.revision ?? 0) + 1}`
+            : "Line Items"
+        }
+        items={items}
+        onChange={setItems}
+        defaultTaxRate={config.defaultTaxRate}
+        parts={parts}
+        footer={
+          <dl className="text-sm w-64 space-y-1">
+            <div className="flex justify-between text-slate-500">
+              <dt>Parts</dt>
+              <dd>{formatQuoteAmount(totals.parts)}</dd>
+            </div>
+            <div className="flex justify-between text-slate-500">
+              <dt>Labour</dt>
+              <dd>{formatQuoteAmount(totals.labour)}</dd>
+            </div>
+            <div className="flex justify-between text-slate-500">
+              <dt>Tax</dt>
+              <dd>{formatQuoteAmount(totals.tax)}</dd>
+            </div>
+            <div className="flex justify-between font-bold text-slate-800 pt-1 border-t border-slate-200">
+              <dt>Total</dt>
+              <dd>{formatQuoteAmount(totals.total)}</dd>
+            </div>
+          </dl>
+        }
+      />
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <label className="block">
+          <span className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">
+            Valid Until
+          </span>
+          <input
+            type="date"
+            value={validUntil}
+            onChange={(e) => setValidUntil(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="block md:col-span-2">
+          <span className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">
+            Notes for the Customer
+          </span>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+            className={`${inputClass} resize-none`}
+            placeholder="e.g. Original parts, 3 months warranty on the repair."
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-100 rounded-xl text-sm text-red-700 flex items-center gap-2">
+          <AlertTriangle size={16} /> {error}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={() => handleSave(false)}
+          disabled={isSaving}
+          className="px-5 py-2.5 border border-slate-200 text-slate-700 font-semibold rounded-xl hover:bg-slate-50 text-sm flex items-center gap-2 disabled:opacity-50"
+        >
+          <Save size={16} /> Save Draft
+        </button>
+        <button
+          type="button"
+          onClick={() => handleSave(true)}
+          disabled={isSaving}
+          className="px-5 py-2.5 bg-indigo-600 text-white font-semibold rounded-xl hover:bg-indigo-700 shadow-lg shadow-indigo-200 text-sm flex items-center gap-2 disabled:opacity-70"
+        >
+          {isSaving ? (
+            <Loader2 size={16} className="animate-spin" />
+          ) : (
+            <Send size={16} />
+          )}
+          Send to Customer
+        </button>
+      </div>
+    </div>
+  );
+}
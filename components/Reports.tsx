@@ -38,12 +38,17 @@ import {
   ArrowDownRight,
   Target
 } from 'lucide-react';
-import { Ticket, AppSettings } from '../types';
+import { Ticket, AppSettings, Invoice, Payment } from '../types';
+import { formatSLADuration, getTicketSLA, SLAClock } from '../services/slaEngine';
+import { getRevenueInvoices } from '../services/invoiceEngine';
+import { signedAmount, sumPayments } from '../services/billing';
 import html2canvas from 'html2canvas';
 import { jsPDF } from 'jspdf';
 
 interface ReportsProps {
   tickets: Ticket[];
+  invoices: Invoice[];
+  payments: Payment[];
   settings: AppSettings;
 }
 
@@ -59,7 +64,7 @@ const COLORS = {
 
 const PIE_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4'];
 
-export default function Reports({ tickets, settings }: ReportsProps) {
+export default function Reports({ tickets, invoices, payments, settings }: ReportsProps) {
   // --- STATE ---
   const [timeFilter, setTimeFilter] = useState<'7d' | '30d' | '90d' | 'all'>('30d');
   const [storeFilter, setStoreFilter] = useState<string>('All');
@@ -94,11 +99,58 @@ export default function Reports({ tickets, settings }: ReportsProps) {
     });
   }, [tickets, timeFilter, storeFilter]);
 
+  // Invoices and payments are filtered by their own date, not the ticket's
+  const isInPeriod = useMemo(() => {
+    const now = new Date();
+    let startDate = new Date(0);
+
+    if (timeFilter === '7d') startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+    if (timeFilter === '30d') startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+    if (timeFilter === '90d') startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
+
+    return (item: { date: string; store: string }) => {
+      if (new Date(item.date) < startDate) return false;
+      if (storeFilter !== 'All' && item.store !== storeFilter) return false;
+      return true;
+    };
+  }, [timeFilter, storeFilter]);
+
+  // Revenue comes from issued invoices (by invoice date), net of GST
+  const filteredInvoices = useMemo(
+    () => getRevenueInvoices(invoices).filter(isInPeriod),
+    [invoices, isInPeriod]
+  );
+
+  // Collections: money received in the period. Receivables: what is still
+  // unpaid on the invoices issued in the period.
+  const collections = useMemo(() => {
+    const received = new Map<string, number>();
+    payments.forEach(p => received.set(p.ticketId, (received.get(p.ticketId) || 0) + signedAmount(p)));
+    const periodPayments = payments.filter(isInPeriod);
+
+    const storeNames = storeFilter === 'All' ? settings.stores.map(s => s.name) : [storeFilter];
+    const byStore = storeNames.map(store => ({
+        name: store,
+        collected: sumPayments(periodPayments.filter(p => p.store === store)),
+        receivable: filteredInvoices
+            .filter(i => i.store === store)
+            .reduce((sum, i) => sum + Math.max(i.total - (received.get(i.ticketId) || 0), 0), 0),
+    })).filter(row => row.collected !== 0 || row.receivable > 0);
+
+    return {
+        byStore,
+        collected: byStore.reduce((sum, row) => sum + row.collected, 0),
+        receivable: byStore.reduce((sum, row) => sum + row.receivable, 0),
+    };
+  }, [payments, filteredInvoices, isInPeriod, storeFilter, settings]);
+
   const analytics = useMemo(() => {
     // 1. KPI Stats
     const totalTickets = filteredData.length;
     const resolvedTickets = filteredData.filter(t => t.status === 'Resolved');
-    const totalRevenue = filteredData.reduce((sum, t) => sum + (t.estimatedAmount || 0), 0);
+    const netAmount = (i: Invoice) => i.total - i.tax;
+    const totalRevenue = filteredInvoices.reduce((sum, i) => sum + netAmount(i), 0);
+    const invoiceCount = filteredInvoices.length;
     const openTickets = filteredData.filter(t => t.status !== 'Resolved' && t.status !== 'Rejected').length;
     
     // 2. Average Turnaround Time (TAT)
@@ -119,28 +171,42 @@ export default function Reports({ tickets, settings }: ReportsProps) {
 
     // 3. Technician Performance
     const techMap: Record<string, { name: string, count: number, revenue: number, resolved: number }> = {};
+    const techNameFor = (assignedToId: string) =>
+        settings.teamMembers.find(m => m.id === assignedToId)?.name || 'Unknown';
+    const emptyTech = (name: string) => ({ name, count: 0, revenue: 0, resolved: 0 });
     filteredData.forEach(t => {
         if (t.assignedToId) {
-            const tech = settings.teamMembers.find(m => m.id === t.assignedToId);
-            const techName = tech ? tech.name : 'Unknown';
+            const techName = techNameFor(t.assignedToId);
             
-            if (!techMap[techName]) techMap[techName] = { name: techName, count: 0, revenue: 0, resolved: 0 };
+            if (!techMap[techName]) techMap[techName] = emptyTech(techName);
             
             techMap[techName].count++;
-            techMap[techName].revenue += (t.estimatedAmount || 0);
             if (t.status === 'Resolved') techMap[techName].resolved++;
         }
     });
+    const ticketsById = new Map(tickets.map(t => [t.id, t]));
+    filteredInvoices.forEach(i => {
+        const assignedToId = ticketsById.get(i.ticketId)?.assignedToId;
+        if (!assignedToId) return;
+        const techName = techNameFor(assignedToId);
+        if (!techMap[techName]) techMap[techName] = emptyTech(techName);
+        techMap[techName].revenue += netAmount(i);
+    });
     const techPerformance = Object.values(techMap).sort((a,b) => b.count - a.count).slice(0, 5);
 
     // 4. Financial Trend (Group by Date)
     const trendMap: Record<string, { date: string, tickets: number, revenue: number }> = {};
-    filteredData.forEach(t => {
-        // Simplify date for grouping
-        const dateKey = new Date(t.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    // Simplify date for grouping
+    const trendEntry = (date: string) => {
+        const dateKey = new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
         if (!trendMap[dateKey]) trendMap[dateKey] = { date: dateKey, tickets: 0, revenue: 0 };
-        trendMap[dateKey].tickets++;
-        trendMap[dateKey].revenue += (t.estimatedAmount || 0);
+        return trendMap[dateKey];
+    };
+    filteredData.forEach(t => {
+        trendEntry(t.date).tickets++;
+    });
+    filteredInvoices.forEach(i => {
+        trendEntry(i.date).revenue += netAmount(i);
     });
     // Sort by actual date
     const trendData = Object.values(trendMap).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
@@ -161,19 +227,59 @@ export default function Reports({ tickets, settings }: ReportsProps) {
       .map(key => ({ name: key, count: deviceCounts[key] }))
       .sort((a,b) => b.count - a.count);
 
+    // 7. SLA Compliance (closed clocks only; breached open tickets counted separately)
+    const now = Date.now();
+    const slaMap: Record<string, { priority: string, responseMet: number, responseClosed: number, resolutionMet: number, resolutionClosed: number, breachedOpen: number, lateMs: number }> = {};
+    const isClosed = (clock: SLAClock) => clock.state === 'met' || clock.state === 'missed';
+    filteredData.forEach(t => {
+        const sla = getTicketSLA(t, settings, now);
+        if (!sla) return;
+        const key = sla.target.priority;
+        if (!slaMap[key]) slaMap[key] = { priority: key, responseMet: 0, responseClosed: 0, resolutionMet: 0, resolutionClosed: 0, breachedOpen: 0, lateMs: 0 };
+        const row = slaMap[key];
+
+        if (isClosed(sla.response)) {
+            row.responseClosed++;
+            if (sla.response.state === 'met') row.responseMet++;
+        }
+        if (isClosed(sla.resolution)) {
+            row.resolutionClosed++;
+            if (sla.resolution.state === 'met') row.resolutionMet++;
+        } else if (sla.breached) {
+            row.breachedOpen++;
+        }
+        if (sla.resolution.breached) row.lateMs += -sla.resolution.remainingMs;
+    });
+    const slaRows = Object.values(slaMap);
+    const percent = (met: number, total: number) => total > 0 ? Math.round((met / total) * 100) : null;
+    const sumOf = (key: keyof typeof slaRows[number]) => slaRows.reduce((sum, r) => sum + (r[key] as number), 0);
+    const slaCompliance = {
+        rows: slaRows.map(r => ({
+            ...r,
+            responseRate: percent(r.responseMet, r.responseClosed),
+            resolutionRate: percent(r.resolutionMet, r.resolutionClosed),
+        })),
+        responseRate: percent(sumOf('responseMet'), sumOf('responseClosed')),
+        resolutionRate: percent(sumOf('resolutionMet'), sumOf('resolutionClosed')),
+        breachedOpen: sumOf('breachedOpen'),
+        lateMs: sumOf('lateMs'),
+    };
+
     return {
         totalTickets,
         resolvedTickets: resolvedTickets.length,
         totalRevenue,
+        invoiceCount,
         openTickets,
         avgTat,
         techPerformance,
         trendData,
         statusData,
         deviceData,
+        slaCompliance,
         resolutionRate: totalTickets > 0 ? Math.round((resolvedTickets.length / totalTickets) * 100) : 0
     };
-  }, [filteredData, settings.teamMembers]);
+  }, [filteredData, filteredInvoices, tickets, settings]);
 
 
   // --- EXPORT PDF ---
@@ -265,11 +371,11 @@ export default function Reports({ tickets, settings }: ReportsProps) {
                <div className="absolute right-0 top-0 p-4 opacity-10 group-hover:scale-110 transition-transform">
                   <DollarSign size={64} className="text-indigo-600" />
                </div>
-               <p className="text-slate-500 text-xs font-bold uppercase tracking-wider mb-1">Total Revenue</p>
+               <p className="text-slate-500 text-xs font-bold uppercase tracking-wider mb-1">Invoiced Revenue <span className="normal-case font-medium">(excl. GST)</span></p>
                <h3 className="text-3xl font-black text-slate-800">{formatCurrency(analytics.totalRevenue)}</h3>
                <div className="flex items-center gap-2 mt-4">
                   <span className="bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded-md text-[10px] font-bold border border-indigo-100">
-                     Avg Ticket: {analytics.totalTickets > 0 ? formatCurrency(analytics.totalRevenue / analytics.totalTickets) : 0}
+                     Avg Invoice: {analytics.invoiceCount > 0 ? formatCurrency(analytics.totalRevenue / analytics.invoiceCount) : 0}
                   </span>
                </div>
             </div>
@@ -458,6 +564,107 @@ export default function Reports({ tickets, settings }: ReportsProps) {
 
          </div>
 
+         {/* 4. COLLECTIONS VS RECEIVABLES */}
+         <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+               <div>
+                  <h3 className="font-bold text-slate-800 text-lg flex items-center gap-2">
+                     <DollarSign size={20} className="text-emerald-600"/> Collections vs Receivables
+                  </h3>
+                  <p className="text-xs text-slate-500">Payments received in the period against what is still unpaid on its invoices</p>
+               </div>
+               <div className="flex flex-wrap gap-2 text-[10px] font-bold">
+                  <span className="bg-emerald-50 text-emerald-700 px-2 py-1 rounded-md border border-emerald-100">
+                     Collected: {formatCurrency(collections.collected)}
+                  </span>
+                  <span className="bg-red-50 text-red-700 px-2 py-1 rounded-md border border-red-100">
+                     Receivable: {formatCurrency(collections.receivable)}
+                  </span>
+               </div>
+            </div>
+            <div className="relative w-full h-[280px]">
+               <div className="absolute inset-0">
+                  <ResponsiveContainer width="100%" height="100%">
+                     <BarChart data={collections.byStore} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                        <XAxis dataKey="name" tick={{fontSize: 11, fill: COLORS.slate}} axisLine={false} tickLine={false} dy={10} />
+                        <YAxis tick={{fontSize: 11, fill: COLORS.slate}} axisLine={false} tickLine={false} tickFormatter={(val) => `₹${val/1000}k`} />
+                        <Tooltip
+                           formatter={(value: number) => formatCurrency(value)}
+                           contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1)' }}
+                           cursor={{ fill: '#f1f5f9' }}
+                        />
+                        <Legend verticalAlign="top" height={30} iconType="circle" iconSize={8} wrapperStyle={{ fontSize: '11px' }} />
+                        <Bar dataKey="collected" name="Collected" fill={COLORS.success} radius={[4, 4, 0, 0]} barSize={24} />
+                        <Bar dataKey="receivable" name="Receivable" fill={COLORS.danger} radius={[4, 4, 0, 0]} barSize={24} />
+                     </BarChart>
+                  </ResponsiveContainer>
+               </div>
+               {collections.byStore.length === 0 && (
+                  <div className="absolute inset-0 flex items-center justify-center text-slate-400 text-sm">No payments or invoices in this period.</div>
+               )}
+            </div>
+         </div>
+
+         {/* 5. SLA COMPLIANCE */}
+         <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+               <div>
+                  <h3 className="font-bold text-slate-800 text-lg flex items-center gap-2">
+                     <Target size={20} className="text-emerald-600"/> SLA Compliance
+                  </h3>
+                  <p className="text-xs text-slate-500">Business hours only; time on hold for customer-side reasons is excluded</p>
+               </div>
+               <div className="flex flex-wrap gap-2 text-[10px] font-bold">
+                  <span className="bg-emerald-50 text-emerald-700 px-2 py-1 rounded-md border border-emerald-100">
+                     Response: {analytics.slaCompliance.responseRate ?? '—'}{analytics.slaCompliance.responseRate !== null && '%'}
+                  </span>
+                  <span className="bg-emerald-50 text-emerald-700 px-2 py-1 rounded-md border border-emerald-100">
+                     Resolution: {analytics.slaCompliance.resolutionRate ?? '—'}{analytics.slaCompliance.resolutionRate !== null && '%'}
+                  </span>
+                  <span className="bg-red-50 text-red-700 px-2 py-1 rounded-md border border-red-100 flex items-center gap-1">
+                     <AlertCircle size={10} /> {analytics.slaCompliance.breachedOpen} Open Breaches
+                  </span>
+                  {analytics.slaCompliance.lateMs > 0 && (
+                     <span className="bg-amber-50 text-amber-700 px-2 py-1 rounded-md border border-amber-100">
+                        {formatSLADuration(analytics.slaCompliance.lateMs)} Over Target
+                     </span>
+                  )}
+               </div>
+            </div>
+            <div className="overflow-x-auto">
+               <table className="w-full text-left text-sm">
+                  <thead className="border-b border-slate-100 text-xs text-slate-500 uppercase">
+                     <tr>
+                        <th className="py-2 pr-4 font-semibold">Priority</th>
+                        <th className="py-2 pr-4 font-semibold">Response Met</th>
+                        <th className="py-2 pr-4 font-semibold">Resolution Met</th>
+                        <th className="py-2 font-semibold">Open Breaches</th>
+                     </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                     {analytics.slaCompliance.rows.map(row => (
+                        <tr key={row.priority}>
+                           <td className="py-3 pr-4 font-bold text-slate-700">{row.priority}</td>
+                           <td className="py-3 pr-4 text-slate-600">
+                              {row.responseRate ?? '—'}{row.responseRate !== null && '%'} <span className="text-xs text-slate-400">({row.responseMet}/{row.responseClosed})</span>
+                           </td>
+                           <td className="py-3 pr-4 text-slate-600">
+                              {row.resolutionRate ?? '—'}{row.resolutionRate !== null && '%'} <span className="text-xs text-slate-400">({row.resolutionMet}/{row.resolutionClosed})</span>
+                           </td>
+                           <td className={`py-3 font-bold ${row.breachedOpen > 0 ? 'text-red-600' : 'text-slate-400'}`}>{row.breachedOpen}</td>
+                        </tr>
+                     ))}
+                     {analytics.slaCompliance.rows.length === 0 && (
+                        <tr>
+                           <td colSpan={4} className="text-center py-8 text-slate-400 text-sm">No tickets with an SLA target in this period.</td>
+                        </tr>
+                     )}
+                  </tbody>
+               </table>
+            </div>
+         </div>
+
       </div>
     </div>
   );
@@ -9,15 +9,12 @@ import {
   Calendar,
   ArrowRight,
 } from "lucide-react";
+import { repository } from "@/services/dataRepository";
+import { needsTicketId, nextTicketId } from "@/services/ticketNumbering";
 import {
-  doc,
-  updateDoc,
-  serverTimestamp,
-  addDoc,
-  collection,
-  deleteDoc,
-} from "firebase/firestore";
-import { db } from "@/firebaseConfig";
+  getInitialStatus,
+  validateTransition,
+} from "@/services/workflowEngine";
 
 {
   /*interface ReviewReportsProps {
@@ -29,53 +26,61 @@ import { db } from "@/firebaseConfig";
 interface ReviewReportsProps {
   tickets: Ticket[];
   setTickets: (tickets: Ticket[]) => void;
-
+  settings: AppSettings;
   currentUser: User;
 }
 
 export default function ReviewReports({
   tickets,
   setTickets,
+  settings,
 
   currentUser,
 }: ReviewReportsProps) {
   // Filter for Pending Approval tickets
   const pendingTickets = tickets.filter((t) => t.status === "Pending Approval");
-const ticketsRef = collection(db, "app_data", "main", "tickets");
 
   const handleApprove = async (ticket: Ticket) => {
-   await updateDoc(doc(db, "tickets", ticket.id), {
-    status: "New",
-    ticketId: ticket.ticketId.replace("REQ", "IF"),
-    approvedAt: serverTimestamp(),
-    approvedBy: currentUser.id,
+    const status = getInitialStatus(settings.workflow);
+    const transitionError = validateTransition(
+      ticket.status,
+      status,
+      currentUser.role,
+      {},
+      settings.workflow
+    );
+    if (transitionError) {
+      alert(transitionError);
+      return;
+    }
+
+    // Requests submitted before sequential IDs still need a real one
+    const patch: Partial<Ticket> = { status };
+    if (needsTicketId(ticket)) {
+      patch.ticketId = await nextTicketId(ticket.store, settings.stores);
+    }
 
-    history: [
-      ...(ticket.history || []),
-      {
-        id: Date.now().toString(),
-        action: "Approved",
-        actorName: currentUser.name,
-        timestamp: Date.now(),
-      },
-    ],
-  });
-  console.log("Ticket approved:");
+    await repository.tickets.update(ticket.id, patch, { action: "Approved" });
   };
-  const handleReject = async (id: string) => {
-    {
-      /*} setTickets(
-      tickets.map((t) => (t.id === id ? { ...t, status: "Rejected" } : t))
-    );*/
+  const handleReject = async (ticket: Ticket) => {
+    const transitionError = validateTransition(
+      ticket.status,
+      "Rejected",
+      currentUser.role,
+      {},
+      settings.workflow
+    );
+    if (transitionError) {
+      alert(transitionError);
+      return;
     }
-    setTickets(tickets.filter((t) => t.id !== id));
-  const ticketRef = doc(db,"tickets", id);
 
-    await updateDoc(ticketRef, {
-      status: "Rejected",
-      rejectedBy: currentUser.id,
-      rejectedAt: serverTimestamp(),
-    });
+    // The ticket drops out of the pending list once its status changes
+    await repository.tickets.update(
+      ticket.id,
+      { status: "Rejected" },
+      { action: "Rejected" }
+    );
   };
 
   return (
@@ -133,7 +138,7 @@ const ticketsRef = collection(db, "app_data", "main", "tickets");
 
               <div className="flex items-center gap-3 w-full md:w-auto">
                 <button
-                  onClick={() => handleReject(ticket.id)}
+                  onClick={() => handleReject(ticket)}
                   className="flex-1 md:flex-none px-4 py-2 bg-red-50 text-red-600 font-bold rounded-lg hover:bg-red-100 transition-colors flex items-center justify-center gap-2"
                 >
                   <X size={18} /> Reject
@@ -0,0 +1,247 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  ScanLine,
+  Camera,
+  CameraOff,
+  X,
+  Plus,
+  Ticket as TicketIcon,
+  ClipboardCheck,
+  ChevronRight,
+  AlertTriangle,
+} from "lucide-react";
+import { Report, Ticket } from "../types";
+import {
+  isCameraScanSupported,
+  lookupScan,
+  ScanLookup,
+  ScanMatch,
+  startCameraScan,
+} from "@/services/scanLookup";
+
+interface ScanModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tickets: Ticket[];
+  reports: Report[];
+  onOpenTicket: (ticket: Ticket) => void;
+  onOpenReport?: (report: Report) => void;
+  onCreateTicket: (serial: string) => void;
+}
+
+// Scan mode for the ticket list. The input stays focused so a keyboard-wedge
+// scanner (which types the code and presses Enter) works without a click.
+export default function ScanModal({
+  isOpen,
+  onClose,
+  tickets,
+  reports,
+  onOpenTicket,
+  onOpenReport,
+  onCreateTicket,
+}: ScanModalProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const stopCameraRef = useRef<(() => void) | null>(null);
+  const [code, setCode] = useState("");
+  const [result, setResult] = useState<ScanLookup | null>(null);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const stopCamera = () => {
+    stopCameraRef.current?.();
+    stopCameraRef.current = null;
+    setCameraOn(false);
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setCode("");
+      setResult(null);
+      setError(null);
+      setTimeout(() => inputRef.current?.focus(), 0);
+    }
+    return stopCamera;
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const open = (match: ScanMatch) => {
+    stopCamera();
+    onClose();
+    if (match.type === "ticket") onOpenTicket(match.ticket);
+    else onOpenReport?.(match.report);
+  };
+
+  const resolve = (raw: string) => {
+    const lookup = lookupScan(raw, tickets, onOpenReport ? reports : []);
+    if (!lookup.code) return;
+    if (lookup.matches.length === 1) {
+      open(lookup.matches[0]);
+      return;
+    }
+    setResult(lookup);
+    setCode("");
+    inputRef.current?.focus();
+  };
+
+  const toggleCamera = async () => {
+    if (cameraOn) {
+      stopCamera();
+      return;
+    }
+    setError(null);
+    setCameraOn(true);
+    try {
+      // The video element renders once cameraOn is set
+      await new Promise((r) => setTimeout(r, 0));
+      if (!videoRef.current) return;
+      stopCameraRef.current = await startCameraScan(
+        videoRef.current,
+        (scanned) => {
+          stopCameraRef.current = null;
+          setCameraOn(false);
+          resolve(scanned);
+        }
+      );
+    } catch (err: any) {
+      setCameraOn(false);
+      setError(err.message || "Could not start the camera");
+    }
+  };
+
+  const handleClose = () => {
+    stopCamera();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl animate-in fade-in zoom-in duration-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <ScanLine size={20} className="text-indigo-600" /> Scan
+          </h3>
+          <button onClick={handleClose}>
+            <X size={20} className="text-slate-400 hover:text-slate-600" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              resolve(code);
+            }}
+            className="flex gap-2"
+          >
+            <input
+              ref={inputRef}
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Scan or type a ticket ID, serial or laptop no."
+              autoComplete="off"
+              className="flex-1 px-3 py-2 text-sm font-mono bg-slate-50 border border-slate-200 rounded-xl outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+            />
+            {isCameraScanSupported() && (
+              <button
+                type="button"
+                onClick={toggleCamera}
+                title={cameraOn ? "Stop camera" : "Scan with camera"}
+                className="px-3 py-2 text-indigo-600 bg-indigo-50 rounded-xl hover:bg-indigo-100"
+              >
+                {cameraOn ? <CameraOff size={18} /> : <Camera size={18} />}
+              </button>
+            )}
+          </form>
+
+          {cameraOn && (
+            <video
+              ref={videoRef}
+              muted
+              playsInline
+              className="w-full aspect-video bg-slate-900 rounded-xl object-cover"
+            />
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 text-red-600 text-xs font-bold rounded-lg flex items-center gap-2">
+              <AlertTriangle size={14} />
+              {error}
+            </div>
+          )}
+
+          {result && result.matches.length > 1 && (
+            <div className="space-y-2">
+              <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                {result.matches.length} matches for{" "}
+                <span className="font-mono normal-case">{result.code}</span>
+              </p>
+              {result.matches.map((match) => (
+                <button
+                  key={
+                    match.type === "ticket"
+                      ? `t-${match.ticket.id}`
+                      : `r-${match.report.id}`
+                  }
+                  type="button"
+                  onClick={() => open(match)}
+                  className="w-full p-3 text-left bg-white border border-slate-200 rounded-xl hover:border-indigo-300 hover:bg-indigo-50/30 flex items-center gap-3"
+                >
+                  {match.type === "ticket" ? (
+                    <TicketIcon size={18} className="text-indigo-500" />
+                  ) : (
+                    <ClipboardCheck size={18} className="text-emerald-500" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-bold text-slate-800 truncate">
+                      {match.type === "ticket"
+                        ? `${match.ticket.ticketId} · ${match.ticket.name}`
+                        : `Laptop ${match.report.deviceInfo.laptopNo} · ${match.report.deviceInfo.customerName}`}
+                    </p>
+                    <p className="text-xs text-slate-500 truncate">
+                      {match.type === "ticket"
+                        ? `${match.ticket.status} · ${match.ticket.date}`
+                        : `QC ${match.report.status} · ${match.report.date}`}{" "}
+                      · matched on {match.field}
+                    </p>
+                  </div>
+                  <ChevronRight size={16} className="text-slate-300" />
+                </button>
+              ))}
+            </div>
+          )}
+
+          {result && result.matches.length === 0 && (
+            <div className="p-4 bg-amber-50 border border-amber-100 rounded-xl space-y-3">
+              {result.isLink ? (
+                <p className="text-sm text-amber-800">
+                  This ticket no longer exists or is not visible to you.
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-amber-800">
+                    Nothing matches{" "}
+                    <span className="font-mono font-bold">{result.code}</span>.
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      stopCamera();
+                      onClose();
+                      onCreateTicket(result.code);
+                    }}
+                    className="px-4 py-1.5 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 flex items-center gap-1"
+                  >
+                    <Plus size={14} /> New ticket with this serial
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import {
   AlertTriangle,
 } from "lucide-react";
 import { Ticket, Task, AppSettings, User as AppUser } from "../types";
+import { can, getManagedMembers } from "@/services/permissionEngine";
 
 interface ScheduleProps {
   tasks: Task[];
@@ -124,25 +125,16 @@ export default function Schedule({
   ];
 
   const visibleTasks = useMemo(() => {
-    // ADMIN sees:
+    // Task managers see:
     // 1. Tasks created by them
-    // 2. Tasks assigned by them (to manager or technician)
-    if (currentUser.role === "ADMIN") {
+    // 2. Tasks assigned to them
+    if (can(currentUser, "tasks.manage")) {
       return tasks.filter(
         (t) =>
           t.createdById === currentUser.id || t.assignedToId === currentUser.id
       );
     }
-    // MANAGER sees:
-    // 1. Tasks created by them
-    // 2. Tasks assigned by them (to technicians)
-    if (currentUser.role === "MANAGER") {
-      return tasks.filter(
-        (t) =>
-          t.createdById === currentUser.id || t.assignedToId === currentUser.id
-      );
-    }
-    // TECHNICIAN sees only assigned tasks
+    // Everyone else sees only assigned tasks
     return tasks.filter((t) => t.assignedToId === currentUser.id);
   }, [tasks, currentUser]);
 
@@ -373,7 +365,7 @@ export default function Schedule({
     return days;
   };
 
-  const canDelete = currentUser.role === "ADMIN";
+  const canDelete = can(currentUser, "schedule.delete");
 
   return (
     <div className="h-[calc(100vh-140px)] flex flex-col lg:flex-row gap-6">
@@ -642,13 +634,15 @@ const TaskModal: React.FC<TaskModalProps> = ({
   currentUser,
   taskToEdit,
 }) => {
+  // Task managers assign tasks; everyone else's go to themselves
+  const canAssign = can(currentUser, "tasks.manage");
   const [formData, setFormData] = useState<Partial<Task>>({
     title: "",
     date: initialDate,
     time: "09:00",
     description: "",
     type: "general",
-    assignedToId: currentUser.role !== "TECHNICIAN" ? "" : currentUser.id,
+    assignedToId: canAssign ? "" : currentUser.id,
     status: "pending",
   });
 
@@ -663,7 +657,7 @@ const TaskModal: React.FC<TaskModalProps> = ({
         time: "09:00",
         description: "",
         type: "general",
-        assignedToId: currentUser.role !== "TECHNICIAN" ? "" : currentUser.id,
+        assignedToId: canAssign ? "" : currentUser.id,
         status: "pending",
       });
     }
@@ -683,32 +677,21 @@ const TaskModal: React.FC<TaskModalProps> = ({
         time: "09:00",
         description: "",
         type: "general",
-        assignedToId: currentUser.role === "TECHNICIAN" ? currentUser.id : "",
+        assignedToId: canAssign ? "" : currentUser.id,
         status: "pending",
       });
     }
   }, [taskToEdit, initialDate, currentUser]);
 
-  const canAssign =
-    currentUser.role === "ADMIN" || currentUser.role === "MANAGER";
-  const normalizeRole = (role: string) => role.trim().toUpperCase();
-
-  const assignableMembers = teamMembers.filter((member) => {
-    const memberRole = normalizeRole(member.role);
-    const currentRole = normalizeRole(currentUser.role);
-
-    if (currentRole === "ADMIN") return true;
-
-    if (currentRole === "MANAGER") {
-      return (
-        memberRole === "TECHNICIAN" ||
-        member.id === currentUser.id ||
-        (taskToEdit && member.id === taskToEdit.assignedToId)
-      );
-    }
-    // TECHNICIAN: cannot assign
-    return false;
-  });
+  // The current assignee stays selectable when editing
+  const managedMembers = getManagedMembers(currentUser, teamMembers);
+  const assignableMembers = canAssign
+    ? teamMembers.filter(
+        (member) =>
+          managedMembers.includes(member) ||
+          (taskToEdit && member.id === taskToEdit.assignedToId)
+      )
+    : [];
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -721,10 +704,7 @@ const TaskModal: React.FC<TaskModalProps> = ({
         description: formData.description || "",
         type: formData.type as any,
 
-        assignedToId:
-          currentUser.role === "TECHNICIAN"
-            ? currentUser.id
-            : formData.assignedToId!,
+        assignedToId: canAssign ? formData.assignedToId! : currentUser.id,
 
         createdById: taskToEdit ? taskToEdit.createdById : currentUser.id,
 
@@ -881,27 +861,11 @@ const TaskModal: React.FC<TaskModalProps> = ({
                   className="w-full pl-10 pr-8 py-2.5 bg-white border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none appearance-none transition-all"
                 >
                   <option value="">-- Unassigned --</option>
-                  {teamMembers
-                    .filter((member) => {
-                      if (currentUser.role === "MANAGER") {
-                        // Manager can assign to technicians or themselves
-                        return (
-                          member.role.toUpperCase() === "TECHNICIAN" ||
-                          member.id === currentUser.id
-                        );
-                      }
-                      if (currentUser.role === "ADMIN") {
-                        // Admin can see all
-                        return true;
-                      }
-                      // Technicians cannot assign
-                      return false;
-                    })
-                    .map((m) => (
-                      <option key={m.id} value={m.id}>
-                        {m.name} ({m.role})
-                      </option>
-                    ))}
+                  {assignableMembers.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      {m.name} ({m.role})
+                    </option>
+                  ))}
                 </select>
                 <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none text-slate-400">
                   <ChevronRight size={16} className="rotate-90" />
@@ -21,26 +21,108 @@ import {
   Layout,
   Loader2,
   Laptop,
+  Receipt,
+  ClipboardCheck,
+  RotateCcw,
+  BadgeCheck,
+  MessageSquare,
+  ShieldCheck,
 } from "lucide-react";
-import { User, Ticket, Role, SLAConfig, AppSettings } from "../types";
 import {
-  collection,
-  addDoc,
-  updateDoc,
-  deleteDoc,
-  doc,
-  getDocs,
-  serverTimestamp,
-  setDoc,
-} from "firebase/firestore";
-import { auth, db } from "@/firebaseConfig";
-import { createUserWithEmailAndPassword } from "firebase/auth";
+  User,
+  Ticket,
+  Role,
+  SLAConfig,
+  SLATarget,
+  BusinessHours,
+  DeviceType,
+  IntakeCheckItem,
+  IntakeSection,
+  EscalationRecipient,
+  EscalationStep,
+  QuotationConfig,
+  Store as StoreLocation,
+  AppSettings,
+  TransitionField,
+  WorkflowConfig,
+  WorkflowTransition,
+  Brand,
+  Part,
+  WarrantyConfig,
+  WarrantyRule,
+  MessageTemplate,
+  NotificationChannel,
+  NotificationConfig,
+  Capability,
+  PermissionConfig,
+  PermissionOverride,
+  RoleDefinition,
+} from "../types";
 import { supabase } from "@/lib/supabaseClient";
+import { repository } from "@/services/dataRepository";
+import {
+  formatTicketId,
+  getTicketPrefix,
+} from "@/services/ticketNumbering";
+import {
+  ANY_STATUS,
+  DEFAULT_WORKFLOW,
+  getResolvedStatus,
+  renameWorkflowStatus,
+  TRANSITION_FIELD_LABELS,
+} from "@/services/workflowEngine";
+import {
+  getSLAConfig,
+  renameSLAHoldReason,
+  renameSLAPriority,
+} from "@/services/slaEngine";
+import { ESCALATION_RECIPIENT_LABELS } from "@/services/escalationEngine";
+import {
+  DEFAULT_QUOTATION_CONFIG,
+  formatQuoteAmount,
+  renameQuoteHoldReason,
+  renameQuoteStatus,
+} from "@/services/quotationEngine";
+import {
+  formatInvoiceNumber,
+  getInvoicePrefix,
+} from "@/services/invoiceEngine";
+import {
+  DEFAULT_INTAKE_CHECKLIST,
+  INTAKE_SECTIONS,
+} from "@/services/intakeEngine";
+import { getWarrantyConfig } from "@/services/warrantyEngine";
+import {
+  activeProviderName,
+  CHANNEL_LABELS,
+  getNotificationConfig,
+  NOTIFICATION_CHANNELS,
+  TEMPLATE_PLACEHOLDERS,
+} from "@/services/notificationEngine";
+import {
+  ADMIN_ROLE,
+  can,
+  CAPABILITY_GROUPS,
+  CUSTOMER_ROLE,
+  DEFAULT_PERMISSION_CONFIG,
+  getOverride,
+  getPermissionConfig,
+  getRoleDefinition,
+  getRoleName,
+  getStaffRoles,
+  isStaffRole,
+  toRoleId,
+} from "@/services/permissionEngine";
+import {
+  getAssignedStores,
+  renameAssignedStore,
+} from "@/services/storeScope";
 
 interface SettingsProps {
   currentUser: User;
   tickets: Ticket[];
   onUpdateTickets: (tickets: Ticket[]) => void;
+  parts?: Part[]; // for part-level warranty rules
   settings: AppSettings;
   onUpdateSettings: (settings: AppSettings) => void;
 }
@@ -56,7 +138,7 @@ const AccessDenied = () => (
     <h2 className="text-3xl font-bold text-slate-800 mb-4">Access Denied</h2>
     <p className="text-slate-500 max-w-md text-lg">
       You do not have permission to view this page. <br />
-      Only administrators can modify application settings.
+      Ask an administrator for access to the settings you need.
     </p>
   </div>
 );
@@ -229,6 +311,9 @@ const SimpleListManager: React.FC<SimpleListManagerProps> = ({
 // 3. Team Member Modal
 interface TeamMemberModalProps {
   member?: User;
+  roles: RoleDefinition[];
+  stores: StoreLocation[];
+  canAssignStores: boolean; // only admins change store assignments
   isOpen: boolean;
   onClose: () => void;
   onSave: (member: User) => void;
@@ -236,6 +321,9 @@ interface TeamMemberModalProps {
 
 const TeamMemberModal: React.FC<TeamMemberModalProps> = ({
   member,
+  roles,
+  stores,
+  canAssignStores,
   isOpen,
   onClose,
   onSave,
@@ -371,90 +459,1966 @@ const TeamMemberModal: React.FC<TeamMemberModalProps> = ({
             </div>
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">
-                Full Name
-              </label>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">
+                Full Name
+              </label>
+              <input
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData({ ...formData, name: e.target.value })
+                }
+                className="w-full px-3 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">
+                Role
+              </label>
+              <select
+                value={formData.role}
+                onChange={(e) =>
+                  setFormData({ ...formData, role: e.target.value as Role })
+                }
+                className="w-full px-3 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none bg-white text-sm"
+              >
+                {roles.map((role) => (
+                  <option key={role.id} value={role.id}>
+                    {role.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">
+              Email
+            </label>
+            <input
+              type="email"
+              value={formData.email}
+              onChange={(e) =>
+                setFormData({ ...formData, email: e.target.value })
+              }
+              className="w-full px-3 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none text-sm"
+            />
+          </div>
+          {canAssignStores && stores.length > 0 && (
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">
+                Stores
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {stores.map((store) => {
+                  const assigned = formData.stores || [];
+                  const checked = assigned.includes(store.name);
+                  return (
+                    <label
+                      key={store.id}
+                      className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm cursor-pointer ${
+                        checked
+                          ? "bg-indigo-50 border-indigo-200 text-indigo-700"
+                          : "border-slate-200 text-slate-600"
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        onChange={() =>
+                          setFormData({
+                            ...formData,
+                            stores: checked
+                              ? assigned.filter((s) => s !== store.name)
+                              : [...assigned, store.name],
+                          })
+                        }
+                      />
+                      {store.name}
+                    </label>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-slate-400 mt-1.5 ml-1">
+                No store selected: sees no store until one is assigned.
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">
+              Password
+            </label>
+            <input
+              type="password"
+              value={formData.password || ""}
+              onChange={(e) =>
+                setFormData({ ...formData, password: e.target.value })
+              }
+              placeholder="Temporary password"
+              className="w-full px-3 py-2 border rounded-lg"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">
+              Experience / Bio
+            </label>
+            <textarea
+              value={formData.experience}
+              onChange={(e) =>
+                setFormData({ ...formData, experience: e.target.value })
+              }
+              className="w-full px-3 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none text-sm resize-none"
+              rows={3}
+            />
+          </div>
+
+          <button
+            onClick={() => {
+              if (formData.name && formData.email) onSave(formData as User);
+            }}
+            disabled={isCompressing}
+            className="w-full py-3 bg-indigo-600 text-white rounded-xl font-semibold hover:bg-indigo-700 mt-2 shadow-lg shadow-indigo-200 transition-all active:scale-[0.98] disabled:opacity-70 disabled:cursor-not-allowed"
+          >
+            {isCompressing ? "Processing Image..." : "Save Member"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 4. Workflow Editor
+interface WorkflowEditorProps {
+  workflow: WorkflowConfig;
+  statuses: string[];
+  roles: Role[]; // staff roles, and CUSTOMER for quotation answers
+  onChange: (workflow: WorkflowConfig) => void;
+}
+
+const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
+  workflow,
+  statuses,
+  roles,
+  onChange,
+}) => {
+  const [newFrom, setNewFrom] = useState(ANY_STATUS);
+  const [newTo, setNewTo] = useState(statuses[0] || "");
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  const updateTransition = (id: string, patch: Partial<WorkflowTransition>) =>
+    onChange({
+      ...workflow,
+      transitions: workflow.transitions.map((t) =>
+        t.id === id ? { ...t, ...patch } : t
+      ),
+    });
+
+  const addTransition = () => {
+    if (!newTo || newFrom === newTo) {
+      setError("Pick two different statuses");
+      return;
+    }
+    if (workflow.transitions.some((t) => t.from === newFrom && t.to === newTo)) {
+      setError("This transition already exists");
+      return;
+    }
+    onChange({
+      ...workflow,
+      transitions: [
+        ...workflow.transitions,
+        {
+          id: Date.now().toString(),
+          from: newFrom,
+          to: newTo,
+          roles: ["ADMIN", "MANAGER"],
+          requiredFields: [],
+        },
+      ],
+    });
+    setError(null);
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-2 py-0.5 rounded-md text-[10px] font-bold border transition-colors ${
+      active
+        ? "bg-indigo-50 text-indigo-700 border-indigo-200"
+        : "bg-white text-slate-400 border-slate-200 hover:text-slate-600"
+    }`;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide mb-4 flex items-center gap-2">
+          <div className="w-1 h-4 bg-indigo-500 rounded-full"></div>
+          Status Rules
+        </h3>
+        <div className="grid gap-4 md:grid-cols-2">
+          <label className="block">
+            <span className="block text-xs font-semibold text-slate-500 mb-1.5">
+              Status for new tickets
+            </span>
+            <select
+              value={workflow.initialStatus}
+              onChange={(e) =>
+                onChange({ ...workflow, initialStatus: e.target.value })
+              }
+              className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+            >
+              {statuses.map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="block text-xs font-semibold text-slate-500 mb-1.5">
+              Status when a hold reason is set
+            </span>
+            <select
+              value={workflow.holdStatus}
+              onChange={(e) =>
+                onChange({ ...workflow, holdStatus: e.target.value })
+              }
+              className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+            >
+              {statuses.map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="block text-xs font-semibold text-slate-500 mb-1.5">
+              Status when a repair is done (invoicing, repair warranty)
+            </span>
+            <select
+              value={getResolvedStatus(workflow)}
+              onChange={(e) =>
+                onChange({ ...workflow, resolvedStatus: e.target.value })
+              }
+              className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+            >
+              {statuses.map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="mt-4">
+          <span className="block text-xs font-semibold text-slate-500 mb-1.5">
+            Closed statuses (not counted as open or overdue)
+          </span>
+          <div className="flex flex-wrap gap-2">
+            {statuses.map((s) => (
+              <button
+                key={s}
+                type="button"
+                onClick={() =>
+                  onChange({
+                    ...workflow,
+                    terminalStatuses: toggle(workflow.terminalStatuses, s),
+                  })
+                }
+                className={chipClass(workflow.terminalStatuses.includes(s))}
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide mb-1 flex items-center gap-2">
+          <div className="w-1 h-4 bg-indigo-500 rounded-full"></div>
+          Allowed Transitions
+        </h3>
+        <p className="text-xs text-slate-500 mb-4">
+          Any status change not listed here is rejected. Toggle who may make
+          each move and what must be filled in first.
+        </p>
+
+        {error && (
+          <div className="mb-3 p-2.5 bg-red-50 text-red-600 text-xs font-medium rounded-lg flex items-center gap-2">
+            <AlertTriangle size={14} />
+            {error}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <select
+            value={newFrom}
+            onChange={(e) => setNewFrom(e.target.value)}
+            className="px-3 py-2 text-sm border border-slate-200 rounded-lg outline-none"
+          >
+            <option value={ANY_STATUS}>Any status</option>
+            {statuses.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+          <ChevronDown size={16} className="-rotate-90 text-slate-400" />
+          <select
+            value={newTo}
+            onChange={(e) => setNewTo(e.target.value)}
+            className="px-3 py-2 text-sm border border-slate-200 rounded-lg outline-none"
+          >
+            {statuses.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={addTransition}
+            className="px-3 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors flex items-center justify-center"
+          >
+            <Plus size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          {workflow.transitions.map((t) => (
+            <div
+              key={t.id}
+              className="p-3 bg-slate-50 rounded-lg border border-transparent hover:border-slate-200 transition-colors"
+            >
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <span className="text-sm font-semibold text-slate-700">
+                  {t.from === ANY_STATUS ? "Any status" : t.from}
+                  <span className="mx-2 text-slate-400">→</span>
+                  {t.to}
+                </span>
+                <button
+                  onClick={() =>
+                    onChange({
+                      ...workflow,
+                      transitions: workflow.transitions.filter(
+                        (x) => x.id !== t.id
+                      ),
+                    })
+                  }
+                  className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-1.5">
+                <span className="text-[10px] font-bold text-slate-400 uppercase mr-1">
+                  Roles
+                </span>
+                {roles.map((role) => (
+                  <button
+                    key={role}
+                    type="button"
+                    onClick={() =>
+                      updateTransition(t.id, { roles: toggle(t.roles, role) })
+                    }
+                    className={chipClass(t.roles.includes(role))}
+                  >
+                    {role}
+                  </button>
+                ))}
+                <span className="text-[10px] font-bold text-slate-400 uppercase ml-3 mr-1">
+                  Requires
+                </span>
+                {(Object.keys(TRANSITION_FIELD_LABELS) as TransitionField[]).map(
+                  (field) => (
+                    <button
+                      key={field}
+                      type="button"
+                      onClick={() =>
+                        updateTransition(t.id, {
+                          requiredFields: toggle(t.requiredFields, field),
+                        })
+                      }
+                      className={chipClass(t.requiredFields.includes(field))}
+                    >
+                      {TRANSITION_FIELD_LABELS[field]}
+                    </button>
+                  )
+                )}
+              </div>
+            </div>
+          ))}
+          {workflow.transitions.length === 0 && (
+            <p className="text-slate-400 text-xs text-center py-4 italic">
+              No transitions defined. Ticket statuses cannot be changed.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 5. SLA Editor
+interface SlaEditorProps {
+  sla: SLAConfig;
+  priorities: string[];
+  holdReasons: string[];
+  stores: StoreLocation[];
+  onChange: (sla: SLAConfig) => void;
+  onChangeStores: (stores: StoreLocation[]) => void;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const SlaEditor: React.FC<SlaEditorProps> = ({
+  sla,
+  priorities,
+  holdReasons,
+  stores,
+  onChange,
+  onChangeStores,
+}) => {
+  const [holidayDate, setHolidayDate] = useState("");
+  const [holidayName, setHolidayName] = useState("");
+  const [holidayStore, setHolidayStore] = useState("");
+  const [stepDraft, setStepDraft] = useState<Omit<EscalationStep, "id">>({
+    clock: "resolution",
+    percent: 100,
+    notify: "manager",
+  });
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  const chipClass = (active: boolean) =>
+    `px-2 py-0.5 rounded-md text-[10px] font-bold border transition-colors ${
+      active
+        ? "bg-indigo-50 text-indigo-700 border-indigo-200"
+        : "bg-white text-slate-400 border-slate-200 hover:text-slate-600"
+    }`;
+
+  const inputClass =
+    "px-2 py-1.5 text-sm border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+
+  const findTarget = (priority: string) =>
+    sla.targets.find((t) => t.priority.toLowerCase() === priority.toLowerCase());
+
+  const setTarget = (priority: string, patch: Partial<SLATarget> | null) => {
+    const others = sla.targets.filter((t) => t !== findTarget(priority));
+    if (!patch) {
+      onChange({ ...sla, targets: others });
+      return;
+    }
+    const current = findTarget(priority) || {
+      priority,
+      responseHours: 4,
+      resolutionHours: 45,
+    };
+    onChange({ ...sla, targets: [...others, { ...current, ...patch }] });
+  };
+
+  const renderHours = (
+    hours: BusinessHours,
+    update: (hours: BusinessHours) => void
+  ) => (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {WEEKDAYS.map((label, day) => (
+        <button
+          key={label}
+          type="button"
+          onClick={() =>
+            update({ ...hours, days: toggle(hours.days, day).sort() })
+          }
+          className={chipClass(hours.days.includes(day))}
+        >
+          {label}
+        </button>
+      ))}
+      <input
+        type="time"
+        value={hours.open}
+        onChange={(e) => update({ ...hours, open: e.target.value })}
+        className={`${inputClass} ml-2`}
+      />
+      <span className="text-xs text-slate-400">to</span>
+      <input
+        type="time"
+        value={hours.close}
+        onChange={(e) => update({ ...hours, close: e.target.value })}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  const addHoliday = () => {
+    if (!holidayDate || !holidayName.trim()) return;
+    onChange({
+      ...sla,
+      holidays: [
+        ...sla.holidays,
+        {
+          id: Date.now().toString(),
+          date: holidayDate,
+          name: holidayName.trim(),
+          ...(holidayStore ? { storeId: holidayStore } : {}),
+        },
+      ].sort((a, b) => a.date.localeCompare(b.date)),
+    });
+    setHolidayDate("");
+    setHolidayName("");
+  };
+
+  return (
+    <div className="space-y-6 max-w-3xl mx-auto">
+      <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide mb-1 flex items-center gap-2">
+          <div className="w-1 h-4 bg-indigo-500 rounded-full"></div>
+          Targets by Priority
+        </h3>
+        <p className="text-xs text-slate-500 mb-4">
+          In business hours. Response ends when a ticket first leaves the new
+          status; resolution ends when it is closed. Escalation steps notify
+          people once a share of the target has been used.
+        </p>
+        <div className="space-y-2">
+          {priorities.map((priority) => {
+            const target = findTarget(priority);
+            return (
+              <div
+                key={priority}
+                className="flex flex-wrap items-center gap-3 p-2.5 bg-slate-50 rounded-lg"
+              >
+                <span className="flex-1 text-sm font-medium text-slate-700">
+                  {priority}
+                </span>
+                {target ? (
+                  <>
+                    {(
+                      [
+                        ["responseHours", "Response"],
+                        ["resolutionHours", "Resolution"],
+                      ] as const
+                    ).map(([key, label]) => (
+                      <label
+                        key={key}
+                        className="flex items-center gap-1.5 text-xs text-slate-500"
+                      >
+                        {label}
+                        <input
+                          type="number"
+                          min="1"
+                          value={target[key]}
+                          onChange={(e) =>
+                            setTarget(priority, {
+                              [key]: Math.max(1, Number(e.target.value) || 1),
+                            })
+                          }
+                          className={`${inputClass} w-16 text-center font-bold`}
+                        />
+                        h
+                      </label>
+                    ))}
+                    <button
+                      onClick={() => setTarget(priority, null)}
+                      className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded"
+                      title="Remove target"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                    <div className="w-full flex flex-wrap items-center gap-1.5 pt-2 border-t border-slate-200">
+                      <span className="text-[10px] font-bold text-slate-400 uppercase mr-1">
+                        Escalate
+                      </span>
+                      {(target.escalations || []).map((step) => (
+                        <span
+                          key={step.id}
+                          className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-[10px] font-bold border bg-white text-slate-600 border-slate-200"
+                        >
+                          {step.clock === "response" ? "Response" : "Resolution"}{" "}
+                          {step.percent}% →{" "}
+                          {ESCALATION_RECIPIENT_LABELS[step.notify]}
+                          <button
+                            onClick={() =>
+                              setTarget(priority, {
+                                escalations: (target.escalations || []).filter(
+                                  (s) => s.id !== step.id
+                                ),
+                              })
+                            }
+                            className="text-slate-400 hover:text-red-600"
+                          >
+                            <X size={10} />
+                          </button>
+                        </span>
+                      ))}
+                      <select
+                        value={stepDraft.clock}
+                        onChange={(e) =>
+                          setStepDraft({
+                            ...stepDraft,
+                            clock: e.target.value as EscalationStep["clock"],
+                          })
+                        }
+                        className="ml-auto px-1.5 py-1 text-[10px] border border-slate-200 rounded-md outline-none"
+                      >
+                        <option value="response">Response</option>
+                        <option value="resolution">Resolution</option>
+                      </select>
+                      <input
+                        type="number"
+                        min="1"
+                        value={stepDraft.percent}
+                        onChange={(e) =>
+                          setStepDraft({
+                            ...stepDraft,
+                            percent: Math.max(1, Number(e.target.value) || 1),
+                          })
+                        }
+                        className="w-14 px-1.5 py-1 text-[10px] text-center border border-slate-200 rounded-md outline-none"
+                      />
+                      <span className="text-[10px] text-slate-400">%</span>
+                      <select
+                        value={stepDraft.notify}
+                        onChange={(e) =>
+                          setStepDraft({
+                            ...stepDraft,
+                            notify: e.target.value as EscalationRecipient,
+                          })
+                        }
+                        className="px-1.5 py-1 text-[10px] border border-slate-200 rounded-md outline-none"
+                      >
+                        {(
+                          Object.keys(
+                            ESCALATION_RECIPIENT_LABELS
+                          ) as EscalationRecipient[]
+                        ).map((recipient) => (
+                          <option key={recipient} value={recipient}>
+                            {ESCALATION_RECIPIENT_LABELS[recipient]}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() =>
+                          setTarget(priority, {
+                            escalations: [
+                              ...(target.escalations || []),
+                              { id: Date.now().toString(), ...stepDraft },
+                            ],
+                          })
+                        }
+                        className="p-1 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors"
+                        title="Add escalation step"
+                      >
+                        <Plus size={12} />
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => setTarget(priority, {})}
+                    className="text-xs font-bold text-indigo-600 hover:underline"
+                  >
+                    No SLA · Add target
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide mb-4 flex items-center gap-2">
+          <div className="w-1 h-4 bg-indigo-500 rounded-full"></div>
+          Business Hours
+        </h3>
+        <div className="space-y-3">
+          <div className="p-2.5 bg-slate-50 rounded-lg">
+            <span className="block text-xs font-semibold text-slate-500 mb-2">
+              Default (all stores)
+            </span>
+            {renderHours(sla.businessHours, (businessHours) =>
+              onChange({ ...sla, businessHours })
+            )}
+          </div>
+          {stores.map((store) => (
+            <div key={store.id} className="p-2.5 bg-slate-50 rounded-lg">
+              <label className="flex items-center gap-2 text-xs font-semibold text-slate-500 mb-2">
+                <input
+                  type="checkbox"
+                  checked={!!store.hours}
+                  onChange={(e) =>
+                    onChangeStores(
+                      stores.map((s) =>
+                        s.id === store.id
+                          ? {
+                              ...s,
+                              hours: e.target.checked
+                                ? { ...sla.businessHours }
+                                : undefined,
+                            }
+                          : s
+                      )
+                    )
+                  }
+                />
+                {store.name}: {store.hours ? "own hours" : "uses default"}
+              </label>
+              {store.hours &&
+                renderHours(store.hours, (hours) =>
+                  onChangeStores(
+                    stores.map((s) => (s.id === store.id ? { ...s, hours } : s))
+                  )
+                )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide mb-1 flex items-center gap-2">
+          <div className="w-1 h-4 bg-indigo-500 rounded-full"></div>
+          Holidays
+        </h3>
+        <p className="text-xs text-slate-500 mb-4">
+          SLA clocks do not run on these days.
+        </p>
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <input
+            type="date"
+            value={holidayDate}
+            onChange={(e) => setHolidayDate(e.target.value)}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={holidayName}
+            onChange={(e) => setHolidayName(e.target.value)}
+            placeholder="e.g. Diwali"
+            className={`${inputClass} flex-1 min-w-[120px]`}
+          />
+          <select
+            value={holidayStore}
+            onChange={(e) => setHolidayStore(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">All stores</option>
+            {stores.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={addHoliday}
+            disabled={!holidayDate || !holidayName.trim()}
+            className="px-3 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
+          >
+            <Plus size={18} />
+          </button>
+        </div>
+        <div className="space-y-2">
+          {sla.holidays.map((holiday) => (
+            <div
+              key={holiday.id}
+              className="flex items-center gap-3 p-2.5 bg-slate-50 rounded-lg text-sm"
+            >
+              <span className="font-mono text-xs text-slate-500">
+                {holiday.date}
+              </span>
+              <span className="flex-1 font-medium text-slate-700">
+                {holiday.name}
+              </span>
+              <span className="text-xs text-slate-400">
+                {stores.find((s) => s.id === holiday.storeId)?.name ||
+                  "All stores"}
+              </span>
+              <button
+                onClick={() =>
+                  onChange({
+                    ...sla,
+                    holidays: sla.holidays.filter((h) => h.id !== holiday.id),
+                  })
+                }
+                className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+          {sla.holidays.length === 0 && (
+            <p className="text-slate-400 text-xs text-center py-4 italic">
+              No holidays added.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide mb-1 flex items-center gap-2">
+          <div className="w-1 h-4 bg-indigo-500 rounded-full"></div>
+          Pause While On Hold
+        </h3>
+        <p className="text-xs text-slate-500 mb-4">
+          The resolution clock stops while a ticket is held for one of these
+          reasons (e.g. waiting on the customer).
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {holdReasons.map((reason) => (
+            <button
+              key={reason}
+              type="button"
+              onClick={() =>
+                onChange({
+                  ...sla,
+                  pauseHoldReasons: toggle(sla.pauseHoldReasons, reason),
+                })
+              }
+              className={chipClass(sla.pauseHoldReasons.includes(reason))}
+            >
+              {reason}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 6. Quotation Settings
+interface QuotationSettingsEditorProps {
+  config: QuotationConfig;
+  statuses: string[];
+  holdReasons: string[];
+  onChange: (config: QuotationConfig) => void;
+}
+
+const QuotationSettingsEditor: React.FC<QuotationSettingsEditorProps> = ({
+  config,
+  statuses,
+  holdReasons,
+  onChange,
+}) => {
+  const inputClass =
+    "w-full px-3 py-2 text-sm border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+
+  const renderSelect = (
+    label: string,
+    value: string,
+    options: string[],
+    update: (value: string) => void
+  ) => (
+    <label className="block">
+      <span className="block text-xs font-semibold text-slate-500 mb-1.5">
+        {label}
+      </span>
+      <select
+        value={value}
+        onChange={(e) => update(e.target.value)}
+        className={inputClass}
+      >
+        {!options.includes(value) && <option value={value}>{value}</option>}
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide mb-4 flex items-center gap-2">
+          <div className="w-1 h-4 bg-indigo-500 rounded-full"></div>
+          Defaults For New Quotes
+        </h3>
+        <div className="grid gap-4 md:grid-cols-2">
+          <label className="block">
+            <span className="block text-xs font-semibold text-slate-500 mb-1.5">
+              Valid for (days)
+            </span>
+            <input
+              type="number"
+              min="1"
+              value={config.validityDays}
+              onChange={(e) =>
+                onChange({
+                  ...config,
+                  validityDays: Math.max(1, Number(e.target.value) || 1),
+                })
+              }
+              className={inputClass}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs font-semibold text-slate-500 mb-1.5">
+              Tax rate (%)
+            </span>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={config.defaultTaxRate}
+              onChange={(e) =>
+                onChange({
+                  ...config,
+                  defaultTaxRate: Math.max(0, Number(e.target.value) || 0),
+                })
+              }
+              className={inputClass}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide mb-1 flex items-center gap-2">
+          <div className="w-1 h-4 bg-indigo-500 rounded-full"></div>
+          Ticket Status
+        </h3>
+        <p className="text-xs text-slate-500 mb-4">
+          Where a ticket moves when a quote is sent and when the customer
+          answers it in the portal.
+        </p>
+        <div className="grid gap-4 md:grid-cols-2">
+          {renderSelect("When sent", config.sentStatus, statuses, (value) =>
+            onChange({ ...config, sentStatus: value })
+          )}
+          {renderSelect(
+            "Hold reason while waiting",
+            config.sentHoldReason,
+            holdReasons,
+            (value) => onChange({ ...config, sentHoldReason: value })
+          )}
+          {renderSelect(
+            "When approved",
+            config.approvedStatus,
+            statuses,
+            (value) => onChange({ ...config, approvedStatus: value })
+          )}
+          {renderSelect(
+            "When declined",
+            config.declinedStatus,
+            statuses,
+            (value) => onChange({ ...config, declinedStatus: value })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 7. Intake Checklists
+interface IntakeChecklistEditorProps {
+  deviceTypes: DeviceType[];
+  onChange: (deviceTypes: DeviceType[]) => void;
+}
+
+const IntakeChecklistEditor: React.FC<IntakeChecklistEditorProps> = ({
+  deviceTypes,
+  onChange,
+}) => {
+  const [typeId, setTypeId] = useState(deviceTypes[0]?.id || "");
+  const [label, setLabel] = useState("");
+  const [section, setSection] = useState<IntakeSection>("Accessories");
+
+  const deviceType = deviceTypes.find((d) => d.id === typeId);
+  const items = deviceType?.intakeChecklist ?? DEFAULT_INTAKE_CHECKLIST;
+
+  const save = (checklist: IntakeCheckItem[] | undefined) =>
+    onChange(
+      deviceTypes.map((d) =>
+        d.id === typeId ? { ...d, intakeChecklist: checklist } : d
+      )
+    );
+
+  const handleAdd = () => {
+    if (!label.trim()) return;
+    save([
+      ...items,
+      { id: Date.now().toString(), label: label.trim(), section },
+    ]);
+    setLabel("");
+  };
+
+  const inputClass =
+    "px-3 py-2 text-sm border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm md:col-span-2">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide flex items-center gap-2">
+          <ClipboardCheck size={16} className="text-indigo-500" />
+          Intake Checklist
+        </h3>
+        <select
+          value={typeId}
+          onChange={(e) => setTypeId(e.target.value)}
+          className={inputClass}
+        >
+          {deviceTypes.map((d) => (
+            <option key={d.id} value={d.id}>
+              {d.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        What staff check off when a device is handed in.{" "}
+        {deviceType?.intakeChecklist
+          ? "This device type has its own checklist."
+          : "This device type uses the default checklist."}
+      </p>
+
+      <div className="grid gap-4 md:grid-cols-3 mb-4">
+        {INTAKE_SECTIONS.map((s) => (
+          <div key={s}>
+            <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">
+              {s}
+            </h4>
+            <div className="space-y-1">
+              {items
+                .filter((item) => item.section === s)
+                .map((item) => (
+                  <div
+                    key={item.id}
+                    className="flex justify-between items-center px-2 py-1.5 bg-slate-50 rounded-lg text-sm text-slate-700"
+                  >
+                    {item.label}
+                    <button
+                      onClick={() =>
+                        save(items.filter((i) => i.id !== item.id))
+                      }
+                      className="text-slate-400 hover:text-red-600"
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+          placeholder="e.g. Stylus"
+          className={`${inputClass} flex-1`}
+        />
+        <select
+          value={section}
+          onChange={(e) => setSection(e.target.value as IntakeSection)}
+          className={inputClass}
+        >
+          {INTAKE_SECTIONS.map((s) => (
+            <option key={s} value={s}>
+              {s}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleAdd}
+          className="px-4 py-2 text-sm font-semibold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-1"
+        >
+          <Plus size={14} /> Add
+        </button>
+        {deviceType?.intakeChecklist && (
+          <button
+            onClick={() => save(undefined)}
+            className="px-4 py-2 text-sm font-semibold text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-50 flex items-center gap-1"
+          >
+            <RotateCcw size={14} /> Use Default
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// 8. Warranty Settings
+interface WarrantySettingsEditorProps {
+  config: WarrantyConfig;
+  brands: Brand[];
+  parts: Part[];
+  onChange: (config: WarrantyConfig) => void;
+}
+
+const EMPTY_RULE: Omit<WarrantyRule, "id"> = {
+  brandId: "",
+  partId: "",
+  label: "",
+  months: 12,
+  covers: "",
+  excludes: "",
+  billRequired: true,
+};
+
+const WarrantySettingsEditor: React.FC<WarrantySettingsEditorProps> = ({
+  config,
+  brands,
+  parts,
+  onChange,
+}) => {
+  const [draft, setDraft] = useState(EMPTY_RULE);
+
+  const brandParts = parts.filter(
+    (p) => !p.brandId || p.brandId === draft.brandId
+  );
+
+  const handleAdd = () => {
+    if (!draft.brandId || !draft.label.trim() || draft.months <= 0) return;
+    onChange({
+      ...config,
+      rules: [
+        ...config.rules,
+        {
+          id: Date.now().toString(),
+          brandId: draft.brandId,
+          partId: draft.partId || undefined,
+          label: draft.label.trim(),
+          months: draft.months,
+          covers: draft.covers?.trim() || undefined,
+          excludes: draft.excludes?.trim() || undefined,
+          billRequired: draft.billRequired,
+        },
+      ],
+    });
+    setDraft({ ...EMPTY_RULE, brandId: draft.brandId });
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 text-sm border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+  const labelClass = "block text-xs font-semibold text-slate-500 mb-1.5";
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide mb-1 flex items-center gap-2">
+          <div className="w-1 h-4 bg-indigo-500 rounded-full"></div>
+          Repair Warranty
+        </h3>
+        <p className="text-xs text-slate-500 mb-4">
+          Issued automatically when a ticket is resolved. Set 0 days to issue
+          none.
+        </p>
+        <div className="grid gap-4 md:grid-cols-3">
+          <label className="block">
+            <span className={labelClass}>Valid for (days)</span>
+            <input
+              type="number"
+              min="0"
+              value={config.repairDays}
+              onChange={(e) =>
+                onChange({
+                  ...config,
+                  repairDays: Math.max(0, Number(e.target.value) || 0),
+                })
+              }
+              className={inputClass}
+            />
+          </label>
+          <label className="block md:col-span-2">
+            <span className={labelClass}>Terms</span>
+            <textarea
+              rows={2}
+              value={config.repairTerms}
+              onChange={(e) =>
+                onChange({ ...config, repairTerms: e.target.value })
+              }
+              className={`${inputClass} resize-none`}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide mb-1 flex items-center gap-2">
+          <BadgeCheck size={16} className="text-indigo-500" />
+          Brand Coverage Rules
+        </h3>
+        <p className="text-xs text-slate-500 mb-4">
+          How long each brand covers its devices, or a single part, from the
+          purchase date.
+        </p>
+
+        <div className="space-y-1 mb-4">
+          {config.rules.length === 0 && (
+            <p className="text-sm text-slate-400">No rules yet.</p>
+          )}
+          {config.rules.map((rule) => (
+            <div
+              key={rule.id}
+              className="flex justify-between items-center px-3 py-2 bg-slate-50 rounded-lg text-sm text-slate-700"
+            >
+              <span>
+                <span className="font-bold">
+                  {brands.find((b) => b.id === rule.brandId)?.name ??
+                    "Unknown brand"}
+                </span>{" "}
+                · {rule.label}
+                {rule.partId &&
+                  ` (${
+                    parts.find((p) => p.id === rule.partId)?.name ?? "part"
+                  })`}{" "}
+                · {rule.months} months
+                {rule.billRequired && " · bill required"}
+                {rule.covers && (
+                  <span className="text-xs text-slate-500">
+                    {" "}
+                    · covers {rule.covers}
+                  </span>
+                )}
+                {rule.excludes && (
+                  <span className="text-xs text-slate-500">
+                    {" "}
+                    · excludes {rule.excludes}
+                  </span>
+                )}
+              </span>
+              <button
+                onClick={() =>
+                  onChange({
+                    ...config,
+                    rules: config.rules.filter((r) => r.id !== rule.id),
+                  })
+                }
+                className="text-slate-400 hover:text-red-600"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-4 items-end">
+          <label className="block">
+            <span className={labelClass}>Brand</span>
+            <select
+              value={draft.brandId}
+              onChange={(e) =>
+                setDraft({ ...draft, brandId: e.target.value, partId: "" })
+              }
+              className={inputClass}
+            >
+              <option value="">Select...</option>
+              {brands.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {b.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className={labelClass}>Part</span>
+            <select
+              value={draft.partId}
+              onChange={(e) => setDraft({ ...draft, partId: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Whole device</option>
+              {brandParts.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className={labelClass}>Label</span>
+            <input
+              value={draft.label}
+              onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+              placeholder="e.g. Battery"
+              className={inputClass}
+            />
+          </label>
+          <label className="block">
+            <span className={labelClass}>Months</span>
+            <input
+              type="number"
+              min="1"
+              value={draft.months}
+              onChange={(e) =>
+                setDraft({ ...draft, months: Number(e.target.value) || 0 })
+              }
+              className={inputClass}
+            />
+          </label>
+          <label className="block md:col-span-2">
+            <span className={labelClass}>Covers</span>
+            <input
+              value={draft.covers}
+              onChange={(e) => setDraft({ ...draft, covers: e.target.value })}
+              placeholder="e.g. Bulging, not charging"
+              className={inputClass}
+            />
+          </label>
+          <label className="block">
+            <span className={labelClass}>Excludes</span>
+            <input
+              value={draft.excludes}
+              onChange={(e) =>
+                setDraft({ ...draft, excludes: e.target.value })
+              }
+              placeholder="e.g. Water damage"
+              className={inputClass}
+            />
+          </label>
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-xs font-semibold text-slate-600">
+              <input
+                type="checkbox"
+                checked={draft.billRequired}
+                onChange={(e) =>
+                  setDraft({ ...draft, billRequired: e.target.checked })
+                }
+              />
+              Bill required
+            </label>
+            <button
+              onClick={handleAdd}
+              className="px-4 py-2 text-sm font-semibold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-1"
+            >
+              <Plus size={14} /> Add
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 9. Brand Service Terms
+interface BrandServiceEditorProps {
+  brands: Brand[];
+  onChange: (brands: Brand[]) => void;
+}
+
+const BrandServiceEditor: React.FC<BrandServiceEditorProps> = ({
+  brands,
+  onChange,
+}) => {
+  const [brandId, setBrandId] = useState(brands[0]?.id || "");
+  const [category, setCategory] = useState("");
+  const [amount, setAmount] = useState("");
+
+  const brand = brands.find((b) => b.id === brandId);
+  const rates = brand?.payoutRates ?? [];
+
+  const save = (patch: Partial<Brand>) =>
+    onChange(brands.map((b) => (b.id === brandId ? { ...b, ...patch } : b)));
+
+  const handleAdd = () => {
+    const rate = Number(amount);
+    if (!category.trim() || !(rate >= 0) || amount === "") return;
+    if (rates.some((r) => r.category === category.trim())) return;
+    save({
+      payoutRates: [
+        ...rates,
+        { id: Date.now().toString(), category: category.trim(), amount: rate },
+      ],
+    });
+    setCategory("");
+    setAmount("");
+  };
+
+  const inputClass =
+    "px-3 py-2 text-sm border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm md:col-span-2">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide flex items-center gap-2">
+          <Briefcase size={16} className="text-indigo-500" />
+          Authorised Service Terms
+        </h3>
+        <select
+          value={brandId}
+          onChange={(e) => setBrandId(e.target.value)}
+          className={inputClass}
+        >
+          {brands.map((b) => (
+            <option key={b.id} value={b.id}>
+              {b.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        The brand's turnaround target and what it pays per repair category,
+        used on Brand Service tickets and in payout reconciliation.
+      </p>
+
+      {brand && (
+        <>
+          <div className="flex flex-wrap items-center gap-4 mb-4">
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              SLA
               <input
-                value={formData.name}
+                type="number"
+                min="0"
+                value={brand.slaDays ?? ""}
                 onChange={(e) =>
-                  setFormData({ ...formData, name: e.target.value })
+                  save({
+                    slaDays:
+                      Number(e.target.value) > 0
+                        ? Number(e.target.value)
+                        : undefined,
+                  })
                 }
-                className="w-full px-3 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none text-sm"
+                className={`${inputClass} w-20`}
               />
-            </div>
-            <div>
-              <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">
-                Role
-              </label>
-              <select
-                value={formData.role}
-                onChange={(e) =>
-                  setFormData({ ...formData, role: e.target.value as Role })
-                }
-                className="w-full px-3 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none bg-white text-sm"
+              days
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={!!brand.jobNumberRequired}
+                onChange={(e) => save({ jobNumberRequired: e.target.checked })}
+              />
+              Job number required to resolve
+            </label>
+          </div>
+
+          <div className="space-y-1 mb-4">
+            {rates.length === 0 && (
+              <p className="text-sm text-slate-400">No payout rates yet.</p>
+            )}
+            {rates.map((rate) => (
+              <div
+                key={rate.id}
+                className="flex justify-between items-center px-3 py-2 bg-slate-50 rounded-lg text-sm text-slate-700"
               >
-                <option value="ADMIN">Admin</option>
-                <option value="MANAGER">Manager</option>
-                <option value="TECHNICIAN">Technician</option>
-              </select>
-            </div>
+                {rate.category}
+                <span className="flex items-center gap-3">
+                  <span className="font-mono">
+                    {formatQuoteAmount(rate.amount)}
+                  </span>
+                  <button
+                    onClick={() =>
+                      save({
+                        payoutRates: rates.filter((r) => r.id !== rate.id),
+                      })
+                    }
+                    className="text-slate-400 hover:text-red-600"
+                  >
+                    <X size={14} />
+                  </button>
+                </span>
+              </div>
+            ))}
           </div>
 
-          <div>
-            <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">
-              Email
-            </label>
+          <div className="flex flex-wrap gap-2">
             <input
-              type="email"
-              value={formData.email}
-              onChange={(e) =>
-                setFormData({ ...formData, email: e.target.value })
-              }
-              className="w-full px-3 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none text-sm"
+              type="text"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="e.g. Display replacement"
+              className={`${inputClass} flex-1`}
             />
-          </div>
-          <div>
-            <label className="block text-xs font-semibold text-slate-500 mb-1">
-              Password
-            </label>
             <input
-              type="password"
-              value={formData.password || ""}
-              onChange={(e) =>
-                setFormData({ ...formData, password: e.target.value })
-              }
-              placeholder="Temporary password"
-              className="w-full px-3 py-2 border rounded-lg"
+              type="number"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+              placeholder="Payout"
+              className={`${inputClass} w-32`}
             />
+            <button
+              onClick={handleAdd}
+              className="px-4 py-2 text-sm font-semibold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-1"
+            >
+              <Plus size={14} /> Add
+            </button>
           </div>
+        </>
+      )}
+    </div>
+  );
+};
 
-          <div>
-            <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">
-              Experience / Bio
+// 10. Notification Templates
+interface NotificationTemplateEditorProps {
+  config: NotificationConfig;
+  statuses: string[];
+  onChange: (config: NotificationConfig) => void;
+}
+
+const NotificationTemplateEditor: React.FC<NotificationTemplateEditorProps> = ({
+  config,
+  statuses,
+  onChange,
+}) => {
+  const [newStatus, setNewStatus] = useState("");
+
+  const save = (id: string, patch: Partial<MessageTemplate>) =>
+    onChange({
+      ...config,
+      templates: config.templates.map((t) =>
+        t.id === id ? { ...t, ...patch } : t
+      ),
+    });
+
+  const toggleChannel = (
+    template: MessageTemplate,
+    channel: NotificationChannel
+  ) =>
+    save(template.id, {
+      channels: template.channels.includes(channel)
+        ? template.channels.filter((c) => c !== channel)
+        : [...template.channels, channel],
+    });
+
+  const handleAdd = () => {
+    if (!newStatus) return;
+    onChange({
+      ...config,
+      templates: [
+        ...config.templates,
+        {
+          id: Date.now().toString(),
+          status: newStatus,
+          channels: ["sms"],
+          body: "Hi {customerName}, your {device} (ticket {ticketId}) is now {status}.",
+          enabled: true,
+        },
+      ],
+    });
+    setNewStatus("");
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 text-sm border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide mb-1 flex items-center gap-2">
+          <div className="w-1 h-4 bg-indigo-500 rounded-full"></div>
+          Status Messages
+        </h3>
+        <p className="text-xs text-slate-500 mb-2">
+          Sent to the customer when a ticket moves to the status. Customers
+          who opted out are skipped. Sending through the{" "}
+          <span className="font-mono">{activeProviderName}</span> provider.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(TEMPLATE_PLACEHOLDERS).map(([key, label]) => (
+            <span
+              key={key}
+              title={label}
+              className="text-[11px] font-mono px-2 py-0.5 bg-slate-100 text-slate-600 rounded"
+            >
+              {`{${key}}`}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {config.templates.map((template) => (
+        <div
+          key={template.id}
+          className={`bg-white p-5 rounded-xl border border-slate-200 shadow-sm space-y-3 ${
+            template.enabled ? "" : "opacity-60"
+          }`}
+        >
+          <div className="flex flex-wrap items-center gap-4">
+            <select
+              value={template.status}
+              onChange={(e) => save(template.id, { status: e.target.value })}
+              className={`${inputClass} w-48`}
+            >
+              {!statuses.includes(template.status) && (
+                <option value={template.status}>{template.status}</option>
+              )}
+              {statuses.map((status) => (
+                <option key={status} value={status}>
+                  {status}
+                </option>
+              ))}
+            </select>
+            {NOTIFICATION_CHANNELS.map((channel) => (
+              <label
+                key={channel}
+                className="flex items-center gap-2 text-sm text-slate-700"
+              >
+                <input
+                  type="checkbox"
+                  checked={template.channels.includes(channel)}
+                  onChange={() => toggleChannel(template, channel)}
+                />
+                {CHANNEL_LABELS[channel]}
+              </label>
+            ))}
+            <label className="flex items-center gap-2 text-sm text-slate-700 ml-auto">
+              <input
+                type="checkbox"
+                checked={template.enabled}
+                onChange={(e) =>
+                  save(template.id, { enabled: e.target.checked })
+                }
+              />
+              Enabled
             </label>
-            <textarea
-              value={formData.experience}
+            <button
+              onClick={() =>
+                onChange({
+                  ...config,
+                  templates: config.templates.filter(
+                    (t) => t.id !== template.id
+                  ),
+                })
+              }
+              className="text-slate-400 hover:text-red-600"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+          {template.channels.includes("email") && (
+            <input
+              type="text"
+              value={template.subject ?? ""}
               onChange={(e) =>
-                setFormData({ ...formData, experience: e.target.value })
+                save(template.id, { subject: e.target.value || undefined })
               }
-              className="w-full px-3 py-2.5 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none text-sm resize-none"
-              rows={3}
+              placeholder="Email subject"
+              className={inputClass}
             />
-          </div>
+          )}
+          <textarea
+            rows={3}
+            value={template.body}
+            onChange={(e) => save(template.id, { body: e.target.value })}
+            className={`${inputClass} resize-none`}
+          />
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <select
+          value={newStatus}
+          onChange={(e) => setNewStatus(e.target.value)}
+          className={`${inputClass} flex-1`}
+        >
+          <option value="">Add a message for status...</option>
+          {statuses.map((status) => (
+            <option key={status} value={status}>
+              {status}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={!newStatus}
+          className="px-4 py-2 text-sm font-semibold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-1"
+        >
+          <Plus size={14} /> Add
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// 11. Roles & Permissions
+interface RolePermissionsEditorProps {
+  config: PermissionConfig;
+  teamMembers: User[];
+  onChange: (config: PermissionConfig) => void;
+}
+
+type OverrideState = "role" | "grant" | "revoke";
+
+const ALL_CAPABILITY_ITEMS = CAPABILITY_GROUPS.flatMap((g) => g.capabilities);
+
+const RolePermissionsEditor: React.FC<RolePermissionsEditorProps> = ({
+  config,
+  teamMembers,
+  onChange,
+}) => {
+  const [newRoleName, setNewRoleName] = useState("");
+  const [overrideUserId, setOverrideUserId] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const roles = getStaffRoles(config);
+  const overrideMembers = teamMembers.filter(
+    (m) => m.role !== ADMIN_ROLE && isStaffRole(m.role, config)
+  );
+  const overrideUser = overrideMembers.find((m) => m.id === overrideUserId);
+
+  // Built-in roles are only written to the config once they are changed
+  const saveRole = (role: RoleDefinition) =>
+    onChange({
+      ...config,
+      roles: config.roles.some((r) => r.id === role.id)
+        ? config.roles.map((r) => (r.id === role.id ? role : r))
+        : [...config.roles, role],
+    });
+
+  const toggleCapability = (role: RoleDefinition, capability: Capability) =>
+    saveRole({
+      ...role,
+      capabilities: role.capabilities.includes(capability)
+        ? role.capabilities.filter((c) => c !== capability)
+        : [...role.capabilities, capability],
+    });
+
+  const handleAddRole = () => {
+    const id = toRoleId(newRoleName);
+    if (!id) {
+      setError("Enter a role name");
+      return;
+    }
+    if (id === CUSTOMER_ROLE || roles.some((r) => r.id === id)) {
+      setError("A role with this name already exists");
+      return;
+    }
+    saveRole({ id, name: newRoleName.trim(), capabilities: [] });
+    setNewRoleName("");
+    setError(null);
+  };
+
+  const handleRemoveRole = (role: RoleDefinition) => {
+    const members = teamMembers.filter((m) => m.role === role.id);
+    if (members.length > 0) {
+      alert(
+        `Cannot remove "${role.name}": ${members.length} team member(s) still have this role.`
+      );
+      return;
+    }
+    onChange({
+      ...config,
+      roles: config.roles.filter((r) => r.id !== role.id),
+    });
+  };
 
+  const getOverrideState = (
+    userId: string,
+    capability: Capability
+  ): OverrideState => {
+    const override = getOverride(userId, config);
+    if (override?.granted.includes(capability)) return "grant";
+    if (override?.revoked.includes(capability)) return "revoke";
+    return "role";
+  };
+
+  const setOverrideState = (
+    userId: string,
+    capability: Capability,
+    state: OverrideState
+  ) => {
+    const current = getOverride(userId, config) || {
+      userId,
+      granted: [],
+      revoked: [],
+    };
+    const next: PermissionOverride = {
+      userId,
+      granted: current.granted.filter((c) => c !== capability),
+      revoked: current.revoked.filter((c) => c !== capability),
+    };
+    if (state === "grant") next.granted.push(capability);
+    if (state === "revoke") next.revoked.push(capability);
+
+    const others = config.overrides.filter((o) => o.userId !== userId);
+    onChange({
+      ...config,
+      overrides:
+        next.granted.length || next.revoked.length
+          ? [...others, next]
+          : others,
+    });
+  };
+
+  const inputClass =
+    "px-3 py-2 text-sm border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide mb-1 flex items-center gap-2">
+          <div className="w-1 h-4 bg-indigo-500 rounded-full"></div>
+          Role Permissions
+        </h3>
+        <p className="text-xs text-slate-500 mb-4">
+          What each role may do. Menus and buttons a role cannot use are
+          hidden. Admins always have every permission.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-100">
+                <th className="text-left py-2 pr-4 font-semibold text-slate-500">
+                  Permission
+                </th>
+                {roles.map((role) => (
+                  <th
+                    key={role.id}
+                    className="px-3 py-2 text-center font-semibold text-slate-700 whitespace-nowrap"
+                  >
+                    <span className="inline-flex items-center gap-1">
+                      {role.name}
+                      {!DEFAULT_PERMISSION_CONFIG.roles.some(
+                        (r) => r.id === role.id
+                      ) && (
+                        <button
+                          onClick={() => handleRemoveRole(role)}
+                          className="text-slate-400 hover:text-red-600"
+                          title="Remove role"
+                        >
+                          <Trash2 size={12} />
+                        </button>
+                      )}
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            {CAPABILITY_GROUPS.map((group) => (
+              <tbody key={group.label}>
+                <tr>
+                  <td
+                    colSpan={roles.length + 1}
+                    className="pt-4 pb-1 text-[10px] font-bold text-slate-400 uppercase tracking-widest"
+                  >
+                    {group.label}
+                  </td>
+                </tr>
+                {group.capabilities.map((capability) => (
+                  <tr
+                    key={capability.id}
+                    className="border-b border-slate-50 hover:bg-slate-50/50"
+                  >
+                    <td className="py-1.5 pr-4 text-slate-700">
+                      {capability.label}
+                      <span className="ml-2 text-[10px] font-mono text-slate-400">
+                        {capability.id}
+                      </span>
+                    </td>
+                    {roles.map((role) => (
+                      <td key={role.id} className="px-3 py-1.5 text-center">
+                        <input
+                          type="checkbox"
+                          checked={
+                            role.id === ADMIN_ROLE ||
+                            role.capabilities.includes(capability.id)
+                          }
+                          disabled={role.id === ADMIN_ROLE}
+                          onChange={() => toggleCapability(role, capability.id)}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            ))}
+          </table>
+        </div>
+        {error && (
+          <p className="text-xs text-red-600 font-medium mt-4">{error}</p>
+        )}
+        <div className="flex gap-2 mt-4">
+          <input
+            value={newRoleName}
+            onChange={(e) => setNewRoleName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleAddRole()}
+            placeholder="New role, e.g. Front Desk"
+            className={`${inputClass} flex-1`}
+          />
           <button
-            onClick={() => {
-              if (formData.name && formData.email) onSave(formData as User);
-            }}
-            disabled={isCompressing}
-            className="w-full py-3 bg-indigo-600 text-white rounded-xl font-semibold hover:bg-indigo-700 mt-2 shadow-lg shadow-indigo-200 transition-all active:scale-[0.98] disabled:opacity-70 disabled:cursor-not-allowed"
+            onClick={handleAddRole}
+            className="px-4 py-2 text-sm font-semibold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-1"
           >
-            {isCompressing ? "Processing Image..." : "Save Member"}
+            <Plus size={14} /> Add Role
           </button>
         </div>
       </div>
+
+      <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide mb-1 flex items-center gap-2">
+          <div className="w-1 h-4 bg-indigo-500 rounded-full"></div>
+          Individual Overrides
+        </h3>
+        <p className="text-xs text-slate-500 mb-4">
+          Grant or revoke single permissions for one team member on top of
+          their role.
+        </p>
+        <select
+          value={overrideUserId}
+          onChange={(e) => setOverrideUserId(e.target.value)}
+          className={`${inputClass} w-full md:w-80`}
+        >
+          <option value="">Select a team member...</option>
+          {overrideMembers.map((member) => {
+            const override = getOverride(member.id, config);
+            return (
+              <option key={member.id} value={member.id}>
+                {member.name} ({getRoleName(member.role, config)})
+                {override
+                  ? ` · +${override.granted.length} / −${override.revoked.length}`
+                  : ""}
+              </option>
+            );
+          })}
+        </select>
+
+        {overrideUser && (
+          <div className="mt-4 grid gap-x-6 gap-y-2 md:grid-cols-2">
+            {ALL_CAPABILITY_ITEMS.map((capability) => {
+              const state = getOverrideState(overrideUser.id, capability.id);
+              const fromRole = !!getRoleDefinition(
+                overrideUser.role,
+                config
+              )?.capabilities.includes(capability.id);
+              return (
+                <div
+                  key={capability.id}
+                  className="flex items-center justify-between gap-3 text-sm"
+                >
+                  <span
+                    className={
+                      state === "role"
+                        ? "text-slate-700"
+                        : "text-indigo-700 font-semibold"
+                    }
+                  >
+                    {capability.label}
+                  </span>
+                  <select
+                    value={state}
+                    onChange={(e) =>
+                      setOverrideState(
+                        overrideUser.id,
+                        capability.id,
+                        e.target.value as OverrideState
+                      )
+                    }
+                    className={`${inputClass} py-1 text-xs`}
+                  >
+                    <option value="role">
+                      Role default ({fromRole ? "yes" : "no"})
+                    </option>
+                    <option value="grant">Grant</option>
+                    <option value="revoke">Revoke</option>
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
     </div>
   );
 };
@@ -465,11 +2429,13 @@ export default function Settings({
   currentUser,
   tickets,
   onUpdateTickets,
+  parts = [],
   settings,
   onUpdateSettings,
 }: SettingsProps) {
   // --- STATE ---
-  const [activeSection, setActiveSection] = useState<string>("team");
+  const [selectedSection, setSelectedSection] = useState<string>("team");
+  const permissions = getPermissionConfig(settings);
 
   // Modal States
   const [isTeamModalOpen, setIsTeamModalOpen] = useState(false);
@@ -479,20 +2445,15 @@ export default function Settings({
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
   React.useEffect(() => {
     const fetchUsers = async () => {
-      const { data, error } = await supabase
-        .from("users")
-        .select("*")
-        .order("created_at", { ascending: true });
-
-      if (error) {
+      try {
+        const data = await repository.users.list();
+        onUpdateSettings({
+          ...settings,
+          teamMembers: data,
+        });
+      } catch (error) {
         console.error("Failed to fetch users", error);
-        return;
       }
-
-      onUpdateSettings({
-        ...settings,
-        teamMembers: data as User[],
-      });
     };
 
     fetchUsers();
@@ -523,8 +2484,50 @@ export default function Settings({
           [listKey]: list.map((item) =>
             item.id === id ? { ...item, name: newName } : item
           ),
+          // Keep workflow rules pointing at a renamed status
+          ...(listKey === "ticketStatuses" && oldItem
+            ? {
+                workflow: renameWorkflowStatus(
+                  settings.workflow || DEFAULT_WORKFLOW,
+                  oldItem.name,
+                  newName
+                ),
+                quotation: renameQuoteStatus(
+                  settings.quotation,
+                  oldItem.name,
+                  newName
+                ),
+              }
+            : {}),
+          // ...and SLA / quotation rules at a renamed priority or reason
+          ...(listKey === "priorities" && oldItem
+            ? { sla: renameSLAPriority(settings.sla, oldItem.name, newName) }
+            : {}),
+          ...(listKey === "holdReasons" && oldItem
+            ? {
+                sla: renameSLAHoldReason(settings.sla, oldItem.name, newName),
+                quotation: renameQuoteHoldReason(
+                  settings.quotation,
+                  oldItem.name,
+                  newName
+                ),
+              }
+            : {}),
         });
 
+        // ...and staff assigned to a renamed store
+        if (oldItem && listKey === "stores") {
+          renameAssignedStore(
+            settings.teamMembers,
+            oldItem.name,
+            newName
+          ).forEach((member) =>
+            repository.users
+              .update(member.id, { stores: member.stores })
+              .catch((err) => console.error("Failed to update staff", err))
+          );
+        }
+
         // Update tickets if a store or critical field is renamed
         if (oldItem && dependencyKey) {
           const updatedTickets = tickets.map((t) =>
@@ -553,17 +2556,13 @@ export default function Settings({
       // UPDATE EXISTING USER
       // =========================
       if (member.id) {
-        const { error } = await supabase
-          .from("users")
-          .update({
-            name: member.name,
-            role: member.role,
-            experience: member.experience || "",
-            photo: member.photo || "",
-          })
-          .eq("id", member.id);
-
-        if (error) throw error;
+        await repository.users.update(member.id, {
+          name: member.name,
+          role: member.role,
+          stores: member.stores || [],
+          experience: member.experience || "",
+          photo: member.photo || "",
+        });
 
         onUpdateSettings({
           ...settings,
@@ -594,18 +2593,16 @@ export default function Settings({
         const userId = authData.user.id;
 
         // 2️⃣ Insert profile
-        const { error: dbError } = await supabase.from("users").insert({
+        await repository.users.create({
           id: userId,
           name: member.name,
           email: member.email,
           role: member.role,
+          stores: member.stores || [],
           experience: member.experience || "",
           photo: member.photo || "",
-          created_at: new Date().toISOString(),
         });
 
-        if (dbError) throw dbError;
-
         onUpdateSettings({
           ...settings,
           teamMembers: [...settings.teamMembers, { ...member, id: userId }],
@@ -622,9 +2619,7 @@ export default function Settings({
   const handleDeleteMember = async (id: string) => {
     try {
       // delete profile
-      const { error } = await supabase.from("users").delete().eq("id", id);
-
-      if (error) throw error;
+      await repository.users.remove(id);
 
       // delete auth user
       await supabase.auth.admin.deleteUser(id);
@@ -640,13 +2635,6 @@ export default function Settings({
     }
   };
 
-  const handleSlaUpdate = (key: keyof SLAConfig, value: number) => {
-    onUpdateSettings({
-      ...settings,
-      sla: { ...settings.sla, [key]: value },
-    });
-  };
-
   // Data Export
   const handleExportBackup = () => {
     const backupData = {
@@ -671,38 +2659,122 @@ export default function Settings({
   };
 
   // Navigation Groups
-  const navGroups = [
+  const allNavGroups: {
+    title: string;
+    items: { id: string; label: string; icon: any; capability: Capability }[];
+  }[] = [
     {
       title: "General",
       items: [
-        { id: "team", label: "Team Members", icon: Users },
-        { id: "stores", label: "Store Locations", icon: Store },
+        {
+          id: "team",
+          label: "Team Members",
+          icon: Users,
+          capability: "settings.team.edit",
+        },
+        {
+          id: "permissions",
+          label: "Roles & Permissions",
+          icon: ShieldCheck,
+          capability: "settings.roles.edit",
+        },
+        {
+          id: "stores",
+          label: "Store Locations",
+          icon: Store,
+          capability: "settings.catalog.edit",
+        },
       ],
     },
     {
       title: "Service Configuration",
       items: [
-        { id: "workflow", label: "Workflow", icon: ListOrdered },
-        { id: "devices", label: "Device Types", icon: Smartphone },
-        { id: "brands", label: "Service Brands", icon: Tag },
+        {
+          id: "workflow",
+          label: "Workflow",
+          icon: ListOrdered,
+          capability: "settings.workflow.edit",
+        },
+        {
+          id: "devices",
+          label: "Device Types",
+          icon: Smartphone,
+          capability: "settings.catalog.edit",
+        },
+        {
+          id: "brands",
+          label: "Service Brands",
+          icon: Tag,
+          capability: "settings.catalog.edit",
+        },
       ],
     },
     {
       title: "Modules",
-      items: [{ id: "laptop", label: "Laptop Reports", icon: Laptop }],
+      items: [
+        {
+          id: "laptop",
+          label: "Laptop Reports",
+          icon: Laptop,
+          capability: "settings.catalog.edit",
+        },
+      ],
     },
     {
       title: "Rules & Data",
       items: [
-        { id: "sla", label: "SLA Config", icon: Clock },
-        { id: "data", label: "Data & Backup", icon: Database },
+        {
+          id: "sla",
+          label: "SLA Config",
+          icon: Clock,
+          capability: "settings.sla.edit",
+        },
+        {
+          id: "quotations",
+          label: "Quotations",
+          icon: Receipt,
+          capability: "settings.quotations.edit",
+        },
+        {
+          id: "warranty",
+          label: "Warranty",
+          icon: BadgeCheck,
+          capability: "settings.warranty.edit",
+        },
+        {
+          id: "notifications",
+          label: "Notifications",
+          icon: MessageSquare,
+          capability: "settings.notifications.edit",
+        },
+        {
+          id: "data",
+          label: "Data & Backup",
+          icon: Database,
+          capability: "settings.data.manage",
+        },
       ],
     },
   ];
 
+  const navGroups = allNavGroups
+    .map((group) => ({
+      ...group,
+      items: group.items.filter((item) => can(currentUser, item.capability)),
+    }))
+    .filter((group) => group.items.length > 0);
+
+  // The first section this user may open, until they pick another
+  const sectionIds = navGroups.flatMap((g) => g.items.map((i) => i.id));
+  const activeSection = sectionIds.includes(selectedSection)
+    ? selectedSection
+    : sectionIds[0];
+
   // --- RENDER ---
 
-  if (currentUser.role !== "ADMIN") return <AccessDenied />;
+  if (!can(currentUser, "settings.view") || !activeSection) {
+    return <AccessDenied />;
+  }
 
   const activeTitle = navGroups
     .flatMap((g) => g.items)
@@ -720,7 +2792,7 @@ export default function Settings({
               .map((item) => (
                 <button
                   key={item.id}
-                  onClick={() => setActiveSection(item.id)}
+                  onClick={() => setSelectedSection(item.id)}
                   className={`flex items-center gap-2 px-4 py-2.5 rounded-full whitespace-nowrap text-sm font-bold border transition-all ${
                     activeSection === item.id
                       ? "bg-indigo-600 text-white border-indigo-600 shadow-md"
@@ -761,7 +2833,7 @@ export default function Settings({
                   {group.items.map((item) => (
                     <button
                       key={item.id}
-                      onClick={() => setActiveSection(item.id)}
+                      onClick={() => setSelectedSection(item.id)}
                       className={`w-full flex items-center gap-3 px-3 py-2.5 text-sm font-medium rounded-xl transition-all ${
                         activeSection === item.id
                           ? "bg-indigo-50 text-indigo-600 shadow-sm"
@@ -846,15 +2918,20 @@ export default function Settings({
                                 : "bg-slate-100 text-slate-600"
                             }`}
                           >
-                            {member.role}
+                            {getRoleName(member.role, permissions)}
                           </span>
                         </div>
                         <h3 className="font-bold text-slate-800 text-lg">
                           {member.name}
                         </h3>
-                        <p className="text-sm text-slate-500 mb-4">
+                        <p className="text-sm text-slate-500 mb-2">
                           {member.email}
                         </p>
+                        <p className="text-xs text-slate-500 mb-4 flex items-center gap-1.5">
+                          <Store size={12} />
+                          {(getAssignedStores(member)?.join(", ") ??
+                            "All stores") || "No store assigned"}
+                        </p>
                         <div className="flex items-center gap-2 text-xs text-slate-400 mb-5 bg-slate-50 p-2 rounded-lg">
                           <Briefcase size={14} />
                           <span className="truncate">
@@ -908,6 +2985,9 @@ export default function Settings({
                     isOpen={isTeamModalOpen}
                     onClose={() => setIsTeamModalOpen(false)}
                     member={editingMember}
+                    roles={getStaffRoles(permissions)}
+                    stores={settings.stores}
+                    canAssignStores={currentUser.role === ADMIN_ROLE}
                     onSave={handleSaveMember}
                   />
                 </div>
@@ -952,6 +3032,106 @@ export default function Settings({
                     {...createListHandlers("stores", "store")}
                     placeholder="e.g. Downtown Branch"
                   />
+                  <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm h-fit">
+                    <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide mb-1 flex items-center gap-2">
+                      <div className="w-1 h-4 bg-indigo-500 rounded-full"></div>
+                      Ticket ID Codes
+                    </h3>
+                    <p className="text-xs text-slate-500 mb-4">
+                      Each code has its own sequence. Stores without a code
+                      continue the shared TKT-IF numbering.
+                    </p>
+                    <div className="space-y-2">
+                      {settings.stores.map((store) => (
+                        <div
+                          key={store.id}
+                          className="flex items-center gap-3 p-2.5 bg-slate-50 rounded-lg"
+                        >
+                          <span className="flex-1 text-sm font-medium text-slate-700">
+                            {store.name}
+                          </span>
+                          <input
+                            type="text"
+                            maxLength={4}
+                            value={store.ticketCode || ""}
+                            onChange={(e) =>
+                              onUpdateSettings({
+                                ...settings,
+                                stores: settings.stores.map((s) =>
+                                  s.id === store.id
+                                    ? {
+                                        ...s,
+                                        ticketCode: e.target.value
+                                          .replace(/[^a-z0-9]/gi, "")
+                                          .toUpperCase(),
+                                      }
+                                    : s
+                                ),
+                              })
+                            }
+                            placeholder="IF"
+                            className="w-16 px-2 py-1 text-sm text-center font-mono border border-slate-200 rounded focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                          />
+                          <span className="w-24 text-xs font-mono text-slate-400">
+                            {formatTicketId(
+                              getTicketPrefix(store.name, settings.stores),
+                              1
+                            )}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm h-fit">
+                    <h3 className="text-sm font-bold text-slate-800 uppercase tracking-wide mb-1 flex items-center gap-2">
+                      <div className="w-1 h-4 bg-indigo-500 rounded-full"></div>
+                      Invoice Details
+                    </h3>
+                    <p className="text-xs text-slate-500 mb-4">
+                      Invoices are numbered per store code. The GSTIN is
+                      printed on every tax invoice from that store.
+                    </p>
+                    <div className="space-y-2">
+                      {settings.stores.map((store) => (
+                        <div
+                          key={store.id}
+                          className="flex items-center gap-3 p-2.5 bg-slate-50 rounded-lg"
+                        >
+                          <span className="flex-1 text-sm font-medium text-slate-700">
+                            {store.name}
+                          </span>
+                          <input
+                            type="text"
+                            maxLength={15}
+                            value={store.gstin || ""}
+                            onChange={(e) =>
+                              onUpdateSettings({
+                                ...settings,
+                                stores: settings.stores.map((s) =>
+                                  s.id === store.id
+                                    ? {
+                                        ...s,
+                                        gstin: e.target.value
+                                          .replace(/[^a-z0-9]/gi, "")
+                                          .toUpperCase(),
+                                      }
+                                    : s
+                                ),
+                              })
+                            }
+                            placeholder="GSTIN"
+                            className="w-40 px-2 py-1 text-sm font-mono border border-slate-200 rounded focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                          />
+                          <span className="w-28 text-xs font-mono text-slate-400">
+                            {formatInvoiceNumber(
+                              getInvoicePrefix(store.name, settings.stores),
+                              1
+                            )}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
                   <div className="bg-amber-50 p-6 rounded-xl border border-amber-100 text-sm text-amber-800 h-fit">
                     <h4 className="font-bold text-amber-900 mb-2 flex items-center gap-2">
                       <AlertTriangle size={18} /> Important Note
@@ -974,6 +3154,12 @@ export default function Settings({
                     {...createListHandlers("deviceTypes", "deviceType")}
                     placeholder="e.g. Smart Watch"
                   />
+                  <IntakeChecklistEditor
+                    deviceTypes={settings.deviceTypes}
+                    onChange={(deviceTypes) =>
+                      onUpdateSettings({ ...settings, deviceTypes })
+                    }
+                  />
                 </div>
               )}
 
@@ -985,6 +3171,12 @@ export default function Settings({
                     {...createListHandlers("serviceBrands", "brand")}
                     placeholder="e.g. Samsung"
                   />
+                  <BrandServiceEditor
+                    brands={settings.serviceBrands}
+                    onChange={(serviceBrands) =>
+                      onUpdateSettings({ ...settings, serviceBrands })
+                    }
+                  />
                 </div>
               )}
 
@@ -1032,93 +3224,79 @@ export default function Settings({
                     {...createListHandlers("progressReasons")}
                     placeholder="e.g. Cleaning"
                   />
+                  <div className="md:col-span-2">
+                    <WorkflowEditor
+                      workflow={settings.workflow || DEFAULT_WORKFLOW}
+                      statuses={settings.ticketStatuses.map((s) => s.name)}
+                      roles={[
+                        ...getStaffRoles(permissions).map((r) => r.id),
+                        CUSTOMER_ROLE,
+                      ]}
+                      onChange={(workflow) =>
+                        onUpdateSettings({ ...settings, workflow })
+                      }
+                    />
+                  </div>
                 </div>
               )}
 
               {/* SLA SECTION */}
               {activeSection === "sla" && (
-                <div className="max-w-xl mx-auto">
-                  <div className="bg-slate-50 rounded-2xl border border-slate-200 p-8">
-                    <div className="flex items-center gap-4 mb-8 pb-8 border-b border-slate-200">
-                      <div className="w-12 h-12 bg-white rounded-xl border border-slate-200 flex items-center justify-center text-indigo-600 shadow-sm">
-                        <Clock size={24} />
-                      </div>
-                      <div>
-                        <h3 className="text-lg font-bold text-slate-800">
-                          SLA & Past Due Configuration
-                        </h3>
-                        <p className="text-sm text-slate-500">
-                          Set thresholds for ticket overdue flags
-                        </p>
-                      </div>
-                    </div>
+                <SlaEditor
+                  sla={getSLAConfig(settings)}
+                  priorities={settings.priorities.map((p) => p.name)}
+                  holdReasons={settings.holdReasons.map((h) => h.name)}
+                  stores={settings.stores}
+                  onChange={(sla) => onUpdateSettings({ ...settings, sla })}
+                  onChangeStores={(stores) =>
+                    onUpdateSettings({ ...settings, stores })
+                  }
+                />
+              )}
 
-                    <div className="space-y-4">
-                      {[
-                        {
-                          label: "High Priority",
-                          key: "high",
-                          color: "text-red-600 bg-red-50 border-red-100",
-                        },
-                        {
-                          label: "Medium Priority",
-                          key: "medium",
-                          color: "text-amber-600 bg-amber-50 border-amber-100",
-                        },
-                        {
-                          label: "Low Priority",
-                          key: "low",
-                          color:
-                            "text-emerald-600 bg-emerald-50 border-emerald-100",
-                        },
-                      ].map((p) => (
-                        <div
-                          key={p.key}
-                          className="flex items-center justify-between p-4 bg-white rounded-xl border border-slate-200 shadow-sm"
-                        >
-                          <div className="flex items-center gap-3">
-                            <span
-                              className={`px-3 py-1.5 rounded-lg text-xs font-bold border ${p.color}`}
-                            >
-                              {p.label}
-                            </span>
-                          </div>
-                          <div className="flex items-center gap-3">
-                            <span className="text-sm font-medium text-slate-400">
-                              Due in
-                            </span>
-                            <div className="relative">
-                              <input
-                                type="number"
-                                min="1"
-                                value={settings.sla[p.key as keyof SLAConfig]}
-                                onChange={(e) =>
-                                  handleSlaUpdate(
-                                    p.key as keyof SLAConfig,
-                                    parseInt(e.target.value) || 0
-                                  )
-                                }
-                                className="w-20 pl-3 pr-8 py-2 border border-slate-200 rounded-lg text-center font-bold text-slate-700 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
-                              />
-                              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs font-bold text-slate-400">
-                                d
-                              </span>
-                            </div>
-                          </div>
-                        </div>
-                      ))}
-                    </div>
+              {/* QUOTATIONS SECTION */}
+              {activeSection === "quotations" && (
+                <QuotationSettingsEditor
+                  config={settings.quotation || DEFAULT_QUOTATION_CONFIG}
+                  statuses={settings.ticketStatuses.map((s) => s.name)}
+                  holdReasons={settings.holdReasons.map((h) => h.name)}
+                  onChange={(quotation) =>
+                    onUpdateSettings({ ...settings, quotation })
+                  }
+                />
+              )}
 
-                    <div className="mt-8 p-4 bg-indigo-50 rounded-xl flex gap-3 text-indigo-800 text-sm">
-                      <Briefcase size={18} className="flex-shrink-0 mt-0.5" />
-                      <p>
-                        Tickets exceeding these day limits will automatically be
-                        flagged with a visual "Overdue" indicator in the ticket
-                        list.
-                      </p>
-                    </div>
-                  </div>
-                </div>
+              {/* WARRANTY SECTION */}
+              {activeSection === "warranty" && (
+                <WarrantySettingsEditor
+                  config={getWarrantyConfig(settings)}
+                  brands={settings.serviceBrands}
+                  parts={parts}
+                  onChange={(warranty) =>
+                    onUpdateSettings({ ...settings, warranty })
+                  }
+                />
+              )}
+
+              {/* NOTIFICATIONS SECTION */}
+              {activeSection === "notifications" && (
+                <NotificationTemplateEditor
+                  config={getNotificationConfig(settings)}
+                  statuses={settings.ticketStatuses.map((s) => s.name)}
+                  onChange={(notifications) =>
+                    onUpdateSettings({ ...settings, notifications })
+                  }
+                />
+              )}
+
+              {activeSection === "permissions" && (
+                <RolePermissionsEditor
+                  config={permissions}
+                  teamMembers={settings.teamMembers}
+                  onChange={(permissions) =>
+                    onUpdateSettings({ ...settings, permissions })
+                  }
+                />
               )}
             </div>
           </div>
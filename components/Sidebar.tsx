@@ -25,9 +25,16 @@ import {
   Database,
   CheckSquare,
   FileText,
+  Package,
+  Truck,
+  ArrowLeftRight,
+  HardDrive,
+  BadgeCheck,
+  Wallet,
   Star,
 } from "lucide-react";
-import { View, User as AppUser, Role } from "../types";
+import { View, User as AppUser, Capability } from "../types";
+import { can, getRoleName, isStaffRole } from "@/services/permissionEngine";
 
 interface SidebarProps {
   currentView: View;
@@ -43,7 +50,8 @@ interface NavItem {
   id: string;
   label: string;
   icon: any;
-  allowedRoles: Role[];
+  capability?: Capability; // staff items without one are open to all staff
+  customer?: boolean; // customer portal items
   children?: NavItem[];
 }
 
@@ -66,55 +74,50 @@ const Sidebar: React.FC<SidebarProps> = ({
       id: "dashboard",
       label: "Dashboard",
       icon: LayoutDashboard,
-      allowedRoles: ["ADMIN", "MANAGER", "TECHNICIAN"],
     },
     {
       id: "tickets",
       label: "Service Tickets",
       icon: Ticket,
-      allowedRoles: ["ADMIN", "MANAGER", "TECHNICIAN"],
     },
     {
       id: "review_reports",
       label: "Review Requests",
       icon: FileCheck,
-      allowedRoles: ["ADMIN", "MANAGER"],
+      capability: "reviews.manage",
     },
     {
       id: "tasks_group",
       label: "Task Management",
       icon: CheckSquare,
-      allowedRoles: ["ADMIN", "MANAGER", "TECHNICIAN"],
       children: [
         {
           id: "task_dashboard",
           label: "Dashboard",
           icon: LayoutDashboard,
-          allowedRoles: ["ADMIN", "MANAGER"],
+          capability: "tasks.manage",
         },
         {
           id: "task_my_works",
           label: "My Works",
           icon: Briefcase,
-          allowedRoles: ["ADMIN", "MANAGER", "TECHNICIAN"],
         },
         {
           id: "task_schedule",
           label: "Schedule",
           icon: Calendar,
-          allowedRoles: ["ADMIN", "MANAGER", "TECHNICIAN"],
         },
         {
           id: "task_reports",
           label: "Reports",
           icon: FileText,
-          allowedRoles: ["ADMIN", "MANAGER"],
+          capability: "tasks.manage",
         },
         {
           id: "task_ratings",
           label: "Staff Ratings",
           icon: Star,
-          allowedRoles: ["ADMIN", "MANAGER"],
+          capability: "tasks.manage",
         },
       ],
     },
@@ -122,19 +125,17 @@ const Sidebar: React.FC<SidebarProps> = ({
       id: "laptop_reports_group",
       label: "Laptop Reports",
       icon: ClipboardCheck,
-      allowedRoles: ["ADMIN", "MANAGER", "TECHNICIAN"],
       children: [
         {
           id: "laptop_dashboard",
           label: "Dashboard",
           icon: LayoutDashboard,
-          allowedRoles: ["ADMIN", "MANAGER"],
+          capability: "laptop.dashboard.view",
         },
         {
           id: "laptop_data",
           label: "Data Management",
           icon: Database,
-          allowedRoles: ["ADMIN", "MANAGER", "TECHNICIAN"],
         },
       ],
     },
@@ -142,45 +143,79 @@ const Sidebar: React.FC<SidebarProps> = ({
       id: "customers",
       label: "Customer Database",
       icon: Users,
-      allowedRoles: ["ADMIN", "MANAGER"],
+      capability: "customers.view",
     },
     {
       id: "brands_group",
       label: "Partner Brands",
       icon: Briefcase,
-      allowedRoles: ["ADMIN", "MANAGER", "TECHNICIAN"],
       children: [
         {
           id: "brand_ivoomi",
           label: "IVOOMI",
           icon: Globe,
-          allowedRoles: ["ADMIN", "MANAGER", "TECHNICIAN"],
         },
         {
           id: "brand_elista",
           label: "ELISTA",
           icon: Globe,
-          allowedRoles: ["ADMIN", "MANAGER", "TECHNICIAN"],
+        },
+        {
+          id: "brand_payouts",
+          label: "Payout Reconciliation",
+          icon: Wallet,
+          capability: "brand.payouts.manage",
         },
       ],
     },
+    {
+      id: "transfers",
+      label: "Devices Out",
+      icon: ArrowLeftRight,
+    },
+    {
+      id: "devices",
+      label: "Device Registry",
+      icon: HardDrive,
+    },
+    {
+      id: "warranty_claims",
+      label: "Warranty Claims",
+      icon: BadgeCheck,
+    },
+    {
+      id: "inventory",
+      label: "Parts Inventory",
+      icon: Package,
+    },
+    {
+      id: "purchasing",
+      label: "Purchasing",
+      icon: Truck,
+      capability: "purchasing.manage",
+    },
+    {
+      id: "invoices",
+      label: "Billing & Invoices",
+      icon: FileText,
+      capability: "invoices.view",
+    },
     {
       id: "reports",
       label: "Analytics & Reports",
       icon: BarChart3,
-      allowedRoles: ["ADMIN", "MANAGER"],
+      capability: "reports.revenue.view",
     },
     {
       id: "supports",
       label: "AI Support Agent",
       icon: LifeBuoy,
-      allowedRoles: ["ADMIN", "MANAGER", "TECHNICIAN"],
     },
     {
       id: "settings",
       label: "System Settings",
       icon: Settings,
-      allowedRoles: ["ADMIN"],
+      capability: "settings.view",
     },
 
     // CUSTOMER ITEMS
@@ -188,21 +223,30 @@ const Sidebar: React.FC<SidebarProps> = ({
       id: "customer_dashboard",
       label: "Service History",
       icon: Clock,
-      allowedRoles: ["CUSTOMER"],
+      customer: true,
     },
     {
       id: "customer_supports",
       label: "Support & Contact",
       icon: Phone,
-      allowedRoles: ["CUSTOMER"],
+      customer: true,
     },
     {
       id: "customer_profile",
       label: "My Profile",
       icon: User,
-      allowedRoles: ["CUSTOMER"],
+      customer: true,
     },
   ];
+
+  // Menus with children show when at least one child does
+  const isVisible = (item: NavItem): boolean => {
+    if (item.customer) return currentUser.role === "CUSTOMER";
+    if (!isStaffRole(currentUser.role)) return false;
+    if (item.capability && !can(currentUser, item.capability)) return false;
+    return !item.children || item.children.some(isVisible);
+  };
+
   // NEW: Automatically expand the parent menu when the current view is a child
 
   const handleNavClick = (item: NavItem) => {
@@ -256,7 +300,7 @@ const Sidebar: React.FC<SidebarProps> = ({
         <nav className="flex-1 px-4 py-4 space-y-1.5 overflow-y-auto custom-scrollbar">
           {allNavItems.map((item) => {
             // Check visibility
-            if (!item.allowedRoles.includes(currentUser.role)) return null;
+            if (!isVisible(item)) return null;
 
             const isActive = currentView === item.id;
             const Icon = item.icon;
@@ -307,9 +351,7 @@ const Sidebar: React.FC<SidebarProps> = ({
                 {hasChildren && isOpen && (
                   <div className="mt-1 ml-4 pl-4 border-l border-white/10 space-y-1 animate-in slide-in-from-top-1 duration-200">
                     {item.children
-                      ?.filter((child) =>
-                        child.allowedRoles.includes(currentUser.role)
-                      )
+                      ?.filter(isVisible)
                       .map((child) => (
                         <button
                           key={child.id}
@@ -371,7 +413,7 @@ const Sidebar: React.FC<SidebarProps> = ({
                   {currentUser.name}
                 </p>
                 <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">
-                  {currentUser.role}
+                  {getRoleName(currentUser.role)}
                 </p>
               </div>
             </div>
@@ -30,8 +30,7 @@ import {
   CartesianGrid,
 } from "recharts";
 import TasksView from "./TasksView";
-import { collection, getDocs } from "firebase/firestore";
-import { db } from "@/firebaseConfig";
+import { can } from "@/services/permissionEngine";
 
 interface TaskManagerProps {
   activeTab: "dashboard" | "my_works" | "reports" | "ratings";
@@ -169,7 +168,7 @@ export default function TaskManager({
   // --- SUB-VIEWS ---
 
   // 1. DASHBOARD VIEW
-  if (activeTab === "dashboard" && currentUser.role === "TECHNICIAN") {
+  if (activeTab === "dashboard" && !can(currentUser, "tasks.manage")) {
     return null;
   }
   if (activeTab === "dashboard") {
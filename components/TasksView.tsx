@@ -14,6 +14,7 @@ import {
   ChevronDown,
 } from "lucide-react";
 import { Task, Report, User } from "../types";
+import { can, getManagedMembers } from "@/services/permissionEngine";
 import {
   BarChart,
   Bar,
@@ -47,42 +48,29 @@ export default function TasksView({
 
   // --- DATA PROCESSING & PERMISSIONS ---
 
+  // Task managers (Settings → Roles & Permissions) get the team overview;
+  // everyone else works on their own tasks only.
+  const canManageTasks = can(currentUser, "tasks.manage");
+
   // 1. Determine which users the current user is allowed to see
-  const accessibleMembers = useMemo(() => {
-    if (currentUser.role === "ADMIN") {
-      return teamMembers;
-    }
-    if (currentUser.role === "MANAGER") {
-      // Managers see themselves + Technicians
-      return teamMembers.filter(
-        (m) => m.id === currentUser.id || m.role === "TECHNICIAN"
-      );
-    }
-    // Technicians only see themselves
-    return [currentUser];
-  }, [currentUser, teamMembers]);
+  const accessibleMembers = useMemo(
+    () => getManagedMembers(currentUser, teamMembers),
+    [currentUser, teamMembers]
+  );
 
   // 2. Filter TASKS based on accessible members
   const accessibleTasks = useMemo(() => {
-    if (currentUser.role === "TECHNICIAN") {
-      // Technician: only assigned tasks
+    if (!canManageTasks) {
+      // Only assigned tasks
       return tasks.filter((t) => t.assignedToId === currentUser.id);
     }
 
-    if (currentUser.role === "MANAGER") {
-      // Manager: own created + assigned
-      return tasks.filter(
-        (t) =>
-          t.createdById === currentUser.id || t.assignedToId === currentUser.id
-      );
-    }
-
-    // ADMIN
+    // Own created + assigned
     return tasks.filter(
       (t) =>
         t.createdById === currentUser.id || t.assignedToId === currentUser.id
     );
-  }, [tasks, currentUser]);
+  }, [tasks, currentUser, canManageTasks]);
 
   // 3. Filter REPORTS based on accessible members (matching by name usually)
   const accessibleReports = useMemo(() => {
@@ -165,7 +153,7 @@ export default function TasksView({
     ).length;
     const monthlyTarget =
       20 *
-      (memberFilter === "all" && currentUser.role !== "TECHNICIAN"
+      (memberFilter === "all" && canManageTasks
         ? accessibleMembers.length
         : 1); // Scale target if viewing team
     const targetProgress = Math.min(
@@ -190,7 +178,7 @@ export default function TasksView({
     memberFilter,
     accessibleMembers,
     teamMembers,
-    currentUser.role,
+    canManageTasks,
   ]);
 
   // Chart Data
@@ -321,13 +309,13 @@ export default function TasksView({
     const task = tasks.find((t) => t.id === id);
     if (!task) return;
 
-    // Technician cannot delete
-    if (currentUser.role === "TECHNICIAN") {
+    // Only task managers delete
+    if (!canManageTasks) {
       alert("You are not allowed to delete tasks.");
       return;
     }
 
-    // Admin / Manager can delete ONLY tasks they created
+    // ...and ONLY tasks they created
     if (task.createdById !== currentUser.id) {
       alert("You can only delete tasks you created.");
       return;
@@ -339,7 +327,7 @@ export default function TasksView({
   };
 
   const clearCompleted = () => {
-    if (currentUser.role === "TECHNICIAN") {
+    if (!canManageTasks) {
       alert("You cannot bulk delete tasks.");
       return;
     }
@@ -365,9 +353,7 @@ export default function TasksView({
           <h1 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
             My Works{" "}
             <span className="text-xs font-bold text-indigo-600 bg-indigo-50 px-2 py-1 rounded-lg border border-indigo-100">
-              {currentUser.role === "TECHNICIAN"
-                ? "Personal View"
-                : "Team Overview"}
+              {canManageTasks ? "Team Overview" : "Personal View"}
             </span>
           </h1>
           <p className="text-slate-500 text-sm">
@@ -715,7 +701,7 @@ export default function TasksView({
                         >
                            <Trash2 size={16} />
                         </button>*/}
-                  {currentUser.role !== "TECHNICIAN" &&
+                  {canManageTasks &&
                     task.createdById === currentUser.id && (
                       <button
                         onClick={() => deleteTask(task.id)}
@@ -25,26 +25,93 @@ import {
   FileClock,
   X,
   Loader2,
+  ShieldCheck,
+  ShieldAlert,
+  Receipt,
+  Wallet,
+  Package,
+  ArrowLeftRight,
+  ClipboardCheck,
+  Printer,
+  BadgeCheck,
 } from "lucide-react";
 import {
   Ticket,
   Customer,
   AppSettings,
+  Quotation,
+  Invoice,
+  Payment,
+  Part,
+  StockMovement,
+  DeviceTransfer,
+  Supplier,
+  WarrantyClaim,
+  WarrantyRecord,
   User as AppUser,
-  TicketHistory,
 } from "../types";
+import QuotationEditor from "./QuotationEditor";
+import InvoicePanel from "./InvoicePanel";
+import PaymentsPanel from "./PaymentsPanel";
+import PartsPanel from "./PartsPanel";
+import TransfersPanel from "./TransfersPanel";
+import WarrantyPanel from "./WarrantyPanel";
+import MessageLog from "./MessageLog";
+import IntakePanel, {
+  IntakeChecklistFields,
+  PendingPhoto,
+  PhotoStrip,
+} from "./IntakePanel";
 import { jsPDF } from "jspdf";
+import { repository } from "@/services/dataRepository";
+import { can, isStaffRole } from "@/services/permissionEngine";
+import { getUserStores } from "@/services/storeScope";
+import { createTicket } from "@/services/ticketNumbering";
 import {
-  addDoc,
-  updateDoc,
-  collection,
-  doc,
-  serverTimestamp,
-} from "firebase/firestore";
-import { getDocs, query, where, limit } from "firebase/firestore";
-
-import { db } from "@/firebaseConfig";
-import { supabase } from "@/lib/supabaseClient";
+  addIntakePhoto,
+  buildIntakeRows,
+  CHARGER_ITEM_ID,
+  completeIntake,
+  getChargerReceived,
+  getIntakeChecklist,
+  IntakeFormRow,
+} from "@/services/intakeEngine";
+import { downloadIntakeReceipt } from "@/services/intakeReceiptPdf";
+import {
+  describeRepeatRepair,
+  ensureDevice,
+} from "@/services/deviceRegistry";
+import {
+  downloadDeviceLabel,
+  downloadJobCard,
+} from "@/services/ticketPrintPdf";
+import { issueRepairWarranty } from "@/services/warrantyEngine";
+import { formatQuoteAmount } from "@/services/quotationEngine";
+import {
+  buildBrandJob,
+  getBrandJobBlocker,
+  getBrandLateDays,
+  getServiceBrand,
+  isBrandServiceTicket,
+} from "@/services/brandServiceEngine";
+import {
+  AuditVerification,
+  verifyAuditChain,
+} from "@/services/ticketAudit";
+import {
+  describeSLAClock,
+  formatSLADuration,
+  getTicketSLA,
+} from "@/services/slaEngine";
+import {
+  getAllowedStatuses,
+  getHoldStatus,
+  getInitialStatus,
+  getRequiredFields,
+  getResolvedStatus,
+  TRANSITION_FIELD_LABELS,
+  validateTransition,
+} from "@/services/workflowEngine";
 // Helper to generate IDs
 {
   /*const generateId = (prefix: string, list: any[]) => {
@@ -73,9 +140,19 @@ interface TicketFormModalProps {
   isOpen: boolean;
   onClose: () => void;
   customers: Customer[];
+  quotations?: Quotation[];
+  invoices?: Invoice[];
+  payments?: Payment[];
+  parts?: Part[];
+  stockMovements?: StockMovement[];
+  transfers?: DeviceTransfer[];
+  suppliers?: Supplier[];
+  warranties?: WarrantyRecord[];
+  warrantyClaims?: WarrantyClaim[];
   settings: AppSettings;
   currentUser: AppUser;
   editingTicket?: Ticket | null;
+  newTicketSerial?: string; // prefills the serial of a new ticket (scan lookup)
   onSuccess?: () => void;
 }
 
@@ -83,17 +160,32 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
   isOpen,
   onClose,
   customers = [],
+  quotations = [],
+  invoices = [],
+  payments = [],
+  parts = [],
+  stockMovements = [],
+  transfers = [],
+  suppliers = [],
+  warranties = [],
+  warrantyClaims = [],
   settings,
   currentUser,
   editingTicket,
+  newTicketSerial,
   onSuccess,
 }) => {
   // UI State
-  const [activeTab, setActiveTab] = useState<"details" | "history">("details");
+  const [activeTab, setActiveTab] = useState<
+    "details" | "intake" | "parts" | "custody" | "quote" | "invoice" | "payments" | "warranty" | "history"
+  >("details");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [assignableUsers, setAssignableUsers] = useState<AppUser[]>([]);
 
   // Form State
+  // New tickets can only be booked into the user's own stores
+  const storeOptions = getUserStores(currentUser, settings?.stores || []);
+
   const initialFormState = {
     email: "",
     name: "",
@@ -106,16 +198,18 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
     serial: "",
     chargerIncluded: "No",
     deviceDescription: "",
+    brandJobNumber: "",
+    brandCategory: "",
 
     issueDescription: "",
-    store: settings?.stores?.[0]?.name || "",
+    store: storeOptions[0]?.name || "",
     estimatedAmount: "",
     warranty: "No",
     billNumber: "",
     priority: "Medium",
 
     // Workflow State
-    status: "New",
+    status: getInitialStatus(settings?.workflow),
     holdReason: "",
     progressReason: "",
     progressNote: "",
@@ -126,25 +220,53 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
 
   const [formData, setFormData] = useState(initialFormState);
   const [transferNote, setTransferNote] = useState(""); // State for store transfer reason
-  const [rejectionNote, setRejectionNote] = useState(""); // New state for rejection reason
+  const [transitionNote, setTransitionNote] = useState(""); // Reason for the status change, when the workflow asks for one
+  // Check-in (new tickets only; existing tickets use the Intake tab)
+  const [intakeRows, setIntakeRows] = useState<IntakeFormRow[]>([]);
+  const [intakeRemarks, setIntakeRemarks] = useState("");
+  const [intakePhotos, setIntakePhotos] = useState<PendingPhoto[]>([]);
+  const [printIntake, setPrintIntake] = useState(true);
+  const [showPrintMenu, setShowPrintMenu] = useState(false);
   const [existingCustomer, setExistingCustomer] = useState<Customer | null>(
     null
   );
   const [error, setError] = useState<string | null>(null);
 
-  const canEditCustomer =
-    currentUser.role === "ADMIN" || currentUser.role === "MANAGER";
+  const canEditCustomer = can(currentUser, "customer.edit");
+  const canAssign = can(currentUser, "ticket.assign");
 
   // Detect if store has changed
   const isStoreChanged =
     editingTicket && formData.store !== editingTicket.store;
 
+  // Workflow: where the ticket starts from, where this user may move it,
+  // and what the chosen move requires
+  const currentStatus =
+    editingTicket?.status ?? getInitialStatus(settings?.workflow);
+  const resolvedStatus = getResolvedStatus(settings?.workflow);
+  const allowedStatuses = getAllowedStatuses(
+    currentStatus,
+    currentUser.role,
+    settings?.workflow
+  );
+  const statusOrder = (settings?.ticketStatuses || []).map((s) => s.name);
+  const statusOptions = [...allowedStatuses].sort(
+    (a, b) =>
+      (statusOrder.indexOf(a) + 1 || Infinity) -
+      (statusOrder.indexOf(b) + 1 || Infinity)
+  );
+  const requiredFields = getRequiredFields(
+    currentStatus,
+    formData.status,
+    settings?.workflow
+  );
+
   // Initialize form when opening
   useEffect(() => {
     if (isOpen) {
       setActiveTab("details"); // Reset to details tab on open
       setTransferNote(""); // Reset transfer note
-      setRejectionNote(""); // Reset rejection note
+      setTransitionNote(""); // Reset status change reason
       setIsSubmitting(false); // Reset submitting state
       if (editingTicket) {
         setFormData({
@@ -158,6 +280,8 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
           serial: editingTicket.serial || "",
           chargerIncluded: editingTicket.chargerIncluded ? "Yes" : "No",
           deviceDescription: editingTicket.deviceDescription || "",
+          brandJobNumber: editingTicket.brandJob?.jobNumber || "",
+          brandCategory: editingTicket.brandJob?.category || "",
           issueDescription: editingTicket.issueDescription,
           store: editingTicket.store,
           estimatedAmount: editingTicket.estimatedAmount?.toString() || "",
@@ -176,13 +300,27 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
         const cust = customers.find((c) => c.id === editingTicket.customerId);
         setExistingCustomer(cust || null);
       } else {
-        setFormData(initialFormState);
+        setFormData({ ...initialFormState, serial: newTicketSerial || "" });
         setExistingCustomer(null);
       }
+      setIntakeRows([]);
+      setIntakeRemarks("");
+      setIntakePhotos([]);
       setError(null);
     }
   }, [isOpen, editingTicket]);
 
+  // Rebuild the check-in checklist for the chosen device type, keeping
+  // answers to items both checklists share
+  const intakeChecklist = getIntakeChecklist(
+    formData.deviceType,
+    settings?.deviceTypes || []
+  );
+  useEffect(() => {
+    if (!isOpen || editingTicket) return;
+    setIntakeRows((prev) => buildIntakeRows(intakeChecklist, prev));
+  }, [isOpen, editingTicket, formData.deviceType, settings?.deviceTypes]);
+
   // Search Customer on Email Change (Visual feedback only)
   useEffect(() => {
     if (editingTicket) return;
@@ -208,30 +346,30 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
     return () => clearTimeout(timer);
   }, [formData.email, customers, editingTicket]);
 
-  // Auto-switch status to 'On Hold' when a hold reason is selected
+  // Auto-switch to the workflow's hold status when a hold reason is selected
   useEffect(() => {
     if (formData.holdReason && formData.holdReason !== "") {
-      setFormData((prev) => ({ ...prev, status: "On Hold" }));
+      setFormData((prev) => ({
+        ...prev,
+        status: getHoldStatus(settings?.workflow),
+      }));
     }
   }, [formData.holdReason]);
 
   useEffect(() => {
     const loadAssignableUsers = async () => {
-      const { data, error } = await supabase
-        .from("users")
-        .select("id, name, role");
-
-      if (error) {
+      let filteredUsers: AppUser[] = [];
+      try {
+        filteredUsers = await repository.users.list();
+      } catch (error) {
         console.error("Error loading users:", error);
         return;
       }
 
-      let filteredUsers = data || [];
-
       // 🔐 ROLE-BASED FILTERING
-      if (currentUser.role === "MANAGER") {
+      if (currentUser.role !== "ADMIN") {
         filteredUsers = filteredUsers.filter(
-          (u) => u.role === "MANAGER" || u.role === "TECHNICIAN"
+          (u) => u.role !== "ADMIN" && isStaffRole(u.role)
         );
       }
 
@@ -240,37 +378,86 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
       setAssignableUsers(filteredUsers);
     };
 
-    if (
-      isOpen &&
-      (currentUser.role === "ADMIN" || currentUser.role === "MANAGER")
-    ) {
+    if (isOpen && canAssign) {
       loadAssignableUsers();
     }
-  }, [isOpen, currentUser.role]);
+  }, [isOpen, currentUser.role, canAssign]);
 
   // --- HISTORY LOGIC ---
-  const createHistoryEntry = (
-    action: string,
-    details: string
-  ): TicketHistory => {
-    return {
-      id: Date.now().toString() + Math.random().toString().slice(2, 5),
-      date:
-        new Date().toLocaleDateString() + " " + new Date().toLocaleTimeString(),
-      timestamp: Date.now(),
-      actorName: currentUser.name,
-      actorRole: currentUser.role,
-      action,
-      details,
+  // History entries are written by the ticket repository on every save; the
+  // modal only displays and verifies them.
+  const [verification, setVerification] = useState<AuditVerification | null>(
+    null
+  );
+
+  useEffect(() => {
+    setVerification(null);
+    if (!isOpen || !editingTicket) return;
+
+    let cancelled = false;
+    verifyAuditChain(editingTicket.history).then((result) => {
+      if (!cancelled) setVerification(result);
+    });
+    return () => {
+      cancelled = true;
     };
-  };
+  }, [isOpen, editingTicket]);
+
+  const ticketSla = editingTicket
+    ? getTicketSLA(editingTicket, settings)
+    : null;
 
   const handleDownloadHistory = () => {
     if (!editingTicket || !editingTicket.history) return;
 
     const doc = new jsPDF();
-    // (Existing PDF generation logic remains the same)
-    // ...
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const margin = 14;
+    const textWidth = pageWidth - margin * 2;
+    let y = 20;
+
+    const ensureSpace = (height: number) => {
+      if (y + height > pageHeight - margin) {
+        doc.addPage();
+        y = 20;
+      }
+    };
+
+    const writeLines = (text: string, size: number, style = "normal") => {
+      doc.setFont("helvetica", style);
+      doc.setFontSize(size);
+      const lines = doc.splitTextToSize(text, textWidth);
+      lines.forEach((line: string) => {
+        ensureSpace(size * 0.5);
+        doc.text(line, margin, y);
+        y += size * 0.45;
+      });
+    };
+
+    writeLines(`Audit Log - ${editingTicket.ticketId}`, 16, "bold");
+    writeLines(
+      `${editingTicket.name} | ${editingTicket.store} | Exported ${new Date().toLocaleString()}`,
+      9
+    );
+    if (verification) {
+      writeLines(`Integrity: ${verification.message}`, 9, "bold");
+    }
+    y += 4;
+
+    editingTicket.history.forEach((log, index) => {
+      ensureSpace(20);
+      doc.setDrawColor(220);
+      doc.line(margin, y - 3, pageWidth - margin, y - 3);
+      writeLines(`${index + 1}. ${log.action} - ${log.date}`, 11, "bold");
+      writeLines(`By ${log.actorName} (${log.actorRole})`, 9);
+      if (log.details) writeLines(log.details, 9);
+      if (log.hash) {
+        writeLines(`Hash ${log.hash.slice(0, 16)}...`, 7, "italic");
+      }
+      y += 3;
+    });
+
     doc.save(
       `Audit_${editingTicket.ticketId}_${new Date()
         .toISOString()
@@ -278,94 +465,217 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
     );
   };
 
-  const handleSubmit = async (e) => {
+  // --- PRINTOUTS ---
+  // Each carries a QR code that opens this ticket when scanned.
+  const handlePrint = async (kind: "receipt" | "jobCard" | "label") => {
+    setShowPrintMenu(false);
+    if (!editingTicket) return;
+    try {
+      if (kind === "receipt") {
+        const photos = await repository.intakePhotos.findBy(
+          "ticketId",
+          editingTicket.id
+        );
+        downloadIntakeReceipt(
+          editingTicket,
+          photos.sort((a, b) => a.takenAt - b.takenAt)
+        );
+      } else if (kind === "jobCard") {
+        downloadJobCard(
+          editingTicket,
+          settings.teamMembers?.find(
+            (member) => member.id === editingTicket.assignedToId
+          )?.name
+        );
+      } else {
+        downloadDeviceLabel(editingTicket);
+      }
+    } catch (err: any) {
+      setError(err.message || "Failed to generate the printout");
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (isSubmitting) return;
+
+    // ---------- WORKFLOW CHECK ----------
+    const transitionError = validateTransition(
+      currentStatus,
+      formData.status,
+      currentUser.role,
+      {
+        billNumber: formData.billNumber,
+        estimatedAmount: Number(formData.estimatedAmount) || 0,
+        assignedToId: formData.assignedToId,
+        scheduledDate: formData.scheduledDate,
+        holdReason: formData.holdReason,
+        reason: transitionNote,
+      },
+      settings?.workflow
+    );
+    if (transitionError) {
+      setError(transitionError);
+      return;
+    }
+
+    // ---------- BRAND SERVICE CHECK ----------
+    const serviceBrand = isBrandServiceTicket(formData)
+      ? getServiceBrand(formData, settings.serviceBrands)
+      : undefined;
+    const brandJob = isBrandServiceTicket(formData)
+      ? buildBrandJob(
+          serviceBrand,
+          editingTicket?.brandJob,
+          {
+            jobNumber: formData.brandJobNumber,
+            category: formData.brandCategory,
+          },
+          editingTicket?.date || new Date().toISOString().slice(0, 10)
+        )
+      : undefined;
+    const brandJobError =
+      formData.status !== editingTicket?.status
+        ? getBrandJobBlocker(
+            serviceBrand,
+            brandJob,
+            formData.status,
+            settings?.workflow
+          )
+        : null;
+    if (brandJobError) {
+      setError(brandJobError);
+      return;
+    }
+
+    // ---------- INTAKE CHECK ----------
+    let intake;
+    if (!editingTicket && intakeRows.length > 0) {
+      try {
+        intake = completeIntake(intakeRows, intakeRemarks, currentUser);
+      } catch (err: any) {
+        setError(err.message);
+        return;
+      }
+    }
+    const chargerReceived = intake ? getChargerReceived(intake) : undefined;
+
     setIsSubmitting(true);
     setError(null);
 
     try {
       // ---------- CUSTOMER LOGIC ----------
-      e.preventDefault();
-      setIsSubmitting(true);
-
-      const { data, error } = await supabase.from("tickets").insert([
-        {
-          hold_reason: formData.holdReason,
-          progress_reason: formData.progressReason,
-          progress_note: formData.progressNote,
-          device_type: formData.deviceType,
-          charger_included: formData.chargerIncluded,
-          brand: formData.brand,
-          model: formData.model,
-          serial: formData.serial,
-          device_description: formData.deviceDescription,
-          issue_description: formData.issueDescription,
-          priority: formData.priority,
-          estimated_amount: formData.estimatedAmount || null,
-          warranty: formData.warranty,
-          bill_number: formData.billNumber || null,
-        },
-      ]);
-
-      if (error) {
-        console.error(error);
-        alert("Error creating ticket!");
-      } else {
-        alert("Ticket created successfully!");
-        onClose(); // close modal if any
+      let customerId = existingCustomer?.id || editingTicket?.customerId || "";
+
+      if (!existingCustomer && !editingTicket) {
+        const createdCustomer = await repository.customers.create({
+          name: formData.name,
+          email: formData.email,
+          mobile: formData.mobile,
+          address: formData.address,
+          photo_url: null,
+        });
+        customerId = createdCustomer.id;
       }
 
-      setIsSubmitting(false);
+      const ticketFields = {
+        customerId,
+        name: formData.name,
+        number: formData.mobile,
+        email: formData.email,
+        address: formData.address,
+
+        deviceType: formData.deviceType,
+        brand: formData.brand,
+        model: formData.model,
+        serial: formData.serial,
+        chargerIncluded: formData.chargerIncluded === "Yes",
+        deviceDescription: formData.deviceDescription,
+        ...(brandJob ? { brandJob } : {}),
+
+        store: formData.store,
+        status: formData.status,
+        priority: formData.priority,
+        issueDescription: formData.issueDescription,
+        estimatedAmount: Number(formData.estimatedAmount) || 0,
+
+        holdReason: formData.holdReason,
+        progressReason: formData.progressReason,
+        progressNote: formData.progressNote,
+
+        warranty: formData.warranty === "Yes",
+        billNumber: formData.billNumber,
+
+        assignedToId: formData.assignedToId,
+        scheduledDate: formData.scheduledDate,
+      };
 
       // ---------- TICKET UPDATE ----------
+      // The repository records the field changes in the audit history.
       if (editingTicket) {
-        // Update ticket
-        const { data: updatedTicket, error: updateError } = await supabase
-          .from("tickets")
-          .update({
-            customer_id: formData.customerId,
-            hold_reason: formData.holdReason,
-            progress_reason: formData.progressReason,
-            progress_note: formData.progressNote,
-            device_type: formData.deviceType,
-            charger_included: formData.chargerIncluded,
-            brand: formData.brand,
-            model: formData.model,
-            serial: formData.serial,
-            device_description: formData.deviceDescription,
-            issue_description: formData.issueDescription,
-            priority: formData.priority,
-            estimated_amount: formData.estimatedAmount || null,
-            warranty: formData.warranty,
-            bill_number: formData.billNumber || null,
-            updated_at: new Date(),
-          })
-          .eq("id", editingTicket.id);
-      } else {
-        // Insert ticket
-        const { data: ticketData, error: ticketError } = await supabase
-          .from("tickets")
-          .insert([
+        const reason = [
+          isStoreChanged ? transferNote.trim() : "",
+          transitionNote.trim(),
+        ]
+          .filter(Boolean)
+          .join("; ");
+
+        // A corrected serial moves the ticket to that device's record
+        const serialChanged =
+          (editingTicket.serial || "").trim() !== formData.serial.trim();
+        const device = serialChanged ? await ensureDevice(ticketFields) : null;
+
+        await repository.tickets.update(
+          editingTicket.id,
+          {
+            ...ticketFields,
+            ...(serialChanged ? { deviceId: device?.id ?? "" } : {}),
+            ...(formData.status === resolvedStatus &&
+            editingTicket.status !== resolvedStatus
+              ? { resolvedAt: new Date().toISOString() }
+              : {}),
+          },
+          reason ? { reason } : undefined
+        );
+        if (
+          formData.status === resolvedStatus &&
+          editingTicket.status !== resolvedStatus
+        ) {
+          await issueRepairWarranty(
             {
-              customer_id: formData.customerId,
-              hold_reason: formData.holdReason,
-              progress_reason: formData.progressReason,
-              progress_note: formData.progressNote,
-              device_type: formData.deviceType,
-              charger_included: formData.chargerIncluded,
-              brand: formData.brand,
-              model: formData.model,
-              serial: formData.serial,
-              device_description: formData.deviceDescription,
-              issue_description: formData.issueDescription,
-              priority: formData.priority,
-              estimated_amount: formData.estimatedAmount || null,
-              warranty: formData.warranty,
-              bill_number: formData.billNumber || null,
+              ...editingTicket,
+              ...ticketFields,
+              ...(serialChanged ? { deviceId: device?.id } : {}),
             },
-          ]);
-        console.log("Ticket created successfully");
+            settings,
+            currentUser
+          );
+        }
+      } else {
+        // ---------- TICKET CREATE ----------
+        const created = await createTicket(
+          {
+            ...ticketFields,
+            ...(chargerReceived === undefined
+              ? {}
+              : { chargerIncluded: chargerReceived }),
+            intake,
+            date: new Date().toISOString().slice(0, 10),
+          },
+          settings.stores
+        );
+        const photos = [];
+        for (const photo of intakePhotos) {
+          photos.push(
+            await addIntakePhoto(
+              created,
+              photo.dataUrl,
+              photo.caption || "",
+              currentUser
+            )
+          );
+        }
+        if (intake && printIntake) downloadIntakeReceipt(created, photos);
       }
 
       // ---------- SUCCESS ----------
@@ -382,6 +692,9 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
   const isAccessoryOrOther =
     formData.deviceType === "Accessory" || formData.deviceType === "Other";
   const isBrandService = formData.deviceType === "Brand Service";
+  const serviceBrand = isBrandService
+    ? getServiceBrand(formData, settings?.serviceBrands || [])
+    : undefined;
 
   if (!isOpen) return null;
 
@@ -431,6 +744,83 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
               >
                 Ticket Details
               </button>
+              <button
+                type="button"
+                onClick={() => setActiveTab("parts")}
+                className={`px-4 py-1.5 text-xs font-bold rounded-lg flex items-center gap-1 transition-all ${
+                  activeTab === "parts"
+                    ? "bg-white shadow-sm text-indigo-600"
+                    : "text-slate-500 hover:text-slate-700"
+                }`}
+              >
+                <Package size={14} /> Parts
+              </button>
+              <button
+                type="button"
+                onClick={() => setActiveTab("intake")}
+                className={`px-4 py-1.5 text-xs font-bold rounded-lg flex items-center gap-1 transition-all ${
+                  activeTab === "intake"
+                    ? "bg-white shadow-sm text-indigo-600"
+                    : "text-slate-500 hover:text-slate-700"
+                }`}
+              >
+                <ClipboardCheck size={14} /> Intake
+              </button>
+              <button
+                type="button"
+                onClick={() => setActiveTab("custody")}
+                className={`px-4 py-1.5 text-xs font-bold rounded-lg flex items-center gap-1 transition-all ${
+                  activeTab === "custody"
+                    ? "bg-white shadow-sm text-indigo-600"
+                    : "text-slate-500 hover:text-slate-700"
+                }`}
+              >
+                <ArrowLeftRight size={14} /> Custody
+              </button>
+              <button
+                type="button"
+                onClick={() => setActiveTab("quote")}
+                className={`px-4 py-1.5 text-xs font-bold rounded-lg flex items-center gap-1 transition-all ${
+                  activeTab === "quote"
+                    ? "bg-white shadow-sm text-indigo-600"
+                    : "text-slate-500 hover:text-slate-700"
+                }`}
+              >
+                <Receipt size={14} /> Quotation
+              </button>
+              <button
+                type="button"
+                onClick={() => setActiveTab("invoice")}
+                className={`px-4 py-1.5 text-xs font-bold rounded-lg flex items-center gap-1 transition-all ${
+                  activeTab === "invoice"
+                    ? "bg-white shadow-sm text-indigo-600"
+                    : "text-slate-500 hover:text-slate-700"
+                }`}
+              >
+                <FileText size={14} /> Invoice
+              </button>
+              <button
+                type="button"
+                onClick={() => setActiveTab("payments")}
+                className={`px-4 py-1.5 text-xs font-bold rounded-lg flex items-center gap-1 transition-all ${
+                  activeTab === "payments"
+                    ? "bg-white shadow-sm text-indigo-600"
+                    : "text-slate-500 hover:text-slate-700"
+                }`}
+              >
+                <Wallet size={14} /> Payments
+              </button>
+              <button
+                type="button"
+                onClick={() => setActiveTab("warranty")}
+                className={`px-4 py-1.5 text-xs font-bold rounded-lg flex items-center gap-1 transition-all ${
+                  activeTab === "warranty"
+                    ? "bg-white shadow-sm text-indigo-600"
+                    : "text-slate-500 hover:text-slate-700"
+                }`}
+              >
+                <BadgeCheck size={14} /> Warranty
+              </button>
               <button
                 type="button"
                 onClick={() => setActiveTab("history")}
@@ -445,13 +835,45 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
             </div>
           )}
 
-          <button
-            onClick={onClose}
-            disabled={isSubmitting}
-            className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors disabled:opacity-50"
-          >
-            <X size={24} />
-          </button>
+          <div className="flex items-center gap-1">
+            {editingTicket && (
+              <div className="relative">
+                <button
+                  type="button"
+                  onClick={() => setShowPrintMenu(!showPrintMenu)}
+                  title="Print"
+                  className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors"
+                >
+                  <Printer size={20} />
+                </button>
+                {showPrintMenu && (
+                  <div className="absolute right-0 mt-2 w-44 bg-white border border-slate-200 rounded-xl shadow-lg py-1 z-20">
+                    {[
+                      { kind: "receipt" as const, label: "Customer Receipt" },
+                      { kind: "jobCard" as const, label: "Job Card" },
+                      { kind: "label" as const, label: "Device Label" },
+                    ].map(({ kind, label }) => (
+                      <button
+                        key={kind}
+                        type="button"
+                        onClick={() => handlePrint(kind)}
+                        className="w-full px-4 py-2 text-left text-sm text-slate-700 hover:bg-slate-50"
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            <button
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors disabled:opacity-50"
+            >
+              <X size={24} />
+            </button>
+          </div>
         </div>
 
         {/* Body */}
@@ -470,13 +892,114 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
             </div>
           )}
 
-          {/* --- HISTORY TAB --- */}
-          {activeTab === "history" && editingTicket ? (
+          {/* --- INTAKE TAB --- */}
+          {activeTab === "intake" && editingTicket ? (
+            <IntakePanel
+              ticket={editingTicket}
+              settings={settings}
+              currentUser={currentUser}
+            />
+          ) : /* --- PARTS TAB --- */
+          activeTab === "parts" && editingTicket ? (
+            <PartsPanel
+              ticket={editingTicket}
+              parts={parts}
+              stockMovements={stockMovements}
+              settings={settings}
+              currentUser={currentUser}
+            />
+          ) : /* --- CUSTODY TAB --- */
+          activeTab === "custody" && editingTicket ? (
+            <TransfersPanel
+              ticket={editingTicket}
+              transfers={transfers.filter(
+                (t) => t.ticketId === editingTicket.id
+              )}
+              suppliers={suppliers}
+              settings={settings}
+              currentUser={currentUser}
+            />
+          ) : /* --- QUOTATION TAB --- */
+          activeTab === "quote" && editingTicket ? (
+            <QuotationEditor
+              ticket={editingTicket}
+              quotation={
+                quotations.find((q) => q.ticketId === editingTicket.id) ?? null
+              }
+              parts={parts}
+              stockMovements={stockMovements.filter(
+                (m) => m.ticketId === editingTicket.id
+              )}
+              settings={settings}
+              currentUser={currentUser}
+              onSent={onClose}
+            />
+          ) : /* --- INVOICE TAB --- */
+          activeTab === "invoice" && editingTicket ? (
+            <InvoicePanel
+              ticket={editingTicket}
+              quotation={
+                quotations.find((q) => q.ticketId === editingTicket.id) ?? null
+              }
+              invoices={invoices.filter((i) => i.ticketId === editingTicket.id)}
+              parts={parts}
+              stockMovements={stockMovements.filter(
+                (m) => m.ticketId === editingTicket.id
+              )}
+              settings={settings}
+              currentUser={currentUser}
+              onIssued={onClose}
+            />
+          ) : /* --- PAYMENTS TAB --- */
+          activeTab === "payments" && editingTicket ? (
+            <PaymentsPanel
+              ticket={editingTicket}
+              invoices={invoices.filter((i) => i.ticketId === editingTicket.id)}
+              payments={payments.filter((p) => p.ticketId === editingTicket.id)}
+              currentUser={currentUser}
+            />
+          ) : /* --- WARRANTY TAB --- */
+          activeTab === "warranty" && editingTicket ? (
+            <WarrantyPanel
+              ticket={editingTicket}
+              warranties={warranties}
+              claims={warrantyClaims.filter(
+                (c) => c.ticketId === editingTicket.id
+              )}
+              parts={parts}
+              settings={settings}
+              currentUser={currentUser}
+            />
+          ) : /* --- HISTORY TAB --- */
+          activeTab === "history" && editingTicket ? (
             <div className="max-w-4xl mx-auto">
               <div className="flex justify-between items-center mb-8">
                 <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
                   <FileClock size={20} className="text-indigo-600" /> Audit
                   Timeline
+                  {verification && (
+                    <span
+                      title={verification.message}
+                      className={`ml-2 text-[10px] px-2 py-0.5 rounded-full font-bold uppercase flex items-center gap-1 border ${
+                        verification.status === "verified"
+                          ? "bg-green-50 text-green-700 border-green-200"
+                          : verification.status === "broken"
+                          ? "bg-red-50 text-red-700 border-red-200"
+                          : "bg-slate-50 text-slate-500 border-slate-200"
+                      }`}
+                    >
+                      {verification.status === "broken" ? (
+                        <ShieldAlert size={12} />
+                      ) : (
+                        <ShieldCheck size={12} />
+                      )}
+                      {verification.status === "verified"
+                        ? "Verified"
+                        : verification.status === "broken"
+                        ? "Tampered"
+                        : "Unverified"}
+                    </span>
+                  )}
                 </h3>
                 <button
                   onClick={handleDownloadHistory}
@@ -486,6 +1009,60 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
                 </button>
               </div>
 
+              {/* SLA timeline */}
+              {ticketSla && (
+                <div className="mb-6 grid gap-3 sm:grid-cols-2">
+                  {(
+                    [
+                      ["Response", ticketSla.response],
+                      ["Resolution", ticketSla.resolution],
+                    ] as const
+                  ).map(([label, clock]) => (
+                    <div
+                      key={label}
+                      className={`p-3 rounded-xl border text-xs ${
+                        clock.breached
+                          ? "bg-red-50 border-red-100 text-red-800"
+                          : "bg-slate-50 border-slate-200 text-slate-600"
+                      }`}
+                    >
+                      <div className="flex justify-between items-center mb-1">
+                        <span className="font-bold uppercase tracking-wide">
+                          {label} SLA
+                        </span>
+                        <span className="font-bold">
+                          {describeSLAClock(clock)}
+                        </span>
+                      </div>
+                      <div>
+                        {formatSLADuration(clock.elapsedMs)} used of{" "}
+                        {formatSLADuration(clock.targetMs)} (business hours)
+                      </div>
+                      {clock.breachedAt && (
+                        <div>
+                          Breached: {new Date(clock.breachedAt).toLocaleString()}
+                        </div>
+                      )}
+                      {clock.dueAt && (
+                        <div>Due: {new Date(clock.dueAt).toLocaleString()}</div>
+                      )}
+                      {clock.completedAt && (
+                        <div>
+                          Completed:{" "}
+                          {new Date(clock.completedAt).toLocaleString()}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {verification?.status === "broken" && (
+                <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700 flex items-center gap-2">
+                  <ShieldAlert size={16} /> {verification.message}
+                </div>
+              )}
+
               <div className="pl-4">
                 {editingTicket.history && editingTicket.history.length > 0 ? (
                   <div className="space-y-0 relative border-l-2 border-slate-200">
@@ -566,6 +1143,8 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
                   </div>
                 )}
               </div>
+
+              <MessageLog ticket={editingTicket} settings={settings} />
             </div>
           ) : (
             /* --- DETAILS TAB (Main Form) --- */
@@ -579,6 +1158,18 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
                 </div>
               )}
 
+              {editingTicket?.repeatRepair && (
+                <div className="mb-6 p-4 bg-amber-50 border border-amber-100 text-amber-800 rounded-xl flex items-center gap-3 shadow-sm">
+                  <div className="p-2 bg-amber-100 rounded-full shrink-0">
+                    <AlertTriangle size={18} />
+                  </div>
+                  <span className="font-medium text-sm">
+                    {describeRepeatRepair(editingTicket.repeatRepair)} Check
+                    the earlier repair before quoting.
+                  </span>
+                </div>
+              )}
+
               <form
                 id="ticket-form"
                 onSubmit={handleSubmit}
@@ -761,7 +1352,14 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
                             }
                             className="w-full pl-10 pr-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 appearance-none"
                           >
-                            {settings?.stores?.map((s) => (
+                            {!storeOptions.some(
+                              (s) => s.name === formData.store
+                            ) && (
+                              <option value={formData.store}>
+                                {formData.store}
+                              </option>
+                            )}
+                            {storeOptions.map((s) => (
                               <option key={s.id} value={s.name}>
                                 {s.name}
                               </option>
@@ -811,8 +1409,7 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
                           </div>
                         </div>
 
-                        {(currentUser.role === "ADMIN" ||
-                          currentUser.role === "MANAGER") && (
+                        {canAssign && (
                           <div>
                             <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">
                               Assign To
@@ -878,7 +1475,7 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
                             className={`w-full pl-10 pr-8 py-2.5 bg-white border border-slate-200 rounded-xl text-sm outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 appearance-none font-semibold ${
                               formData.status === "New"
                                 ? "text-blue-600"
-                                : formData.status === "Resolved"
+                                : formData.status === resolvedStatus
                                 ? "text-green-600"
                                 : formData.status === "On Hold"
                                 ? "text-orange-600"
@@ -887,9 +1484,9 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
                                 : "text-slate-700"
                             }`}
                           >
-                            {settings?.ticketStatuses?.map((s) => (
-                              <option key={s.id} value={s.name}>
-                                {s.name}
+                            {statusOptions.map((name) => (
+                              <option key={name} value={name}>
+                                {name}
                               </option>
                             ))}
                           </select>
@@ -897,17 +1494,26 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
                             <ChevronRight size={16} className="rotate-90" />
                           </div>
                         </div>
-                        {formData.status === "Rejected" && (
+                        {requiredFields.some((f) => f !== "reason") && (
+                          <p className="mt-2 ml-1 text-[11px] font-medium text-amber-600">
+                            Required for {formData.status}:{" "}
+                            {requiredFields
+                              .filter((f) => f !== "reason")
+                              .map((f) => TRANSITION_FIELD_LABELS[f])
+                              .join(", ")}
+                          </p>
+                        )}
+                        {requiredFields.includes("reason") && (
                           <div className="mt-3 animate-in fade-in slide-in-from-top-2 p-3 bg-red-50 border border-red-100 rounded-xl">
                             <label className="block text-xs font-bold text-red-800 uppercase tracking-wide mb-1.5 ml-1 flex items-center gap-1">
-                              <AlertTriangle size={12} /> Rejection Reason *
+                              <AlertTriangle size={12} /> {formData.status} Reason *
                             </label>
                             <textarea
                               required
-                              value={rejectionNote}
-                              onChange={(e) => setRejectionNote(e.target.value)}
+                              value={transitionNote}
+                              onChange={(e) => setTransitionNote(e.target.value)}
                               className="w-full px-3 py-2 bg-white border border-red-200 rounded-lg text-sm focus:ring-2 focus:ring-red-500/20 focus:border-red-500 outline-none resize-none text-slate-700 placeholder-red-300/50"
-                              placeholder="Please explain why this ticket is being rejected..."
+                              placeholder={`Please explain why this ticket is moving to ${formData.status}...`}
                               rows={2}
                             />
                           </div>
@@ -1037,7 +1643,11 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
                             </div>
                           </div>
                         </div>
-                        {formData.deviceType === "Laptop" && (
+                        {formData.deviceType === "Laptop" &&
+                          (editingTicket ||
+                            !intakeChecklist.some(
+                              (item) => item.id === CHARGER_ITEM_ID
+                            )) && (
                           <div className="animate-in fade-in slide-in-from-left-2">
                             <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">
                               Charger Included?
@@ -1098,6 +1708,78 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
                           </div>
                         )}
                       </div>
+                      {isBrandService && serviceBrand && (
+                        <div className="p-4 bg-violet-50/50 border border-violet-100 rounded-xl grid grid-cols-2 gap-4 animate-in fade-in">
+                          <div>
+                            <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">
+                              {serviceBrand.name} Job Number
+                              {serviceBrand.jobNumberRequired && " *"}
+                            </label>
+                            <input
+                              type="text"
+                              value={formData.brandJobNumber}
+                              onChange={(e) =>
+                                setFormData({
+                                  ...formData,
+                                  brandJobNumber: e.target.value,
+                                })
+                              }
+                              className="w-full px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-sm font-mono outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+                              placeholder="From the brand portal"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">
+                              Repair Category
+                            </label>
+                            <select
+                              value={formData.brandCategory}
+                              onChange={(e) =>
+                                setFormData({
+                                  ...formData,
+                                  brandCategory: e.target.value,
+                                })
+                              }
+                              className="w-full px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+                            >
+                              <option value="">Not decided</option>
+                              {formData.brandCategory &&
+                                !serviceBrand.payoutRates?.some(
+                                  (r) => r.category === formData.brandCategory
+                                ) && (
+                                  <option value={formData.brandCategory}>
+                                    {formData.brandCategory}
+                                  </option>
+                                )}
+                              {serviceBrand.payoutRates?.map((rate) => (
+                                <option key={rate.id} value={rate.category}>
+                                  {rate.category} ({formatQuoteAmount(rate.amount)})
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          {editingTicket?.brandJob?.dueDate && (
+                            <p
+                              className={`col-span-2 text-xs font-semibold ${
+                                getBrandLateDays(editingTicket, settings?.workflow) > 0
+                                  ? "text-red-600"
+                                  : "text-slate-500"
+                              }`}
+                            >
+                              {serviceBrand.name} due date:{" "}
+                              {editingTicket.brandJob.dueDate}
+                              {getBrandLateDays(editingTicket, settings?.workflow) > 0 &&
+                                ` · ${getBrandLateDays(editingTicket, settings?.workflow)} day(s) late`}
+                            </p>
+                          )}
+                          {!editingTicket && serviceBrand.slaDays && (
+                            <p className="col-span-2 text-xs text-slate-500">
+                              {serviceBrand.name} expects the job done within{" "}
+                              {serviceBrand.slaDays} days.
+                            </p>
+                          )}
+                        </div>
+                      )}
                       {formData.deviceType === "Accessory" ||
                       formData.deviceType === "Other" ? (
                         <div>
@@ -1183,6 +1865,49 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
                     </div>
                   </div>
 
+                  {!editingTicket && intakeRows.length > 0 && (
+                    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+                      <div className="px-5 py-3 border-b border-slate-100 bg-slate-50/80">
+                        <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2">
+                          <ClipboardCheck
+                            size={16}
+                            className="text-indigo-500"
+                          />
+                          Intake Checklist
+                        </h3>
+                      </div>
+                      <div className="p-5 space-y-5">
+                        <IntakeChecklistFields
+                          rows={intakeRows}
+                          onChange={setIntakeRows}
+                          remarks={intakeRemarks}
+                          onRemarksChange={setIntakeRemarks}
+                        />
+                        <PhotoStrip
+                          photos={intakePhotos}
+                          onAdd={(dataUrl, caption) =>
+                            setIntakePhotos((prev) => [
+                              ...prev,
+                              { dataUrl, caption: caption.trim() || undefined },
+                            ])
+                          }
+                          onRemove={(index) =>
+                            setIntakePhotos((prev) =>
+                              prev.filter((_, i) => i !== index)
+                            )
+                          }
+                        />
+                        <label className="flex items-center gap-2 text-xs text-slate-600">
+                          <input
+                            type="checkbox"
+                            checked={printIntake}
+                            onChange={(e) => setPrintIntake(e.target.checked)}
+                          />
+                          Download the intake receipt for the customer to sign
+                        </label>
+                      </div>
+                    </div>
+                  )}
                   <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
                     <div className="px-5 py-3 border-b border-slate-100 bg-slate-50/80">
                       <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2">
@@ -1335,7 +2060,7 @@ export const TicketFormModal: React.FC<TicketFormModalProps> = ({
           )}
         </div>
 
-        {/* Footer (Hidden if in History tab) */}
+        {/* Footer (Only on the details tab) */}
         {activeTab === "details" && (
           <div className="px-6 py-4 border-t border-slate-200 bg-white z-10 flex items-center justify-between">
             <div className="hidden sm:block text-xs text-slate-500 font-medium">
@@ -13,21 +13,39 @@ import {
   AlertTriangle,
   Laptop,
   Smartphone,
+  Clock,
+  ScanLine,
 } from "lucide-react";
-import { Ticket, Customer, AppSettings, User as AppUser } from "../types";
+import {
+  Ticket,
+  Customer,
+  AppSettings,
+  Quotation,
+  Invoice,
+  Payment,
+  Part,
+  StockMovement,
+  DeviceTransfer,
+  WarrantyClaim,
+  WarrantyRecord,
+  Supplier,
+  Report,
+  User as AppUser,
+} from "../types";
 import { TicketFormModal } from "./TicketFormModal";
+import ScanModal from "./ScanModal";
+import { repository } from "@/services/dataRepository";
+import {
+  describeSLAClock,
+  getTicketSLA,
+  TicketSLA,
+} from "@/services/slaEngine";
 import {
-  collection,
-  query,
-  where,
-  onSnapshot,
-  orderBy,
-  deleteDoc,
-  doc,
-} from "firebase/firestore";
-import { useEffect } from "react";
-import { db } from "@/firebaseConfig";
-import { supabase } from "@/lib/supabaseClient";
+  describeDestination,
+  getOpenTransfer,
+} from "@/services/transferEngine";
+import { describeRepeatRepair } from "@/services/deviceRegistry";
+import { can } from "@/services/permissionEngine";
 
 {
   /*interface TicketListProps {
@@ -40,7 +58,19 @@ import { supabase } from "@/lib/supabaseClient";
 }*/
 }
 interface TicketListProps {
+  tickets: Ticket[];
   customers: Customer[];
+  quotations: Quotation[];
+  invoices: Invoice[];
+  payments: Payment[];
+  parts: Part[];
+  stockMovements: StockMovement[];
+  transfers: DeviceTransfer[];
+  suppliers: Supplier[];
+  warranties: WarrantyRecord[];
+  warrantyClaims: WarrantyClaim[];
+  reports?: Report[];
+  onOpenReport?: (report: Report) => void;
   settings: AppSettings;
   currentUser: AppUser;
 }
@@ -83,85 +113,87 @@ const DeleteConfirmationModal: React.FC<{
   );
 };
 
+// --- SLA Badge ---
+// Shows the clock that matters right now: response until the ticket is picked
+// up, resolution after that.
+const SlaBadge: React.FC<{ sla: TicketSLA | null }> = ({ sla }) => {
+  if (!sla) return null;
+  const clock =
+    sla.response.state === "running" || sla.response.breached
+      ? sla.response
+      : sla.resolution;
+  if (clock.state === "not_started") return null;
+
+  const label = clock === sla.response ? "Response" : "Resolution";
+  const tone = clock.breached
+    ? "bg-red-50 text-red-700 border-red-100"
+    : clock.state === "met"
+    ? "bg-green-50 text-green-700 border-green-100"
+    : clock.state === "paused"
+    ? "bg-slate-50 text-slate-500 border-slate-200"
+    : clock.remainingMs < clock.targetMs * 0.25
+    ? "bg-amber-50 text-amber-700 border-amber-100"
+    : "bg-indigo-50 text-indigo-700 border-indigo-100";
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded border text-[10px] font-bold whitespace-nowrap ${tone}`}
+      title={
+        clock.dueAt
+          ? `${label} due ${new Date(clock.dueAt).toLocaleString()}`
+          : clock.breachedAt
+          ? `${label} breached ${new Date(clock.breachedAt).toLocaleString()}`
+          : label
+      }
+    >
+      <Clock size={10} /> {describeSLAClock(clock)}
+    </span>
+  );
+};
+
 // --- MAIN COMPONENT ---
 
 const TicketList: React.FC<TicketListProps> = ({
-  //tickets,
-  //setTickets,
+  tickets,
   customers,
   //setCustomers,
+  quotations,
+  invoices,
+  payments,
+  parts,
+  stockMovements,
+  transfers,
+  suppliers,
+  warranties,
+  warrantyClaims,
+  reports = [],
+  onOpenReport,
   settings,
   currentUser,
 }) => {
   const [searchTerm, setSearchTerm] = useState("");
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isScanOpen, setIsScanOpen] = useState(false);
+  const [newTicketSerial, setNewTicketSerial] = useState("");
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
 
   // Edit & Delete State
   const [editingTicket, setEditingTicket] = useState<Ticket | null>(null);
   const [ticketToDelete, setTicketToDelete] = useState<string | null>(null);
-  const [tickets, setTickets] = useState<Ticket[]>([]);
+
+  const canDelete = can(currentUser, "ticket.delete");
 
   // --- FILTERING LOGIC ---
   //let displayTickets = tickets.filter((t) => t.status !== "Pending Approval"); // pending tickets are for Review Reports
   let displayTickets = tickets.filter((t) => t.status !== "Pending Approval");
 
-  // If TECHNICIAN, only show assigned tickets
-  if (currentUser.role === "TECHNICIAN") {
+  // Without ticket.view_all, only show assigned tickets
+  if (!can(currentUser, "ticket.view_all")) {
     displayTickets = displayTickets.filter(
       (t) => t.assignedToId === currentUser.id
     );
   }
 
-  useEffect(() => {
-    if (!currentUser) return;
-
-    const fetchTickets = async () => {
-      const { data, error } = await supabase
-        .from("tickets")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (error) {
-        console.error("Error fetching tickets:", error);
-        return;
-      }
-
-      // Map snake_case to camelCase for React usage
-      const mappedData =
-        data?.map((t: any) => ({
-          id: t.id,
-          ticketId: t.ticket_id ?? t.id,
-
-          // ⚠️ tickets table does NOT have customer info
-          name: t.customer_name ?? "—",
-          number: t.customer_number ?? "—",
-          email: t.customer_email ?? "—",
-
-          status: t.status ?? "New",
-          priority: t.priority,
-          store: t.store,
-          deviceType: t.device_type,
-          brand: t.brand,
-          model: t.model,
-          warranty: t.warranty,
-          issueDescription: t.issue_description,
-          assignedToId: t.assigned_to_id,
-          createdAt: t.created_at,
-          date: t.created_at, // or format as needed// or format as you want
-        })) || [];
-
-      // If TECHNICIAN, filter assigned tickets
-      const finalData =
-        currentUser.role === "TECHNICIAN"
-          ? mappedData.filter((t) => t.assignedToId === currentUser.id)
-          : mappedData;
-      setTickets(finalData);
-    };
-
-    fetchTickets();
-  }, [currentUser]);
-
   const filteredTickets = displayTickets.filter(
     (ticket) =>
       (ticket.name ?? "").toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -170,14 +202,39 @@ const TicketList: React.FC<TicketListProps> = ({
       (ticket.ticketId ?? "").toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  const now = Date.now();
+  const slaFor = (ticket: Ticket) => getTicketSLA(ticket, settings, now);
+
+  // Device currently away at another store or a vendor
+  const outBadge = (ticket: Ticket) => {
+    const transfer = getOpenTransfer(transfers, ticket.id);
+    if (!transfer) return null;
+    return (
+      <span className="ml-1 text-[10px] px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 border border-amber-100 font-bold whitespace-nowrap">
+        Out · {describeDestination(transfer, settings.stores)}
+      </span>
+    );
+  };
+
+  // Same device back soon after a previous ticket
+  const repeatBadge = (ticket: Ticket) =>
+    ticket.repeatRepair ? (
+      <span
+        title={describeRepeatRepair(ticket.repeatRepair)}
+        className="ml-1 text-[10px] px-1.5 py-0.5 rounded bg-red-50 text-red-700 border border-red-100 font-bold whitespace-nowrap"
+      >
+        Repeat
+      </span>
+    ) : null;
+
   const handleEdit = (ticket: Ticket) => {
     setEditingTicket(ticket);
     setIsModalOpen(true);
   };
 
   const handleDelete = (id: string) => {
-    // Permission Check: Only Admin can delete
-    if (currentUser.role === "ADMIN") {
+    // Permission Check: ticket.delete
+    if (canDelete) {
       setTicketToDelete(id);
     }
   };
@@ -194,7 +251,7 @@ const TicketList: React.FC<TicketListProps> = ({
     if (!ticketToDelete) return;
 
     try {
-      await supabase.from("tickets").delete().eq("id", ticketToDelete);
+      await repository.tickets.remove(ticketToDelete);
       setTicketToDelete(null);
     } catch (error) {
       console.error("Delete failed", error);
@@ -203,6 +260,14 @@ const TicketList: React.FC<TicketListProps> = ({
 
   const handleOpenNew = () => {
     setEditingTicket(null);
+    setNewTicketSerial("");
+    setIsModalOpen(true);
+  };
+
+  // Scanned code that matched nothing: start a ticket for that device
+  const handleScanCreate = (serial: string) => {
+    setEditingTicket(null);
+    setNewTicketSerial(serial);
     setIsModalOpen(true);
   };
 
@@ -210,8 +275,6 @@ const TicketList: React.FC<TicketListProps> = ({
     setSearchTerm(""); // Clear search so the new ticket is visible
   };
 
-  const canDelete = currentUser.role === "ADMIN";
-
   return (
     <div className="relative h-full min-h-[calc(100vh-140px)] flex flex-col">
       {/* Header Actions */}
@@ -231,6 +294,15 @@ const TicketList: React.FC<TicketListProps> = ({
           />
         </div>
 
+        {/* Scan */}
+        <button
+          onClick={() => setIsScanOpen(true)}
+          className="px-4 py-3 bg-white border border-slate-200 rounded-xl shadow-sm text-slate-600 hover:text-indigo-600 hover:border-indigo-300 flex items-center gap-2 font-semibold text-sm"
+          title="Scan a receipt, label or serial number"
+        >
+          <ScanLine size={20} /> Scan
+        </button>
+
         {/* View Toggle */}
         <div className="flex items-center bg-white border border-slate-200 rounded-xl p-1 shadow-sm">
           <button
@@ -350,17 +422,22 @@ const TicketList: React.FC<TicketListProps> = ({
                       </div>
                       <div className="flex items-center gap-1">
                         <MapPin size={12} /> {ticket.store}
+                        {outBadge(ticket)}
+                        {repeatBadge(ticket)}
                       </div>
                     </div>
                   </div>
 
-                  <div className="pt-3 border-t border-slate-100 flex items-center justify-between text-xs text-slate-400">
+                  <div className="pt-3 border-t border-slate-100 flex items-center justify-between gap-2 text-xs text-slate-400">
                     <span>{ticket.date}</span>
-                    {ticket.warranty && (
-                      <span className="flex items-center gap-1 text-amber-600 bg-amber-50 px-2 py-0.5 rounded">
-                        <AlertTriangle size={10} /> Warranty
-                      </span>
-                    )}
+                    <div className="flex items-center gap-1.5">
+                      <SlaBadge sla={slaFor(ticket)} />
+                      {ticket.warranty && (
+                        <span className="flex items-center gap-1 text-amber-600 bg-amber-50 px-2 py-0.5 rounded">
+                          <AlertTriangle size={10} /> Warranty
+                        </span>
+                      )}
+                    </div>
                   </div>
                 </div>
               ))}
@@ -390,6 +467,9 @@ const TicketList: React.FC<TicketListProps> = ({
                       <th className="px-6 py-4 font-semibold text-slate-600">
                         Priority
                       </th>
+                      <th className="px-6 py-4 font-semibold text-slate-600">
+                        SLA
+                      </th>
                       <th className="px-6 py-4 font-semibold text-slate-600">
                         Store
                       </th>
@@ -464,8 +544,13 @@ const TicketList: React.FC<TicketListProps> = ({
                             {ticket.priority}
                           </span>
                         </td>
+                        <td className="px-6 py-4">
+                          <SlaBadge sla={slaFor(ticket)} />
+                        </td>
                         <td className="px-6 py-4 text-slate-500">
                           {ticket.store}
+                          {outBadge(ticket)}
+                          {repeatBadge(ticket)}
                         </td>
                         <td className="px-6 py-4 text-right">
                           <div className="flex items-center justify-end gap-2">
@@ -505,8 +590,8 @@ const TicketList: React.FC<TicketListProps> = ({
         )}
       </div>
 
-      {/* Floating Action Button - Only for Admin/Manager */}
-      {(currentUser.role === "ADMIN" || currentUser.role === "MANAGER") && (
+      {/* Floating Action Button - ticket.create */}
+      {can(currentUser, "ticket.create") && (
         <button
           onClick={handleOpenNew}
           className="fixed bottom-8 right-8 lg:bottom-10 lg:right-10 w-14 h-14 bg-indigo-600 hover:bg-indigo-700 text-white rounded-full shadow-lg hover:shadow-xl flex items-center justify-center transition-all transform hover:scale-105 z-40"
@@ -532,12 +617,32 @@ const TicketList: React.FC<TicketListProps> = ({
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
         customers={customers}
+        quotations={quotations}
+        invoices={invoices}
+        payments={payments}
+        parts={parts}
+        stockMovements={stockMovements}
+        transfers={transfers}
+        suppliers={suppliers}
+        warranties={warranties}
+        warrantyClaims={warrantyClaims}
         settings={settings}
         currentUser={currentUser}
         editingTicket={editingTicket}
+        newTicketSerial={newTicketSerial}
         onSuccess={handleTicketCreated}
       />
 
+      <ScanModal
+        isOpen={isScanOpen}
+        onClose={() => setIsScanOpen(false)}
+        tickets={displayTickets}
+        reports={reports}
+        onOpenTicket={handleEdit}
+        onOpenReport={onOpenReport}
+        onCreateTicket={handleScanCreate}
+      />
+
       {/* Delete Confirmation Modal */}
       <DeleteConfirmationModal
         isOpen={!!ticketToDelete}
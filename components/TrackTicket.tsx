@@ -0,0 +1,201 @@
+import React, { useState } from "react";
+import {
+  AlertCircle,
+  ArrowLeft,
+  Calendar,
+  Cpu,
+  History,
+  MapPin,
+  PauseCircle,
+  Search,
+  Smartphone,
+} from "lucide-react";
+import { TrackedTicket, WorkflowConfig } from "../types";
+import { trackTicket } from "@/services/ticketTracking";
+import { formatQuoteAmount } from "@/services/quotationEngine";
+import { TicketTimeline } from "./CustomerPortal";
+
+interface TrackTicketProps {
+  initialTicketId?: string;
+  onBack: () => void; // to the login page
+  workflow?: WorkflowConfig | null;
+}
+
+// Public page (#/track): status of one ticket by its ID and the last 4
+// digits of the customer's mobile. Read-only, no account needed.
+export default function TrackTicket({
+  initialTicketId = "",
+  onBack,
+  workflow,
+}: TrackTicketProps) {
+  const [ticketId, setTicketId] = useState(initialTicketId);
+  const [last4, setLast4] = useState("");
+  const [ticket, setTicket] = useState<TrackedTicket | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      const found = await trackTicket(ticketId, last4);
+      setTicket(found);
+      if (!found) {
+        setError(
+          "No ticket matches that ID and mobile number. Check the ID on your receipt."
+        );
+      }
+    } catch (err: any) {
+      setTicket(null);
+      setError(err.message || "Could not look up the ticket.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-4 py-3 bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all";
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-10 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <div className="w-10 h-10 bg-indigo-600 rounded-xl flex items-center justify-center text-white shadow-lg shadow-indigo-200">
+              <Cpu size={20} />
+            </div>
+            <span className="font-bold text-xl tracking-tight text-slate-800">
+              INFOFIX
+            </span>
+          </div>
+          <button
+            onClick={onBack}
+            className="flex items-center gap-1 text-sm font-semibold text-slate-500 hover:text-indigo-600"
+          >
+            <ArrowLeft size={16} /> Sign in
+          </button>
+        </div>
+
+        {/* 1. LOOKUP */}
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-4"
+        >
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">
+              Track your repair
+            </h2>
+            <p className="text-sm text-slate-500 mt-1">
+              Enter the ticket ID from your receipt and the last 4 digits of
+              the mobile number you gave us.
+            </p>
+          </div>
+          <div className="grid gap-4 md:grid-cols-3">
+            <input
+              type="text"
+              required
+              value={ticketId}
+              onChange={(e) => setTicketId(e.target.value)}
+              placeholder="Ticket ID, e.g. TKT-IF-174"
+              className={`${inputClass} md:col-span-2 font-mono uppercase`}
+            />
+            <input
+              type="text"
+              required
+              inputMode="numeric"
+              maxLength={4}
+              value={last4}
+              onChange={(e) => setLast4(e.target.value.replace(/\D/g, ""))}
+              placeholder="Last 4 digits"
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          {error && (
+            <div className="p-3 bg-red-50 border-l-4 border-red-500 text-red-700 text-sm rounded-r-xl flex items-center gap-2">
+              <AlertCircle size={16} className="shrink-0" />
+              {error}
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold rounded-xl shadow-lg shadow-indigo-200 flex items-center justify-center gap-2 disabled:opacity-70"
+          >
+            <Search size={18} /> {isLoading ? "Looking up..." : "Track"}
+          </button>
+        </form>
+
+        {/* 2. STATUS */}
+        {ticket && (
+          <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm animate-in fade-in duration-300">
+            <div className="flex justify-between items-start gap-4 mb-4">
+              <div>
+                <p className="font-mono text-xs font-bold text-slate-400">
+                  {ticket.ticketId}
+                </p>
+                <p className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                  <Smartphone size={18} className="text-slate-400" />
+                  {ticket.device}
+                </p>
+              </div>
+              <span className="px-3 py-1 rounded-full text-xs font-bold uppercase bg-indigo-50 text-indigo-700 border border-indigo-100">
+                {ticket.status}
+              </span>
+            </div>
+
+            {ticket.holdReason && (
+              <div className="mb-4 p-3 bg-orange-50 border border-orange-100 rounded-xl text-sm text-orange-700 flex items-center gap-2">
+                <PauseCircle size={16} /> {ticket.holdReason}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-xs font-bold text-slate-400">Booked</p>
+                <p className="text-slate-700 flex items-center gap-1">
+                  <Calendar size={12} /> {ticket.date}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs font-bold text-slate-400">Store</p>
+                <p className="text-slate-700 flex items-center gap-1">
+                  <MapPin size={12} /> {ticket.store}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs font-bold text-slate-400">
+                  Estimated Cost
+                </p>
+                <p className="text-slate-700">
+                  {ticket.estimatedAmount
+                    ? formatQuoteAmount(ticket.estimatedAmount)
+                    : "TBD"}
+                </p>
+              </div>
+              {ticket.scheduledDate && (
+                <div>
+                  <p className="text-xs font-bold text-slate-400">Scheduled</p>
+                  <p className="text-slate-700">{ticket.scheduledDate}</p>
+                </div>
+              )}
+            </div>
+
+            <div className="mt-4">
+              <p className="text-xs font-bold text-slate-400">Issue Reported</p>
+              <p className="text-sm text-slate-700">
+                {ticket.issueDescription}
+              </p>
+            </div>
+
+            <h4 className="font-bold text-slate-800 flex items-center gap-2 mt-8">
+              <History size={18} className="text-indigo-600" /> Activity
+              Timeline
+            </h4>
+            <TicketTimeline ticket={ticket} workflow={workflow} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+import React, { useState } from "react";
+import {
+  Truck,
+  Loader2,
+  AlertTriangle,
+  Send,
+  MapPin,
+  Undo2,
+  CheckCircle2,
+  Store as StoreIcon,
+} from "lucide-react";
+import {
+  AppSettings,
+  DeviceTransfer,
+  Supplier,
+  Ticket,
+  User,
+} from "../types";
+import {
+  describeDestination,
+  getCustodyTimeline,
+  getOpenTransfer,
+  isOverdueTransfer,
+  markArrived,
+  markReturned,
+  sendDevice,
+  TransferDraft,
+} from "@/services/transferEngine";
+
+interface TransfersPanelProps {
+  ticket: Ticket;
+  transfers: DeviceTransfer[]; // this ticket's transfers
+  suppliers: Supplier[]; // suggested vendors
+  settings: AppSettings;
+  currentUser: User;
+}
+
+const EVENT_STYLES = {
+  booked: "bg-slate-100 text-slate-600",
+  sent: "bg-amber-100 text-amber-700",
+  arrived: "bg-blue-100 text-blue-700",
+  returned: "bg-emerald-100 text-emerald-700",
+};
+
+export default function TransfersPanel({
+  ticket,
+  transfers,
+  suppliers,
+  settings,
+  currentUser,
+}: TransfersPanelProps) {
+  const open = getOpenTransfer(transfers, ticket.id);
+  const timeline = getCustodyTimeline(ticket, transfers, settings.stores);
+
+  const [draft, setDraft] = useState<TransferDraft>({
+    destination: "Store",
+    carriedBy: currentUser.name,
+  });
+  const [returnCarriedBy, setReturnCarriedBy] = useState("");
+  const [returnNote, setReturnNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const set = (patch: Partial<TransferDraft>) =>
+    setDraft({ ...draft, ...patch });
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || "Failed to update the transfer");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSend = () =>
+    run(async () => {
+      await sendDevice(
+        ticket,
+        draft,
+        transfers,
+        settings.stores,
+        currentUser
+      );
+      setDraft({ destination: "Store", carriedBy: currentUser.name });
+    });
+
+  const handleReturn = () =>
+    run(async () => {
+      await markReturned(
+        open as DeviceTransfer,
+        returnCarriedBy,
+        returnNote,
+        settings.stores,
+        currentUser
+      );
+      setReturnCarriedBy("");
+      setReturnNote("");
+    });
+
+  const vendorNames = Array.from(
+    new Set([
+      ...suppliers.filter((s) => s.active).map((s) => s.name),
+      ...settings.laptopDealers.map((d) => d.name),
+    ])
+  );
+
+  const inputClass =
+    "w-full px-2 py-1.5 text-sm bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+  const labelClass =
+    "block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1";
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+        <Truck size={20} className="text-indigo-600" /> Chain of Custody
+      </h3>
+
+      {/* Where the device is now */}
+      {open ? (
+        <div className="bg-amber-50 rounded-xl border border-amber-200 p-4 space-y-3">
+          <div className="flex justify-between items-start">
+            <div>
+              <p className="text-sm font-bold text-amber-800 flex items-center gap-2">
+                <MapPin size={16} />
+                {open.status === "In Transit" ? "In transit to" : "At"}{" "}
+                {describeDestination(open, settings.stores)}
+              </p>
+              <p className="text-xs text-amber-700 mt-1">
+                Sent {new Date(open.sentAt).toLocaleString()} · carried by{" "}
+                {open.carriedBy}
+                {open.expectedBackDate && ` · due back ${open.expectedBackDate}`}
+              </p>
+              {isOverdueTransfer(open) && (
+                <p className="text-xs font-bold text-red-600 mt-1 flex items-center gap-1">
+                  <AlertTriangle size={12} /> Overdue
+                </p>
+              )}
+            </div>
+            {open.status === "In Transit" && (
+              <button
+                type="button"
+                onClick={() =>
+                  run(() => markArrived(open, settings.stores, currentUser))
+                }
+                disabled={isSaving}
+                className="px-3 py-1.5 text-xs font-bold bg-white text-blue-700 border border-blue-200 rounded-lg hover:bg-blue-50 flex items-center gap-1"
+              >
+                <CheckCircle2 size={12} /> Mark Arrived
+              </button>
+            )}
+          </div>
+          <div className="grid grid-cols-3 gap-3 items-end">
+            <label className="block">
+              <span className={labelClass}>Brought back by</span>
+              <input
+                type="text"
+                value={returnCarriedBy}
+                onChange={(e) => setReturnCarriedBy(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>Note</span>
+              <input
+                type="text"
+                value={returnNote}
+                onChange={(e) => setReturnNote(e.target.value)}
+                placeholder="e.g. board repaired"
+                className={inputClass}
+              />
+            </label>
+            <button
+              type="button"
+              onClick={handleReturn}
+              disabled={isSaving}
+              className="px-4 py-1.5 bg-emerald-600 text-white text-sm font-semibold rounded-lg hover:bg-emerald-700 flex items-center justify-center gap-1 disabled:opacity-50"
+            >
+              {isSaving ? (
+                <Loader2 size={14} className="animate-spin" />
+              ) : (
+                <Undo2 size={14} />
+              )}
+              Back at {ticket.store}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl border border-slate-200 p-4 space-y-3">
+          <div className="flex justify-between items-center">
+            <h4 className="text-sm font-bold text-slate-800 uppercase tracking-wide flex items-center gap-2">
+              <StoreIcon size={14} className="text-slate-400" /> At{" "}
+              {ticket.store}
+            </h4>
+            <div className="flex bg-slate-100 p-0.5 rounded-lg">
+              {(["Store", "Vendor"] as const).map((d) => (
+                <button
+                  key={d}
+                  type="button"
+                  onClick={() => set({ destination: d })}
+                  className={`px-3 py-1 text-xs font-bold rounded-md ${
+                    draft.destination === d
+                      ? "bg-white shadow-sm text-indigo-600"
+                      : "text-slate-500"
+                  }`}
+                >
+                  To {d === "Store" ? "another store" : "a vendor"}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {draft.destination === "Store" ? (
+              <label className="block">
+                <span className={labelClass}>Destination store</span>
+                <select
+                  value={draft.toStoreId || ""}
+                  onChange={(e) => set({ toStoreId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Choose a store...</option>
+                  {settings.stores
+                    .filter((s) => s.name !== ticket.store)
+                    .map((s) => (
+                      <option key={s.id} value={s.id}>
+                        {s.name}
+                      </option>
+                    ))}
+                </select>
+              </label>
+            ) : (
+              <label className="block">
+                <span className={labelClass}>Vendor</span>
+                <input
+                  type="text"
+                  list="transfer-vendors"
+                  value={draft.vendorName || ""}
+                  onChange={(e) => set({ vendorName: e.target.value })}
+                  className={inputClass}
+                />
+                <datalist id="transfer-vendors">
+                  {vendorNames.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+              </label>
+            )}
+            <label className="block">
+              <span className={labelClass}>Carried by</span>
+              <input
+                type="text"
+                value={draft.carriedBy}
+                onChange={(e) => set({ carriedBy: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>Reason</span>
+              <input
+                type="text"
+                value={draft.reason || ""}
+                onChange={(e) => set({ reason: e.target.value })}
+                placeholder="e.g. chip-level repair"
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>Expected back</span>
+              <input
+                type="date"
+                value={draft.expectedBackDate || ""}
+                onChange={(e) => set({ expectedBackDate: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handleSend}
+              disabled={isSaving}
+              className="px-4 py-1.5 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 flex items-center gap-1 disabled:opacity-50"
+            >
+              {isSaving ? (
+                <Loader2 size={14} className="animate-spin" />
+              ) : (
+                <Send size={14} />
+              )}
+              Send Out
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-100 rounded-xl text-sm text-red-700 flex items-center gap-2">
+          <AlertTriangle size={16} /> {error}
+        </div>
+      )}
+
+      {/* Timeline */}
+      <div className="relative pl-6 space-y-4">
+        <div className="absolute left-2 top-1 bottom-1 w-px bg-slate-200"></div>
+        {timeline.map((event, index) => (
+          <div key={index} className="relative">
+            <span
+              className={`absolute -left-6 top-0.5 w-4 h-4 rounded-full border-2 border-white ${
+                EVENT_STYLES[event.kind]
+              }`}
+            ></span>
+            <p className="text-sm font-semibold text-slate-800">
+              {event.title}
+            </p>
+            <p className="text-xs text-slate-500">
+              {new Date(event.at).toLocaleString()}
+              {event.by && ` · ${event.by}`}
+              {event.details && ` · ${event.details}`}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from "react";
+import { ExternalLink, Search } from "lucide-react";
+import {
+  User as AppUser,
+  WarrantyClaim,
+  WarrantyClaimStatus,
+} from "../types";
+import {
+  CLAIM_STATUSES,
+  getClaimSummary,
+} from "@/services/warrantyEngine";
+import { formatQuoteAmount } from "@/services/quotationEngine";
+import {
+  ClaimActions,
+  CLAIM_STATUS_STYLES,
+  describeClaim,
+} from "./WarrantyPanel";
+
+interface WarrantyClaimsProps {
+  claims: WarrantyClaim[];
+  currentUser: AppUser;
+  onOpenTicket: (ticketId: string) => void;
+}
+
+export default function WarrantyClaims({
+  claims,
+  currentUser,
+  onOpenTicket,
+}: WarrantyClaimsProps) {
+  const [statusFilter, setStatusFilter] = useState<WarrantyClaimStatus | "">(
+    ""
+  );
+  const [brandFilter, setBrandFilter] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+
+  const brands = useMemo(
+    () => Array.from(new Set(claims.map((c) => c.brand))).sort(),
+    [claims]
+  );
+  const summary = getClaimSummary(
+    brandFilter ? claims.filter((c) => c.brand === brandFilter) : claims
+  );
+
+  const term = searchTerm.trim().toLowerCase();
+  const filtered = claims
+    .filter((c) => !statusFilter || c.status === statusFilter)
+    .filter((c) => !brandFilter || c.brand === brandFilter)
+    .filter(
+      (c) =>
+        !term ||
+        c.ticketNumber.toLowerCase().includes(term) ||
+        (c.claimNumber ?? "").toLowerCase().includes(term) ||
+        (c.serial ?? "").toLowerCase().includes(term)
+    )
+    .sort((a, b) => b.openedAt - a.openedAt);
+
+  return (
+    <div className="space-y-6 pb-20 animate-in fade-in duration-500">
+      {/* 1. SUMMARY */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          {
+            label: "Awaiting Decision",
+            value: String(summary.awaitingDecision),
+          },
+          {
+            label: "Approved, Unpaid",
+            value: formatQuoteAmount(summary.awaitingPayment),
+          },
+          {
+            label: "Reimbursed",
+            value: formatQuoteAmount(summary.reimbursed),
+          },
+          {
+            label: "Short-paid",
+            value: formatQuoteAmount(summary.shortfall),
+          },
+        ].map(({ label, value }) => (
+          <div
+            key={label}
+            className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm"
+          >
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+              {label}
+            </p>
+            <p className="text-2xl font-bold text-slate-800 mt-1">{value}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* 2. FILTERS */}
+      <div className="bg-white p-4 rounded-2xl border border-slate-200 shadow-sm flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search
+            size={16}
+            className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400"
+          />
+          <input
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Ticket, claim number or serial..."
+            className="w-full pl-9 pr-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+          />
+        </div>
+        <select
+          value={brandFilter}
+          onChange={(e) => setBrandFilter(e.target.value)}
+          className="px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg outline-none"
+        >
+          <option value="">All brands</option>
+          {brands.map((brand) => (
+            <option key={brand} value={brand}>
+              {brand}
+            </option>
+          ))}
+        </select>
+        <select
+          value={statusFilter}
+          onChange={(e) =>
+            setStatusFilter(e.target.value as WarrantyClaimStatus | "")
+          }
+          className="px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg outline-none"
+        >
+          <option value="">All statuses</option>
+          {CLAIM_STATUSES.map((status) => (
+            <option key={status} value={status}>
+              {status}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* 3. CLAIMS */}
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm divide-y divide-slate-100">
+        {filtered.map((claim) => (
+          <div
+            key={claim.id}
+            className="px-6 py-3 flex flex-col md:flex-row md:items-center gap-2 md:gap-6"
+          >
+            <button
+              onClick={() => onOpenTicket(claim.ticketId)}
+              className="font-mono text-sm font-bold text-indigo-600 hover:text-indigo-700 flex items-center gap-1 w-40"
+            >
+              {claim.ticketNumber} <ExternalLink size={12} />
+            </button>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-slate-800 truncate">
+                {claim.brand}
+                {claim.serial && (
+                  <span className="font-mono text-slate-500">
+                    {" "}
+                    · {claim.serial}
+                  </span>
+                )}
+              </p>
+              <p className="text-xs text-slate-500 truncate">
+                {describeClaim(claim)}
+              </p>
+            </div>
+            <span
+              className={`text-[10px] px-2 py-0.5 rounded-full font-bold uppercase border w-fit ${
+                CLAIM_STATUS_STYLES[claim.status]
+              }`}
+            >
+              {claim.status}
+            </span>
+            <div className="w-56 flex justify-end">
+              <ClaimActions claim={claim} currentUser={currentUser} />
+            </div>
+          </div>
+        ))}
+        {filtered.length === 0 && (
+          <div className="text-center py-16 text-slate-400 text-sm">
+            No warranty claims.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
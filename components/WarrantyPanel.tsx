@@ -0,0 +1,520 @@
+import React, { useState } from "react";
+import {
+  BadgeCheck,
+  Loader2,
+  AlertTriangle,
+  Plus,
+  Send,
+  CheckCircle2,
+  XCircle,
+  Wallet,
+  Ban,
+  FileBadge,
+} from "lucide-react";
+import {
+  AppSettings,
+  Part,
+  Ticket,
+  User,
+  WarrantyClaim,
+  WarrantyClaimStatus,
+  WarrantyRecord,
+} from "../types";
+import {
+  BrandWarrantyDraft,
+  decideClaim,
+  getBrandRules,
+  getTicketBrand,
+  getTicketWarranties,
+  getWarrantyConfig,
+  isClaimOpen,
+  isWarrantyActive,
+  issueRepairWarranty,
+  openClaim,
+  recordReimbursement,
+  registerBrandWarranty,
+  submitClaim,
+  todayDate,
+  voidWarranty,
+} from "@/services/warrantyEngine";
+import { formatQuoteAmount } from "@/services/quotationEngine";
+import { can } from "@/services/permissionEngine";
+import { getResolvedStatus } from "@/services/workflowEngine";
+
+interface WarrantyPanelProps {
+  ticket: Ticket;
+  warranties: WarrantyRecord[]; // all records; filtered to this ticket's device
+  claims: WarrantyClaim[]; // this ticket's claims
+  parts: Part[];
+  settings: AppSettings;
+  currentUser: User;
+}
+
+export const CLAIM_STATUS_STYLES: Record<WarrantyClaimStatus, string> = {
+  Draft: "bg-slate-100 text-slate-600 border-slate-200",
+  Submitted: "bg-blue-50 text-blue-700 border-blue-200",
+  Approved: "bg-amber-50 text-amber-700 border-amber-200",
+  Rejected: "bg-red-50 text-red-700 border-red-200",
+  Reimbursed: "bg-emerald-50 text-emerald-700 border-emerald-200",
+};
+
+// --- CLAIM ACTIONS ---
+// The next step of a claim; shared with the Warranty Claims board.
+export const ClaimActions: React.FC<{
+  claim: WarrantyClaim;
+  currentUser: User;
+}> = ({ claim, currentUser }) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const canDecide = can(currentUser, "warranty.claim.decide");
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (err: any) {
+      alert(err.message || "Failed to update the claim");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    const claimNumber = window.prompt(
+      `Claim number given by ${claim.brand}:`
+    );
+    if (claimNumber === null) return;
+    run(() => submitClaim(claim, claimNumber, currentUser));
+  };
+
+  const handleApprove = () => {
+    const amount = window.prompt(
+      "Amount approved by the brand:",
+      String(claim.claimedAmount)
+    );
+    if (amount === null) return;
+    run(() => decideClaim(claim, "Approved", Number(amount), "", currentUser));
+  };
+
+  const handleReject = () => {
+    const reason = window.prompt("Brand's reason for rejecting the claim:");
+    if (reason === null) return;
+    run(() => decideClaim(claim, "Rejected", 0, reason, currentUser));
+  };
+
+  const handleReimburse = () => {
+    const amount = window.prompt(
+      "Amount received from the brand:",
+      String(claim.approvedAmount ?? claim.claimedAmount)
+    );
+    if (amount === null) return;
+    const reference = window.prompt("Payment reference (optional):") ?? "";
+    run(() =>
+      recordReimbursement(claim, Number(amount), reference, currentUser)
+    );
+  };
+
+  const buttonClass =
+    "px-2.5 py-1 text-xs font-bold rounded-lg border flex items-center gap-1 disabled:opacity-50";
+
+  if (isSaving) {
+    return <Loader2 size={16} className="animate-spin text-indigo-600" />;
+  }
+  return (
+    <div className="flex gap-2">
+      {claim.status === "Draft" && (
+        <button
+          type="button"
+          onClick={handleSubmit}
+          className={`${buttonClass} bg-white text-blue-700 border-blue-200 hover:bg-blue-50`}
+        >
+          <Send size={12} /> Submit
+        </button>
+      )}
+      {claim.status === "Submitted" && canDecide && (
+        <>
+          <button
+            type="button"
+            onClick={handleApprove}
+            className={`${buttonClass} bg-white text-emerald-700 border-emerald-200 hover:bg-emerald-50`}
+          >
+            <CheckCircle2 size={12} /> Approved
+          </button>
+          <button
+            type="button"
+            onClick={handleReject}
+            className={`${buttonClass} bg-white text-red-700 border-red-200 hover:bg-red-50`}
+          >
+            <XCircle size={12} /> Rejected
+          </button>
+        </>
+      )}
+      {claim.status === "Approved" && canDecide && (
+        <button
+          type="button"
+          onClick={handleReimburse}
+          className={`${buttonClass} bg-white text-emerald-700 border-emerald-200 hover:bg-emerald-50`}
+        >
+          <Wallet size={12} /> Record Payment
+        </button>
+      )}
+    </div>
+  );
+};
+
+// --- CLAIM SUMMARY LINE ---
+export const describeClaim = (claim: WarrantyClaim) =>
+  [
+    `Claimed ${formatQuoteAmount(claim.claimedAmount)}`,
+    claim.claimNumber && `#${claim.claimNumber}`,
+    claim.approvedAmount !== undefined &&
+      `approved ${formatQuoteAmount(claim.approvedAmount)}`,
+    claim.reimbursedAmount !== undefined &&
+      `received ${formatQuoteAmount(claim.reimbursedAmount)}${
+        claim.reimbursementRef ? ` (ref ${claim.reimbursementRef})` : ""
+      }`,
+    claim.rejectionReason && `rejected: ${claim.rejectionReason}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+// --- MAIN COMPONENT ---
+export default function WarrantyPanel({
+  ticket,
+  warranties,
+  claims,
+  parts,
+  settings,
+  currentUser,
+}: WarrantyPanelProps) {
+  const today = todayDate();
+  const records = getTicketWarranties(ticket, warranties, today);
+  const brandName = getTicketBrand(ticket);
+  const rules = getBrandRules(
+    getWarrantyConfig(settings),
+    settings.serviceBrands,
+    brandName
+  );
+  const canManage = can(currentUser, "warranty.claim.decide");
+  const hasRepairWarranty = records.some(
+    (r) => r.kind === "Repair" && r.ticketId === ticket.id && !r.voidedAt
+  );
+  const canIssueRepairWarranty =
+    !hasRepairWarranty &&
+    ticket.status === getResolvedStatus(settings.workflow);
+  const activeBrandWarranties = records.filter(
+    (r) => r.kind === "Brand" && isWarrantyActive(r, today)
+  );
+  const openClaimFound = claims.some(isClaimOpen);
+
+  const [draft, setDraft] = useState<BrandWarrantyDraft>({
+    ruleId: "",
+    startDate: "",
+    billNumber: ticket.warranty ? ticket.billNumber || "" : "",
+  });
+  const [claimAmount, setClaimAmount] = useState(
+    String(ticket.estimatedAmount || "")
+  );
+  const [claimNotes, setClaimNotes] = useState("");
+  const [claimWarrantyId, setClaimWarrantyId] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || "Failed to update the warranty");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRegister = () =>
+    run(async () => {
+      await registerBrandWarranty(
+        ticket,
+        draft,
+        settings,
+        parts,
+        currentUser
+      );
+      setDraft({ ...draft, ruleId: "", startDate: "" });
+    });
+
+  const handleOpenClaim = () =>
+    run(async () => {
+      await openClaim(
+        ticket,
+        activeBrandWarranties.find((r) => r.id === claimWarrantyId),
+        Number(claimAmount),
+        claimNotes,
+        claims,
+        currentUser
+      );
+      setClaimNotes("");
+    });
+
+  const handleVoid = (record: WarrantyRecord) => {
+    const reason = window.prompt(`Reason for voiding the ${record.coverage} warranty:`);
+    if (reason === null) return;
+    run(() => voidWarranty(record, reason, currentUser));
+  };
+
+  const inputClass =
+    "w-full px-2 py-1.5 text-sm bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500";
+  const labelClass =
+    "block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1";
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+        <BadgeCheck size={20} className="text-indigo-600" /> Warranty
+      </h3>
+
+      {error && (
+        <div className="p-3 bg-red-50 text-red-600 text-xs font-bold rounded-lg flex items-center gap-2">
+          <AlertTriangle size={14} />
+          {error}
+        </div>
+      )}
+
+      {/* 1. Warranties on this device */}
+      <div className="space-y-2">
+        {records.length === 0 && (
+          <p className="text-sm text-slate-400">
+            No warranties recorded for this device.
+          </p>
+        )}
+        {records.map((record) => {
+          const active = isWarrantyActive(record, today);
+          return (
+            <div
+              key={record.id}
+              className={`p-4 rounded-xl border flex items-start gap-4 ${
+                active
+                  ? "bg-emerald-50/50 border-emerald-200"
+                  : "bg-slate-50 border-slate-200"
+              }`}
+            >
+              <FileBadge
+                size={20}
+                className={active ? "text-emerald-600" : "text-slate-400"}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-bold text-slate-800">
+                  {record.coverage}
+                  <span className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-white border border-slate-200 text-slate-500 font-bold uppercase">
+                    {record.kind}
+                  </span>
+                </p>
+                <p className="text-xs text-slate-600 mt-0.5">
+                  {record.startDate} → {record.endDate}
+                  {record.billNumber && ` · bill ${record.billNumber}`}
+                  {record.ticketNumber &&
+                    record.ticketId !== ticket.id &&
+                    ` · via ${record.ticketNumber}`}
+                </p>
+                {record.terms && (
+                  <p className="text-xs text-slate-500 mt-1">{record.terms}</p>
+                )}
+                {record.voidedAt && (
+                  <p className="text-xs text-red-600 mt-1">
+                    Voided by {record.voidedBy}: {record.voidReason}
+                  </p>
+                )}
+              </div>
+              <div className="flex flex-col items-end gap-2">
+                <span
+                  className={`text-[10px] px-2 py-0.5 rounded-full font-bold uppercase border ${
+                    record.voidedAt
+                      ? "bg-red-50 text-red-700 border-red-200"
+                      : active
+                      ? "bg-emerald-50 text-emerald-700 border-emerald-200"
+                      : "bg-slate-100 text-slate-600 border-slate-200"
+                  }`}
+                >
+                  {record.voidedAt ? "Void" : active ? "Active" : "Expired"}
+                </span>
+                {canManage && !record.voidedAt && (
+                  <button
+                    type="button"
+                    onClick={() => handleVoid(record)}
+                    disabled={isSaving}
+                    className="text-xs text-slate-400 hover:text-red-600 flex items-center gap-1"
+                  >
+                    <Ban size={12} /> Void
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {canIssueRepairWarranty && (
+          <button
+            type="button"
+            onClick={() =>
+              run(() => issueRepairWarranty(ticket, settings, currentUser))
+            }
+            disabled={isSaving}
+            className="px-3 py-1.5 text-xs font-bold bg-white text-indigo-700 border border-indigo-200 rounded-lg hover:bg-indigo-50 flex items-center gap-1"
+          >
+            <Plus size={12} /> Issue Repair Warranty
+          </button>
+        )}
+      </div>
+
+      {/* 2. Register a brand warranty */}
+      <div className="bg-slate-50 rounded-xl border border-slate-200 p-4 space-y-3">
+        <p className="text-sm font-bold text-slate-700">
+          Register Brand Warranty
+          {brandName && (
+            <span className="font-normal text-slate-500"> · {brandName}</span>
+          )}
+        </p>
+        {rules.length === 0 ? (
+          <p className="text-xs text-slate-500">
+            No warranty rules for {brandName || "this brand"}. Add them in
+            Settings → Warranty.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div className="md:col-span-2">
+              <label className={labelClass}>Coverage</label>
+              <select
+                value={draft.ruleId}
+                onChange={(e) => setDraft({ ...draft, ruleId: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Select...</option>
+                {rules.map((rule) => (
+                  <option key={rule.id} value={rule.id}>
+                    {rule.label} · {rule.months} months
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Purchase Date</label>
+              <input
+                type="date"
+                value={draft.startDate}
+                max={today}
+                onChange={(e) =>
+                  setDraft({ ...draft, startDate: e.target.value })
+                }
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Bill Number</label>
+              <input
+                value={draft.billNumber}
+                onChange={(e) =>
+                  setDraft({ ...draft, billNumber: e.target.value })
+                }
+                className={inputClass}
+              />
+            </div>
+            <div className="md:col-span-4 flex justify-end">
+              <button
+                type="button"
+                onClick={handleRegister}
+                disabled={isSaving}
+                className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 flex items-center gap-2 disabled:opacity-50"
+              >
+                {isSaving ? (
+                  <Loader2 size={16} className="animate-spin" />
+                ) : (
+                  <Plus size={16} />
+                )}
+                Register
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* 3. Brand claim */}
+      {ticket.warranty && (
+        <div className="bg-white rounded-xl border border-slate-200 p-4 space-y-3">
+          <p className="text-sm font-bold text-slate-700">Brand Claim</p>
+          {claims.map((claim) => (
+            <div
+              key={claim.id}
+              className="p-3 rounded-lg border border-slate-100 bg-slate-50 flex flex-col md:flex-row md:items-center gap-3"
+            >
+              <span
+                className={`text-[10px] px-2 py-0.5 rounded-full font-bold uppercase border w-fit ${
+                  CLAIM_STATUS_STYLES[claim.status]
+                }`}
+              >
+                {claim.status}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-slate-800">{describeClaim(claim)}</p>
+                <p className="text-xs text-slate-500">
+                  {claim.brand} · opened by {claim.openedBy} on{" "}
+                  {new Date(claim.openedAt).toLocaleDateString()}
+                  {claim.notes && ` · ${claim.notes}`}
+                </p>
+              </div>
+              <ClaimActions claim={claim} currentUser={currentUser} />
+            </div>
+          ))}
+
+          {!openClaimFound && (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <div>
+                <label className={labelClass}>Claim Amount</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={claimAmount}
+                  onChange={(e) => setClaimAmount(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Warranty</label>
+                <select
+                  value={claimWarrantyId}
+                  onChange={(e) => setClaimWarrantyId(e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">Not registered</option>
+                  {activeBrandWarranties.map((record) => (
+                    <option key={record.id} value={record.id}>
+                      {record.coverage} (to {record.endDate})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="md:col-span-2">
+                <label className={labelClass}>Notes</label>
+                <input
+                  value={claimNotes}
+                  onChange={(e) => setClaimNotes(e.target.value)}
+                  placeholder="Parts replaced, labour..."
+                  className={inputClass}
+                />
+              </div>
+              <div className="md:col-span-4 flex justify-end">
+                <button
+                  type="button"
+                  onClick={handleOpenClaim}
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 flex items-center gap-2 disabled:opacity-50"
+                >
+                  <Plus size={16} /> Open Claim
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
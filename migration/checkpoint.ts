@@ -0,0 +1,42 @@
+import { readFile, writeFile, rename } from "node:fs/promises";
+
+// Progress of a migration run, keyed by Supabase id -> Firestore doc id.
+// Written after every committed batch so an interrupted run can resume
+// without re-reading what it already imported.
+export interface Checkpoint {
+  version: 1;
+  updatedAt: string;
+  customers: Record<string, string>;
+  tickets: Record<string, string>;
+}
+
+export const emptyCheckpoint = (): Checkpoint => ({
+  version: 1,
+  updatedAt: new Date().toISOString(),
+  customers: {},
+  tickets: {},
+});
+
+export async function loadCheckpoint(path: string): Promise<Checkpoint> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (err: any) {
+    if (err.code === "ENOENT") return emptyCheckpoint();
+    throw err;
+  }
+
+  const parsed = JSON.parse(text);
+  if (parsed?.version !== 1) {
+    throw new Error(`${path}: unrecognised checkpoint version`);
+  }
+  return { ...emptyCheckpoint(), ...parsed };
+}
+
+// Write-then-rename so a crash mid-write never leaves a truncated file.
+export async function saveCheckpoint(path: string, checkpoint: Checkpoint) {
+  checkpoint.updatedAt = new Date().toISOString();
+  const tmpPath = `${path}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(checkpoint, null, 2));
+  await rename(tmpPath, path);
+}
@@ -0,0 +1,99 @@
+import { writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { SupabaseCustomer, SupabaseTicket } from "../types";
+import { readExport } from "./exportReader";
+import { loadCheckpoint, saveCheckpoint } from "./checkpoint";
+import {
+  createFirestoreTarget,
+  hasFirebaseCredentials,
+  MAX_BATCH_SIZE,
+} from "./firestoreTarget";
+import { formatReport, runMigration } from "./runMigration";
+
+// Supabase -> Firestore import.
+//
+//   npm run migrate -- --customers customers.csv --tickets tickets.json --dry-run
+//
+// Needs GOOGLE_APPLICATION_CREDENTIALS pointing at a service account key
+// (optional for --dry-run; without it nothing counts as already imported).
+
+const USAGE = `Usage: npm run migrate -- [options]
+
+  --customers <file>    Supabase customers export (.json or .csv)
+  --tickets <file>      Supabase tickets export (.json or .csv)
+  --dry-run             Report what would be imported without writing
+  --checkpoint <file>   Progress file for resuming (default: migration/.checkpoint.json)
+  --batch-size <n>      Documents per Firestore batch (default/max: ${MAX_BATCH_SIZE})
+  --report <file>       Also write the reconciliation report as JSON
+  --help                Show this message`;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      customers: { type: "string" },
+      tickets: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      checkpoint: { type: "string", default: "migration/.checkpoint.json" },
+      "batch-size": { type: "string", default: String(MAX_BATCH_SIZE) },
+      report: { type: "string" },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help || (!values.customers && !values.tickets)) {
+    console.log(USAGE);
+    return;
+  }
+
+  const dryRun = values["dry-run"]!;
+  const batchSize = Number(values["batch-size"]);
+  if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_BATCH_SIZE) {
+    throw new Error(`--batch-size must be between 1 and ${MAX_BATCH_SIZE}`);
+  }
+
+  if (!hasFirebaseCredentials() && !dryRun) {
+    throw new Error("Set GOOGLE_APPLICATION_CREDENTIALS to a service account key");
+  }
+  if (!hasFirebaseCredentials()) {
+    console.warn("⚠️ No Firebase credentials: duplicates in Firestore won't be detected");
+  }
+
+  const customers = values.customers
+    ? await readExport<SupabaseCustomer>(values.customers)
+    : [];
+  const tickets = values.tickets
+    ? await readExport<SupabaseTicket>(values.tickets)
+    : [];
+
+  const checkpointPath = values.checkpoint!;
+  const checkpoint = await loadCheckpoint(checkpointPath);
+  const resumable =
+    Object.keys(checkpoint.customers).length + Object.keys(checkpoint.tickets).length;
+  if (resumable > 0) {
+    console.log(`🔹 Resuming from ${checkpointPath} (${resumable} already imported)`);
+  }
+
+  const report = await runMigration({
+    customers,
+    tickets,
+    target: hasFirebaseCredentials() ? createFirestoreTarget() : null,
+    dryRun,
+    batchSize,
+    checkpoint,
+    saveCheckpoint: () => saveCheckpoint(checkpointPath, checkpoint),
+  });
+
+  console.log("\n" + formatReport(report));
+  if (values.report) {
+    await writeFile(values.report, JSON.stringify(report, null, 2));
+    console.log(`📄 Report written to ${values.report}`);
+  }
+
+  const failures = report.customers.failed.length + report.tickets.failed.length;
+  if (failures > 0) process.exitCode = 1;
+}
+
+main().catch((err) => {
+  console.error(`❌ ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+});
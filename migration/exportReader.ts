@@ -0,0 +1,101 @@
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+
+// Reads a Supabase table export. Accepts the JSON array produced by the
+// dashboard / `select *`, a `{ data: [...] }` API response, or a CSV export.
+
+// --- CSV ---
+
+// RFC 4180-style parser: quoted fields, escaped quotes ("") and newlines
+// inside quotes are supported.
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') inQuotes = true;
+    else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += char;
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+};
+
+// CSV has no types: empty cells become null, JSON columns (device, history,
+// notes) are parsed back, and numeric columns are converted.
+const NUMERIC_COLUMNS = ["amount_estimate"];
+
+const coerceCell = (column: string, value: string): unknown => {
+  if (value === "") return null;
+  if (NUMERIC_COLUMNS.includes(column)) return Number(value) || 0;
+
+  const trimmed = value.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+};
+
+const csvToRecords = (text: string) => {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) return [];
+  const columns = header.map((h) => h.trim());
+
+  return rows.map((cells) => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      record[column] = coerceCell(column, cells[index] ?? "");
+    });
+    return record;
+  });
+};
+
+// --- PUBLIC ---
+
+export async function readExport<T>(path: string): Promise<T[]> {
+  const text = await readFile(path, "utf8");
+  const extension = extname(path).toLowerCase();
+
+  if (extension === ".csv") return csvToRecords(text) as T[];
+
+  if (extension === ".json") {
+    const parsed = JSON.parse(text);
+    if (Array.isArray(parsed)) return parsed;
+    if (Array.isArray(parsed?.data)) return parsed.data;
+    throw new Error(`${path}: expected a JSON array of rows`);
+  }
+
+  throw new Error(`${path}: unsupported export format (use .json or .csv)`);
+}
@@ -0,0 +1,107 @@
+import { initializeApp, applicationDefault, getApps } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore, FieldValue, Firestore } from "firebase-admin/firestore";
+
+// Firestore / Firebase Auth access for the migration CLI. Uses the Admin SDK
+// (service account via GOOGLE_APPLICATION_CREDENTIALS) so the import neither
+// signs in as the customers it creates nor is limited by security rules.
+
+export interface ExistingCustomer {
+  docId: string;
+  supabaseCustomerId?: string;
+  name?: string;
+  email?: string;
+  mobile?: string;
+  address?: string;
+}
+
+export interface PendingWrite {
+  collection: "customers" | "tickets";
+  id: string;
+  data: Record<string, unknown>;
+}
+
+export interface MigrationTarget {
+  loadCustomers(): Promise<ExistingCustomer[]>;
+  // supabaseTicketId -> Firestore doc id, for tickets imported earlier
+  loadImportedTicketIds(): Promise<Map<string, string>>;
+  // Returns the uid of the auth user for `email`, creating it if needed.
+  ensureAuthUser(email: string, password: string): Promise<string>;
+  newTicketId(): string;
+  // Commits all writes atomically (one Firestore batch) and stamps each
+  // document with `createdOn`.
+  commit(writes: PendingWrite[]): Promise<void>;
+}
+
+// Firestore caps a batch at 500 operations.
+export const MAX_BATCH_SIZE = 500;
+
+export const hasFirebaseCredentials = () =>
+  !!process.env.GOOGLE_APPLICATION_CREDENTIALS;
+
+export function createFirestoreTarget(): MigrationTarget {
+  const app =
+    getApps()[0] ??
+    initializeApp({
+      credential: applicationDefault(),
+      projectId: process.env.FIREBASE_PROJECT_ID || "infofix-app",
+    });
+  const db: Firestore = getFirestore(app);
+  const auth = getAuth(app);
+
+  return {
+    async loadCustomers() {
+      const snapshot = await db.collection("customers").get();
+      return snapshot.docs.map((d) => {
+        const data = d.data();
+        return {
+          docId: d.id,
+          supabaseCustomerId: data.supabaseCustomerId,
+          name: data.name,
+          email: data.email,
+          mobile: data.mobile,
+          address: data.address,
+        };
+      });
+    },
+
+    async loadImportedTicketIds() {
+      const snapshot = await db
+        .collection("tickets")
+        .where("source", "==", "supabase")
+        .select("supabaseTicketId")
+        .get();
+
+      const ids = new Map<string, string>();
+      snapshot.docs.forEach((d) => {
+        const supabaseId = d.get("supabaseTicketId");
+        if (supabaseId) ids.set(supabaseId, d.id);
+      });
+      return ids;
+    },
+
+    async ensureAuthUser(email, password) {
+      try {
+        return (await auth.getUserByEmail(email)).uid;
+      } catch (err: any) {
+        if (err.code !== "auth/user-not-found") throw err;
+      }
+      return (await auth.createUser({ email, password })).uid;
+    },
+
+    newTicketId() {
+      return db.collection("tickets").doc().id;
+    },
+
+    async commit(writes) {
+      const batch = db.batch();
+      writes.forEach((w) =>
+        batch.set(db.collection(w.collection).doc(w.id), {
+          ...w.data,
+          createdOn: FieldValue.serverTimestamp(),
+        })
+      );
+      await batch.commit();
+    },
+  };
+}
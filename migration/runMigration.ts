@@ -0,0 +1,308 @@
+import { SupabaseCustomer, SupabaseTicket } from "../types";
+import { fromSupabaseTicket } from "../services/ticketMapper";
+import { Checkpoint } from "./checkpoint";
+import { ExistingCustomer, MigrationTarget, PendingWrite } from "./firestoreTarget";
+
+// --- TYPES ---
+
+export interface EntityReport {
+  total: number;
+  imported: number;
+  resumed: number; // imported by an earlier, interrupted run
+  skippedDuplicate: number;
+  orphaned: string[]; // tickets whose customer is in neither the export nor Firestore
+  failed: { id: string; reason: string }[];
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+  customers: EntityReport;
+  tickets: EntityReport;
+}
+
+export interface MigrationOptions {
+  customers: SupabaseCustomer[];
+  tickets: SupabaseTicket[];
+  // null only for a dry run without Firestore credentials: nothing is
+  // treated as already imported.
+  target: MigrationTarget | null;
+  dryRun: boolean;
+  batchSize: number;
+  checkpoint: Checkpoint;
+  saveCheckpoint: () => Promise<void>;
+}
+
+const emptyReport = (total: number): EntityReport => ({
+  total,
+  imported: 0,
+  resumed: 0,
+  skippedDuplicate: 0,
+  orphaned: [],
+  failed: [],
+});
+
+const errorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : String(err);
+
+// --- BATCHING ---
+
+interface QueuedWrite extends PendingWrite {
+  supabaseId: string;
+}
+
+// Collects writes and commits them in batches. The checkpoint is updated
+// only after a batch commits, so a crash can at worst redo one batch.
+const createBatcher = (
+  entity: "customers" | "tickets",
+  report: EntityReport,
+  options: MigrationOptions,
+  onFailed?: (writes: QueuedWrite[]) => void
+) => {
+  let queue: QueuedWrite[] = [];
+
+  const flush = async () => {
+    if (queue.length === 0) return;
+    const writes = queue;
+    queue = [];
+
+    if (options.dryRun || !options.target) {
+      report.imported += writes.length;
+      return;
+    }
+
+    try {
+      await options.target.commit(writes);
+      writes.forEach((w) => (options.checkpoint[entity][w.supabaseId] = w.id));
+      await options.saveCheckpoint();
+      report.imported += writes.length;
+      console.log(`✅ Committed ${writes.length} ${entity}`);
+    } catch (err) {
+      const reason = `Batch commit failed: ${errorMessage(err)}`;
+      writes.forEach((w) => report.failed.push({ id: w.supabaseId, reason }));
+      onFailed?.(writes);
+      console.error(`❌ ${reason}`);
+    }
+  };
+
+  return {
+    async add(write: QueuedWrite) {
+      queue.push(write);
+      if (queue.length >= options.batchSize) await flush();
+    },
+    flush,
+  };
+};
+
+// --- CUSTOMERS ---
+
+const importCustomers = async (
+  options: MigrationOptions,
+  existing: ExistingCustomer[],
+  // Filled with every customer a ticket may point to, keyed by Supabase id
+  known: Map<string, ExistingCustomer>
+) => {
+  const report = emptyReport(options.customers.length);
+  // Tickets of customers that failed to commit are reported as orphaned
+  // rather than written with a dangling customerId.
+  const batcher = createBatcher("customers", report, options, (writes) =>
+    writes.forEach((w) => known.delete(w.supabaseId))
+  );
+
+  const bySupabaseId = new Map<string, ExistingCustomer>();
+  const byMobile = new Map<string, ExistingCustomer>();
+  const usedDocIds = new Set<string>();
+  existing.forEach((c) => {
+    if (c.supabaseCustomerId) bySupabaseId.set(c.supabaseCustomerId, c);
+    if (c.mobile) byMobile.set(c.mobile, c);
+    usedDocIds.add(c.docId);
+  });
+
+  for (const customer of options.customers) {
+    const email = customer.email?.trim();
+    const mobile = customer.phone?.trim();
+    const info = {
+      name: customer.name || "",
+      email: email || "",
+      mobile: mobile || "",
+      address: customer.address || "",
+    };
+
+    const resumedId = options.checkpoint.customers[customer.id];
+    if (resumedId) {
+      known.set(customer.id, { ...info, docId: resumedId });
+      report.resumed++;
+      continue;
+    }
+
+    const duplicate =
+      bySupabaseId.get(customer.id) ?? (mobile ? byMobile.get(mobile) : undefined);
+    if (duplicate) {
+      known.set(customer.id, duplicate);
+      report.skippedDuplicate++;
+      continue;
+    }
+
+    if (!mobile || mobile.replace(/\D/g, "").length < 6) {
+      report.failed.push({ id: customer.id, reason: `Invalid mobile "${mobile ?? ""}"` });
+      continue;
+    }
+
+    const validEmail =
+      email && email.includes("@") ? email.toLowerCase() : `${mobile}@temp.customer`;
+
+    let docId = `dry-run-${customer.id}`;
+    if (!options.dryRun && options.target) {
+      try {
+        docId = await options.target.ensureAuthUser(validEmail, mobile);
+      } catch (err) {
+        report.failed.push({ id: customer.id, reason: `Auth: ${errorMessage(err)}` });
+        continue;
+      }
+    }
+
+    // Two export rows resolving to one auth user would overwrite each other.
+    if (usedDocIds.has(docId)) {
+      report.skippedDuplicate++;
+      continue;
+    }
+
+    const record: ExistingCustomer = {
+      ...info,
+      email: validEmail,
+      docId,
+      supabaseCustomerId: customer.id,
+    };
+    known.set(customer.id, record);
+    byMobile.set(mobile, record);
+    usedDocIds.add(docId);
+
+    await batcher.add({
+      collection: "customers",
+      id: docId,
+      supabaseId: customer.id,
+      data: {
+        name: info.name,
+        email: validEmail,
+        mobile,
+        address: info.address,
+        createdAt: customer.created_at ? new Date(customer.created_at) : new Date(),
+        source: "supabase",
+        supabaseCustomerId: customer.id,
+        role: "CUSTOMER",
+      },
+    });
+  }
+
+  await batcher.flush();
+  return report;
+};
+
+// --- TICKETS ---
+
+const importTickets = async (
+  options: MigrationOptions,
+  importedIds: Map<string, string>,
+  customers: Map<string, ExistingCustomer>
+) => {
+  const report = emptyReport(options.tickets.length);
+  const batcher = createBatcher("tickets", report, options);
+
+  for (const ticket of options.tickets) {
+    if (options.checkpoint.tickets[ticket.id]) {
+      report.resumed++;
+      continue;
+    }
+    if (importedIds.has(ticket.id)) {
+      report.skippedDuplicate++;
+      continue;
+    }
+
+    const customer = customers.get(ticket.customer_id);
+    if (!customer) {
+      report.orphaned.push(ticket.id);
+      continue;
+    }
+
+    try {
+      const { id: _id, ...mapped } = fromSupabaseTicket(ticket, customer);
+      const fields = Object.fromEntries(
+        Object.entries(mapped).filter(([, value]) => value !== undefined)
+      );
+
+      await batcher.add({
+        collection: "tickets",
+        id: options.target ? options.target.newTicketId() : `dry-run-${ticket.id}`,
+        supabaseId: ticket.id,
+        data: {
+          ...fields,
+          supabaseTicketId: ticket.id,
+          customerId: customer.docId,
+          createdAt: new Date(ticket.created_at),
+          resolvedAt: ticket.resolved_at ? new Date(ticket.resolved_at) : null,
+          source: "supabase",
+        },
+      });
+      importedIds.set(ticket.id, ""); // guards against repeats within the export
+    } catch (err) {
+      report.failed.push({ id: ticket.id, reason: errorMessage(err) });
+    }
+  }
+
+  await batcher.flush();
+  return report;
+};
+
+// --- RUN ---
+
+export async function runMigration(options: MigrationOptions): Promise<MigrationReport> {
+  const existingCustomers = options.target ? await options.target.loadCustomers() : [];
+  const importedTicketIds = options.target
+    ? await options.target.loadImportedTicketIds()
+    : new Map<string, string>();
+
+  // Customers already in Firestore from an earlier import count as known,
+  // even when this run's export doesn't include them.
+  const known = new Map<string, ExistingCustomer>();
+  existingCustomers.forEach((c) => {
+    if (c.supabaseCustomerId) known.set(c.supabaseCustomerId, c);
+  });
+
+  console.log(`🔹 Importing ${options.customers.length} customers...`);
+  const customers = await importCustomers(options, existingCustomers, known);
+
+  console.log(`🔹 Importing ${options.tickets.length} tickets...`);
+  const tickets = await importTickets(options, importedTicketIds, known);
+
+  return { dryRun: options.dryRun, customers, tickets };
+}
+
+// --- REPORT ---
+
+export function formatReport(report: MigrationReport): string {
+  const row = (label: string, value: number) => `  ${label.padEnd(32)}${value}`;
+  const lines = [
+    report.dryRun
+      ? "Reconciliation report (dry run, nothing written)"
+      : "Reconciliation report",
+    "",
+  ];
+
+  (["customers", "tickets"] as const).forEach((entity) => {
+    const r = report[entity];
+    lines.push(
+      `${entity.toUpperCase()} (${r.total} in export)`,
+      row(report.dryRun ? "Would import:" : "Imported:", r.imported),
+      row("Already imported (checkpoint):", r.resumed),
+      row("Skipped as duplicate:", r.skippedDuplicate)
+    );
+    if (entity === "tickets") {
+      lines.push(row("Orphaned (no customer):", r.orphaned.length));
+      r.orphaned.forEach((id) => lines.push(`    - ${id}`));
+    }
+    lines.push(row("Failed:", r.failed.length));
+    r.failed.forEach((f) => lines.push(`    - ${f.id}: ${f.reason}`));
+    lines.push("");
+  });
+
+  return lines.join("\n");
+}
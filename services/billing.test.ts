@@ -0,0 +1,201 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Invoice, InvoiceLine, Payment, PaymentKind, Ticket } from "../types";
+import {
+  calculateInvoiceTotals,
+  calculateQuoteTotals,
+  getAllowedPaymentKinds,
+  getDuesSummary,
+  getTicketBalance,
+  sumPayments,
+  TicketBalance,
+} from "./billing";
+
+const line = (
+  kind: InvoiceLine["kind"],
+  quantity: number,
+  unitPrice: number,
+  taxRate: number
+): InvoiceLine => ({
+  id: `${kind}-${unitPrice}-${taxRate}`,
+  kind,
+  description: kind === "part" ? "Display" : "Repair",
+  quantity,
+  unitPrice,
+  taxRate,
+});
+
+const screen = line("part", 1, 2000, 18);
+const labour = line("labour", 1, 500, 18);
+const cable = line("part", 2, 150, 12);
+
+describe("calculateQuoteTotals", () => {
+  it("splits parts and labour and adds each line's tax", () => {
+    assert.deepEqual(calculateQuoteTotals([screen, labour, cable]), {
+      parts: 2300,
+      labour: 500,
+      subtotal: 2800,
+      tax: 486,
+      total: 3286,
+    });
+  });
+
+  it("is zero for no lines", () => {
+    assert.equal(calculateQuoteTotals([]).total, 0);
+  });
+});
+
+describe("calculateInvoiceTotals", () => {
+  it("groups tax by rate", () => {
+    const totals = calculateInvoiceTotals([screen, labour, cable], 0, false);
+    assert.deepEqual(totals, {
+      subtotal: 2800,
+      discount: 0,
+      taxes: [
+        { rate: 12, taxable: 300, tax: 36 },
+        { rate: 18, taxable: 2500, tax: 450 },
+      ],
+      tax: 486,
+      total: 3286,
+    });
+  });
+
+  it("spreads the discount over the rates by amount", () => {
+    const totals = calculateInvoiceTotals([screen, cable], 230, false);
+    assert.equal(totals.discount, 230);
+    assert.deepEqual(totals.taxes, [
+      { rate: 12, taxable: 270, tax: 32.4 },
+      { rate: 18, taxable: 1800, tax: 324 },
+    ]);
+    assert.equal(totals.tax, 356.4);
+    assert.equal(totals.total, 2426.4);
+  });
+
+  it("caps the discount at the subtotal and ignores negative ones", () => {
+    const capped = calculateInvoiceTotals([labour], 900, false);
+    assert.equal(capped.discount, 500);
+    assert.deepEqual(capped.taxes, []);
+    assert.equal(capped.total, 0);
+
+    assert.equal(calculateInvoiceTotals([labour], -50, false).discount, 0);
+  });
+
+  it("charges nothing on warranty jobs but keeps the lines' subtotal", () => {
+    const totals = calculateInvoiceTotals([screen, labour], 0, true);
+    assert.equal(totals.subtotal, 2500);
+    assert.equal(totals.discount, 2500);
+    assert.equal(totals.tax, 0);
+    assert.equal(totals.total, 0);
+  });
+
+  it("rounds each line to the paisa", () => {
+    const totals = calculateInvoiceTotals(
+      [line("part", 3, 33.333, 18)],
+      0,
+      false
+    );
+    assert.equal(totals.subtotal, 100);
+    assert.equal(totals.tax, 18);
+    assert.equal(totals.total, 118);
+  });
+});
+
+// --- BALANCES ---
+
+const ticket = (id: string, estimatedAmount = 0) =>
+  ({ id, ticketId: `TKT-IF-${id}`, estimatedAmount } as Ticket);
+
+const invoice = (ticketId: string, total: number, status = "Issued") =>
+  ({ id: `inv-${ticketId}-${status}`, ticketId, total, status } as Invoice);
+
+let paymentCount = 0;
+const payment = (ticketId: string, kind: PaymentKind, amount: number) =>
+  ({ id: `p${++paymentCount}`, ticketId, kind, amount } as Payment);
+
+describe("sumPayments", () => {
+  it("subtracts refunds", () => {
+    assert.equal(
+      sumPayments([
+        payment("1", "Advance", 500.1),
+        payment("1", "Part Payment", 200.2),
+        payment("1", "Refund", 100),
+      ]),
+      600.3
+    );
+  });
+});
+
+describe("getTicketBalance", () => {
+  it("bills the active invoice and ignores void ones and other tickets", () => {
+    const balance = getTicketBalance(
+      ticket("1", 1000),
+      [invoice("1", 900, "Void"), invoice("1", 1180), invoice("2", 50)],
+      [payment("1", "Advance", 500), payment("2", "Final", 50)]
+    );
+    assert.deepEqual(balance, {
+      basis: "invoice",
+      billed: 1180,
+      received: 500,
+      outstanding: 680,
+      credit: 0,
+    });
+  });
+
+  it("shows the estimate before invoicing", () => {
+    const balance = getTicketBalance(ticket("1", 1000), [], [
+      payment("1", "Advance", 1200),
+    ]);
+    assert.equal(balance.basis, "estimate");
+    assert.equal(balance.outstanding, 0);
+    assert.equal(balance.credit, 200);
+  });
+
+  it("has no basis without an invoice or estimate", () => {
+    assert.equal(getTicketBalance(ticket("1"), [], []).basis, "none");
+  });
+});
+
+describe("getDuesSummary", () => {
+  it("counts invoiced balances as receivables and the rest as advances", () => {
+    const owing = ticket("1");
+    const summary = getDuesSummary(
+      [owing, ticket("2"), ticket("3", 700)],
+      [invoice("1", 1000), invoice("2", 400)],
+      [
+        payment("1", "Part Payment", 250),
+        payment("2", "Final", 400),
+        payment("3", "Advance", 300),
+      ]
+    );
+    assert.equal(summary.invoiced, 1400);
+    assert.equal(summary.received, 950);
+    assert.equal(summary.outstanding, 750);
+    assert.equal(summary.advances, 300);
+    assert.deepEqual(summary.tickets.map((t) => t.ticket), [owing]);
+  });
+});
+
+describe("getAllowedPaymentKinds", () => {
+  it("follows the balance", () => {
+    const balance = (fields: Partial<TicketBalance>): TicketBalance => ({
+      basis: "invoice",
+      billed: 1000,
+      received: 0,
+      outstanding: 1000,
+      credit: 0,
+      ...fields,
+    });
+    assert.deepEqual(getAllowedPaymentKinds(balance({})), [
+      "Part Payment",
+      "Final",
+    ]);
+    assert.deepEqual(
+      getAllowedPaymentKinds(balance({ received: 1000, outstanding: 0 })),
+      ["Refund"]
+    );
+    assert.deepEqual(
+      getAllowedPaymentKinds(balance({ basis: "estimate", received: 100 })),
+      ["Advance", "Part Payment", "Refund"]
+    );
+  });
+});
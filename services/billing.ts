@@ -0,0 +1,189 @@
+import {
+  Invoice,
+  InvoiceLine,
+  Payment,
+  PaymentKind,
+  QuoteLineItem,
+  QuoteLineKind,
+  TaxBreakdown,
+  Ticket,
+} from "../types";
+
+// Money arithmetic for quotations, invoices and payments. Nothing here reads
+// or writes data, so the engines that do (quotationEngine, invoiceEngine,
+// paymentEngine) and the screens share one set of sums.
+
+export const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const lineAmount = (item: QuoteLineItem) =>
+  round2(item.quantity * item.unitPrice);
+
+// --- QUOTE TOTALS ---
+
+export interface QuoteTotals {
+  parts: number;
+  labour: number;
+  subtotal: number;
+  tax: number;
+  total: number;
+}
+
+export const calculateQuoteTotals = (items: QuoteLineItem[]): QuoteTotals => {
+  const sum = (kind: QuoteLineKind) =>
+    items
+      .filter((i) => i.kind === kind)
+      .reduce((total, i) => total + lineAmount(i), 0);
+  const parts = round2(sum("part"));
+  const labour = round2(sum("labour"));
+  const tax = round2(
+    items.reduce((total, i) => total + (lineAmount(i) * i.taxRate) / 100, 0)
+  );
+  const subtotal = round2(parts + labour);
+  return { parts, labour, subtotal, tax, total: round2(subtotal + tax) };
+};
+
+// --- INVOICE TOTALS ---
+
+export interface InvoiceTotals {
+  subtotal: number;
+  discount: number; // as applied (capped at the subtotal)
+  taxes: TaxBreakdown[];
+  tax: number;
+  total: number;
+}
+
+// The discount is spread over the lines in proportion to their amount, so
+// each tax rate is charged on its discounted share. Warranty jobs discount
+// the whole subtotal.
+export const calculateInvoiceTotals = (
+  lines: InvoiceLine[],
+  discount: number,
+  warranty: boolean
+): InvoiceTotals => {
+  const subtotal = round2(lines.reduce((sum, l) => sum + lineAmount(l), 0));
+  const applied = warranty
+    ? subtotal
+    : round2(Math.min(Math.max(discount || 0, 0), subtotal));
+  const factor = subtotal > 0 ? (subtotal - applied) / subtotal : 0;
+
+  const byRate = new Map<number, number>();
+  lines.forEach((l) =>
+    byRate.set(l.taxRate, (byRate.get(l.taxRate) ?? 0) + lineAmount(l) * factor)
+  );
+  const taxes = Array.from(byRate.entries())
+    .map(([rate, taxable]) => ({
+      rate,
+      taxable: round2(taxable),
+      tax: round2((taxable * rate) / 100),
+    }))
+    .filter((t) => t.taxable > 0)
+    .sort((a, b) => a.rate - b.rate);
+
+  const tax = round2(taxes.reduce((sum, t) => sum + t.tax, 0));
+  return {
+    subtotal,
+    discount: applied,
+    taxes,
+    tax,
+    total: round2(subtotal - applied + tax),
+  };
+};
+
+export const getActiveInvoice = (invoices: Invoice[], ticketId: string) =>
+  invoices.find((i) => i.ticketId === ticketId && i.status === "Issued") ??
+  null;
+
+// --- PAYMENTS ---
+
+export const signedAmount = (payment: Payment) =>
+  payment.kind === "Refund" ? -payment.amount : payment.amount;
+
+// Net money received (refunds subtracted).
+export const sumPayments = (payments: Payment[]) =>
+  round2(payments.reduce((sum, p) => sum + signedAmount(p), 0));
+
+// --- BALANCES ---
+// What the customer owes comes from the active invoice; before a ticket is
+// invoiced its estimate is shown as the expected amount, but only invoiced
+// balances count as receivables.
+
+export interface TicketBalance {
+  basis: "invoice" | "estimate" | "none";
+  billed: number; // invoice total, or the estimate before invoicing
+  received: number;
+  outstanding: number; // never negative
+  credit: number; // received beyond what is billed
+}
+
+export const getTicketBalance = (
+  ticket: Ticket,
+  invoices: Invoice[], // may include other tickets' invoices
+  payments: Payment[] // may include other tickets' payments
+): TicketBalance => {
+  const invoice = getActiveInvoice(invoices, ticket.id);
+  const basis = invoice
+    ? "invoice"
+    : ticket.estimatedAmount && ticket.estimatedAmount > 0
+    ? "estimate"
+    : "none";
+  const billed = invoice ? invoice.total : ticket.estimatedAmount || 0;
+  const received = sumPayments(payments.filter((p) => p.ticketId === ticket.id));
+  return {
+    basis,
+    billed,
+    received,
+    outstanding: round2(Math.max(billed - received, 0)),
+    credit: round2(Math.max(received - billed, 0)),
+  };
+};
+
+export interface DuesSummary {
+  invoiced: number;
+  received: number;
+  outstanding: number; // receivables: unpaid invoiced balances
+  advances: number; // held against tickets that are not invoiced yet
+  tickets: { ticket: Ticket; balance: TicketBalance }[]; // with money owed
+}
+
+export const getDuesSummary = (
+  tickets: Ticket[],
+  invoices: Invoice[],
+  payments: Payment[]
+): DuesSummary => {
+  const summary: DuesSummary = {
+    invoiced: 0,
+    received: 0,
+    outstanding: 0,
+    advances: 0,
+    tickets: [],
+  };
+  tickets.forEach((ticket) => {
+    const balance = getTicketBalance(ticket, invoices, payments);
+    summary.received += balance.received;
+    if (balance.basis === "invoice") {
+      summary.invoiced += balance.billed;
+      summary.outstanding += balance.outstanding;
+      if (balance.outstanding > 0) summary.tickets.push({ ticket, balance });
+    } else {
+      summary.advances += balance.received;
+    }
+  });
+  summary.invoiced = round2(summary.invoiced);
+  summary.received = round2(summary.received);
+  summary.outstanding = round2(summary.outstanding);
+  summary.advances = round2(summary.advances);
+  return summary;
+};
+
+// Kinds that make sense for the ticket's current balance.
+export const getAllowedPaymentKinds = (
+  balance: TicketBalance
+): PaymentKind[] => {
+  const kinds: PaymentKind[] =
+    balance.basis === "invoice"
+      ? balance.outstanding > 0
+        ? ["Part Payment", "Final"]
+        : []
+      : ["Advance", "Part Payment"];
+  return balance.received > 0 ? [...kinds, "Refund"] : kinds;
+};
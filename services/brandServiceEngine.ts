@@ -0,0 +1,276 @@
+import {
+  Brand,
+  BrandJob,
+  BrandPayout,
+  Ticket,
+  User,
+  WorkflowConfig,
+} from "../types";
+import { repository } from "./dataRepository";
+import { can } from "./permissionEngine";
+import { parseStoredDate } from "./ticketMapper";
+import { getResolvedStatus } from "./workflowEngine";
+
+// Authorised-service work for partner brands (IVOOMI, ELISTA...). A "Brand
+// Service" ticket carries a BrandJob: the brand's job number, the repair
+// category the brand pays for, and the due date from the brand's SLA. Each
+// month the jobs resolved for a brand are reconciled against the payouts it
+// sent: expected (per-category rate) vs. received, and which jobs no payout
+// statement has covered yet.
+
+export const BRAND_SERVICE_TYPE = "Brand Service";
+
+export const isBrandServiceTicket = (ticket: Pick<Ticket, "deviceType">) =>
+  ticket.deviceType === BRAND_SERVICE_TYPE;
+
+// Brand Service tickets keep the partner brand in `brand` (older imports in
+// `brandService`).
+export const getServiceBrand = (
+  ticket: Pick<Ticket, "brand" | "brandService">,
+  brands: Brand[]
+) => {
+  const name = (ticket.brandService || ticket.brand || "").trim().toLowerCase();
+  return name ? brands.find((b) => b.name.toLowerCase() === name) : undefined;
+};
+
+// Job numbers are copied from brand portals and statements by hand.
+export const normalizeJobNumber = (jobNumber: string) =>
+  jobNumber.replace(/\s+/g, "").toUpperCase();
+
+export const getPayoutRate = (brand: Brand | undefined, category: string) =>
+  brand?.payoutRates?.find((r) => r.category === category)?.amount;
+
+// --- JOBS ---
+
+const toDateOnly = (date: Date) => date.toISOString().slice(0, 10);
+
+export const getBrandDueDate = (brand: Brand, bookedOn: string) => {
+  if (!brand.slaDays || !bookedOn) return undefined;
+  const date = new Date(`${bookedOn}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + brand.slaDays);
+  return toDateOnly(date);
+};
+
+// Builds the BrandJob for a ticket save. The rate is fixed when the category
+// is chosen, so later rate changes do not rewrite past jobs; the due date is
+// fixed at booking.
+export const buildBrandJob = (
+  brand: Brand | undefined,
+  previous: BrandJob | undefined,
+  fields: { jobNumber: string; category: string },
+  bookedOn: string
+): BrandJob | undefined => {
+  const jobNumber = fields.jobNumber.trim();
+  const category = fields.category;
+  if (!brand && !jobNumber && !category) return undefined;
+  const rate =
+    category && category === previous?.category && previous.rate !== undefined
+      ? previous.rate
+      : category
+      ? getPayoutRate(brand, category)
+      : undefined;
+  const job: BrandJob = {
+    jobNumber: jobNumber || undefined,
+    category: category || undefined,
+    rate,
+    dueDate: previous?.dueDate ?? (brand && getBrandDueDate(brand, bookedOn)),
+  };
+  // Drop unset keys so an untouched job does not show up as a change
+  (Object.keys(job) as (keyof BrandJob)[]).forEach((key) => {
+    if (job[key] === undefined) delete job[key];
+  });
+  return Object.keys(job).length > 0 ? job : undefined;
+};
+
+// Why a brand job cannot be resolved yet, or null.
+export const getBrandJobBlocker = (
+  brand: Brand | undefined,
+  job: BrandJob | undefined,
+  nextStatus: string,
+  workflow?: WorkflowConfig | null
+) => {
+  if (nextStatus !== getResolvedStatus(workflow) || !brand) return null;
+  if (brand.jobNumberRequired && !job?.jobNumber) {
+    return `${brand.name} jobs need the brand job number before they are resolved.`;
+  }
+  if ((brand.payoutRates?.length ?? 0) > 0 && !job?.category) {
+    return `Choose the ${brand.name} repair category before resolving.`;
+  }
+  return null;
+};
+
+const resolvedDate = (ticket: Ticket) => {
+  const date = parseStoredDate(ticket.resolvedAt);
+  return date ? toDateOnly(date) : null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days past the brand's due date: at resolution, or today for open jobs.
+export const getBrandLateDays = (
+  ticket: Ticket,
+  workflow?: WorkflowConfig | null,
+  today: string = toDateOnly(new Date())
+) => {
+  const due = ticket.brandJob?.dueDate;
+  if (!due) return 0;
+  const end =
+    ticket.status === getResolvedStatus(workflow)
+      ? resolvedDate(ticket) ?? today
+      : today;
+  const late = Math.round(
+    (Date.parse(`${end}T00:00:00Z`) - Date.parse(`${due}T00:00:00Z`)) / DAY_MS
+  );
+  return Math.max(0, late);
+};
+
+// --- PAYOUTS ---
+
+export interface BrandPayoutDraft {
+  month: string;
+  amount: number;
+  receivedOn: string;
+  reference: string;
+  jobNumbers: string; // pasted from the brand's statement
+  notes: string;
+}
+
+export const parseJobNumbers = (text: string) =>
+  Array.from(
+    new Set(
+      text
+        .split(/[\s,;]+/)
+        .map(normalizeJobNumber)
+        .filter(Boolean)
+    )
+  );
+
+export const recordBrandPayout = async (
+  brand: Brand,
+  draft: BrandPayoutDraft,
+  user: User,
+  now: number = Date.now()
+): Promise<BrandPayout> => {
+  if (!can(user, "brand.payouts.manage")) {
+    throw new Error("You don't have permission to record brand payouts.");
+  }
+  if (!/^\d{4}-\d{2}$/.test(draft.month)) {
+    throw new Error("Choose the month the payout is for.");
+  }
+  if (!(draft.amount > 0)) throw new Error("Enter the amount received.");
+  if (!draft.receivedOn) throw new Error("Enter the date it was received.");
+
+  return repository.brandPayouts.create({
+    brandId: brand.id,
+    brandName: brand.name,
+    month: draft.month,
+    amount: Math.round(draft.amount * 100) / 100,
+    receivedOn: draft.receivedOn,
+    reference: draft.reference.trim() || undefined,
+    jobNumbers: parseJobNumbers(draft.jobNumbers),
+    notes: draft.notes.trim() || undefined,
+    recordedAt: now,
+    recordedBy: user.name,
+  });
+};
+
+export const removeBrandPayout = async (
+  payout: BrandPayout,
+  user: User
+): Promise<void> => {
+  if (!can(user, "brand.payouts.manage")) {
+    throw new Error("You don't have permission to remove brand payouts.");
+  }
+  await repository.brandPayouts.remove(payout.id);
+};
+
+// --- RECONCILIATION ---
+
+export interface ReconciledJob {
+  ticket: Ticket;
+  jobNumber?: string;
+  category?: string;
+  expected: number; // 0 when the category or its rate is missing
+  paidBy?: BrandPayout; // payout whose statement lists the job
+  lateDays: number;
+}
+
+export interface BrandReconciliation {
+  jobs: ReconciledJob[]; // resolved in the month
+  payouts: BrandPayout[]; // recorded for the month
+  expected: number;
+  received: number;
+  difference: number; // received - expected
+  unpaid: ReconciledJob[]; // not on any statement yet
+  unrated: number; // jobs with no category / rate
+  unknownJobNumbers: string[]; // on a statement, but no such job here
+}
+
+export const reconcileBrandMonth = (
+  brand: Brand,
+  month: string, // YYYY-MM
+  tickets: Ticket[],
+  payouts: BrandPayout[],
+  workflow?: WorkflowConfig | null
+): BrandReconciliation => {
+  const resolvedStatus = getResolvedStatus(workflow);
+  const brandTickets = tickets.filter(
+    (t) =>
+      isBrandServiceTicket(t) && getServiceBrand(t, [brand])?.id === brand.id
+  );
+  const brandPayouts = payouts.filter((p) => p.brandId === brand.id);
+
+  // Job number -> the payout statement that covered it
+  const paidBy = new Map<string, BrandPayout>();
+  brandPayouts.forEach((payout) =>
+    payout.jobNumbers.forEach((n) => paidBy.set(n, payout))
+  );
+
+  const jobs: ReconciledJob[] = brandTickets
+    .filter(
+      (t) =>
+        t.status === resolvedStatus &&
+        resolvedDate(t)?.slice(0, 7) === month
+    )
+    .map((ticket) => {
+      const jobNumber = ticket.brandJob?.jobNumber;
+      return {
+        ticket,
+        jobNumber,
+        category: ticket.brandJob?.category,
+        expected: ticket.brandJob?.rate ?? 0,
+        paidBy: jobNumber
+          ? paidBy.get(normalizeJobNumber(jobNumber))
+          : undefined,
+        lateDays: getBrandLateDays(ticket, workflow),
+      };
+    })
+    .sort((a, b) =>
+      (resolvedDate(a.ticket) ?? "").localeCompare(resolvedDate(b.ticket) ?? "")
+    );
+
+  const monthPayouts = brandPayouts
+    .filter((p) => p.month === month)
+    .sort((a, b) => a.receivedOn.localeCompare(b.receivedOn));
+  const knownJobNumbers = new Set(
+    brandTickets
+      .map((t) => t.brandJob?.jobNumber)
+      .filter(Boolean)
+      .map((n) => normalizeJobNumber(n as string))
+  );
+
+  const expected = jobs.reduce((sum, j) => sum + j.expected, 0);
+  const received = monthPayouts.reduce((sum, p) => sum + p.amount, 0);
+  return {
+    jobs,
+    payouts: monthPayouts,
+    expected,
+    received,
+    difference: received - expected,
+    unpaid: jobs.filter((j) => !j.paidBy),
+    unrated: jobs.filter((j) => !j.ticket.brandJob?.rate).length,
+    unknownJobNumbers: Array.from(
+      new Set(monthPayouts.flatMap((p) => p.jobNumbers))
+    ).filter((n) => !knownJobNumbers.has(n)),
+  };
+};
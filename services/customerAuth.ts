@@ -0,0 +1,231 @@
+import { User } from "../types";
+import { repository } from "./dataRepository";
+import { signInToFirebase, signOutOfFirebase } from "./firebaseSession";
+import { callServerFunction } from "./serverFunctions";
+import {
+  localAuthProvider,
+  supabaseOtpProvider,
+} from "./customerAuthProviders";
+
+// Customer sign-in by a one-time code or magic link emailed by the active
+// provider. This replaces the passwords that used to be derived from the
+// mobile number; the customer_otp_auth migration retires those, and existing
+// customers keep their accounts by signing in with a code to the same email.
+// Customer sessions end CUSTOMER_SESSION_HOURS after sign-in, timed from the
+// identity service's sign-in time (the customer_otp_auth migration applies
+// the same limit to Supabase requests).
+
+export const CODE_LENGTH = 6;
+export const CUSTOMER_SESSION_HOURS = 12;
+
+// --- PROVIDERS ---
+
+export interface LinkedUser {
+  id: string;
+  email: string;
+}
+
+export interface AuthSession {
+  userId: string;
+  signedInAt: number;
+}
+
+// An identity service. `verifyCode` resolves with the auth user ID for the
+// email and throws for a wrong or expired code.
+export interface CustomerAuthProvider {
+  readonly name: string;
+  readonly sendsMagicLink: boolean;
+  sendCode(email: string, createUser: boolean): Promise<void>;
+  verifyCode(email: string, code: string): Promise<string>;
+  // The user a magic link signed in on this page load, or null.
+  getLinkedUser(): Promise<LinkedUser | null>;
+  // The signed-in auth user and when they signed in, or null.
+  getSession(): Promise<AuthSession | null>;
+  signOut(): Promise<void>;
+}
+
+const providers: Record<string, CustomerAuthProvider> = {
+  supabase: supabaseOtpProvider,
+  local: localAuthProvider,
+};
+
+// Single switch: VITE_CUSTOMER_AUTH=supabase (default) | local
+export const activeCustomerAuthName =
+  import.meta.env.VITE_CUSTOMER_AUTH === "local" ? "local" : "supabase";
+
+export const getCustomerAuthProvider = (): CustomerAuthProvider =>
+  providers[activeCustomerAuthName];
+
+// --- SIGN-IN ---
+
+export interface CustomerSignup {
+  name: string;
+  mobile: string;
+  address: string;
+}
+
+// The sign-in waiting for its code or link. Kept in this browser so a magic
+// link opened in a new tab can finish it (and create the profile on sign-up).
+interface PendingSignIn {
+  email: string;
+  signup?: CustomerSignup;
+}
+
+const PENDING_KEY = "nexus_cust_pending";
+
+const readPending = (): PendingSignIn | null => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_KEY) || "null");
+  } catch {
+    return null;
+  }
+};
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const requestSignInCode = async (
+  email: string,
+  signup?: CustomerSignup
+): Promise<void> => {
+  const address = normalizeEmail(email);
+  if (!address) throw new Error("Enter your email address.");
+
+  if (signup) {
+    if (!signup.name.trim() || !signup.address.trim()) {
+      throw new Error("Name and address are required for registration.");
+    }
+    if (!signup.mobile.replace(/\D/g, "")) {
+      throw new Error("Mobile number is required for registration.");
+    }
+    // Visitors cannot read profiles; the `check-signup` Edge Function only
+    // says which of the two is taken.
+    const { taken } = await callServerFunction<{
+      taken: "email" | "mobile" | null;
+    }>("check-signup", { email: address, mobile: signup.mobile });
+    if (taken === "email") {
+      throw new Error("Email already registered. Please login instead.");
+    }
+    // The code proves the email, not the mobile, so a profile found by
+    // mobile is never handed over; the store adds the email to it instead.
+    if (taken === "mobile") {
+      throw new Error(
+        "This mobile number is already registered. Please ask the store to add your email to your profile, then login."
+      );
+    }
+  }
+
+  await getCustomerAuthProvider().sendCode(address, !!signup);
+  const pending: PendingSignIn = { email: address, signup };
+  localStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+};
+
+// Loads (or, on sign-up, creates) the customer profile of an auth user and
+// starts the session. Profiles are keyed by the auth user ID on Supabase;
+// Firestore profiles carry their own IDs (Firebase uids from the import), so
+// the Firebase sign-in finds them by the verified email and signs in as the
+// profile (see firebaseSession).
+const finishSignIn = async (userId: string, email: string): Promise<User> => {
+  const pending = readPending();
+  const signup = pending?.email === email ? pending.signup : undefined;
+
+  // The local stand-in has no Supabase session to exchange
+  const firebaseUid =
+    activeCustomerAuthName === "supabase" ? await signInToFirebase() : null;
+  let customer = firebaseUid
+    ? await repository.customers.get(firebaseUid)
+    : (await repository.customers.get(userId)) ??
+      (await repository.customers.findBy("email", email))[0] ??
+      null;
+  if (!customer && signup) {
+    customer = await repository.customers.create({
+      id: firebaseUid ?? userId,
+      name: signup.name.trim(),
+      email,
+      mobile: signup.mobile.replace(/\D/g, ""),
+      address: signup.address.trim(),
+      photo_url: null,
+    });
+  }
+  if (!customer) {
+    await signOutOfFirebase();
+    await getCustomerAuthProvider().signOut();
+    throw new Error("Customer profile not found.");
+  }
+
+  localStorage.removeItem(PENDING_KEY);
+  startCustomerSession(customer.id, userId);
+  return {
+    id: customer.id,
+    name: customer.name,
+    email: customer.email,
+    role: "CUSTOMER",
+  };
+};
+
+export const verifySignInCode = async (
+  email: string,
+  code: string
+): Promise<User> => {
+  const address = normalizeEmail(email);
+  const token = code.replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${CODE_LENGTH}}$`).test(token)) {
+    throw new Error(`Enter the ${CODE_LENGTH}-digit code from the email.`);
+  }
+  const userId = await getCustomerAuthProvider().verifyCode(address, token);
+  return finishSignIn(userId, address);
+};
+
+// Finishes a sign-in whose magic link brought the customer back to the app;
+// null when there is none for this browser.
+export const completeMagicLinkSignIn = async (): Promise<User | null> => {
+  const pending = readPending();
+  if (!pending) return null;
+  const linked = await getCustomerAuthProvider().getLinkedUser();
+  if (!linked || normalizeEmail(linked.email) !== pending.email) return null;
+  return finishSignIn(linked.id, pending.email);
+};
+
+// --- SESSION ---
+
+// Ties the app's customer to the auth user the session belongs to.
+interface CustomerSession {
+  customerId: string;
+  userId: string;
+}
+
+const SESSION_KEY = "nexus_cust_session";
+const SESSION_MS = CUSTOMER_SESSION_HOURS * 60 * 60 * 1000;
+
+const startCustomerSession = (customerId: string, userId: string) => {
+  const session: CustomerSession = { customerId, userId };
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+};
+
+// Customers still signed in from the password days have no session record,
+// so they are asked to sign in again with a code.
+export const isCustomerSessionValid = async (
+  customerId: string,
+  now: number = Date.now()
+) => {
+  let session: CustomerSession | null = null;
+  try {
+    session = JSON.parse(localStorage.getItem(SESSION_KEY) || "null");
+  } catch {
+    return false;
+  }
+  if (session?.customerId !== customerId) return false;
+  const auth = await getCustomerAuthProvider().getSession();
+  return (
+    auth?.userId === session.userId && auth.signedInAt + SESSION_MS > now
+  );
+};
+
+export const endCustomerSession = async () => {
+  localStorage.removeItem(SESSION_KEY);
+  await signOutOfFirebase().catch((err) =>
+    console.error("Firebase sign-out failed:", err)
+  );
+  await getCustomerAuthProvider()
+    .signOut()
+    .catch((err) => console.error("Customer sign-out failed:", err));
+};
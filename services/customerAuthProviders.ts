@@ -0,0 +1,123 @@
+import { supabase } from "@/lib/supabaseClient";
+import { repository } from "./dataRepository";
+import type { AuthSession, CustomerAuthProvider } from "./customerAuth";
+
+// Supabase Auth email OTP. One email carries both the code and the magic
+// link when the "Magic Link" template includes {{ .Token }} and
+// {{ .ConfirmationURL }}; the link returns to the app, where supabase-js
+// picks up the session from the URL.
+export const supabaseOtpProvider: CustomerAuthProvider = {
+  name: "supabase",
+  sendsMagicLink: true,
+
+  async sendCode(email, createUser) {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        shouldCreateUser: createUser,
+        emailRedirectTo: `${window.location.origin}${window.location.pathname}`,
+      },
+    });
+    if (error) throw new Error(error.message);
+  },
+
+  async verifyCode(email, code) {
+    const { data, error } = await supabase.auth.verifyOtp({
+      email,
+      token: code,
+      type: "email",
+    });
+    if (error || !data.user) {
+      throw new Error("That code is wrong or has expired.");
+    }
+    return data.user.id;
+  },
+
+  async getLinkedUser() {
+    const { data } = await supabase.auth.getSession();
+    const user = data.session?.user;
+    return user?.email ? { id: user.id, email: user.email } : null;
+  },
+
+  // last_sign_in_at is set by Supabase when the code or link is used and is
+  // not moved by token refreshes.
+  async getSession() {
+    const { data } = await supabase.auth.getSession();
+    const user = data.session?.user;
+    const signedInAt = Date.parse(user?.last_sign_in_at ?? "");
+    return user && signedInAt ? { userId: user.id, signedInAt } : null;
+  },
+
+  async signOut() {
+    await supabase.auth.signOut();
+  },
+};
+
+// --- LOCAL STAND-IN ---
+
+// For development without an email service: the code is printed to the
+// console and the accounts are the `customers` records themselves.
+const LOCAL_CODE_TTL_MS = 10 * 60 * 1000;
+const LOCAL_MAX_TRIES = 5;
+const LOCAL_SESSION_KEY = "nexus_cust_local_auth";
+
+const localCodes = new Map<
+  string,
+  { code: string; expiresAt: number; tries: number; createUser: boolean }
+>();
+
+export const localAuthProvider: CustomerAuthProvider = {
+  name: "local",
+  sendsMagicLink: false,
+
+  async sendCode(email, createUser) {
+    const code = String(
+      crypto.getRandomValues(new Uint32Array(1))[0] % 1000000
+    ).padStart(6, "0");
+    localCodes.set(email, {
+      code,
+      expiresAt: Date.now() + LOCAL_CODE_TTL_MS,
+      tries: 0,
+      createUser,
+    });
+    console.info(`[customer auth] Sign-in code for ${email}: ${code}`);
+  },
+
+  async verifyCode(email, code) {
+    const pending = localCodes.get(email);
+    if (!pending || pending.expiresAt < Date.now()) {
+      throw new Error("That code is wrong or has expired.");
+    }
+    if (pending.code !== code) {
+      pending.tries += 1;
+      if (pending.tries >= LOCAL_MAX_TRIES) localCodes.delete(email);
+      throw new Error("That code is wrong or has expired.");
+    }
+    localCodes.delete(email);
+
+    const [customer] = await repository.customers.findBy("email", email);
+    if (!customer && !pending.createUser) {
+      throw new Error("Customer profile not found.");
+    }
+    const userId = customer?.id ?? crypto.randomUUID();
+    const session: AuthSession = { userId, signedInAt: Date.now() };
+    localStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify(session));
+    return userId;
+  },
+
+  async getLinkedUser() {
+    return null;
+  },
+
+  async getSession() {
+    try {
+      return JSON.parse(localStorage.getItem(LOCAL_SESSION_KEY) || "null");
+    } catch {
+      return null;
+    }
+  },
+
+  async signOut() {
+    localStorage.removeItem(LOCAL_SESSION_KEY);
+  },
+};
@@ -0,0 +1,328 @@
+import {
+  Ticket,
+  Customer,
+  User,
+  Task,
+  Report,
+  AppNotification,
+  Quotation,
+  Invoice,
+  Payment,
+  Part,
+  StockMovement,
+  Supplier,
+  PurchaseOrder,
+  DeviceTransfer,
+  IntakePhoto,
+  Device,
+  WarrantyRecord,
+  WarrantyClaim,
+  BrandPayout,
+  CustomerMessage,
+  TrackedTicket,
+} from "../types";
+import { firestoreBackend } from "./firestoreBackend";
+import { supabaseBackend } from "./supabaseBackend";
+import { appendAuditEntry, AuditContext, diffTickets } from "./ticketAudit";
+import { notifyStatusChange } from "./notificationEngine";
+
+// --- TYPES ---
+
+// Every collection the app reads or writes, keyed by its storage name.
+// Firestore collections and Supabase tables share these names.
+export interface EntityMap {
+  tickets: Ticket;
+  customers: Customer;
+  users: User;
+  tasks: Task;
+  laptop_reports: Report;
+  notifications: AppNotification;
+  quotations: Quotation;
+  invoices: Invoice;
+  payments: Payment;
+  parts: Part;
+  stock_movements: StockMovement;
+  suppliers: Supplier;
+  purchase_orders: PurchaseOrder;
+  device_transfers: DeviceTransfer;
+  intake_photos: IntakePhoto;
+  devices: Device;
+  warranties: WarrantyRecord;
+  warranty_claims: WarrantyClaim;
+  brand_payouts: BrandPayout;
+  customer_messages: CustomerMessage;
+}
+
+export type EntityName = keyof EntityMap;
+export type BackendName = "firestore" | "supabase";
+export type NewEntity<K extends EntityName> = Omit<EntityMap[K], "id"> & {
+  id?: string;
+};
+// A value to match, or a list of them (at most 30, Firestore's limit)
+export type FieldMatch = string | string[];
+
+// A storage adapter. Implementations only translate between the app types
+// above and their own document / row format; they never hold app state.
+export interface DataBackend {
+  readonly name: BackendName;
+  list<K extends EntityName>(entity: K): Promise<EntityMap[K][]>;
+  get<K extends EntityName>(entity: K, id: string): Promise<EntityMap[K] | null>;
+  // Rows whose `field` equals `value`, or any of `value` when it is a list.
+  findBy<K extends EntityName>(
+    entity: K,
+    field: keyof EntityMap[K] & string,
+    value: FieldMatch
+  ): Promise<EntityMap[K][]>;
+  create<K extends EntityName>(
+    entity: K,
+    data: NewEntity<K>
+  ): Promise<EntityMap[K]>;
+  upsert<K extends EntityName>(entity: K, item: EntityMap[K]): Promise<void>;
+  update<K extends EntityName>(
+    entity: K,
+    id: string,
+    patch: Partial<EntityMap[K]>
+  ): Promise<void>;
+  remove(entity: EntityName, id: string): Promise<void>;
+  subscribe<K extends EntityName>(
+    entity: K,
+    onData: (rows: EntityMap[K][]) => void,
+    onError?: (error: Error) => void
+  ): () => void;
+  // Like `subscribe`, but only for the rows `findBy` would return.
+  subscribeBy<K extends EntityName>(
+    entity: K,
+    field: keyof EntityMap[K] & string,
+    value: FieldMatch,
+    onData: (rows: EntityMap[K][]) => void,
+    onError?: (error: Error) => void
+  ): () => void;
+  // Atomically increments the named counter and returns the new value.
+  // `seed` gives the starting value the first time a counter is used
+  // (Supabase works it out on the server instead).
+  nextSequence(name: string, seed: () => Promise<number>): Promise<number>;
+  // Adds a stock movement and changes the running stock of its part at its
+  // store in one step. Resolves to null, adding nothing, when the stock
+  // would go below zero. `seed` gives the stock before the first movement
+  // added this way (Supabase works it out on the server instead).
+  addStockMovement(
+    movement: NewEntity<"stock_movements">,
+    seed: () => Promise<number>
+  ): Promise<StockMovement | null>;
+  // Writes a ticket worked out from its stored version, with no other write
+  // to the ticket in between. `change` gets the stored ticket (null when
+  // there is none) and returns the ticket to store, or null to leave it; it
+  // may run more than once. Resolves to both versions, or null.
+  writeTicket(
+    id: string,
+    change: (before: Ticket | null) => Promise<Ticket | null>
+  ): Promise<{ before: Ticket | null; after: Ticket } | null>;
+  // Public tracking lookup: the customer view of the ticket with display ID
+  // `ticketId` whose customer mobile ends in `mobileLast4`, or null. May
+  // throw while the lookup is locked after too many misses.
+  trackTicket(
+    ticketId: string,
+    mobileLast4: string
+  ): Promise<TrackedTicket | null>;
+}
+
+// --- BACKEND SELECTION ---
+
+const backends: Record<BackendName, DataBackend> = {
+  firestore: firestoreBackend,
+  supabase: supabaseBackend,
+};
+
+// Single switch for the whole app: VITE_DATA_BACKEND=firestore | supabase
+export const activeBackendName: BackendName =
+  import.meta.env.VITE_DATA_BACKEND === "supabase" ? "supabase" : "firestore";
+
+export const getDataBackend = (): DataBackend => backends[activeBackendName];
+
+// --- REPOSITORY ---
+
+export interface EntityRepository<K extends EntityName> {
+  list: () => Promise<EntityMap[K][]>;
+  get: (id: string) => Promise<EntityMap[K] | null>;
+  findBy: (
+    field: keyof EntityMap[K] & string,
+    value: FieldMatch
+  ) => Promise<EntityMap[K][]>;
+  create: (data: NewEntity<K>) => Promise<EntityMap[K]>;
+  upsert: (item: EntityMap[K]) => Promise<void>;
+  update: (id: string, patch: Partial<EntityMap[K]>) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  subscribe: (
+    onData: (rows: EntityMap[K][]) => void,
+    onError?: (error: Error) => void
+  ) => () => void;
+  subscribeBy: (
+    field: keyof EntityMap[K] & string,
+    value: FieldMatch,
+    onData: (rows: EntityMap[K][]) => void,
+    onError?: (error: Error) => void
+  ) => () => void;
+  // Persists the difference between two in-memory lists (used by the
+  // array-style setters that components receive from App).
+  sync: (prev: EntityMap[K][], next: EntityMap[K][]) => Promise<void>;
+}
+
+// Diff-based sync shared by every repository; `upsert` / `remove` are the
+// repository's own so any write hooks (e.g. ticket auditing) still apply.
+const syncVia =
+  <K extends EntityName>(
+    upsert: (item: EntityMap[K]) => Promise<void>,
+    remove: (id: string) => Promise<void>
+  ) =>
+  async (prev: EntityMap[K][], next: EntityMap[K][]) => {
+    const prevById = new Map(prev.map((item) => [item.id, item]));
+    const nextIds = new Set(next.map((item) => item.id));
+
+    const writes = next
+      .filter((item) => {
+        const before = prevById.get(item.id);
+        return !before || JSON.stringify(before) !== JSON.stringify(item);
+      })
+      .map((item) => upsert(item));
+
+    const deletes = prev
+      .filter((item) => !nextIds.has(item.id))
+      .map((item) => remove(item.id));
+
+    await Promise.all([...writes, ...deletes]);
+  };
+
+const createEntityRepository = <K extends EntityName>(
+  entity: K
+): EntityRepository<K> => {
+  const upsert = (item: EntityMap[K]) => getDataBackend().upsert(entity, item);
+  const remove = (id: string) => getDataBackend().remove(entity, id);
+
+  return {
+    list: () => getDataBackend().list(entity),
+    get: (id) => getDataBackend().get(entity, id),
+    findBy: (field, value) => getDataBackend().findBy(entity, field, value),
+    create: (data) => getDataBackend().create(entity, data),
+    upsert,
+    update: (id, patch) => getDataBackend().update(entity, id, patch),
+    remove,
+    subscribe: (onData, onError) =>
+      getDataBackend().subscribe(entity, onData, onError),
+    subscribeBy: (field, value, onData, onError) =>
+      getDataBackend().subscribeBy(entity, field, value, onData, onError),
+    sync: syncVia(upsert, remove),
+  };
+};
+
+// --- TICKETS (AUDITED) ---
+
+// Tickets take an optional AuditContext on every write. `history` is owned by
+// the audit log: whatever callers pass for it is ignored. Updates go through
+// the backend's writeTicket, so two writes never extend the same history. A
+// write that sets a new status also sends the customer's status message;
+// delivery problems are only logged, never fail the write.
+export interface TicketRepository extends EntityRepository<"tickets"> {
+  create: (data: NewEntity<"tickets">, context?: AuditContext) => Promise<Ticket>;
+  upsert: (item: Ticket, context?: AuditContext) => Promise<void>;
+  update: (
+    id: string,
+    patch: Partial<Ticket>,
+    context?: AuditContext
+  ) => Promise<void>;
+}
+
+const createTicketRepository = (): TicketRepository => {
+  const base = createEntityRepository("tickets");
+
+  const notify = (ticket: Ticket, previousStatus?: string) => {
+    notifyStatusChange(ticket, previousStatus).catch((err) =>
+      console.error("Customer notification failed:", err)
+    );
+  };
+
+  const create = async (data: NewEntity<"tickets">, context?: AuditContext) => {
+    const { history: _ignored, ...fields } = data;
+    const history = await appendAuditEntry([], [], {
+      action: "Ticket Created",
+      details: `Ticket created at ${fields.store}.`,
+      ...context,
+    });
+    const created = await base.create({ ...fields, history });
+    notify(created);
+    return created;
+  };
+
+  // The audited version of `before` with `fields` applied, or null when
+  // nothing changed and there is nothing to record.
+  const applyChanges = async (
+    before: Ticket,
+    fields: Partial<Ticket>,
+    context?: AuditContext
+  ): Promise<Ticket | null> => {
+    const after = { ...before, ...fields };
+    const changes = diffTickets(before, after);
+    if (changes.length === 0 && !context) return null;
+    const history = await appendAuditEntry(before.history, changes, context);
+    return { ...after, history };
+  };
+
+  const write = async (
+    id: string,
+    change: (before: Ticket | null) => Promise<Ticket | null>
+  ) => {
+    const result = await getDataBackend().writeTicket(id, change);
+    if (result) notify(result.after, result.before?.status);
+  };
+
+  const update = (id: string, patch: Partial<Ticket>, context?: AuditContext) => {
+    const { history: _ignored, ...fields } = patch;
+    return write(id, async (before) => {
+      if (!before) throw new Error(`Ticket "${id}" not found`);
+      return applyChanges(before, fields, context);
+    });
+  };
+
+  const upsert = (item: Ticket, context?: AuditContext) => {
+    const { history: _ignored, ...fields } = item;
+    return write(item.id, async (before) => {
+      if (before) return applyChanges(before, fields, context);
+      const history = await appendAuditEntry([], [], {
+        action: "Ticket Created",
+        details: `Ticket created at ${fields.store}.`,
+        ...context,
+      });
+      return { ...fields, history } as Ticket;
+    });
+  };
+
+  return {
+    ...base,
+    create,
+    update,
+    upsert,
+    sync: syncVia<"tickets">((item) => upsert(item), base.remove),
+  };
+};
+
+export const repository = {
+  tickets: createTicketRepository(),
+  customers: createEntityRepository("customers"),
+  users: createEntityRepository("users"),
+  tasks: createEntityRepository("tasks"),
+  laptopReports: createEntityRepository("laptop_reports"),
+  notifications: createEntityRepository("notifications"),
+  quotations: createEntityRepository("quotations"),
+  invoices: createEntityRepository("invoices"),
+  payments: createEntityRepository("payments"),
+  parts: createEntityRepository("parts"),
+  stockMovements: createEntityRepository("stock_movements"),
+  suppliers: createEntityRepository("suppliers"),
+  purchaseOrders: createEntityRepository("purchase_orders"),
+  deviceTransfers: createEntityRepository("device_transfers"),
+  intakePhotos: createEntityRepository("intake_photos"),
+  devices: createEntityRepository("devices"),
+  warranties: createEntityRepository("warranties"),
+  warrantyClaims: createEntityRepository("warranty_claims"),
+  brandPayouts: createEntityRepository("brand_payouts"),
+  customerMessages: createEntityRepository("customer_messages"),
+};
@@ -0,0 +1,304 @@
+import {
+  Customer,
+  Device,
+  RepeatRepair,
+  Report,
+  Ticket,
+  User,
+  WarrantyStatus,
+} from "../types";
+import { repository } from "./dataRepository";
+import { can } from "./permissionEngine";
+import { parseStoredDate } from "./ticketMapper";
+
+// Device registry. Every ticket with a serial number is linked to a Device
+// (created on first sight), which records the current owner and warranty.
+// Laptop QC reports are matched to devices by their laptop number. Filler
+// typed when there is no readable serial (N/A, "-", 0000, 12345) counts as no
+// serial, so unrelated devices are not merged under it. A device
+// back within REPEAT_REPAIR_DAYS of its previous ticket flags the new ticket
+// as a repeat repair.
+
+export const REPEAT_REPAIR_DAYS = 30;
+
+export const WARRANTY_STATUSES: WarrantyStatus[] = [
+  "Unknown",
+  "In Warranty",
+  "Out of Warranty",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Serials are typed by hand and read by scanners: ignore case and spaces.
+export const normalizeSerial = (serial: string) =>
+  serial.replace(/\s+/g, "").toUpperCase();
+
+const PLACEHOLDER_WORDS = new Set([
+  "NA",
+  "NIL",
+  "NULL",
+  "NONE",
+  "NO",
+  "UNKNOWN",
+  "NOSERIAL",
+  "NOTAVAILABLE",
+]);
+
+export const isPlaceholderSerial = (serial: string) => {
+  const key = normalizeSerial(serial).replace(/[^A-Z0-9]/g, "");
+  return (
+    !key ||
+    PLACEHOLDER_WORDS.has(key) ||
+    /^(.)\1*$/.test(key) || // 0000, XXXX
+    (key.length >= 3 &&
+      ("1234567890".startsWith(key) || "0123456789".startsWith(key)))
+  );
+};
+
+// The registry key for a serial, or "" when it is missing or a placeholder.
+export const getSerialKey = (serial: string | undefined) =>
+  serial && !isPlaceholderSerial(serial) ? normalizeSerial(serial) : "";
+
+// Once an expiry date is known it decides; otherwise the recorded status.
+export const getWarrantyStatus = (
+  device: Device,
+  today: string = new Date().toISOString().slice(0, 10)
+): WarrantyStatus =>
+  device.warrantyExpiry
+    ? device.warrantyExpiry >= today
+      ? "In Warranty"
+      : "Out of Warranty"
+    : device.warrantyStatus;
+
+export const findDevice = (devices: Device[], serial: string) => {
+  const key = getSerialKey(serial);
+  return key ? devices.find((d) => d.serialKey === key) : undefined;
+};
+
+// --- LINKING ---
+
+type TicketDeviceFields = Pick<
+  Ticket,
+  "serial" | "deviceType" | "brand" | "model" | "customerId" | "name"
+> &
+  Partial<Pick<Ticket, "warranty" | "billNumber">>;
+
+// Finds or registers the device for a ticket's serial. The ticket's customer
+// becomes the owner, and blanks on the device are filled from the ticket.
+export const ensureDevice = async (
+  ticket: TicketDeviceFields,
+  now: number = Date.now()
+): Promise<Device | null> => {
+  const serial = ticket.serial?.trim();
+  const serialKey = getSerialKey(serial);
+  if (!serialKey) return null;
+
+  const [existing] = await repository.devices.findBy("serialKey", serialKey);
+  if (!existing) {
+    return repository.devices.create({
+      serial,
+      serialKey,
+      deviceType: ticket.deviceType,
+      brand: ticket.brand || undefined,
+      model: ticket.model || undefined,
+      customerId: ticket.customerId || undefined,
+      customerName: ticket.name || undefined,
+      warrantyStatus: ticket.warranty ? "In Warranty" : "Unknown",
+      billNumber: ticket.billNumber || undefined,
+      registeredAt: now,
+    });
+  }
+
+  const patch: Partial<Device> = {};
+  if (ticket.customerId && ticket.customerId !== existing.customerId) {
+    patch.customerId = ticket.customerId;
+    patch.customerName = ticket.name || undefined;
+  }
+  if (!existing.brand && ticket.brand) patch.brand = ticket.brand;
+  if (!existing.model && ticket.model) patch.model = ticket.model;
+  if (!existing.billNumber && ticket.billNumber) {
+    patch.billNumber = ticket.billNumber;
+  }
+  if (Object.keys(patch).length === 0) return existing;
+  await repository.devices.update(existing.id, { ...patch, updatedAt: now });
+  return { ...existing, ...patch, updatedAt: now };
+};
+
+const ticketTime = (ticket: Ticket) =>
+  parseStoredDate(ticket.createdAt ?? ticket.date)?.getTime() ?? null;
+
+// The device's most recent earlier ticket, if it was opened within
+// REPEAT_REPAIR_DAYS of `now`.
+export const findRepeatRepair = (
+  previous: Ticket[],
+  now: number = Date.now()
+): RepeatRepair | undefined => {
+  const latest = previous
+    .map((ticket) => ({ ticket, time: ticketTime(ticket) }))
+    .filter(({ time }) => time !== null && time <= now)
+    .sort((a, b) => (b.time as number) - (a.time as number))[0];
+  if (!latest) return undefined;
+  const days = Math.floor((now - (latest.time as number)) / DAY_MS);
+  if (days > REPEAT_REPAIR_DAYS) return undefined;
+  return {
+    ticketId: latest.ticket.id,
+    ticketNumber: latest.ticket.ticketId,
+    days,
+  };
+};
+
+export const describeRepeatRepair = (repeat: RepeatRepair) =>
+  `Repeat repair: ${repeat.ticketNumber} was opened ${
+    repeat.days === 0
+      ? "earlier today"
+      : `${repeat.days} day${repeat.days === 1 ? "" : "s"} before`
+  }.`;
+
+// Used by createTicket: the device link and repeat flag for a new ticket.
+export const linkNewTicket = async (
+  ticket: TicketDeviceFields,
+  now: number = Date.now()
+): Promise<Pick<Ticket, "deviceId" | "repeatRepair">> => {
+  const device = await ensureDevice(ticket, now);
+  if (!device) return {};
+  const previous = await repository.tickets.findBy("deviceId", device.id);
+  return {
+    deviceId: device.id,
+    repeatRepair: findRepeatRepair(previous, now),
+  };
+};
+
+// Laptop QC reports register their laptop number as a device (the dealer is
+// recorded as the owner name until a customer ticket claims it).
+export const ensureReportDevice = async (
+  report: Report,
+  now: number = Date.now()
+): Promise<Device | null> => {
+  const serial = report.deviceInfo.laptopNo?.trim();
+  const serialKey = getSerialKey(serial);
+  if (!serialKey) return null;
+  const [existing] = await repository.devices.findBy("serialKey", serialKey);
+  if (existing) return existing;
+  return repository.devices.create({
+    serial,
+    serialKey,
+    deviceType: "Laptop",
+    customerName: report.deviceInfo.customerName || undefined,
+    warrantyStatus: "Unknown",
+    registeredAt: now,
+  });
+};
+
+// --- HISTORY ---
+
+export interface DeviceHistory {
+  tickets: Ticket[]; // newest first
+  reports: Report[];
+  owner?: Customer;
+  repeatCount: number; // tickets flagged as repeat repairs
+}
+
+export const getDeviceHistory = (
+  device: Device,
+  tickets: Ticket[],
+  reports: Report[],
+  customers: Customer[]
+): DeviceHistory => {
+  // Tickets not linked yet (before the registry) still match by serial
+  const deviceTickets = tickets
+    .filter((t) =>
+      t.deviceId
+        ? t.deviceId === device.id
+        : getSerialKey(t.serial) === device.serialKey
+    )
+    .sort((a, b) => (ticketTime(b) ?? 0) - (ticketTime(a) ?? 0));
+  return {
+    tickets: deviceTickets,
+    reports: reports.filter(
+      (r) => getSerialKey(r.deviceInfo.laptopNo) === device.serialKey
+    ),
+    owner: customers.find((c) => c.id === device.customerId),
+    repeatCount: deviceTickets.filter((t) => t.repeatRepair).length,
+  };
+};
+
+// --- EDITING ---
+
+export type DeviceDraft = Pick<
+  Device,
+  | "deviceType"
+  | "brand"
+  | "model"
+  | "warrantyStatus"
+  | "warrantyExpiry"
+  | "billNumber"
+  | "notes"
+>;
+
+export const updateDevice = async (
+  device: Device,
+  draft: DeviceDraft,
+  user: User,
+  now: number = Date.now()
+): Promise<void> => {
+  if (!can(user, "devices.manage")) {
+    throw new Error("You don't have permission to edit devices.");
+  }
+  if (!draft.deviceType.trim()) throw new Error("Device type is required.");
+  await repository.devices.update(device.id, {
+    deviceType: draft.deviceType.trim(),
+    brand: draft.brand?.trim() || undefined,
+    model: draft.model?.trim() || undefined,
+    warrantyStatus: draft.warrantyStatus,
+    warrantyExpiry: draft.warrantyExpiry || undefined,
+    billNumber: draft.billNumber?.trim() || undefined,
+    notes: draft.notes?.trim() || undefined,
+    updatedAt: now,
+  });
+};
+
+// Registers devices for existing tickets and QC reports and links the
+// tickets to them. Tickets linked earlier through a placeholder serial are
+// unlinked. Safe to run more than once.
+export const backfillDevices = async (
+  tickets: Ticket[],
+  reports: Report[],
+  user: User
+): Promise<{ devices: number; tickets: number; unlinked: number }> => {
+  if (!can(user, "devices.manage")) {
+    throw new Error("You don't have permission to link devices.");
+  }
+  const before = (await repository.devices.list()).length;
+  let linked = 0;
+  let unlinked = 0;
+  // Oldest first, so the latest owner wins
+  const ordered = [...tickets].sort(
+    (a, b) => (ticketTime(a) ?? 0) - (ticketTime(b) ?? 0)
+  );
+  for (const ticket of ordered) {
+    if (!getSerialKey(ticket.serial)) {
+      if (!ticket.deviceId) continue;
+      await repository.tickets.update(
+        ticket.id,
+        { deviceId: "" },
+        { action: "Device Unlinked", details: "No usable serial number." }
+      );
+      unlinked++;
+      continue;
+    }
+    if (ticket.deviceId) continue;
+    const device = await ensureDevice(ticket);
+    if (!device) continue;
+    await repository.tickets.update(
+      ticket.id,
+      { deviceId: device.id },
+      { action: "Device Linked", details: `Linked to device ${device.serial}.` }
+    );
+    linked++;
+  }
+  for (const report of reports) {
+    await ensureReportDevice(report);
+  }
+  const after = (await repository.devices.list()).length;
+  return { devices: after - before, tickets: linked, unlinked };
+};
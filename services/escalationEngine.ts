@@ -0,0 +1,103 @@
+import {
+  AppNotification,
+  AppSettings,
+  EscalationRecipient,
+  EscalationStep,
+  Ticket,
+  User,
+} from "../types";
+import {
+  formatSLADuration,
+  getTicketSLA,
+  SLAClock,
+  TicketSLA,
+} from "./slaEngine";
+import { isTerminalStatus } from "./workflowEngine";
+
+// Turns SLA escalation steps (SLATarget.escalations) into notifications.
+// Each signed-in staff member's app only generates the notifications meant
+// for them, and every notification ID is fixed per ticket / step / user, so a
+// step fires once no matter how often it is checked.
+
+export const ESCALATION_RECIPIENT_LABELS: Record<EscalationRecipient, string> = {
+  assignee: "Assignee",
+  manager: "Managers",
+  admin: "Admins",
+};
+
+const isRecipient = (
+  recipient: EscalationRecipient,
+  ticket: Ticket,
+  user: User
+) => {
+  if (recipient === "assignee") return ticket.assignedToId === user.id;
+  if (recipient === "manager") return user.role === "MANAGER";
+  return user.role === "ADMIN";
+};
+
+const RECIPIENTS = Object.keys(
+  ESCALATION_RECIPIENT_LABELS
+) as EscalationRecipient[];
+
+// Only open clocks escalate; a met or missed clock is history.
+const isOpen = (clock: SLAClock) =>
+  clock.state === "running" || clock.state === "paused";
+
+export const escalationId = (ticket: Ticket, step: EscalationStep, user: User) =>
+  `esc-${ticket.id}-${step.id}-${user.id}`;
+
+const buildNotification = (
+  ticket: Ticket,
+  sla: TicketSLA,
+  step: EscalationStep,
+  user: User,
+  now: number
+): AppNotification => {
+  const clock = sla[step.clock];
+  const used = Math.round((clock.elapsedMs / clock.targetMs) * 100);
+  const label = step.clock === "response" ? "response" : "resolution";
+
+  return {
+    id: escalationId(ticket, step, user),
+    userId: user.id,
+    ticketId: ticket.id,
+    title: clock.breached
+      ? `${ticket.ticketId} breached its ${label} SLA`
+      : `${ticket.ticketId} is at ${used}% of its ${label} SLA`,
+    message: clock.breached
+      ? `${ticket.priority} priority · ${formatSLADuration(clock.remainingMs)} over target · ${ticket.store}`
+      : `${ticket.priority} priority · ${formatSLADuration(clock.remainingMs)} left · ${ticket.store}`,
+    level: step.percent >= 100 ? "critical" : "warning",
+    createdAt: now,
+    read: false,
+  };
+};
+
+// Escalations `user` should have been notified about by `now`.
+export const getDueEscalations = (
+  tickets: Ticket[],
+  settings: Pick<AppSettings, "sla" | "stores" | "workflow">,
+  user: User,
+  now: number = Date.now()
+): AppNotification[] => {
+  if (user.role === "CUSTOMER") return [];
+
+  const due: AppNotification[] = [];
+  tickets.forEach((ticket) => {
+    // Closed tickets have no open clocks, and tickets that can never notify
+    // this user need no clocks at all.
+    if (isTerminalStatus(ticket.status, settings.workflow)) return;
+    if (!RECIPIENTS.some((r) => isRecipient(r, ticket, user))) return;
+
+    const sla = getTicketSLA(ticket, settings, now);
+    if (!sla) return;
+
+    (sla.target.escalations || []).forEach((step) => {
+      const clock = sla[step.clock];
+      if (!isOpen(clock) || !isRecipient(step.notify, ticket, user)) return;
+      if (clock.elapsedMs < (clock.targetMs * step.percent) / 100) return;
+      due.push(buildNotification(ticket, sla, step, user, now));
+    });
+  });
+  return due;
+};
@@ -0,0 +1,53 @@
+import { signInWithCustomToken, signOut } from "firebase/auth";
+import { auth } from "@/firebaseConfig";
+import { activeBackendName } from "./dataRepository";
+import { callServerFunction } from "./serverFunctions";
+
+// Staff and customers sign in with Supabase Auth, but firestore.rules can
+// only see Firebase Auth users. With the Firestore backend the app therefore
+// also signs in to Firebase, with a custom token the `firebase-token` Edge
+// Function issues for the Supabase session. Its uid is the staff member's
+// `users` ID or the customer's profile ID, which is also the app's
+// User.id. Nothing here runs on the Supabase backend.
+
+// Signs in to Firebase as the current Supabase user and resolves with the
+// uid, or null on the Supabase backend.
+export const signInToFirebase = async (): Promise<string | null> => {
+  if (activeBackendName !== "firestore") return null;
+  const { token, uid } = await callServerFunction<{
+    token: string;
+    uid: string;
+  }>("firebase-token", {});
+  await signInWithCustomToken(auth, token);
+  return uid;
+};
+
+// Firebase keeps its session across reloads. Reads wait for it to be
+// restored, and sign in again when it belongs to someone else or is gone.
+let pending: { userId: string; ready: Promise<void> } | null = null;
+
+export const ensureFirebaseSession = (userId: string): Promise<void> => {
+  if (activeBackendName !== "firestore") return Promise.resolve();
+  if (pending?.userId !== userId) {
+    const ready = (async () => {
+      await auth.authStateReady();
+      if (auth.currentUser?.uid === userId) return;
+      if ((await signInToFirebase()) !== userId) {
+        throw new Error("Please sign in again.");
+      }
+    })();
+    pending = { userId, ready };
+    // A failed attempt is tried again on the next call
+    ready.catch(() => {
+      if (pending?.ready === ready) pending = null;
+    });
+  }
+  return pending.ready;
+};
+
+export const signOutOfFirebase = async () => {
+  pending = null;
+  if (activeBackendName === "firestore" && auth.currentUser) {
+    await signOut(auth);
+  }
+};
@@ -0,0 +1,246 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  documentId,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  Query,
+  DocumentData,
+  QueryDocumentSnapshot,
+} from "firebase/firestore";
+import { db } from "@/firebaseConfig";
+import type {
+  DataBackend,
+  EntityMap,
+  EntityName,
+  FieldMatch,
+} from "./dataRepository";
+import { StockMovement, Ticket, TrackedTicket } from "../types";
+import { callServerFunction } from "./serverFunctions";
+
+// Collections whose documents carry a timestamp field to sort by.
+const ORDERED_ENTITIES: Partial<Record<EntityName, string>> = {
+  tickets: "createdAt",
+  laptop_reports: "createdAt",
+  invoices: "issuedAt",
+  payments: "recordedAt",
+  stock_movements: "createdAt",
+  purchase_orders: "createdAt",
+  device_transfers: "sentAt",
+  intake_photos: "takenAt",
+  devices: "registeredAt",
+  warranties: "issuedAt",
+  warranty_claims: "openedAt",
+  brand_payouts: "recordedAt",
+  customer_messages: "sentAt",
+};
+
+// Firestore rejects `undefined` field values. Only plain objects/arrays are
+// walked so Timestamps and FieldValue sentinels pass through untouched.
+const stripUndefined = (value: any): any => {
+  if (Array.isArray(value)) return value.map(stripUndefined);
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    const out: Record<string, any> = {};
+    Object.entries(value).forEach(([key, val]) => {
+      if (val !== undefined) out[key] = stripUndefined(val);
+    });
+    return out;
+  }
+  return value;
+};
+
+const fromDoc = <K extends EntityName>(
+  snap: QueryDocumentSnapshot<DocumentData>
+): EntityMap[K] => ({ ...(snap.data() as object), id: snap.id } as EntityMap[K]);
+
+// An empty list matches nothing; Firestore rejects `in` without values.
+// `id` is the document ID rather than a field, and a single one is read as
+// a document (see findBy), which rules that only allow `get` accept.
+const matchQuery = (entity: EntityName, field: string, value: FieldMatch) => {
+  const path = field === "id" ? documentId() : field;
+  return Array.isArray(value)
+    ? query(collection(db, entity), where(path, "in", value))
+    : query(collection(db, entity), where(path, "==", value));
+};
+
+const isDocumentMatch = (field: string, value: FieldMatch): value is string =>
+  field === "id" && !Array.isArray(value);
+
+const listQuery = (entity: EntityName): Query<DocumentData> => {
+  const ref = collection(db, entity);
+  const orderField = ORDERED_ENTITIES[entity];
+  return orderField ? query(ref, orderBy(orderField, "desc")) : ref;
+};
+
+// Running stock per part and store, one doc per `${partId}_${storeId}`, kept
+// next to the stock_movements ledger by addStockMovement.
+const STOCK_LEVELS = "stock_levels";
+
+export const firestoreBackend: DataBackend = {
+  name: "firestore",
+
+  async list(entity) {
+    const snapshot = await getDocs(listQuery(entity));
+    return snapshot.docs.map((d) => fromDoc(d));
+  },
+
+  async get(entity, id) {
+    const snap = await getDoc(doc(db, entity, id));
+    return snap.exists()
+      ? ({ ...(snap.data() as object), id: snap.id } as any)
+      : null;
+  },
+
+  async findBy(entity, field, value) {
+    if (isDocumentMatch(field, value)) {
+      const found = await firestoreBackend.get(entity, value);
+      return found ? [found] : [];
+    }
+    if (value.length === 0) return [];
+    const snapshot = await getDocs(matchQuery(entity, field, value));
+    return snapshot.docs.map((d) => fromDoc(d));
+  },
+
+  async create(entity, data) {
+    const { id, ...rest } = data as any;
+    const payload = { ...stripUndefined(rest), createdAt: serverTimestamp() };
+
+    if (id) {
+      await setDoc(doc(db, entity, id), payload);
+      return { ...rest, id };
+    }
+    const ref = await addDoc(collection(db, entity), payload);
+    return { ...rest, id: ref.id };
+  },
+
+  async upsert(entity, item) {
+    const { id, ...rest } = item as any;
+    const ref = doc(db, entity, id);
+    // New documents get `createdAt` as in `create`, or the ordered
+    // subscriptions would leave them out.
+    const payload = stripUndefined(rest);
+    if (!(await getDoc(ref)).exists()) payload.createdAt = serverTimestamp();
+    await setDoc(ref, payload, { merge: true });
+  },
+
+  async update(entity, id, patch) {
+    const { id: _ignored, ...rest } = patch as any;
+    await updateDoc(doc(db, entity, id), {
+      ...stripUndefined(rest),
+      updatedAt: serverTimestamp(),
+    });
+  },
+
+  async remove(entity, id) {
+    await deleteDoc(doc(db, entity, id));
+  },
+
+  // Counters live in their own `counters` collection, one doc per name.
+  async nextSequence(name, seed) {
+    const ref = doc(db, "counters", name);
+    const initial = (await getDoc(ref)).exists() ? 0 : await seed();
+
+    return runTransaction(db, async (tx) => {
+      const snap = await tx.get(ref);
+      const next = (snap.exists() ? snap.data().value : initial) + 1;
+      tx.set(ref, { value: next, updatedAt: serverTimestamp() });
+      return next;
+    });
+  },
+
+  // The movement and the running stock are written in one transaction, which
+  // Firestore retries when another write touched the stock in between.
+  async addStockMovement(movement, seed) {
+    const levelRef = doc(
+      db,
+      STOCK_LEVELS,
+      `${movement.partId}_${movement.storeId}`
+    );
+    const initial = (await getDoc(levelRef)).exists() ? 0 : await seed();
+    const ref = doc(collection(db, "stock_movements"));
+    const { id: _ignored, ...rest } = movement;
+
+    return runTransaction(db, async (tx) => {
+      const snap = await tx.get(levelRef);
+      const stock =
+        (snap.exists() ? snap.data().quantity : initial) + movement.quantity;
+      if (stock < 0) return null;
+      tx.set(levelRef, { quantity: stock, updatedAt: serverTimestamp() });
+      tx.set(ref, { ...stripUndefined(rest), createdAt: serverTimestamp() });
+      return { ...rest, id: ref.id } as StockMovement;
+    });
+  },
+
+  async writeTicket(id, change) {
+    const ref = doc(db, "tickets", id);
+    return runTransaction(db, async (tx) => {
+      const snap = await tx.get(ref);
+      const before = snap.exists() ? ({ ...snap.data(), id } as Ticket) : null;
+      const after = await change(before);
+      if (!after) return null;
+      const { id: _ignored, ...rest } = after;
+      tx.set(
+        ref,
+        {
+          ...stripUndefined(rest),
+          [before ? "updatedAt" : "createdAt"]: serverTimestamp(),
+        },
+        { merge: true }
+      );
+      return { before, after };
+    });
+  },
+
+  // Visitors cannot read `tickets`; the `track-ticket` Edge Function matches
+  // the mobile and counts misses on the server, as track_ticket does on
+  // Supabase.
+  async trackTicket(ticketId, mobileLast4) {
+    const { ticket } = await callServerFunction<{
+      ticket: TrackedTicket | null;
+    }>("track-ticket", { ticketId, mobileLast4 });
+    return ticket;
+  },
+
+  subscribe(entity, onData, onError) {
+    return onSnapshot(
+      listQuery(entity),
+      (snapshot) => onData(snapshot.docs.map((d) => fromDoc(d))),
+      (error) => onError?.(error)
+    );
+  },
+
+  // Unordered: ordering on another field would need a composite index.
+  subscribeBy(entity, field, value, onData, onError) {
+    if (isDocumentMatch(field, value)) {
+      return onSnapshot(
+        doc(db, entity, value),
+        (snap) =>
+          onData(
+            snap.exists()
+              ? [{ ...(snap.data() as object), id: snap.id } as any]
+              : []
+          ),
+        (error) => onError?.(error)
+      );
+    }
+    if (value.length === 0) {
+      onData([]);
+      return () => {};
+    }
+    return onSnapshot(
+      matchQuery(entity, field, value),
+      (snapshot) => onData(snapshot.docs.map((d) => fromDoc(d))),
+      (error) => onError?.(error)
+    );
+  },
+};
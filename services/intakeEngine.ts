@@ -0,0 +1,221 @@
+import {
+  DeviceIntake,
+  DeviceType,
+  IntakeAnswer,
+  IntakeCheckItem,
+  IntakeCheckResult,
+  IntakePhoto,
+  IntakeSection,
+  Ticket,
+  User,
+} from "../types";
+import { repository } from "./dataRepository";
+import { can } from "./permissionEngine";
+
+// Device check-in. Each device type can carry its own checklist (Settings →
+// Devices); types without one use DEFAULT_INTAKE_CHECKLIST. Answers are
+// stored on the ticket with the item labels copied in, so later checklist
+// edits do not rewrite what the customer signed for.
+
+export const INTAKE_SECTIONS: IntakeSection[] = [
+  "Accessories",
+  "Condition",
+  "Power",
+];
+
+export const INTAKE_ANSWERS: Record<IntakeSection, IntakeAnswer[]> = {
+  Accessories: ["Received", "Missing"],
+  Condition: ["Good", "Damaged"],
+  Power: ["Yes", "No", "Not Tested"],
+};
+
+// Answers worth pointing out on the receipt.
+export const isIntakeProblem = (answer: IntakeAnswer) =>
+  answer === "Missing" || answer === "Damaged" || answer === "No";
+
+// The item id the legacy "Charger" field follows.
+export const CHARGER_ITEM_ID = "charger";
+
+export const DEFAULT_INTAKE_CHECKLIST: IntakeCheckItem[] = [
+  { id: CHARGER_ITEM_ID, label: "Charger", section: "Accessories" },
+  { id: "sim-tray", label: "SIM tray", section: "Accessories" },
+  { id: "memory-card", label: "Memory card", section: "Accessories" },
+  { id: "case", label: "Case / cover", section: "Accessories" },
+  { id: "screen", label: "Screen", section: "Condition" },
+  { id: "body", label: "Body / housing", section: "Condition" },
+  { id: "ports", label: "Ports & buttons", section: "Condition" },
+  { id: "powers-on", label: "Powers on", section: "Power" },
+  { id: "display", label: "Display works", section: "Power" },
+  { id: "charging", label: "Charges", section: "Power" },
+];
+
+export const getIntakeChecklist = (
+  deviceType: string,
+  deviceTypes: DeviceType[]
+): IntakeCheckItem[] =>
+  deviceTypes.find((d) => d.name === deviceType)?.intakeChecklist ??
+  DEFAULT_INTAKE_CHECKLIST;
+
+// One row per checklist item, keeping answers already given for the same
+// item. Unanswered items have no answer yet.
+export type IntakeFormRow = Omit<IntakeCheckResult, "answer"> & {
+  answer?: IntakeAnswer;
+};
+
+export const buildIntakeRows = (
+  checklist: IntakeCheckItem[],
+  answered: IntakeFormRow[] = []
+): IntakeFormRow[] =>
+  checklist.map((item) => {
+    const previous = answered.find((r) => r.itemId === item.id);
+    return {
+      itemId: item.id,
+      label: item.label,
+      section: item.section,
+      answer: previous?.answer,
+      note: previous?.note,
+    };
+  });
+
+// Validates the form rows into a DeviceIntake for the ticket.
+export const completeIntake = (
+  rows: IntakeFormRow[],
+  remarks: string,
+  user: User,
+  now: number = Date.now()
+): DeviceIntake => {
+  const missing = rows.filter((r) => !r.answer);
+  if (missing.length > 0) {
+    throw new Error(
+      `Complete the intake checklist: ${missing
+        .map((r) => r.label)
+        .join(", ")}.`
+    );
+  }
+  const undescribed = rows.find(
+    (r) => r.answer === "Damaged" && !r.note?.trim()
+  );
+  if (undescribed) {
+    throw new Error(`Describe the damage to "${undescribed.label}".`);
+  }
+  return {
+    results: rows.map((r) => ({
+      itemId: r.itemId,
+      label: r.label,
+      section: r.section,
+      answer: r.answer as IntakeAnswer,
+      note: r.note?.trim() || undefined,
+    })),
+    remarks: remarks.trim() || undefined,
+    recordedAt: now,
+    recordedBy: user.name,
+  };
+};
+
+// Same answers (and notes) as before: nothing to re-stamp.
+export const isSameIntake = (
+  intake: DeviceIntake | undefined,
+  next: DeviceIntake
+) =>
+  !!intake &&
+  intake.remarks === next.remarks &&
+  JSON.stringify(intake.results) === JSON.stringify(next.results);
+
+// Whether the charger was handed over, when the checklist asks.
+export const getChargerReceived = (intake: DeviceIntake) => {
+  const charger = intake.results.find((r) => r.itemId === CHARGER_ITEM_ID);
+  return charger ? charger.answer === "Received" : undefined;
+};
+
+// --- PHOTOS ---
+
+const PHOTO_MAX_SIZE = 1024; // px on the longest side
+const PHOTO_MAX_FILE = 8 * 1024 * 1024;
+
+// Resizes a camera photo to a JPEG data URL small enough to store.
+export const compressPhoto = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    if (!file.type.startsWith("image/")) {
+      reject(new Error("Choose an image file."));
+      return;
+    }
+    if (file.size > PHOTO_MAX_FILE) {
+      reject(new Error("The photo is too large (max 8MB)."));
+      return;
+    }
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error("Could not read the photo."));
+    reader.onload = (event) => {
+      const img = new Image();
+      img.onerror = () => reject(new Error("Could not read the photo."));
+      img.onload = () => {
+        const scale = Math.min(
+          1,
+          PHOTO_MAX_SIZE / Math.max(img.width, img.height)
+        );
+        const canvas = document.createElement("canvas");
+        canvas.width = Math.round(img.width * scale);
+        canvas.height = Math.round(img.height * scale);
+        canvas
+          .getContext("2d")
+          ?.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL("image/jpeg", 0.7));
+      };
+      img.src = event.target?.result as string;
+    };
+    reader.readAsDataURL(file);
+  });
+
+export const addIntakePhoto = async (
+  ticket: Ticket,
+  dataUrl: string,
+  caption: string,
+  user: User,
+  now: number = Date.now()
+): Promise<IntakePhoto> => {
+  if (!can(user, "intake.record")) {
+    throw new Error("You don't have permission to add condition photos.");
+  }
+  const photo = await repository.intakePhotos.create({
+    ticketId: ticket.id,
+    dataUrl,
+    caption: caption.trim() || undefined,
+    takenAt: now,
+    takenBy: user.name,
+  });
+  await repository.tickets.update(
+    ticket.id,
+    {},
+    {
+      action: "Intake Photo Added",
+      details: caption.trim()
+        ? `Condition photo: ${caption.trim()}`
+        : "Condition photo added.",
+    }
+  );
+  return photo;
+};
+
+// Photos are evidence, so only admins can take one down.
+export const removeIntakePhoto = async (
+  photo: IntakePhoto,
+  reason: string,
+  user: User
+): Promise<void> => {
+  if (!can(user, "intake.photo.delete")) {
+    throw new Error("You don't have permission to remove condition photos.");
+  }
+  if (!reason.trim()) throw new Error("Give a reason for removing the photo.");
+  await repository.intakePhotos.remove(photo.id);
+  await repository.tickets.update(
+    photo.ticketId,
+    {},
+    {
+      action: "Intake Photo Removed",
+      details: `Photo from ${new Date(photo.takenAt).toLocaleString()} by ${
+        photo.takenBy
+      } removed.`,
+      reason: reason.trim(),
+    }
+  );
+};
@@ -0,0 +1,196 @@
+import { jsPDF } from "jspdf";
+import { IntakePhoto, Ticket } from "../types";
+import { INTAKE_SECTIONS, isIntakeProblem } from "./intakeEngine";
+import { drawQrCode } from "./qrCode";
+import { getTicketLink } from "./ticketPrintPdf";
+
+// Intake receipt handed to the customer at check-in: the device, what was
+// received, its condition and power-on state, thumbnails of the condition
+// photos, and signature lines for the customer and staff. The QR code opens
+// the ticket when staff scan it at pick-up.
+
+const PHOTOS_PER_ROW = 4;
+const QR_SIZE = 26;
+
+export const downloadIntakeReceipt = (
+  ticket: Ticket,
+  photos: IntakePhoto[] = []
+) => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 14;
+  const right = pageWidth - margin;
+  let y = 20;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      doc.addPage();
+      y = 20;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(12);
+    y += 8;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(9);
+    doc.setTextColor(120);
+    doc.text(text.toUpperCase(), margin, y);
+    y += 5;
+    doc.setTextColor(0);
+    doc.setFontSize(10);
+  };
+
+  // Header with the QR code on the right
+  drawQrCode(doc, getTicketLink(ticket), right - QR_SIZE, 8, QR_SIZE);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.setTextColor(67, 56, 202); // Indigo-700
+  doc.text("DEVICE INTAKE RECEIPT", margin, y);
+  y += 7;
+  doc.setFontSize(13);
+  doc.setTextColor(0);
+  doc.text(ticket.ticketId, margin, y);
+
+  y += 6;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.setTextColor(80);
+  doc.text(
+    `${ticket.store} · Checked in: ${
+      ticket.intake
+        ? new Date(ticket.intake.recordedAt).toLocaleString()
+        : ticket.date
+    }`,
+    margin,
+    y
+  );
+  y = Math.max(y, 8 + QR_SIZE) + 4;
+  doc.setDrawColor(200);
+  doc.line(margin, y, right, y);
+
+  // Customer & device
+  heading("Customer");
+  doc.setFont("helvetica", "normal");
+  doc.text(`${ticket.name} · ${ticket.number}`, margin, y);
+
+  heading("Device");
+  doc.setFont("helvetica", "normal");
+  [
+    [ticket.deviceType, ticket.brand, ticket.model].filter(Boolean).join(" "),
+    ticket.serial && `Serial: ${ticket.serial}`,
+    ticket.deviceDescription,
+  ]
+    .filter(Boolean)
+    .forEach((line) => {
+      doc.splitTextToSize(line as string, right - margin).forEach(
+        (part: string) => {
+          doc.text(part, margin, y);
+          y += 5;
+        }
+      );
+    });
+
+  heading("Reported Issue");
+  doc.setFont("helvetica", "normal");
+  doc.splitTextToSize(ticket.issueDescription || "-", right - margin).forEach(
+    (part: string) => {
+      ensureSpace(5);
+      doc.text(part, margin, y);
+      y += 5;
+    }
+  );
+
+  // Checklist
+  const results = ticket.intake?.results ?? [];
+  INTAKE_SECTIONS.forEach((section) => {
+    const rows = results.filter((r) => r.section === section);
+    if (rows.length === 0) return;
+    heading(section);
+    rows.forEach((row) => {
+      const note = row.note
+        ? doc.splitTextToSize(row.note, right - margin - 90)
+        : [];
+      ensureSpace(Math.max(1, note.length) * 5);
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(30);
+      doc.text(row.label, margin, y);
+      doc.setFont("helvetica", "bold");
+      if (isIntakeProblem(row.answer)) doc.setTextColor(220, 38, 38);
+      doc.text(row.answer, margin + 60, y);
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(80);
+      if (note.length) doc.text(note, margin + 90, y);
+      y += Math.max(1, note.length) * 5;
+    });
+  });
+  if (!ticket.intake) {
+    heading("Checklist");
+    doc.setFont("helvetica", "italic");
+    doc.text("No intake checklist was recorded.", margin, y);
+    y += 5;
+  }
+  if (ticket.intake?.remarks) {
+    heading("Remarks");
+    doc.setFont("helvetica", "normal");
+    doc.splitTextToSize(ticket.intake.remarks, right - margin).forEach(
+      (part: string) => {
+        ensureSpace(5);
+        doc.text(part, margin, y);
+        y += 5;
+      }
+    );
+  }
+
+  // Photos
+  if (photos.length > 0) {
+    heading(`Condition Photos (${photos.length})`);
+    const gap = 4;
+    const size = (right - margin - gap * (PHOTOS_PER_ROW - 1)) / PHOTOS_PER_ROW;
+    photos.forEach((photo, index) => {
+      const column = index % PHOTOS_PER_ROW;
+      if (column === 0) ensureSpace(size + 6);
+      const x = margin + column * (size + gap);
+      doc.addImage(photo.dataUrl, "JPEG", x, y, size, size * 0.75);
+      if (photo.caption) {
+        doc.setFontSize(7);
+        doc.setTextColor(100);
+        doc.text(doc.splitTextToSize(photo.caption, size)[0], x, y + size * 0.75 + 3);
+      }
+      if (column === PHOTOS_PER_ROW - 1 || index === photos.length - 1) {
+        y += size * 0.75 + 6;
+      }
+    });
+  }
+
+  // Terms & signatures
+  ensureSpace(40);
+  y += 8;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  doc.setTextColor(100);
+  doc.text(
+    doc.splitTextToSize(
+      "Items not marked as received above were not handed over. The condition noted above was agreed at check-in.",
+      right - margin
+    ),
+    margin,
+    y
+  );
+  y += 24;
+  doc.setDrawColor(150);
+  doc.line(margin, y, margin + 70, y);
+  doc.line(right - 70, y, right, y);
+  y += 5;
+  doc.setFontSize(9);
+  doc.setTextColor(60);
+  doc.text(`Customer: ${ticket.name}`, margin, y);
+  doc.text(
+    `Received by: ${ticket.intake?.recordedBy ?? ""}`,
+    right - 70,
+    y
+  );
+
+  doc.save(`Intake_${ticket.ticketId}.pdf`);
+};
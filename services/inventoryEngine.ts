@@ -0,0 +1,343 @@
+import {
+  AppSettings,
+  Part,
+  QuoteLineItem,
+  StockMovement,
+  StockMovementKind,
+  Store,
+  Ticket,
+  User,
+} from "../types";
+import { getDataBackend, NewEntity, repository } from "./dataRepository";
+import { can } from "./permissionEngine";
+
+// Spare parts inventory. Every change in stock is a StockMovement row
+// (receipts, consumption against a ticket, returns from a ticket, manual
+// adjustments); the stock of a part in a store is the sum of its rows. The
+// backend also keeps a running stock per part and store, which it checks and
+// moves together with each new row, so stock never goes below zero however
+// many people take parts at once.
+//
+// Parts consumed on a ticket flow into its quotation and invoice drafts as
+// part lines carrying the Part id (see getConsumedPartLines).
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementKind, string> = {
+  Receipt: "Received",
+  Consumption: "Used on ticket",
+  Return: "Returned from ticket",
+  Adjustment: "Adjusted",
+};
+
+// --- STOCK LEVELS ---
+
+// Stock keyed by `${partId}:${storeId}`.
+export type StockLevels = Map<string, number>;
+
+const stockKey = (partId: string, storeId: string) => `${partId}:${storeId}`;
+
+export const getStockLevels = (movements: StockMovement[]): StockLevels => {
+  const levels: StockLevels = new Map();
+  movements.forEach((m) => {
+    const key = stockKey(m.partId, m.storeId);
+    levels.set(key, (levels.get(key) ?? 0) + m.quantity);
+  });
+  return levels;
+};
+
+export const getStock = (
+  levels: StockLevels,
+  partId: string,
+  storeId: string
+) => levels.get(stockKey(partId, storeId)) ?? 0;
+
+export const getTotalStock = (
+  levels: StockLevels,
+  partId: string,
+  stores: Store[]
+) => stores.reduce((sum, s) => sum + getStock(levels, partId, s.id), 0);
+
+export const isLowStock = (part: Part, quantity: number) =>
+  quantity <= part.reorderLevel;
+
+export interface LowStockItem {
+  part: Part;
+  store: Store;
+  quantity: number;
+}
+
+export const getLowStockItems = (
+  parts: Part[],
+  stores: Store[],
+  levels: StockLevels
+): LowStockItem[] =>
+  parts
+    .filter((p) => p.active)
+    .flatMap((part) =>
+      stores.map((store) => ({
+        part,
+        store,
+        quantity: getStock(levels, part.id, store.id),
+      }))
+    )
+    .filter((item) => isLowStock(item.part, item.quantity));
+
+// Tickets hold the store name; stock is kept per store id.
+export const getStoreId = (storeName: string, stores: Store[]) =>
+  stores.find((s) => s.name === storeName)?.id ?? null;
+
+// --- TICKET PARTS ---
+
+// Active parts that fit the ticket's brand (or partner brand) and device
+// type. Generic parts fit every brand; parts with no device types fit all.
+export const getPartsForTicket = (
+  parts: Part[],
+  ticket: Pick<Ticket, "brand" | "brandService" | "deviceType">,
+  settings: Pick<AppSettings, "serviceBrands" | "deviceTypes">
+) => {
+  const brandIds = settings.serviceBrands
+    .filter(
+      (b) =>
+        b.name.toLowerCase() === (ticket.brand || "").toLowerCase() ||
+        b.name === ticket.brandService
+    )
+    .map((b) => b.id);
+  const deviceTypeId = settings.deviceTypes.find(
+    (d) => d.name === ticket.deviceType
+  )?.id;
+
+  return parts.filter(
+    (p) =>
+      p.active &&
+      (!p.brandId || brandIds.includes(p.brandId)) &&
+      (p.deviceTypeIds.length === 0 ||
+        (!!deviceTypeId && p.deviceTypeIds.includes(deviceTypeId)))
+  );
+};
+
+// Net quantity of each part used on a ticket (consumed minus returned).
+export const getTicketConsumption = (
+  movements: StockMovement[],
+  ticketId: string
+) => {
+  const used = new Map<string, number>();
+  movements
+    .filter((m) => m.ticketId === ticketId)
+    .forEach((m) => used.set(m.partId, (used.get(m.partId) ?? 0) - m.quantity));
+  return Array.from(used.entries())
+    .filter(([, quantity]) => quantity > 0)
+    .map(([partId, quantity]) => ({ partId, quantity }));
+};
+
+export const partLine = (part: Part, quantity: number): QuoteLineItem => ({
+  id: `${Date.now()}-${part.id}`,
+  kind: "part",
+  description: `${part.name} (${part.sku})`,
+  quantity,
+  unitPrice: part.unitPrice,
+  taxRate: part.taxRate,
+  partId: part.id,
+});
+
+export const getConsumedPartLines = (
+  parts: Part[],
+  movements: StockMovement[],
+  ticketId: string
+): QuoteLineItem[] =>
+  getTicketConsumption(movements, ticketId).flatMap(({ partId, quantity }) => {
+    const part = parts.find((p) => p.id === partId);
+    return part ? [partLine(part, quantity)] : [];
+  });
+
+// --- CATALOGUE ---
+
+export type PartDraft = Omit<Part, "id" | "updatedAt"> & { id?: string };
+
+export const savePart = async (
+  draft: PartDraft,
+  parts: Part[],
+  user: User,
+  now: number = Date.now()
+): Promise<Part> => {
+  if (!can(user, "inventory.manage")) {
+    throw new Error("You don't have permission to edit the parts catalogue.");
+  }
+  const sku = draft.sku.trim().toUpperCase();
+  if (!sku) throw new Error("Enter a SKU.");
+  if (!draft.name.trim()) throw new Error("Enter a part name.");
+  if (parts.some((p) => p.sku === sku && p.id !== draft.id)) {
+    throw new Error(`SKU ${sku} is already in use.`);
+  }
+  if (!(draft.unitPrice >= 0) || !(draft.unitCost >= 0)) {
+    throw new Error("Prices cannot be negative.");
+  }
+  if (!(draft.reorderLevel >= 0)) {
+    throw new Error("The reorder level cannot be negative.");
+  }
+
+  const fields = {
+    ...draft,
+    sku,
+    name: draft.name.trim(),
+    brandId: draft.brandId || undefined,
+    updatedAt: now,
+  };
+  if (draft.id) {
+    const part = { ...fields, id: draft.id } as Part;
+    await repository.parts.upsert(part);
+    return part;
+  }
+  return repository.parts.create(fields);
+};
+
+// --- STOCK ACTIONS ---
+
+const currentStock = async (partId: string, storeId: string) => {
+  const movements = await repository.stockMovements.findBy("partId", partId);
+  return getStock(getStockLevels(movements), partId, storeId);
+};
+
+// Every stock change goes through here. Resolves to null, recording nothing,
+// when the stock would go below zero.
+export const recordStockMovement = (movement: NewEntity<"stock_movements">) =>
+  getDataBackend().addStockMovement(movement, () =>
+    currentStock(movement.partId, movement.storeId)
+  );
+
+// Goods in (Receipt) or a stock-take correction (Adjustment, signed).
+export const adjustStock = async (
+  part: Part,
+  storeId: string,
+  kind: "Receipt" | "Adjustment",
+  quantity: number,
+  note: string,
+  user: User,
+  now: number = Date.now()
+): Promise<StockMovement> => {
+  if (!can(user, "inventory.manage")) {
+    throw new Error("You don't have permission to change stock.");
+  }
+  if (!Number.isInteger(quantity) || quantity === 0) {
+    throw new Error("Enter a whole number of units.");
+  }
+  if (kind === "Receipt" && quantity < 0) {
+    throw new Error("A receipt must add stock; use an adjustment to remove.");
+  }
+  if (kind === "Adjustment" && !note.trim()) {
+    throw new Error("Give a reason for the adjustment.");
+  }
+  const movement = await recordStockMovement({
+    partId: part.id,
+    storeId,
+    kind,
+    quantity,
+    note: note.trim() || undefined,
+    createdAt: now,
+    createdBy: user.name,
+  });
+  if (!movement) {
+    const stock = await currentStock(part.id, storeId);
+    throw new Error(`Only ${stock} of ${part.sku} in stock at this store.`);
+  }
+  return movement;
+};
+
+const ticketStoreId = (ticket: Ticket, stores: Store[]) => {
+  const storeId = getStoreId(ticket.store, stores);
+  if (!storeId) throw new Error(`Unknown store "${ticket.store}".`);
+  return storeId;
+};
+
+export const consumePart = async (
+  ticket: Ticket,
+  part: Part,
+  quantity: number,
+  settings: Pick<AppSettings, "stores">,
+  user: User,
+  now: number = Date.now()
+): Promise<StockMovement> => {
+  if (!can(user, "inventory.consume")) {
+    throw new Error("You don't have permission to use parts on tickets.");
+  }
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new Error("Enter a whole number of units above zero.");
+  }
+  const storeId = ticketStoreId(ticket, settings.stores);
+  const movement = await recordStockMovement({
+    partId: part.id,
+    storeId,
+    kind: "Consumption",
+    quantity: -quantity,
+    ticketId: ticket.id,
+    ticketNumber: ticket.ticketId,
+    createdAt: now,
+    createdBy: user.name,
+  });
+  if (!movement) {
+    const stock = await currentStock(part.id, storeId);
+    throw new Error(
+      `Only ${stock} of ${part.sku} in stock at ${ticket.store}.`
+    );
+  }
+  await repository.tickets.update(
+    ticket.id,
+    {},
+    {
+      action: "Part Used",
+      details: `${quantity} × ${part.name} (${part.sku}) taken from ${ticket.store} stock.`,
+    }
+  );
+  return movement;
+};
+
+// Puts unused parts back into the store they were taken from.
+export const returnPart = async (
+  ticket: Ticket,
+  part: Part,
+  quantity: number,
+  settings: Pick<AppSettings, "stores">,
+  user: User,
+  now: number = Date.now()
+): Promise<StockMovement> => {
+  if (!can(user, "inventory.consume")) {
+    throw new Error("You don't have permission to return parts.");
+  }
+  const movements = await repository.stockMovements.findBy(
+    "ticketId",
+    ticket.id
+  );
+  const used =
+    getTicketConsumption(movements, ticket.id).find(
+      (c) => c.partId === part.id
+    )?.quantity ?? 0;
+  if (!Number.isInteger(quantity) || quantity <= 0 || quantity > used) {
+    throw new Error(`Between 1 and ${used} of ${part.sku} can be returned.`);
+  }
+
+  const storeId =
+    movements
+      .filter((m) => m.partId === part.id && m.kind === "Consumption")
+      .sort((a, b) => b.createdAt - a.createdAt)[0]?.storeId ??
+    ticketStoreId(ticket, settings.stores);
+  const storeName =
+    settings.stores.find((s) => s.id === storeId)?.name ?? ticket.store;
+
+  const movement = await recordStockMovement({
+    partId: part.id,
+    storeId,
+    kind: "Return",
+    quantity,
+    ticketId: ticket.id,
+    ticketNumber: ticket.ticketId,
+    createdAt: now,
+    createdBy: user.name,
+  });
+  await repository.tickets.update(
+    ticket.id,
+    {},
+    {
+      action: "Part Returned",
+      details: `${quantity} × ${part.name} (${part.sku}) returned to ${storeName} stock.`,
+    }
+  );
+  return movement;
+};
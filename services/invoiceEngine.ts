@@ -0,0 +1,268 @@
+import {
+  AppSettings,
+  Invoice,
+  InvoiceLine,
+  Quotation,
+  Store,
+  Ticket,
+  User,
+} from "../types";
+import { getDataBackend, repository } from "./dataRepository";
+import { can } from "./permissionEngine";
+import { getStoreCode } from "./ticketNumbering";
+import { formatQuoteAmount } from "./quotationEngine";
+import {
+  calculateInvoiceTotals,
+  getActiveInvoice,
+  lineAmount,
+  round2,
+} from "./billing";
+import { getResolvedStatus, validateTransition } from "./workflowEngine";
+import { issueRepairWarranty } from "./warrantyEngine";
+
+// Invoices for resolved tickets (the workflow's resolved status). Numbers are INV-<store code>-<number>, one
+// counter per store code (the same codes as ticket IDs), issued by the
+// backend's atomic counter. Issuing an invoice writes its number to
+// Ticket.billNumber and resolves the ticket if it is not resolved yet, which
+// also issues the shop's repair warranty.
+//
+// Warranty jobs are invoiced at zero cost: the whole subtotal is discounted
+// and no tax is charged, but the parts and labour are still listed.
+
+// --- NUMBERING ---
+
+export const getInvoicePrefix = (storeName: string, stores: Store[]) =>
+  `INV-${getStoreCode(storeName, stores)}`;
+
+export const formatInvoiceNumber = (prefix: string, sequence: number) =>
+  `${prefix}-${String(sequence).padStart(4, "0")}`;
+
+const parseSequence = (invoiceNumber: string, prefix: string) => {
+  const match = invoiceNumber.match(/^(.*)-(\d+)$/);
+  return match && match[1] === prefix ? Number(match[2]) : null;
+};
+
+// Only used the first time a counter is created (see ticketNumbering).
+const highestIssued = async (prefix: string) => {
+  const invoices = await repository.invoices.list();
+  return invoices.reduce(
+    (max, i) => Math.max(max, parseSequence(i.invoiceNumber, prefix) ?? 0),
+    0
+  );
+};
+
+export const nextInvoiceNumber = async (storeName: string, stores: Store[]) => {
+  const prefix = getInvoicePrefix(storeName, stores);
+  const sequence = await getDataBackend().nextSequence(`invoice-${prefix}`, () =>
+    highestIssued(prefix)
+  );
+  return formatInvoiceNumber(prefix, sequence);
+};
+
+// --- DRAFTS ---
+
+// Starting lines for a new invoice: the approved quotation if there is one,
+// otherwise the ticket's estimate as a single labour line. Parts consumed
+// from inventory replace quoted lines for the same part (what was used is
+// billed); without a quotation the estimate less those parts is the labour.
+export const getInvoiceDraftLines = (
+  ticket: Ticket,
+  quotation: Quotation | null,
+  defaultTaxRate: number,
+  consumedLines: InvoiceLine[] = []
+): InvoiceLine[] => {
+  const consumed = consumedLines.map((line) => ({ ...line }));
+  const consumedIds = consumed.map((line) => line.partId);
+
+  const approved = [...(quotation?.revisions ?? [])]
+    .reverse()
+    .find((r) => r.status === "Approved");
+  if (approved) {
+    return [
+      ...approved.items
+        .filter((item) => !item.partId || !consumedIds.includes(item.partId))
+        .map((item) => ({ ...item })),
+      ...consumed,
+    ];
+  }
+
+  const partsTotal = consumed.reduce((sum, l) => sum + lineAmount(l), 0);
+  const labour = (ticket.estimatedAmount || 0) - partsTotal;
+  if (labour > 0) {
+    return [
+      ...consumed,
+      {
+        id: `${Date.now()}`,
+        kind: "labour",
+        description: `${ticket.deviceType} repair`,
+        quantity: 1,
+        unitPrice: round2(labour),
+        taxRate: defaultTaxRate,
+      },
+    ];
+  }
+  return consumed;
+};
+
+// Returns why `user` cannot invoice `ticket` right now, or null if they can.
+// Open tickets can be invoiced by anyone allowed to resolve them.
+export const getInvoiceBlocker = (
+  ticket: Ticket,
+  user: User,
+  settings: Pick<AppSettings, "workflow">,
+  invoices: Invoice[]
+): string | null => {
+  if (!can(user, "invoice.issue")) {
+    return "You don't have permission to issue invoices.";
+  }
+  const active = getActiveInvoice(invoices, ticket.id);
+  if (active) {
+    return `This ticket is already invoiced (${active.invoiceNumber}). Void it to issue a new one.`;
+  }
+  const resolvedStatus = getResolvedStatus(settings.workflow);
+  if (ticket.status === resolvedStatus) return null;
+
+  return validateTransition(
+    ticket.status,
+    resolvedStatus,
+    user.role,
+    {
+      billNumber: "(invoice number)",
+      estimatedAmount: ticket.estimatedAmount,
+      assignedToId: ticket.assignedToId,
+      scheduledDate: ticket.scheduledDate,
+      holdReason: ticket.holdReason,
+      reason: "Invoice issued",
+    },
+    settings.workflow
+  );
+};
+
+// --- ACTIONS ---
+
+export interface InvoiceDraft {
+  lines: InvoiceLine[];
+  discount: number;
+  date: string; // YYYY-MM-DD
+}
+
+const validateDraft = ({ lines, date }: InvoiceDraft) => {
+  if (lines.length === 0) throw new Error("Add at least one line item.");
+  lines.forEach((line, index) => {
+    if (!line.description.trim()) {
+      throw new Error(`Line ${index + 1} needs a description.`);
+    }
+    if (!(line.quantity > 0)) {
+      throw new Error(`Line ${index + 1} needs a quantity above zero.`);
+    }
+    if (!(line.unitPrice >= 0) || !(line.taxRate >= 0)) {
+      throw new Error(`Line ${index + 1} has an invalid price or tax rate.`);
+    }
+  });
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error("Set the invoice date.");
+  }
+};
+
+export const issueInvoice = async (
+  ticket: Ticket,
+  draft: InvoiceDraft,
+  settings: Pick<AppSettings, "stores" | "workflow" | "warranty">,
+  user: User,
+  now: number = Date.now()
+): Promise<Invoice> => {
+  validateDraft(draft);
+  const existing = await repository.invoices.findBy("ticketId", ticket.id);
+  const blocker = getInvoiceBlocker(ticket, user, settings, existing);
+  if (blocker) throw new Error(blocker);
+
+  const totals = calculateInvoiceTotals(
+    draft.lines,
+    draft.discount,
+    ticket.warranty
+  );
+  const invoiceNumber = await nextInvoiceNumber(ticket.store, settings.stores);
+
+  const invoice = await repository.invoices.create({
+    invoiceNumber,
+    ticketId: ticket.id,
+    ticketNumber: ticket.ticketId,
+    customerId: ticket.customerId,
+    customerName: ticket.name,
+    customerMobile: ticket.number,
+    customerAddress: ticket.address,
+    store: ticket.store,
+    date: draft.date,
+    lines: draft.lines,
+    discount: totals.discount,
+    warranty: ticket.warranty,
+    subtotal: totals.subtotal,
+    taxes: totals.taxes,
+    tax: totals.tax,
+    total: totals.total,
+    status: "Issued",
+    issuedAt: now,
+    issuedBy: user.name,
+  });
+
+  // A warranty ticket's bill number is the original purchase bill; keep it.
+  const keepBillNumber = ticket.warranty && !!ticket.billNumber?.trim();
+  const resolvedStatus = getResolvedStatus(settings.workflow);
+  await repository.tickets.update(
+    ticket.id,
+    {
+      ...(keepBillNumber ? {} : { billNumber: invoiceNumber }),
+      ...(ticket.status !== resolvedStatus
+        ? { status: resolvedStatus, resolvedAt: new Date(now).toISOString() }
+        : {}),
+    },
+    {
+      action: "Invoice Issued",
+      details: `Invoice ${invoiceNumber} issued for ${formatQuoteAmount(
+        totals.total
+      )}${ticket.warranty ? " (warranty, no charge)" : ""}.`,
+    }
+  );
+  if (ticket.status !== resolvedStatus) {
+    await issueRepairWarranty(ticket, settings, user, now);
+  }
+  return invoice;
+};
+
+export const voidInvoice = async (
+  invoice: Invoice,
+  reason: string,
+  user: User,
+  now: number = Date.now()
+): Promise<void> => {
+  if (!can(user, "invoice.void")) {
+    throw new Error("You don't have permission to void invoices.");
+  }
+  if (invoice.status === "Void") {
+    throw new Error(`${invoice.invoiceNumber} is already void.`);
+  }
+  if (!reason.trim()) throw new Error("A reason is required to void an invoice.");
+
+  await repository.invoices.update(invoice.id, {
+    status: "Void",
+    voidedAt: now,
+    voidedBy: user.name,
+    voidReason: reason.trim(),
+  });
+  await repository.tickets.update(
+    invoice.ticketId,
+    {},
+    {
+      action: "Invoice Voided",
+      details: `Invoice ${invoice.invoiceNumber} was voided.`,
+      reason: reason.trim(),
+    }
+  );
+};
+
+// --- REVENUE ---
+
+// Revenue counts issued invoices only; void ones are kept for the audit
+// trail but never summed.
+export const getRevenueInvoices = (invoices: Invoice[]) =>
+  invoices.filter((i) => i.status === "Issued");
@@ -0,0 +1,156 @@
+import { jsPDF } from "jspdf";
+import { Invoice, Store } from "../types";
+import { QUOTE_LINE_KIND_LABELS } from "./quotationEngine";
+import { lineAmount } from "./billing";
+
+// Tax invoice PDF. The built-in PDF fonts have no rupee sign, so amounts are
+// printed as "Rs." here. Each GST rate is split evenly into CGST and SGST.
+
+const money = (amount: number) =>
+  `Rs. ${amount.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+export const downloadInvoicePdf = (invoice: Invoice, store?: Store) => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 14;
+  const right = pageWidth - margin;
+  let y = 20;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      doc.addPage();
+      y = 20;
+    }
+  };
+
+  // Header
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.setTextColor(67, 56, 202); // Indigo-700
+  doc.text("TAX INVOICE", margin, y);
+  doc.setFontSize(11);
+  doc.setTextColor(0);
+  doc.text(invoice.invoiceNumber, right, y, { align: "right" });
+
+  y += 7;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.setTextColor(80);
+  doc.text(invoice.store, margin, y);
+  doc.text(`Date: ${invoice.date}`, right, y, { align: "right" });
+  y += 5;
+  if (store?.gstin) doc.text(`GSTIN: ${store.gstin}`, margin, y);
+  doc.text(`Ticket: ${invoice.ticketNumber}`, right, y, { align: "right" });
+
+  if (invoice.status === "Void") {
+    y += 5;
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(220, 38, 38);
+    doc.text(`VOID - ${invoice.voidReason || ""}`, right, y, {
+      align: "right",
+    });
+  }
+
+  y += 6;
+  doc.setDrawColor(200);
+  doc.line(margin, y, right, y);
+
+  // Bill to
+  y += 8;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(9);
+  doc.setTextColor(120);
+  doc.text("BILL TO", margin, y);
+  y += 5;
+  doc.setFontSize(11);
+  doc.setTextColor(0);
+  doc.text(invoice.customerName, margin, y);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.setTextColor(60);
+  [invoice.customerMobile, invoice.customerAddress]
+    .filter(Boolean)
+    .forEach((line) => {
+      doc.splitTextToSize(line, 110).forEach((part: string) => {
+        y += 5;
+        doc.text(part, margin, y);
+      });
+    });
+
+  // Lines
+  y += 10;
+  const cols = { item: margin, qty: 120, rate: 150, amount: right };
+  doc.setFillColor(241, 245, 249); // Slate-100
+  doc.rect(margin, y - 5, right - margin, 8, "F");
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(9);
+  doc.setTextColor(71, 85, 105);
+  doc.text("ITEM", cols.item + 2, y);
+  doc.text("QTY", cols.qty, y, { align: "right" });
+  doc.text("RATE", cols.rate, y, { align: "right" });
+  doc.text("GST", cols.rate + 16, y, { align: "right" });
+  doc.text("AMOUNT", cols.amount - 2, y, { align: "right" });
+  y += 8;
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.setTextColor(30);
+  invoice.lines.forEach((line) => {
+    const description = doc.splitTextToSize(
+      `${line.description} (${QUOTE_LINE_KIND_LABELS[line.kind]})`,
+      cols.qty - cols.item - 20
+    );
+    ensureSpace(description.length * 5 + 2);
+    doc.text(description, cols.item + 2, y);
+    doc.text(String(line.quantity), cols.qty, y, { align: "right" });
+    doc.text(money(line.unitPrice), cols.rate, y, { align: "right" });
+    doc.text(`${line.taxRate}%`, cols.rate + 16, y, { align: "right" });
+    doc.text(money(lineAmount(line)), cols.amount - 2, y, { align: "right" });
+    y += description.length * 5 + 2;
+  });
+
+  // Totals
+  y += 2;
+  doc.line(margin, y, right, y);
+  y += 7;
+  const totalRow = (label: string, value: string, bold = false) => {
+    ensureSpace(6);
+    doc.setFont("helvetica", bold ? "bold" : "normal");
+    doc.text(label, cols.rate, y, { align: "right" });
+    doc.text(value, cols.amount - 2, y, { align: "right" });
+    y += 6;
+  };
+
+  totalRow("Subtotal", money(invoice.subtotal));
+  if (invoice.discount > 0) {
+    totalRow(
+      invoice.warranty ? "Warranty (no charge)" : "Discount",
+      `- ${money(invoice.discount)}`
+    );
+  }
+  invoice.taxes.forEach((t) => {
+    const half = t.tax / 2;
+    totalRow(`CGST ${t.rate / 2}% on ${money(t.taxable)}`, money(half));
+    totalRow(`SGST ${t.rate / 2}% on ${money(t.taxable)}`, money(half));
+  });
+  doc.setFontSize(12);
+  totalRow("Total", money(invoice.total), true);
+
+  // Footer
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  doc.setTextColor(150);
+  doc.text(
+    `Issued by ${invoice.issuedBy} on ${new Date(
+      invoice.issuedAt
+    ).toLocaleString()}`,
+    margin,
+    pageHeight - 10
+  );
+
+  doc.save(`${invoice.invoiceNumber}.pdf`);
+};
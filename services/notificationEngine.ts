@@ -0,0 +1,224 @@
+import {
+  AppSettings,
+  CustomerMessage,
+  DeliveryStatus,
+  MessageTemplate,
+  NotificationChannel,
+  NotificationConfig,
+  Ticket,
+} from "../types";
+import { repository } from "./dataRepository";
+import { formatQuoteAmount } from "./quotationEngine";
+import { getAuditActor } from "./ticketAudit";
+import { logProvider, webhookProvider } from "./notificationProviders";
+import { withDefaults } from "./settingsDefaults";
+
+// Customer status messages. When a ticket moves to a status that has an
+// enabled template (Settings → Notifications), the ticket repository calls
+// notifyStatusChange, which renders the template and sends it on each of its
+// channels through the active provider. Every attempt, including skipped
+// ones (opted out, no address), is written to the `customer_messages`
+// delivery log shown on the ticket's history tab.
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = [
+  "sms",
+  "whatsapp",
+  "email",
+];
+
+export const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  sms: "SMS",
+  whatsapp: "WhatsApp",
+  email: "Email",
+};
+
+// {placeholder} -> what it is replaced with
+export const TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+  customerName: "Customer name",
+  ticketId: "Ticket ID",
+  device: "Brand and model (or device type)",
+  status: "New status",
+  amount: "Estimated amount",
+  store: "Store",
+};
+
+export const DEFAULT_NOTIFICATION_CONFIG: NotificationConfig = {
+  templates: [
+    {
+      id: "nt1",
+      status: "New",
+      channels: ["sms", "whatsapp"],
+      body: "Hi {customerName}, we have received your {device} at {store}. Your ticket ID is {ticketId}.",
+      enabled: true,
+    },
+    {
+      id: "nt2",
+      status: "In Progress",
+      channels: ["sms", "whatsapp"],
+      body: "Hi {customerName}, work has started on your {device} (ticket {ticketId}).",
+      enabled: true,
+    },
+    {
+      id: "nt3",
+      status: "Resolved",
+      channels: ["sms", "whatsapp", "email"],
+      subject: "Your {device} is ready ({ticketId})",
+      body: "Hi {customerName}, your {device} is ready for pickup at {store}. Estimated amount: {amount}. Ticket {ticketId}.",
+      enabled: true,
+    },
+  ],
+};
+
+export const getNotificationConfig = (
+  settings: Pick<AppSettings, "notifications">
+) => withDefaults(settings.notifications, DEFAULT_NOTIFICATION_CONFIG);
+
+// Status messages are sent from the repository, which has no settings at
+// hand; App sets the templates here whenever the settings change.
+let currentConfig: NotificationConfig = DEFAULT_NOTIFICATION_CONFIG;
+
+export const setNotificationConfig = (config: NotificationConfig | undefined) => {
+  currentConfig = withDefaults(config, DEFAULT_NOTIFICATION_CONFIG);
+};
+
+// --- PROVIDERS ---
+
+export interface OutgoingMessage {
+  ticketId: string; // storage ID of the ticket the message is about
+  channel: NotificationChannel;
+  to: string;
+  subject?: string;
+  body: string;
+}
+
+// A delivery service. `send` resolves with the provider's message ID (if it
+// gives one) and throws when the message was not accepted.
+export interface NotificationProvider {
+  readonly name: string;
+  readonly channels: NotificationChannel[];
+  send(message: OutgoingMessage): Promise<{ id?: string }>;
+}
+
+const providers: Record<string, NotificationProvider> = {
+  log: logProvider,
+  webhook: webhookProvider,
+};
+
+// Single switch: VITE_NOTIFY_PROVIDER=log (default) | webhook
+export const activeProviderName =
+  import.meta.env.VITE_NOTIFY_PROVIDER === "webhook" ? "webhook" : "log";
+
+export const getNotificationProvider = (): NotificationProvider =>
+  providers[activeProviderName];
+
+// --- TEMPLATES ---
+
+const describeDevice = (ticket: Ticket) =>
+  [ticket.brand, ticket.model].filter(Boolean).join(" ") || ticket.deviceType;
+
+// Unknown placeholders are left as typed, so mistakes show up in previews.
+export const renderTemplate = (text: string, ticket: Ticket) => {
+  const values: Record<string, string> = {
+    customerName: ticket.name,
+    ticketId: ticket.ticketId,
+    device: describeDevice(ticket),
+    status: ticket.status,
+    amount: formatQuoteAmount(ticket.estimatedAmount || 0),
+    store: ticket.store,
+  };
+  return text.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? values[key] : match
+  );
+};
+
+export const getStatusTemplate = (config: NotificationConfig, status: string) =>
+  config.templates.find((t) => t.enabled && t.status === status);
+
+// --- SENDING ---
+
+// Sends `template` about `ticket` on each of its channels and logs every
+// attempt. Never throws for a delivery problem; the log records it instead.
+export const sendTicketMessage = async (
+  ticket: Ticket,
+  template: MessageTemplate,
+  now: number = Date.now()
+): Promise<CustomerMessage[]> => {
+  const customer = ticket.customerId
+    ? await repository.customers.get(ticket.customerId)
+    : null;
+  const provider = getNotificationProvider();
+  const body = renderTemplate(template.body, ticket);
+  const subject = template.subject
+    ? renderTemplate(template.subject, ticket)
+    : undefined;
+
+  const log: CustomerMessage[] = [];
+  for (const channel of template.channels) {
+    const to = (
+      channel === "email"
+        ? customer?.email || ticket.email
+        : customer?.mobile || ticket.number
+    )?.trim();
+
+    let delivery: DeliveryStatus = "Sent";
+    let providerMessageId: string | undefined;
+    let error: string | undefined;
+    if (customer?.notificationsOptOut) {
+      delivery = "Skipped";
+      error = "Customer opted out of notifications";
+    } else if (!to) {
+      delivery = "Skipped";
+      error = channel === "email" ? "No email address" : "No mobile number";
+    } else if (!provider.channels.includes(channel)) {
+      delivery = "Skipped";
+      error = `The ${provider.name} provider cannot send ${CHANNEL_LABELS[channel]}`;
+    } else {
+      try {
+        providerMessageId = (
+          await provider.send({
+            ticketId: ticket.id,
+            channel,
+            to,
+            subject: channel === "email" ? subject : undefined,
+            body,
+          })
+        ).id;
+      } catch (err: any) {
+        delivery = "Failed";
+        error = err?.message || "Provider error";
+      }
+    }
+
+    log.push(
+      await repository.customerMessages.create({
+        ticketId: ticket.id,
+        ticketNumber: ticket.ticketId,
+        customerId: ticket.customerId,
+        templateId: template.id,
+        status: ticket.status,
+        channel,
+        to: to || "",
+        subject: channel === "email" ? subject : undefined,
+        body,
+        delivery,
+        provider: provider.name,
+        providerMessageId,
+        error,
+        sentAt: now,
+        sentBy: getAuditActor().name,
+      })
+    );
+  }
+  return log;
+};
+
+// Called by the ticket repository after every write; only a changed status
+// with an enabled template sends anything.
+export const notifyStatusChange = async (
+  ticket: Ticket,
+  previousStatus?: string
+): Promise<CustomerMessage[]> => {
+  if (ticket.status === previousStatus) return [];
+  const template = getStatusTemplate(currentConfig, ticket.status);
+  return template ? sendTicketMessage(ticket, template) : [];
+};
@@ -0,0 +1,42 @@
+import type {
+  NotificationProvider,
+  OutgoingMessage,
+} from "./notificationEngine";
+import { callServerFunction } from "./serverFunctions";
+
+// Delivery providers for customer messages. The log provider sends nothing:
+// it prints to the console, for development and testing. The webhook
+// provider hands each message to the `notify-customer` Edge Function, which
+// checks that the sender may see the ticket and that the message goes to its
+// customer, then posts it to the relay (SMS gateway, WhatsApp Business API,
+// mail service) configured in the function's secrets.
+
+let logCounter = 0;
+
+export const logProvider: NotificationProvider = {
+  name: "log",
+  channels: ["sms", "whatsapp", "email"],
+
+  async send(message: OutgoingMessage) {
+    logCounter += 1;
+    console.info(
+      `[notify:${message.channel}] to ${message.to}${
+        message.subject ? ` · ${message.subject}` : ""
+      }\n${message.body}`
+    );
+    return { id: `log-${Date.now()}-${logCounter}` };
+  },
+};
+
+export const webhookProvider: NotificationProvider = {
+  name: "webhook",
+  channels: ["sms", "whatsapp", "email"],
+
+  async send(message: OutgoingMessage) {
+    const { id } = await callServerFunction<{ id?: string }>(
+      "notify-customer",
+      { ...message }
+    );
+    return { id };
+  },
+};
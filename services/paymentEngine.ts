@@ -0,0 +1,138 @@
+import {
+  Payment,
+  PaymentKind,
+  PaymentMode,
+  Ticket,
+  User,
+} from "../types";
+import { repository } from "./dataRepository";
+import { can } from "./permissionEngine";
+import { formatQuoteAmount } from "./quotationEngine";
+import {
+  getActiveInvoice,
+  getAllowedPaymentKinds,
+  getTicketBalance,
+  round2,
+  TicketBalance,
+} from "./billing";
+
+// Payments received against a ticket. Balances are worked out in
+// services/billing.
+//
+// Advances are taken before the invoice exists. Once it does, payments may
+// not exceed the balance and a Final payment must clear it exactly.
+
+export const PAYMENT_KINDS: PaymentKind[] = [
+  "Advance",
+  "Part Payment",
+  "Final",
+  "Refund",
+];
+export const PAYMENT_MODES: PaymentMode[] = ["Cash", "UPI", "Card"];
+
+// --- ACTIONS ---
+
+export interface PaymentDraft {
+  kind: PaymentKind;
+  mode: PaymentMode;
+  amount: number;
+  reference?: string;
+  note?: string;
+  date: string; // YYYY-MM-DD
+}
+
+const validatePayment = (
+  draft: PaymentDraft,
+  balance: TicketBalance,
+  user: User
+) => {
+  if (!can(user, "payment.record")) {
+    throw new Error("You don't have permission to record payments.");
+  }
+  if (draft.kind === "Refund" && !can(user, "payment.refund")) {
+    throw new Error("You don't have permission to record refunds.");
+  }
+  if (!getAllowedPaymentKinds(balance).includes(draft.kind)) {
+    throw new Error(
+      draft.kind === "Final"
+        ? "Issue the invoice before taking a final payment."
+        : `${draft.kind} is not available for this ticket's balance.`
+    );
+  }
+  const amount = round2(draft.amount);
+  if (!(amount > 0)) throw new Error("Enter an amount above zero.");
+  if (draft.kind === "Refund" && amount > balance.received) {
+    throw new Error(
+      `Cannot refund more than was received (${formatQuoteAmount(
+        balance.received
+      )}).`
+    );
+  }
+  if (balance.basis === "invoice" && draft.kind !== "Refund") {
+    if (amount > balance.outstanding) {
+      throw new Error(
+        `The balance due is only ${formatQuoteAmount(balance.outstanding)}.`
+      );
+    }
+    if (draft.kind === "Final" && amount !== balance.outstanding) {
+      throw new Error(
+        `A final payment must clear the balance of ${formatQuoteAmount(
+          balance.outstanding
+        )}.`
+      );
+    }
+  }
+  if (draft.kind === "Refund" && !draft.note?.trim()) {
+    throw new Error("A reason is required to record a refund.");
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(draft.date)) {
+    throw new Error("Set the payment date.");
+  }
+};
+
+export const recordPayment = async (
+  ticket: Ticket,
+  draft: PaymentDraft,
+  user: User,
+  now: number = Date.now()
+): Promise<Payment> => {
+  const [invoices, payments] = await Promise.all([
+    repository.invoices.findBy("ticketId", ticket.id),
+    repository.payments.findBy("ticketId", ticket.id),
+  ]);
+  const balance = getTicketBalance(ticket, invoices, payments);
+  validatePayment(draft, balance, user);
+
+  const invoice = getActiveInvoice(invoices, ticket.id);
+  const payment = await repository.payments.create({
+    ticketId: ticket.id,
+    ticketNumber: ticket.ticketId,
+    customerId: ticket.customerId,
+    store: ticket.store,
+    invoiceId: invoice?.id,
+    kind: draft.kind,
+    mode: draft.mode,
+    amount: round2(draft.amount),
+    reference: draft.reference?.trim() || undefined,
+    note: draft.note?.trim() || undefined,
+    date: draft.date,
+    recordedAt: now,
+    recordedBy: user.name,
+  });
+
+  const isRefund = draft.kind === "Refund";
+  await repository.tickets.update(
+    ticket.id,
+    {},
+    {
+      action: isRefund ? "Refund Recorded" : "Payment Recorded",
+      details: `${draft.kind} of ${formatQuoteAmount(payment.amount)} ${
+        isRefund ? "paid out" : "received"
+      } by ${draft.mode}${
+        payment.reference ? ` (ref ${payment.reference})` : ""
+      }.`,
+      reason: isRefund ? payment.note : undefined,
+    }
+  );
+  return payment;
+};
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PermissionConfig } from "../types";
+import {
+  ALL_CAPABILITIES,
+  can,
+  DEFAULT_PERMISSION_CONFIG,
+  getCapabilities,
+  getManagedMembers,
+  getPermissionConfig,
+  getStaffRoles,
+  isStaffRole,
+  toRoleId,
+} from "./permissionEngine";
+
+const admin = { id: "u1", role: "ADMIN" };
+const manager = { id: "u2", role: "MANAGER" };
+const technician = { id: "u3", role: "TECHNICIAN" };
+const customer = { id: "c1", role: "CUSTOMER" };
+
+const config: PermissionConfig = {
+  roles: [
+    ...DEFAULT_PERMISSION_CONFIG.roles.filter((r) => r.id !== "TECHNICIAN"),
+    {
+      id: "FRONT_DESK",
+      name: "Front Desk",
+      capabilities: ["ticket.create", "customers.view"],
+    },
+  ],
+  overrides: [
+    { userId: "u3", granted: ["invoice.void"], revoked: ["payment.record"] },
+  ],
+};
+
+describe("can", () => {
+  it("gives admins everything and customers nothing", () => {
+    assert.equal(getCapabilities(admin, config).size, ALL_CAPABILITIES.length);
+    assert.equal(can(customer, "ticket.create", config), false);
+    assert.equal(can(null, "ticket.create", config), false);
+  });
+
+  it("follows the role's capabilities", () => {
+    assert.equal(can(manager, "tasks.manage"), true);
+    assert.equal(can(technician, "tasks.manage"), false);
+    assert.equal(
+      can({ id: "u9", role: "FRONT_DESK" }, "ticket.create", config),
+      true
+    );
+  });
+
+  it("applies the user's grants and revocations", () => {
+    assert.equal(can(technician, "invoice.void", config), true);
+    assert.equal(can(technician, "payment.record", config), false);
+    assert.equal(
+      can({ ...technician, id: "u4" }, "payment.record", config),
+      true
+    );
+  });
+
+  it("keeps built-in roles missing from a saved matrix", () => {
+    assert.equal(can(technician, "inventory.consume", config), true);
+    assert.deepEqual(
+      getStaffRoles(config).map((r) => r.id),
+      ["TECHNICIAN", "ADMIN", "MANAGER", "FRONT_DESK"]
+    );
+  });
+
+  it("falls back to the defaults for a matrix without roles", () => {
+    assert.equal(
+      getPermissionConfig({ permissions: { roles: [], overrides: [] } }),
+      DEFAULT_PERMISSION_CONFIG
+    );
+  });
+});
+
+describe("roles", () => {
+  it("knows staff roles", () => {
+    assert.equal(isStaffRole("FRONT_DESK", config), true);
+    assert.equal(isStaffRole("CUSTOMER", config), false);
+    assert.equal(isStaffRole("GUEST", config), false);
+  });
+
+  it("derives role IDs from names", () => {
+    assert.equal(toRoleId(" Front desk / Billing "), "FRONT_DESK_BILLING");
+  });
+});
+
+describe("getManagedMembers", () => {
+  const lead = { id: "u5", role: "TECHNICIAN" };
+  const team = [admin, manager, technician, lead];
+  const leadConfig: PermissionConfig = {
+    ...DEFAULT_PERMISSION_CONFIG,
+    overrides: [{ userId: "u5", granted: ["tasks.manage"], revoked: [] }],
+  };
+
+  it("gives team editors the whole team", () => {
+    assert.deepEqual(getManagedMembers(admin, team, leadConfig), team);
+  });
+
+  it("gives task managers themselves and staff who cannot manage tasks", () => {
+    assert.deepEqual(getManagedMembers(manager, team, leadConfig), [
+      manager,
+      technician,
+    ]);
+    assert.deepEqual(getManagedMembers(lead, team, leadConfig), [
+      technician,
+      lead,
+    ]);
+  });
+
+  it("gives everyone else only themselves", () => {
+    assert.deepEqual(getManagedMembers(technician, team, leadConfig), [
+      technician,
+    ]);
+  });
+});
@@ -0,0 +1,234 @@
+import {
+  AppSettings,
+  Capability,
+  PermissionConfig,
+  PermissionOverride,
+  Role,
+  RoleDefinition,
+  User,
+} from "../types";
+import { withDefaults } from "./settingsDefaults";
+
+// Role and permission matrix. Each staff role maps to a set of named
+// capabilities (Settings → Roles & Permissions), and a staff member can have
+// capabilities granted or revoked on top of their role. Menus, buttons and
+// the service-level checks all ask `can(user, capability)`. ADMIN always has
+// every capability so the matrix cannot lock everyone out of Settings;
+// customers have none (the portal is theirs alone).
+
+export const CAPABILITY_GROUPS: {
+  label: string;
+  capabilities: { id: Capability; label: string }[];
+}[] = [
+  {
+    label: "Tickets",
+    capabilities: [
+      { id: "ticket.create", label: "Create tickets" },
+      { id: "ticket.delete", label: "Delete tickets" },
+      { id: "ticket.assign", label: "Assign tickets to staff" },
+      { id: "ticket.view_all", label: "See all tickets (not only assigned)" },
+      { id: "reviews.manage", label: "Review customer requests" },
+      { id: "intake.record", label: "Record check-in photos" },
+      { id: "intake.photo.delete", label: "Remove check-in photos" },
+      { id: "device.transfer", label: "Send and receive devices" },
+    ],
+  },
+  {
+    label: "Customers & Devices",
+    capabilities: [
+      { id: "customers.view", label: "Open the customer database" },
+      { id: "customer.edit", label: "Edit customer details on tickets" },
+      { id: "devices.manage", label: "Edit device registry records" },
+      { id: "warranty.register", label: "Register warranties and claims" },
+      { id: "warranty.claim.decide", label: "Decide claims, void warranties" },
+    ],
+  },
+  {
+    label: "Billing & Stock",
+    capabilities: [
+      { id: "invoices.view", label: "Open billing & invoices" },
+      { id: "invoice.issue", label: "Issue invoices" },
+      { id: "invoice.void", label: "Void invoices" },
+      { id: "payment.record", label: "Record payments" },
+      { id: "payment.refund", label: "Record refunds" },
+      { id: "inventory.consume", label: "Use and return parts" },
+      { id: "inventory.manage", label: "Edit parts and adjust stock" },
+      { id: "purchasing.manage", label: "Suppliers and purchase orders" },
+      { id: "brand.payouts.manage", label: "Brand payout reconciliation" },
+    ],
+  },
+  {
+    label: "Team & Reports",
+    capabilities: [
+      { id: "tasks.manage", label: "Task dashboard, reports and ratings" },
+      { id: "schedule.delete", label: "Delete schedule entries" },
+      { id: "laptop.dashboard.view", label: "Laptop report dashboard" },
+      { id: "reports.revenue.view", label: "Analytics & revenue reports" },
+    ],
+  },
+  {
+    label: "Settings",
+    capabilities: [
+      { id: "settings.view", label: "Open system settings" },
+      { id: "settings.team.edit", label: "Team members" },
+      { id: "settings.catalog.edit", label: "Stores, devices, brands, dealers" },
+      { id: "settings.workflow.edit", label: "Workflow" },
+      { id: "settings.sla.edit", label: "SLA" },
+      { id: "settings.quotations.edit", label: "Quotations" },
+      { id: "settings.warranty.edit", label: "Warranty" },
+      { id: "settings.notifications.edit", label: "Customer notifications" },
+      { id: "settings.roles.edit", label: "Roles & permissions" },
+      { id: "settings.data.manage", label: "Data & backup" },
+    ],
+  },
+];
+
+export const ALL_CAPABILITIES: Capability[] = CAPABILITY_GROUPS.flatMap((g) =>
+  g.capabilities.map((c) => c.id)
+);
+
+export const ADMIN_ROLE = "ADMIN";
+export const CUSTOMER_ROLE = "CUSTOMER";
+
+// What each role could do before the matrix existed.
+const TECHNICIAN_CAPABILITIES: Capability[] = [
+  "intake.record",
+  "device.transfer",
+  "warranty.register",
+  "invoice.issue",
+  "payment.record",
+  "inventory.consume",
+];
+
+export const DEFAULT_PERMISSION_CONFIG: PermissionConfig = {
+  roles: [
+    { id: ADMIN_ROLE, name: "Admin", capabilities: ALL_CAPABILITIES },
+    {
+      id: "MANAGER",
+      name: "Manager",
+      capabilities: [
+        ...TECHNICIAN_CAPABILITIES,
+        "ticket.create",
+        "ticket.assign",
+        "ticket.view_all",
+        "customers.view",
+        "customer.edit",
+        "reviews.manage",
+        "tasks.manage",
+        "laptop.dashboard.view",
+        "invoices.view",
+        "invoice.void",
+        "payment.refund",
+        "inventory.manage",
+        "purchasing.manage",
+        "devices.manage",
+        "warranty.claim.decide",
+        "brand.payouts.manage",
+        "reports.revenue.view",
+      ],
+    },
+    {
+      id: "TECHNICIAN",
+      name: "Technician",
+      capabilities: TECHNICIAN_CAPABILITIES,
+    },
+  ],
+  overrides: [],
+};
+
+// A matrix without roles would lock everyone out.
+const hasRoles = (config: PermissionConfig) => !!config.roles?.length;
+
+export const getPermissionConfig = (
+  settings: Pick<AppSettings, "permissions">
+): PermissionConfig =>
+  withDefaults(settings.permissions, DEFAULT_PERMISSION_CONFIG, hasRoles);
+
+// `can` is called by services that are not given the settings; App sets the
+// matrix here on load and on every change.
+let currentConfig: PermissionConfig = DEFAULT_PERMISSION_CONFIG;
+
+export const setPermissionConfig = (config: PermissionConfig | undefined) => {
+  currentConfig = withDefaults(config, DEFAULT_PERMISSION_CONFIG, hasRoles);
+};
+
+// --- ROLES ---
+
+// Built-in roles missing from a saved matrix keep their defaults.
+export const getRoleDefinition = (
+  role: Role,
+  config: PermissionConfig = currentConfig
+): RoleDefinition | undefined =>
+  config.roles.find((r) => r.id === role) ??
+  DEFAULT_PERMISSION_CONFIG.roles.find((r) => r.id === role);
+
+export const getStaffRoles = (config: PermissionConfig = currentConfig) => {
+  const ids = new Set(config.roles.map((r) => r.id));
+  return [
+    ...DEFAULT_PERMISSION_CONFIG.roles.filter((r) => !ids.has(r.id)),
+    ...config.roles,
+  ];
+};
+
+export const isStaffRole = (
+  role: Role,
+  config: PermissionConfig = currentConfig
+) => role !== CUSTOMER_ROLE && !!getRoleDefinition(role, config);
+
+export const getRoleName = (
+  role: Role,
+  config: PermissionConfig = currentConfig
+) => getRoleDefinition(role, config)?.name ?? role;
+
+// "Front Desk" -> "FRONT_DESK"
+export const toRoleId = (name: string) =>
+  name
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+// --- CHECKS ---
+
+export const getOverride = (
+  userId: string,
+  config: PermissionConfig = currentConfig
+): PermissionOverride | undefined =>
+  config.overrides.find((o) => o.userId === userId);
+
+export const getCapabilities = (
+  user: Pick<User, "id" | "role">,
+  config: PermissionConfig = currentConfig
+): Set<Capability> => {
+  if (user.role === ADMIN_ROLE) return new Set(ALL_CAPABILITIES);
+  if (user.role === CUSTOMER_ROLE) return new Set();
+
+  const granted = new Set(getRoleDefinition(user.role, config)?.capabilities);
+  const override = getOverride(user.id, config);
+  override?.granted.forEach((c) => granted.add(c));
+  override?.revoked.forEach((c) => granted.delete(c));
+  return granted;
+};
+
+export const can = (
+  user: Pick<User, "id" | "role"> | null | undefined,
+  capability: Capability,
+  config: PermissionConfig = currentConfig
+) => !!user && getCapabilities(user, config).has(capability);
+
+// --- TEAM ---
+
+// The team members whose tasks and reports a user oversees, and whom they
+// can assign tasks to: everyone for those who edit the team, themselves and
+// the staff without `tasks.manage` for task managers, otherwise themselves.
+export const getManagedMembers = <T extends Pick<User, "id" | "role">>(
+  user: T,
+  members: T[],
+  config: PermissionConfig = currentConfig
+): T[] => {
+  if (can(user, "settings.team.edit", config)) return members;
+  if (!can(user, "tasks.manage", config)) return [user];
+  return members.filter(
+    (m) => m.id === user.id || !can(m, "tasks.manage", config)
+  );
+};
@@ -0,0 +1,403 @@
+import {
+  Dealer,
+  GoodsReceipt,
+  Part,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  Supplier,
+  User,
+} from "../types";
+import { getDataBackend, repository } from "./dataRepository";
+import { can } from "./permissionEngine";
+import { LowStockItem, recordStockMovement } from "./inventoryEngine";
+
+// Suppliers and purchase orders for restocking parts. An order is edited as
+// a Draft, placed (Ordered), then received in one or more goods receipts;
+// each receipt adds "Receipt" stock movements to the order's store and
+// updates the part's cost price. Prices on placed orders form the
+// per-supplier price history.
+
+const OPEN_STATUSES: PurchaseOrderStatus[] = [
+  "Draft",
+  "Ordered",
+  "Partially Received",
+];
+
+const assertCanPurchase = (user: User) => {
+  if (!can(user, "purchasing.manage")) {
+    throw new Error("You don't have permission to manage purchasing.");
+  }
+};
+
+export const isOpenOrder = (order: PurchaseOrder) =>
+  OPEN_STATUSES.includes(order.status);
+
+// --- NUMBERING ---
+
+export const formatPoNumber = (sequence: number) =>
+  `PO-${String(sequence).padStart(4, "0")}`;
+
+// Only used the first time the counter is created (see ticketNumbering).
+const highestPoNumber = async () => {
+  const orders = await repository.purchaseOrders.list();
+  return orders.reduce((max, o) => {
+    const match = o.poNumber.match(/^PO-(\d+)$/);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+};
+
+const nextPoNumber = async () =>
+  formatPoNumber(
+    await getDataBackend().nextSequence("purchase-order", highestPoNumber)
+  );
+
+// --- PRICE HISTORY ---
+
+export interface PriceHistoryEntry {
+  poNumber: string;
+  supplierId: string;
+  supplierName: string;
+  partId: string;
+  sku: string;
+  name: string;
+  quantity: number;
+  unitCost: number;
+  orderedAt: number;
+}
+
+// Newest first. Drafts and cancelled orders were never agreed prices.
+export const getPriceHistory = (
+  orders: PurchaseOrder[],
+  filter: { partId?: string; supplierId?: string } = {}
+): PriceHistoryEntry[] =>
+  orders
+    .filter((o) => o.orderedAt && o.status !== "Cancelled")
+    .filter((o) => !filter.supplierId || o.supplierId === filter.supplierId)
+    .flatMap((o) =>
+      o.lines
+        .filter((l) => !filter.partId || l.partId === filter.partId)
+        .map((l) => ({
+          poNumber: o.poNumber,
+          supplierId: o.supplierId,
+          supplierName: o.supplierName,
+          partId: l.partId,
+          sku: l.sku,
+          name: l.name,
+          quantity: l.quantity,
+          unitCost: l.unitCost,
+          orderedAt: o.orderedAt as number,
+        }))
+    )
+    .sort((a, b) => b.orderedAt - a.orderedAt);
+
+// The latest agreed price for a part (from one supplier, or any).
+export const getLastPrice = (
+  orders: PurchaseOrder[],
+  partId: string,
+  supplierId?: string
+) => getPriceHistory(orders, { partId, supplierId })[0]?.unitCost ?? null;
+
+// The supplier a part was last ordered from.
+export const getPreferredSupplierId = (
+  orders: PurchaseOrder[],
+  partId: string
+) => getPriceHistory(orders, { partId })[0]?.supplierId ?? "";
+
+// Restock to twice the reorder level.
+export const suggestReorderQuantity = (part: Part, stock: number) =>
+  Math.max(part.reorderLevel * 2 - stock, 1);
+
+// --- SUPPLIERS ---
+
+export type SupplierDraft = Omit<Supplier, "id" | "createdAt"> & {
+  id?: string;
+  createdAt?: number;
+};
+
+export const saveSupplier = async (
+  draft: SupplierDraft,
+  user: User,
+  now: number = Date.now()
+): Promise<Supplier> => {
+  assertCanPurchase(user);
+  if (!draft.name.trim()) throw new Error("Enter the supplier's name.");
+  const fields = { ...draft, name: draft.name.trim() };
+  if (draft.id) {
+    const supplier = {
+      ...fields,
+      id: draft.id,
+      createdAt: draft.createdAt ?? now,
+    } as Supplier;
+    await repository.suppliers.upsert(supplier);
+    return supplier;
+  }
+  return repository.suppliers.create({ ...fields, createdAt: now });
+};
+
+// Seeds the directory from Settings → laptop dealers. Dealers already
+// imported (matched by dealerId) are skipped; returns how many were added.
+export const importDealerSuppliers = async (
+  dealers: Dealer[],
+  suppliers: Supplier[],
+  user: User,
+  now: number = Date.now()
+): Promise<number> => {
+  assertCanPurchase(user);
+  const missing = dealers.filter(
+    (d) => !suppliers.some((s) => s.dealerId === d.id)
+  );
+  for (const dealer of missing) {
+    await repository.suppliers.create({
+      name: dealer.name,
+      dealerId: dealer.id,
+      active: true,
+      createdAt: now,
+    });
+  }
+  return missing.length;
+};
+
+// --- ORDERS ---
+
+export interface PurchaseOrderDraft {
+  id?: string; // set when editing an existing draft
+  supplierId: string;
+  storeId: string;
+  lines: Pick<PurchaseOrderLine, "partId" | "quantity" | "unitCost">[];
+  expectedDate?: string;
+  notes?: string;
+}
+
+const buildLines = (
+  lines: PurchaseOrderDraft["lines"],
+  parts: Part[]
+): PurchaseOrderLine[] =>
+  lines.map((line, index) => {
+    const part = parts.find((p) => p.id === line.partId);
+    if (!part) throw new Error(`Line ${index + 1}: choose a part.`);
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw new Error(`Line ${index + 1}: enter a whole quantity above zero.`);
+    }
+    if (!(line.unitCost >= 0)) {
+      throw new Error(`Line ${index + 1}: the cost cannot be negative.`);
+    }
+    return {
+      partId: part.id,
+      sku: part.sku,
+      name: part.name,
+      quantity: line.quantity,
+      unitCost: line.unitCost,
+      received: 0,
+    };
+  });
+
+export const savePurchaseOrder = async (
+  draft: PurchaseOrderDraft,
+  orders: PurchaseOrder[],
+  parts: Part[],
+  suppliers: Supplier[],
+  user: User,
+  now: number = Date.now()
+): Promise<PurchaseOrder> => {
+  assertCanPurchase(user);
+  if (!draft.storeId) throw new Error("Choose the receiving store.");
+  if (draft.lines.length === 0) throw new Error("Add at least one part.");
+  const partIds = draft.lines.map((l) => l.partId);
+  if (new Set(partIds).size !== partIds.length) {
+    throw new Error("Each part can only appear once on an order.");
+  }
+  const lines = buildLines(draft.lines, parts);
+  const fields = {
+    supplierId: draft.supplierId,
+    supplierName:
+      suppliers.find((s) => s.id === draft.supplierId)?.name ?? "",
+    storeId: draft.storeId,
+    lines,
+    expectedDate: draft.expectedDate || undefined,
+    notes: draft.notes?.trim() || undefined,
+    updatedAt: now,
+  };
+
+  if (draft.id) {
+    const existing = orders.find((o) => o.id === draft.id);
+    if (!existing) throw new Error("This order no longer exists.");
+    if (existing.status !== "Draft") {
+      throw new Error(`${existing.poNumber} has been placed and cannot be edited.`);
+    }
+    const order = { ...existing, ...fields };
+    await repository.purchaseOrders.upsert(order);
+    return order;
+  }
+  return repository.purchaseOrders.create({
+    ...fields,
+    poNumber: await nextPoNumber(),
+    status: "Draft",
+    receipts: [],
+    createdAt: now,
+    createdBy: user.name,
+  });
+};
+
+export const placeOrder = async (
+  order: PurchaseOrder,
+  user: User,
+  now: number = Date.now()
+): Promise<void> => {
+  assertCanPurchase(user);
+  if (order.status !== "Draft") {
+    throw new Error(`${order.poNumber} has already been placed.`);
+  }
+  if (!order.supplierId) throw new Error("Choose a supplier first.");
+  if (order.lines.length === 0) throw new Error("The order has no lines.");
+  await repository.purchaseOrders.update(order.id, {
+    status: "Ordered",
+    orderedAt: now,
+    updatedAt: now,
+  });
+};
+
+export const cancelOrder = async (
+  order: PurchaseOrder,
+  user: User,
+  now: number = Date.now()
+): Promise<void> => {
+  assertCanPurchase(user);
+  if (order.status !== "Draft" && order.status !== "Ordered") {
+    throw new Error(
+      `${order.poNumber} is ${order.status.toLowerCase()} and cannot be cancelled.`
+    );
+  }
+  await repository.purchaseOrders.update(order.id, {
+    status: "Cancelled",
+    updatedAt: now,
+  });
+};
+
+// Records a goods receipt: quantities per part id, up to what is still due.
+export const receiveGoods = async (
+  order: PurchaseOrder,
+  quantities: Record<string, number>,
+  note: string,
+  parts: Part[],
+  user: User,
+  now: number = Date.now()
+): Promise<PurchaseOrder> => {
+  assertCanPurchase(user);
+  if (order.status !== "Ordered" && order.status !== "Partially Received") {
+    throw new Error(`${order.poNumber} is not awaiting goods.`);
+  }
+  const received = order.lines
+    .map((line) => ({ line, quantity: quantities[line.partId] || 0 }))
+    .filter((r) => r.quantity !== 0);
+  if (received.length === 0) throw new Error("Enter the quantities received.");
+  received.forEach(({ line, quantity }) => {
+    const due = line.quantity - line.received;
+    if (!Number.isInteger(quantity) || quantity < 0 || quantity > due) {
+      throw new Error(`${line.sku}: between 0 and ${due} can be received.`);
+    }
+  });
+
+  for (const { line, quantity } of received) {
+    await recordStockMovement({
+      partId: line.partId,
+      storeId: order.storeId,
+      kind: "Receipt",
+      quantity,
+      purchaseOrderId: order.id,
+      note: order.poNumber,
+      createdAt: now,
+      createdBy: user.name,
+    });
+    const part = parts.find((p) => p.id === line.partId);
+    if (part && part.unitCost !== line.unitCost) {
+      await repository.parts.update(part.id, {
+        unitCost: line.unitCost,
+        updatedAt: now,
+      });
+    }
+  }
+
+  const receipt: GoodsReceipt = {
+    id: `${now}`,
+    lines: received.map(({ line, quantity }) => ({
+      partId: line.partId,
+      quantity,
+    })),
+    note: note.trim() || undefined,
+    receivedAt: now,
+    receivedBy: user.name,
+  };
+  const lines = order.lines.map((line) => ({
+    ...line,
+    received: line.received + (quantities[line.partId] || 0),
+  }));
+  const updated: PurchaseOrder = {
+    ...order,
+    lines,
+    receipts: [...order.receipts, receipt],
+    status: lines.every((l) => l.received >= l.quantity)
+      ? "Received"
+      : "Partially Received",
+    updatedAt: now,
+  };
+  await repository.purchaseOrders.upsert(updated);
+  return updated;
+};
+
+// Dashboard action: one draft order per store and preferred supplier for
+// every low-stock part that is not already on an open order for its store.
+export const draftLowStockOrders = async (
+  items: LowStockItem[],
+  orders: PurchaseOrder[],
+  suppliers: Supplier[],
+  user: User,
+  now: number = Date.now()
+): Promise<PurchaseOrder[]> => {
+  assertCanPurchase(user);
+  const onOrder = (item: LowStockItem) =>
+    orders.some(
+      (o) =>
+        isOpenOrder(o) &&
+        o.storeId === item.store.id &&
+        o.lines.some((l) => l.partId === item.part.id)
+    );
+
+  const groups = new Map<string, LowStockItem[]>();
+  items
+    .filter((item) => !onOrder(item))
+    .forEach((item) => {
+      const key = `${item.store.id}|${getPreferredSupplierId(
+        orders,
+        item.part.id
+      )}`;
+      groups.set(key, [...(groups.get(key) ?? []), item]);
+    });
+
+  const created: PurchaseOrder[] = [];
+  for (const [key, group] of groups) {
+    const [storeId, supplierId] = key.split("|");
+    created.push(
+      await savePurchaseOrder(
+        {
+          supplierId,
+          storeId,
+          lines: group.map((item) => ({
+            partId: item.part.id,
+            quantity: suggestReorderQuantity(item.part, item.quantity),
+            unitCost:
+              getLastPrice(orders, item.part.id, supplierId || undefined) ??
+              item.part.unitCost,
+          })),
+          notes: "Drafted from low stock",
+        },
+        orders,
+        group.map((item) => item.part),
+        suppliers,
+        user,
+        now
+      )
+    );
+  }
+  return created;
+};
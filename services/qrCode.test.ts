@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { encodeQr, QrMatrix, qrToSvgPath } from "./qrCode";
+
+// A version 1 reader, enough to read back what encodeQr wrote: the format
+// bits, the zigzag data area and the byte-mode payload.
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const readFormat = (m: QrMatrix) => {
+  const cells = [
+    ...[0, 1, 2, 3, 4, 5, 7, 8].map((y) => m[y][8]),
+    ...[7, 5, 4, 3, 2, 1, 0].map((x) => m[8][x]),
+  ];
+  const format = cells.reduce((acc, dark, i) => acc | (+dark << i), 0);
+  const data = (format ^ 0x5412) >> 10;
+  return { level: data >> 3, mask: data & 7 };
+};
+
+const isFunctionV1 = (x: number, y: number) =>
+  x === 6 ||
+  y === 6 ||
+  (x < 9 && y < 9) ||
+  (x > 12 && y < 9) ||
+  (x < 9 && y > 12);
+
+const readCodewords = (m: QrMatrix) => {
+  const { mask } = readFormat(m);
+  const bits: number[] = [];
+  for (let right = 20; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vert = 0; vert < 21; vert++) {
+      const y = upward ? 20 - vert : vert;
+      [right, right - 1].forEach((x) => {
+        if (!isFunctionV1(x, y)) bits.push(+(m[y][x] !== MASKS[mask](x, y)));
+      });
+    }
+  }
+  const codewords: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, b) => (acc << 1) | b, 0));
+  }
+  return codewords; // 16 data + 10 ECC codewords at level M
+};
+
+const readText = (codewords: number[]) => {
+  const bits = codewords.flatMap((c) =>
+    Array.from({ length: 8 }, (_, i) => (c >> (7 - i)) & 1)
+  );
+  const read = (from: number, length: number) =>
+    bits.slice(from, from + length).reduce((acc, b) => (acc << 1) | b, 0);
+  assert.equal(read(0, 4), 0b0100, "byte mode");
+  const bytes = Array.from({ length: read(4, 8) }, (_, i) =>
+    read(12 + i * 8, 8)
+  );
+  return new TextDecoder().decode(new Uint8Array(bytes));
+};
+
+// A valid Reed-Solomon codeword has roots at 2^0 .. 2^(ecc - 1).
+const syndromes = (codewords: number[], ecc: number) => {
+  const exp: number[] = [];
+  const log: number[] = [];
+  for (let i = 0, v = 1; i < 255; i++) {
+    exp[i] = v;
+    log[v] = i;
+    v = v & 0x80 ? (v << 1) ^ 0x11d : v << 1;
+  }
+  const mul = (a: number, b: number) =>
+    a && b ? exp[(log[a] + log[b]) % 255] : 0;
+  return Array.from({ length: ecc }, (_, i) =>
+    codewords.reduce((acc, c) => mul(acc, exp[i]) ^ c, 0)
+  );
+};
+
+const isFinder = (m: QrMatrix, left: number, top: number) =>
+  Array.from({ length: 7 }, (_, dy) =>
+    Array.from({ length: 7 }, (_, dx) => {
+      const dist = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+      return m[top + dy][left + dx] === (dist !== 2);
+    }).every(Boolean)
+  ).every(Boolean);
+
+describe("encodeQr", () => {
+  it("picks the smallest version that fits", () => {
+    assert.equal(encodeQr("TKT-IF-001").length, 21);
+    assert.equal(encodeQr("x".repeat(14)).length, 21);
+    assert.equal(encodeQr("x".repeat(15)).length, 25);
+    assert.equal(encodeQr("x".repeat(213)).length, 57);
+    assert.throws(() => encodeQr("x".repeat(214)), /too long/);
+  });
+
+  it("draws the finder, timing and dark modules", () => {
+    const m = encodeQr("https://example.com/t/TKT-IF-001");
+    const size = m.length;
+    assert.ok(isFinder(m, 0, 0));
+    assert.ok(isFinder(m, size - 7, 0));
+    assert.ok(isFinder(m, 0, size - 7));
+    for (let i = 8; i < size - 8; i++) {
+      assert.equal(m[6][i], i % 2 === 0);
+      assert.equal(m[i][6], i % 2 === 0);
+    }
+    assert.equal(m[size - 8][8], true);
+  });
+
+  it("writes level M format bits and a readable payload", () => {
+    const m = encodeQr("TKT-IF-001");
+    assert.equal(readFormat(m).level, 0);
+    const codewords = readCodewords(m);
+    assert.equal(codewords.length, 26);
+    assert.deepEqual(syndromes(codewords, 10), new Array(10).fill(0));
+    assert.equal(readText(codewords), "TKT-IF-001");
+  });
+
+  it("encodes text as UTF-8", () => {
+    assert.equal(readText(readCodewords(encodeQr("₹ 500"))), "₹ 500");
+  });
+
+  it("is deterministic", () => {
+    assert.deepEqual(encodeQr("TKT-IF-001"), encodeQr("TKT-IF-001"));
+  });
+});
+
+describe("qrToSvgPath", () => {
+  it("draws dark modules inside the quiet zone", () => {
+    assert.equal(
+      qrToSvgPath([
+        [true, false],
+        [false, true],
+      ]),
+      "M4,4h1v1h-1zM5,5h1v1h-1z"
+    );
+  });
+});
@@ -0,0 +1,349 @@
+import type { jsPDF } from "jspdf";
+
+// Minimal QR code encoder for ticket links: byte mode, error correction
+// level M, versions 1-10 (up to 213 bytes). Follows ISO/IEC 18004; the
+// layout and Reed-Solomon steps mirror the well-known reference encoders.
+
+export type QrMatrix = boolean[][]; // [y][x], true = dark
+
+// Level M tables, indexed by version (index 0 unused).
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const NUM_ECC_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const FORMAT_BITS_M = 0;
+const MAX_VERSION = 10;
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+// Modules left for data and ECC once the function patterns are drawn.
+const rawDataModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const dataCodewords = (version: number) =>
+  Math.floor(rawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[version] * NUM_ECC_BLOCKS[version];
+
+const alignmentPositions = (version: number, size: number) => {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step =
+    Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+};
+
+// --- REED-SOLOMON (GF(2^8), polynomial 0x11D) ---
+
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const rsDivisor = (degree: number) => {
+  const result = new Array(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const rsRemainder = (data: number[], divisor: number[]) => {
+  const result = divisor.map(() => 0);
+  data.forEach((b) => {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => (result[i] ^= gfMultiply(coef, factor)));
+  });
+  return result;
+};
+
+// --- CODEWORDS ---
+
+const encodeData = (bytes: number[], version: number) => {
+  const capacity = dataCodewords(version);
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4); // byte mode
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((b) => append(b, 8));
+  append(0, Math.min(4, capacity * 8 - bits.length)); // terminator
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+};
+
+const addEccAndInterleave = (data: number[], version: number) => {
+  const numBlocks = NUM_ECC_BLOCKS[version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const divisor = rsDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const block = data.slice(
+      k,
+      k + shortBlockLength - eccLength + (i < numShortBlocks ? 0 : 1)
+    );
+    k += block.length;
+    const ecc = rsRemainder(block, divisor);
+    if (i < numShortBlocks) block.push(0);
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte of short blocks
+      if (i !== shortBlockLength - eccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+};
+
+// --- MATRIX ---
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const buildMatrix = (version: number, codewords: number[], mask: number) => {
+  const size = version * 4 + 17;
+  const modules: QrMatrix = Array.from({ length: size }, () =>
+    new Array(size).fill(false)
+  );
+  const isFunction: QrMatrix = Array.from({ length: size }, () =>
+    new Array(size).fill(false)
+  );
+  const set = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns (with separators)
+  [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          set(x, y, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+  });
+
+  // Alignment patterns, except where they would overlap the finders
+  const positions = alignmentPositions(version, size);
+  const last = positions.length - 1;
+  positions.forEach((ay, i) =>
+    positions.forEach((ax, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+        return;
+      }
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          set(ax + dx, ay + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    })
+  );
+
+  // Format information (level M + mask)
+  const formatData = (FORMAT_BITS_M << 3) | mask;
+  let rem = formatData;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  const format = ((formatData << 10) | rem) ^ 0x5412;
+  for (let i = 0; i <= 5; i++) set(8, i, getBit(format, i));
+  set(8, 7, getBit(format, 6));
+  set(8, 8, getBit(format, 7));
+  set(7, 8, getBit(format, 8));
+  for (let i = 9; i < 15; i++) set(14 - i, 8, getBit(format, i));
+  for (let i = 0; i < 8; i++) set(size - 1 - i, 8, getBit(format, i));
+  for (let i = 8; i < 15; i++) set(8, size - 15 + i, getBit(format, i));
+  set(8, size - 8, true); // dark module
+
+  // Version information (versions 7+)
+  if (version >= 7) {
+    let vrem = version;
+    for (let i = 0; i < 12; i++) vrem = (vrem << 1) ^ ((vrem >>> 11) * 0x1f25);
+    const bits = (version << 12) | vrem;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      set(a, b, getBit(bits, i));
+      set(b, a, getBit(bits, i));
+    }
+  }
+
+  // Data, in the zigzag order from the bottom-right corner
+  let bit = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!isFunction[y][x] && bit < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[bit >>> 3], 7 - (bit & 7));
+          bit++;
+        }
+      }
+    }
+  }
+
+  // Mask
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!isFunction[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+    }
+  }
+  return modules;
+};
+
+// Lower is easier to scan (runs, 2x2 blocks, finder look-alikes, balance).
+const penalty = (modules: QrMatrix) => {
+  const size = modules.length;
+  let score = 0;
+  const lines = [
+    ...modules,
+    ...modules.map((_, x) => modules.map((row) => row[x])),
+  ];
+  const finderLike = [
+    "10111010000",
+    "00001011101",
+  ];
+  lines.forEach((line) => {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+    }
+    const text = line.map((dark) => (dark ? "1" : "0")).join("");
+    finderLike.forEach((pattern) => {
+      for (let at = text.indexOf(pattern); at !== -1; at = text.indexOf(pattern, at + 1)) {
+        score += 40;
+      }
+    });
+  });
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const c = modules[y][x];
+      if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) {
+        score += 3;
+      }
+    }
+  }
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return score;
+};
+
+export const encodeQr = (text: string): QrMatrix => {
+  const bytes = Array.from(new TextEncoder().encode(text));
+  let version = 1;
+  while (
+    version <= MAX_VERSION &&
+    4 + (version < 10 ? 8 : 16) + bytes.length * 8 > dataCodewords(version) * 8
+  ) {
+    version++;
+  }
+  if (version > MAX_VERSION) throw new Error("Text too long for a QR code.");
+
+  const codewords = addEccAndInterleave(encodeData(bytes, version), version);
+  let best: QrMatrix | null = null;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const candidate = buildMatrix(version, codewords, mask);
+    const score = penalty(candidate);
+    if (score < bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best as QrMatrix;
+};
+
+// SVG path of the dark modules, offset by the 4-module quiet zone.
+export const qrToSvgPath = (matrix: QrMatrix) =>
+  matrix
+    .flatMap((row, y) =>
+      row.map((dark, x) => (dark ? `M${x + 4},${y + 4}h1v1h-1z` : ""))
+    )
+    .join("");
+
+// Draws the code into a PDF at (x, y) with the given outer size, quiet
+// zone included.
+export const drawQrCode = (
+  doc: jsPDF,
+  text: string,
+  x: number,
+  y: number,
+  size: number
+) => {
+  const matrix = encodeQr(text);
+  const cell = size / (matrix.length + 8);
+  doc.setFillColor(0, 0, 0);
+  matrix.forEach((row, my) =>
+    row.forEach((dark, mx) => {
+      if (dark) {
+        doc.rect(x + (mx + 4) * cell, y + (my + 4) * cell, cell, cell, "F");
+      }
+    })
+  );
+};
@@ -0,0 +1,333 @@
+import {
+  AppSettings,
+  QuotationConfig,
+  Quotation,
+  QuoteLineItem,
+  QuoteLineKind,
+  QuoteRevision,
+  QuoteStatus,
+  Ticket,
+  User,
+} from "../types";
+import { repository } from "./dataRepository";
+import {
+  getHoldStatus,
+  getTicketTransitionValues,
+  validateTransition,
+} from "./workflowEngine";
+import { withDefaults } from "./settingsDefaults";
+import { calculateQuoteTotals } from "./billing";
+
+// Repair quotations. Staff build a draft from line items (parts and labour,
+// each with its own tax rate) and send it; the customer approves or declines
+// it in the portal. Sending and the customer's decision both move the ticket
+// (see QuotationConfig), as the workflow allows for the sender or the
+// customer, and are written to its audit history.
+//
+// Revisions are append-only once sent: editing a sent quote starts a new
+// draft revision, and sending that one supersedes the previous.
+
+export const DEFAULT_QUOTATION_CONFIG: QuotationConfig = {
+  validityDays: 7,
+  defaultTaxRate: 18,
+  sentStatus: "On Hold",
+  sentHoldReason: "Approval Pending",
+  approvedStatus: "In Progress",
+  declinedStatus: "Rejected",
+};
+
+export const QUOTE_LINE_KIND_LABELS: Record<QuoteLineKind, string> = {
+  part: "Parts",
+  labour: "Labour",
+};
+
+export type QuoteDecision = "Approved" | "Declined";
+
+export const getQuotationConfig = (settings: Pick<AppSettings, "quotation">) =>
+  withDefaults(settings.quotation, DEFAULT_QUOTATION_CONFIG);
+
+// --- AMOUNTS ---
+
+// Totals are worked out in services/billing.
+export const formatQuoteAmount = (amount: number) =>
+  new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    minimumFractionDigits: 2,
+  }).format(amount);
+
+// --- REVISIONS ---
+
+// QT-IF-008 for ticket TKT-IF-008
+export const quoteNumber = (ticket: Pick<Ticket, "ticketId">) =>
+  `QT-${ticket.ticketId.replace(/^TKT-/, "")}`;
+
+export const revisionLabel = (
+  ticket: Pick<Ticket, "ticketId">,
+  revision: QuoteRevision
+) => `${quoteNumber(ticket)} R${revision.revision}`;
+
+export const getCurrentRevision = (quote?: Quotation | null) =>
+  quote?.revisions[quote.revisions.length - 1] ?? null;
+
+// The newest revision the customer has been sent (drafts are staff-only).
+export const getCustomerRevision = (quote?: Quotation | null) =>
+  [...(quote?.revisions ?? [])].reverse().find((r) => r.status !== "Draft") ??
+  null;
+
+const toDateKey = (time: number) => {
+  const d = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+export const defaultValidUntil = (
+  config: QuotationConfig,
+  now: number = Date.now()
+) => toDateKey(now + config.validityDays * 24 * 60 * 60 * 1000);
+
+// A sent revision expires at the end of its `validUntil` day.
+export const getRevisionStatus = (
+  revision: QuoteRevision,
+  now: number = Date.now()
+): QuoteStatus =>
+  revision.status === "Sent" && revision.validUntil < toDateKey(now)
+    ? "Expired"
+    : revision.status;
+
+// --- STAFF ACTIONS ---
+
+export interface QuoteDraft {
+  items: QuoteLineItem[];
+  notes?: string;
+  validUntil: string;
+}
+
+const validateDraft = ({ items, validUntil }: QuoteDraft) => {
+  if (items.length === 0) throw new Error("Add at least one line item.");
+  items.forEach((item, index) => {
+    if (!item.description.trim()) {
+      throw new Error(`Line ${index + 1} needs a description.`);
+    }
+    if (!(item.quantity > 0)) {
+      throw new Error(`Line ${index + 1} needs a quantity above zero.`);
+    }
+    if (!(item.unitPrice >= 0) || !(item.taxRate >= 0)) {
+      throw new Error(`Line ${index + 1} has an invalid price or tax rate.`);
+    }
+  });
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(validUntil)) {
+    throw new Error("Set the date the quote is valid until.");
+  }
+};
+
+// Saves `draft` as the current draft revision, starting a new revision if
+// the current one has already been sent.
+export const saveQuoteDraft = async (
+  ticket: Ticket,
+  existing: Quotation | null,
+  draft: QuoteDraft,
+  author: User,
+  now: number = Date.now()
+): Promise<Quotation> => {
+  validateDraft(draft);
+
+  const current = getCurrentRevision(existing);
+  const revision: QuoteRevision = {
+    revision:
+      current?.status === "Draft"
+        ? current.revision
+        : (current?.revision ?? 0) + 1,
+    status: "Draft",
+    items: draft.items,
+    notes: draft.notes?.trim() || undefined,
+    validUntil: draft.validUntil,
+    createdAt: now,
+    createdBy: author.name,
+  };
+  const previous = (existing?.revisions ?? []).filter(
+    (r) => r.status !== "Draft"
+  );
+
+  const quote: Quotation = {
+    id: existing?.id ?? `quote-${ticket.id}`,
+    ticketId: ticket.id,
+    customerId: ticket.customerId,
+    revisions: [...previous, revision],
+    updatedAt: now,
+  };
+  await repository.quotations.upsert(quote);
+  return quote;
+};
+
+// Sends the current draft to the customer and moves the ticket to the
+// "waiting for the customer" status.
+export const sendQuotation = async (
+  quote: Quotation,
+  ticket: Ticket,
+  settings: Pick<AppSettings, "quotation" | "workflow">,
+  sender: User,
+  now: number = Date.now()
+): Promise<Quotation> => {
+  const current = getCurrentRevision(quote);
+  if (!current || current.status !== "Draft") {
+    throw new Error("There is no draft revision to send.");
+  }
+
+  const config = getQuotationConfig(settings);
+  const totals = calculateQuoteTotals(current.items);
+  const isHold = config.sentStatus === getHoldStatus(settings.workflow);
+  const patch = {
+    status: config.sentStatus,
+    holdReason: isHold ? config.sentHoldReason : "",
+    estimatedAmount: totals.total,
+  };
+  const blocker = validateTransition(
+    ticket.status,
+    patch.status,
+    sender.role,
+    getTicketTransitionValues({ ...ticket, ...patch }, "Quotation sent"),
+    settings.workflow
+  );
+  if (blocker) throw new Error(blocker);
+
+  const sent: Quotation = {
+    ...quote,
+    revisions: quote.revisions.map((r) =>
+      r === current
+        ? { ...r, status: "Sent", sentAt: now }
+        : r.status === "Sent"
+        ? { ...r, status: "Superseded" }
+        : r
+    ),
+    updatedAt: now,
+  };
+  await repository.quotations.upsert(sent);
+
+  await repository.tickets.update(
+    ticket.id,
+    patch,
+    {
+      action: "Quote Sent",
+      details: `Quotation ${revisionLabel(ticket, current)} for ${formatQuoteAmount(
+        totals.total
+      )} sent to the customer, valid until ${current.validUntil}.`,
+    }
+  );
+  return sent;
+};
+
+// --- CUSTOMER DECISION ---
+
+// Records the customer's answer to the revision they were sent and moves
+// the ticket on, if the workflow lets the customer make that move.
+export const respondToQuotation = async (
+  quote: Quotation,
+  ticket: Ticket,
+  decision: QuoteDecision,
+  customer: User,
+  settings: Pick<AppSettings, "quotation" | "workflow">,
+  reason?: string,
+  now: number = Date.now()
+): Promise<Quotation> => {
+  const revision = getCustomerRevision(quote);
+  if (!revision) throw new Error("This quotation has not been sent yet.");
+
+  const status = getRevisionStatus(revision, now);
+  if (status === "Expired") {
+    throw new Error(
+      "This quotation has expired. Please contact the store for a new one."
+    );
+  }
+  if (status !== "Sent") {
+    throw new Error(`This quotation has already been ${status.toLowerCase()}.`);
+  }
+
+  const config = getQuotationConfig(settings);
+  const totals = calculateQuoteTotals(revision.items);
+  const declineReason =
+    decision === "Declined" ? reason?.trim() || undefined : undefined;
+  const patch =
+    decision === "Approved"
+      ? {
+          status: config.approvedStatus,
+          holdReason: "",
+          estimatedAmount: totals.total,
+        }
+      : { status: config.declinedStatus, holdReason: "" };
+  const blocker = validateTransition(
+    ticket.status,
+    patch.status,
+    customer.role,
+    getTicketTransitionValues(
+      { ...ticket, ...patch },
+      declineReason ?? `Quote ${decision.toLowerCase()}`
+    ),
+    settings.workflow
+  );
+  if (blocker) {
+    throw new Error(
+      "This quotation can no longer be answered online. Please contact the store."
+    );
+  }
+
+  const decided: Quotation = {
+    ...quote,
+    revisions: quote.revisions.map((r) =>
+      r === revision
+        ? {
+            ...r,
+            status: decision,
+            decidedAt: now,
+            decidedBy: customer.name,
+            declineReason,
+          }
+        : r
+    ),
+    updatedAt: now,
+  };
+  await repository.quotations.upsert(decided);
+
+  await repository.tickets.update(
+    ticket.id,
+    patch,
+    {
+      action: `Quote ${decision}`,
+      details: `Customer ${decision.toLowerCase()} quotation ${revisionLabel(
+        ticket,
+        revision
+      )} (${formatQuoteAmount(totals.total)}).`,
+      reason: declineReason,
+    }
+  );
+  return decided;
+};
+
+// --- SETTINGS RENAMES ---
+
+// Keeps the configured statuses pointing at a renamed status.
+export const renameQuoteStatus = (
+  config: QuotationConfig | undefined,
+  oldName: string,
+  newName: string
+): QuotationConfig => {
+  const resolved = withDefaults(config, DEFAULT_QUOTATION_CONFIG);
+  const rename = (name: string) => (name === oldName ? newName : name);
+  return {
+    ...resolved,
+    sentStatus: rename(resolved.sentStatus),
+    approvedStatus: rename(resolved.approvedStatus),
+    declinedStatus: rename(resolved.declinedStatus),
+  };
+};
+
+export const renameQuoteHoldReason = (
+  config: QuotationConfig | undefined,
+  oldName: string,
+  newName: string
+): QuotationConfig => {
+  const resolved = withDefaults(config, DEFAULT_QUOTATION_CONFIG);
+  return resolved.sentHoldReason === oldName
+    ? { ...resolved, sentHoldReason: newName }
+    : resolved;
+};
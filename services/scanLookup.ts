@@ -0,0 +1,138 @@
+import { Report, Ticket } from "../types";
+import { normalizeSerial } from "./deviceRegistry";
+
+// Scan lookup for the counter. A scanned code (keyboard-wedge scanner or a
+// QR code read by the camera) is matched against ticket IDs, device serials
+// and laptop QC numbers. QR codes printed on receipts and labels carry the
+// ticket's deep link (#/ticket/<id>), which resolves to that ticket directly.
+
+export type ScanField = "Ticket Link" | "Ticket ID" | "Serial" | "Laptop No.";
+
+export type ScanMatch =
+  | { type: "ticket"; field: ScanField; ticket: Ticket }
+  | { type: "report"; field: ScanField; report: Report };
+
+export interface ScanLookup {
+  code: string; // the cleaned-up scan
+  isLink: boolean; // a ticket deep link rather than a printed code
+  matches: ScanMatch[];
+}
+
+const TICKET_LINK = /#\/ticket\/([^/?#\s]+)/;
+
+export const lookupScan = (
+  raw: string,
+  tickets: Ticket[],
+  reports: Report[]
+): ScanLookup => {
+  const link = raw.match(TICKET_LINK)?.[1];
+  if (link) {
+    const id = decodeURIComponent(link);
+    const ticket = tickets.find((t) => t.id === id);
+    return {
+      code: id,
+      isLink: true,
+      matches: ticket
+        ? [{ type: "ticket", field: "Ticket Link", ticket }]
+        : [],
+    };
+  }
+
+  const code = raw.trim();
+  const key = normalizeSerial(code);
+  if (!key) return { code, isLink: false, matches: [] };
+
+  const matches: ScanMatch[] = [];
+  tickets.forEach((ticket) => {
+    if (normalizeSerial(ticket.ticketId ?? "") === key) {
+      matches.push({ type: "ticket", field: "Ticket ID", ticket });
+    } else if (ticket.serial && normalizeSerial(ticket.serial) === key) {
+      matches.push({ type: "ticket", field: "Serial", ticket });
+    }
+  });
+  reports.forEach((report) => {
+    if (normalizeSerial(report.deviceInfo.laptopNo ?? "") === key) {
+      matches.push({ type: "report", field: "Laptop No.", report });
+    }
+  });
+  return { code, isLink: false, matches };
+};
+
+// --- CAMERA ---
+// Uses the browser's BarcodeDetector (Chrome / Edge / Android). Elsewhere
+// the scan box still takes keyboard-wedge input.
+
+const SCAN_FORMATS = [
+  "qr_code",
+  "code_128",
+  "code_39",
+  "ean_13",
+  "data_matrix",
+];
+const SCAN_INTERVAL = 300; // ms between frames
+
+// The Shape Detection API is not in TypeScript's DOM types yet; only what is
+// used here is declared.
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: {
+      new (options?: { formats?: string[] }): BarcodeDetectorLike;
+      getSupportedFormats(): Promise<string[]>;
+    };
+  }
+}
+
+export const isCameraScanSupported = () =>
+  typeof window !== "undefined" &&
+  !!window.BarcodeDetector &&
+  !!navigator.mediaDevices?.getUserMedia;
+
+// Streams the rear camera into the video element and reports the first code
+// it reads. Returns a function that stops the camera.
+export const startCameraScan = async (
+  video: HTMLVideoElement,
+  onCode: (code: string) => void
+): Promise<() => void> => {
+  const Detector = window.BarcodeDetector;
+  if (!Detector || !isCameraScanSupported()) {
+    throw new Error("Camera scanning is not supported in this browser.");
+  }
+  const supported = await Detector.getSupportedFormats();
+  const detector = new Detector({
+    formats: SCAN_FORMATS.filter((f) => supported.includes(f)),
+  });
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: { facingMode: "environment" },
+  });
+  video.srcObject = stream;
+  await video.play();
+
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout>;
+  const stop = () => {
+    stopped = true;
+    clearTimeout(timer);
+    stream.getTracks().forEach((track) => track.stop());
+    video.srcObject = null;
+  };
+  const tick = async () => {
+    if (stopped) return;
+    try {
+      const codes = await detector.detect(video);
+      if (!stopped && codes.length > 0) {
+        stop();
+        onCode(codes[0].rawValue);
+        return;
+      }
+    } catch {
+      // Frame not ready yet; try the next one
+    }
+    timer = setTimeout(tick, SCAN_INTERVAL);
+  };
+  tick();
+  return stop;
+};
@@ -0,0 +1,16 @@
+import { supabase } from "@/lib/supabaseClient";
+
+// Calls one of the Supabase Edge Functions in supabase/functions. The
+// signed-in user's session goes with the request (visitors send the anon
+// key). Throws the function's own message when it refuses the call.
+export const callServerFunction = async <T>(
+  name: string,
+  body: Record<string, unknown>
+): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) {
+    const reply = await error.context?.json?.().catch(() => null);
+    throw new Error(reply?.error || error.message);
+  }
+  return data as T;
+};
@@ -0,0 +1,9 @@
+// Settings are stored as one object and read back as saved, so settings saved
+// before a feature existed have no section for it. Engines read their section
+// through here and get the defaults when it is missing, or when `isUsable`
+// rejects what was stored.
+export const withDefaults = <T>(
+  section: T | null | undefined,
+  defaults: T,
+  isUsable: (section: T) => boolean = () => true
+): T => (section && isUsable(section) ? section : defaults);
@@ -0,0 +1,241 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { SLAConfig, Ticket, TicketHistory } from "../types";
+import {
+  DEFAULT_SLA,
+  describeSLAClock,
+  formatSLADuration,
+  getTicketSLA,
+} from "./slaEngine";
+import { DEFAULT_WORKFLOW } from "./workflowEngine";
+
+// Business hours are local time, so the tests build local dates. 5 January
+// 2026 is a Monday; the default hours are Monday to Saturday, 10:00 to 19:00.
+const at = (day: number, hour: number, minute = 0) =>
+  new Date(2026, 0, day, hour, minute).getTime();
+
+const HOUR = 60 * 60 * 1000;
+
+const settings = (sla: SLAConfig = DEFAULT_SLA) => ({
+  sla,
+  stores: [],
+  workflow: DEFAULT_WORKFLOW,
+});
+
+const statusChange = (
+  timestamp: number,
+  from: string,
+  to: string
+): TicketHistory => ({
+  id: `h-${timestamp}`,
+  date: new Date(timestamp).toISOString(),
+  timestamp,
+  actorName: "Asha",
+  actorRole: "TECHNICIAN",
+  action: "Status Change",
+  details: `Changed from ${from} to ${to}`,
+  changes: [{ field: "status", from, to }],
+});
+
+const ticket = (fields: Partial<Ticket>): Ticket =>
+  ({
+    id: "t1",
+    ticketId: "TKT-IF-001",
+    priority: "High",
+    store: "DGP Shop",
+    status: "New",
+    history: [],
+    ...fields,
+  } as Ticket);
+
+describe("business time", () => {
+  it("counts only opening hours", () => {
+    const sla = getTicketSLA(
+      ticket({ createdAt: new Date(at(5, 18)).toISOString() }),
+      settings(),
+      at(6, 10, 30)
+    )!;
+    assert.equal(sla.response.state, "running");
+    assert.equal(sla.response.elapsedMs, 1.5 * HOUR);
+    assert.equal(sla.response.remainingMs, 0.5 * HOUR);
+    assert.equal(sla.response.dueAt, at(6, 11));
+  });
+
+  it("skips closed days and holidays", () => {
+    const created = new Date(at(10, 18)).toISOString(); // Saturday
+    const open = getTicketSLA(
+      ticket({ createdAt: created }),
+      settings(),
+      at(12, 11)
+    );
+    assert.equal(open!.response.elapsedMs, 2 * HOUR);
+
+    const holiday = getTicketSLA(
+      ticket({ createdAt: created }),
+      settings({
+        ...DEFAULT_SLA,
+        holidays: [{ id: "h1", date: "2026-01-12", name: "Holiday" }],
+      }),
+      at(12, 11)
+    );
+    assert.equal(holiday!.response.elapsedMs, 1 * HOUR);
+  });
+
+  it("uses the store's own hours", () => {
+    const sla = getTicketSLA(
+      ticket({ createdAt: new Date(at(5, 18)).toISOString() }),
+      {
+        ...settings(),
+        stores: [
+          {
+            id: "s1",
+            name: "DGP Shop",
+            hours: { days: [1, 2, 3, 4, 5, 6], open: "09:00", close: "21:00" },
+          },
+        ],
+      },
+      at(5, 20)
+    )!;
+    assert.equal(sla.response.elapsedMs, 2 * HOUR);
+  });
+});
+
+describe("getTicketSLA", () => {
+  it("returns null for a priority without a target", () => {
+    assert.equal(
+      getTicketSLA(ticket({ priority: "Urgent" }), settings()),
+      null
+    );
+  });
+
+  it("is breached from the next opening once the target ran out", () => {
+    const sla = getTicketSLA(
+      ticket({ createdAt: new Date(at(5, 17)).toISOString() }),
+      settings(),
+      at(6, 12)
+    )!;
+    assert.equal(sla.response.state, "running");
+    assert.equal(sla.response.breached, true);
+    assert.equal(sla.response.breachedAt, at(6, 10));
+    assert.equal(sla.response.remainingMs, -2 * HOUR);
+    assert.equal(sla.breached, true);
+  });
+
+  it("meets the response once the ticket leaves the initial status", () => {
+    const sla = getTicketSLA(
+      ticket({
+        status: "In Progress",
+        createdAt: new Date(at(5, 10)).toISOString(),
+        history: [statusChange(at(5, 11), "New", "In Progress")],
+      }),
+      settings(),
+      at(5, 15)
+    )!;
+    assert.equal(sla.response.state, "met");
+    assert.equal(sla.response.elapsedMs, 1 * HOUR);
+    assert.equal(sla.response.completedAt, at(5, 11));
+    assert.equal(sla.resolution.state, "running");
+    assert.equal(sla.resolution.elapsedMs, 5 * HOUR);
+  });
+
+  it("pauses the resolution clock for the configured hold reasons", () => {
+    const sla = getTicketSLA(
+      ticket({
+        status: "On Hold",
+        holdReason: "Customer Response",
+        createdAt: new Date(at(5, 10)).toISOString(),
+        history: [
+          {
+            ...statusChange(at(5, 12), "New", "On Hold"),
+            changes: [
+              { field: "status", from: "New", to: "On Hold" },
+              { field: "holdReason", from: "", to: "Customer Response" },
+            ],
+          },
+        ],
+      }),
+      settings(),
+      at(6, 18)
+    )!;
+    assert.equal(sla.resolution.state, "paused");
+    assert.equal(sla.resolution.elapsedMs, 2 * HOUR);
+    assert.equal(sla.resolution.dueAt, undefined);
+  });
+
+  it("stops the resolution clock in a closed status", () => {
+    const sla = getTicketSLA(
+      ticket({
+        status: "Resolved",
+        createdAt: new Date(at(5, 10)).toISOString(),
+        history: [
+          statusChange(at(5, 11), "New", "In Progress"),
+          statusChange(at(5, 14), "In Progress", "Resolved"),
+        ],
+      }),
+      settings(),
+      at(9, 18)
+    )!;
+    assert.equal(sla.resolution.state, "met");
+    assert.equal(sla.resolution.elapsedMs, 4 * HOUR);
+    assert.equal(sla.resolution.completedAt, at(5, 14));
+  });
+
+  it("does not start the clocks before a portal request is approved", () => {
+    const sla = getTicketSLA(
+      ticket({
+        status: "Pending Approval",
+        createdAt: new Date(at(5, 10)).toISOString(),
+      }),
+      settings(),
+      at(7, 10)
+    )!;
+    assert.equal(sla.response.state, "not_started");
+    assert.equal(sla.resolution.state, "not_started");
+    assert.equal(sla.breached, false);
+  });
+
+  it("reads legacy status changes from the entry text", () => {
+    const legacy = statusChange(at(5, 11), "New", "In Progress");
+    delete legacy.changes;
+    const sla = getTicketSLA(
+      ticket({
+        status: "In Progress",
+        createdAt: new Date(at(5, 10)).toISOString(),
+        history: [legacy],
+      }),
+      settings(),
+      at(5, 15)
+    )!;
+    assert.equal(sla.response.state, "met");
+    assert.equal(sla.response.completedAt, at(5, 11));
+  });
+});
+
+describe("display", () => {
+  it("formats durations", () => {
+    assert.equal(formatSLADuration(45 * 60 * 1000), "45m");
+    assert.equal(formatSLADuration(3 * HOUR), "3h");
+    assert.equal(formatSLADuration(-(3 * HOUR + 20 * 60 * 1000)), "3h 20m");
+    assert.equal(formatSLADuration(120 * HOUR + 5 * 60 * 1000), "120h");
+  });
+
+  it("describes a clock", () => {
+    const clock = {
+      state: "running" as const,
+      targetMs: 2 * HOUR,
+      elapsedMs: HOUR,
+      remainingMs: HOUR,
+      breached: false,
+    };
+    assert.equal(describeSLAClock(clock), "1h left");
+    assert.equal(
+      describeSLAClock({ ...clock, state: "paused" }),
+      "Paused, 1h left"
+    );
+    assert.equal(
+      describeSLAClock({ ...clock, remainingMs: -HOUR, breached: true }),
+      "Breached by 1h"
+    );
+    assert.equal(describeSLAClock({ ...clock, state: "met" }), "Met");
+  });
+});
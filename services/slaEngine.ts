@@ -0,0 +1,529 @@
+import {
+  AppSettings,
+  BusinessHours,
+  EscalationStep,
+  SLAConfig,
+  SLATarget,
+  Store,
+  Ticket,
+  TicketHistory,
+  WorkflowConfig,
+} from "../types";
+import { parseStoredDate } from "./ticketMapper";
+import { getInitialStatus, isTerminalStatus } from "./workflowEngine";
+import { withDefaults } from "./settingsDefaults";
+
+// SLA clocks for a ticket, counted in business time (store opening hours minus
+// holidays). Each ticket has two clocks:
+//   - response: from creation until it first leaves the initial status
+//   - resolution: until it reaches a closed status, paused while it is on
+//     hold for one of SLAConfig.pauseHoldReasons
+// The status timeline is rebuilt from the ticket's audit history.
+
+// Assignee at 75%, manager at 100%, admin at 150% of the resolution target;
+// manager once the response target is missed.
+const DEFAULT_ESCALATIONS: EscalationStep[] = [
+  { id: "e1", clock: "response", percent: 100, notify: "manager" },
+  { id: "e2", clock: "resolution", percent: 75, notify: "assignee" },
+  { id: "e3", clock: "resolution", percent: 100, notify: "manager" },
+  { id: "e4", clock: "resolution", percent: 150, notify: "admin" },
+];
+
+export const DEFAULT_SLA: SLAConfig = {
+  targets: [
+    {
+      priority: "High",
+      responseHours: 2,
+      resolutionHours: 18,
+      escalations: DEFAULT_ESCALATIONS,
+    },
+    {
+      priority: "Medium",
+      responseHours: 4,
+      resolutionHours: 45,
+      escalations: DEFAULT_ESCALATIONS,
+    },
+    {
+      priority: "Low",
+      responseHours: 9,
+      resolutionHours: 90,
+      escalations: DEFAULT_ESCALATIONS,
+    },
+  ],
+  businessHours: { days: [1, 2, 3, 4, 5, 6], open: "10:00", close: "19:00" },
+  holidays: [],
+  pauseHoldReasons: ["Customer Response", "Approval Pending"],
+};
+
+// Portal requests do not start their clocks until they are approved.
+const AWAITING_APPROVAL = "Pending Approval";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const MAX_DAYS = 3660; // upper bound for calendar walks
+
+export type SLAClockState =
+  | "not_started"
+  | "running"
+  | "paused"
+  | "met"
+  | "missed";
+
+export interface SLAClock {
+  state: SLAClockState;
+  targetMs: number;
+  elapsedMs: number;
+  remainingMs: number; // negative once breached
+  breached: boolean;
+  breachedAt?: number; // when the target was crossed
+  dueAt?: number; // projected breach time while the clock runs
+  completedAt?: number;
+}
+
+export interface TicketSLA {
+  target: SLATarget;
+  response: SLAClock;
+  resolution: SLAClock;
+  breached: boolean;
+}
+
+type SLASettings = Pick<AppSettings, "sla" | "stores" | "workflow">;
+
+// SLA settings from before business-hour targets have no `targets` list.
+const resolve = (sla?: SLAConfig | null) =>
+  withDefaults(sla, DEFAULT_SLA, (s) => Array.isArray(s.targets));
+
+export const getSLAConfig = (settings: Pick<AppSettings, "sla">) =>
+  resolve(settings.sla);
+
+export const findSLATarget = (priority: string, sla?: SLAConfig | null) => {
+  const key = (priority || "").trim().toLowerCase();
+  return resolve(sla).targets.find(
+    (t) => t.priority.trim().toLowerCase() === key
+  );
+};
+
+// --- BUSINESS CALENDAR ---
+
+interface Calendar {
+  hours: BusinessHours;
+  holidays: Set<string>;
+  weekMs: number; // business time in a week without holidays
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+// Hours that cannot be satisfied (no open days, close before open) count as
+// always open.
+const isAlwaysOpen = ({ days, open, close }: BusinessHours) =>
+  days.length === 0 || toMinutes(close) <= toMinutes(open);
+
+const getCalendar = (
+  storeName: string,
+  sla: SLAConfig,
+  stores: Store[]
+): Calendar => {
+  const store = stores.find((s) => s.name === storeName);
+  const hours = store?.hours ?? sla.businessHours;
+  const holidays = sla.holidays
+    .filter((h) => !h.storeId || h.storeId === store?.id)
+    .map((h) => h.date);
+  const openDays = new Set(hours.days.filter((d) => d >= 0 && d <= 6)).size;
+  return {
+    hours,
+    holidays: new Set(holidays),
+    weekMs: isAlwaysOpen(hours)
+      ? 7 * DAY
+      : openDays * (toMinutes(hours.close) - toMinutes(hours.open)) * 60000,
+  };
+};
+
+const toDateKey = (day: Date) =>
+  `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, "0")}-${String(
+    day.getDate()
+  ).padStart(2, "0")}`;
+
+// Opening window for `day` (local midnight), or null when closed.
+const openWindow = (day: Date, calendar: Calendar): [number, number] | null => {
+  if (calendar.holidays.has(toDateKey(day))) return null;
+
+  const { days, open, close } = calendar.hours;
+  const start = new Date(day);
+  const end = new Date(day);
+  if (isAlwaysOpen(calendar.hours)) {
+    end.setDate(end.getDate() + 1);
+    return [start.getTime(), end.getTime()];
+  }
+  if (!days.includes(day.getDay())) return null;
+
+  start.setMinutes(toMinutes(open));
+  end.setMinutes(toMinutes(close));
+  return [start.getTime(), end.getTime()];
+};
+
+// True when the 7 days from `day` (local midnight) hold exactly
+// `calendar.weekMs` of business time: no holiday and no clock change.
+const isPlainWeek = (day: Date, weekEnd: Date, calendar: Calendar) => {
+  if (weekEnd.getTime() - day.getTime() !== 7 * DAY) return false;
+  if (calendar.holidays.size === 0) return true;
+  const date = new Date(day);
+  for (let i = 0; i < 7; i++, date.setDate(date.getDate() + 1)) {
+    if (calendar.holidays.has(toDateKey(date))) return false;
+  }
+  return true;
+};
+
+// Calls `visit` for each stretch of business time between `from` and `to`, in
+// order, until it returns true. Whole plain weeks inside the range are first
+// offered to `skipWeek`; when it returns true the week is passed over in one
+// step, so long-open tickets cost a step per week instead of per day.
+const forEachBusinessStretch = (
+  from: number,
+  to: number,
+  calendar: Calendar,
+  visit: (start: number, end: number) => boolean | void,
+  skipWeek?: (weekMs: number) => boolean
+) => {
+  const day = new Date(from);
+  day.setHours(0, 0, 0, 0);
+
+  for (let i = 0; i < MAX_DAYS && day.getTime() < to; ) {
+    if (skipWeek && day.getTime() >= from) {
+      const weekEnd = new Date(day);
+      weekEnd.setDate(weekEnd.getDate() + 7);
+      if (
+        weekEnd.getTime() <= to &&
+        isPlainWeek(day, weekEnd, calendar) &&
+        skipWeek(calendar.weekMs)
+      ) {
+        day.setTime(weekEnd.getTime());
+        i += 7;
+        continue;
+      }
+    }
+
+    const window = openWindow(day, calendar);
+    if (window) {
+      const start = Math.max(window[0], from);
+      const end = Math.min(window[1], to);
+      if (end > start && visit(start, end)) return;
+    }
+    day.setDate(day.getDate() + 1);
+    i++;
+  }
+};
+
+const businessTimeBetween = (from: number, to: number, calendar: Calendar) => {
+  let total = 0;
+  forEachBusinessStretch(
+    from,
+    to,
+    calendar,
+    (start, end) => {
+      total += end - start;
+    },
+    (weekMs) => {
+      total += weekMs;
+      return true;
+    }
+  );
+  return total;
+};
+
+// The moment `ms` of business time has passed after `from`. With `past`, the
+// first business moment after that (a target used up at closing time is
+// crossed when the store next opens).
+const addBusinessTime = (
+  from: number,
+  ms: number,
+  calendar: Calendar,
+  past = false
+) => {
+  let left = ms;
+  let result: number | undefined;
+  const fits = (span: number) => (past ? span > left : span >= left);
+  forEachBusinessStretch(
+    from,
+    Infinity,
+    calendar,
+    (start, end) => {
+      if (fits(end - start)) {
+        result = start + left;
+        return true;
+      }
+      left -= end - start;
+    },
+    (weekMs) => {
+      if (fits(weekMs)) return false;
+      left -= weekMs;
+      return true;
+    }
+  );
+  return result;
+};
+
+// --- STATUS TIMELINE ---
+
+interface Period {
+  start: number;
+  end: number;
+  status: string;
+  holdReason: string | null;
+}
+
+interface StateChange {
+  at: number;
+  fromStatus?: string;
+  status?: string;
+  fromHoldReason?: string | null;
+  holdReason?: string | null;
+}
+
+// Entries written before the audit log only describe status changes in text.
+const LEGACY_STATUS_CHANGE = /^Changed from (.+?) to (.+?)(?:\. Reason:.*)?$/;
+
+const asReason = (value: unknown) => (value ? String(value) : null);
+
+const readChange = (
+  entry: TicketHistory,
+  workflow?: WorkflowConfig | null
+): StateChange => {
+  const change: StateChange = { at: entry.timestamp };
+
+  if (entry.changes) {
+    entry.changes.forEach((c) => {
+      if (c.field === "status") {
+        change.fromStatus = String(c.from ?? "");
+        change.status = String(c.to ?? "");
+      }
+      if (c.field === "holdReason") {
+        change.fromHoldReason = asReason(c.from);
+        change.holdReason = asReason(c.to);
+      }
+    });
+    return change;
+  }
+
+  const legacy = entry.details.match(LEGACY_STATUS_CHANGE);
+  if (entry.action === "Status Change" && legacy) {
+    change.fromStatus = legacy[1];
+    change.status = legacy[2];
+  } else if (entry.action === "Approved") {
+    change.fromStatus = AWAITING_APPROVAL;
+    change.status = getInitialStatus(workflow);
+  }
+  return change;
+};
+
+const getCreatedTime = (ticket: Ticket) => {
+  const created = parseStoredDate(ticket.createdAt);
+  if (created) return created.getTime();
+
+  const timestamps = (ticket.history || []).map((h) => h.timestamp);
+  if (timestamps.length > 0) return Math.min(...timestamps);
+  return new Date(ticket.date).getTime();
+};
+
+// Splits the ticket's life into periods with a fixed status and hold reason.
+const buildTimeline = (
+  ticket: Ticket,
+  workflow: WorkflowConfig | null | undefined,
+  now: number
+): Period[] => {
+  const createdAt = getCreatedTime(ticket);
+  const changes = [...(ticket.history || [])]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((entry) => readChange(entry, workflow));
+
+  const firstStatus = changes.find((c) => c.status !== undefined);
+  const firstHold = changes.find((c) => c.holdReason !== undefined);
+  let status = firstStatus ? firstStatus.fromStatus! : ticket.status;
+  let holdReason = firstHold
+    ? firstHold.fromHoldReason ?? null
+    : asReason(ticket.holdReason);
+
+  const periods: Period[] = [];
+  let cursor = createdAt;
+  changes.forEach((change) => {
+    if (change.at > cursor) {
+      periods.push({ start: cursor, end: change.at, status, holdReason });
+      cursor = change.at;
+    }
+    if (change.status !== undefined) status = change.status;
+    if (change.holdReason !== undefined) holdReason = change.holdReason;
+  });
+
+  // The ticket itself is the source of truth for where it is now.
+  periods.push({
+    start: cursor,
+    end: Math.max(cursor, now),
+    status: ticket.status,
+    holdReason: asReason(ticket.holdReason),
+  });
+  return periods;
+};
+
+// --- CLOCKS ---
+
+const measure = (
+  periods: Period[],
+  running: (period: Period) => boolean,
+  targetMs: number,
+  calendar: Calendar,
+  completedAt: number | undefined,
+  now: number
+): SLAClock => {
+  let elapsedMs = 0;
+  let breachedAt: number | undefined;
+  let started = false;
+
+  periods.forEach((period) => {
+    if (completedAt !== undefined && period.start >= completedAt) return;
+    if (!running(period)) return;
+    started = true;
+
+    const end =
+      completedAt !== undefined ? Math.min(period.end, completedAt) : period.end;
+    const spent = businessTimeBetween(period.start, end, calendar);
+    if (breachedAt === undefined && elapsedMs + spent > targetMs) {
+      breachedAt = addBusinessTime(
+        period.start,
+        targetMs - elapsedMs,
+        calendar,
+        true
+      );
+    }
+    elapsedMs += spent;
+  });
+
+  const remainingMs = targetMs - elapsedMs;
+  const current = periods[periods.length - 1];
+  const state: SLAClockState = !started
+    ? "not_started"
+    : completedAt !== undefined
+    ? remainingMs >= 0
+      ? "met"
+      : "missed"
+    : running(current)
+    ? "running"
+    : "paused";
+
+  return {
+    state,
+    targetMs,
+    elapsedMs,
+    remainingMs,
+    breached: state !== "not_started" && remainingMs < 0,
+    breachedAt,
+    dueAt:
+      state === "running" && remainingMs > 0
+        ? addBusinessTime(now, remainingMs, calendar)
+        : undefined,
+    completedAt: state === "not_started" ? undefined : completedAt,
+  };
+};
+
+// Null when the ticket's priority has no SLA target.
+export const getTicketSLA = (
+  ticket: Ticket,
+  settings: SLASettings,
+  now: number = Date.now()
+): TicketSLA | null => {
+  const sla = resolve(settings.sla);
+  const target = findSLATarget(ticket.priority, sla);
+  if (!target) return null;
+
+  const { workflow } = settings;
+  const initialStatus = getInitialStatus(workflow);
+  const calendar = getCalendar(ticket.store, sla, settings.stores || []);
+  const periods = buildTimeline(ticket, workflow, now);
+
+  const isPending = (p: Period) => p.status === AWAITING_APPROVAL;
+  const isClosed = (p: Period) => isTerminalStatus(p.status, workflow);
+  const isPaused = (p: Period) =>
+    !!p.holdReason && sla.pauseHoldReasons.includes(p.holdReason);
+
+  // Response: done the first time the ticket leaves the initial status.
+  const responded = periods.find(
+    (p) => p.status !== initialStatus && !isPending(p)
+  );
+  const response = measure(
+    periods,
+    (p) => p.status === initialStatus,
+    target.responseHours * HOUR,
+    calendar,
+    responded?.start,
+    now
+  );
+
+  // Resolution: done while the ticket sits in a closed status (a reopened
+  // ticket picks up where its clock stopped).
+  let closedAt: number | undefined;
+  for (let i = periods.length - 1; i >= 0 && isClosed(periods[i]); i--) {
+    closedAt = periods[i].start;
+  }
+  const resolution = measure(
+    periods,
+    (p) => !isPending(p) && !isClosed(p) && !isPaused(p),
+    target.resolutionHours * HOUR,
+    calendar,
+    closedAt,
+    now
+  );
+
+  return {
+    target,
+    response,
+    resolution,
+    breached: response.breached || resolution.breached,
+  };
+};
+
+// --- DISPLAY ---
+
+export const formatSLADuration = (ms: number) => {
+  const minutes = Math.round(Math.abs(ms) / 60000);
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) return `${minutes}m`;
+  if (hours >= 100 || minutes % 60 === 0) return `${hours}h`;
+  return `${hours}h ${minutes % 60}m`;
+};
+
+// Short label for badges, e.g. "3h 20m left" or "Breached by 2h".
+export const describeSLAClock = (clock: SLAClock) => {
+  if (clock.state === "not_started") return "Not started";
+  if (clock.state === "met") return "Met";
+  if (clock.breached) return `Breached by ${formatSLADuration(clock.remainingMs)}`;
+  if (clock.state === "paused") {
+    return `Paused, ${formatSLADuration(clock.remainingMs)} left`;
+  }
+  return `${formatSLADuration(clock.remainingMs)} left`;
+};
+
+// --- SETTINGS ---
+
+// Keep targets and pause rules pointing at an entry renamed in Settings.
+export const renameSLAPriority = (
+  sla: SLAConfig,
+  oldName: string,
+  newName: string
+): SLAConfig => ({
+  ...sla,
+  targets: sla.targets.map((t) =>
+    t.priority === oldName ? { ...t, priority: newName } : t
+  ),
+});
+
+export const renameSLAHoldReason = (
+  sla: SLAConfig,
+  oldName: string,
+  newName: string
+): SLAConfig => ({
+  ...sla,
+  pauseHoldReasons: sla.pauseHoldReasons.map((r) =>
+    r === oldName ? newName : r
+  ),
+});
@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Task, User } from "../types";
+import {
+  ALL_STORES,
+  getAssignedStores,
+  getReadFilter,
+  getStoreScope,
+  getUserStores,
+  mergeScoped,
+  renameAssignedStore,
+  scopeByStore,
+  scopeCustomers,
+  scopeTasks,
+} from "./storeScope";
+
+const member = (id: string, role: string, stores?: string[]): User => ({
+  id,
+  name: id,
+  role,
+  email: `${id}@example.com`,
+  stores,
+});
+
+const admin = member("u1", "ADMIN", ["Ukhra"]);
+const ukhra = member("u2", "TECHNICIAN", ["Ukhra"]);
+const both = member("u3", "MANAGER", ["Ukhra", "Asansol"]);
+const unassigned = member("u4", "TECHNICIAN");
+const customer = member("c1", "CUSTOMER");
+
+describe("store scope", () => {
+  it("gives admins and customers every store, other staff their own", () => {
+    assert.equal(getAssignedStores(admin), null);
+    assert.equal(getAssignedStores(customer), null);
+    assert.deepEqual(getAssignedStores(both), ["Ukhra", "Asansol"]);
+    assert.deepEqual(getAssignedStores(unassigned), []);
+  });
+
+  it("lists the stores a user can work in", () => {
+    const stores = [
+      { id: "s1", name: "Ukhra" },
+      { id: "s2", name: "Asansol" },
+    ];
+    assert.deepEqual(getUserStores(ukhra, stores), [stores[0]]);
+    assert.deepEqual(getUserStores(admin, stores), stores);
+  });
+
+  it("narrows to the switcher's store only when the user may see it", () => {
+    assert.deepEqual(getStoreScope(both, "Asansol"), ["Asansol"]);
+    assert.deepEqual(getStoreScope(ukhra, "Asansol"), ["Ukhra"]);
+    assert.deepEqual(getStoreScope(admin, "Asansol"), ["Asansol"]);
+    assert.equal(getStoreScope(admin, ALL_STORES), null);
+  });
+
+  it("filters store-keyed rows", () => {
+    const rows = [
+      { id: "t1", store: "Ukhra" },
+      { id: "t2", store: "Asansol" },
+    ];
+    assert.deepEqual(scopeByStore(rows, ["Asansol"]), [rows[1]]);
+    assert.deepEqual(scopeByStore(rows, []), []);
+    assert.deepEqual(scopeByStore(rows, null), rows);
+  });
+});
+
+describe("shared rows", () => {
+  it("shows customers with a ticket in scope or no tickets yet", () => {
+    const customers = [{ id: "c1" }, { id: "c2" }, { id: "c3" }];
+    const tickets = [
+      { customerId: "c1", store: "Ukhra" },
+      { customerId: "c2", store: "Asansol" },
+    ];
+    assert.deepEqual(
+      scopeCustomers(customers, tickets, ["Ukhra"]).map((c) => c.id),
+      ["c1", "c3"]
+    );
+  });
+
+  it("shows tasks that are unassigned or assigned to staff in scope", () => {
+    const task = (id: string, assignedToId?: string): Task => ({
+      id,
+      title: id,
+      date: "2026-01-05",
+      assignedToId,
+      type: "general",
+      status: "pending",
+      createdById: "u1",
+    });
+    const tasks = [
+      task("k1"),
+      task("k2", "u2"),
+      task("k3", "u3"),
+      task("k4", "u1"),
+      task("k5", "u4"),
+    ];
+    assert.deepEqual(
+      scopeTasks(tasks, [admin, ukhra, both, unassigned], ["Asansol"]).map(
+        (t) => t.id
+      ),
+      ["k1", "k3", "k4"]
+    );
+  });
+
+  it("keeps rows a scoped view could not see when it saves", () => {
+    const all = [{ id: "t1" }, { id: "t2" }, { id: "t3" }];
+    const visible = [all[0], all[1]];
+    assert.deepEqual(
+      mergeScoped(all, visible, [all[1], { id: "t4" }]).map((r) => r.id),
+      ["t2", "t4", "t3"]
+    );
+  });
+
+  it("follows a store rename in staff assignments", () => {
+    assert.deepEqual(
+      renameAssignedStore([ukhra, both, unassigned], "Asansol", "Burdwan"),
+      [{ ...both, stores: ["Ukhra", "Burdwan"] }]
+    );
+  });
+});
+
+describe("getReadFilter", () => {
+  it("loads nothing while signed out", () => {
+    assert.equal(getReadFilter("tickets", null), "none");
+  });
+
+  it("loads a customer's own rows only", () => {
+    assert.deepEqual(getReadFilter("customers", customer), {
+      field: "id",
+      value: "c1",
+    });
+    assert.deepEqual(getReadFilter("quotations", customer), {
+      field: "customerId",
+      value: "c1",
+    });
+    assert.equal(getReadFilter("users", customer), "none");
+  });
+
+  it("loads staff their stores' rows and their own notifications", () => {
+    assert.deepEqual(getReadFilter("invoices", both), {
+      field: "store",
+      value: ["Ukhra", "Asansol"],
+    });
+    assert.deepEqual(getReadFilter("tickets", unassigned), {
+      field: "store",
+      value: [],
+    });
+    assert.deepEqual(getReadFilter("notifications", admin), {
+      field: "userId",
+      value: "u1",
+    });
+    assert.equal(getReadFilter("tickets", admin), "all");
+    assert.equal(getReadFilter("customers", ukhra), "all");
+  });
+});
@@ -0,0 +1,144 @@
+import { Store, Task, Ticket, User } from "../types";
+
+// Multi-branch access. Staff are assigned to one or more stores (User.stores,
+// by name like Ticket.store) and only see those stores' tickets, invoices,
+// payments and schedule. Admins see every store; staff not assigned to any
+// store yet see none. The header switcher narrows the view to a single
+// store. The store_scope migration applies the same rule to Supabase reads
+// and writes.
+
+export const ALL_STORES = ""; // switcher value for "every store I can see"
+
+// A list of store names, or null for every store
+export type StoreScope = string[] | null;
+
+export const getAssignedStores = (
+  user: Pick<User, "role" | "stores">
+): StoreScope =>
+  user.role === "ADMIN" || user.role === "CUSTOMER" ? null : user.stores ?? [];
+
+// The stores a user can work in: switcher entries, ticket form options.
+export const getUserStores = (
+  user: Pick<User, "role" | "stores">,
+  stores: Store[]
+): Store[] => {
+  const assigned = getAssignedStores(user);
+  return assigned ? stores.filter((s) => assigned.includes(s.name)) : stores;
+};
+
+// What the views show: the switcher's store when the user may see it,
+// otherwise all of the user's stores.
+export const getStoreScope = (
+  user: Pick<User, "role" | "stores">,
+  activeStore: string
+): StoreScope => {
+  const assigned = getAssignedStores(user);
+  if (activeStore && (!assigned || assigned.includes(activeStore))) {
+    return [activeStore];
+  }
+  return assigned;
+};
+
+export const isInScope = (store: string, scope: StoreScope) =>
+  !scope || scope.includes(store);
+
+export const scopeByStore = <T extends { store: string }>(
+  rows: T[],
+  scope: StoreScope
+) => (scope ? rows.filter((r) => scope.includes(r.store)) : rows);
+
+// Customers are shared by all stores (they may visit any branch), so one is
+// shown when they have a ticket in scope or no tickets yet.
+export const scopeCustomers = <T extends { id: string }>(
+  customers: T[],
+  tickets: Pick<Ticket, "customerId" | "store">[],
+  scope: StoreScope
+) => {
+  if (!scope) return customers;
+  const withTickets = new Set(tickets.map((t) => t.customerId));
+  const inScope = new Set(
+    tickets.filter((t) => scope.includes(t.store)).map((t) => t.customerId)
+  );
+  return customers.filter((c) => inScope.has(c.id) || !withTickets.has(c.id));
+};
+
+// Tasks follow their assignee: shown when unassigned, or assigned to someone
+// who works at a store in scope.
+export const scopeTasks = (
+  tasks: Task[],
+  teamMembers: User[],
+  scope: StoreScope
+) => {
+  if (!scope) return tasks;
+  return tasks.filter((task) => {
+    const member = teamMembers.find((m) => m.id === task.assignedToId);
+    const assigned = member && getAssignedStores(member);
+    return !assigned || assigned.some((s) => scope.includes(s));
+  });
+};
+
+// Views get array setters that replace the whole list, and the repository
+// deletes whatever is missing from it. Rows the view could not see are
+// added back so a scoped view never removes them.
+export const mergeScoped = <T extends { id: string }>(
+  all: T[],
+  visible: T[],
+  next: T[]
+): T[] => {
+  const visibleIds = new Set(visible.map((r) => r.id));
+  return [...next, ...all.filter((r) => !visibleIds.has(r.id))];
+};
+
+// Keeps staff assignments pointing at a renamed store. Returns the members
+// that changed.
+export const renameAssignedStore = (
+  members: User[],
+  from: string,
+  to: string
+): User[] =>
+  members
+    .filter((m) => m.stores?.includes(from))
+    .map((m) => ({
+      ...m,
+      stores: m.stores!.map((s) => (s === from ? to : s)),
+    }));
+
+// --- READ SCOPE ---
+
+// Which rows of a collection the signed-in user loads: all of them, those
+// whose `field` matches `value` (any of them for a list), or none. It follows
+// firestore.rules and the store_scope policies, since Firestore refuses a
+// query that could return a row its rules deny: customers load their own
+// rows, staff the store-keyed rows of their stores, and nobody anything
+// while signed out.
+export type ReadFilter =
+  | "all"
+  | "none"
+  | { field: string; value: string | string[] };
+
+const STORE_KEYED = ["tickets", "invoices", "payments"];
+const CUSTOMER_KEYED = [
+  "tickets",
+  "invoices",
+  "payments",
+  "quotations",
+  "warranties",
+];
+
+export const getReadFilter = (
+  entity: string,
+  user: Pick<User, "id" | "role" | "stores"> | null
+): ReadFilter => {
+  if (!user) return "none";
+  if (user.role === "CUSTOMER") {
+    if (entity === "customers") return { field: "id", value: user.id };
+    return CUSTOMER_KEYED.includes(entity)
+      ? { field: "customerId", value: user.id }
+      : "none";
+  }
+  if (entity === "notifications") return { field: "userId", value: user.id };
+  const assigned = getAssignedStores(user);
+  return assigned && STORE_KEYED.includes(entity)
+    ? { field: "store", value: assigned }
+    : "all";
+};
@@ -0,0 +1,332 @@
+import { supabase } from "@/lib/supabaseClient";
+import type { DataBackend, EntityName } from "./dataRepository";
+import { Customer, SupabaseTicket, Ticket } from "../types";
+import { fromSupabaseTicket, toSupabaseTicket } from "./ticketMapper";
+import { toTrackedTicket } from "./ticketAudit";
+
+// Tables whose rows carry a timestamp column to sort by.
+const ORDERED_ENTITIES: Partial<Record<EntityName, string>> = {
+  tickets: "created_at",
+  users: "created_at",
+  laptop_reports: "created_at",
+  notifications: "created_at",
+  quotations: "updated_at",
+  invoices: "issued_at",
+  payments: "recorded_at",
+  stock_movements: "created_at",
+  purchase_orders: "created_at",
+  device_transfers: "sent_at",
+  intake_photos: "taken_at",
+  devices: "registered_at",
+  warranties: "issued_at",
+  warranty_claims: "opened_at",
+  brand_payouts: "recorded_at",
+  customer_messages: "sent_at",
+};
+
+// --- ROW MAPPING ---
+// Supabase columns are snake_case; the app types are camelCase. Only the
+// top level is converted, nested JSON columns are stored as-is.
+
+const toSnake = (key: string) =>
+  key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+const toCamel = (key: string) =>
+  key.replace(/_([a-z0-9])/g, (_m, c: string) => c.toUpperCase());
+
+const toRow = (item: Record<string, any>) => {
+  const row: Record<string, any> = {};
+  Object.entries(item).forEach(([key, value]) => {
+    if (value !== undefined) row[toSnake(key)] = value;
+  });
+  return row;
+};
+
+const fromRow = (row: Record<string, any>): any => {
+  const item: Record<string, any> = {};
+  Object.entries(row).forEach(([key, value]) => {
+    item[toCamel(key)] = value;
+  });
+  return item;
+};
+
+// Ticket fields a status move may change (see saveTicket).
+const STATUS_FIELDS = ["status", "holdReason", "estimatedAmount", "history"];
+
+// A ticket write that lost a race with another one: the history guard
+// (ticket_history_guard migration) or a duplicate key on insert. writeTicket
+// reads the ticket again and retries.
+const CONFLICT_CODES = ["40001", "23505"];
+const MAX_TICKET_WRITE_ATTEMPTS = 3;
+
+// Ticket display IDs are the legacy table's primary key.
+const toColumn = (entity: EntityName, field: string) =>
+  entity === "tickets" && field === "ticketId" ? "id" : toSnake(field);
+
+const fail = (entity: string, action: string, error: { message: string }) =>
+  new Error(`Supabase ${action} on "${entity}" failed: ${error.message}`);
+
+// Tickets use the legacy `tickets` table layout (see ticketMapper). The
+// customer fields the app shows on a ticket live in `customers`, so they are
+// joined in after each read.
+const hydrateTickets = async (rows: SupabaseTicket[]): Promise<Ticket[]> => {
+  const customerIds = Array.from(new Set(rows.map((r) => r.customer_id)));
+  const customers = new Map<string, Customer>();
+
+  if (customerIds.length > 0) {
+    const { data, error } = await supabase
+      .from("customers")
+      .select("*")
+      .in("id", customerIds);
+    if (error) throw fail("customers", "list", error);
+    (data || []).forEach((c) => customers.set(c.id, fromRow(c)));
+  }
+
+  return rows.map((row) => fromSupabaseTicket(row, customers.get(row.customer_id)));
+};
+
+const encode = (entity: EntityName, item: Record<string, any>) =>
+  entity === "tickets"
+    ? toSupabaseTicket({ id: "", ...item } as Ticket)
+    : toRow(item);
+
+const decode = async (entity: EntityName, rows: Record<string, any>[]) =>
+  entity === "tickets"
+    ? hydrateTickets(rows as SupabaseTicket[])
+    : rows.map(fromRow);
+
+// Stores `after` over the stored `before` and returns the error, if any.
+// Ticket columns don't line up 1:1 with Ticket fields, so the whole ticket is
+// re-encoded. The display ID is the row's key, so an existing row keeps `id`
+// whatever `after` says. Status moves go through `update_ticket_status`
+// (store_scope migration), the only ticket update customers are allowed. The
+// legacy tickets table is the only one with a timestamptz `updated_at`; the
+// other tables either have none or an epoch-ms `updated_at` the services set
+// themselves.
+const saveTicket = async (id: string, before: Ticket | null, after: Ticket) => {
+  const row = encode("tickets", after);
+  if (!before) {
+    return (await supabase.from("tickets").insert([row])).error;
+  }
+
+  const changed = Object.keys({ ...before, ...after }).filter(
+    (f) =>
+      f !== "ticketId" &&
+      JSON.stringify(before[f as keyof Ticket]) !==
+        JSON.stringify(after[f as keyof Ticket])
+  );
+  if (changed.every((f) => STATUS_FIELDS.includes(f))) {
+    const { error } = await supabase.rpc("update_ticket_status", {
+      p_ticket_id: id,
+      p_status: row.status,
+      p_hold_reason: row.hold_reason,
+      p_amount_estimate: row.amount_estimate,
+      p_history: row.history ?? [],
+    });
+    return error;
+  }
+
+  const { error } = await supabase
+    .from("tickets")
+    .update({ ...row, id, updated_at: new Date().toISOString() })
+    .eq("id", id);
+  return error;
+};
+
+// P0001: the database functions' own messages.
+const ticketWriteError = (error: { code?: string; message: string }) =>
+  error.code === "P0001"
+    ? new Error(error.message)
+    : fail("tickets", "update", error);
+
+export const supabaseBackend: DataBackend = {
+  name: "supabase",
+
+  async list(entity) {
+    let request = supabase.from(entity).select("*");
+    const orderField = ORDERED_ENTITIES[entity];
+    if (orderField) request = request.order(orderField, { ascending: false });
+
+    const { data, error } = await request;
+    if (error) throw fail(entity, "list", error);
+    return (await decode(entity, data || [])) as any;
+  },
+
+  async get(entity, id) {
+    const { data, error } = await supabase
+      .from(entity)
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) throw fail(entity, "get", error);
+    return data ? ((await decode(entity, [data]))[0] as any) : null;
+  },
+
+  async findBy(entity, field, value) {
+    const column = toColumn(entity, field);
+    const request = supabase.from(entity).select("*");
+    const { data, error } = await (Array.isArray(value)
+      ? request.in(column, value)
+      : request.eq(column, value));
+    if (error) throw fail(entity, "findBy", error);
+    return (await decode(entity, data || [])) as any;
+  },
+
+  async create(entity, data) {
+    const { data: inserted, error } = await supabase
+      .from(entity)
+      .insert([encode(entity, data as Record<string, any>)])
+      .select()
+      .single();
+    if (error) throw fail(entity, "insert", error);
+    return (await decode(entity, [inserted]))[0] as any;
+  },
+
+  async upsert(entity, item) {
+    const { error } = await supabase
+      .from(entity)
+      .upsert(encode(entity, item as Record<string, any>));
+    if (error) throw fail(entity, "upsert", error);
+  },
+
+  async update(entity, id, patch) {
+    const { id: _ignored, ...rest } = patch as Record<string, any>;
+
+    if (entity === "tickets") {
+      const current = await supabaseBackend.get("tickets", id);
+      if (!current) throw new Error(`Ticket "${id}" not found`);
+      const error = await saveTicket(id, current, { ...current, ...rest });
+      if (error) throw ticketWriteError(error);
+      return;
+    }
+
+    // Invoices only ever change to void, which `void_invoice` (store scope
+    // hardening migration) does; staff cannot update the table itself.
+    if (entity === "invoices") {
+      if (rest.status !== "Void") {
+        throw new Error("Issued invoices can only be voided.");
+      }
+      const { error } = await supabase.rpc("void_invoice", {
+        p_invoice_id: id,
+        p_void_reason: rest.voidReason ?? "",
+      });
+      if (error) throw ticketWriteError(error);
+      return;
+    }
+
+    const { error } = await supabase
+      .from(entity)
+      .update(toRow(rest))
+      .eq("id", id);
+    if (error) throw fail(entity, "update", error);
+  },
+
+  async remove(entity, id) {
+    const { error } = await supabase.from(entity).delete().eq("id", id);
+    if (error) throw fail(entity, "delete", error);
+  },
+
+  // Backed by the `next_counter_value` function (supabase/migrations), which
+  // increments in a single statement. The `counters` table is closed to
+  // clients, so the function also works out the seed on the server.
+  async nextSequence(name) {
+    const { data, error } = await supabase.rpc("next_counter_value", {
+      p_name: name,
+    });
+    if (error) throw fail("counters", "increment", error);
+    return Number(data);
+  },
+
+  // `add_stock_movement` (stock_levels migration) checks and moves the
+  // running stock in a single update before adding the movement.
+  async addStockMovement(movement) {
+    const { id: _ignored, ...rest } = movement as Record<string, any>;
+    const { data, error } = await supabase.rpc("add_stock_movement", {
+      p_movement: toRow(rest),
+    });
+    if (error) throw fail("stock_movements", "insert", error);
+    return data ? fromRow(data) : null;
+  },
+
+  // No transactions from the browser: a write that lost a race is refused
+  // by the database (CONFLICT_CODES) and worked out again.
+  async writeTicket(id, change) {
+    for (let attempt = 1; ; attempt++) {
+      const before = await supabaseBackend.get("tickets", id);
+      const after = await change(before);
+      if (!after) return null;
+      const error = await saveTicket(id, before, after);
+      if (!error) return { before, after };
+      if (
+        !CONFLICT_CODES.includes(error.code) ||
+        attempt >= MAX_TICKET_WRITE_ATTEMPTS
+      ) {
+        throw ticketWriteError(error);
+      }
+    }
+  },
+
+  // `track_ticket` (supabase/migrations) matches the mobile, counts misses
+  // and strips internal columns on the server; anonymous visitors cannot
+  // read `tickets` directly.
+  async trackTicket(ticketId, mobileLast4) {
+    const { data, error } = await supabase.rpc("track_ticket", {
+      p_ticket_id: ticketId,
+      p_last4: mobileLast4,
+    });
+    // P0001: the function's own messages (bad input, too many attempts)
+    if (error?.code === "P0001") throw new Error(error.message);
+    if (error) throw fail("tickets", "track", error);
+    return data
+      ? toTrackedTicket(fromSupabaseTicket(data as SupabaseTicket))
+      : null;
+  },
+
+  // Realtime only tells us *that* a table changed, so refetch the list.
+  subscribe(entity, onData, onError) {
+    const refresh = () =>
+      supabaseBackend
+        .list(entity)
+        .then(onData)
+        .catch((err) => onError?.(err));
+
+    refresh();
+    const channel = supabase
+      .channel(`repo-${entity}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: entity }, refresh)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
+  subscribeBy(entity, field, value, onData, onError) {
+    const column = toColumn(entity, field);
+    const refresh = () =>
+      supabaseBackend
+        .findBy(entity, field, value)
+        .then(onData)
+        .catch((err) => onError?.(err));
+
+    // Lists are not filtered on the channel: any change to the table
+    // refetches, and findBy (with row level security) picks the rows.
+    refresh();
+    const channel = supabase
+      .channel(`repo-${entity}-${column}-${value}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: entity,
+          ...(Array.isArray(value) ? {} : { filter: `${column}=eq.${value}` }),
+        },
+        refresh
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+};
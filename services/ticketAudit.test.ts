@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { TicketHistory } from "../types";
+import {
+  appendAuditEntry,
+  describeChange,
+  diffTickets,
+  getCustomerTimeline,
+  setAuditActor,
+  verifyAuditChain,
+} from "./ticketAudit";
+
+// A log of three chained entries.
+const buildLog = async () => {
+  let log = await appendAuditEntry([], [], {
+    action: "Ticket Created",
+    details: "Ticket created by Asha.",
+  });
+  log = await appendAuditEntry(
+    log,
+    diffTickets({ status: "New" }, { status: "In Progress" })
+  );
+  log = await appendAuditEntry(
+    log,
+    diffTickets({ progressNote: "" }, { progressNote: "Board swapped" })
+  );
+  return log;
+};
+
+const legacyEntry: TicketHistory = {
+  id: "legacy-1",
+  date: "1/2/2025 10:00:00 AM",
+  timestamp: 1735800000000,
+  actorName: "Asha",
+  actorRole: "TECHNICIAN",
+  action: "Status Change",
+  details: "Changed from New to In Progress",
+};
+
+afterEach(() => setAuditActor(null));
+
+describe("diffTickets", () => {
+  it("treats empty values alike and skips bookkeeping fields", () => {
+    assert.deepEqual(
+      diffTickets(
+        { holdReason: "", billNumber: undefined, status: "New", history: [] },
+        { holdReason: null as any, billNumber: "B-1", history: [legacyEntry] }
+      ),
+      [
+        { field: "billNumber", from: null, to: "B-1" },
+        { field: "status", from: "New", to: null },
+      ]
+    );
+  });
+
+  it("hides internal values in the summary", () => {
+    assert.equal(
+      describeChange({ field: "status", from: "New", to: "On Hold" }),
+      "Status: New → On Hold"
+    );
+    assert.equal(
+      describeChange({ field: "progressNote", from: null, to: "Board" }),
+      "Internal Note updated"
+    );
+  });
+});
+
+describe("appendAuditEntry", () => {
+  it("chains each entry to the previous one", async () => {
+    const log = await buildLog();
+    assert.equal(log.length, 3);
+    assert.equal(log[0].prevHash, "GENESIS");
+    assert.equal(log[1].prevHash, log[0].hash);
+    assert.equal(log[2].prevHash, log[1].hash);
+    assert.match(log[2].hash!, /^[0-9a-f]{64}$/);
+  });
+
+  it("records the actor, derived action and reason", async () => {
+    setAuditActor({ name: "Ravi", role: "MANAGER" });
+    const [entry] = await appendAuditEntry(
+      [],
+      diffTickets({ store: "Ukhra" }, { store: "Asansol" }),
+      { reason: "Closer to the customer" }
+    );
+    assert.equal(entry.actorName, "Ravi");
+    assert.equal(entry.actorRole, "MANAGER");
+    assert.equal(entry.action, "Store Transfer");
+    assert.equal(
+      entry.details,
+      "Store: Ukhra → Asansol. Reason: Closer to the customer"
+    );
+  });
+});
+
+describe("verifyAuditChain", () => {
+  it("verifies an untouched log", async () => {
+    assert.equal((await verifyAuditChain(await buildLog())).status, "verified");
+  });
+
+  it("accepts legacy entries before the first hashed one", async () => {
+    const log = await appendAuditEntry([legacyEntry], [], {
+      action: "Note Added",
+      details: "Called the customer.",
+    });
+    assert.equal((await verifyAuditChain(log)).status, "verified");
+    assert.equal((await verifyAuditChain([legacyEntry])).status, "legacy");
+  });
+
+  it("finds an edited entry", async () => {
+    const log = await buildLog();
+    log[1] = { ...log[1], details: "Status: New → Resolved" };
+    assert.deepEqual(await verifyAuditChain(log), {
+      status: "broken",
+      brokenAt: 1,
+      message: "Entry 2 was modified after it was recorded.",
+    });
+  });
+
+  it("finds a removed entry", async () => {
+    const log = await buildLog();
+    const result = await verifyAuditChain([log[0], log[2]]);
+    assert.equal(result.status, "broken");
+    assert.equal(result.brokenAt, 1);
+  });
+
+  it("finds an unhashed entry after the chain started", async () => {
+    const log = await buildLog();
+    const result = await verifyAuditChain([...log, legacyEntry]);
+    assert.equal(result.status, "broken");
+    assert.equal(result.brokenAt, 3);
+    assert.equal(result.message, "Entry 4 was added outside the audit log.");
+  });
+});
+
+describe("getCustomerTimeline", () => {
+  it("keeps customer-facing changes and actions only", async () => {
+    setAuditActor({ name: "Asha", role: "TECHNICIAN" });
+    const timeline = getCustomerTimeline(await buildLog());
+    assert.deepEqual(
+      timeline.map((e) => [e.action, e.details, e.actorName]),
+      [
+        ["Ticket Created", "Service request received.", ""],
+        ["Status Change", "Status: New → In Progress", ""],
+      ]
+    );
+    assert.equal("hash" in timeline[0], false);
+  });
+});
@@ -0,0 +1,288 @@
+import { FieldChange, Ticket, TicketHistory, TrackedTicket } from "../types";
+
+// Central ticket audit log. Every ticket write made through the repository
+// diffs the old and new values and appends one entry to `ticket.history`.
+// Entries are hash-chained (each stores the previous entry's hash), so an
+// edited, removed or inserted entry breaks verification.
+
+// --- ACTOR ---
+
+export interface AuditActor {
+  name: string;
+  role: string;
+}
+
+const SYSTEM_ACTOR: AuditActor = { name: "System", role: "SYSTEM" };
+let currentActor: AuditActor = SYSTEM_ACTOR;
+
+// Set once per session (App does this on login / logout).
+export const setAuditActor = (actor: AuditActor | null) => {
+  currentActor = actor ? { name: actor.name, role: actor.role } : SYSTEM_ACTOR;
+};
+
+export const getAuditActor = () => currentActor;
+
+// Optional extra context a caller can attach to a write.
+export interface AuditContext {
+  action?: string; // overrides the derived action, e.g. "Approved"
+  details?: string; // overrides the generated summary
+  reason?: string; // appended as "Reason: ..."
+}
+
+// --- DIFF ---
+
+// Bookkeeping fields that change on their own and are not audited.
+const IGNORED_FIELDS = ["id", "history", "createdAt", "updatedAt", "resolvedAt"];
+
+// Values customers must not see in the portal timeline; the summary only
+// says they changed (the values are still kept in `changes`).
+const INTERNAL_FIELDS = ["progressNote", "progressReason"];
+
+export const FIELD_LABELS: Record<string, string> = {
+  ticketId: "Ticket ID",
+  customerId: "Customer",
+  name: "Customer Name",
+  number: "Mobile",
+  email: "Email",
+  address: "Address",
+  deviceType: "Device Type",
+  brand: "Brand",
+  brandService: "Service Brand",
+  model: "Model",
+  serial: "Serial",
+  chargerIncluded: "Charger",
+  deviceDescription: "Device Description",
+  store: "Store",
+  status: "Status",
+  priority: "Priority",
+  issueDescription: "Issue",
+  estimatedAmount: "Estimate",
+  holdReason: "Hold Reason",
+  progressReason: "Internal Progress",
+  progressNote: "Internal Note",
+  warranty: "Warranty",
+  billNumber: "Bill Number",
+  assignedToId: "Assigned To",
+  scheduledDate: "Scheduled Date",
+  intake: "Intake Checklist",
+  deviceId: "Device",
+  repeatRepair: "Repeat Repair",
+  brandJob: "Brand Job",
+};
+
+// "", null and undefined all mean "not set".
+const normalize = (value: unknown) =>
+  value === undefined || value === null || value === "" ? null : value;
+
+export const diffTickets = (
+  before: Partial<Ticket>,
+  after: Partial<Ticket>
+): FieldChange[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: FieldChange[] = [];
+
+  fields.forEach((field) => {
+    if (IGNORED_FIELDS.includes(field)) return;
+    const from = normalize((before as any)[field]);
+    const to = normalize((after as any)[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  });
+  return changes;
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null) return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+export const describeChange = ({ field, from, to }: FieldChange) => {
+  const label = FIELD_LABELS[field] ?? field;
+  const length = formatValue(from).length + formatValue(to).length;
+  if (INTERNAL_FIELDS.includes(field) || length > 80) {
+    return `${label} updated`;
+  }
+  return `${label}: ${formatValue(from)} → ${formatValue(to)}`;
+};
+
+// Matches the action names the timeline views already understand.
+const deriveAction = (changes: FieldChange[]) => {
+  const changed = (field: string) => changes.some((c) => c.field === field);
+  if (changed("store")) return "Store Transfer";
+  if (changed("status")) return "Status Change";
+  return "Ticket Updated";
+};
+
+// --- HASH CHAIN ---
+
+const GENESIS_HASH = "GENESIS";
+
+// JSON with sorted keys so the same entry always hashes the same way.
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((k) => (value as any)[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson((value as any)[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const sha256 = async (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+const hashEntry = ({ hash: _hash, ...entry }: TicketHistory) =>
+  sha256(canonicalJson(entry));
+
+// Appends a chained entry describing `changes` (and/or the context).
+export const appendAuditEntry = async (
+  history: TicketHistory[] | undefined,
+  changes: FieldChange[],
+  context: AuditContext = {}
+): Promise<TicketHistory[]> => {
+  const log = history || [];
+  const now = new Date();
+  const summary = context.details ?? changes.map(describeChange).join("; ");
+
+  const entry: TicketHistory = {
+    id: now.getTime().toString() + Math.random().toString().slice(2, 5),
+    date: now.toLocaleDateString() + " " + now.toLocaleTimeString(),
+    timestamp: now.getTime(),
+    actorName: currentActor.name,
+    actorRole: currentActor.role,
+    action: context.action ?? deriveAction(changes),
+    details: context.reason
+      ? `${summary}${summary ? ". " : ""}Reason: ${context.reason}`
+      : summary,
+    changes,
+    prevHash: log[log.length - 1]?.hash ?? GENESIS_HASH,
+  };
+  entry.hash = await hashEntry(entry);
+  return [...log, entry];
+};
+
+// --- VERIFICATION ---
+
+export interface AuditVerification {
+  status: "verified" | "legacy" | "broken";
+  brokenAt?: number; // index into history of the first bad entry
+  message: string;
+}
+
+// Walks the log in stored order. Entries written before the audit log existed
+// have no hash and are accepted only before the first hashed entry.
+export const verifyAuditChain = async (
+  history: TicketHistory[] | undefined
+): Promise<AuditVerification> => {
+  const log = history || [];
+  let previousHash = GENESIS_HASH;
+  let sawHashed = false;
+
+  const broken = (index: number, message: string): AuditVerification => ({
+    status: "broken",
+    brokenAt: index,
+    message,
+  });
+
+  for (let i = 0; i < log.length; i++) {
+    const entry = log[i];
+
+    if (!entry.hash) {
+      if (sawHashed) {
+        return broken(i, `Entry ${i + 1} was added outside the audit log.`);
+      }
+      continue;
+    }
+
+    if (entry.prevHash !== previousHash) {
+      return broken(i, `An entry before entry ${i + 1} is missing or was changed.`);
+    }
+    if ((await hashEntry(entry)) !== entry.hash) {
+      return broken(i, `Entry ${i + 1} was modified after it was recorded.`);
+    }
+
+    sawHashed = true;
+    previousHash = entry.hash;
+  }
+
+  if (!sawHashed) {
+    return {
+      status: "legacy",
+      message: "No verifiable entries (recorded before audit logging).",
+    };
+  }
+  return { status: "verified", message: "Audit log is complete and unmodified." };
+};
+
+// --- CUSTOMER VIEW ---
+
+// Audited fields a customer may see the values of.
+const CUSTOMER_FIELDS = [
+  "status",
+  "store",
+  "holdReason",
+  "estimatedAmount",
+  "scheduledDate",
+];
+
+// Entries without field changes that customers are told about, and the text
+// they see instead of the entry's own details (which may name staff, parts
+// or internal reasons).
+const CUSTOMER_ACTIONS: Record<string, string> = {
+  "Ticket Created": "Service request received.",
+  Approved: "Service request accepted.",
+  "Quote Sent": "A quote is ready for your approval.",
+  "Invoice Issued": "Invoice issued.",
+  "Repair Warranty Issued": "Warranty issued for this repair.",
+};
+
+// Entries without field changes are kept only for CUSTOMER_ACTIONS, with
+// that text. Others keep only their customer-facing changes, and are dropped
+// when nothing is left. Actor names and hashes are never shown.
+export const getCustomerTimeline = (
+  history: TicketHistory[] | undefined
+): TicketHistory[] =>
+  (history || []).flatMap((entry) => {
+    const base = {
+      id: entry.id,
+      date: entry.date,
+      timestamp: entry.timestamp,
+      actorName: "",
+      actorRole: "",
+      action: entry.action,
+    };
+    if (!entry.changes || entry.changes.length === 0) {
+      const details = CUSTOMER_ACTIONS[entry.action];
+      return details ? [{ ...base, details }] : [];
+    }
+    const changes = entry.changes.filter((c) =>
+      CUSTOMER_FIELDS.includes(c.field)
+    );
+    if (changes.length === 0) return [];
+    return [{ ...base, details: changes.map(describeChange).join("; "), changes }];
+  });
+
+// What public tracking shows of a ticket.
+export const toTrackedTicket = (ticket: Ticket): TrackedTicket => ({
+  ticketId: ticket.ticketId,
+  date: ticket.date,
+  device:
+    [ticket.brand, ticket.model].filter(Boolean).join(" ") || ticket.deviceType,
+  store: ticket.store,
+  status: ticket.status,
+  holdReason: ticket.holdReason,
+  issueDescription: ticket.issueDescription,
+  estimatedAmount: ticket.estimatedAmount || 0,
+  scheduledDate: ticket.scheduledDate,
+  history: getCustomerTimeline(ticket.history),
+});
@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Ticket } from "../types";
+import { supabaseTickets } from "../migration/supabaseTickets";
+import {
+  fromSupabaseTicket,
+  normalizeSupabaseTicket,
+  toSupabaseTicket,
+} from "./ticketMapper";
+
+const STORES = [
+  "DGP Showroom",
+  "DGP Shop",
+  "Asansol",
+  "Ukhra",
+  "Service Center",
+];
+const STATUSES = [
+  "New",
+  "In Progress",
+  "On Hold",
+  "Resolved",
+  "Rejected",
+  "Pending Approval",
+];
+const LEGACY_STATUSES: Record<string, string> = {
+  HOLD: "On Hold",
+  "Internal Progress": "In Progress",
+  "SERVICE DONE": "Resolved",
+  Delivery: "Resolved",
+};
+
+const customer = {
+  name: "Sujal",
+  mobile: "9749799039",
+  email: "sujal@infofix.com",
+  address: "Durgapur",
+};
+
+// fromSupabaseTicket spells out every optional field, unset ones as undefined.
+const defined = (ticket: Ticket) =>
+  Object.fromEntries(
+    Object.entries(ticket).filter(([, value]) => value !== undefined)
+  );
+
+describe("row -> app -> row", () => {
+  for (const row of supabaseTickets) {
+    it(row.id, () => {
+      const ticket = fromSupabaseTicket(row);
+      const back = toSupabaseTicket(ticket);
+
+      // Status: known statuses take the app spelling, old ones are mapped.
+      const known = STATUSES.find(
+        (s) => s.toLowerCase() === row.status.trim().toLowerCase()
+      );
+      assert.equal(ticket.status, known ?? LEGACY_STATUSES[row.status.trim()]);
+      assert.equal(back.status, ticket.status);
+
+      // Store: legacy uppercase names resolve to the configured name and are
+      // written back that way.
+      assert.ok(STORES.includes(ticket.store), ticket.store);
+      assert.equal(ticket.store.toUpperCase(), row.store.trim().toUpperCase());
+      assert.equal(back.store, ticket.store);
+
+      // Dates
+      const created = new Date(row.created_at).getTime();
+      assert.equal(new Date(ticket.createdAt as string).getTime(), created);
+      assert.equal(ticket.date, new Date(created).toISOString().slice(0, 10));
+      assert.equal(new Date(back.created_at).getTime(), created);
+      if (row.resolved_at) {
+        assert.equal(
+          new Date(back.resolved_at!).getTime(),
+          new Date(row.resolved_at).getTime()
+        );
+      } else {
+        assert.equal(back.resolved_at, null);
+      }
+
+      // Amounts
+      assert.equal(ticket.estimatedAmount, Number(row.amount_estimate) || 0);
+      assert.equal(back.amount_estimate, ticket.estimatedAmount);
+
+      // The round trip lands on the canonical row, and stays there.
+      assert.deepEqual(back, normalizeSupabaseTicket(row));
+      assert.deepEqual(toSupabaseTicket(fromSupabaseTicket(back)), back);
+    });
+  }
+});
+
+describe("app -> row -> app", () => {
+  const ticket: Ticket = {
+    id: "TKT-AS-042",
+    ticketId: "TKT-AS-042",
+    customerId: "CUST-009",
+    name: customer.name,
+    number: customer.mobile,
+    email: customer.email,
+    address: customer.address,
+    date: "2025-12-01",
+    deviceType: "Laptop",
+    brand: "Dell",
+    model: "Latitude 7440",
+    serial: "5CD1234XYZ",
+    chargerIncluded: true,
+    store: "Asansol",
+    status: "On Hold",
+    priority: "High",
+    issueDescription: "No display",
+    estimatedAmount: 2450.5,
+    holdReason: "Part Pending",
+    progressNote: "Panel ordered",
+    warranty: true,
+    billNumber: "INV-77",
+    assignedToId: "tech-1",
+    scheduledDate: "2025-12-05",
+    createdAt: "2025-12-01T08:35:29.870Z",
+    resolvedAt: "2025-12-06T11:00:00.000Z",
+  };
+
+  it("keeps every field", () => {
+    const row = toSupabaseTicket(ticket);
+    assert.equal(row.store, "Asansol");
+    assert.equal(row.status, "On Hold");
+    assert.equal(row.amount_estimate, 2450.5);
+    assert.equal(row.created_at, "2025-12-01T08:35:29.870Z");
+    assert.deepEqual(defined(fromSupabaseTicket(row, customer)), ticket);
+  });
+
+  it("keeps stores that are not in the default list", () => {
+    const custom = { ...ticket, store: "Kolkata Hub" };
+    assert.equal(toSupabaseTicket(custom).store, "Kolkata Hub");
+    assert.deepEqual(
+      defined(fromSupabaseTicket(toSupabaseTicket(custom), customer)),
+      custom
+    );
+  });
+
+  it("resolves store casing against the configured stores", () => {
+    const row = toSupabaseTicket({ ...ticket, store: "KOLKATA HUB" });
+    const options = { stores: [...STORES, "Kolkata Hub"] };
+    assert.equal(
+      fromSupabaseTicket(row, customer, options).store,
+      "Kolkata Hub"
+    );
+  });
+});
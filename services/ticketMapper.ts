@@ -0,0 +1,335 @@
+import { Ticket, SupabaseTicket, StoredDate } from "../types";
+
+// Converts between the app's `Ticket` and the legacy Supabase `tickets` row.
+//
+// Canonical Supabase form (what `toSupabaseTicket` emits and
+// `normalizeSupabaseTicket` produces):
+//   - yes/no columns are "YES" / "NO" (charger_status may be null = unknown)
+//   - device.type and priority are UPPERCASE
+//   - store is the configured store name ("SERVICE CENTER" -> "Service
+//     Center"), so it matches Store.name, User.stores and RLS as-is
+//   - status uses the app's spelling ("NEW" -> "New"), and statuses of the
+//     old app become workflow ones ("SERVICE DONE" -> "Resolved")
+//   - timestamps are full ISO strings, scheduled_date is YYYY-MM-DD
+//   - strings are trimmed and empty strings become null / omitted
+
+// --- DEFAULTS ---
+
+const DEFAULT_DEVICE_TYPES = [
+  "Smartphone",
+  "Laptop",
+  "Desktop",
+  "Brand Service",
+  "Accessory",
+  "CCTV",
+  "Other",
+];
+const DEFAULT_STATUSES = [
+  "New",
+  "In Progress",
+  "On Hold",
+  "Resolved",
+  "Rejected",
+  "Pending Approval",
+];
+const DEFAULT_PRIORITIES = ["Low", "Medium", "High"];
+const DEFAULT_STORES = [
+  "DGP Showroom",
+  "DGP Shop",
+  "Asansol",
+  "Ukhra",
+  "Service Center",
+];
+
+export interface TicketMappingOptions {
+  deviceTypes?: string[];
+  statuses?: string[];
+  priorities?: string[];
+  stores?: string[];
+}
+
+// Denormalized customer fields copied onto the ticket for display.
+// Accepts both app customers (`mobile`) and legacy Supabase ones (`phone`).
+export interface TicketCustomerInfo {
+  name?: string;
+  email?: string;
+  address?: string;
+  mobile?: string;
+  phone?: string;
+}
+
+// --- NORMALISATION RULES ---
+
+const clean = (value: unknown): string | undefined => {
+  if (value === null || value === undefined) return undefined;
+  const trimmed = String(value).trim();
+  return trimmed === "" ? undefined : trimmed;
+};
+
+const titleCase = (value: string) =>
+  value.toLowerCase().replace(/\b([a-z])/g, (c) => c.toUpperCase());
+
+// Case-insensitive match against a list of known names, keeping the known
+// spelling. Unknown values fall back to `fallback(value)`.
+const matchKnown = (
+  value: string,
+  known: string[],
+  fallback: (value: string) => string = (v) => v
+) =>
+  known.find((k) => k.toLowerCase() === value.toLowerCase()) ??
+  fallback(value);
+
+const YES_VALUES = ["yes", "y", "true", "1"];
+const NO_VALUES = ["no", "n", "false", "0"];
+
+// "YES" / "Yes" / true -> true, "NO" / false -> false, null / "" -> undefined
+export const parseYesNo = (value: unknown): boolean | undefined => {
+  if (typeof value === "boolean") return value;
+  const text = clean(value)?.toLowerCase();
+  if (text === undefined) return undefined;
+  if (YES_VALUES.includes(text)) return true;
+  if (NO_VALUES.includes(text)) return false;
+  return undefined;
+};
+
+export const formatYesNo = (value: boolean): "YES" | "NO" =>
+  value ? "YES" : "NO";
+
+export const normalizeDeviceType = (
+  value: unknown,
+  known: string[] = DEFAULT_DEVICE_TYPES
+): string => {
+  const text = clean(value);
+  return text ? matchKnown(text, known, titleCase) : "Other";
+};
+
+// Statuses the old app used that the workflow has no transitions for.
+const LEGACY_STATUSES: Record<string, string> = {
+  hold: "On Hold",
+  "internal progress": "In Progress", // details in internal_progress_*
+  "service done": "Resolved",
+  delivery: "Resolved",
+};
+
+export const normalizeStatus = (
+  value: unknown,
+  known: string[] = DEFAULT_STATUSES
+): string => {
+  const text = clean(value);
+  return text
+    ? matchKnown(text, known, (v) => LEGACY_STATUSES[v.toLowerCase()] ?? v)
+    : "New";
+};
+
+export const normalizePriority = (
+  value: unknown,
+  known: string[] = DEFAULT_PRIORITIES
+): string => {
+  const text = clean(value);
+  return text ? matchKnown(text, known, titleCase) : "Medium";
+};
+
+// Older rows were written with the store uppercased.
+export const normalizeStore = (
+  value: unknown,
+  known: string[] = DEFAULT_STORES
+): string => {
+  const text = clean(value);
+  return text ? matchKnown(text, known) : "";
+};
+
+// Reads ISO strings, Date objects and Firestore Timestamps alike.
+export const parseStoredDate = (value: StoredDate | Date | null | undefined) => {
+  if (!value) return null;
+  const date =
+    typeof value === "string"
+      ? new Date(value)
+      : value instanceof Date
+      ? value
+      : value.toDate();
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const toIsoString = (value: StoredDate | Date | null | undefined) =>
+  parseStoredDate(value)?.toISOString() ?? null;
+
+const toDateOnly = (value: StoredDate | Date | null | undefined) =>
+  toIsoString(value)?.slice(0, 10) ?? null;
+
+// --- SUPABASE -> APP ---
+
+export const fromSupabaseTicket = (
+  row: SupabaseTicket,
+  customer?: TicketCustomerInfo | null,
+  options: TicketMappingOptions = {}
+): Ticket => {
+  const createdAt = toIsoString(row.created_at) ?? undefined;
+  const device = row.device || { type: "" };
+
+  return {
+    id: row.id,
+    ticketId: row.id,
+
+    customerId: row.customer_id,
+    name: customer?.name ?? "",
+    number: customer?.mobile ?? customer?.phone ?? "",
+    email: customer?.email ?? "",
+    address: customer?.address ?? "",
+    date: createdAt ? createdAt.slice(0, 10) : "",
+
+    deviceType: normalizeDeviceType(device.type, options.deviceTypes),
+    brand: clean(device.brand),
+    brandService: clean(device.brandService),
+    model: clean(device.model),
+    serial: clean(device.serialNumber),
+    chargerIncluded: parseYesNo(row.charger_status),
+    deviceDescription: clean(device.description),
+
+    store: normalizeStore(row.store, options.stores),
+    status: normalizeStatus(row.status, options.statuses),
+    priority: normalizePriority(row.priority, options.priorities),
+    issueDescription: row.subject ?? "",
+    estimatedAmount: Number(row.amount_estimate) || 0,
+
+    holdReason: clean(row.hold_reason),
+    progressReason: clean(row.internal_progress_reason),
+    progressNote: clean(row.internal_progress_note),
+
+    warranty: parseYesNo(row.warranty) ?? false,
+    billNumber: clean(row.bill_number),
+
+    assignedToId: clean(row.assigned_to),
+    scheduledDate: toDateOnly(clean(row.scheduled_date)) ?? undefined,
+
+    createdAt,
+    resolvedAt: toIsoString(row.resolved_at) ?? undefined,
+
+    intake: row.intake ?? undefined,
+    deviceId: clean(row.device_id),
+    repeatRepair: row.repeat_repair ?? undefined,
+    brandJob: row.brand_job ?? undefined,
+    history: row.history ?? undefined,
+  };
+};
+
+// --- APP -> SUPABASE ---
+
+export const toSupabaseTicket = (
+  ticket: Ticket,
+  options: TicketMappingOptions = {}
+): SupabaseTicket => {
+  const deviceType = normalizeDeviceType(
+    ticket.deviceType,
+    options.deviceTypes
+  );
+
+  const device: SupabaseTicket["device"] = { type: deviceType.toUpperCase() };
+  const brand = clean(ticket.brand);
+  const brandService = clean(ticket.brandService);
+  const model = clean(ticket.model);
+  const serialNumber = clean(ticket.serial);
+  const description = clean(ticket.deviceDescription);
+  if (brand) device.brand = brand;
+  if (brandService) device.brandService = brandService;
+  if (model) device.model = model;
+  if (serialNumber) device.serialNumber = serialNumber;
+  if (description) device.description = description;
+
+  const row: SupabaseTicket = {
+    id: clean(ticket.ticketId) ?? ticket.id,
+    customer_id: ticket.customerId,
+
+    subject: ticket.issueDescription ?? "",
+    status: normalizeStatus(ticket.status, options.statuses),
+
+    hold_reason: clean(ticket.holdReason) ?? null,
+    priority: normalizePriority(
+      ticket.priority,
+      options.priorities
+    ).toUpperCase(),
+    assigned_to: clean(ticket.assignedToId) ?? null,
+
+    created_at: toIsoString(ticket.createdAt ?? ticket.date) ?? "",
+    resolved_at: toIsoString(ticket.resolvedAt),
+
+    device,
+
+    charger_status:
+      ticket.chargerIncluded === undefined
+        ? null
+        : formatYesNo(ticket.chargerIncluded),
+    store: normalizeStore(ticket.store, options.stores),
+
+    amount_estimate: Number(ticket.estimatedAmount) || 0,
+    warranty: formatYesNo(!!ticket.warranty),
+
+    bill_number: clean(ticket.billNumber) ?? null,
+    scheduled_date: toDateOnly(clean(ticket.scheduledDate)),
+    internal_progress_reason: clean(ticket.progressReason) ?? null,
+    internal_progress_note: clean(ticket.progressNote) ?? null,
+  };
+
+  if (ticket.intake) row.intake = ticket.intake;
+  if (ticket.deviceId) row.device_id = ticket.deviceId;
+  if (ticket.repeatRepair) row.repeat_repair = ticket.repeatRepair;
+  if (ticket.brandJob) row.brand_job = ticket.brandJob;
+  if (ticket.history) row.history = ticket.history;
+  return row;
+};
+
+// Brings a raw Supabase row (e.g. from an export) into canonical form
+// column by column, without going through the app type. A round trip through
+// the app type must land on the same row:
+//   toSupabaseTicket(fromSupabaseTicket(row)) deep-equals
+//   normalizeSupabaseTicket(row)
+export const normalizeSupabaseTicket = (
+  row: SupabaseTicket,
+  options: TicketMappingOptions = {}
+): SupabaseTicket => {
+  const source = row.device || { type: "" };
+  const device: SupabaseTicket["device"] = {
+    type: normalizeDeviceType(source.type, options.deviceTypes).toUpperCase(),
+  };
+  (
+    ["brand", "brandService", "model", "serialNumber", "description"] as const
+  ).forEach((key) => {
+    const value = clean(source[key]);
+    if (value) device[key] = value;
+  });
+
+  const charger = parseYesNo(row.charger_status);
+  const normalized: SupabaseTicket = {
+    id: clean(row.id) ?? row.id,
+    customer_id: row.customer_id,
+
+    subject: row.subject ?? "",
+    status: normalizeStatus(row.status, options.statuses),
+
+    hold_reason: clean(row.hold_reason) ?? null,
+    priority: normalizePriority(row.priority, options.priorities).toUpperCase(),
+    assigned_to: clean(row.assigned_to) ?? null,
+
+    created_at: toIsoString(row.created_at) ?? "",
+    resolved_at: toIsoString(row.resolved_at),
+
+    device,
+
+    charger_status: charger === undefined ? null : formatYesNo(charger),
+    store: normalizeStore(row.store, options.stores),
+
+    amount_estimate: Number(row.amount_estimate) || 0,
+    warranty: formatYesNo(parseYesNo(row.warranty) ?? false),
+
+    bill_number: clean(row.bill_number) ?? null,
+    scheduled_date: toDateOnly(clean(row.scheduled_date)),
+    internal_progress_reason: clean(row.internal_progress_reason) ?? null,
+    internal_progress_note: clean(row.internal_progress_note) ?? null,
+  };
+
+  if (row.intake) normalized.intake = row.intake;
+  if (clean(row.device_id)) normalized.device_id = clean(row.device_id);
+  if (row.repeat_repair) normalized.repeat_repair = row.repeat_repair;
+  if (row.brand_job) normalized.brand_job = row.brand_job;
+  if (row.history) normalized.history = row.history;
+  return normalized;
+};
@@ -0,0 +1,76 @@
+import { Store, Ticket } from "../types";
+import { getDataBackend, NewEntity, repository } from "./dataRepository";
+import { AuditContext } from "./ticketAudit";
+import { describeRepeatRepair, linkNewTicket } from "./deviceRegistry";
+
+// Display IDs keep the historical format: TKT-<store code>-<number>, e.g.
+// TKT-IF-008. Each store code has its own counter, incremented atomically by
+// the active backend, so two tickets can never receive the same ID.
+
+// Stores without a code share the original "IF" sequence.
+export const LEGACY_TICKET_CODE = "IF";
+
+export const getStoreCode = (storeName: string, stores: Store[]) => {
+  const store = stores.find((s) => s.name === storeName);
+  return store?.ticketCode?.trim().toUpperCase() || LEGACY_TICKET_CODE;
+};
+
+export const getTicketPrefix = (storeName: string, stores: Store[]) =>
+  `TKT-${getStoreCode(storeName, stores)}`;
+
+export const formatTicketId = (prefix: string, sequence: number) =>
+  `${prefix}-${String(sequence).padStart(3, "0")}`;
+
+const parseSequence = (ticketId: string, prefix: string) => {
+  const match = ticketId.match(/^(.*)-(\d+)$/);
+  return match && match[1] === prefix ? Number(match[2]) : null;
+};
+
+// Highest number already issued under `prefix`. Only used the first time a
+// counter is created, so existing (e.g. imported) tickets are never reused.
+const highestIssued = async (prefix: string) => {
+  const tickets = await repository.tickets.list();
+  return tickets.reduce(
+    (max, t) => Math.max(max, parseSequence(t.ticketId ?? "", prefix) ?? 0),
+    0
+  );
+};
+
+export const nextTicketId = async (storeName: string, stores: Store[]) => {
+  const prefix = getTicketPrefix(storeName, stores);
+  const sequence = await getDataBackend().nextSequence(`ticket-${prefix}`, () =>
+    highestIssued(prefix)
+  );
+  return formatTicketId(prefix, sequence);
+};
+
+// Every ticket creation path goes through here so IDs are always issued by
+// the counter, never built on the client. Tickets with a serial are linked
+// to the device registry and flagged when the device is back soon.
+export const createTicket = async (
+  data: Omit<NewEntity<"tickets">, "ticketId">,
+  stores: Store[],
+  context?: AuditContext
+): Promise<Ticket> => {
+  const ticketId = await nextTicketId(data.store, stores);
+  const link = await linkNewTicket(data);
+  const repeatNote = link.repeatRepair
+    ? describeRepeatRepair(link.repeatRepair)
+    : "";
+  return repository.tickets.create(
+    { ...data, ...link, ticketId },
+    repeatNote && !context?.details
+      ? { ...context, details: `Ticket created at ${data.store}. ${repeatNote}` }
+      : context
+  );
+};
+
+// Portal requests created before sequential IDs carry a temporary
+// `REQ-<timestamp>` ID; they get a real one when approved.
+export const isTemporaryTicketId = (ticketId: string) =>
+  ticketId.startsWith("REQ-");
+
+// Where the display ID is also the ticket's key (the Supabase tickets table),
+// other rows point at it, so the temporary ID is kept.
+export const needsTicketId = (ticket: Ticket) =>
+  isTemporaryTicketId(ticket.ticketId) && ticket.ticketId !== ticket.id;
@@ -0,0 +1,196 @@
+import { jsPDF } from "jspdf";
+import { Ticket } from "../types";
+import { isIntakeProblem } from "./intakeEngine";
+import { drawQrCode } from "./qrCode";
+
+// Check-in printouts besides the customer's intake receipt
+// (intakeReceiptPdf): an A4 job card that travels with the device, and a
+// sticker label for the device itself. Every printout carries a QR code of
+// the ticket's deep link, which opens the ticket in the staff app.
+
+export const getTicketLink = (ticket: Pick<Ticket, "id">) =>
+  `${window.location.origin}${window.location.pathname}#/ticket/${ticket.id}`;
+
+const describeDevice = (ticket: Ticket) =>
+  [ticket.brand, ticket.model].filter(Boolean).join(" ") ||
+  ticket.deviceDescription ||
+  ticket.deviceType;
+
+// --- JOB CARD ---
+
+export const downloadJobCard = (ticket: Ticket, technicianName?: string) => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 14;
+  const right = pageWidth - margin;
+  const qrSize = 36;
+  let y = 20;
+
+  // Header with the QR code on the right
+  drawQrCode(doc, getTicketLink(ticket), right - qrSize, 10, qrSize);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.setTextColor(67, 56, 202); // Indigo-700
+  doc.text("JOB CARD", margin, y);
+  y += 9;
+  doc.setFontSize(22);
+  doc.setTextColor(0);
+  doc.text(ticket.ticketId, margin, y);
+  y += 7;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.setTextColor(80);
+  doc.text(`${ticket.store} · Booked ${ticket.date}`, margin, y);
+  y += 5;
+  doc.text(
+    `Priority: ${ticket.priority} · Status: ${ticket.status}${
+      ticket.warranty ? " · WARRANTY" : ""
+    }`,
+    margin,
+    y
+  );
+  y = Math.max(y, 10 + qrSize) + 4;
+  doc.setDrawColor(200);
+  doc.line(margin, y, right, y);
+
+  const field = (label: string, value: string, x: number, width: number) => {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text(label.toUpperCase(), x, y);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    doc.setTextColor(0);
+    const lines = doc.splitTextToSize(value || "-", width);
+    doc.text(lines, x, y + 5);
+    return lines.length;
+  };
+
+  // Customer / device grid
+  const half = (right - margin) / 2;
+  y += 8;
+  field("Customer", `${ticket.name}\n${ticket.number}`, margin, half - 4);
+  field(
+    "Device",
+    `${ticket.deviceType}: ${describeDevice(ticket)}${
+      ticket.serial ? `\nSerial: ${ticket.serial}` : ""
+    }`,
+    margin + half,
+    half
+  );
+  y += 18;
+  field("Technician", technicianName || "Unassigned", margin, half - 4);
+  field(
+    "Estimate",
+    ticket.estimatedAmount
+      ? `Rs. ${ticket.estimatedAmount.toLocaleString("en-IN")}`
+      : "-",
+    margin + half,
+    half
+  );
+  y += 14;
+  const issueLines = field(
+    "Reported Issue",
+    ticket.issueDescription,
+    margin,
+    right - margin
+  );
+  y += 8 + issueLines * 5;
+
+  // What came in with the device
+  if (ticket.intake) {
+    const received = ticket.intake.results
+      .filter((r) => r.answer === "Received")
+      .map((r) => r.label);
+    const problems = ticket.intake.results
+      .filter((r) => isIntakeProblem(r.answer))
+      .map((r) => `${r.label}: ${r.answer}${r.note ? ` (${r.note})` : ""}`);
+    const lines = field(
+      "Received With Device",
+      received.join(", ") || "Device only",
+      margin,
+      right - margin
+    );
+    y += 8 + lines * 5;
+    if (problems.length > 0) {
+      const noted = field(
+        "Noted At Check-in",
+        problems.join("; "),
+        margin,
+        right - margin
+      );
+      y += 8 + noted * 5;
+    }
+  }
+
+  // Workspace for the technician
+  const box = (title: string, height: number) => {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text(title.toUpperCase(), margin, y);
+    doc.setDrawColor(200);
+    doc.rect(margin, y + 2, right - margin, height);
+    y += height + 10;
+  };
+  box("Diagnosis & Work Done", 50);
+  box("Parts Used", 28);
+
+  // QC sign-off
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  doc.setTextColor(60);
+  ["Powers on", "Issue fixed", "Accessories returned", "Cleaned"].forEach(
+    (check, i) => {
+      const x = margin + i * 45;
+      doc.rect(x, y - 3, 3.5, 3.5);
+      doc.text(check, x + 5.5, y);
+    }
+  );
+  y += 18;
+  doc.setDrawColor(150);
+  doc.line(margin, y, margin + 70, y);
+  doc.line(right - 70, y, right, y);
+  y += 5;
+  doc.text("Technician", margin, y);
+  doc.text("QC checked by", right - 70, y);
+
+  doc.save(`JobCard_${ticket.ticketId}.pdf`);
+};
+
+// --- DEVICE LABEL ---
+
+// Sized for 62 × 29 mm die-cut labels.
+const LABEL_WIDTH = 62;
+const LABEL_HEIGHT = 29;
+
+export const downloadDeviceLabel = (ticket: Ticket) => {
+  const doc = new jsPDF({
+    orientation: "landscape",
+    unit: "mm",
+    format: [LABEL_HEIGHT, LABEL_WIDTH],
+  });
+  const qrSize = LABEL_HEIGHT - 2;
+  drawQrCode(doc, getTicketLink(ticket), 1, 1, qrSize);
+
+  const x = qrSize + 1;
+  const width = LABEL_WIDTH - x - 2;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(10);
+  doc.setTextColor(0);
+  doc.text(doc.splitTextToSize(ticket.ticketId, width)[0], x, 7);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(7);
+  [
+    ticket.name,
+    describeDevice(ticket),
+    ticket.serial ? `S/N ${ticket.serial}` : "",
+    `${ticket.store} · ${ticket.date}`,
+  ]
+    .filter(Boolean)
+    .forEach((line, i) => {
+      doc.text(doc.splitTextToSize(line, width)[0], x, 12 + i * 3.6);
+    });
+
+  doc.save(`Label_${ticket.ticketId}.pdf`);
+};
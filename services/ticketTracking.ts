@@ -0,0 +1,42 @@
+import { TrackedTicket } from "../types";
+import { getDataBackend } from "./dataRepository";
+
+// Public tracking without an account: a visitor enters the ticket ID and the
+// last 4 digits of the mobile on the ticket and sees its status and a
+// customer-safe timeline (toTrackedTicket). The mobile is matched and misses
+// are counted on the server, so repeated guessing locks the lookup: in the
+// track_ticket function on Supabase, and in the `track-ticket` Edge Function
+// on Firestore.
+
+// Hash route of the tracking page, e.g. #/track/TKT-IF-174
+const TRACK_ROUTE = /^#\/track(?:\/(.*))?$/;
+
+export const isTrackingRoute = (hash: string = window.location.hash) =>
+  TRACK_ROUTE.test(hash);
+
+// Ticket ID to fill in, if the link carries one.
+export const getTrackedTicketId = (hash: string = window.location.hash) =>
+  decodeURIComponent(hash.match(TRACK_ROUTE)?.[1] ?? "");
+
+export const getTrackingLink = (ticketId?: string) =>
+  `${window.location.origin}${window.location.pathname}#/track${
+    ticketId ? `/${encodeURIComponent(ticketId)}` : ""
+  }`;
+
+// --- LOOKUP ---
+
+// Resolves with null when nothing matches; throws for bad input and while
+// the lookup is locked after too many misses.
+export const trackTicket = async (
+  ticketId: string,
+  mobileLast4: string
+): Promise<TrackedTicket | null> => {
+  const id = ticketId.trim().toUpperCase();
+  const last4 = mobileLast4.trim();
+  if (!id || !/^\d{4}$/.test(last4)) {
+    throw new Error(
+      "Enter the ticket ID and the last 4 digits of your mobile number."
+    );
+  }
+  return getDataBackend().trackTicket(id, last4);
+};
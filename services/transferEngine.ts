@@ -0,0 +1,269 @@
+import {
+  DeviceTransfer,
+  Store,
+  Ticket,
+  TransferDestination,
+  User,
+} from "../types";
+import { repository } from "./dataRepository";
+import { can } from "./permissionEngine";
+import { getStoreId } from "./inventoryEngine";
+import { parseStoredDate } from "./ticketMapper";
+
+// Inter-store and vendor transfers. A ticket's device is "out" while it has
+// a transfer that is not yet Returned; only one can be open at a time.
+// Every step is also written to the ticket's history.
+
+const assertCanTransfer = (user: User) => {
+  if (!can(user, "device.transfer")) {
+    throw new Error(
+      "You don't have permission to move devices between locations."
+    );
+  }
+};
+
+export const isOutTransfer = (transfer: DeviceTransfer) =>
+  transfer.status !== "Returned";
+
+export const getOpenTransfer = (
+  transfers: DeviceTransfer[],
+  ticketId: string
+) => transfers.find((t) => t.ticketId === ticketId && isOutTransfer(t)) ?? null;
+
+const storeName = (stores: Store[], id?: string) =>
+  stores.find((s) => s.id === id)?.name ?? "Unknown store";
+
+export const describeDestination = (
+  transfer: Pick<DeviceTransfer, "destination" | "toStoreId" | "vendorName">,
+  stores: Store[]
+) =>
+  transfer.destination === "Vendor"
+    ? transfer.vendorName || "Vendor"
+    : storeName(stores, transfer.toStoreId);
+
+// Past the expected return date and still out.
+export const isOverdueTransfer = (
+  transfer: DeviceTransfer,
+  now: number = Date.now()
+) => {
+  if (!isOutTransfer(transfer) || !transfer.expectedBackDate) return false;
+  return new Date(`${transfer.expectedBackDate}T23:59:59`).getTime() < now;
+};
+
+// --- DEVICES OUT BOARD ---
+
+export interface DevicesOutGroup {
+  store: Store;
+  transfers: DeviceTransfer[]; // oldest first
+}
+
+// Open transfers grouped by the store the device left. Stores with nothing
+// out are left off.
+export const getDevicesOut = (
+  transfers: DeviceTransfer[],
+  stores: Store[]
+): DevicesOutGroup[] =>
+  stores
+    .map((store) => ({
+      store,
+      transfers: transfers
+        .filter((t) => isOutTransfer(t) && t.fromStoreId === store.id)
+        .sort((a, b) => a.sentAt - b.sentAt),
+    }))
+    .filter((group) => group.transfers.length > 0);
+
+// --- CHAIN OF CUSTODY ---
+
+export interface CustodyEvent {
+  at: number;
+  kind: "booked" | "sent" | "arrived" | "returned";
+  title: string;
+  details?: string;
+  by?: string;
+}
+
+// Oldest first: where the ticket was booked in, then each leg out and back.
+export const getCustodyTimeline = (
+  ticket: Pick<Ticket, "id" | "store" | "createdAt" | "date">,
+  transfers: DeviceTransfer[],
+  stores: Store[]
+): CustodyEvent[] => {
+  const events: CustodyEvent[] = [];
+  const booked = parseStoredDate(ticket.createdAt) ?? parseStoredDate(ticket.date);
+  if (booked) {
+    events.push({
+      at: booked.getTime(),
+      kind: "booked",
+      title: `Booked in at ${ticket.store}`,
+    });
+  }
+
+  transfers
+    .filter((t) => t.ticketId === ticket.id)
+    .forEach((t) => {
+      const from = storeName(stores, t.fromStoreId);
+      const to = describeDestination(t, stores);
+      events.push({
+        at: t.sentAt,
+        kind: "sent",
+        title: `Sent from ${from} to ${to}`,
+        details: [`Carried by ${t.carriedBy}`, t.reason]
+          .filter(Boolean)
+          .join(" · "),
+        by: t.sentBy,
+      });
+      if (t.arrivedAt) {
+        events.push({
+          at: t.arrivedAt,
+          kind: "arrived",
+          title: `Arrived at ${to}`,
+          by: t.arrivedBy,
+        });
+      }
+      if (t.returnedAt) {
+        events.push({
+          at: t.returnedAt,
+          kind: "returned",
+          title: `Back at ${from}`,
+          details: [
+            t.returnCarriedBy && `Carried by ${t.returnCarriedBy}`,
+            t.returnNote,
+          ]
+            .filter(Boolean)
+            .join(" · "),
+          by: t.returnedBy,
+        });
+      }
+    });
+
+  return events.sort((a, b) => a.at - b.at);
+};
+
+// --- ACTIONS ---
+
+export interface TransferDraft {
+  destination: TransferDestination;
+  toStoreId?: string;
+  vendorName?: string;
+  carriedBy: string;
+  reason?: string;
+  expectedBackDate?: string;
+}
+
+export const sendDevice = async (
+  ticket: Ticket,
+  draft: TransferDraft,
+  transfers: DeviceTransfer[],
+  stores: Store[],
+  user: User,
+  now: number = Date.now()
+): Promise<DeviceTransfer> => {
+  assertCanTransfer(user);
+  const open = getOpenTransfer(transfers, ticket.id);
+  if (open) {
+    throw new Error(
+      `This device is already out at ${describeDestination(open, stores)}.`
+    );
+  }
+  const fromStoreId = getStoreId(ticket.store, stores);
+  if (!fromStoreId) throw new Error(`Unknown store "${ticket.store}".`);
+  if (draft.destination === "Store") {
+    if (!draft.toStoreId) throw new Error("Choose the destination store.");
+    if (draft.toStoreId === fromStoreId) {
+      throw new Error("The device is already at this store.");
+    }
+  } else if (!draft.vendorName?.trim()) {
+    throw new Error("Enter the vendor's name.");
+  }
+  if (!draft.carriedBy.trim()) {
+    throw new Error("Enter who is carrying the device.");
+  }
+
+  const fields = {
+    ticketId: ticket.id,
+    ticketNumber: ticket.ticketId,
+    fromStoreId,
+    destination: draft.destination,
+    toStoreId: draft.destination === "Store" ? draft.toStoreId : undefined,
+    vendorName:
+      draft.destination === "Vendor" ? draft.vendorName.trim() : undefined,
+    reason: draft.reason?.trim() || undefined,
+    carriedBy: draft.carriedBy.trim(),
+    expectedBackDate: draft.expectedBackDate || undefined,
+    status: "In Transit" as const,
+    sentAt: now,
+    sentBy: user.name,
+  };
+  const transfer = await repository.deviceTransfers.create(fields);
+  await repository.tickets.update(
+    ticket.id,
+    {},
+    {
+      action: "Device Sent Out",
+      details: `Sent from ${ticket.store} to ${describeDestination(
+        fields,
+        stores
+      )}, carried by ${fields.carriedBy}.`,
+      reason: fields.reason,
+    }
+  );
+  return transfer;
+};
+
+export const markArrived = async (
+  transfer: DeviceTransfer,
+  stores: Store[],
+  user: User,
+  now: number = Date.now()
+): Promise<void> => {
+  assertCanTransfer(user);
+  if (transfer.status !== "In Transit") {
+    throw new Error("This transfer is not in transit.");
+  }
+  await repository.deviceTransfers.update(transfer.id, {
+    status: "At Destination",
+    arrivedAt: now,
+    arrivedBy: user.name,
+  });
+  await repository.tickets.update(
+    transfer.ticketId,
+    {},
+    {
+      action: "Device Arrived",
+      details: `Arrived at ${describeDestination(transfer, stores)}.`,
+    }
+  );
+};
+
+export const markReturned = async (
+  transfer: DeviceTransfer,
+  returnCarriedBy: string,
+  note: string,
+  stores: Store[],
+  user: User,
+  now: number = Date.now()
+): Promise<void> => {
+  assertCanTransfer(user);
+  if (!isOutTransfer(transfer)) {
+    throw new Error("This device has already been returned.");
+  }
+  await repository.deviceTransfers.update(transfer.id, {
+    status: "Returned",
+    returnedAt: now,
+    returnedBy: user.name,
+    returnCarriedBy: returnCarriedBy.trim() || undefined,
+    returnNote: note.trim() || undefined,
+  });
+  await repository.tickets.update(
+    transfer.ticketId,
+    {},
+    {
+      action: "Device Returned",
+      details: `Back at ${storeName(
+        stores,
+        transfer.fromStoreId
+      )} from ${describeDestination(transfer, stores)}.`,
+      reason: note.trim() || undefined,
+    }
+  );
+};
@@ -0,0 +1,471 @@
+import {
+  AppSettings,
+  Brand,
+  Part,
+  Ticket,
+  User,
+  WarrantyClaim,
+  WarrantyClaimStatus,
+  WarrantyConfig,
+  WarrantyRecord,
+  WarrantyRule,
+} from "../types";
+import { repository } from "./dataRepository";
+import { can } from "./permissionEngine";
+import { formatQuoteAmount } from "./quotationEngine";
+import { withDefaults } from "./settingsDefaults";
+
+// Warranties. Brand warranties are registered against a device from its
+// purchase bill, using the coverage rules in Settings → Warranty. The shop's
+// own repair warranty is issued automatically when a ticket is resolved.
+// In-warranty brand jobs are claimed back from the brand through
+// Draft → Submitted → Approved / Rejected → Reimbursed; every step is
+// recorded in the ticket's history.
+
+export const DEFAULT_WARRANTY_CONFIG: WarrantyConfig = {
+  repairDays: 90,
+  repairTerms:
+    "Covers the same fault on the parts replaced and the work done. Physical or liquid damage after delivery is not covered.",
+  rules: [],
+};
+
+export const getWarrantyConfig = (settings: Pick<AppSettings, "warranty">) =>
+  withDefaults(settings.warranty, DEFAULT_WARRANTY_CONFIG);
+
+// --- DATES ---
+
+const toDateOnly = (date: Date) => date.toISOString().slice(0, 10);
+
+export const todayDate = (now: number = Date.now()) => toDateOnly(new Date(now));
+
+// Last covered day of a warranty that starts on `start`.
+export const addMonths = (start: string, months: number) => {
+  const date = new Date(`${start}T00:00:00Z`);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  // Clamp to the month's last day (e.g. 31 Jan + 1 month → 28/29 Feb)
+  const lastDay = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+  date.setUTCDate(date.getUTCDate() - 1);
+  return toDateOnly(date);
+};
+
+export const addDays = (start: string, days: number) => {
+  const date = new Date(`${start}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days - 1);
+  return toDateOnly(date);
+};
+
+// --- COVERAGE ---
+
+export const isWarrantyActive = (
+  record: WarrantyRecord,
+  today: string = todayDate()
+) => !record.voidedAt && record.startDate <= today && today <= record.endDate;
+
+// The brand a ticket is serviced for: the partner brand on Brand Service
+// jobs, otherwise the device brand.
+export const getTicketBrand = (ticket: Ticket) =>
+  (ticket.brandService || ticket.brand || "").trim();
+
+export const getBrandRules = (
+  config: WarrantyConfig,
+  brands: Brand[],
+  brandName: string
+): WarrantyRule[] => {
+  const brand = brands.find(
+    (b) => b.name.toLowerCase() === brandName.toLowerCase()
+  );
+  return brand ? config.rules.filter((r) => r.brandId === brand.id) : [];
+};
+
+export const describeRule = (
+  rule: WarrantyRule,
+  brands: Brand[],
+  parts: Part[]
+) => {
+  const brand = brands.find((b) => b.id === rule.brandId)?.name ?? "Brand";
+  const part = rule.partId
+    ? parts.find((p) => p.id === rule.partId)?.name
+    : undefined;
+  return `${brand} · ${part ? `${rule.label} (${part})` : rule.label}`;
+};
+
+// Warranties that belong to this ticket's device (or were issued on the
+// ticket itself), active ones first.
+export const getTicketWarranties = (
+  ticket: Ticket,
+  records: WarrantyRecord[],
+  today: string = todayDate()
+) =>
+  records
+    .filter(
+      (r) =>
+        r.ticketId === ticket.id ||
+        (!!ticket.deviceId && r.deviceId === ticket.deviceId)
+    )
+    .sort(
+      (a, b) =>
+        Number(isWarrantyActive(b, today)) -
+          Number(isWarrantyActive(a, today)) || b.issuedAt - a.issuedAt
+    );
+
+// Loads the warranty records relevant to a ticket.
+export const loadTicketWarranties = async (ticket: Ticket) => {
+  const [onTicket, onDevice] = await Promise.all([
+    repository.warranties.findBy("ticketId", ticket.id),
+    ticket.deviceId
+      ? repository.warranties.findBy("deviceId", ticket.deviceId)
+      : Promise.resolve([] as WarrantyRecord[]),
+  ]);
+  const byId = new Map([...onTicket, ...onDevice].map((r) => [r.id, r]));
+  return getTicketWarranties(ticket, [...byId.values()]);
+};
+
+// --- REGISTRATION ---
+
+export interface BrandWarrantyDraft {
+  ruleId: string;
+  startDate: string; // purchase date on the bill
+  billNumber: string;
+}
+
+export const registerBrandWarranty = async (
+  ticket: Ticket,
+  draft: BrandWarrantyDraft,
+  settings: Pick<AppSettings, "warranty" | "serviceBrands">,
+  parts: Part[],
+  user: User,
+  now: number = Date.now()
+): Promise<WarrantyRecord> => {
+  if (!can(user, "warranty.register")) {
+    throw new Error("You don't have permission to register warranties.");
+  }
+  const rule = getWarrantyConfig(settings).rules.find(
+    (r) => r.id === draft.ruleId
+  );
+  if (!rule) throw new Error("Choose a warranty rule.");
+  if (!draft.startDate) throw new Error("Enter the purchase date.");
+  if (draft.startDate > todayDate(now)) {
+    throw new Error("The purchase date cannot be in the future.");
+  }
+  if (rule.billRequired && !draft.billNumber.trim()) {
+    throw new Error("This warranty needs the purchase bill number.");
+  }
+
+  const endDate = addMonths(draft.startDate, rule.months);
+  const brand =
+    settings.serviceBrands.find((b) => b.id === rule.brandId)?.name ?? "";
+  const coverage = describeRule(rule, settings.serviceBrands, parts);
+  const record = await repository.warranties.create({
+    kind: "Brand",
+    deviceId: ticket.deviceId,
+    serial: ticket.serial || undefined,
+    ticketId: ticket.id,
+    ticketNumber: ticket.ticketId,
+    customerId: ticket.customerId,
+    customerName: ticket.name,
+    brand,
+    ruleId: rule.id,
+    coverage,
+    terms:
+      [
+        rule.covers && `Covers: ${rule.covers}`,
+        rule.excludes && `Excludes: ${rule.excludes}`,
+      ]
+        .filter(Boolean)
+        .join(". ") || undefined,
+    billNumber: draft.billNumber.trim() || undefined,
+    startDate: draft.startDate,
+    endDate,
+    issuedAt: now,
+    issuedBy: user.name,
+  });
+
+  // A whole-device warranty also sets the device's warranty expiry
+  if (ticket.deviceId && !rule.partId) {
+    const device = await repository.devices.get(ticket.deviceId);
+    if (device && (device.warrantyExpiry ?? "") < endDate) {
+      await repository.devices.update(device.id, {
+        warrantyExpiry: endDate,
+        billNumber: device.billNumber || record.billNumber,
+        updatedAt: now,
+      });
+    }
+  }
+
+  await repository.tickets.update(
+    ticket.id,
+    {},
+    {
+      action: "Warranty Registered",
+      details: `${coverage} warranty from ${draft.startDate} to ${endDate}.`,
+    }
+  );
+  return record;
+};
+
+// Issues the shop's repair warranty for a resolved ticket, once. Returns
+// null when repair warranties are turned off or one was already issued.
+export const issueRepairWarranty = async (
+  ticket: Ticket,
+  settings: Pick<AppSettings, "warranty">,
+  user: User,
+  now: number = Date.now()
+): Promise<WarrantyRecord | null> => {
+  const config = getWarrantyConfig(settings);
+  if (config.repairDays <= 0) return null;
+  const existing = await repository.warranties.findBy("ticketId", ticket.id);
+  if (existing.some((r) => r.kind === "Repair" && !r.voidedAt)) return null;
+
+  const startDate = todayDate(now);
+  const endDate = addDays(startDate, config.repairDays);
+  const device =
+    [ticket.brand, ticket.model].filter(Boolean).join(" ") || ticket.deviceType;
+  const record = await repository.warranties.create({
+    kind: "Repair",
+    deviceId: ticket.deviceId,
+    serial: ticket.serial || undefined,
+    ticketId: ticket.id,
+    ticketNumber: ticket.ticketId,
+    customerId: ticket.customerId,
+    customerName: ticket.name,
+    coverage: `Repair · ${device}`,
+    terms: config.repairTerms.trim() || undefined,
+    startDate,
+    endDate,
+    issuedAt: now,
+    issuedBy: user.name,
+  });
+  await repository.tickets.update(
+    ticket.id,
+    {},
+    {
+      action: "Repair Warranty Issued",
+      details: `${config.repairDays}-day repair warranty, valid until ${endDate}.`,
+    }
+  );
+  return record;
+};
+
+export const voidWarranty = async (
+  record: WarrantyRecord,
+  reason: string,
+  user: User,
+  now: number = Date.now()
+): Promise<void> => {
+  if (!can(user, "warranty.claim.decide")) {
+    throw new Error("You don't have permission to void warranties.");
+  }
+  if (record.voidedAt) throw new Error("This warranty is already void.");
+  if (!reason.trim()) throw new Error("Give a reason for voiding the warranty.");
+  await repository.warranties.update(record.id, {
+    voidedAt: now,
+    voidedBy: user.name,
+    voidReason: reason.trim(),
+  });
+  if (record.ticketId) {
+    await repository.tickets.update(
+      record.ticketId,
+      {},
+      {
+        action: "Warranty Voided",
+        details: `${record.coverage} warranty voided.`,
+        reason: reason.trim(),
+      }
+    );
+  }
+};
+
+// --- CLAIMS ---
+
+export const CLAIM_STATUSES: WarrantyClaimStatus[] = [
+  "Draft",
+  "Submitted",
+  "Approved",
+  "Rejected",
+  "Reimbursed",
+];
+
+// Claims still waiting on the brand (decision or money).
+export const isClaimOpen = (claim: WarrantyClaim) =>
+  claim.status !== "Rejected" && claim.status !== "Reimbursed";
+
+const logClaim = (claim: WarrantyClaim, action: string, details: string) =>
+  repository.tickets.update(
+    claim.ticketId,
+    {},
+    { action, details: `${claim.brand} claim: ${details}` }
+  );
+
+const readAmount = (amount: number, label: string) => {
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error(`Enter a valid ${label}.`);
+  }
+  return Math.round(amount * 100) / 100;
+};
+
+export const openClaim = async (
+  ticket: Ticket,
+  warranty: WarrantyRecord | undefined,
+  claimedAmount: number,
+  notes: string,
+  existing: WarrantyClaim[],
+  user: User,
+  now: number = Date.now()
+): Promise<WarrantyClaim> => {
+  if (!can(user, "warranty.register")) {
+    throw new Error("You don't have permission to open warranty claims.");
+  }
+  if (!ticket.warranty) {
+    throw new Error("Only warranty tickets can be claimed from the brand.");
+  }
+  const brand = warranty?.brand || getTicketBrand(ticket);
+  if (!brand) throw new Error("Set the ticket's brand before claiming.");
+  if (existing.some((c) => c.ticketId === ticket.id && isClaimOpen(c))) {
+    throw new Error("This ticket already has an open claim.");
+  }
+  const claim = await repository.warrantyClaims.create({
+    ticketId: ticket.id,
+    ticketNumber: ticket.ticketId,
+    warrantyId: warranty?.id,
+    brand,
+    serial: ticket.serial || undefined,
+    status: "Draft",
+    claimedAmount: readAmount(claimedAmount, "claim amount"),
+    notes: notes.trim() || undefined,
+    openedAt: now,
+    openedBy: user.name,
+  });
+  await logClaim(
+    claim,
+    "Warranty Claim Opened",
+    `drafted for ${formatQuoteAmount(claim.claimedAmount)}.`
+  );
+  return claim;
+};
+
+export const submitClaim = async (
+  claim: WarrantyClaim,
+  claimNumber: string,
+  user: User,
+  now: number = Date.now()
+): Promise<void> => {
+  if (!can(user, "warranty.register")) {
+    throw new Error("You don't have permission to submit warranty claims.");
+  }
+  if (claim.status !== "Draft") {
+    throw new Error("Only draft claims can be submitted.");
+  }
+  if (!claimNumber.trim()) {
+    throw new Error("Enter the claim number given by the brand.");
+  }
+  await repository.warrantyClaims.update(claim.id, {
+    status: "Submitted",
+    claimNumber: claimNumber.trim(),
+    submittedAt: now,
+    submittedBy: user.name,
+  });
+  await logClaim(
+    claim,
+    "Warranty Claim Submitted",
+    `submitted as ${claimNumber.trim()}.`
+  );
+};
+
+export const decideClaim = async (
+  claim: WarrantyClaim,
+  decision: "Approved" | "Rejected",
+  approvedAmount: number,
+  reason: string,
+  user: User,
+  now: number = Date.now()
+): Promise<void> => {
+  if (!can(user, "warranty.claim.decide")) {
+    throw new Error(
+      "You don't have permission to record the brand's decision."
+    );
+  }
+  if (claim.status !== "Submitted") {
+    throw new Error("Only submitted claims can be approved or rejected.");
+  }
+  if (decision === "Rejected" && !reason.trim()) {
+    throw new Error("Enter the brand's reason for rejecting the claim.");
+  }
+  const amount =
+    decision === "Approved" ? readAmount(approvedAmount, "approved amount") : 0;
+  await repository.warrantyClaims.update(claim.id, {
+    status: decision,
+    ...(decision === "Approved"
+      ? { approvedAmount: amount }
+      : { rejectionReason: reason.trim() }),
+    decidedAt: now,
+    decidedBy: user.name,
+  });
+  await logClaim(
+    claim,
+    `Warranty Claim ${decision}`,
+    decision === "Approved"
+      ? `${claim.claimNumber} approved for ${formatQuoteAmount(amount)}.`
+      : `${claim.claimNumber} rejected: ${reason.trim()}`
+  );
+};
+
+export const recordReimbursement = async (
+  claim: WarrantyClaim,
+  amount: number,
+  reference: string,
+  user: User,
+  now: number = Date.now()
+): Promise<void> => {
+  if (!can(user, "warranty.claim.decide")) {
+    throw new Error("You don't have permission to record reimbursements.");
+  }
+  if (claim.status !== "Approved") {
+    throw new Error("Only approved claims can be reimbursed.");
+  }
+  const reimbursed = readAmount(amount, "reimbursed amount");
+  await repository.warrantyClaims.update(claim.id, {
+    status: "Reimbursed",
+    reimbursedAmount: reimbursed,
+    reimbursementRef: reference.trim() || undefined,
+    reimbursedAt: now,
+    reimbursedBy: user.name,
+  });
+  await logClaim(
+    claim,
+    "Warranty Claim Reimbursed",
+    `${formatQuoteAmount(reimbursed)} received for ${claim.claimNumber}${
+      reference.trim() ? ` (ref ${reference.trim()})` : ""
+    }.`
+  );
+};
+
+export interface ClaimSummary {
+  awaitingDecision: number; // submitted claims
+  awaitingPayment: number; // amount approved but not yet reimbursed
+  reimbursed: number; // amount received
+  shortfall: number; // claimed minus received, on reimbursed claims
+}
+
+export const getClaimSummary = (claims: WarrantyClaim[]): ClaimSummary =>
+  claims.reduce(
+    (sum, claim) => {
+      if (claim.status === "Submitted") sum.awaitingDecision += 1;
+      if (claim.status === "Approved") {
+        sum.awaitingPayment += claim.approvedAmount ?? 0;
+      }
+      if (claim.status === "Reimbursed") {
+        sum.reimbursed += claim.reimbursedAmount ?? 0;
+        sum.shortfall += Math.max(
+          0,
+          claim.claimedAmount - (claim.reimbursedAmount ?? 0)
+        );
+      }
+      return sum;
+    },
+    { awaitingDecision: 0, awaitingPayment: 0, reimbursed: 0, shortfall: 0 }
+  );
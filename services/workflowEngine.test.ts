@@ -0,0 +1,152 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { WorkflowConfig } from "../types";
+import {
+  DEFAULT_WORKFLOW,
+  getAllowedStatuses,
+  getRequiredFields,
+  renameWorkflowStatus,
+  validateTransition,
+} from "./workflowEngine";
+
+describe("validateTransition", () => {
+  it("allows staying in the same status", () => {
+    assert.equal(validateTransition("New", "New", "CUSTOMER", {}), null);
+  });
+
+  it("allows a listed move for the role", () => {
+    assert.equal(
+      validateTransition("New", "In Progress", "TECHNICIAN", {}),
+      null
+    );
+  });
+
+  it("refuses a move with no rule", () => {
+    assert.equal(
+      validateTransition("New", "Resolved", "ADMIN", { billNumber: "B-1" }),
+      'A ticket cannot move from "New" to "Resolved".'
+    );
+  });
+
+  it("refuses a role the rule does not list", () => {
+    assert.equal(
+      validateTransition("Resolved", "In Progress", "TECHNICIAN", {
+        reason: "Came back",
+      }),
+      "Your role (TECHNICIAN) is not allowed to move a ticket from " +
+        '"Resolved" to "In Progress".'
+    );
+  });
+
+  it("names the required fields that are missing", () => {
+    assert.equal(
+      validateTransition("In Progress", "On Hold", "TECHNICIAN", {
+        holdReason: "  ",
+      }),
+      'Moving to "On Hold" requires: Hold Reason.'
+    );
+    assert.equal(
+      validateTransition("In Progress", "On Hold", "TECHNICIAN", {
+        holdReason: "Parts",
+      }),
+      null
+    );
+  });
+
+  it("treats zero amounts as missing", () => {
+    const workflow: WorkflowConfig = {
+      ...DEFAULT_WORKFLOW,
+      transitions: [
+        {
+          id: "q",
+          from: "New",
+          to: "Quoted",
+          roles: ["MANAGER"],
+          requiredFields: ["estimatedAmount"],
+        },
+      ],
+    };
+    assert.equal(
+      validateTransition(
+        "New",
+        "Quoted",
+        "MANAGER",
+        { estimatedAmount: 0 },
+        workflow
+      ),
+      'Moving to "Quoted" requires: Estimated Amount.'
+    );
+  });
+
+  it("prefers a specific rule over an any-status rule", () => {
+    // w16 lets customers decline a held quote; w7 (any status) does not.
+    assert.equal(
+      validateTransition("On Hold", "Rejected", "CUSTOMER", {
+        reason: "Too dear",
+      }),
+      null
+    );
+    assert.match(
+      validateTransition("In Progress", "Rejected", "CUSTOMER", {
+        reason: "Too dear",
+      })!,
+      /not allowed/
+    );
+  });
+
+  it("uses the default workflow when none is saved", () => {
+    assert.equal(
+      validateTransition("New", "In Progress", "TECHNICIAN", {}, null),
+      null
+    );
+  });
+});
+
+describe("getAllowedStatuses", () => {
+  it("lists the current status and the role's moves", () => {
+    assert.deepEqual(getAllowedStatuses("On Hold", "CUSTOMER"), [
+      "On Hold",
+      "In Progress",
+      "Rejected",
+    ]);
+    assert.deepEqual(getAllowedStatuses("Resolved", "TECHNICIAN"), [
+      "Resolved",
+    ]);
+  });
+});
+
+describe("getRequiredFields", () => {
+  it("reads the rule's fields, and needs nothing when the status stays", () => {
+    assert.deepEqual(getRequiredFields("On Hold", "On Hold"), []);
+    assert.deepEqual(getRequiredFields("In Progress", "Resolved"), [
+      "billNumber",
+    ]);
+  });
+});
+
+describe("renameWorkflowStatus", () => {
+  it("renames the status everywhere it is used", () => {
+    const renamed = renameWorkflowStatus(
+      DEFAULT_WORKFLOW,
+      "On Hold",
+      "Waiting"
+    );
+    assert.equal(renamed.holdStatus, "Waiting");
+    assert.equal(
+      validateTransition(
+        "In Progress",
+        "Waiting",
+        "TECHNICIAN",
+        { holdReason: "Parts" },
+        renamed
+      ),
+      null
+    );
+    assert.equal(
+      renamed.transitions.some(
+        (t) => t.from === "On Hold" || t.to === "On Hold"
+      ),
+      false
+    );
+  });
+});
@@ -0,0 +1,186 @@
+import {
+  Role,
+  Ticket,
+  TransitionField,
+  WorkflowConfig,
+  WorkflowTransition,
+} from "../types";
+import { withDefaults } from "./settingsDefaults";
+
+// Decides which status changes are allowed, for whom, and what must be
+// filled in first. The definition itself lives in AppSettings.workflow and is
+// edited in Settings → Workflow. CUSTOMER appears only on the moves a
+// customer makes by answering a quotation.
+
+export const ANY_STATUS = "*";
+
+const STAFF: Role[] = ["ADMIN", "MANAGER", "TECHNICIAN"];
+const SUPERVISORS: Role[] = ["ADMIN", "MANAGER"];
+const CUSTOMER: Role = "CUSTOMER";
+
+const rule = (
+  id: string,
+  from: string,
+  to: string,
+  roles: Role[],
+  requiredFields: TransitionField[] = []
+): WorkflowTransition => ({ id, from, to, roles, requiredFields });
+
+export const DEFAULT_WORKFLOW: WorkflowConfig = {
+  initialStatus: "New",
+  holdStatus: "On Hold",
+  resolvedStatus: "Resolved",
+  terminalStatuses: ["Resolved", "Rejected"],
+  transitions: [
+    rule("w1", "New", "In Progress", STAFF),
+    rule("w2", "New", "On Hold", STAFF, ["holdReason"]),
+    rule("w3", "In Progress", "On Hold", STAFF, ["holdReason"]),
+    rule("w4", "On Hold", "In Progress", [...STAFF, CUSTOMER]),
+    rule("w5", "In Progress", "Resolved", STAFF, ["billNumber"]),
+    rule("w6", "On Hold", "Resolved", STAFF, ["billNumber"]),
+    rule("w7", ANY_STATUS, "Rejected", SUPERVISORS, ["reason"]),
+    rule("w16", "On Hold", "Rejected", [...SUPERVISORS, CUSTOMER], ["reason"]),
+    rule("w8", "Pending Approval", "New", SUPERVISORS),
+    rule("w11", "Pending Approval", "Rejected", SUPERVISORS),
+    rule("w9", "Resolved", "In Progress", SUPERVISORS, ["reason"]),
+    rule("w10", "Rejected", "New", SUPERVISORS, ["reason"]),
+    // Statuses used before the workflow existed (imported tickets); the
+    // Supabase mapper converts them, these move tickets already imported.
+    rule("w12", "HOLD", "On Hold", STAFF, ["holdReason"]),
+    rule("w13", "Internal Progress", "In Progress", STAFF),
+    rule("w14", "SERVICE DONE", "Resolved", STAFF, ["billNumber"]),
+    rule("w15", "Delivery", "Resolved", STAFF, ["billNumber"]),
+  ],
+};
+
+export const TRANSITION_FIELD_LABELS: Record<TransitionField, string> = {
+  billNumber: "Bill Number",
+  estimatedAmount: "Estimated Amount",
+  assignedToId: "Assigned Technician",
+  scheduledDate: "Scheduled Date",
+  holdReason: "Hold Reason",
+  reason: "Reason",
+};
+
+// Values the form has when a transition is checked. `reason` is the free-text
+// note (e.g. rejection reason) that goes into the history entry.
+export type TransitionValues = Partial<Record<TransitionField, unknown>>;
+
+// The values of a ticket as it will be after a service's update.
+export const getTicketTransitionValues = (
+  ticket: Partial<Ticket>,
+  reason: string
+): TransitionValues => ({
+  billNumber: ticket.billNumber,
+  estimatedAmount: ticket.estimatedAmount,
+  assignedToId: ticket.assignedToId,
+  scheduledDate: ticket.scheduledDate,
+  holdReason: ticket.holdReason,
+  reason,
+});
+
+const resolve = (workflow?: WorkflowConfig | null) =>
+  withDefaults(workflow, DEFAULT_WORKFLOW);
+
+export const isTerminalStatus = (
+  status: string,
+  workflow?: WorkflowConfig | null
+) => resolve(workflow).terminalStatuses.includes(status);
+
+export const getInitialStatus = (workflow?: WorkflowConfig | null) =>
+  resolve(workflow).initialStatus;
+
+export const getHoldStatus = (workflow?: WorkflowConfig | null) =>
+  resolve(workflow).holdStatus;
+
+export const getResolvedStatus = (workflow?: WorkflowConfig | null) =>
+  resolve(workflow).resolvedStatus ?? DEFAULT_WORKFLOW.resolvedStatus;
+
+// Specific rules win over "any status" rules.
+export const findTransition = (
+  from: string,
+  to: string,
+  workflow?: WorkflowConfig | null
+): WorkflowTransition | undefined => {
+  const transitions = resolve(workflow).transitions.filter((t) => t.to === to);
+  return (
+    transitions.find((t) => t.from === from) ??
+    transitions.find((t) => t.from === ANY_STATUS)
+  );
+};
+
+// Statuses `role` may pick for a ticket currently in `from` (including
+// staying where it is).
+export const getAllowedStatuses = (
+  from: string,
+  role: Role,
+  workflow?: WorkflowConfig | null
+) => {
+  const targets = resolve(workflow)
+    .transitions.filter(
+      (t) => (t.from === from || t.from === ANY_STATUS) && t.to !== from
+    )
+    .filter((t) => findTransition(from, t.to, workflow)?.roles.includes(role))
+    .map((t) => t.to);
+  return Array.from(new Set([from, ...targets]));
+};
+
+export const getRequiredFields = (
+  from: string,
+  to: string,
+  workflow?: WorkflowConfig | null
+): TransitionField[] =>
+  from === to ? [] : findTransition(from, to, workflow)?.requiredFields ?? [];
+
+const isBlank = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "") ||
+  (typeof value === "number" && value <= 0);
+
+// Returns a message explaining why the move is not allowed, or null if it is.
+export const validateTransition = (
+  from: string,
+  to: string,
+  role: Role,
+  values: TransitionValues,
+  workflow?: WorkflowConfig | null
+): string | null => {
+  if (from === to) return null;
+
+  const transition = findTransition(from, to, workflow);
+  if (!transition) {
+    return `A ticket cannot move from "${from}" to "${to}".`;
+  }
+  if (!transition.roles.includes(role)) {
+    return `Your role (${role}) is not allowed to move a ticket from "${from}" to "${to}".`;
+  }
+
+  const missing = transition.requiredFields.filter((f) => isBlank(values[f]));
+  if (missing.length > 0) {
+    const labels = missing.map((f) => TRANSITION_FIELD_LABELS[f]).join(", ");
+    return `Moving to "${to}" requires: ${labels}.`;
+  }
+  return null;
+};
+
+// Keeps transitions pointing at a status when it is renamed in Settings.
+export const renameWorkflowStatus = (
+  workflow: WorkflowConfig,
+  oldName: string,
+  newName: string
+): WorkflowConfig => {
+  const rename = (name: string) => (name === oldName ? newName : name);
+  return {
+    ...workflow,
+    initialStatus: rename(workflow.initialStatus),
+    holdStatus: rename(workflow.holdStatus),
+    resolvedStatus: rename(getResolvedStatus(workflow)),
+    terminalStatuses: workflow.terminalStatuses.map(rename),
+    transitions: workflow.transitions.map((t) => ({
+      ...t,
+      from: rename(t.from),
+      to: rename(t.to),
+    })),
+  };
+};
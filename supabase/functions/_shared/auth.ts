@@ -0,0 +1,37 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { httpError, requireEnv } from "./http.ts";
+
+// Staff and customers sign in with Supabase Auth whichever backend holds the
+// data, so every function identifies its caller by the Supabase session the
+// app sends in the Authorization header.
+
+// The signed-in user, and a client that queries as them (row level security
+// applies to everything it reads).
+export const getCaller = async (req: Request) => {
+  const authorization = req.headers.get("Authorization");
+  if (!authorization) throw httpError(401, "Please sign in again.");
+
+  const client = createClient(
+    requireEnv("SUPABASE_URL"),
+    requireEnv("SUPABASE_ANON_KEY"),
+    { global: { headers: { Authorization: authorization } } }
+  );
+  const { data, error } = await client.auth.getUser();
+  if (error || !data.user) throw httpError(401, "Please sign in again.");
+  return { user: data.user, client };
+};
+
+export type Caller = Awaited<ReturnType<typeof getCaller>>;
+
+// A client that bypasses row level security, for the tables no app user may
+// touch (e.g. tracking_attempts).
+export const getServiceClient = () =>
+  createClient(
+    requireEnv("SUPABASE_URL"),
+    requireEnv("SUPABASE_SERVICE_ROLE_KEY")
+  );
+
+// Which store holds the app's data: DATA_BACKEND=firestore | supabase, set to
+// the same value as the app's VITE_DATA_BACKEND.
+export const isFirestoreBackend = () =>
+  Deno.env.get("DATA_BACKEND") !== "supabase";
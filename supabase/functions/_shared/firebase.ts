@@ -0,0 +1,186 @@
+import { requireEnv } from "./http.ts";
+
+// Firestore access for the functions, as the Firebase service account in
+// FIREBASE_SERVICE_ACCOUNT (the JSON key file's contents). The service
+// account is not bound by firestore.rules, so callers check access first.
+
+interface ServiceAccount {
+  project_id: string;
+  client_email: string;
+  private_key: string;
+}
+
+let account: ServiceAccount | null = null;
+
+const getServiceAccount = (): ServiceAccount =>
+  (account ??= JSON.parse(requireEnv("FIREBASE_SERVICE_ACCOUNT")));
+
+// --- SIGNING ---
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const encodeJson = (value: unknown) =>
+  base64Url(new TextEncoder().encode(JSON.stringify(value)));
+
+let signingKey: Promise<CryptoKey> | null = null;
+
+const getSigningKey = () =>
+  (signingKey ??= crypto.subtle.importKey(
+    "pkcs8",
+    Uint8Array.from(
+      atob(
+        getServiceAccount()
+          .private_key.replace(/-----[^-]+-----/g, "")
+          .replace(/\s/g, "")
+      ),
+      (c) => c.charCodeAt(0)
+    ),
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["sign"]
+  ));
+
+// A JWT signed by the service account, valid for an hour.
+const signJwt = async (claims: Record<string, unknown>) => {
+  const { client_email } = getServiceAccount();
+  const iat = Math.floor(Date.now() / 1000);
+  const unsigned = `${encodeJson({ alg: "RS256", typ: "JWT" })}.${encodeJson({
+    iss: client_email,
+    sub: client_email,
+    iat,
+    exp: iat + 3600,
+    ...claims,
+  })}`;
+  const signature = await crypto.subtle.sign(
+    "RSASSA-PKCS1-v1_5",
+    await getSigningKey(),
+    new TextEncoder().encode(unsigned)
+  );
+  return `${unsigned}.${base64Url(new Uint8Array(signature))}`;
+};
+
+// A Firebase Auth custom token for `uid`; the app exchanges it with
+// signInWithCustomToken, and firestore.rules then see `uid` as
+// request.auth.uid.
+export const createCustomToken = (uid: string) =>
+  signJwt({
+    aud: "https://identitytoolkit.googleapis.com/google.identity.identitytoolkit.v1.IdentityToolkit",
+    uid,
+  });
+
+let accessToken: { value: string; expiresAt: number } | null = null;
+
+const getAccessToken = async () => {
+  if (accessToken && accessToken.expiresAt > Date.now() + 60_000) {
+    return accessToken.value;
+  }
+  const response = await fetch("https://oauth2.googleapis.com/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+      assertion: await signJwt({
+        aud: "https://oauth2.googleapis.com/token",
+        scope: "https://www.googleapis.com/auth/datastore",
+      }),
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Google token request failed: ${response.status}`);
+  }
+  const data = await response.json();
+  accessToken = {
+    value: data.access_token,
+    expiresAt: Date.now() + data.expires_in * 1000,
+  };
+  return accessToken.value;
+};
+
+// --- FIRESTORE ---
+
+// Firestore REST values -> plain JSON. Timestamps become ISO strings.
+const decodeValue = (value: Record<string, any>): any => {
+  if ("mapValue" in value) return decodeFields(value.mapValue.fields);
+  if ("arrayValue" in value) {
+    return (value.arrayValue.values ?? []).map(decodeValue);
+  }
+  if ("integerValue" in value) return Number(value.integerValue);
+  if ("nullValue" in value) return null;
+  const [scalar] = Object.values(value);
+  return scalar;
+};
+
+const decodeFields = (fields: Record<string, any> = {}) =>
+  Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [key, decodeValue(value)])
+  );
+
+const documentsUrl = () =>
+  `https://firestore.googleapis.com/v1/projects/${
+    getServiceAccount().project_id
+  }/databases/(default)/documents`;
+
+const firestoreFetch = async (path: string, init: RequestInit = {}) =>
+  fetch(`${documentsUrl()}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${await getAccessToken()}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+// The document at `collection/id` with its `id`, or null.
+export const getDocument = async (
+  collection: string,
+  id: string
+): Promise<Record<string, any> | null> => {
+  const response = await firestoreFetch(
+    `/${collection}/${encodeURIComponent(id)}`
+  );
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Firestore read of ${collection} failed: ${response.status}`);
+  }
+  const doc = await response.json();
+  return { ...decodeFields(doc.fields), id };
+};
+
+// Documents in `collection` whose `field` equals `value`, with their `id`.
+export const findDocuments = async (
+  collection: string,
+  field: string,
+  value: string,
+  limit = 10
+): Promise<Record<string, any>[]> => {
+  const response = await firestoreFetch(":runQuery", {
+    method: "POST",
+    body: JSON.stringify({
+      structuredQuery: {
+        from: [{ collectionId: collection }],
+        where: {
+          fieldFilter: {
+            field: { fieldPath: field },
+            op: "EQUAL",
+            value: { stringValue: value },
+          },
+        },
+        limit,
+      },
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Firestore query of ${collection} failed: ${response.status}`);
+  }
+  const results: { document?: { name: string; fields?: any } }[] =
+    await response.json();
+  return results
+    .filter((r) => r.document)
+    .map(({ document }) => ({
+      ...decodeFields(document!.fields),
+      id: document!.name.split("/").pop()!,
+    }));
+};
@@ -0,0 +1,50 @@
+// Request handling shared by the Edge Functions: CORS for the browser app,
+// JSON bodies and replies, and errors that carry their HTTP status.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// An error whose message is shown to the caller with `status`. Anything
+// else thrown by a handler is logged and answered with a plain 500.
+export const httpError = (status: number, message: string) =>
+  Object.assign(new Error(message), { status });
+
+export const readJson = async (req: Request): Promise<Record<string, any>> => {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    throw httpError(400, "Expected a JSON body.");
+  }
+  return body;
+};
+
+// Serves `handler`, replying with whatever it returns as JSON.
+export const serve = (handler: (req: Request) => Promise<unknown>) =>
+  Deno.serve(async (req) => {
+    if (req.method === "OPTIONS") {
+      return new Response("ok", { headers: corsHeaders });
+    }
+    try {
+      return json(await handler(req));
+    } catch (err: any) {
+      if (typeof err?.status === "number") {
+        return json({ error: err.message }, err.status);
+      }
+      console.error(err);
+      return json({ error: "Something went wrong. Please try again." }, 500);
+    }
+  });
+
+export const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not set`);
+  return value;
+};
@@ -0,0 +1,70 @@
+import { Caller, isFirestoreBackend } from "./auth.ts";
+import { getDocument } from "./firebase.ts";
+import { httpError } from "./http.ts";
+
+// Where a ticket's customer can be reached, as the app's notificationEngine
+// works it out: the customer record first, then the ticket's own fields.
+export interface TicketContact {
+  email: string;
+  mobile: string;
+}
+
+const notFound = () => httpError(404, "Ticket not found.");
+
+// On Supabase the caller's own client reads the ticket, so the store_scope
+// policies decide what they may see.
+const getSupabaseContact = async (caller: Caller, ticketId: string) => {
+  const { data: ticket, error } = await caller.client
+    .from("tickets")
+    .select("customer_id")
+    .eq("id", ticketId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!ticket) throw notFound();
+
+  const { data: customer } = await caller.client
+    .from("customers")
+    .select("*")
+    .eq("id", ticket.customer_id)
+    .maybeSingle();
+  // Older customer rows name the column `phone` (see track_ticket)
+  return {
+    email: customer?.email ?? "",
+    mobile: customer?.mobile ?? customer?.phone ?? "",
+  };
+};
+
+// The service account reads past firestore.rules, so the same checks are made
+// here: admins, staff of the ticket's store, or the customer whose profile
+// carries the caller's email (Firestore profiles keep their imported IDs).
+const getFirestoreContact = async (caller: Caller, ticketId: string) => {
+  const ticket = await getDocument("tickets", ticketId);
+  if (!ticket) throw notFound();
+  const [staff, customer] = await Promise.all([
+    getDocument("users", caller.user.id),
+    ticket.customerId ? getDocument("customers", ticket.customerId) : null,
+  ]);
+
+  const isStaff =
+    staff !== null &&
+    staff.role !== "CUSTOMER" &&
+    (staff.role === "ADMIN" || (staff.stores ?? []).includes(ticket.store));
+  const isCustomer =
+    !!customer?.email &&
+    customer.email.toLowerCase() === caller.user.email?.toLowerCase();
+  if (!isStaff && !isCustomer) throw notFound();
+
+  return {
+    email: customer?.email || ticket.email || "",
+    mobile: customer?.mobile || ticket.number || "",
+  };
+};
+
+// The contact details of a ticket the caller may see; 404 otherwise.
+export const getTicketContact = (
+  caller: Caller,
+  ticketId: string
+): Promise<TicketContact> =>
+  isFirestoreBackend()
+    ? getFirestoreContact(caller, ticketId)
+    : getSupabaseContact(caller, ticketId);
@@ -0,0 +1,70 @@
+// The customer view of a Firestore ticket, as services/ticketAudit's
+// toTrackedTicket builds it in the app. Keep the two in step (the SQL
+// track_ticket function does the same for Supabase).
+
+const CUSTOMER_FIELDS: Record<string, string> = {
+  status: "Status",
+  store: "Store",
+  holdReason: "Hold Reason",
+  estimatedAmount: "Estimate",
+  scheduledDate: "Scheduled Date",
+};
+
+const CUSTOMER_ACTIONS: Record<string, string> = {
+  "Ticket Created": "Service request received.",
+  Approved: "Service request accepted.",
+  "Quote Sent": "A quote is ready for your approval.",
+  "Invoice Issued": "Invoice issued.",
+  "Repair Warranty Issued": "Warranty issued for this repair.",
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const describeChange = ({ field, from, to }: Record<string, any>) => {
+  const label = CUSTOMER_FIELDS[field];
+  const length = formatValue(from).length + formatValue(to).length;
+  return length > 80
+    ? `${label} updated`
+    : `${label}: ${formatValue(from)} → ${formatValue(to)}`;
+};
+
+const getCustomerTimeline = (history: Record<string, any>[] = []) =>
+  history.flatMap((entry) => {
+    const base = {
+      id: entry.id,
+      date: entry.date,
+      timestamp: entry.timestamp,
+      actorName: "",
+      actorRole: "",
+      action: entry.action,
+    };
+    if (!entry.changes || entry.changes.length === 0) {
+      const details = CUSTOMER_ACTIONS[entry.action];
+      return details ? [{ ...base, details }] : [];
+    }
+    const changes = entry.changes.filter(
+      (c: Record<string, any>) => c.field in CUSTOMER_FIELDS
+    );
+    if (changes.length === 0) return [];
+    return [
+      { ...base, details: changes.map(describeChange).join("; "), changes },
+    ];
+  });
+
+export const toTrackedTicket = (ticket: Record<string, any>) => ({
+  ticketId: ticket.ticketId,
+  date: ticket.date,
+  device:
+    [ticket.brand, ticket.model].filter(Boolean).join(" ") || ticket.deviceType,
+  store: ticket.store,
+  status: ticket.status,
+  holdReason: ticket.holdReason,
+  issueDescription: ticket.issueDescription,
+  estimatedAmount: ticket.estimatedAmount || 0,
+  scheduledDate: ticket.scheduledDate,
+  history: getCustomerTimeline(ticket.history),
+});
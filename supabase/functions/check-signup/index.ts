@@ -0,0 +1,32 @@
+import { getServiceClient, isFirestoreBackend } from "../_shared/auth.ts";
+import { findDocuments } from "../_shared/firebase.ts";
+import { httpError, readJson, serve } from "../_shared/http.ts";
+
+// Whether a customer sign-up would clash with an existing profile
+// (services/customerAuth). Visitors cannot read `customers` themselves, so
+// this answers only which of the two is taken, and nothing about the
+// profile.
+
+const isTaken = async (field: "email" | "mobile", value: string) => {
+  if (isFirestoreBackend()) {
+    return (await findDocuments("customers", field, value, 1)).length > 0;
+  }
+  const { data, error } = await getServiceClient()
+    .from("customers")
+    .select("id")
+    .eq(field, value)
+    .limit(1);
+  if (error) throw error;
+  return data.length > 0;
+};
+
+serve(async (req) => {
+  const body = await readJson(req);
+  const email = String(body.email ?? "").trim().toLowerCase();
+  const mobile = String(body.mobile ?? "").replace(/\D/g, "");
+  if (!email || !mobile) throw httpError(400, "Enter your email and mobile.");
+
+  if (await isTaken("email", email)) return { taken: "email" };
+  if (await isTaken("mobile", mobile)) return { taken: "mobile" };
+  return { taken: null };
+});
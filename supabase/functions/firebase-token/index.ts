@@ -0,0 +1,41 @@
+import { Caller, getCaller, isFirestoreBackend } from "../_shared/auth.ts";
+import {
+  createCustomToken,
+  findDocuments,
+  getDocument,
+} from "../_shared/firebase.ts";
+import { httpError, serve } from "../_shared/http.ts";
+
+// Signs the caller in to Firebase Auth (services/firebaseSession) so that
+// firestore.rules, which match `users` and `customers` documents by uid, know
+// who they are. The uid is:
+//   - the Supabase user ID for staff (their `users` document has that ID)
+//   - the customer profile's ID for customers, found by their confirmed
+//     email (Firestore profiles keep the IDs they were imported with)
+//   - the Supabase user ID otherwise, which a new customer's profile is then
+//     created with
+
+const getFirebaseUid = async ({ user }: Caller) => {
+  const staff = await getDocument("users", user.id);
+  if (staff && staff.role !== "CUSTOMER") return user.id;
+
+  if (user.email && user.email_confirmed_at) {
+    const [profile] = await findDocuments(
+      "customers",
+      "email",
+      user.email.toLowerCase(),
+      1
+    );
+    if (profile) return profile.id;
+  }
+  return user.id;
+};
+
+serve(async (req) => {
+  const caller = await getCaller(req);
+  if (!isFirestoreBackend()) {
+    throw httpError(400, "The app's data is not stored in Firestore.");
+  }
+  const uid = await getFirebaseUid(caller);
+  return { uid, token: await createCustomToken(uid) };
+});
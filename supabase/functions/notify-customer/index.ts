@@ -0,0 +1,57 @@
+import { getCaller } from "../_shared/auth.ts";
+import { httpError, readJson, requireEnv, serve } from "../_shared/http.ts";
+import { getTicketContact } from "../_shared/tickets.ts";
+
+// Sends one customer status message (services/notificationProviders,
+// webhook provider) through the relay at NOTIFY_RELAY_URL, which holds the
+// SMS / WhatsApp / email credentials. The relay is called with
+// NOTIFY_RELAY_SECRET and is never exposed to the browser. Only signed-in
+// users who can see the ticket may send, and only to that ticket's customer.
+
+const CHANNELS = ["sms", "whatsapp", "email"];
+const MAX_BODY_LENGTH = 2000;
+
+const normalizeAddress = (channel: string, value: string) =>
+  channel === "email"
+    ? value.trim().toLowerCase()
+    : value.replace(/\D/g, "");
+
+serve(async (req) => {
+  const caller = await getCaller(req);
+  const { ticketId, channel, to, subject, body } = await readJson(req);
+  if (
+    typeof ticketId !== "string" ||
+    !CHANNELS.includes(channel) ||
+    typeof to !== "string" ||
+    typeof body !== "string" ||
+    !body.trim() ||
+    body.length > MAX_BODY_LENGTH ||
+    (subject !== undefined && typeof subject !== "string")
+  ) {
+    throw httpError(400, "Invalid message.");
+  }
+
+  const contact = await getTicketContact(caller, ticketId);
+  const address = channel === "email" ? contact.email : contact.mobile;
+  const recipient = normalizeAddress(channel, to);
+  if (!recipient || recipient !== normalizeAddress(channel, address)) {
+    throw httpError(403, "Messages can only go to the ticket's customer.");
+  }
+
+  const response = await fetch(requireEnv("NOTIFY_RELAY_URL"), {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${requireEnv("NOTIFY_RELAY_SECRET")}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ channel, to: to.trim(), subject, body }),
+  });
+  if (!response.ok) {
+    throw httpError(
+      502,
+      `Provider replied ${response.status} ${response.statusText}`
+    );
+  }
+  const data = await response.json().catch(() => ({}));
+  return { id: typeof data.id === "string" ? data.id : undefined };
+});
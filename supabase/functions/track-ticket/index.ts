@@ -0,0 +1,72 @@
+import { getServiceClient } from "../_shared/auth.ts";
+import { findDocuments, getDocument } from "../_shared/firebase.ts";
+import { httpError, readJson, serve } from "../_shared/http.ts";
+import { toTrackedTicket } from "../_shared/tracking.ts";
+
+// Public ticket tracking for the Firestore backend (services/ticketTracking).
+// Visitors send the ticket ID and the last 4 digits of the customer's
+// mobile; the ticket is read with the service account, so `tickets` stays
+// closed to them. Misses are counted in Supabase's tracking_attempts table
+// with the same limits as the track_ticket function: 5 misses on a ticket,
+// or 20 from one address, in 15 minutes lock the lookup.
+
+const LOCK_MINUTES = 15;
+const MAX_TICKET_MISSES = 5;
+const MAX_CLIENT_MISSES = 20;
+
+const last4Digits = (value: unknown) =>
+  String(value ?? "").replace(/\D/g, "").slice(-4);
+
+serve(async (req) => {
+  const body = await readJson(req);
+  const ticketId = String(body.ticketId ?? "").trim().toUpperCase();
+  const last4 = String(body.mobileLast4 ?? "").trim();
+  if (!ticketId || !/^\d{4}$/.test(last4)) {
+    throw httpError(
+      400,
+      "Enter the ticket ID and the last 4 digits of your mobile number."
+    );
+  }
+  // The last x-forwarded-for entry is the address the platform's proxy saw;
+  // the ones before it are sent by the client and can be anything.
+  const client =
+    req.headers.get("x-forwarded-for")?.split(",").pop()?.trim() ?? "";
+
+  const supabase = getServiceClient();
+  const since = new Date(Date.now() - LOCK_MINUTES * 60_000).toISOString();
+  const countMisses = async (column: string, value: string) => {
+    const { count, error } = await supabase
+      .from("tracking_attempts")
+      .select("id", { count: "exact", head: true })
+      .eq(column, value)
+      .eq("matched", false)
+      .gt("attempted_at", since);
+    if (error) throw error;
+    return count ?? 0;
+  };
+  if (
+    (await countMisses("ticket_id", ticketId)) >= MAX_TICKET_MISSES ||
+    (client && (await countMisses("client", client)) >= MAX_CLIENT_MISSES)
+  ) {
+    throw httpError(429, "Too many attempts. Please try again in 15 minutes.");
+  }
+
+  // The customer record's mobile first, as on the ticket form.
+  let match: Record<string, any> | null = null;
+  for (const ticket of await findDocuments("tickets", "ticketId", ticketId)) {
+    const customer = ticket.customerId
+      ? await getDocument("customers", ticket.customerId)
+      : null;
+    if (last4Digits(customer?.mobile || ticket.number) === last4) {
+      match = ticket;
+      break;
+    }
+  }
+
+  const { error } = await supabase
+    .from("tracking_attempts")
+    .insert({ ticket_id: ticketId, client, matched: match !== null });
+  if (error) throw error;
+
+  return { ticket: match ? toTrackedTicket(match) : null };
+});
@@ -0,0 +1,25 @@
+-- Named counters used for sequential display IDs (e.g. TKT-IF-174).
+create table if not exists public.counters (
+  name text primary key,
+  value bigint not null default 0,
+  updated_at timestamptz not null default now()
+);
+
+-- Increments `p_name` and returns the new value in one statement, so
+-- concurrent callers always get distinct numbers. `p_seed` is only used
+-- when the counter does not exist yet (the highest value already issued).
+create or replace function public.next_counter_value(p_name text, p_seed bigint default 0)
+returns bigint
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.counters as c (name, value)
+  values (p_name, p_seed + 1)
+  on conflict (name) do update
+    set value = c.value + 1,
+        updated_at = now()
+  returning c.value;
+$$;
+
+grant execute on function public.next_counter_value(text, bigint) to authenticated;
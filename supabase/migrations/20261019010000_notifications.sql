@@ -0,0 +1,16 @@
+-- In-app notifications shown in the header bell (SLA escalations etc.).
+-- Escalation notifications use a fixed id per ticket / step / user, so
+-- writing the same one twice is harmless.
+create table if not exists public.notifications (
+  id text primary key,
+  user_id text not null,
+  ticket_id text not null,
+  title text not null,
+  message text not null default '',
+  level text not null default 'info',
+  created_at bigint not null,
+  read boolean not null default false
+);
+
+create index if not exists notifications_user_id_idx
+  on public.notifications (user_id, created_at desc);
@@ -0,0 +1,13 @@
+-- Repair quotations, one row per ticket. `revisions` holds every revision
+-- (line items, validity, status, customer decision) as sent; the last entry
+-- is the current one.
+create table if not exists public.quotations (
+  id text primary key,
+  ticket_id text not null unique,
+  customer_id text not null,
+  revisions jsonb not null default '[]'::jsonb,
+  updated_at bigint not null
+);
+
+create index if not exists quotations_customer_id_idx
+  on public.quotations (customer_id);
@@ -0,0 +1,31 @@
+-- Invoices issued from resolved tickets. Rows are written once and only
+-- ever change to void; `invoice_number` (INV-<store code>-<n>) comes from
+-- next_counter_value('invoice-INV-<code>').
+create table if not exists public.invoices (
+  id uuid primary key default gen_random_uuid(),
+  invoice_number text not null unique,
+  ticket_id text not null,
+  ticket_number text not null,
+  customer_id text not null,
+  customer_name text not null default '',
+  customer_mobile text not null default '',
+  customer_address text not null default '',
+  store text not null,
+  date date not null,
+  lines jsonb not null default '[]'::jsonb,
+  discount double precision not null default 0,
+  warranty boolean not null default false,
+  subtotal double precision not null,
+  taxes jsonb not null default '[]'::jsonb,
+  tax double precision not null,
+  total double precision not null,
+  status text not null default 'Issued',
+  issued_at bigint not null,
+  issued_by text not null,
+  voided_at bigint,
+  voided_by text,
+  void_reason text
+);
+
+create index if not exists invoices_ticket_id_idx on public.invoices (ticket_id);
+create index if not exists invoices_store_date_idx on public.invoices (store, date);
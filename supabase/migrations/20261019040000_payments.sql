@@ -0,0 +1,22 @@
+-- Payments ledger. Append-only: a payment taken in error is reversed with a
+-- 'Refund' row rather than updated or deleted.
+create table if not exists public.payments (
+  id uuid primary key default gen_random_uuid(),
+  ticket_id text not null,
+  ticket_number text not null,
+  customer_id text not null,
+  store text not null,
+  invoice_id text,
+  kind text not null check (kind in ('Advance', 'Part Payment', 'Final', 'Refund')),
+  mode text not null check (mode in ('Cash', 'UPI', 'Card')),
+  amount double precision not null check (amount > 0),
+  reference text,
+  note text,
+  date date not null,
+  recorded_at bigint not null,
+  recorded_by text not null
+);
+
+create index if not exists payments_ticket_id_idx on public.payments (ticket_id);
+create index if not exists payments_customer_id_idx on public.payments (customer_id);
+create index if not exists payments_store_date_idx on public.payments (store, date);
@@ -0,0 +1,31 @@
+-- Spare parts catalogue and stock ledger. Stock per store is the sum of
+-- stock_movements.quantity for (part_id, store_id); parts carry no count.
+create table if not exists public.parts (
+  id uuid primary key default gen_random_uuid(),
+  sku text not null unique,
+  name text not null,
+  brand_id text,
+  device_type_ids jsonb not null default '[]'::jsonb,
+  unit_cost double precision not null default 0,
+  unit_price double precision not null default 0,
+  tax_rate double precision not null default 18,
+  reorder_level integer not null default 0,
+  active boolean not null default true,
+  updated_at bigint not null
+);
+
+create table if not exists public.stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  part_id text not null,
+  store_id text not null,
+  kind text not null check (kind in ('Receipt', 'Consumption', 'Return', 'Adjustment')),
+  quantity integer not null check (quantity <> 0),
+  ticket_id text,
+  ticket_number text,
+  note text,
+  created_at bigint not null,
+  created_by text not null
+);
+
+create index if not exists stock_movements_part_store_idx on public.stock_movements (part_id, store_id);
+create index if not exists stock_movements_ticket_id_idx on public.stock_movements (ticket_id);
@@ -0,0 +1,39 @@
+-- Suppliers and purchase orders. Order lines and goods receipts are jsonb
+-- on the order; received quantities also land in stock_movements (kind
+-- 'Receipt', purchase_order_id set). po_number comes from
+-- next_counter_value('purchase-order').
+create table if not exists public.suppliers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  contact_name text,
+  phone text,
+  email text,
+  gstin text,
+  address text,
+  dealer_id text unique,
+  active boolean not null default true,
+  created_at bigint not null
+);
+
+create table if not exists public.purchase_orders (
+  id uuid primary key default gen_random_uuid(),
+  po_number text not null unique,
+  supplier_id text not null default '',
+  supplier_name text not null default '',
+  store_id text not null,
+  status text not null default 'Draft'
+    check (status in ('Draft', 'Ordered', 'Partially Received', 'Received', 'Cancelled')),
+  lines jsonb not null default '[]'::jsonb,
+  expected_date date,
+  notes text,
+  receipts jsonb not null default '[]'::jsonb,
+  created_at bigint not null,
+  created_by text not null,
+  ordered_at bigint,
+  updated_at bigint not null
+);
+
+create index if not exists purchase_orders_supplier_id_idx on public.purchase_orders (supplier_id);
+create index if not exists purchase_orders_status_idx on public.purchase_orders (status);
+
+alter table public.stock_movements add column if not exists purchase_order_id text;
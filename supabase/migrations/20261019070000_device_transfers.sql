@@ -0,0 +1,32 @@
+-- Devices sent out of their store, to another store or an outside vendor.
+-- A row stays open (status other than 'Returned') until the device is back
+-- at from_store_id.
+create table if not exists public.device_transfers (
+  id uuid primary key default gen_random_uuid(),
+  ticket_id text not null,
+  ticket_number text not null,
+  from_store_id text not null,
+  destination text not null check (destination in ('Store', 'Vendor')),
+  to_store_id text,
+  vendor_name text,
+  reason text,
+  carried_by text not null,
+  expected_back_date date,
+  status text not null default 'In Transit'
+    check (status in ('In Transit', 'At Destination', 'Returned')),
+  sent_at bigint not null,
+  sent_by text not null,
+  arrived_at bigint,
+  arrived_by text,
+  returned_at bigint,
+  returned_by text,
+  return_carried_by text,
+  return_note text,
+  check (
+    (destination = 'Store' and to_store_id is not null)
+    or (destination = 'Vendor' and vendor_name is not null)
+  )
+);
+
+create index if not exists device_transfers_ticket_id_idx on public.device_transfers (ticket_id);
+create index if not exists device_transfers_status_idx on public.device_transfers (status);
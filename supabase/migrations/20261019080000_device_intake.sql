@@ -0,0 +1,14 @@
+-- Check-in checklist answers live on the ticket; condition photos are one
+-- row each (compressed JPEG data URLs) so tickets stay small.
+alter table public.tickets add column if not exists intake jsonb;
+
+create table if not exists public.intake_photos (
+  id uuid primary key default gen_random_uuid(),
+  ticket_id text not null,
+  data_url text not null,
+  caption text,
+  taken_at bigint not null,
+  taken_by text not null
+);
+
+create index if not exists intake_photos_ticket_id_idx on public.intake_photos (ticket_id);
@@ -0,0 +1,27 @@
+-- Device registry: one row per serial number (serial_key is the serial
+-- upper-cased with whitespace removed). Tickets point at their device, and
+-- carry repeat_repair when the same device came back within 30 days.
+create table if not exists public.devices (
+  id uuid primary key default gen_random_uuid(),
+  serial text not null,
+  serial_key text not null unique,
+  device_type text not null,
+  brand text,
+  model text,
+  customer_id text,
+  customer_name text,
+  warranty_status text not null default 'Unknown'
+    check (warranty_status in ('Unknown', 'In Warranty', 'Out of Warranty')),
+  warranty_expiry date,
+  bill_number text,
+  notes text,
+  registered_at bigint not null,
+  updated_at bigint
+);
+
+create index if not exists devices_customer_id_idx on public.devices (customer_id);
+
+alter table public.tickets add column if not exists device_id text;
+alter table public.tickets add column if not exists repeat_repair jsonb;
+
+create index if not exists tickets_device_id_idx on public.tickets (device_id);
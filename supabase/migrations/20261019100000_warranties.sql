@@ -0,0 +1,58 @@
+-- Warranty records: brand warranties registered from a purchase bill, and
+-- the shop's own repair warranty issued when a ticket is resolved.
+create table if not exists public.warranties (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('Brand', 'Repair')),
+  device_id text,
+  serial text,
+  ticket_id text,
+  ticket_number text,
+  customer_id text,
+  customer_name text,
+  brand text,
+  rule_id text,
+  coverage text not null,
+  terms text,
+  bill_number text,
+  start_date date not null,
+  end_date date not null,
+  issued_at bigint not null,
+  issued_by text not null,
+  voided_at bigint,
+  voided_by text,
+  void_reason text
+);
+
+create index if not exists warranties_device_id_idx on public.warranties (device_id);
+create index if not exists warranties_ticket_id_idx on public.warranties (ticket_id);
+
+-- Claims on in-warranty brand jobs:
+-- Draft -> Submitted -> Approved / Rejected -> Reimbursed.
+create table if not exists public.warranty_claims (
+  id uuid primary key default gen_random_uuid(),
+  ticket_id text not null,
+  ticket_number text not null,
+  warranty_id text,
+  brand text not null,
+  serial text,
+  status text not null default 'Draft'
+    check (status in ('Draft', 'Submitted', 'Approved', 'Rejected', 'Reimbursed')),
+  claimed_amount numeric(12, 2) not null default 0,
+  notes text,
+  claim_number text,
+  approved_amount numeric(12, 2),
+  rejection_reason text,
+  reimbursed_amount numeric(12, 2),
+  reimbursement_ref text,
+  opened_at bigint not null,
+  opened_by text not null,
+  submitted_at bigint,
+  submitted_by text,
+  decided_at bigint,
+  decided_by text,
+  reimbursed_at bigint,
+  reimbursed_by text
+);
+
+create index if not exists warranty_claims_ticket_id_idx on public.warranty_claims (ticket_id);
+create index if not exists warranty_claims_status_idx on public.warranty_claims (status);
@@ -0,0 +1,23 @@
+-- Brand-service jobs: the partner brand's job number, repair category,
+-- payout rate and SLA due date, kept with the ticket.
+alter table public.tickets add column if not exists brand_job jsonb;
+
+-- Payouts received from partner brands, reconciled monthly against the
+-- brand-service jobs resolved that month. job_numbers lists the jobs the
+-- brand's statement covers.
+create table if not exists public.brand_payouts (
+  id uuid primary key default gen_random_uuid(),
+  brand_id text not null,
+  brand_name text not null,
+  month text not null check (month ~ '^\d{4}-\d{2}$'),
+  amount numeric(12, 2) not null check (amount > 0),
+  received_on date not null,
+  reference text,
+  job_numbers jsonb not null default '[]'::jsonb,
+  notes text,
+  recorded_at bigint not null,
+  recorded_by text not null
+);
+
+create index if not exists brand_payouts_brand_month_idx
+  on public.brand_payouts (brand_id, month);
@@ -0,0 +1,26 @@
+-- Customer status messages: per-customer opt-out and the delivery log (one
+-- row per message and channel, including skipped and failed attempts).
+alter table public.customers
+  add column if not exists notifications_opt_out boolean not null default false;
+
+create table if not exists public.customer_messages (
+  id uuid primary key default gen_random_uuid(),
+  ticket_id text not null,
+  ticket_number text not null,
+  customer_id text,
+  template_id text,
+  status text not null,
+  channel text not null check (channel in ('sms', 'whatsapp', 'email')),
+  "to" text not null default '',
+  subject text,
+  body text not null,
+  delivery text not null check (delivery in ('Sent', 'Failed', 'Skipped')),
+  provider text not null,
+  provider_message_id text,
+  error text,
+  sent_at bigint not null,
+  sent_by text not null
+);
+
+create index if not exists customer_messages_ticket_id_idx
+  on public.customer_messages (ticket_id);
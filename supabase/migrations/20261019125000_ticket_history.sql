@@ -0,0 +1,3 @@
+-- Hash-chained audit history of each ticket (services/ticketAudit), written
+-- with every ticket change. Read by track_ticket and update_ticket_status.
+alter table public.tickets add column if not exists history jsonb not null default '[]';
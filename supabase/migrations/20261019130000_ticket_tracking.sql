@@ -0,0 +1,103 @@
+-- Public ticket tracking (services/ticketTracking). Visitors who are not
+-- signed in cannot read `tickets` (revoked below); they call track_ticket
+-- with the ticket ID and the last 4 digits of the customer's mobile. Misses
+-- are recorded so neither one ticket's digits nor the ticket IDs can be
+-- guessed by brute force: 5 misses on a ticket, or 20 from one address, in
+-- 15 minutes lock the lookup.
+create table if not exists public.tracking_attempts (
+  id bigint generated always as identity primary key,
+  ticket_id text not null,
+  client text not null default '',
+  matched boolean not null,
+  attempted_at timestamptz not null default now()
+);
+
+create index if not exists tracking_attempts_ticket_idx
+  on public.tracking_attempts (ticket_id, attempted_at);
+create index if not exists tracking_attempts_client_idx
+  on public.tracking_attempts (client, attempted_at);
+
+-- No policies: only track_ticket (security definer) touches this table.
+alter table public.tracking_attempts enable row level security;
+revoke all on public.tracking_attempts from anon, authenticated;
+
+-- Visitors only ever see tickets through track_ticket. Signed-in access to
+-- tickets is scoped by the store_scope migration.
+revoke all on public.tickets from anon;
+
+-- Returns the ticket row without internal columns, or null. Audit entries
+-- lose their actor and hashes; entries that only changed internal fields
+-- are dropped and the rest keep only their customer-facing changes.
+create or replace function public.track_ticket(p_ticket_id text, p_last4 text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ticket_id text := upper(trim(coalesce(p_ticket_id, '')));
+  -- The last x-forwarded-for entry is the address the platform's proxy saw;
+  -- the ones before it are sent by the client and can be anything.
+  v_client text := coalesce(trim(regexp_replace(
+    current_setting('request.headers', true)::json->>'x-forwarded-for', '^.*,', ''
+  )), '');
+  v_public text[] := array['status', 'store', 'holdReason', 'estimatedAmount', 'scheduledDate'];
+  v_row public.tickets;
+begin
+  if v_ticket_id = '' or coalesce(p_last4, '') !~ '^\d{4}$' then
+    raise exception 'Enter the ticket ID and the last 4 digits of your mobile number.';
+  end if;
+
+  if (select count(*) from tracking_attempts
+      where ticket_id = v_ticket_id and not matched
+        and attempted_at > now() - interval '15 minutes') >= 5
+    or (v_client <> '' and (select count(*) from tracking_attempts
+      where client = v_client and not matched
+        and attempted_at > now() - interval '15 minutes') >= 20)
+  then
+    raise exception 'Too many attempts. Please try again in 15 minutes.';
+  end if;
+
+  select t.* into v_row
+  from tickets t
+  join customers c on c.id = t.customer_id
+  where upper(t.id) = v_ticket_id
+    and right(regexp_replace(
+      coalesce(to_jsonb(c)->>'mobile', to_jsonb(c)->>'phone', ''), '\D', '', 'g'
+    ), 4) = p_last4;
+
+  insert into tracking_attempts (ticket_id, client, matched)
+  values (v_ticket_id, v_client, found);
+
+  if v_row.id is null then
+    return null;
+  end if;
+
+  return (to_jsonb(v_row) - array[
+      'customer_id', 'assigned_to', 'internal_progress_reason',
+      'internal_progress_note', 'bill_number', 'intake', 'brand_job',
+      'device_id', 'repeat_repair'
+    ])
+    || jsonb_build_object('history', (
+      select coalesce(jsonb_agg(
+        case when jsonb_array_length(coalesce(e->'changes', '[]'::jsonb)) = 0
+          then e - array['actorName', 'actorRole', 'hash', 'prevHash']
+          else e - array['actorName', 'actorRole', 'hash', 'prevHash', 'details']
+            || jsonb_build_object('details', '', 'changes', (
+              select jsonb_agg(ch) from jsonb_array_elements(e->'changes') ch
+              where ch->>'field' = any(v_public)
+            ))
+        end
+        order by (e->>'timestamp')::bigint
+      ), '[]'::jsonb)
+      from jsonb_array_elements(coalesce(v_row.history, '[]'::jsonb)) e
+      where jsonb_array_length(coalesce(e->'changes', '[]'::jsonb)) = 0
+        or exists (
+          select 1 from jsonb_array_elements(e->'changes') ch
+          where ch->>'field' = any(v_public)
+        )
+    ));
+end;
+$$;
+
+grant execute on function public.track_ticket(text, text) to anon, authenticated;
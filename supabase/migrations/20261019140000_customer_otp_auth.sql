@@ -0,0 +1,68 @@
+-- Customers now sign in with an emailed one-time code or magic link
+-- (services/customerAuth). Their old passwords were the mobile number plus
+-- "@inf0fix", so anyone who knew the number could sign in as them. Replace
+-- those passwords with random ones nobody knows. The auth users and their
+-- IDs stay, so customers sign in by code to the same email and keep their
+-- tickets. Staff accounts (in public.users) keep their passwords.
+--
+-- Tell customers before running this: from then on the old password no
+-- longer works and they sign in with a code (see README, Customer sign-in).
+--
+-- The replaced hashes are kept in customer_password_backup. To roll back:
+--
+--   update auth.users u
+--   set encrypted_password = b.encrypted_password, updated_at = now()
+--   from public.customer_password_backup b
+--   where b.user_id = u.id;
+--
+-- The backup still lets the old passwords work if restored, so drop the
+-- table once the code sign-in has settled.
+create table if not exists public.customer_password_backup (
+  user_id uuid primary key,
+  encrypted_password text,
+  backed_up_at timestamptz not null default now()
+);
+
+-- No policies: only this migration (and a rollback) touches the table.
+alter table public.customer_password_backup enable row level security;
+revoke all on public.customer_password_backup from anon, authenticated;
+
+-- Re-running keeps the first backup rather than saving the random hashes.
+insert into public.customer_password_backup (user_id, encrypted_password)
+select u.id, u.encrypted_password
+from auth.users u
+where exists (select 1 from public.customers c where c.id::text = u.id::text)
+  and not exists (select 1 from public.users s where s.id::text = u.id::text)
+on conflict (user_id) do nothing;
+
+update auth.users u
+set encrypted_password = extensions.crypt(
+      encode(extensions.gen_random_bytes(32), 'hex'),
+      extensions.gen_salt('bf')
+    ),
+    updated_at = now()
+where exists (select 1 from public.customers c where c.id::text = u.id::text)
+  and not exists (select 1 from public.users s where s.id::text = u.id::text);
+
+-- Customer sessions end 12 hours after sign-in (CUSTOMER_SESSION_HOURS).
+-- The app signs the customer out then; this makes requests on an older
+-- session fail too, whatever the browser does. True for anyone who is not a
+-- customer. Used by the customer policies (store_scope migration).
+create or replace function public.customer_session_active()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select not exists (
+      select 1 from customers c where c.id::text = auth.uid()::text
+    )
+    or exists (
+      select 1 from auth.sessions s
+      where s.id::text = auth.jwt()->>'session_id'
+        and s.created_at > now() - interval '12 hours'
+    );
+$$;
+
+grant execute on function public.customer_session_active() to authenticated;
@@ -0,0 +1,290 @@
+-- Store-scoped access (services/storeScope). Staff are assigned to stores in
+-- users.stores (store names, as in tickets.store, compared without case) and
+-- only read or write the tickets, invoices and payments of those stores, and
+-- the rows that belong to those tickets. Admins see every store; staff with
+-- no store assigned see none. Customers keep access to their own rows while
+-- their session lasts. Customers themselves are not scoped: a customer may
+-- visit any branch and must be found by every store.
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'users' and column_name = 'stores'
+  ) then
+    alter table public.users add column stores text[] not null default '{}';
+
+    -- Staff from before store assignments keep the stores they could see.
+    update public.users
+    set stores = coalesce((select array_agg(distinct t.store) from public.tickets t), '{}')
+    where role <> 'ADMIN';
+  end if;
+end;
+$$;
+
+create or replace function public.can_access_store(p_store text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from users u
+    where u.id::text = auth.uid()::text
+      and (
+        u.role = 'ADMIN'
+        or exists (select 1 from unnest(u.stores) s where lower(s) = lower(p_store))
+      )
+  );
+$$;
+
+grant execute on function public.can_access_store(text) to authenticated;
+
+-- Any signed-in staff member, whatever their stores.
+create or replace function public.is_staff()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from users u where u.id::text = auth.uid()::text);
+$$;
+
+grant execute on function public.is_staff() to authenticated;
+
+-- Rows that belong to a ticket follow the ticket's store.
+create or replace function public.can_access_ticket(p_ticket_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from tickets t
+    where t.id = p_ticket_id and public.can_access_store(t.store)
+  );
+$$;
+
+grant execute on function public.can_access_ticket(text) to authenticated;
+
+-- The signed-in customer, while their session lasts.
+create or replace function public.is_customer(p_customer_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_customer_id = auth.uid()::text and public.customer_session_active();
+$$;
+
+grant execute on function public.is_customer(text) to authenticated;
+
+-- Only admins change store assignments. Requests without a user (service
+-- role, SQL editor) are not checked.
+create or replace function public.guard_user_stores()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.stores is distinct from old.stores
+    and auth.uid() is not null
+    and not exists (
+      select 1 from users u
+      where u.id::text = auth.uid()::text and u.role = 'ADMIN'
+    )
+  then
+    raise exception 'Only admins can change store assignments.';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists users_guard_stores on public.users;
+create trigger users_guard_stores
+  before update on public.users
+  for each row execute function public.guard_user_stores();
+
+-- --- TICKETS, INVOICES, PAYMENTS ---
+-- Staff get the rows of their stores; customers read their own rows and
+-- book their own tickets. A restrictive policy repeats the rule so policies
+-- added elsewhere cannot widen it.
+do $$
+declare
+  v_table text;
+  v_scope text := '(public.is_customer(customer_id::text) or public.can_access_store(store))';
+begin
+  foreach v_table in array array['tickets', 'invoices', 'payments'] loop
+    execute format('alter table public.%I enable row level security', v_table);
+
+    execute format('drop policy if exists %I on public.%I', v_table || '_staff_store', v_table);
+    execute format(
+      'create policy %I on public.%I for all to authenticated
+         using (public.can_access_store(store)) with check (public.can_access_store(store))',
+      v_table || '_staff_store', v_table
+    );
+
+    execute format('drop policy if exists %I on public.%I', v_table || '_customer_read', v_table);
+    execute format(
+      'create policy %I on public.%I for select to authenticated
+         using (public.is_customer(customer_id::text))',
+      v_table || '_customer_read', v_table
+    );
+
+    execute format('drop policy if exists %I on public.%I', v_table || '_store_scope', v_table);
+    execute format(
+      'create policy %I on public.%I as restrictive for all to authenticated
+         using %s with check %s',
+      v_table || '_store_scope', v_table, v_scope, v_scope
+    );
+  end loop;
+end;
+$$;
+
+drop policy if exists tickets_customer_insert on public.tickets;
+create policy tickets_customer_insert on public.tickets
+  for insert to authenticated
+  with check (public.is_customer(customer_id::text));
+
+-- Customers do not update tickets directly; see update_ticket_status.
+drop policy if exists tickets_customer_update on public.tickets;
+
+-- Status moves (workflow changes, quote answers) only touch the status,
+-- hold reason, estimate and audit history. Customers may make them on their
+-- own tickets, staff on the tickets of their stores. Earlier history entries
+-- must come back unchanged.
+create or replace function public.update_ticket_status(
+  p_ticket_id text,
+  p_status text,
+  p_hold_reason text,
+  p_amount_estimate numeric,
+  p_history jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ticket tickets;
+  v_history jsonb;
+  v_count int;
+begin
+  select * into v_ticket from tickets where id = p_ticket_id for update;
+  if v_ticket.id is null or not (
+    public.can_access_store(v_ticket.store)
+    or public.is_customer(v_ticket.customer_id::text)
+  ) then
+    raise exception 'Ticket "%" not found.', p_ticket_id;
+  end if;
+
+  v_history := coalesce(v_ticket.history, '[]'::jsonb);
+  v_count := jsonb_array_length(v_history);
+  if jsonb_array_length(coalesce(p_history, '[]'::jsonb)) < v_count
+    or coalesce((
+      select jsonb_agg(h.e order by h.i)
+      from jsonb_array_elements(p_history) with ordinality as h(e, i)
+      where h.i <= v_count
+    ), '[]'::jsonb) <> v_history
+  then
+    raise exception 'Ticket history can only be added to.';
+  end if;
+
+  update tickets
+  set status = p_status,
+      hold_reason = p_hold_reason,
+      amount_estimate = p_amount_estimate,
+      history = p_history,
+      updated_at = now()
+  where id = p_ticket_id;
+end;
+$$;
+
+revoke execute on function public.update_ticket_status(text, text, text, numeric, jsonb) from public, anon;
+grant execute on function public.update_ticket_status(text, text, text, numeric, jsonb) to authenticated;
+
+-- --- ROWS OF A TICKET ---
+-- Staff reach them through the ticket's store. Customers read and answer
+-- their own quotations, and an answer logs the customer's status message.
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array[
+    'quotations', 'intake_photos', 'device_transfers', 'warranty_claims',
+    'customer_messages'
+  ] loop
+    execute format('alter table public.%I enable row level security', v_table);
+    execute format('drop policy if exists %I on public.%I', v_table || '_staff_store', v_table);
+    execute format(
+      'create policy %I on public.%I for all to authenticated
+         using (public.can_access_ticket(ticket_id)) with check (public.can_access_ticket(ticket_id))',
+      v_table || '_staff_store', v_table
+    );
+  end loop;
+end;
+$$;
+
+-- Answering upserts the quotation, which needs both insert and update.
+drop policy if exists quotations_customer on public.quotations;
+create policy quotations_customer on public.quotations
+  for all to authenticated
+  using (public.is_customer(customer_id))
+  with check (public.is_customer(customer_id));
+
+drop policy if exists customer_messages_customer_log on public.customer_messages;
+create policy customer_messages_customer_log on public.customer_messages
+  for insert to authenticated
+  with check (public.is_customer(customer_id));
+
+-- --- SHARED STAFF TABLES ---
+-- Stock, purchasing, devices, warranties and brand payouts are shared by the
+-- stores (stock and orders carry a store ID from the app settings, which the
+-- database does not know), so any staff member may use them. Customers read
+-- their own warranties.
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array[
+    'parts', 'stock_movements', 'suppliers', 'purchase_orders', 'devices',
+    'warranties', 'brand_payouts'
+  ] loop
+    execute format('alter table public.%I enable row level security', v_table);
+    execute format('drop policy if exists %I on public.%I', v_table || '_staff', v_table);
+    execute format(
+      'create policy %I on public.%I for all to authenticated
+         using (public.is_staff()) with check (public.is_staff())',
+      v_table || '_staff', v_table
+    );
+  end loop;
+end;
+$$;
+
+drop policy if exists warranties_customer_read on public.warranties;
+create policy warranties_customer_read on public.warranties
+  for select to authenticated
+  using (public.is_customer(customer_id));
+
+-- --- NOTIFICATIONS ---
+-- Each staff member's own inbox.
+alter table public.notifications enable row level security;
+
+drop policy if exists notifications_own on public.notifications;
+create policy notifications_own on public.notifications
+  for all to authenticated
+  using (user_id = auth.uid()::text)
+  with check (user_id = auth.uid()::text);
+
+-- None of these tables is for visitors who are not signed in.
+revoke all on
+  public.invoices, public.payments, public.quotations, public.intake_photos,
+  public.device_transfers, public.warranty_claims, public.customer_messages,
+  public.parts, public.stock_movements, public.suppliers,
+  public.purchase_orders, public.devices, public.warranties,
+  public.brand_payouts, public.notifications
+from anon;
@@ -0,0 +1,88 @@
+-- Counters are only changed through next_counter_value, which now works out
+-- a new counter's starting value on the server instead of trusting one from
+-- the client (20261019000000_counters).
+
+-- Only next_counter_value touches the table; clients cannot read, reset or
+-- skip a counter.
+alter table public.counters enable row level security;
+revoke all on public.counters from anon, authenticated;
+
+-- Highest number already issued under a counter, so a new counter never
+-- reuses an existing (e.g. imported) ID:
+--   ticket-<prefix>   tickets.id                  TKT-IF-008
+--   invoice-<prefix>  invoices.invoice_number     INV-IF-0012
+--   purchase-order    purchase_orders.po_number   PO-0003
+create or replace function public.counter_seed(p_name text)
+returns bigint
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_prefix text;
+begin
+  if p_name like 'ticket-%' then
+    v_prefix := substr(p_name, length('ticket-') + 1) || '-';
+    return coalesce((
+      select max(substr(t.id, length(v_prefix) + 1)::bigint)
+      from tickets t
+      where starts_with(t.id, v_prefix)
+        and substr(t.id, length(v_prefix) + 1) ~ '^\d+$'
+    ), 0);
+  elsif p_name like 'invoice-%' then
+    v_prefix := substr(p_name, length('invoice-') + 1) || '-';
+    return coalesce((
+      select max(substr(i.invoice_number, length(v_prefix) + 1)::bigint)
+      from invoices i
+      where starts_with(i.invoice_number, v_prefix)
+        and substr(i.invoice_number, length(v_prefix) + 1) ~ '^\d+$'
+    ), 0);
+  elsif p_name = 'purchase-order' then
+    return coalesce((
+      select max(substr(o.po_number, 4)::bigint)
+      from purchase_orders o
+      where o.po_number ~ '^PO-\d+$'
+    ), 0);
+  end if;
+  raise exception 'Unknown counter "%".', p_name;
+end;
+$$;
+
+revoke execute on function public.counter_seed(text) from public, anon, authenticated;
+
+-- Increments `p_name` and returns the new value in one statement, so
+-- concurrent callers always get distinct numbers. A counter that does not
+-- exist yet starts after counter_seed.
+drop function if exists public.next_counter_value(text, bigint);
+
+create or replace function public.next_counter_value(p_name text)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_value bigint;
+begin
+  update counters
+  set value = value + 1,
+      updated_at = now()
+  where name = p_name
+  returning value into v_value;
+
+  if v_value is null then
+    insert into counters as c (name, value)
+    values (p_name, counter_seed(p_name) + 1)
+    on conflict (name) do update
+      set value = c.value + 1,
+          updated_at = now()
+    returning c.value into v_value;
+  end if;
+
+  return v_value;
+end;
+$$;
+
+revoke execute on function public.next_counter_value(text) from public, anon;
+grant execute on function public.next_counter_value(text) to authenticated;
@@ -0,0 +1,59 @@
+-- Running stock per part and store next to the stock_movements ledger
+-- (services/inventoryEngine). add_stock_movement checks and moves it in a
+-- single update before adding the movement, so concurrent consumptions
+-- cannot take stock below zero. A level starts from the sum of the
+-- movements recorded before it.
+create table if not exists public.stock_levels (
+  part_id text not null,
+  store_id text not null,
+  quantity integer not null,
+  primary key (part_id, store_id)
+);
+
+-- Only add_stock_movement touches the table.
+alter table public.stock_levels enable row level security;
+revoke all on public.stock_levels from anon, authenticated;
+
+-- `p_movement` is a stock_movements row as JSON (without id). Returns the
+-- added row, or null when the stock would go below zero.
+create or replace function public.add_stock_movement(p_movement jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_movement stock_movements;
+  v_stock integer;
+begin
+  if not public.is_staff() then
+    raise exception 'Only staff can change stock.';
+  end if;
+
+  v_movement := jsonb_populate_record(null::stock_movements, p_movement);
+  v_movement.id := gen_random_uuid();
+
+  insert into stock_levels (part_id, store_id, quantity)
+  select v_movement.part_id, v_movement.store_id, coalesce(sum(m.quantity), 0)
+  from stock_movements m
+  where m.part_id = v_movement.part_id and m.store_id = v_movement.store_id
+  on conflict (part_id, store_id) do nothing;
+
+  update stock_levels
+  set quantity = quantity + v_movement.quantity
+  where part_id = v_movement.part_id
+    and store_id = v_movement.store_id
+    and quantity + v_movement.quantity >= 0
+  returning quantity into v_stock;
+
+  if v_stock is null then
+    return null;
+  end if;
+
+  insert into stock_movements select (v_movement).* returning * into v_movement;
+  return to_jsonb(v_movement);
+end;
+$$;
+
+revoke execute on function public.add_stock_movement(jsonb) from public, anon;
+grant execute on function public.add_stock_movement(jsonb) to authenticated;
@@ -0,0 +1,69 @@
+-- Ticket writes read the ticket, add an audit entry to its history and write
+-- it back (services/dataRepository). Two writes working from the same
+-- version would each drop the other's entry and fork the hash chain, so a
+-- write must keep every stored entry. A write that does not is refused as a
+-- serialization failure (40001), and the app reads the ticket again and
+-- retries. Requests without a user (service role, the import CLI) are not
+-- checked.
+create or replace function public.guard_ticket_history()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_history jsonb := coalesce(old.history, '[]'::jsonb);
+  v_count int := jsonb_array_length(v_history);
+begin
+  if auth.uid() is not null and (
+    jsonb_array_length(coalesce(new.history, '[]'::jsonb)) < v_count
+    or coalesce((
+      select jsonb_agg(h.e order by h.i)
+      from jsonb_array_elements(new.history) with ordinality as h(e, i)
+      where h.i <= v_count
+    ), '[]'::jsonb) <> v_history
+  ) then
+    raise exception 'Ticket "%" was changed by someone else.', old.id
+      using errcode = 'serialization_failure';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists tickets_guard_history on public.tickets;
+create trigger tickets_guard_history
+  before update on public.tickets
+  for each row execute function public.guard_ticket_history();
+
+-- Status moves now rely on the trigger for the history check.
+create or replace function public.update_ticket_status(
+  p_ticket_id text,
+  p_status text,
+  p_hold_reason text,
+  p_amount_estimate numeric,
+  p_history jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ticket tickets;
+begin
+  select * into v_ticket from tickets where id = p_ticket_id for update;
+  if v_ticket.id is null or not (
+    public.can_access_store(v_ticket.store)
+    or public.is_customer(v_ticket.customer_id::text)
+  ) then
+    raise exception 'Ticket "%" not found.', p_ticket_id;
+  end if;
+
+  update tickets
+  set status = p_status,
+      hold_reason = p_hold_reason,
+      amount_estimate = p_amount_estimate,
+      history = p_history,
+      updated_at = now()
+  where id = p_ticket_id;
+end;
+$$;
@@ -0,0 +1,87 @@
+-- Public tracking showed the details of audit entries without field
+-- changes as written, and those can name staff, parts or internal reasons.
+-- Such entries are now shown only for the actions customers are told about,
+-- with fixed text (CUSTOMER_ACTIONS in services/ticketAudit), and dropped
+-- otherwise. Everything else is as in the ticket_tracking migration.
+create or replace function public.track_ticket(p_ticket_id text, p_last4 text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ticket_id text := upper(trim(coalesce(p_ticket_id, '')));
+  -- The last x-forwarded-for entry is the address the platform's proxy saw;
+  -- the ones before it are sent by the client and can be anything.
+  v_client text := coalesce(trim(regexp_replace(
+    current_setting('request.headers', true)::json->>'x-forwarded-for', '^.*,', ''
+  )), '');
+  v_public text[] := array['status', 'store', 'holdReason', 'estimatedAmount', 'scheduledDate'];
+  v_actions jsonb := jsonb_build_object(
+    'Ticket Created', 'Service request received.',
+    'Approved', 'Service request accepted.',
+    'Quote Sent', 'A quote is ready for your approval.',
+    'Invoice Issued', 'Invoice issued.',
+    'Repair Warranty Issued', 'Warranty issued for this repair.'
+  );
+  v_row public.tickets;
+begin
+  if v_ticket_id = '' or coalesce(p_last4, '') !~ '^\d{4}$' then
+    raise exception 'Enter the ticket ID and the last 4 digits of your mobile number.';
+  end if;
+
+  if (select count(*) from tracking_attempts
+      where ticket_id = v_ticket_id and not matched
+        and attempted_at > now() - interval '15 minutes') >= 5
+    or (v_client <> '' and (select count(*) from tracking_attempts
+      where client = v_client and not matched
+        and attempted_at > now() - interval '15 minutes') >= 20)
+  then
+    raise exception 'Too many attempts. Please try again in 15 minutes.';
+  end if;
+
+  select t.* into v_row
+  from tickets t
+  join customers c on c.id = t.customer_id
+  where upper(t.id) = v_ticket_id
+    and right(regexp_replace(
+      coalesce(to_jsonb(c)->>'mobile', to_jsonb(c)->>'phone', ''), '\D', '', 'g'
+    ), 4) = p_last4;
+
+  insert into tracking_attempts (ticket_id, client, matched)
+  values (v_ticket_id, v_client, found);
+
+  if v_row.id is null then
+    return null;
+  end if;
+
+  return (to_jsonb(v_row) - array[
+      'customer_id', 'assigned_to', 'internal_progress_reason',
+      'internal_progress_note', 'bill_number', 'intake', 'brand_job',
+      'device_id', 'repeat_repair'
+    ])
+    || jsonb_build_object('history', (
+      select coalesce(jsonb_agg(
+        case when jsonb_array_length(coalesce(e->'changes', '[]'::jsonb)) = 0
+          then e - array['actorName', 'actorRole', 'hash', 'prevHash', 'details']
+            || jsonb_build_object('details', v_actions->(e->>'action'))
+          else e - array['actorName', 'actorRole', 'hash', 'prevHash', 'details']
+            || jsonb_build_object('details', '', 'changes', (
+              select jsonb_agg(ch) from jsonb_array_elements(e->'changes') ch
+              where ch->>'field' = any(v_public)
+            ))
+        end
+        order by (e->>'timestamp')::bigint
+      ), '[]'::jsonb)
+      from jsonb_array_elements(coalesce(v_row.history, '[]'::jsonb)) e
+      where (jsonb_array_length(coalesce(e->'changes', '[]'::jsonb)) = 0
+          and v_actions ? (e->>'action'))
+        or exists (
+          select 1 from jsonb_array_elements(e->'changes') ch
+          where ch->>'field' = any(v_public)
+        )
+    ));
+end;
+$$;
+
+grant execute on function public.track_ticket(text, text) to anon, authenticated;
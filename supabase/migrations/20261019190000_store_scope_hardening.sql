@@ -0,0 +1,314 @@
+-- Closes what the store_scope migration left open:
+--   - only admins change roles (as with store assignments), and `users` and
+--     `customers` get row level security
+--   - a customer's status move must be the answer to the quotation they
+--     were sent, and a customer may only answer a quotation, not edit it
+--   - staff read and add invoices and payments but no longer update or
+--     delete them; invoices are voided through `void_invoice`
+-- Requests without a user (service role, SQL editor) are not checked.
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from users u
+    where u.id::text = auth.uid()::text and u.role = 'ADMIN'
+  );
+$$;
+
+grant execute on function public.is_admin() to authenticated;
+
+-- --- USERS ---
+-- Staff see the team; admins manage it. Everyone may edit their own
+-- profile, but not their role or stores.
+create or replace function public.guard_user_stores()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (new.stores is distinct from old.stores or new.role is distinct from old.role)
+    and auth.uid() is not null
+    and not public.is_admin()
+  then
+    raise exception 'Only admins can change roles or store assignments.';
+  end if;
+  return new;
+end;
+$$;
+
+alter table public.users enable row level security;
+
+drop policy if exists users_staff_read on public.users;
+create policy users_staff_read on public.users
+  for select to authenticated
+  using (public.is_staff());
+
+drop policy if exists users_admin on public.users;
+create policy users_admin on public.users
+  for all to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+drop policy if exists users_self_update on public.users;
+create policy users_self_update on public.users
+  for update to authenticated
+  using (id::text = auth.uid()::text)
+  with check (id::text = auth.uid()::text);
+
+-- --- CUSTOMERS ---
+-- Any store may find and edit a customer. Customers read and edit their own
+-- profile, and create it when they sign up.
+alter table public.customers enable row level security;
+
+drop policy if exists customers_staff on public.customers;
+create policy customers_staff on public.customers
+  for all to authenticated
+  using (public.is_staff())
+  with check (public.is_staff());
+
+drop policy if exists customers_own_read on public.customers;
+create policy customers_own_read on public.customers
+  for select to authenticated
+  using (public.is_customer(id::text));
+
+drop policy if exists customers_own_insert on public.customers;
+create policy customers_own_insert on public.customers
+  for insert to authenticated
+  with check (public.is_customer(id::text));
+
+drop policy if exists customers_own_update on public.customers;
+create policy customers_own_update on public.customers
+  for update to authenticated
+  using (public.is_customer(id::text))
+  with check (public.is_customer(id::text));
+
+-- --- QUOTE ANSWERS ---
+-- The statuses a customer's answer moves the ticket to (Settings →
+-- Quotations). The app's settings are not stored in the database, so keep
+-- this row in step when they change there.
+create table if not exists public.quotation_settings (
+  id boolean primary key default true check (id),
+  approved_status text not null,
+  declined_status text not null
+);
+
+insert into public.quotation_settings (approved_status, declined_status)
+values ('In Progress', 'Rejected')
+on conflict (id) do nothing;
+
+alter table public.quotation_settings enable row level security;
+
+drop policy if exists quotation_settings_read on public.quotation_settings;
+create policy quotation_settings_read on public.quotation_settings
+  for select to authenticated
+  using (true);
+
+drop policy if exists quotation_settings_admin on public.quotation_settings;
+create policy quotation_settings_admin on public.quotation_settings
+  for update to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+-- A revision's total as services/billing calculateQuoteTotals works
+-- it out: each line rounded to the paisa, then the tax on the lines.
+create or replace function public.quote_revision_total(p_items jsonb)
+returns numeric
+language sql
+immutable
+as $$
+  with lines as (
+    select
+      round((i->>'quantity')::numeric * (i->>'unitPrice')::numeric, 2) as amount,
+      coalesce((i->>'taxRate')::numeric, 0) as tax_rate
+    from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) as i
+  )
+  select round(
+    coalesce(sum(amount), 0) + round(coalesce(sum(amount * tax_rate / 100), 0), 2),
+    2
+  )
+  from lines;
+$$;
+
+-- Customers may only record their answer on a sent revision: no new
+-- quotations, and no changes to lines, validity or earlier answers.
+-- Answering upserts the row, and an upsert that updates does not fire the
+-- insert trigger.
+create or replace function public.guard_customer_quotations()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_decision text[] := array['status', 'decidedAt', 'decidedBy', 'declineReason'];
+begin
+  if auth.uid() is null or public.is_staff() then
+    return new;
+  end if;
+  if tg_op = 'INSERT' then
+    raise exception 'Only staff can send quotations.';
+  end if;
+  if new.ticket_id is distinct from old.ticket_id
+    or new.customer_id is distinct from old.customer_id
+    or jsonb_array_length(new.revisions) <> jsonb_array_length(old.revisions)
+    or exists (
+      select 1
+      from jsonb_array_elements(old.revisions) with ordinality as o(e, i)
+      join jsonb_array_elements(new.revisions) with ordinality as n(e, i) using (i)
+      where (o.e - v_decision) <> (n.e - v_decision)
+        or (o.e <> n.e and not (
+          o.e->>'status' = 'Sent' and n.e->>'status' in ('Approved', 'Declined')
+        ))
+    )
+  then
+    raise exception 'Customers can only answer a quotation.';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists quotations_guard_customer_insert on public.quotations;
+create trigger quotations_guard_customer_insert
+  after insert on public.quotations
+  for each row execute function public.guard_customer_quotations();
+
+drop trigger if exists quotations_guard_customer_update on public.quotations;
+create trigger quotations_guard_customer_update
+  before update on public.quotations
+  for each row execute function public.guard_customer_quotations();
+
+-- Staff move their stores' tickets as the workflow allows. A customer's
+-- move must be their answer to the revision they were sent, as
+-- respondToQuotation makes it: the configured approved status with that
+-- revision's total as the estimate, or the declined status with the
+-- estimate unchanged. The history check is the ticket_history_guard
+-- trigger's.
+create or replace function public.update_ticket_status(
+  p_ticket_id text,
+  p_status text,
+  p_hold_reason text,
+  p_amount_estimate numeric,
+  p_history jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ticket tickets;
+  v_settings quotation_settings;
+  v_revision jsonb;
+begin
+  select * into v_ticket from tickets where id = p_ticket_id for update;
+  if v_ticket.id is null or not (
+    public.can_access_store(v_ticket.store)
+    or public.is_customer(v_ticket.customer_id::text)
+  ) then
+    raise exception 'Ticket "%" not found.', p_ticket_id;
+  end if;
+
+  if not public.can_access_store(v_ticket.store) then
+    select * into v_settings from quotation_settings;
+    select r.e into v_revision
+    from quotations q,
+      jsonb_array_elements(q.revisions) with ordinality as r(e, i)
+    where q.ticket_id = p_ticket_id and r.e->>'status' <> 'Draft'
+    order by r.i desc
+    limit 1;
+
+    if v_revision is null
+      or coalesce(p_hold_reason, '') <> ''
+      or not (
+        (p_status = v_settings.approved_status
+          and v_revision->>'status' = 'Approved'
+          and p_amount_estimate = public.quote_revision_total(v_revision->'items'))
+        or (p_status = v_settings.declined_status
+          and v_revision->>'status' = 'Declined'
+          and p_amount_estimate is not distinct from v_ticket.amount_estimate)
+      )
+    then
+      raise exception 'This quotation can no longer be answered online. Please contact the store.';
+    end if;
+  end if;
+
+  update tickets
+  set status = p_status,
+      hold_reason = p_hold_reason,
+      amount_estimate = p_amount_estimate,
+      history = p_history,
+      updated_at = now()
+  where id = p_ticket_id;
+end;
+$$;
+
+-- --- INVOICES, PAYMENTS ---
+-- Both are written once. The restrictive `_store_scope` policies stay.
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['invoices', 'payments'] loop
+    execute format('drop policy if exists %I on public.%I', v_table || '_staff_store', v_table);
+
+    execute format('drop policy if exists %I on public.%I', v_table || '_staff_read', v_table);
+    execute format(
+      'create policy %I on public.%I for select to authenticated
+         using (public.can_access_store(store))',
+      v_table || '_staff_read', v_table
+    );
+
+    execute format('drop policy if exists %I on public.%I', v_table || '_staff_insert', v_table);
+    execute format(
+      'create policy %I on public.%I for insert to authenticated
+         with check (public.can_access_store(store))',
+      v_table || '_staff_insert', v_table
+    );
+  end loop;
+end;
+$$;
+
+-- The one change an invoice takes (services/invoiceEngine voidInvoice).
+-- The voider is the signed-in staff member.
+create or replace function public.void_invoice(
+  p_invoice_id text,
+  p_void_reason text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invoice invoices;
+begin
+  select * into v_invoice from invoices where id::text = p_invoice_id for update;
+  if v_invoice.id is null or not public.can_access_store(v_invoice.store) then
+    raise exception 'Invoice "%" not found.', p_invoice_id;
+  end if;
+  if v_invoice.status = 'Void' then
+    raise exception '% is already void.', v_invoice.invoice_number;
+  end if;
+  if coalesce(trim(p_void_reason), '') = '' then
+    raise exception 'A reason is required to void an invoice.';
+  end if;
+
+  update invoices
+  set status = 'Void',
+      voided_at = (extract(epoch from now()) * 1000)::bigint,
+      voided_by = (select u.name from users u where u.id::text = auth.uid()::text),
+      void_reason = trim(p_void_reason)
+  where id = v_invoice.id;
+end;
+$$;
+
+revoke execute on function public.void_invoice(text, text) from public, anon;
+grant execute on function public.void_invoice(text, text) to authenticated;
+
+revoke all on public.users, public.customers, public.quotation_settings from anon;
@@ -9,6 +9,7 @@ export type View =
   | "supports"
   | "brand_ivoomi"
   | "brand_elista"
+  | "brand_payouts"
   | "laptop_dashboard"
   | "laptop_data"
   | "task_dashboard"
@@ -18,9 +19,74 @@ export type View =
   | "task_ratings"
   | "customer_dashboard"
   | "customer_supports"
-  | "customer_profile";
+  | "customer_profile"
+  | "invoices"
+  | "inventory"
+  | "purchasing"
+  | "transfers"
+  | "devices"
+  | "warranty_claims";
 
-export type Role = "ADMIN" | "MANAGER" | "TECHNICIAN" | "CUSTOMER";
+export type BuiltInRole = "ADMIN" | "MANAGER" | "TECHNICIAN" | "CUSTOMER";
+// Further staff roles are added in Settings → Roles & Permissions.
+export type Role = BuiltInRole | (string & {});
+
+// Named actions a staff member may take (services/permissionEngine).
+export type Capability =
+  | "ticket.create"
+  | "ticket.delete"
+  | "ticket.assign"
+  | "ticket.view_all"
+  | "customers.view"
+  | "customer.edit"
+  | "reviews.manage"
+  | "tasks.manage"
+  | "schedule.delete"
+  | "laptop.dashboard.view"
+  | "intake.record"
+  | "intake.photo.delete"
+  | "invoices.view"
+  | "invoice.issue"
+  | "invoice.void"
+  | "payment.record"
+  | "payment.refund"
+  | "inventory.manage"
+  | "inventory.consume"
+  | "purchasing.manage"
+  | "device.transfer"
+  | "devices.manage"
+  | "warranty.register"
+  | "warranty.claim.decide"
+  | "brand.payouts.manage"
+  | "reports.revenue.view"
+  | "settings.view"
+  | "settings.team.edit"
+  | "settings.catalog.edit"
+  | "settings.workflow.edit"
+  | "settings.sla.edit"
+  | "settings.quotations.edit"
+  | "settings.warranty.edit"
+  | "settings.notifications.edit"
+  | "settings.roles.edit"
+  | "settings.data.manage";
+
+export interface RoleDefinition {
+  id: Role; // what User.role stores
+  name: string;
+  capabilities: Capability[];
+}
+
+// Exceptions to one staff member's role
+export interface PermissionOverride {
+  userId: string;
+  granted: Capability[];
+  revoked: Capability[];
+}
+
+export interface PermissionConfig {
+  roles: RoleDefinition[]; // staff roles; ADMIN always has every capability
+  overrides: PermissionOverride[];
+}
 
 export interface User {
   id: string;
@@ -32,6 +98,7 @@ export interface User {
   experience?: string;
   mobile?: string;
   address?: string;
+  stores?: string[]; // Store.name; staff see no store until assigned one
 }
 
 export interface Customer {
@@ -44,6 +111,13 @@ export interface Customer {
   pincode?: string;
   notes?: any[];
   photo_url: string | null;
+  notificationsOptOut?: boolean; // no status messages to this customer
+}
+
+export interface FieldChange {
+  field: string; // Ticket key, e.g. "status"
+  from: unknown;
+  to: unknown;
 }
 
 export interface TicketHistory {
@@ -54,6 +128,11 @@ export interface TicketHistory {
   actorRole: string;
   action: string; // e.g., "Status Change", "Note Added"
   details: string; // e.g., "Changed from New to In Progress"
+
+  // Written by services/ticketAudit (absent on legacy entries)
+  changes?: FieldChange[];
+  prevHash?: string; // hash of the previous entry, chaining the log
+  hash?: string;
 }
 // Old Supabase structure
 export interface SupabaseCustomer {
@@ -101,8 +180,16 @@ export interface SupabaseTicket {
   scheduled_date: string | null;
   internal_progress_reason?: string | null;
   internal_progress_note?: string | null;
+  intake?: DeviceIntake | null;
+  device_id?: string | null;
+  repeat_repair?: RepeatRepair | null;
+  brand_job?: BrandJob | null;
+  history?: TicketHistory[] | null;
 }
 
+// ISO string, or a Firestore Timestamp when read back from Firestore
+export type StoredDate = string | { toDate: () => Date };
+
 export interface Ticket {
   id: string;
   ticketId: string; // Display ID (e.g., TKT-IF-001)
@@ -118,6 +205,7 @@ export interface Ticket {
   // Device Details
   deviceType: string;
   brand?: string;
+  brandService?: string; // Partner brand for "Brand Service" jobs
   model?: string;
   serial?: string;
   chargerIncluded?: boolean;
@@ -135,6 +223,16 @@ export interface Ticket {
   progressReason?: string;
   progressNote?: string; // Internal note for the progress status (Hidden from customer)
 
+  // Check-in (photos are kept separately as IntakePhoto)
+  intake?: DeviceIntake;
+
+  // Device registry
+  deviceId?: string; // set when the ticket has a serial
+  repeatRepair?: RepeatRepair; // same device back soon after a previous ticket
+
+  // Authorised-service work for a partner brand ("Brand Service" tickets)
+  brandJob?: BrandJob;
+
   // Warranty
   warranty: boolean;
   billNumber?: string;
@@ -143,10 +241,29 @@ export interface Ticket {
   assignedToId?: string;
   scheduledDate?: string;
 
+  // Timestamps
+  createdAt?: StoredDate;
+  resolvedAt?: StoredDate;
+
   // Audit
   history?: TicketHistory[];
 }
 
+// What the public tracking page shows (services/ticketTracking): no
+// customer details, internal notes, assignee or audit hashes.
+export interface TrackedTicket {
+  ticketId: string;
+  date: string;
+  device: string;
+  store: string;
+  status: string;
+  holdReason?: string;
+  issueDescription: string;
+  estimatedAmount: number;
+  scheduledDate?: string;
+  history: TicketHistory[]; // customer-safe entries only
+}
+
 // Schedule Task Type
 export interface Task {
   id: string;
@@ -214,11 +331,88 @@ export interface Report {
 export interface Store {
   id: string;
   name: string;
+  ticketCode?: string; // Ticket ID prefix code, e.g. "IF" -> TKT-IF-001
+  hours?: BusinessHours; // overrides SLAConfig.businessHours for this store
+  gstin?: string; // printed on this store's invoices
 }
 export interface DeviceType {
   id: string;
   name: string;
+  intakeChecklist?: IntakeCheckItem[]; // unset uses the default checklist
+}
+
+// --- DEVICE INTAKE ---
+// What was handed over at check-in, recorded against a per-device-type
+// checklist so disputes about scratches or missing parts can be settled.
+export type IntakeSection = "Accessories" | "Condition" | "Power";
+
+export type IntakeAnswer =
+  | "Received"
+  | "Missing"
+  | "Good"
+  | "Damaged"
+  | "Yes"
+  | "No"
+  | "Not Tested";
+
+export interface IntakeCheckItem {
+  id: string;
+  label: string;
+  section: IntakeSection;
+}
+
+export interface IntakeCheckResult {
+  itemId: string;
+  label: string; // at the time of check-in
+  section: IntakeSection;
+  answer: IntakeAnswer;
+  note?: string; // e.g. where the scratch is
 }
+
+export interface DeviceIntake {
+  results: IntakeCheckResult[];
+  remarks?: string;
+  recordedAt: number;
+  recordedBy: string;
+}
+
+export interface IntakePhoto {
+  id: string;
+  ticketId: string;
+  dataUrl: string; // compressed JPEG
+  caption?: string;
+  takenAt: number;
+  takenBy: string;
+}
+
+// --- DEVICE REGISTRY ---
+// One record per physical device, keyed by serial number, so its tickets and
+// laptop QC reports can be followed across owners and visits.
+export type WarrantyStatus = "Unknown" | "In Warranty" | "Out of Warranty";
+
+export interface Device {
+  id: string;
+  serial: string; // as first entered
+  serialKey: string; // normalized serial, unique
+  deviceType: string;
+  brand?: string;
+  model?: string;
+  customerId?: string; // current owner
+  customerName?: string;
+  warrantyStatus: WarrantyStatus;
+  warrantyExpiry?: string; // YYYY-MM-DD; overrides warrantyStatus once set
+  billNumber?: string; // proof of purchase
+  notes?: string;
+  registeredAt: number;
+  updatedAt?: number;
+}
+
+export interface RepeatRepair {
+  ticketId: string; // Ticket.id of the earlier ticket
+  ticketNumber: string;
+  days: number; // days between the two tickets
+}
+
 export interface TicketStatus {
   id: string;
   name: string;
@@ -236,20 +430,480 @@ export interface ProgressReason {
   id: string;
   name: string;
 }
+// Ticket workflow (Settings → Workflow)
+export type TransitionField =
+  | "billNumber"
+  | "estimatedAmount"
+  | "assignedToId"
+  | "scheduledDate"
+  | "holdReason"
+  | "reason"; // free-text note recorded in the history entry
+
+export interface WorkflowTransition {
+  id: string;
+  from: string; // status name, or "*" for any status
+  to: string;
+  roles: Role[]; // roles allowed to make this move
+  requiredFields: TransitionField[];
+}
+
+export interface WorkflowConfig {
+  initialStatus: string; // new tickets and approved portal requests
+  holdStatus: string; // selected automatically when a hold reason is set
+  resolvedStatus: string; // repair done: stamps resolvedAt, starts the repair warranty, set by invoicing
+  terminalStatuses: string[]; // closed tickets (not counted as open / overdue)
+  transitions: WorkflowTransition[];
+}
+// SLA (Settings → SLA Config). Targets are counted in business hours.
+export interface SLATarget {
+  priority: string; // matched case-insensitively against Ticket.priority
+  responseHours: number; // until the ticket first leaves the initial status
+  resolutionHours: number; // until it reaches a closed status
+  escalations?: EscalationStep[];
+}
+
+export type EscalationRecipient = "assignee" | "manager" | "admin";
+
+// "Notify <recipient> when <percent>% of the <clock> target is used"
+export interface EscalationStep {
+  id: string;
+  clock: "response" | "resolution";
+  percent: number; // e.g. 75, 100, 150
+  notify: EscalationRecipient;
+}
+
+export interface BusinessHours {
+  days: number[]; // open weekdays, 0 = Sunday
+  open: string; // "HH:MM"
+  close: string; // "HH:MM"
+}
+
+export interface Holiday {
+  id: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+  storeId?: string; // all stores when not set
+}
+
 export interface SLAConfig {
-  high: number;
-  medium: number;
-  low: number;
+  targets: SLATarget[];
+  businessHours: BusinessHours; // default for stores without their own hours
+  holidays: Holiday[];
+  pauseHoldReasons: string[]; // hold reasons that stop the clock
+}
+// Repair quotations. One quotation per ticket; every change after it has been
+// sent creates a new revision, so what the customer saw is never rewritten.
+export type QuoteLineKind = "part" | "labour";
+
+export interface QuoteLineItem {
+  id: string;
+  kind: QuoteLineKind;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  taxRate: number; // percent, e.g. 18
+  partId?: string; // inventory Part.id when the line bills a stocked part
+}
+
+export type QuoteStatus =
+  | "Draft"
+  | "Sent"
+  | "Approved"
+  | "Declined"
+  | "Superseded"
+  | "Expired"; // derived from validUntil, never stored
+
+export interface QuoteRevision {
+  revision: number; // 1, 2, 3...
+  status: QuoteStatus;
+  items: QuoteLineItem[];
+  notes?: string; // shown to the customer
+  validUntil: string; // YYYY-MM-DD, inclusive
+  createdAt: number;
+  createdBy: string;
+  sentAt?: number;
+  decidedAt?: number;
+  decidedBy?: string;
+  declineReason?: string;
+}
+
+export interface Quotation {
+  id: string;
+  ticketId: string; // Ticket.id
+  customerId: string;
+  revisions: QuoteRevision[]; // oldest first; the last one is current
+  updatedAt: number;
+}
+
+// Invoices are issued from a ticket and never edited afterwards; a mistake is
+// corrected by voiding the invoice and issuing a new one (numbers are never
+// reused).
+export type InvoiceLine = QuoteLineItem;
+
+export interface TaxBreakdown {
+  rate: number; // percent
+  taxable: number;
+  tax: number;
 }
+
+export interface Invoice {
+  id: string;
+  invoiceNumber: string; // e.g. INV-IF-0001, sequential per store code
+  ticketId: string; // Ticket.id
+  ticketNumber: string; // Ticket.ticketId at the time of issue
+  customerId: string;
+  customerName: string;
+  customerMobile: string;
+  customerAddress: string;
+  store: string;
+  date: string; // YYYY-MM-DD
+  lines: InvoiceLine[];
+  discount: number; // amount taken off before tax
+  warranty: boolean; // warranty jobs are invoiced at zero cost
+  subtotal: number;
+  taxes: TaxBreakdown[];
+  tax: number;
+  total: number;
+  status: "Issued" | "Void";
+  issuedAt: number;
+  issuedBy: string;
+  voidedAt?: number;
+  voidedBy?: string;
+  voidReason?: string;
+}
+
+// Money received against a ticket. The ledger is append-only: a payment
+// taken in error is reversed with a refund entry, never edited or deleted.
+export type PaymentKind = "Advance" | "Part Payment" | "Final" | "Refund";
+export type PaymentMode = "Cash" | "UPI" | "Card";
+
+export interface Payment {
+  id: string;
+  ticketId: string; // Ticket.id
+  ticketNumber: string; // Ticket.ticketId at the time of payment
+  customerId: string;
+  store: string;
+  invoiceId?: string; // the active invoice when the payment was taken
+  kind: PaymentKind;
+  mode: PaymentMode;
+  amount: number; // always positive; refunds are subtracted
+  reference?: string; // UPI / card transaction reference
+  note?: string;
+  date: string; // YYYY-MM-DD
+  recordedAt: number;
+  recordedBy: string;
+}
+
+// Spare parts. Stock is not stored on the part: it is the sum of the part's
+// stock movements per store, so two counters writing at once cannot lose a
+// change. Brand and device types are referenced by settings id.
+export interface Part {
+  id: string;
+  sku: string;
+  name: string;
+  brandId?: string; // Brand.id from serviceBrands; unset for generic parts
+  deviceTypeIds: string[]; // DeviceType.id; empty fits every device type
+  unitCost: number; // purchase price
+  unitPrice: number; // charged to the customer, before tax
+  taxRate: number; // percent
+  reorderLevel: number; // per store; at or below this the part is low
+  active: boolean;
+  updatedAt: number;
+}
+
+export type StockMovementKind =
+  | "Receipt"
+  | "Consumption"
+  | "Return"
+  | "Adjustment";
+
+export interface StockMovement {
+  id: string;
+  partId: string;
+  storeId: string; // Store.id
+  kind: StockMovementKind;
+  quantity: number; // signed: negative takes stock out of the store
+  ticketId?: string; // Consumption / Return
+  ticketNumber?: string;
+  purchaseOrderId?: string; // Receipt against a purchase order
+  note?: string;
+  createdAt: number;
+  createdBy: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  gstin?: string;
+  address?: string;
+  dealerId?: string; // Dealer.id when imported from Settings → laptopDealers
+  active: boolean;
+  createdAt: number;
+}
+
+// Purchase orders for restocking parts into one store. Goods are received
+// against the order in one or more receipts; each receipt adds stock as
+// "Receipt" movements. Ordered prices are the supplier's price history.
+export type PurchaseOrderStatus =
+  | "Draft"
+  | "Ordered"
+  | "Partially Received"
+  | "Received"
+  | "Cancelled";
+
+export interface PurchaseOrderLine {
+  partId: string;
+  sku: string; // at the time of ordering
+  name: string;
+  quantity: number;
+  unitCost: number; // before tax
+  received: number; // running total from receipts
+}
+
+export interface GoodsReceipt {
+  id: string;
+  lines: { partId: string; quantity: number }[];
+  note?: string;
+  receivedAt: number;
+  receivedBy: string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  poNumber: string; // e.g. PO-0001
+  supplierId: string; // empty while a draft has no supplier yet
+  supplierName: string;
+  storeId: string; // Store.id receiving the goods
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  expectedDate?: string; // YYYY-MM-DD
+  notes?: string;
+  receipts: GoodsReceipt[];
+  createdAt: number;
+  createdBy: string;
+  orderedAt?: number;
+  updatedAt: number;
+}
+
+// A device leaving the store that holds its ticket, either for another
+// store or an outside vendor, until it comes back. The sent / arrived /
+// returned stamps make up the ticket's chain of custody.
+export type TransferDestination = "Store" | "Vendor";
+
+export type TransferStatus = "In Transit" | "At Destination" | "Returned";
+
+export interface DeviceTransfer {
+  id: string;
+  ticketId: string; // Ticket.id
+  ticketNumber: string;
+  fromStoreId: string; // Store.id the device left (and returns to)
+  destination: TransferDestination;
+  toStoreId?: string; // Store.id when destination is "Store"
+  vendorName?: string; // when destination is "Vendor"
+  reason?: string;
+  carriedBy: string; // person taking the device out
+  expectedBackDate?: string; // YYYY-MM-DD
+  status: TransferStatus;
+  sentAt: number;
+  sentBy: string;
+  arrivedAt?: number;
+  arrivedBy?: string;
+  returnedAt?: number;
+  returnedBy?: string;
+  returnCarriedBy?: string;
+  returnNote?: string;
+}
+
+// Settings → Quotations: defaults for new quotes and the ticket statuses the
+// customer's decision moves a ticket to.
+export interface QuotationConfig {
+  validityDays: number;
+  defaultTaxRate: number;
+  sentStatus: string; // while waiting for the customer
+  sentHoldReason: string; // used when sentStatus is the hold status
+  approvedStatus: string;
+  declinedStatus: string;
+}
+
+// Settings → Warranty: brand coverage rules (per brand, optionally per
+// part) and the warranty the shop gives on its own repairs.
+export interface WarrantyRule {
+  id: string;
+  brandId: string; // Brand.id from serviceBrands
+  partId?: string; // Part.id; unset covers the whole device
+  label: string; // e.g. "Battery"
+  months: number;
+  covers?: string; // e.g. "Bulging, charging faults"
+  excludes?: string; // e.g. "Water damage"
+  billRequired: boolean;
+}
+
+export interface WarrantyConfig {
+  repairDays: number; // warranty on our repairs; 0 issues none
+  repairTerms: string;
+  rules: WarrantyRule[];
+}
+
+// --- WARRANTIES ---
+// A brand warranty registered against a device (from its purchase bill), or
+// the shop's own repair warranty issued when a ticket is resolved.
+export type WarrantyKind = "Brand" | "Repair";
+
+export interface WarrantyRecord {
+  id: string;
+  kind: WarrantyKind;
+  deviceId?: string;
+  serial?: string;
+  ticketId?: string; // Ticket.id it was registered on / issued for
+  ticketNumber?: string;
+  customerId?: string;
+  customerName?: string;
+  brand?: string; // Brand name, for brand warranties
+  ruleId?: string; // WarrantyRule.id
+  coverage: string; // e.g. "IVOOMI · Battery"
+  terms?: string;
+  billNumber?: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, last covered day
+  issuedAt: number;
+  issuedBy: string;
+  voidedAt?: number;
+  voidedBy?: string;
+  voidReason?: string;
+}
+
+// In-warranty brand jobs are claimed back from the brand.
+export type WarrantyClaimStatus =
+  | "Draft"
+  | "Submitted"
+  | "Approved"
+  | "Rejected"
+  | "Reimbursed";
+
+export interface WarrantyClaim {
+  id: string;
+  ticketId: string; // Ticket.id
+  ticketNumber: string;
+  warrantyId?: string; // WarrantyRecord.id the claim relies on
+  brand: string;
+  serial?: string;
+  status: WarrantyClaimStatus;
+  claimedAmount: number;
+  notes?: string;
+  claimNumber?: string; // issued by the brand on submission
+  approvedAmount?: number;
+  rejectionReason?: string;
+  reimbursedAmount?: number;
+  reimbursementRef?: string; // e.g. credit note / UTR
+  openedAt: number;
+  openedBy: string;
+  submittedAt?: number;
+  submittedBy?: string;
+  decidedAt?: number;
+  decidedBy?: string;
+  reimbursedAt?: number;
+  reimbursedBy?: string;
+}
+
+// --- BRAND SERVICE ---
+// Terms agreed with a partner brand we are an authorised service centre for.
+export interface BrandPayoutRate {
+  id: string;
+  category: string; // repair category, e.g. "Display replacement"
+  amount: number; // what the brand pays us per job
+}
+
 export interface Brand {
   id: string;
   name: string;
+  slaDays?: number; // brand's turnaround target, in days from booking
+  jobNumberRequired?: boolean;
+  payoutRates?: BrandPayoutRate[];
+}
+
+// The brand-service extension of a ticket.
+export interface BrandJob {
+  jobNumber?: string; // the brand's own job / call number
+  category?: string; // BrandPayoutRate.category
+  rate?: number; // payout for the category when it was set
+  dueDate?: string; // YYYY-MM-DD, from Brand.slaDays
+}
+
+// Money received from a brand; `jobNumbers` lists the jobs its statement
+// covers, so unpaid jobs can be found.
+export interface BrandPayout {
+  id: string;
+  brandId: string;
+  brandName: string;
+  month: string; // YYYY-MM the payout is for
+  amount: number;
+  receivedOn: string; // YYYY-MM-DD
+  reference?: string;
+  jobNumbers: string[];
+  notes?: string;
+  recordedAt: number;
+  recordedBy: string;
 }
 export interface Dealer {
   id: string;
   name: string;
 }
 
+// --- CUSTOMER NOTIFICATIONS ---
+// Status messages to customers. Templates are per ticket status; the
+// provider that delivers them is chosen with VITE_NOTIFY_PROVIDER.
+export type NotificationChannel = "sms" | "whatsapp" | "email";
+
+export interface MessageTemplate {
+  id: string;
+  status: string; // ticket status that triggers it
+  channels: NotificationChannel[];
+  subject?: string; // email only
+  body: string; // with {placeholders}, see TEMPLATE_PLACEHOLDERS
+  enabled: boolean;
+}
+
+export interface NotificationConfig {
+  templates: MessageTemplate[];
+}
+
+export type DeliveryStatus = "Sent" | "Failed" | "Skipped";
+
+// Delivery log: one entry per message and channel.
+export interface CustomerMessage {
+  id: string;
+  ticketId: string; // Ticket.id
+  ticketNumber: string;
+  customerId: string;
+  templateId?: string;
+  status: string; // ticket status the message was about
+  channel: NotificationChannel;
+  to: string; // mobile or email; "" when missing
+  subject?: string;
+  body: string;
+  delivery: DeliveryStatus;
+  provider: string;
+  providerMessageId?: string;
+  error?: string; // why it failed or was skipped
+  sentAt: number;
+  sentBy: string;
+}
+
+// In-app notifications (Header bell)
+export interface AppNotification {
+  id: string; // escalations use a fixed ID so each step fires only once
+  userId: string;
+  ticketId: string; // Ticket.id, used for the deep link
+  title: string;
+  message: string;
+  level: "info" | "warning" | "critical";
+  createdAt: number;
+  read: boolean;
+}
+
 // AI Support Types
 export interface SupportGuideline {
   id: string;
@@ -267,7 +921,12 @@ export interface AppSettings {
   progressReasons: ProgressReason[];
   serviceBrands: Brand[];
   laptopDealers: Dealer[];
+  workflow: WorkflowConfig;
   sla: SLAConfig;
+  quotation: QuotationConfig;
+  warranty: WarrantyConfig;
+  notifications: NotificationConfig;
+  permissions: PermissionConfig;
   teamMembers: User[];
   supportGuidelines: SupportGuideline[];
 }
@@ -281,11 +940,39 @@ export const initialSettings: AppSettings = {
   progressReasons: [],
   serviceBrands: [],
   laptopDealers: [],
+  workflow: {
+    initialStatus: "New",
+    holdStatus: "On Hold",
+    resolvedStatus: "Resolved",
+    terminalStatuses: [],
+    transitions: [],
+  },
   teamMembers: [],
   supportGuidelines: [],
   sla: {
-    high: 1,
-    medium: 3,
-    low: 5,
+    targets: [],
+    businessHours: { days: [1, 2, 3, 4, 5, 6], open: "10:00", close: "19:00" },
+    holidays: [],
+    pauseHoldReasons: [],
+  },
+  quotation: {
+    validityDays: 7,
+    defaultTaxRate: 18,
+    sentStatus: "On Hold",
+    sentHoldReason: "Approval Pending",
+    approvedStatus: "In Progress",
+    declinedStatus: "Rejected",
+  },
+  warranty: {
+    repairDays: 90,
+    repairTerms: "",
+    rules: [],
+  },
+  notifications: {
+    templates: [],
+  },
+  permissions: {
+    roles: [],
+    overrides: [],
   },
 };
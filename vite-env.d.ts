@@ -3,6 +3,9 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string;
   readonly VITE_SUPABASE_ANON_KEY: string;
+  readonly VITE_DATA_BACKEND?: "firestore" | "supabase";
+  readonly VITE_NOTIFY_PROVIDER?: "log" | "webhook";
+  readonly VITE_CUSTOMER_AUTH?: "supabase" | "local";
 }
 
 interface ImportMeta {